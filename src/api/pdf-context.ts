@@ -13,7 +13,7 @@ import type { EmbeddedFont } from "#src/fonts/embedded-font";
 import type { PdfDict } from "#src/objects/pdf-dict";
 import type { PdfObject } from "#src/objects/pdf-object";
 import type { PdfRef } from "#src/objects/pdf-ref";
-import type { StandardSecurityHandler } from "#src/security/standard-handler";
+import type { SecurityHandler } from "#src/security/security-handler";
 
 import type { PDFCatalog } from "./pdf-catalog";
 import type { PDFPageTree } from "./pdf-page-tree";
@@ -37,7 +37,7 @@ export interface DocumentInfo {
   /** Trailer dictionary */
   trailer: PdfDict;
   /** Security handler (if encrypted) */
-  securityHandler: StandardSecurityHandler | null;
+  securityHandler: SecurityHandler | null;
 }
 
 /**
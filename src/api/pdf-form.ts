@@ -62,6 +62,8 @@ import { PdfName } from "#src/objects/pdf-name";
 import { PdfNumber } from "#src/objects/pdf-number";
 import { PdfRef } from "#src/objects/pdf-ref";
 import { PdfString } from "#src/objects/pdf-string";
+import { buildLockDict, buildSeedValueDict } from "#src/signatures/field-constraints";
+import type { SignatureFieldLock, SignatureSeedValues } from "#src/signatures/types";
 
 import type { PDFContext } from "./pdf-context";
 
@@ -239,9 +241,21 @@ export interface ListboxOptions extends FieldOptions {
  * Options for creating a signature field.
  */
 export interface SignatureFieldOptions extends FieldOptions {
-  // Signature fields typically don't have styling options since
-  // they are usually invisible or show signature appearance after signing.
-  // Extend FieldOptions for consistency with border/background.
+  /**
+   * Fields to lock (make read-only) when this field is signed.
+   *
+   * Signing the field adds a FieldMDP transform so later changes to the
+   * locked fields invalidate the signature.
+   */
+  lock?: SignatureFieldLock;
+
+  /**
+   * Constraints on how this field may be signed.
+   *
+   * Enforced by `pdf.sign()` for constraints listed in `required`; the rest
+   * fill in sign options left unspecified.
+   */
+  seedValues?: SignatureSeedValues;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -461,12 +475,19 @@ export class PDFForm {
    * @param options - Signature field options
    * @returns The created signature field
    * @throws {Error} If a field with the same name already exists
+   * @throws {SignatureError} If `lock` uses include/exclude without field names
    *
    * @example
    * ```typescript
    * const form = await pdf.getForm();
    * const sigField = form.createSignatureField("Signature1");
    * // Later: sign the field via PDFSignature
+   *
+   * // Lock the amount fields once signed, and require a SHA-256 signature
+   * form.createSignatureField("Approval", {
+   *   lock: { action: "include", fields: ["amount", "currency"] },
+   *   seedValues: { digestAlgorithms: ["SHA-256"], required: ["digestAlgorithms"] },
+   * });
    * ```
    */
   createSignatureField(name: string, options: SignatureFieldOptions = {}): SignatureField {
@@ -483,6 +504,14 @@ export class PDFForm {
     // Store styling metadata (even though sig fields are usually invisible)
     this.storeFieldStyling(fieldDict, options);
 
+    if (options.lock) {
+      fieldDict.set("Lock", this._ctx.registry.register(buildLockDict(options.lock)));
+    }
+
+    if (options.seedValues) {
+      fieldDict.set("SV", this._ctx.registry.register(buildSeedValueDict(options.seedValues)));
+    }
+
     // Register the field and add to AcroForm
     const fieldRef = this._ctx.registry.register(fieldDict);
     this._acroForm.addField(fieldRef);
@@ -77,7 +77,12 @@ import { PathBuilder } from "#src/drawing/path-builder";
 import type { PDFFormXObject, PDFPattern, PDFShading } from "#src/drawing/resources/index";
 import { PDFExtGState } from "#src/drawing/resources/index";
 import { serializeOperators } from "#src/drawing/serialize";
-import { layoutJustifiedLine, layoutText, measureText } from "#src/drawing/text-layout";
+import {
+  encodeTextForFont,
+  layoutJustifiedLine,
+  layoutText,
+  measureText,
+} from "#src/drawing/text-layout";
 import type {
   DrawCircleOptions,
   DrawEllipseOptions,
@@ -94,7 +99,6 @@ import { EmbeddedFont } from "#src/fonts/embedded-font";
 import { parseFont } from "#src/fonts/font-factory";
 import type { PdfFont } from "#src/fonts/pdf-font";
 import {
-  getEncodingForStandard14,
   getStandard14BasicMetrics,
   isStandard14Font,
   isWinAnsiStandard14,
@@ -116,6 +120,8 @@ import {
   showText,
 } from "#src/helpers/operators";
 import * as operatorHelpers from "#src/helpers/operators";
+import type { ExtractedImage } from "#src/images/extracted-image";
+import { ImageExtractor } from "#src/images/image-extractor";
 import type { PDFImage } from "#src/images/pdf-image";
 import { PdfArray } from "#src/objects/pdf-array";
 import { PdfDict } from "#src/objects/pdf-dict";
@@ -124,10 +130,22 @@ import { PdfNumber } from "#src/objects/pdf-number";
 import { PdfRef } from "#src/objects/pdf-ref";
 import { PdfStream } from "#src/objects/pdf-stream";
 import { PdfString } from "#src/objects/pdf-string";
+import { analyzeLayout } from "#src/text/layout-analyzer";
 import { getPlainText, groupCharsIntoLines } from "#src/text/line-grouper";
+import { readStructureOrder, type StructureOrder } from "#src/text/structure-order";
+import type { Table } from "#src/text/table";
+import { detectTables } from "#src/text/table-detector";
 import { TextExtractor } from "#src/text/text-extractor";
 import { searchPage } from "#src/text/text-search";
-import type { ExtractTextOptions, FindTextOptions, PageText, TextMatch } from "#src/text/types";
+import type {
+  ExtractedChar,
+  ExtractTablesOptions,
+  ExtractTextOptions,
+  FindTextOptions,
+  PageText,
+  Ruling,
+  TextMatch,
+} from "#src/text/types";
 
 import type { PDFContext } from "./pdf-context";
 import type { PDFEmbeddedPage } from "./pdf-embedded-page";
@@ -218,6 +236,9 @@ export interface DrawFieldOptions {
   option?: string;
 }
 
+/** Reading order of each structure tree, read on the first extraction */
+const structureOrders = new WeakMap<PdfDict, StructureOrder>();
+
 /**
  * PDFPage wraps a page dictionary with convenient accessors.
  */
@@ -1200,7 +1221,7 @@ export class PDFPage {
 
           for (const pw of positioned) {
             ops.push(setTextMatrix(1, 0, 0, 1, x + pw.x, lineY));
-            ops.push(showText(this.encodeTextForFont(pw.word, font)));
+            ops.push(showText(encodeTextForFont(pw.word, font)));
           }
 
           continue;
@@ -1209,7 +1230,7 @@ export class PDFPage {
 
       // Normal line drawing
       ops.push(setTextMatrix(1, 0, 0, 1, lineX, lineY));
-      ops.push(showText(this.encodeTextForFont(line.text, font)));
+      ops.push(showText(encodeTextForFont(line.text, font)));
     }
 
     ops.push(endText());
@@ -2744,48 +2765,36 @@ export class PDFPage {
     throw new Error("Unknown font type");
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Image Extraction
+  // ─────────────────────────────────────────────────────────────────────────────
+
   /**
-   * Encode text to a PDF string for the given font.
+   * Get the images painted on this page.
+   *
+   * Walks the page content, including nested Form XObjects, and returns
+   * every image placement in painting order: image XObjects and inline
+   * images, with their dictionary details and where they land on the page.
+   * An image drawn twice appears twice, with the same `ref`.
+   *
+   * @returns Image placements
+   *
+   * @example
+   * ```typescript
+   * for (const image of page.getImages()) {
+   *   console.log(`${image.width}x${image.height} ${image.colorSpace}`, image.bbox);
    *
-   * Standard 14 fonts use WinAnsiEncoding (or SymbolEncoding/ZapfDingbatsEncoding).
-   * Unencodable characters are substituted with .notdef (byte 0x00).
-   * Embedded fonts use Identity-H encoding with glyph IDs.
+   *   const { format, data } = image.export(); // PNG, or JPEG for DCT images
+   * }
+   * ```
    */
-  private encodeTextForFont(text: string, font: FontInput): PdfString {
-    if (typeof font === "string") {
-      // Standard 14 font - use the appropriate encoding
-      const encoding = getEncodingForStandard14(font);
-      const codes: number[] = [];
-
-      for (const char of text) {
-        if (encoding.canEncode(char)) {
-          // biome-ignore lint/style/noNonNullAssertion: canEncode guarantees getCode succeeds
-          codes.push(encoding.getCode(char.codePointAt(0)!)!);
-        } else {
-          // Substitute unencodable characters with .notdef (byte 0x00)
-          codes.push(0x00);
-        }
-      }
-
-      const bytes = new Uint8Array(codes);
-
-      // Use hex format for defense-in-depth: hex strings are pure ASCII
-      // and immune to any string encoding transformation
-      return PdfString.fromBytes(bytes);
-    }
-
-    // Embedded font - use Identity-H encoding with GIDs
-    // With CIDToGIDMap /Identity, the content stream must contain glyph IDs
-    const gids = font.encodeTextToGids(text);
-    const bytes = new Uint8Array(gids.length * 2);
-
-    for (let i = 0; i < gids.length; i++) {
-      const gid = gids[i];
-      bytes[i * 2] = (gid >> 8) & 0xff;
-      bytes[i * 2 + 1] = gid & 0xff;
-    }
+  getImages(): ExtractedImage[] {
+    const extractor = new ImageExtractor({
+      pageIndex: this.index,
+      resolve: this.ctx.resolve.bind(this.ctx),
+    });
 
-    return PdfString.fromBytes(bytes);
+    return extractor.extract(this.getContentBytes(), this.resolveInheritedResources());
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -2796,7 +2805,9 @@ export class PDFPage {
    * Extract all text content from this page.
    *
    * Returns structured text with line/span organization and position information.
-   * The plain text is available in the `text` property.
+   * The plain text is available in the `text` property. Text inside Form
+   * XObjects is included, and marked content with /ActualText reads as
+   * that text.
    *
    * @param options - Extraction options
    * @returns Page text with structured content and positions
@@ -2810,18 +2821,13 @@ export class PDFPage {
    * for (const line of pageText.lines) {
    *   console.log(`Line at y=${line.baseline}: "${line.text}"`);
    * }
+   *
+   * // Include stamps, comments and filled-in form fields
+   * const withAnnotations = page.extractText({ includeAnnotations: true });
    * ```
    */
-  extractText(_options: ExtractTextOptions = {}): PageText {
-    // Get content stream bytes
-    const contentBytes = this.getContentBytes();
-
-    // Create font resolver
-    const resolveFont = this.createFontResolver();
-
-    // Extract characters
-    const extractor = new TextExtractor({ resolveFont });
-    const chars = extractor.extract(contentBytes);
+  extractText(options: ExtractTextOptions = {}): PageText {
+    const { chars } = this.extractChars(options.includeAnnotations ?? false, false);
 
     // Group into lines and spans
     const lines = groupCharsIntoLines(chars);
@@ -2829,12 +2835,19 @@ export class PDFPage {
     // Build plain text
     const text = getPlainText(lines);
 
+    // Find blocks and paragraphs, in the structure tree's order if tagged
+    const { blocks, paragraphs } = analyzeLayout(chars, {
+      structure: this.getStructureOrder()?.get(this.ref.toString()),
+    });
+
     return {
       pageIndex: this.index,
       width: this.width,
       height: this.height,
       lines,
       text,
+      blocks,
+      paragraphs,
     };
   }
 
@@ -2858,11 +2871,92 @@ export class PDFPage {
    * ```
    */
   findText(query: string | RegExp, options: FindTextOptions = {}): TextMatch[] {
-    const pageText = this.extractText();
+    const pageText = this.extractText({ includeAnnotations: options.includeAnnotations });
 
     return searchPage(pageText, query, options);
   }
 
+  /**
+   * Find the tables on this page.
+   *
+   * Ruled tables are found from the lines and rectangles drawn around and
+   * between their cells, with merged cells where a rule is missing. Tables
+   * without rules are found from text lined up in columns.
+   *
+   * @param options - Detection options
+   * @returns Tables, top to bottom
+   *
+   * @example
+   * ```typescript
+   * const tables = page.extractTables();
+   *
+   * for (const table of tables) {
+   *   console.log(table.toArray());
+   * }
+   *
+   * const csv = tables[0].toCSV();
+   * const json = JSON.stringify(tables[0]);
+   * ```
+   */
+  extractTables(options: ExtractTablesOptions = {}): Table[] {
+    const { chars, rulings } = this.extractChars(false, true);
+
+    return detectTables(chars, rulings, { ...options, pageIndex: this.index });
+  }
+
+  /**
+   * Extract the page's characters, following Form XObjects, and optionally
+   * its annotations' and the rulings its paths paint.
+   */
+  private extractChars(
+    includeAnnotations: boolean,
+    collectRulings: boolean,
+  ): { chars: ExtractedChar[]; rulings: Ruling[] } {
+    const resolve = this.ctx.resolve.bind(this.ctx);
+    const extractor = new TextExtractor({
+      resolveFont: this.createFontResolver(),
+      resolve,
+      collectRulings,
+    });
+    let chars = extractor.extract(this.getContentBytes(), this.resolveInheritedResources());
+
+    if (includeAnnotations) {
+      const annots = this.dict.getArray("Annots", resolve);
+
+      for (const entry of annots?.toArray() ?? []) {
+        const annotation = entry instanceof PdfRef ? resolve(entry) : entry;
+
+        if (annotation instanceof PdfDict) {
+          chars = extractor.extractAnnotation(annotation);
+        }
+      }
+    }
+
+    return { chars, rulings: extractor.getRulings() };
+  }
+
+  /**
+   * Get the document's structure reading order, or null if it isn't tagged.
+   * Read once per structure tree and shared by its pages.
+   */
+  private getStructureOrder(): StructureOrder | null {
+    const resolve = this.ctx.resolve.bind(this.ctx);
+    const root = this.ctx.catalog.getDict().getDict("StructTreeRoot", resolve);
+
+    if (!root) {
+      return null;
+    }
+
+    let order = structureOrders.get(root);
+
+    if (!order) {
+      order = readStructureOrder(root, resolve);
+      structureOrders.set(root, order);
+    }
+
+    return order;
+  }
+
   /**
    * Get the concatenated content stream bytes.
    */
@@ -2931,8 +3025,10 @@ export class PDFPage {
    *
    * PDF pages can inherit Resources from parent Pages nodes (see PDF spec 7.7.3.4).
    * This method checks the page first, then walks up the Parent chain.
+   *
+   * @internal Also used by the image optimizer.
    */
-  private resolveInheritedResources(): PdfDict | null {
+  resolveInheritedResources(): PdfDict | null {
     // Start with the page dict
     let currentDict: PdfDict | null = this.dict;
 
@@ -2959,38 +3055,31 @@ export class PDFPage {
 
   /**
    * Create a font resolver function for text extraction.
+   *
+   * Fonts are looked up in the resources in scope (the page's, or a Form
+   * XObject's) and parsed once per font dictionary.
    */
-  private createFontResolver(): (name: string) => PdfFont | null {
-    // Get the page's Font resources (may be a ref or inherited from parent)
-    const resourcesDict = this.resolveInheritedResources();
-
-    if (!resourcesDict) {
-      return () => null;
-    }
+  private createFontResolver(): (name: string, resources: PdfDict | null) => PdfFont | null {
+    const resolve = this.ctx.resolve.bind(this.ctx);
+    const fontCache = new Map<PdfDict, PdfFont>();
 
-    const font = resourcesDict.getDict("Font", this.ctx.resolve.bind(this.ctx));
+    return (name: string, resources: PdfDict | null): PdfFont | null => {
+      const entryDict = resources?.getDict("Font", resolve)?.getDict(name, resolve);
 
-    if (!font) {
-      return () => null;
-    }
-
-    // Preload all font dictionaries and build the cache
-    const fontCache = new Map<string, PdfFont>();
-
-    for (const [key, entry] of font) {
-      const name = key.value;
-      const resolved = entry instanceof PdfRef ? this.ctx.resolve(entry) : entry;
+      if (!entryDict) {
+        return null;
+      }
 
-      let entryDict = resolved instanceof PdfDict ? resolved : null;
+      const cached = fontCache.get(entryDict);
 
-      if (!entryDict) {
-        continue;
+      if (cached) {
+        return cached;
       }
 
       // Parse ToUnicode CMap if present
       let toUnicodeMap = null;
 
-      const toUnicode = entryDict.get("ToUnicode", this.ctx.resolve.bind(this.ctx));
+      const toUnicode = entryDict.get("ToUnicode", resolve);
       const toUnicodeStream = toUnicode instanceof PdfStream ? toUnicode : null;
 
       if (toUnicodeStream) {
@@ -3002,16 +3091,11 @@ export class PDFPage {
       }
 
       // Parse the font
-      const pdfFont = parseFont(entryDict, {
-        resolver: this.ctx.resolve.bind(this.ctx),
-        toUnicodeMap,
-      });
+      const pdfFont = parseFont(entryDict, { resolver: resolve, toUnicodeMap });
 
-      fontCache.set(name, pdfFont);
-    }
+      fontCache.set(entryDict, pdfFont);
 
-    return (name: string): PdfFont | null => {
-      return fontCache.get(name) ?? null;
+      return pdfFont;
     };
   }
 }
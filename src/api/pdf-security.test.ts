@@ -11,9 +11,13 @@
  *
  * Uses fixtures from fixtures/encryption/ with known passwords:
  * - PasswordSample-*.pdf: owner="owner", user="user"
+ *
+ * Certificate encryption uses fixtures/certificates/test-signer-aes256.p12
+ * (password "test123") as the recipient.
  */
 
 import { PermissionDeniedError } from "#src/security/errors";
+import { P12Signer } from "#src/signatures/signers";
 import { loadFixture } from "#src/test-utils";
 import { describe, expect, it } from "vitest";
 
@@ -467,4 +471,131 @@ describe("PDF security API", () => {
       expect(unauthenticated.isAuthenticated).toBe(false);
     });
   });
+
+  describe("certificate encryption", () => {
+    async function loadRecipient() {
+      const p12 = await loadFixture("certificates", "test-signer-aes256.p12");
+      const signer = await P12Signer.create(p12, "test123");
+
+      return { p12, certificate: signer.certificate };
+    }
+
+    it("encrypts to a recipient and opens with a PKCS#12 credential", async () => {
+      const { p12, certificate } = await loadRecipient();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setTitle("For recipients only");
+      pdf.setProtection({ recipients: [{ certificate }] });
+
+      const savedBytes = await pdf.save();
+
+      const unauthenticated = await PDF.load(savedBytes);
+      expect(unauthenticated.isEncrypted).toBe(true);
+      expect(unauthenticated.isAuthenticated).toBe(false);
+
+      const reloaded = await PDF.load(savedBytes, {
+        credentials: { type: "p12", data: p12, password: "test123" },
+      });
+
+      expect(reloaded.isAuthenticated).toBe(true);
+      expect(reloaded.hasOwnerAccess()).toBe(true);
+      expect(reloaded.getTitle()).toBe("For recipients only");
+
+      const security = reloaded.getSecurity();
+      expect(security.filter).toBe("Adobe.PubSec");
+      expect(security.algorithm).toBe("AES-256");
+      expect(security.hasUserPassword).toBe(false);
+    });
+
+    it("opens with a certificate credential", async () => {
+      const { p12, certificate } = await loadRecipient();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setProtection({ recipients: [{ certificate }], algorithm: "AES-128" });
+
+      const savedBytes = await pdf.save();
+      const credential = await (await P12Signer.create(p12, "test123")).toCredential();
+      const reloaded = await PDF.load(savedBytes, { credentials: credential });
+
+      expect(reloaded.isAuthenticated).toBe(true);
+      expect(reloaded.getSecurity().algorithm).toBe("AES-128");
+      expect(reloaded.getPageCount()).toBe(pdf.getPageCount());
+    });
+
+    it("supports the adbe.pkcs7.s4 SubFilter", async () => {
+      const { p12, certificate } = await loadRecipient();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setTitle("RC4");
+      pdf.setProtection({ recipients: [{ certificate }], subFilter: "adbe.pkcs7.s4" });
+
+      const reloaded = await PDF.load(await pdf.save(), {
+        credentials: { type: "p12", data: p12, password: "test123" },
+      });
+
+      expect(reloaded.getSecurity().algorithm).toBe("RC4-128");
+      expect(reloaded.getTitle()).toBe("RC4");
+    });
+
+    it("applies per-recipient permissions", async () => {
+      const { p12, certificate } = await loadRecipient();
+      const other = await loadFixture("certificates", "real/amazon-0.der");
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setProtection({
+        recipients: [
+          { certificate: other },
+          { certificate, permissions: { copy: false, modify: false } },
+        ],
+      });
+
+      const reloaded = await PDF.load(await pdf.save(), {
+        credentials: { type: "p12", data: p12, password: "test123" },
+      });
+
+      const perms = reloaded.getPermissions();
+      expect(perms.print).toBe(true);
+      expect(perms.copy).toBe(false);
+      expect(perms.modify).toBe(false);
+      expect(reloaded.hasOwnerAccess()).toBe(false);
+    });
+
+    it("preserves certificate encryption when re-saving", async () => {
+      const { p12, certificate } = await loadRecipient();
+      const credentials = { type: "p12" as const, data: p12, password: "test123" };
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setProtection({ recipients: [{ certificate }] });
+
+      const opened = await PDF.load(await pdf.save(), { credentials });
+      opened.setTitle("Re-saved");
+
+      const reloaded = await PDF.load(await opened.save(), { credentials });
+
+      expect(reloaded.getSecurity().filter).toBe("Adobe.PubSec");
+      expect(reloaded.getTitle()).toBe("Re-saved");
+    });
+
+    it("rejects a wrong PKCS#12 password", async () => {
+      const { p12, certificate } = await loadRecipient();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setProtection({ recipients: [{ certificate }] });
+
+      const savedBytes = await pdf.save();
+
+      await expect(
+        PDF.load(savedBytes, { credentials: { type: "p12", data: p12, password: "wrong" } }),
+      ).rejects.toThrow(/Failed to unlock PKCS#12 credential/);
+    });
+
+    it("rejects passwords combined with recipients", async () => {
+      const { certificate } = await loadRecipient();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      pdf.setProtection({ userPassword: "secret", recipients: [{ certificate }] });
+
+      await expect(pdf.save()).rejects.toThrow(/cannot be combined with passwords/);
+    });
+  });
 });
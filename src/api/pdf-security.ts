@@ -26,6 +26,28 @@ export type EncryptionAlgorithmOption = "RC4-40" | "RC4-128" | "AES-128" | "AES-
  */
 export type PermissionOptions = Partial<Permissions>;
 
+/**
+ * SubFilters for certificate (public-key) encryption.
+ *
+ * - adbe.pkcs7.s5: AES-128 or AES-256 via crypt filters (PDF 1.6+)
+ * - adbe.pkcs7.s4: RC4-40 or RC4-128, for older readers
+ */
+export type PublicKeySubFilterOption = "adbe.pkcs7.s4" | "adbe.pkcs7.s5";
+
+/**
+ * A recipient of a certificate-encrypted document.
+ */
+export interface ProtectionRecipient {
+  /** Recipient's X.509 certificate (DER, RSA key) */
+  certificate: Uint8Array;
+
+  /**
+   * What this recipient may do.
+   * Omitted permissions default to true (allowed).
+   */
+  permissions?: PermissionOptions;
+}
+
 /**
  * Options for adding or changing document protection.
  */
@@ -60,6 +82,21 @@ export interface ProtectionOptions {
    * @default true
    */
   encryptMetadata?: boolean;
+
+  /**
+   * Encrypt to these certificates instead of passwords (public-key
+   * security handler, /Adobe.PubSec).
+   *
+   * Each recipient opens the document with their private key and gets
+   * their own permissions. Cannot be combined with passwords or `permissions`.
+   */
+  recipients?: ProtectionRecipient[];
+
+  /**
+   * SubFilter for certificate encryption (only with `recipients`).
+   * @default "adbe.pkcs7.s5"
+   */
+  subFilter?: PublicKeySubFilterOption;
 }
 
 /**
@@ -78,6 +115,9 @@ export interface SecurityInfo {
   /** Security handler revision (2-6) */
   revision?: number;
 
+  /** Security handler: passwords ("Standard") or certificates ("Adobe.PubSec") */
+  filter?: "Standard" | "Adobe.PubSec";
+
   /** Whether a user password is set (non-empty) */
   hasUserPassword?: boolean;
 
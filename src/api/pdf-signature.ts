@@ -10,21 +10,39 @@
  * - Adding document timestamps for archival (B-LTA)
  */
 
-import { SignatureField } from "#src/document/forms/fields";
-import { hexToBytes } from "#src/helpers/buffer.ts";
-import { formatPdfDate } from "#src/helpers/format.ts";
+import { FieldFlags, SignatureField } from "#src/document/forms/fields";
+import { bytesToHex, hexToBytes } from "#src/helpers/buffer.ts";
+import { hexValue } from "#src/helpers/chars";
+import { formatPdfDate, parsePdfDate } from "#src/helpers/format.ts";
 import { generateUniqueName } from "#src/helpers/strings";
+import type { RefResolver } from "#src/helpers/types";
 import { PdfArray } from "#src/objects/pdf-array";
 import { PdfDict } from "#src/objects/pdf-dict";
 import { PdfName } from "#src/objects/pdf-name";
 import { PdfNumber } from "#src/objects/pdf-number";
-import type { PdfRef } from "#src/objects/pdf-ref";
+import { PdfRef } from "#src/objects/pdf-ref";
 import { PdfString } from "#src/objects/pdf-string";
+import { createSignatureAppearanceStream } from "#src/signatures/appearance";
+import {
+  applySeedValueDefaults,
+  checkSeedValues,
+  createFieldMdpReference,
+  isFieldLocked,
+  readLockDict,
+  readSeedValues,
+  type SeedValueOptions,
+} from "#src/signatures/field-constraints";
 import { CAdESDetachedBuilder } from "#src/signatures/formats/cades-detached";
 import { PKCS7DetachedBuilder } from "#src/signatures/formats/pkcs7-detached";
-import type { CMSFormatBuilder } from "#src/signatures/formats/types";
-import { DSSBuilder, type LtvData, LtvDataGatherer } from "#src/signatures/ltv";
+import type { CMSFormatBuilder, CMSSignedData } from "#src/signatures/formats/types";
+import {
+  DSSBuilder,
+  type LtvData,
+  LtvDataGatherer,
+  readDssValidationData,
+} from "#src/signatures/ltv";
 import {
+  type ByteRangeValues,
   calculateByteRange,
   createByteRangePlaceholderObject,
   createContentsPlaceholderObject,
@@ -33,13 +51,30 @@ import {
   findPlaceholders,
   patchByteRange,
   patchContents,
+  type PlaceholderInfo,
 } from "#src/signatures/placeholder";
 import { DefaultRevocationProvider } from "#src/signatures/revocation";
 import {
+  type AddLtvDataOptions,
+  type CertificateValidationResult,
+  type CompleteSignatureOptions,
   type DigestAlgorithm,
+  type DocMdpPermission,
+  type DocumentTimestampOptions,
   type PAdESLevel,
+  type PrepareSigningOptions,
+  type PreparedSignature,
   type RevocationProvider,
+  type SignatureAppearance,
   SignatureError,
+  type SignatureFieldLock,
+  type SignatureInfo,
+  type SignatureSeedValues,
+  type SignatureVerificationIssue,
+  type SignatureVerificationOptions,
+  type SignatureVerificationResult,
+  type SignerIdentity,
+  type SigningState,
   type SignOptions,
   type SignResult,
   type SignWarning,
@@ -47,8 +82,16 @@ import {
   type TimestampAuthority,
 } from "#src/signatures/types";
 import { escapePdfString, hashData } from "#src/signatures/utils";
+import { validateCertificateChain } from "#src/signatures/validation";
+import {
+  type CmsVerificationResult,
+  getCertificateCommonName,
+  verifyCmsSignature,
+  verifyTimestampToken,
+} from "#src/signatures/verify";
 
 import type { PDF } from "./pdf";
+import type { Rectangle } from "./pdf-page";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper functions (moved from sign.ts)
@@ -62,17 +105,32 @@ interface ResolvedSignOptions {
   subFilter: SubFilter;
   estimatedSize: number;
   signingTime: Date;
-  signer: SignOptions["signer"];
+  signer: SignerIdentity;
   reason?: string;
   location?: string;
   contactInfo?: string;
   fieldName?: string;
+  certify?: DocMdpPermission;
+  appearance?: SignatureAppearance;
   timestampAuthority?: SignOptions["timestampAuthority"];
   longTermValidation: boolean;
   revocationProvider?: RevocationProvider;
   archivalTimestamp: boolean;
+  requiresTimestamp: boolean;
 }
 
+/**
+ * Options for the steps after the CMS structure is built.
+ */
+type FinishOptions = Pick<
+  ResolvedSignOptions,
+  | "digestAlgorithm"
+  | "timestampAuthority"
+  | "longTermValidation"
+  | "revocationProvider"
+  | "archivalTimestamp"
+>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // PDFSignature class
 // ─────────────────────────────────────────────────────────────────────────────
@@ -117,23 +175,242 @@ export class PDFSignature {
    * @returns Sign result with warnings (bytes are in the PDF instance)
    */
   async sign(options: SignOptions): Promise<SignResult> {
+    const { pdfBytes, placeholders, documentHash, resolved, warnings } =
+      await this.writePlaceholder(options, false);
+
+    // Build CMS signature
+    const formatBuilder = this.getFormatBuilder(resolved.subFilter);
+
+    // Create the CMS structure (signs the document)
+    // Note: PDFBox includes signingTime even when using a timestamp.
+    // The timestamp provides the authoritative time, but signingTime
+    // may be needed for Adobe to recognize the timestamp token.
+    const signedData = await formatBuilder.create({
+      signer: options.signer,
+      documentHash,
+      digestAlgorithm: resolved.digestAlgorithm,
+      signingTime: resolved.signingTime,
+    });
+
+    return this.finishSignature(pdfBytes, placeholders, signedData, resolved, warnings);
+  }
+
+  /**
+   * Prepare the document for a signature produced elsewhere.
+   *
+   * Writes the signature dictionary and placeholder exactly as sign() does,
+   * then stops before signing: the returned signed attributes are what the
+   * external key must sign. Pass the prepared bytes, the state and the
+   * signature value to complete() - possibly in another process.
+   *
+   * The PDF instance is reloaded with the prepared bytes.
+   *
+   * @param options Signing options; the signer only needs its certificate
+   * @returns Prepared bytes, digests, signed attributes and serializable state
+   */
+  async prepare(options: PrepareSigningOptions): Promise<PreparedSignature> {
+    const { pdfBytes, byteRange, documentHash, resolved, warnings } = await this.writePlaceholder(
+      options,
+      true,
+    );
+
+    const signedAttributes = this.getFormatBuilder(resolved.subFilter).encodeSignedAttributes({
+      signer: resolved.signer,
+      documentHash,
+      digestAlgorithm: resolved.digestAlgorithm,
+      signingTime: resolved.signingTime,
+    });
+
+    await this.pdf.reload(pdfBytes);
+
+    return {
+      bytes: pdfBytes,
+      digest: documentHash,
+      signedAttributes,
+      signedAttributesDigest: hashData(signedAttributes, resolved.digestAlgorithm),
+      state: {
+        version: 1,
+        subFilter: resolved.subFilter,
+        digestAlgorithm: resolved.digestAlgorithm,
+        certificate: bytesToHex(resolved.signer.certificate),
+        certificateChain: (resolved.signer.certificateChain ?? []).map(bytesToHex),
+        keyType: resolved.signer.keyType,
+        signatureAlgorithm: resolved.signer.signatureAlgorithm,
+        byteRange: [byteRange.offset1, byteRange.length1, byteRange.offset2, byteRange.length2],
+        digest: bytesToHex(documentHash),
+        signedAttributes: bytesToHex(signedAttributes),
+        timestamp: resolved.requiresTimestamp,
+        longTermValidation: resolved.longTermValidation,
+        archivalTimestamp: resolved.archivalTimestamp,
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Complete a signature prepared with prepare().
+   *
+   * Checks that the bytes are the prepared document and that the signature
+   * value verifies against the signer's certificate, then embeds the CMS
+   * structure. Timestamps and long-term validation data are added as
+   * requested when preparing.
+   *
+   * The PDF instance must have been loaded from `bytes`; it is reloaded with
+   * the signed bytes.
+   *
+   * @param bytes The prepared PDF bytes
+   * @param state The state returned by prepare()
+   * @param signatureValue Signature over the signed attributes
+   * @param options Timestamp authority and revocation provider
+   * @returns Sign result with the final bytes
+   * @throws {SignatureError} INVALID_SIGNING_STATE if the state or bytes don't
+   *   match, INVALID_SIGNATURE_VALUE if the signature doesn't verify
+   */
+  async complete(
+    bytes: Uint8Array,
+    state: SigningState,
+    signatureValue: Uint8Array,
+    options: CompleteSignatureOptions = {},
+  ): Promise<SignResult> {
+    if (state.version !== 1 || !Array.isArray(state.byteRange)) {
+      throw new SignatureError("INVALID_SIGNING_STATE", "Unrecognized signing state");
+    }
+
+    // The placeholder is still all zeros
+    const byteRangeIssue = this.validateByteRange(state.byteRange, bytes, new Uint8Array(0));
+
+    if (byteRangeIssue) {
+      throw new SignatureError(
+        "INVALID_SIGNING_STATE",
+        `Bytes do not match the signing state: ${byteRangeIssue.message}`,
+      );
+    }
+
+    const [offset1, length1, offset2, length2] = state.byteRange;
+    const signedBytes = extractSignedBytes(bytes, { offset1, length1, offset2, length2 });
+
+    if (bytesToHex(hashData(signedBytes, state.digestAlgorithm)) !== state.digest.toUpperCase()) {
+      throw new SignatureError(
+        "INVALID_SIGNING_STATE",
+        "Bytes do not match the signing state: the document changed after it was prepared",
+      );
+    }
+
+    if (state.timestamp && !options.timestampAuthority) {
+      throw new SignatureError(
+        "INVALID_OPTIONS",
+        "The signature was prepared for a timestamped PAdES level and requires a timestampAuthority",
+      );
+    }
+
+    const signedData = this.getFormatBuilder(state.subFilter).assemble({
+      signer: {
+        certificate: hexToBytes(state.certificate),
+        certificateChain: state.certificateChain.map(hexToBytes),
+        keyType: state.keyType,
+        signatureAlgorithm: state.signatureAlgorithm,
+      },
+      digestAlgorithm: state.digestAlgorithm,
+      signedAttributes: hexToBytes(state.signedAttributes),
+      signatureValue,
+    });
+
+    // Catch a wrong key or signature encoding now rather than in a reader
+    const check = await verifyCmsSignature(signedData.toDER(), signedBytes);
+
+    if (!check.signatureValid) {
+      throw new SignatureError(
+        "INVALID_SIGNATURE_VALUE",
+        "Signature value does not verify against the signer certificate and signed attributes",
+      );
+    }
+
+    // The Contents hex string sits between the two signed ranges
+    const placeholders: PlaceholderInfo = {
+      byteRangeStart: 0,
+      byteRangeLength: 0,
+      contentsStart: length1 + 1,
+      contentsLength: offset2 - length1 - 2,
+    };
+
+    return this.finishSignature(
+      bytes.slice(),
+      placeholders,
+      signedData,
+      {
+        digestAlgorithm: state.digestAlgorithm,
+        timestampAuthority: options.timestampAuthority,
+        longTermValidation: state.longTermValidation,
+        revocationProvider: options.revocationProvider,
+        archivalTimestamp: state.archivalTimestamp,
+      },
+      [],
+    );
+  }
+
+  /**
+   * Write the signature dictionary and field, save, and patch the ByteRange.
+   *
+   * Shared by sign() and prepare(): everything up to the document digest.
+   *
+   * @param options Sign options (the signer's key isn't used)
+   * @param deferTimestamp Whether the timestamp authority comes later
+   */
+  private async writePlaceholder(
+    options: SeedValueOptions,
+    deferTimestamp: boolean,
+  ): Promise<{
+    pdfBytes: Uint8Array;
+    placeholders: PlaceholderInfo;
+    byteRange: ByteRangeValues;
+    documentHash: Uint8Array;
+    resolved: ResolvedSignOptions;
+    warnings: SignWarning[];
+  }> {
     const warnings: SignWarning[] = [];
 
+    // Read constraints declared by the field being signed
+    const targetField = this.findUnsignedSignatureField(options.fieldName);
+    const { lock, seedValues } = targetField
+      ? this.readFieldConstraints(targetField)
+      : { lock: undefined, seedValues: undefined };
+
+    if (seedValues) {
+      options = applySeedValueDefaults(options, seedValues);
+    }
+
     // Resolve and validate options
-    const resolved = this.resolveOptions(options);
+    const resolved = this.resolveOptions(options, deferTimestamp);
 
-    // Check for MDP violations
-    const mdpWarning = this.checkMdpViolation();
+    if (seedValues) {
+      await checkSeedValues(seedValues, resolved);
+    }
+
+    if (resolved.certify && this.getSignatures().length > 0) {
+      throw new SignatureError(
+        "CERTIFICATION_NOT_FIRST",
+        "A certification signature must be the first signature in the document",
+      );
+    }
+
+    // Check whether an existing certification permits this signature
+    const mdpWarning = this.checkMdpViolation(targetField === null);
 
     if (mdpWarning) {
       warnings.push(mdpWarning);
     }
 
-    // Get first page reference (for widget annotation placement)
-    const firstPageRef = this.pdf.context.pages.getPage(0);
+    // Get the page for the widget annotation (first page unless placed visibly)
+    const pageIndex = resolved.appearance?.page ?? 0;
+    const pageRef = this.pdf.context.pages.getPage(pageIndex);
 
-    if (!firstPageRef) {
-      throw new Error("Document has no pages - cannot create signature field");
+    if (!pageRef) {
+      throw pageIndex === 0
+        ? new Error("Document has no pages - cannot create signature field")
+        : new SignatureError(
+            "INVALID_OPTIONS",
+            `Appearance page ${pageIndex} does not exist (document has ${this.pdf.getPageCount()} pages)`,
+          );
     }
 
     // Create signature dictionary with placeholders
@@ -161,13 +438,50 @@ export class PDFSignature {
       signatureDict.set("ContactInfo", PdfString.fromString(escapePdfString(resolved.contactInfo)));
     }
 
+    const references: PdfDict[] = [];
+
+    if (resolved.certify) {
+      references.push(createDocMdpReference(resolved.certify));
+    }
+
+    if (lock && targetField) {
+      references.push(createFieldMdpReference(lock));
+      this.applyFieldLock(lock, targetField);
+    }
+
+    if (references.length > 0) {
+      signatureDict.set("Reference", new PdfArray(references));
+    }
+
     const signatureRef = this.pdf.context.registry.register(signatureDict);
 
+    if (resolved.certify) {
+      this.registerCertification(signatureRef);
+    }
+
     // Find or create signature field
     this.findOrCreateSignatureField({
       fieldName: resolved.fieldName,
-      pageRef: firstPageRef,
+      pageRef,
       signatureRef,
+      appearance: resolved.appearance && {
+        rect: resolved.appearance.rect,
+        streamRef: this.pdf.context.registry.register(
+          createSignatureAppearanceStream(this.pdf.context, resolved.appearance, {
+            name:
+              resolved.appearance.name === false
+                ? undefined
+                : (resolved.appearance.name ??
+                  getCertificateCommonName(resolved.signer.certificate)),
+            date:
+              resolved.appearance.date === false
+                ? undefined
+                : (resolved.appearance.date ?? resolved.signingTime),
+            reason: resolved.appearance.reason ?? resolved.reason,
+            location: resolved.appearance.location ?? resolved.location,
+          }),
+        ),
+      },
     });
 
     // Save incrementally to get bytes with placeholders
@@ -184,20 +498,22 @@ export class PDFSignature {
     const signedBytes = extractSignedBytes(pdfBytes, byteRange);
     const documentHash = hashData(signedBytes, resolved.digestAlgorithm);
 
-    // Build CMS signature
-    const formatBuilder = this.getFormatBuilder(resolved.subFilter);
-
-    // Create the CMS structure (signs the document)
-    // Note: PDFBox includes signingTime even when using a timestamp.
-    // The timestamp provides the authoritative time, but signingTime
-    // may be needed for Adobe to recognize the timestamp token.
-    const signedData = await formatBuilder.create({
-      signer: resolved.signer,
-      documentHash,
-      digestAlgorithm: resolved.digestAlgorithm,
-      signingTime: resolved.signingTime,
-    });
+    return { pdfBytes, placeholders, byteRange, documentHash, resolved, warnings };
+  }
 
+  /**
+   * Embed a CMS signature into the prepared bytes and add what follows it.
+   *
+   * Adds the signature timestamp, patches /Contents, reloads the PDF, and
+   * writes DSS and archival timestamp updates as requested.
+   */
+  private async finishSignature(
+    pdfBytes: Uint8Array,
+    placeholders: PlaceholderInfo,
+    signedData: CMSSignedData,
+    resolved: FinishOptions,
+    warnings: SignWarning[],
+  ): Promise<SignResult> {
     // If timestamp authority is configured, add timestamp token
     if (resolved.timestampAuthority) {
       // Hash the signature value for timestamping
@@ -279,6 +595,298 @@ export class PDFSignature {
     };
   }
 
+  /**
+   * List all signatures in the document.
+   *
+   * Walks the form's signature fields and describes each signed one.
+   * Signatures are returned in the order they were applied (by the end of
+   * their signed byte range), so the last entry is the newest.
+   *
+   * @returns Signature descriptions (nothing is verified)
+   */
+  getSignatures(): SignatureInfo[] {
+    const form = this.pdf.getForm();
+
+    if (!form) {
+      return [];
+    }
+
+    const bytes = this.pdf.getOriginalBytes();
+    const resolve = this.pdf.context.registry.resolve.bind(this.pdf.context.registry);
+    const signatures: SignatureInfo[] = [];
+
+    for (const field of form.getFields()) {
+      if (!(field instanceof SignatureField) || !field.isSigned()) {
+        continue;
+      }
+
+      const sigDict = field.getSignatureDict();
+
+      if (!sigDict) {
+        continue;
+      }
+
+      const byteRange: number[] = [];
+
+      for (const item of sigDict.getArray("ByteRange", resolve) ?? []) {
+        if (item instanceof PdfNumber) {
+          byteRange.push(item.value);
+        }
+      }
+
+      const type = sigDict.getName("Type", resolve)?.value;
+      const subFilter = sigDict.getName("SubFilter", resolve)?.value;
+      const modified = sigDict.getString("M", resolve)?.asString();
+
+      signatures.push({
+        fieldName: field.name,
+        kind: type === "DocTimeStamp" || subFilter === "ETSI.RFC3161" ? "timestamp" : "signature",
+        filter: sigDict.getName("Filter", resolve)?.value,
+        subFilter,
+        byteRange,
+        contents: sigDict.getString("Contents", resolve)?.bytes ?? new Uint8Array(0),
+        coversWholeDocument: this.coversWholeDocument(byteRange, bytes),
+        name: sigDict.getString("Name", resolve)?.asString(),
+        reason: sigDict.getString("Reason", resolve)?.asString(),
+        location: sigDict.getString("Location", resolve)?.asString(),
+        contactInfo: sigDict.getString("ContactInfo", resolve)?.asString(),
+        modificationDate: modified ? parsePdfDate(modified) : undefined,
+        docMdpPermission: getDocMdpPermission(sigDict, resolve),
+      });
+    }
+
+    return signatures.sort((a, b) => byteRangeEnd(a.byteRange) - byteRangeEnd(b.byteRange));
+  }
+
+  /**
+   * Verify the cryptographic integrity of every signature in the document.
+   *
+   * For each signature, recomputes the digest over its ByteRange and checks
+   * it against the CMS structure in /Contents, then verifies the signer's
+   * signature. Document timestamps are checked against their RFC 3161
+   * message imprint.
+   *
+   * When options are given, each signer's certificate chain is also
+   * validated against the trust anchors, using certificates from the CMS
+   * structure and validation data from the DSS before going online.
+   *
+   * Verification runs against the bytes the document was loaded from;
+   * unsaved modifications are not considered.
+   *
+   * @param options - Trust settings; omit to check integrity only
+   * @returns One result per signature, in the order they were applied
+   */
+  async verify(options?: SignatureVerificationOptions): Promise<SignatureVerificationResult[]> {
+    const bytes = this.pdf.getOriginalBytes();
+    const results: SignatureVerificationResult[] = [];
+
+    for (const info of this.getSignatures()) {
+      const result = await this.verifySignature(info, bytes);
+
+      if (options && result.signerCertificate) {
+        result.chain = await this.validateSignerChain(result, options);
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Validate the signer's certificate chain for a verified signature.
+   */
+  private async validateSignerChain(
+    result: SignatureVerificationResult,
+    options: SignatureVerificationOptions,
+  ): Promise<CertificateValidationResult | undefined> {
+    if (!result.signerCertificate) {
+      return undefined;
+    }
+
+    const catalog = this.pdf.getCatalog();
+    const dss = catalog
+      ? await readDssValidationData(catalog, this.pdf.context.registry, result.contents)
+      : { certificates: [], ocspResponses: [], crls: [] };
+
+    // A valid timestamp proves the signature existed at that time, so the
+    // chain only needs to have been valid then
+    let validationTime: Date;
+
+    if (options.validationTime instanceof Date) {
+      validationTime = options.validationTime;
+    } else if (result.timestamp?.valid) {
+      validationTime = result.timestamp.time;
+    } else {
+      validationTime = new Date();
+    }
+
+    return validateCertificateChain(
+      result.signerCertificate,
+      { ...options, validationTime },
+      {
+        certificates: [...result.certificates, ...dss.certificates],
+        ocspResponses: dss.ocspResponses,
+        crls: dss.crls,
+      },
+    );
+  }
+
+  /**
+   * Verify a single signature against the document bytes.
+   */
+  private async verifySignature(
+    info: SignatureInfo,
+    bytes: Uint8Array,
+  ): Promise<SignatureVerificationResult> {
+    const byteRangeIssue = this.validateByteRange(info.byteRange, bytes, info.contents);
+
+    if (byteRangeIssue) {
+      return {
+        ...info,
+        integrity: false,
+        digestValid: false,
+        signatureValid: false,
+        signerCertificate: null,
+        certificates: [],
+        signingTime: info.modificationDate,
+        issues: [byteRangeIssue],
+      };
+    }
+
+    const [offset1, length1, offset2, length2] = info.byteRange;
+    const signedBytes = extractSignedBytes(bytes, { offset1, length1, offset2, length2 });
+
+    let cms: CmsVerificationResult;
+
+    if (info.kind === "timestamp") {
+      const tsResult = await verifyTimestampToken(info.contents, signedBytes);
+
+      cms = { ...tsResult.cms, timestamp: tsResult.timestamp ?? undefined };
+    } else {
+      cms = await verifyCmsSignature(info.contents, signedBytes);
+    }
+
+    return {
+      ...info,
+      integrity: cms.digestValid && cms.signatureValid,
+      digestValid: cms.digestValid,
+      signatureValid: cms.signatureValid,
+      digestAlgorithm: cms.digestAlgorithm,
+      signerCertificate: cms.signerCertificate,
+      signerName: cms.signerCertificate
+        ? getCertificateCommonName(cms.signerCertificate)
+        : undefined,
+      certificates: cms.certificates,
+      signingTime: cms.signingTime ?? info.modificationDate,
+      timestamp: cms.timestamp,
+      issues: cms.issues,
+    };
+  }
+
+  /**
+   * Check that a ByteRange is well-formed for the given file.
+   *
+   * The range must start at 0, stay within the file, and its single gap
+   * must be exactly the /Contents hex string (delimited by `<` and `>`).
+   * The gap may hold nothing but hex digits that decode to `contents`
+   * followed by zero padding, so a different signature can't be spliced
+   * into the unsigned bytes (signature wrapping).
+   */
+  private validateByteRange(
+    byteRange: number[],
+    bytes: Uint8Array,
+    contents: Uint8Array,
+  ): SignatureVerificationIssue | null {
+    if (byteRange.length !== 4) {
+      return {
+        code: "INVALID_BYTE_RANGE",
+        message: `ByteRange must have 4 entries, got ${byteRange.length}`,
+      };
+    }
+
+    const [offset1, length1, offset2, length2] = byteRange;
+
+    if (
+      offset1 !== 0 ||
+      length1 <= 0 ||
+      offset2 <= length1 ||
+      length2 < 0 ||
+      offset2 + length2 > bytes.length
+    ) {
+      return {
+        code: "INVALID_BYTE_RANGE",
+        message: `ByteRange [${byteRange.join(" ")}] is out of bounds for a ${bytes.length}-byte file`,
+      };
+    }
+
+    // '<' = 0x3C, '>' = 0x3E
+    if (bytes[length1] !== 0x3c || bytes[offset2 - 1] !== 0x3e) {
+      return {
+        code: "INVALID_BYTE_RANGE",
+        message: "ByteRange gap does not match the /Contents hex string",
+      };
+    }
+
+    const hexLength = offset2 - length1 - 2;
+
+    if (hexLength % 2 !== 0 || hexLength / 2 < contents.length) {
+      return {
+        code: "INVALID_BYTE_RANGE",
+        message: "ByteRange gap does not match the /Contents hex string",
+      };
+    }
+
+    for (let i = 0; i < hexLength / 2; i++) {
+      const high = hexValue(bytes[length1 + 1 + i * 2]);
+      const low = hexValue(bytes[length1 + 2 + i * 2]);
+
+      if (high < 0 || low < 0 || (high << 4) + low !== (contents[i] ?? 0)) {
+        return {
+          code: "INVALID_BYTE_RANGE",
+          message: "ByteRange gap holds data other than the signature's /Contents",
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a signature's byte range reaches the end of the file.
+   *
+   * Trailing whitespace after the final %%EOF is tolerated.
+   */
+  private coversWholeDocument(byteRange: number[], bytes: Uint8Array): boolean {
+    if (byteRange.length !== 4) {
+      return false;
+    }
+
+    const end = byteRangeEnd(byteRange);
+
+    if (end > bytes.length) {
+      return false;
+    }
+
+    for (let i = end; i < bytes.length; i++) {
+      const byte = bytes[i];
+
+      // NUL, TAB, LF, FF, CR, space
+      if (
+        byte !== 0x00 &&
+        byte !== 0x09 &&
+        byte !== 0x0a &&
+        byte !== 0x0c &&
+        byte !== 0x0d &&
+        byte !== 0x20
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
   /**
    * Find or create a signature field.
    */
@@ -286,28 +894,29 @@ export class PDFSignature {
     fieldName?: string;
     pageRef: PdfRef;
     signatureRef: PdfRef;
+    appearance?: { rect: Rectangle; streamRef: PdfRef };
   }): void {
-    const { fieldName, pageRef, signatureRef } = options;
+    const { fieldName, pageRef, signatureRef, appearance } = options;
 
     const form = this.pdf.getOrCreateForm();
 
     const existingNames = new Set<string>();
 
-    let fieldDict: PdfDict | undefined;
+    let field: SignatureField | undefined;
 
     const fields = form.getFields();
 
-    for (const field of fields) {
-      existingNames.add(field.name);
+    for (const existing of fields) {
+      existingNames.add(existing.name);
 
       // If requested name matches an existing field
-      if (fieldName && field.name === fieldName) {
-        if (field instanceof SignatureField) {
-          if (field.isSigned()) {
+      if (fieldName && existing.name === fieldName) {
+        if (existing instanceof SignatureField) {
+          if (existing.isSigned()) {
             throw new Error(`Signature field "${fieldName}" is already signed`);
           }
 
-          fieldDict = field.getDict(); // Use existing unsigned field
+          field = existing; // Use existing unsigned field
           break;
         }
 
@@ -315,18 +924,20 @@ export class PDFSignature {
       }
 
       // If no name requested, look for first empty signature field
-      if (!fieldName && field instanceof SignatureField && !field.isSigned()) {
-        fieldDict = field.getDict();
+      if (!fieldName && existing instanceof SignatureField && !existing.isSigned()) {
+        field = existing;
         break;
       }
     }
 
-    if (!fieldDict) {
-      fieldDict = form
-        .createSignatureField(fieldName ?? generateUniqueName(existingNames, "Signature_"))
-        .getDict();
+    if (!field) {
+      field = form.createSignatureField(
+        fieldName ?? generateUniqueName(existingNames, "Signature_"),
+      );
     }
 
+    const fieldDict = field.getDict();
+
     // Set signature value
     fieldDict.set("V", signatureRef);
 
@@ -339,44 +950,304 @@ export class PDFSignature {
     fieldDict.set("Subtype", PdfName.of("Widget"));
     fieldDict.set("F", PdfNumber.of(132)); // Print + Locked (4 + 128)
     fieldDict.set("P", pageRef);
+
+    if (!appearance) {
+      fieldDict.set(
+        "Rect",
+        new PdfArray([PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0)]),
+      );
+
+      return;
+    }
+
+    const { x, y, width, height } = appearance.rect;
+
     fieldDict.set(
       "Rect",
-      new PdfArray([PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0)]),
+      new PdfArray([
+        PdfNumber.of(x),
+        PdfNumber.of(y),
+        PdfNumber.of(x + width),
+        PdfNumber.of(y + height),
+      ]),
     );
+    fieldDict.set("AP", PdfDict.of({ N: appearance.streamRef }));
+
+    // Visible widgets must be listed in the page's /Annots
+    const fieldRef = field.getRef();
+    const pageDict = this.pdf.context.registry.resolve(pageRef);
+
+    if (fieldRef && pageDict instanceof PdfDict) {
+      const registry = this.pdf.context.registry;
+      let annots = pageDict.getArray("Annots", registry.resolve.bind(registry));
+
+      if (!annots) {
+        annots = new PdfArray([]);
+        pageDict.set("Annots", annots);
+      }
+
+      const listed = [...annots].some(
+        item =>
+          item instanceof PdfRef &&
+          item.objectNumber === fieldRef.objectNumber &&
+          item.generation === fieldRef.generation,
+      );
+
+      if (!listed) {
+        annots.push(fieldRef);
+      }
+    }
   }
 
   /**
-   * Check for MDP (certification signature) violations.
+   * Find the existing empty signature field that signing would fill.
+   * Mirrors the lookup in findOrCreateSignatureField.
+   *
+   * @returns The field, or null if signing will create a new one
    */
-  private checkMdpViolation(): SignWarning | null {
+  private findUnsignedSignatureField(fieldName?: string): SignatureField | null {
     const form = this.pdf.getForm();
 
     if (!form) {
       return null;
     }
 
-    const fields = form.getFields();
+    for (const field of form.getFields()) {
+      if (!(field instanceof SignatureField) || field.isSigned()) {
+        continue;
+      }
 
-    for (const field of fields) {
-      if (field instanceof SignatureField && field.isSigned()) {
-        const sigDict = field.getSignatureDict();
+      if (!fieldName || field.name === fieldName) {
+        return field;
+      }
+    }
 
-        if (sigDict) {
-          const reference = sigDict.getArray("Reference");
+    return null;
+  }
 
-          if (reference) {
-            return {
-              code: "MDP_VIOLATION",
-              message: "Document has a certification signature that may restrict modifications",
-            };
-          }
-        }
+  /**
+   * Read the /Lock and /SV constraints of a signature field.
+   */
+  private readFieldConstraints(field: SignatureField): {
+    lock?: SignatureFieldLock;
+    seedValues?: SignatureSeedValues;
+  } {
+    const registry = this.pdf.context.registry;
+    const resolve = registry.resolve.bind(registry);
+    const dict = field.acroField();
+
+    const lockDict = dict.getDict("Lock", resolve);
+    const svDict = dict.getDict("SV", resolve);
+
+    return {
+      lock: lockDict ? readLockDict(lockDict, resolve) : undefined,
+      seedValues: svDict ? readSeedValues(svDict, resolve) : undefined,
+    };
+  }
+
+  /**
+   * Mark the fields covered by a lock as read-only.
+   */
+  private applyFieldLock(lock: SignatureFieldLock, signingField: SignatureField): void {
+    for (const field of this.pdf.getForm()?.getFields() ?? []) {
+      if (field === signingField || !isFieldLocked(lock, field.name)) {
+        continue;
       }
+
+      field.acroField().set("Ff", PdfNumber.of(field.flags | FieldFlags.READ_ONLY));
+    }
+  }
+
+  /**
+   * Get the DocMDP permission level of the document's certification signature.
+   *
+   * Looks up the signature referenced by the catalog's /Perms /DocMDP entry,
+   * falling back to any signed field with a DocMDP reference (some writers
+   * omit /Perms).
+   *
+   * @returns The permission level, or null if the document isn't certified
+   */
+  getDocMdpPermission(): DocMdpPermission | null {
+    const registry = this.pdf.context.registry;
+    const resolve = registry.resolve.bind(registry);
+
+    const certification = this.pdf
+      .getCatalog()
+      ?.getDict("Perms", resolve)
+      ?.getDict("DocMDP", resolve);
+
+    if (certification) {
+      return getDocMdpPermission(certification, resolve) ?? null;
+    }
+
+    for (const field of this.pdf.getForm()?.getFields() ?? []) {
+      if (!(field instanceof SignatureField) || !field.isSigned()) {
+        continue;
+      }
+
+      const sigDict = field.getSignatureDict();
+      const permission = sigDict ? getDocMdpPermission(sigDict, resolve) : undefined;
+
+      if (permission) {
+        return permission;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether adding a signature is permitted by an existing certification.
+   *
+   * Under P=1 no changes are allowed at all. Under P=2 signing is allowed,
+   * but only into existing signature fields - a new field adds an annotation,
+   * which only P=3 permits. Adding DSS data and document timestamps is always
+   * allowed (ISO 32000-2, 12.8.2.2.2) and isn't checked here.
+   *
+   * @param createsField - Whether the signature needs a new signature field
+   * @returns A warning describing the violation, or null if the change is allowed
+   */
+  private checkMdpViolation(createsField: boolean): SignWarning | null {
+    const permission = this.getDocMdpPermission();
+
+    if (permission === 1) {
+      return {
+        code: "MDP_VIOLATION",
+        message:
+          "Document is certified with P=1 (no changes permitted); adding a signature will invalidate the certification",
+      };
+    }
+
+    if (permission === 2 && createsField) {
+      return {
+        code: "MDP_VIOLATION",
+        message:
+          "Document is certified with P=2 (form filling and signing); signing is permitted only in an existing empty signature field, and creating a new one will invalidate the certification",
+      };
     }
 
     return null;
   }
 
+  /**
+   * Register a certification signature in the catalog's /Perms dictionary.
+   */
+  private registerCertification(signatureRef: PdfRef): void {
+    const catalog = this.pdf.getCatalog();
+
+    if (!catalog) {
+      throw new Error("Document has no catalog");
+    }
+
+    const registry = this.pdf.context.registry;
+    let perms = catalog.getDict("Perms", registry.resolve.bind(registry));
+
+    if (!perms) {
+      perms = new PdfDict();
+      catalog.set("Perms", perms);
+    }
+
+    perms.set("DocMDP", signatureRef);
+  }
+
+  /**
+   * Add a standalone document timestamp.
+   *
+   * Timestamps the document as it stands, whether or not it is signed. With
+   * long-term validation, validation data for the existing signatures and
+   * timestamps is embedded first, so the new timestamp covers it too.
+   *
+   * After timestamping, the PDF instance is reloaded with the new bytes.
+   *
+   * @param options Timestamp authority and validation options
+   * @returns The timestamped bytes and any warnings
+   */
+  async timestamp(options: DocumentTimestampOptions): Promise<SignResult> {
+    const { timestampAuthority, revocationProvider, digestAlgorithm = "SHA-256" } = options;
+    const warnings: SignWarning[] = [];
+
+    if (options.longTermValidation) {
+      await this.addExistingLtvData(revocationProvider, warnings);
+    }
+
+    const token = await this.addDocumentTimestamp(
+      timestampAuthority,
+      digestAlgorithm,
+      options.fieldName,
+    );
+
+    if (options.longTermValidation) {
+      const ltvData = await this.gatherTimestampLtvData(token, revocationProvider, warnings);
+
+      if (ltvData) {
+        await this.addDss(ltvData);
+      }
+    }
+
+    const bytes = await this.pdf.save({ incremental: true });
+
+    return { bytes, warnings };
+  }
+
+  /**
+   * Add long-term validation data for the existing signatures.
+   *
+   * Gathers certificate chains, OCSP responses and CRLs for every signature
+   * and document timestamp, and merges them into the DSS with VRI entries.
+   * Upgrades B-B/B-T signatures made elsewhere to B-LT without re-signing.
+   *
+   * After adding the data, the PDF is reloaded with the updated bytes.
+   *
+   * @param options Revocation provider
+   * @returns The updated bytes and any warnings
+   */
+  async addLtvData(options: AddLtvDataOptions = {}): Promise<SignResult> {
+    const warnings: SignWarning[] = [];
+
+    const added = await this.addExistingLtvData(options.revocationProvider, warnings);
+
+    if (added === 0 && this.getSignatures().length === 0) {
+      warnings.push({
+        code: "NO_SIGNATURES",
+        message: "Document has no signatures to add validation data for",
+      });
+    }
+
+    const bytes = await this.pdf.save({ incremental: true });
+
+    return { bytes, warnings };
+  }
+
+  /**
+   * Gather LTV data for every signature and document timestamp in the
+   * document and write it to the DSS in one incremental update.
+   *
+   * @returns Number of signatures validation data was added for
+   */
+  private async addExistingLtvData(
+    revocationProvider: RevocationProvider | undefined,
+    warnings: SignWarning[],
+  ): Promise<number> {
+    const existing: LtvData[] = [];
+
+    for (const info of this.getSignatures()) {
+      const ltvData =
+        info.kind === "timestamp"
+          ? await this.gatherTimestampLtvData(info.contents, revocationProvider, warnings)
+          : await this.gatherSignatureLtvData(info.contents, revocationProvider, warnings);
+
+      if (ltvData) {
+        existing.push(ltvData);
+      }
+    }
+
+    if (existing.length > 0) {
+      await this.addDss(...existing);
+    }
+
+    return existing.length;
+  }
+
   /**
    * Add DSS (Document Security Store) for long-term validation.
    *
@@ -385,9 +1256,9 @@ export class PDFSignature {
    *
    * After adding DSS, the PDF is reloaded with the updated bytes.
    *
-   * @param ltvData The validation data to embed
+   * @param ltvData The validation data to embed (one entry per signature)
    */
-  async addDss(ltvData: LtvData): Promise<void> {
+  async addDss(...ltvData: LtvData[]): Promise<void> {
     const registry = this.pdf.context.registry;
 
     // Get catalog
@@ -401,7 +1272,9 @@ export class PDFSignature {
     const dssBuilder = await DSSBuilder.fromCatalog(catalogDict, registry);
 
     // Add the LTV data (handles deduplication and VRI entries)
-    await dssBuilder.addLtvData(ltvData);
+    for (const data of ltvData) {
+      await dssBuilder.addLtvData(data);
+    }
 
     // Build and register DSS
     const dssRef = dssBuilder.build();
@@ -422,11 +1295,13 @@ export class PDFSignature {
    *
    * @param timestampAuthority The timestamp authority to use
    * @param digestAlgorithm Digest algorithm (defaults to SHA-256)
+   * @param fieldName Timestamp field name (defaults to a new "DocTimeStamp_N")
    * @returns The timestamp token bytes (for gathering LTV data)
    */
   async addDocumentTimestamp(
     timestampAuthority: TimestampAuthority,
     digestAlgorithm: DigestAlgorithm = "SHA-256",
+    fieldName?: string,
   ): Promise<Uint8Array> {
     const estimatedSize = DEFAULT_PLACEHOLDER_SIZE;
     const registry = this.pdf.context.registry;
@@ -449,20 +1324,20 @@ export class PDFSignature {
 
     const timestampRef = registry.register(timestampDict);
 
-    // Create signature field for timestamp
-    const fieldName = `DocTimeStamp_${Date.now()}`;
-    const fieldDict = PdfDict.of({
-      Type: PdfName.of("Annot"),
-      Subtype: PdfName.of("Widget"),
-      FT: PdfName.of("Sig"),
-      T: PdfString.fromString(fieldName),
-      V: timestampRef,
-      F: PdfNumber.of(132),
-      P: firstPageRef,
-      Rect: new PdfArray([PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0)]),
-    });
+    // Create the (invisible) timestamp field. Always name it, so an empty
+    // signature field meant for a signer isn't used up.
+    const existingNames = new Set(
+      this.pdf
+        .getForm()
+        ?.getFields()
+        .map(field => field.name),
+    );
 
-    registry.register(fieldDict);
+    this.findOrCreateSignatureField({
+      fieldName: fieldName ?? generateUniqueName(existingNames, "DocTimeStamp_"),
+      pageRef: firstPageRef,
+      signatureRef: timestampRef,
+    });
 
     // Save to get bytes with placeholders
     const savedBytes = await this.pdf.save({ incremental: true });
@@ -495,10 +1370,40 @@ export class PDFSignature {
     return paddedTimestampBytes;
   }
 
+  /**
+   * Gather LTV data for an existing signature, including its embedded
+   * signature timestamp.
+   */
+  private async gatherSignatureLtvData(
+    contents: Uint8Array,
+    revocationProvider: RevocationProvider | undefined,
+    warnings: SignWarning[],
+  ): Promise<LtvData | null> {
+    const gatherer = new LtvDataGatherer({
+      revocationProvider: revocationProvider ?? new DefaultRevocationProvider(),
+    });
+
+    try {
+      const ltvData = await gatherer.gather(contents);
+
+      for (const warning of ltvData.warnings) {
+        warnings.push({ code: warning.code, message: warning.message });
+      }
+
+      return ltvData;
+    } catch (error) {
+      warnings.push({
+        code: "SIGNATURE_LTV_FAILED",
+        message: `Could not gather LTV data for existing signature: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return null;
+    }
+  }
+
   /**
    * Gather LTV data for a timestamp token.
    *
-   * Used for B-LTA to add validation data for the document timestamp.
+   * Used for document timestamps (B-LTA and `timestamp()`).
    */
   private async gatherTimestampLtvData(
     timestampToken: Uint8Array,
@@ -540,8 +1445,10 @@ export class PDFSignature {
 
   /**
    * Validate and resolve sign options.
+   *
+   * @param deferTimestamp Skip the timestamp authority check (it's supplied later)
    */
-  private resolveOptions(options: SignOptions): ResolvedSignOptions {
+  private resolveOptions(options: SeedValueOptions, deferTimestamp = false): ResolvedSignOptions {
     // Apply PAdES level defaults
     if (options.level) {
       const levelDefaults = this.resolvePAdESLevel(options.level);
@@ -559,18 +1466,28 @@ export class PDFSignature {
       );
     }
 
-    // Validate timestamp requirements
+    // Validate timestamp requirements (two-phase signing checks at completion)
+    const requiresTimestamp =
+      options.level === "B-T" || options.level === "B-LT" || options.level === "B-LTA";
 
-    if (
-      (options.level === "B-T" || options.level === "B-LT" || options.level === "B-LTA") &&
-      !options.timestampAuthority
-    ) {
+    if (requiresTimestamp && !options.timestampAuthority && !deferTimestamp) {
       throw new SignatureError(
         "INVALID_OPTIONS",
         `PAdES level ${options.level} requires a timestampAuthority`,
       );
     }
 
+    if (options.appearance) {
+      const { width, height } = options.appearance.rect;
+
+      if (!(width > 0 && height > 0)) {
+        throw new SignatureError(
+          "INVALID_OPTIONS",
+          "Signature appearance rect must have a positive width and height",
+        );
+      }
+    }
+
     return {
       signer: options.signer,
       digestAlgorithm: options.digestAlgorithm ?? "SHA-256",
@@ -581,10 +1498,13 @@ export class PDFSignature {
       location: options.location,
       contactInfo: options.contactInfo,
       fieldName: options.fieldName,
+      certify: options.certify,
+      appearance: options.appearance,
       timestampAuthority: options.timestampAuthority,
       longTermValidation: options.longTermValidation ?? false,
       revocationProvider: options.revocationProvider,
       archivalTimestamp: options.archivalTimestamp ?? false,
+      requiresTimestamp,
     };
   }
 
@@ -603,7 +1523,7 @@ export class PDFSignature {
   /**
    * Resolve PAdES level to individual options.
    */
-  private resolvePAdESLevel(level: PAdESLevel): Partial<SignOptions> {
+  private resolvePAdESLevel(level: PAdESLevel): Partial<SeedValueOptions> {
     switch (level) {
       case "B-B":
         return {};
@@ -616,3 +1536,53 @@ export class PDFSignature {
     }
   }
 }
+
+/**
+ * End offset of a signed byte range (offset2 + length2).
+ */
+function byteRangeEnd(byteRange: number[]): number {
+  return (byteRange[2] ?? 0) + (byteRange[3] ?? 0);
+}
+
+/**
+ * Build the /Reference entry for a certification signature.
+ *
+ * PDF 2.0: Section 12.8.2.2 - DocMDP
+ */
+function createDocMdpReference(permission: DocMdpPermission): PdfDict {
+  return PdfDict.of({
+    Type: PdfName.of("SigRef"),
+    TransformMethod: PdfName.of("DocMDP"),
+    TransformParams: PdfDict.of({
+      Type: PdfName.of("TransformParams"),
+      P: PdfNumber.of(permission),
+      V: PdfName.of("1.2"),
+    }),
+  });
+}
+
+/**
+ * Read the DocMDP permission level from a signature dictionary.
+ *
+ * @returns P from the DocMDP transform (default 2), or undefined if the
+ *   signature has no DocMDP reference
+ */
+function getDocMdpPermission(sigDict: PdfDict, resolve: RefResolver): DocMdpPermission | undefined {
+  for (const item of sigDict.getArray("Reference", resolve) ?? []) {
+    const reference = item instanceof PdfRef ? resolve(item) : item;
+
+    if (!(reference instanceof PdfDict)) {
+      continue;
+    }
+
+    if (reference.getName("TransformMethod", resolve)?.value !== "DocMDP") {
+      continue;
+    }
+
+    const p = reference.getDict("TransformParams", resolve)?.getNumber("P", resolve)?.value;
+
+    return p === 1 || p === 3 ? p : 2;
+  }
+
+  return undefined;
+}
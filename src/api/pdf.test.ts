@@ -1,6 +1,8 @@
 import { PdfDict } from "#src/objects/pdf-dict";
 import { PdfName } from "#src/objects/pdf-name";
 import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
 import { PdfString } from "#src/objects/pdf-string";
 import { loadFixture, saveTestOutput } from "#src/test-utils";
 import { describe, expect, it } from "vitest";
@@ -438,6 +440,27 @@ describe("PDF", () => {
       // Both values should be identical for a newly generated ID
       expect(id1).toBe(id2);
     });
+
+    it("compresses new streams as compressStreams says", async () => {
+      const pdf = PDF.create();
+
+      pdf.addPage().drawText("Compressed with LZW", { x: 72, y: 720 });
+
+      const lzw = await pdf.save({ compressStreams: { filter: "LZWDecode" } });
+      const text = new TextDecoder().decode(lzw);
+
+      expect(text).toContain("/Filter /LZWDecode");
+      expect(text).not.toContain("/FlateDecode");
+
+      const reloaded = await PDF.load(lzw);
+
+      expect(reloaded.getPage(0)?.extractText().text).toContain("Compressed with LZW");
+
+      const plain = new TextDecoder().decode(await pdf.save({ compressStreams: false }));
+
+      expect(plain).not.toContain("/Filter");
+      expect(plain).toContain("<436F6D707265737365642077697468204C5A57> Tj");
+    });
   });
 
   describe("copyPagesFrom", () => {
@@ -875,6 +898,158 @@ describe("PDF", () => {
     });
   });
 
+  describe("embedBilevelImage", () => {
+    // A 12x3 checkerboard of 4-pixel squares, 0 = black
+    const width = 12;
+    const height = 3;
+    const bits = new Uint8Array([0x0f, 0x0f, 0x0f, 0x0f, 0x0f, 0x0f]);
+
+    it("embeds a CCITT Group 4 image", () => {
+      const pdf = PDF.create();
+      const image = pdf.embedBilevelImage(bits, { width, height });
+
+      expect(image.width).toBe(width);
+      expect(image.height).toBe(height);
+
+      const stream = pdf.getObject(image.ref);
+
+      expect(stream).toBeInstanceOf(PdfStream);
+
+      if (!(stream instanceof PdfStream)) {
+        return;
+      }
+
+      expect(stream.getName("Filter")?.value).toBe("CCITTFaxDecode");
+      expect(stream.getNumber("BitsPerComponent")?.value).toBe(1);
+      expect(stream.getDecodedData()).toEqual(bits);
+    });
+
+    it("accepts data with 1 = black", () => {
+      const pdf = PDF.create();
+      const inverted = bits.map(byte => ~byte & 0xff);
+      const image = pdf.embedBilevelImage(inverted, { width, height, blackIs1: true });
+      const stream = pdf.getObject(image.ref);
+
+      expect(stream instanceof PdfStream && stream.getDecodedData()).toEqual(bits);
+    });
+
+    it("survives a save and reload", async () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const image = pdf.embedBilevelImage(bits, { width, height });
+
+      page.drawImage(image, { x: 50, y: 50, width: 120, height: 30 });
+
+      const reloaded = await PDF.load(await pdf.save());
+      const stream = reloaded.getObject(image.ref);
+
+      expect(stream instanceof PdfStream && stream.getDecodedData()).toEqual(bits);
+    });
+
+    it("rejects data too short for the size", () => {
+      const pdf = PDF.create();
+
+      expect(() => pdf.embedBilevelImage(bits, { width, height: 4 })).toThrow(/Expected 8 bytes/);
+    });
+  });
+
+  describe("embedImage", () => {
+    function imageStream(pdf: PDF, ref: PdfRef): PdfStream {
+      const stream = pdf.getObject(ref);
+
+      if (!(stream instanceof PdfStream)) {
+        throw new Error("Expected an image stream");
+      }
+
+      return stream;
+    }
+
+    function softMask(pdf: PDF, image: PdfStream): PdfStream | undefined {
+      const ref = image.get("SMask");
+
+      return ref instanceof PdfRef ? imageStream(pdf, ref) : undefined;
+    }
+
+    it.each([
+      ["ramp-rgb-interlaced.png", false],
+      ["ramp-rgba-deflate.tif", true],
+      ["ramp-rgba-interlaced.gif", true],
+      ["ramp-rgb24.bmp", false],
+      ["ramp-rgba32-v5.bmp", true],
+      ["ramp-rgba-lossless.webp", true],
+      ["ramp-rgba-lossy.webp", true],
+    ])("embeds %s", async (name, hasAlpha) => {
+      const pdf = PDF.create();
+      const image = pdf.embedImage(await loadFixture("images", name));
+      const stream = imageStream(pdf, image.ref);
+
+      expect(image.width).toBe(40);
+      expect(image.height).toBe(24);
+      expect(stream.getName("ColorSpace")?.value).toBe("DeviceRGB");
+      expect(stream.getNumber("BitsPerComponent")?.value).toBe(8);
+      expect(stream.getName("Filter")?.value).toBe("FlateDecode");
+      expect(stream.getDecodedData().length).toBe(40 * 24 * 3);
+      expect(softMask(pdf, stream) !== undefined).toBe(hasAlpha);
+    });
+
+    it("embeds 16-bit images with a 16-bit soft mask", async () => {
+      const pdf = PDF.create();
+      const image = pdf.embedImage(await loadFixture("images", "ramp-rgba16-interlaced.png"));
+      const stream = imageStream(pdf, image.ref);
+      const smask = softMask(pdf, stream);
+
+      expect(stream.getNumber("BitsPerComponent")?.value).toBe(16);
+      expect(stream.getDecodedData().length).toBe(40 * 24 * 6);
+      expect(smask?.getNumber("BitsPerComponent")?.value).toBe(16);
+      expect(smask?.getDecodedData().length).toBe(40 * 24 * 2);
+    });
+
+    it("embeds bilevel TIFFs with CCITT Group 4", async () => {
+      const pdf = PDF.create();
+      const image = pdf.embedImage(await loadFixture("images", "checker-g4.tif"));
+      const stream = imageStream(pdf, image.ref);
+
+      expect(stream.getName("Filter")?.value).toBe("CCITTFaxDecode");
+      expect(stream.getNumber("BitsPerComponent")?.value).toBe(1);
+      expect(image.width).toBe(45);
+    });
+
+    it("embeds a chosen TIFF page, or every page", async () => {
+      const pdf = PDF.create();
+      const bytes = await loadFixture("images", "multipage.tif");
+      const palette = pdf.embedTiff(bytes, { page: 2 });
+      const pages = pdf.embedTiffPages(bytes);
+
+      expect(imageStream(pdf, palette.ref).getName("ColorSpace")?.value).toBe("DeviceRGB");
+      expect(pages.map(page => imageStream(pdf, page.ref).getName("Filter")?.value)).toEqual([
+        "CCITTFaxDecode",
+        "CCITTFaxDecode",
+        "FlateDecode",
+        "FlateDecode",
+      ]);
+    });
+
+    it("rejects unknown formats", () => {
+      const pdf = PDF.create();
+
+      expect(() => pdf.embedImage(new Uint8Array(32))).toThrow("Unsupported image format");
+    });
+
+    it("survives a save and reload", async () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const image = pdf.embedWebp(await loadFixture("images", "ramp-rgba-lossless.webp"));
+
+      page.drawImage(image, { x: 50, y: 50, width: 160, height: 96 });
+
+      const reloaded = await PDF.load(await pdf.save());
+      const stream = imageStream(reloaded, image.ref);
+
+      expect(stream.getDecodedData().length).toBe(40 * 24 * 3);
+      expect(softMask(reloaded, stream)?.getDecodedData().length).toBe(40 * 24);
+    });
+  });
+
   describe("visual output tests", () => {
     it("outputs merged PDF", async () => {
       const bytes1 = await loadFixture("basic", "rot0.pdf");
@@ -13,6 +13,7 @@ import type { FlattenOptions } from "#src/document/forms/form-flattener";
 import { isLinearizationDict } from "#src/document/linearization";
 import { ObjectCopier } from "#src/document/object-copier";
 import { ObjectRegistry } from "#src/document/object-registry";
+import { type RevisionDiff, RevisionHistory, type RevisionInfo } from "#src/document/revisions";
 import {
   PDFExtGState,
   PDFFormXObject,
@@ -29,13 +30,26 @@ import {
   type TilingPatternOptions,
 } from "#src/drawing/resources/index";
 import { serializeOperators } from "#src/drawing/serialize";
+import { encodeCcitt } from "#src/filters/ccitt/encoder";
 import type { EmbeddedFont, EmbedFontOptions } from "#src/fonts/embedded-font";
 import { formatPdfDate, parsePdfDate } from "#src/helpers/format";
 import { resolvePageSize } from "#src/helpers/page-size";
 import { checkIncrementalSaveBlocker, type IncrementalSaveBlocker } from "#src/helpers/save-utils";
+import { isBmp, parseBmp } from "#src/images/bmp";
+import type { ExtractedImage } from "#src/images/extracted-image";
+import { isGif, parseGif } from "#src/images/gif";
+import { decodeImageToRgba, type RgbaImage } from "#src/images/image-decoder";
+import {
+  ImageOptimizer,
+  type OptimizeImagesOptions,
+  type OptimizeImagesResult,
+} from "#src/images/image-optimizer";
 import { isJpeg, parseJpegHeader } from "#src/images/jpeg";
 import { PDFImage } from "#src/images/pdf-image";
 import { isPng, parsePng } from "#src/images/png";
+import type { RasterImage } from "#src/images/raster";
+import { getTiffPageCount, isTiff, parseTiff } from "#src/images/tiff";
+import { isWebp, parseWebp } from "#src/images/webp";
 import { Scanner } from "#src/io/scanner";
 import * as LayerUtils from "#src/layers/index";
 import type { FlattenLayersResult, LayerInfo } from "#src/layers/types";
@@ -50,13 +64,27 @@ import { PdfStream } from "#src/objects/pdf-stream";
 import { PdfString } from "#src/objects/pdf-string";
 import { DocumentParser, type ParseOptions } from "#src/parser/document-parser";
 import { XRefParser } from "#src/parser/xref-parser";
+import { resolveCredential } from "#src/security/credentials";
 import { generateEncryption, reconstructEncryptDict } from "#src/security/encryption-generator";
 import { PermissionDeniedError } from "#src/security/errors";
 import { DEFAULT_PERMISSIONS, type Permissions } from "#src/security/permissions";
-import type { StandardSecurityHandler } from "#src/security/standard-handler.ts";
-import type { SignOptions, SignResult } from "#src/signatures/types";
-import type { FindTextOptions, PageText, TextMatch } from "#src/text/types";
+import type { SecurityHandler } from "#src/security/security-handler";
+import type {
+  AddLtvDataOptions,
+  CompleteSignatureOptions,
+  DocumentTimestampOptions,
+  PreparedSignature,
+  PrepareSigningOptions,
+  SignatureInfo,
+  SignatureVerificationOptions,
+  SignatureVerificationResult,
+  SigningState,
+  SignOptions,
+  SignResult,
+} from "#src/signatures/types";
+import type { ExtractTextOptions, FindTextOptions, PageText, TextMatch } from "#src/text/types";
 import { writeComplete, writeIncremental } from "#src/writer/pdf-writer";
+import type { CompressionPolicy } from "#src/writer/stream-compression";
 import { randomBytes } from "@noble/ciphers/utils.js";
 import { deflate } from "pako";
 
@@ -125,6 +153,22 @@ export interface SaveOptions {
    * @default false
    */
   subsetFonts?: boolean;
+
+  /**
+   * Compress streams that have no filter yet: `true` for default
+   * FlateDecode, `false` to write them as they are, or a policy choosing
+   * the filter (Flate or LZW), Flate level and image predictors per kind
+   * of stream. Streams that are already compressed are left alone.
+   *
+   * @default true
+   *
+   * @example
+   * ```typescript
+   * await pdf.save({ compressStreams: { filter: "LZWDecode" } });
+   * await pdf.save({ compressStreams: { level: 9, images: { predictor: true } } });
+   * ```
+   */
+  compressStreams?: boolean | CompressionPolicy;
 }
 
 /**
@@ -177,6 +221,36 @@ export interface ExtractPagesOptions {
   includeAnnotations?: boolean;
 }
 
+/**
+ * Options for embedding a bilevel (1-bit) image.
+ */
+export interface EmbedBilevelImageOptions {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** In the data, 1 = black (default: false, 0 = black as in DeviceGray) */
+  blackIs1?: boolean;
+}
+
+/**
+ * Options for embedding a TIFF image.
+ */
+export interface EmbedTiffOptions {
+  /** Page of a multi-page TIFF to embed (default: 0, the first) */
+  page?: number;
+}
+
+/**
+ * Options for extracting images from the document.
+ */
+export interface ExtractImagesOptions {
+  /** Page indices to extract from (default: all pages) */
+  pages?: number[];
+  /** Only the first placement of each image XObject (default: false) */
+  unique?: boolean;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Metadata Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -311,6 +385,15 @@ export class PDF {
     return this.ctx;
   }
 
+  /**
+   * The bytes this document was loaded (or last reloaded) from.
+   *
+   * @internal Used by related API classes (PDFSignature, etc.)
+   */
+  getOriginalBytes(): Uint8Array {
+    return this.originalBytes;
+  }
+
   private constructor(
     ctx: PDFContext,
     originalBytes: Uint8Array,
@@ -344,16 +427,33 @@ export class PDF {
   /**
    * Load a PDF from bytes.
    *
+   * Credentials can be a password, or a certificate and private key for
+   * documents encrypted to recipients (`{ type: "p12", data, password }`
+   * unlocks a PKCS#12 file first).
+   *
    * @param bytes - The PDF file bytes
    * @param options - Load options (credentials, lenient mode)
    * @returns The loaded PDF document
    * @throws {Error} If the document has no catalog (missing /Root in trailer)
    * @throws {Error} If parsing fails and lenient mode is disabled
+   * @throws {UnsupportedEncryptionError} If a PKCS#12 credential can't be unlocked
+   *
+   * @example
+   * ```typescript
+   * const pdf = await PDF.load(bytes, { credentials: "secret" });
+   *
+   * // Certificate-encrypted document
+   * const pdf = await PDF.load(bytes, {
+   *   credentials: { type: "p12", data: p12Bytes, password: "p12-password" },
+   * });
+   * ```
    */
-  // oxlint-disable-next-line typescript/require-await
   static async load(bytes: Uint8Array, options?: LoadOptions): Promise<PDF> {
+    const credentials =
+      options?.credentials !== undefined ? await resolveCredential(options.credentials) : undefined;
+
     const scanner = new Scanner(bytes);
-    const parser = new DocumentParser(scanner, options);
+    const parser = new DocumentParser(scanner, { ...options, credentials });
 
     const parsed = parser.parse();
 
@@ -783,11 +883,27 @@ export class PDF {
     // For owner access, all permissions are granted regardless of flags
     const permissions = handler.hasOwnerAccess ? DEFAULT_PERMISSIONS : handler.permissions;
 
+    // Certificate encryption has recipients instead of passwords
+    if (encryption.filter === "Adobe.PubSec") {
+      return {
+        isEncrypted: true,
+        algorithm,
+        keyLength: encryption.keyLengthBits,
+        filter: encryption.filter,
+        hasUserPassword: false,
+        hasOwnerPassword: false,
+        authenticatedAs,
+        permissions,
+        encryptMetadata: encryption.encryptMetadata,
+      };
+    }
+
     return {
       isEncrypted: true,
       algorithm,
       keyLength: encryption.keyLengthBits,
       revision: encryption.revision,
+      filter: encryption.filter,
       hasUserPassword: true, // We can't easily detect empty user password after the fact
       hasOwnerPassword: true,
       authenticatedAs,
@@ -933,7 +1049,10 @@ export class PDF {
    * If the document is already encrypted, requires owner access to change.
    * If unencrypted, can be called without restrictions.
    *
-   * @param options - Protection options (passwords, permissions, algorithm)
+   * With `recipients`, the document is encrypted to X.509 certificates
+   * (/Adobe.PubSec) instead of passwords, with permissions per recipient.
+   *
+   * @param options - Protection options (passwords or recipients, permissions, algorithm)
    * @throws {PermissionDeniedError} If insufficient permissions to change protection
    *
    * @example
@@ -949,6 +1068,14 @@ export class PDF {
    * pdf.setProtection({
    *   algorithm: "AES-256",
    * });
+   *
+   * // Encrypt to certificates
+   * pdf.setProtection({
+   *   recipients: [
+   *     { certificate: aliceCert },
+   *     { certificate: bobCert, permissions: { modify: false, copy: false } },
+   *   ],
+   * });
    * ```
    */
   setProtection(options: ProtectionOptions): void {
@@ -2039,18 +2166,137 @@ export class PDF {
     return this.fonts.getRef(font);
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Image Extraction
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Extract the images painted on the document's pages.
+   *
+   * Returns the placements found by `page.getImages()` for each page, in
+   * page order. With `unique`, an image XObject drawn more than once (on
+   * one page or several) is only returned for its first placement.
+   *
+   * @param options - Pages to extract from, deduplication
+   * @returns Image placements
+   *
+   * @example
+   * ```typescript
+   * for (const image of pdf.extractImages({ unique: true })) {
+   *   const { format, data } = image.export();
+   *   await writeFile(`page${image.pageIndex + 1}-${image.name}.${format}`, data);
+   * }
+   * ```
+   */
+  extractImages(options: ExtractImagesOptions = {}): ExtractedImage[] {
+    const pages = this.getPages();
+    const indices = options.pages ?? pages.map((_, i) => i);
+    const seen = new Set<string>();
+    const results: ExtractedImage[] = [];
+
+    for (const pageIndex of indices) {
+      if (pageIndex < 0 || pageIndex >= pages.length) {
+        continue;
+      }
+
+      for (const image of pages[pageIndex].getImages()) {
+        if (options.unique && image.ref) {
+          const key = image.ref.toString();
+
+          if (seen.has(key)) {
+            continue;
+          }
+
+          seen.add(key);
+        }
+
+        results.push(image);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Decode an image XObject to 8-bit RGBA pixels.
+   *
+   * Samples are mapped through /Decode and converted to RGB from any
+   * colour space images use (Separation and DeviceN through their tint
+   * transforms; ICC profiles aren't applied). /SMask, stencil and colour
+   * key /Mask entries give the alpha; image masks come out black where
+   * they paint and transparent elsewhere.
+   *
+   * @param image - An embedded image, or a reference to an image XObject
+   * @returns Width, height and RGBA pixels, rows top to bottom
+   * @throws {Error} If the reference isn't an image XObject, or the image
+   *   can't be decoded
+   *
+   * @example
+   * ```typescript
+   * const image = pdf.embedImage(pngBytes);
+   * const { width, height, pixels } = pdf.imageToRGBA(image);
+   *
+   * const canvasImage = new ImageData(new Uint8ClampedArray(pixels), width, height);
+   * ```
+   */
+  imageToRGBA(image: PDFImage | PdfRef): RgbaImage {
+    const ref = image instanceof PDFImage ? image.ref : image;
+    const stream = this.getObject(ref);
+
+    if (!(stream instanceof PdfStream) || stream.getName("Subtype")?.value !== "Image") {
+      throw new Error(`Not an image XObject: ${ref.toString()}`);
+    }
+
+    return decodeImageToRgba(stream, this.ctx.resolve.bind(this.ctx));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Image Optimization
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Shrink the images painted on the document's pages.
+   *
+   * Each image's effective resolution is worked out from its largest
+   * placement; images finer than `maxDpi` are downsampled to it. Images are
+   * then re-encoded: bilevel ones with CCITT Group 4, JPEGs as JPEG at
+   * `jpegQuality`, others with Flate and PNG predictors. An image is only
+   * replaced when the new encoding is smaller, and JPEGs that keep their
+   * size and colours aren't re-encoded. RGB images that are all gray
+   * become DeviceGray, and with `bilevelThreshold`, gray images that are
+   * almost all black and white become 1-bit. Finally, references to
+   * identical image streams are pointed at one of them.
+   *
+   * Inline images, JPEG 2000 and JBIG2 images, and images with colour key
+   * masks are left as they are.
+   *
+   * @param options - Resolution limit, JPEG quality, colour reduction
+   * @returns Counts of the images changed and the stream bytes saved
+   *
+   * @example
+   * ```typescript
+   * const { bytesSaved } = pdf.optimizeImages({ maxDpi: 200, bilevelThreshold: 160 });
+   * const bytes = await pdf.save();
+   * ```
+   */
+  optimizeImages(options: OptimizeImagesOptions = {}): OptimizeImagesResult {
+    const optimizer = new ImageOptimizer(this.ctx.resolve.bind(this.ctx), options);
+
+    return optimizer.optimize(this.getPages());
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Image Embedding
   // ─────────────────────────────────────────────────────────────────────────────
 
   /**
-   * Embed an image (JPEG or PNG) into the document.
+   * Embed an image into the document.
    *
-   * Automatically detects the image format and calls the appropriate
-   * embedding method. The returned PDFImage can be drawn on pages
-   * using `page.drawImage()`.
+   * Automatically detects the image format (JPEG, PNG, TIFF, GIF, BMP or
+   * WebP) and calls the appropriate embedding method. The returned
+   * PDFImage can be drawn on pages using `page.drawImage()`.
    *
-   * @param bytes - Image file bytes (JPEG or PNG)
+   * @param bytes - Image file bytes
    * @returns PDFImage that can be drawn with page.drawImage()
    * @throws {Error} If image format is not recognized or invalid
    *
@@ -2070,7 +2316,25 @@ export class PDF {
       return this.embedPng(bytes);
     }
 
-    throw new Error("Unsupported image format. Only JPEG and PNG are supported.");
+    if (isTiff(bytes)) {
+      return this.embedTiff(bytes);
+    }
+
+    if (isGif(bytes)) {
+      return this.embedGif(bytes);
+    }
+
+    if (isBmp(bytes)) {
+      return this.embedBmp(bytes);
+    }
+
+    if (isWebp(bytes)) {
+      return this.embedWebp(bytes);
+    }
+
+    throw new Error(
+      "Unsupported image format. Supported formats are JPEG, PNG, TIFF, GIF, BMP and WebP.",
+    );
   }
 
   /**
@@ -2134,48 +2398,229 @@ export class PDF {
    * ```
    */
   embedPng(bytes: Uint8Array): PDFImage {
-    const data = parsePng(bytes);
-    const { info, pixels, alpha } = data;
+    const { info, pixels, alpha, bitsPerComponent } = parsePng(bytes);
+
+    return this.embedRaster({
+      width: info.width,
+      height: info.height,
+      colorSpace: info.colorSpace,
+      bitsPerComponent,
+      pixels,
+      alpha,
+    });
+  }
+
+  /**
+   * Embed a TIFF image into the document.
+   *
+   * Baseline TIFFs are supported: bilevel, grayscale, palette, RGB and
+   * CMYK images, uncompressed or compressed with PackBits, LZW, Deflate
+   * or CCITT Group 3/4. Bilevel images are re-encoded with CCITT Group 4;
+   * others with FlateDecode, with an SMask for an alpha channel.
+   *
+   * @param bytes - TIFF file bytes
+   * @param options - Which page of a multi-page TIFF to embed
+   * @returns PDFImage that can be drawn with page.drawImage()
+   * @throws {Error} If not a valid TIFF, the page doesn't exist, or the format is unsupported
+   *
+   * @example
+   * ```typescript
+   * const scan = pdf.embedTiff(tiffBytes, { page: 2 });
+   * page.drawImage(scan, { x: 0, y: 0, width: 595, height: 842 });
+   * ```
+   */
+  embedTiff(bytes: Uint8Array, options: EmbedTiffOptions = {}): PDFImage {
+    return this.embedRaster(parseTiff(bytes, options.page ?? 0));
+  }
+
+  /**
+   * Embed every page of a multi-page TIFF, such as a scanned document.
+   *
+   * @param bytes - TIFF file bytes
+   * @returns One PDFImage per TIFF page, in order
+   * @throws {Error} If not a valid TIFF or a page's format is unsupported
+   *
+   * @example
+   * ```typescript
+   * for (const scan of pdf.embedTiffPages(tiffBytes)) {
+   *   const page = pdf.addPage({ width: 595, height: 842 });
+   *   page.drawImage(scan, { x: 0, y: 0, width: 595, height: 842 });
+   * }
+   * ```
+   */
+  embedTiffPages(bytes: Uint8Array): PDFImage[] {
+    const count = getTiffPageCount(bytes);
+    const images: PDFImage[] = [];
+
+    for (let page = 0; page < count; page++) {
+      images.push(this.embedRaster(parseTiff(bytes, page)));
+    }
+
+    return images;
+  }
+
+  /**
+   * Embed a GIF image into the document.
+   *
+   * The first frame is embedded; the transparent colour becomes an SMask.
+   *
+   * @param bytes - GIF file bytes
+   * @returns PDFImage that can be drawn with page.drawImage()
+   * @throws {Error} If not a valid GIF image
+   *
+   * @example
+   * ```typescript
+   * const icon = pdf.embedGif(gifBytes);
+   * page.drawImage(icon, { x: 50, y: 700 });
+   * ```
+   */
+  embedGif(bytes: Uint8Array): PDFImage {
+    return this.embedRaster(parseGif(bytes));
+  }
+
+  /**
+   * Embed a BMP image into the document.
+   *
+   * Palette (including run-length encoded), 16, 24 and 32-bit bitmaps are
+   * supported. An alpha channel becomes an SMask.
+   *
+   * @param bytes - BMP file bytes
+   * @returns PDFImage that can be drawn with page.drawImage()
+   * @throws {Error} If not a valid BMP image or unsupported format
+   *
+   * @example
+   * ```typescript
+   * const image = pdf.embedBmp(bmpBytes);
+   * page.drawImage(image, { x: 50, y: 500 });
+   * ```
+   */
+  embedBmp(bytes: Uint8Array): PDFImage {
+    return this.embedRaster(parseBmp(bytes));
+  }
+
+  /**
+   * Embed a WebP image into the document.
+   *
+   * Lossy and lossless still images are supported; they are decoded and
+   * re-encoded with FlateDecode, with an SMask for an alpha channel.
+   *
+   * @param bytes - WebP file bytes
+   * @returns PDFImage that can be drawn with page.drawImage()
+   * @throws {Error} If not a valid WebP image, or animated
+   *
+   * @example
+   * ```typescript
+   * const photo = pdf.embedWebp(webpBytes);
+   * page.drawImage(photo, { x: 50, y: 400, width: 300 });
+   * ```
+   */
+  embedWebp(bytes: Uint8Array): PDFImage {
+    return this.embedRaster(parseWebp(bytes));
+  }
+
+  /**
+   * Embed a bilevel (black and white) image, such as a scanned page.
+   *
+   * The image is compressed with CCITT Group 4 (CCITTFaxDecode), the fax
+   * encoding, which is far smaller than Flate for scans and line art.
+   *
+   * @param data - Rows packed 8 pixels per byte, each row padded to a whole byte
+   * @param options - Image size and bit polarity
+   * @returns PDFImage that can be drawn with page.drawImage()
+   * @throws {Error} If the data is too short for the given size
+   *
+   * @example
+   * ```typescript
+   * const scan = pdf.embedBilevelImage(bits, { width: 2480, height: 3508 });
+   * page.drawImage(scan, { x: 0, y: 0, width: 595, height: 842 });
+   * ```
+   */
+  embedBilevelImage(data: Uint8Array, options: EmbedBilevelImageOptions): PDFImage {
+    const { width, height } = options;
 
-    // Compress pixel data with FlateDecode
-    const compressedPixels = deflate(pixels);
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      throw new Error(`Invalid bilevel image size: ${width}x${height}`);
+    }
+
+    // The fax data records black and white, so the stream decodes to
+    // DeviceGray's 0 = black whichever way the input was packed
+    const encoded = encodeCcitt(data, {
+      k: -1,
+      columns: width,
+      rows: height,
+      blackIs1: options.blackIs1 ?? false,
+      encodedByteAlign: false,
+      endOfLine: false,
+      endOfBlock: true,
+    });
+
+    const stream = PdfStream.fromDict(
+      {
+        Type: PdfName.of("XObject"),
+        Subtype: PdfName.of("Image"),
+        Width: PdfNumber.of(width),
+        Height: PdfNumber.of(height),
+        ColorSpace: PdfName.of("DeviceGray"),
+        BitsPerComponent: PdfNumber.of(1),
+        Filter: PdfName.of("CCITTFaxDecode"),
+        DecodeParms: PdfDict.of({
+          K: PdfNumber.of(-1),
+          Columns: PdfNumber.of(width),
+          Rows: PdfNumber.of(height),
+        }),
+      },
+      encoded,
+    );
+
+    const ref = this.register(stream);
+
+    return new PDFImage(ref, width, height);
+  }
+
+  /**
+   * Embed decoded samples as an image XObject: bilevel images with CCITT
+   * Group 4, others with FlateDecode and an SMask of the same bit depth
+   * for the alpha channel.
+   */
+  private embedRaster(image: RasterImage): PDFImage {
+    const { width, height, colorSpace, bitsPerComponent, pixels, alpha } = image;
+
+    if (bitsPerComponent === 1) {
+      return this.embedBilevelImage(pixels, { width, height });
+    }
 
-    // Build XObject dictionary
     const dictEntries: Record<string, PdfObject> = {
       Type: PdfName.of("XObject"),
       Subtype: PdfName.of("Image"),
-      Width: PdfNumber.of(info.width),
-      Height: PdfNumber.of(info.height),
-      ColorSpace: PdfName.of(info.colorSpace),
-      BitsPerComponent: PdfNumber.of(info.bitDepth > 8 ? 8 : info.bitDepth),
+      Width: PdfNumber.of(width),
+      Height: PdfNumber.of(height),
+      ColorSpace: PdfName.of(colorSpace),
+      BitsPerComponent: PdfNumber.of(bitsPerComponent),
       Filter: PdfName.of("FlateDecode"),
     };
 
     // If there's alpha, create a soft mask
     if (alpha) {
-      const compressedAlpha = deflate(alpha);
-
       const smaskStream = PdfStream.fromDict(
         {
           Type: PdfName.of("XObject"),
           Subtype: PdfName.of("Image"),
-          Width: PdfNumber.of(info.width),
-          Height: PdfNumber.of(info.height),
+          Width: PdfNumber.of(width),
+          Height: PdfNumber.of(height),
           ColorSpace: PdfName.of("DeviceGray"),
-          BitsPerComponent: PdfNumber.of(8),
+          BitsPerComponent: PdfNumber.of(bitsPerComponent),
           Filter: PdfName.of("FlateDecode"),
         },
-        compressedAlpha,
+        deflate(alpha),
       );
 
-      const smaskRef = this.register(smaskStream);
-      dictEntries.SMask = smaskRef;
+      dictEntries.SMask = this.register(smaskStream);
     }
 
-    const stream = PdfStream.fromDict(dictEntries, compressedPixels);
+    const stream = PdfStream.fromDict(dictEntries, deflate(pixels));
     const ref = this.register(stream);
 
-    return new PDFImage(ref, info.width, info.height);
+    return new PDFImage(ref, width, height);
   }
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -2721,6 +3166,17 @@ export class PDF {
    * await pdf.sign({ signer: signer1 });
    * await pdf.sign({ signer: signer2 });
    * const bytes = await pdf.save();
+   *
+   * // Certification signature that still allows form filling and signing
+   * await pdf.sign({ signer, certify: 2 });
+   *
+   * // Visible signature with a handwritten signature image
+   * const image = await pdf.embedImage(signaturePng);
+   * await pdf.sign({
+   *   signer,
+   *   reason: "Approved",
+   *   appearance: { page: 0, rect: { x: 50, y: 50, width: 240, height: 60 }, image },
+   * });
    * ```
    */
   async sign(options: SignOptions): Promise<SignResult> {
@@ -2729,6 +3185,221 @@ export class PDF {
     return signature.sign(options);
   }
 
+  /**
+   * Prepare the document for a signature produced outside this process.
+   *
+   * For keys that only answer asynchronously (a remote signing service,
+   * a human approval step). Writes the signature field and placeholder like
+   * sign(), then returns the prepared bytes, the ByteRange digest, the
+   * signed attributes the key must sign, and a JSON-serializable state.
+   * Persist the bytes and state, sign `signedAttributes` (as a
+   * `Signer` would), then call `PDF.completeSignature()` - from
+   * this process or another one.
+   *
+   * This PDF instance is reloaded with the prepared bytes. Don't change the
+   * document before completing: the signature covers the prepared bytes.
+   *
+   * A timestamped PAdES level (B-T and above) requires a
+   * `timestampAuthority` when completing.
+   *
+   * @param options - Signing options; the signer only needs its certificate
+   *   and algorithms
+   * @returns Prepared bytes, digests, signed attributes and state
+   *
+   * @example
+   * ```typescript
+   * const prepared = await pdf.prepareForSigning({
+   *   signer: { certificate, keyType: "RSA", signatureAlgorithm: "RSASSA-PKCS1-v1_5" },
+   *   reason: "Approved",
+   * });
+   *
+   * await store.save(id, prepared.bytes, JSON.stringify(prepared.state));
+   * await remoteService.requestSignature(id, prepared.signedAttributes);
+   *
+   * // Later, possibly after a restart
+   * const { bytes } = await PDF.completeSignature(
+   *   storedBytes,
+   *   JSON.parse(storedState),
+   *   signatureValue,
+   * );
+   * ```
+   */
+  async prepareForSigning(options: PrepareSigningOptions): Promise<PreparedSignature> {
+    const signature = new PDFSignature(this);
+
+    return signature.prepare(options);
+  }
+
+  /**
+   * Complete a signature prepared with `PDF.prepareForSigning()`.
+   *
+   * Embeds the CMS signature built from the external signature value and
+   * returns the final file. The bytes must be the prepared bytes, unchanged;
+   * the signature value must verify against the signer's certificate.
+   *
+   * @param bytes - The prepared PDF bytes
+   * @param state - The state returned by prepareForSigning()
+   * @param signatureValue - Signature over the signed attributes, in the
+   *   format a `Signer` returns (PKCS#1 / PSS bytes, or DER ECDSA)
+   * @param options - Timestamp authority and revocation provider, if needed
+   * @returns The signed PDF bytes and any warnings
+   * @throws {SignatureError} If the bytes don't match the state, or the
+   *   signature value doesn't verify
+   *
+   * @example
+   * ```typescript
+   * const { bytes } = await PDF.completeSignature(prepared.bytes, prepared.state, signatureValue, {
+   *   timestampAuthority: new HttpTimestampAuthority("http://timestamp.digicert.com"),
+   * });
+   * ```
+   */
+  static async completeSignature(
+    bytes: Uint8Array,
+    state: SigningState,
+    signatureValue: Uint8Array,
+    options?: CompleteSignatureOptions,
+  ): Promise<SignResult> {
+    const pdf = await PDF.load(bytes);
+    const signature = new PDFSignature(pdf);
+
+    return signature.complete(bytes, state, signatureValue, options);
+  }
+
+  /**
+   * Add an RFC 3161 document timestamp.
+   *
+   * Proves the document existed in its current form at a point in time,
+   * without any signer certificate. Works on signed and unsigned documents
+   * and is written as an incremental update, so existing signatures stay
+   * valid.
+   *
+   * With `longTermValidation`, validation data for the existing signatures
+   * and timestamps is embedded in the DSS before timestamping, and for the
+   * new timestamp afterwards. Re-timestamping an archive this way every few
+   * years, before the last timestamp's certificate expires, extends its
+   * validity.
+   *
+   * After timestamping, this PDF instance is reloaded with the new bytes.
+   *
+   * @param options - Timestamp authority and validation options
+   * @returns The timestamped PDF bytes and any warnings
+   *
+   * @example
+   * ```typescript
+   * import { HttpTimestampAuthority } from "@libpdf/core";
+   *
+   * const tsa = new HttpTimestampAuthority("http://timestamp.digicert.com");
+   *
+   * // Timestamp an unsigned document
+   * const { bytes } = await pdf.timestamp({ timestampAuthority: tsa });
+   *
+   * // Renew an archive's timestamp
+   * const archive = await PDF.load(archivedBytes);
+   * const { bytes: renewed } = await archive.timestamp({
+   *   timestampAuthority: tsa,
+   *   longTermValidation: true,
+   * });
+   * ```
+   */
+  async timestamp(options: DocumentTimestampOptions): Promise<SignResult> {
+    const signature = new PDFSignature(this);
+
+    return signature.timestamp(options);
+  }
+
+  /**
+   * Add long-term validation data for the existing signatures.
+   *
+   * Upgrades signatures made elsewhere (PAdES B-B/B-T) to B-LT without
+   * re-signing. For every signature and document timestamp, gathers the
+   * certificate chain, OCSP responses and CRLs, and writes or merges them
+   * into the DSS with VRI entries. The update is incremental, so existing
+   * signatures stay valid.
+   *
+   * After adding the data, this PDF instance is reloaded with the new bytes.
+   *
+   * @param options - Revocation provider (defaults to fetching over HTTP)
+   * @returns The updated PDF bytes and any warnings (e.g. incomplete chains)
+   *
+   * @example
+   * ```typescript
+   * const pdf = await PDF.load(receivedBytes);
+   * const { bytes, warnings } = await pdf.addLtvData();
+   *
+   * // Archive with a document timestamp covering the validation data
+   * await pdf.addLtvData();
+   * const { bytes: archived } = await pdf.timestamp({ timestampAuthority: tsa });
+   * ```
+   */
+  async addLtvData(options?: AddLtvDataOptions): Promise<SignResult> {
+    const signature = new PDFSignature(this);
+
+    return signature.addLtvData(options);
+  }
+
+  /**
+   * List the signatures in the document.
+   *
+   * Describes each signed signature field (including document timestamps)
+   * without checking anything cryptographically. Use `verifySignatures()`
+   * to check integrity.
+   *
+   * @returns Signatures in the order they were applied (newest last)
+   *
+   * @example
+   * ```typescript
+   * for (const sig of pdf.getSignatures()) {
+   *   console.log(sig.fieldName, sig.subFilter, sig.coversWholeDocument);
+   * }
+   * ```
+   */
+  getSignatures(): SignatureInfo[] {
+    return new PDFSignature(this).getSignatures();
+  }
+
+  /**
+   * Verify the integrity of every signature in the document.
+   *
+   * Recomputes each signature's ByteRange digest, parses the CMS structure
+   * (`adbe.pkcs7.detached`, `ETSI.CAdES.detached`, or `ETSI.RFC3161` for
+   * document timestamps), and checks the signer's signature and signed
+   * attributes.
+   *
+   * Integrity only proves the signed bytes are unchanged and were signed by
+   * the key in the embedded certificate. To also establish trust in the
+   * signer, pass trust anchors: each signer's chain is then built and
+   * checked for expiry and revocation (OCSP/CRL) at the validation time,
+   * using embedded DSS/VRI data first and the revocation provider second.
+   * The outcome is reported in `result.chain`.
+   *
+   * @param options - Trust anchors and revocation settings (omit for integrity only)
+   * @returns One result per signature, in the order they were applied
+   *
+   * @example
+   * ```typescript
+   * const results = await pdf.verifySignatures();
+   *
+   * for (const result of results) {
+   *   console.log(result.signerName, result.integrity, result.coversWholeDocument);
+   * }
+   *
+   * // With chain validation at the time proven by each signature's timestamp
+   * const [result] = await pdf.verifySignatures({
+   *   trustAnchors: [rootCaDer],
+   *   revocationProvider: new DefaultRevocationProvider(),
+   * });
+   *
+   * if (!result.chain?.valid) {
+   *   console.log(result.chain?.failures.map(f => f.code)); // e.g. ["REVOKED"]
+   * }
+   * ```
+   */
+  async verifySignatures(
+    options?: SignatureVerificationOptions,
+  ): Promise<SignatureVerificationResult[]> {
+    return new PDFSignature(this).verify(options);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Layers (Optional Content Groups)
   // ─────────────────────────────────────────────────────────────────────────────
@@ -2913,6 +3584,7 @@ export class PDF {
    * Returns an array of PageText objects, one per page, containing
    * structured text content with position information.
    *
+   * @param options - Extraction options
    * @returns Array of PageText for each page
    *
    * @example
@@ -2921,14 +3593,17 @@ export class PDF {
    * for (const pageText of allText) {
    *   console.log(`Page ${pageText.pageIndex}: ${pageText.text}`);
    * }
+   *
+   * // Include stamps, comments and filled-in form fields
+   * const withAnnotations = pdf.extractText({ includeAnnotations: true });
    * ```
    */
-  extractText(): PageText[] {
+  extractText(options: ExtractTextOptions = {}): PageText[] {
     const pages = this.getPages();
     const results: PageText[] = [];
 
     for (const page of pages) {
-      results.push(page.extractText());
+      results.push(page.extractText(options));
     }
 
     return results;
@@ -2973,6 +3648,90 @@ export class PDF {
     return results;
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Revisions
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * List the revisions of the document, oldest first.
+   *
+   * Each incremental save appends a revision. They are found by following
+   * the cross-reference chain back from the end of the file. Revisions
+   * describe the bytes the document was loaded (or last reloaded) from;
+   * unsaved changes are not included.
+   *
+   * @returns One entry per revision (empty for a newly created document)
+   * @throws {XRefParseError} If the cross-reference chain can't be read
+   *   (e.g. the document was recovered via brute-force parsing)
+   *
+   * @example
+   * ```typescript
+   * for (const revision of pdf.getRevisions()) {
+   *   console.log(revision.index, revision.start, revision.end);
+   * }
+   * ```
+   */
+  getRevisions(): RevisionInfo[] {
+    if (this.originalBytes.length === 0) {
+      return [];
+    }
+
+    return new RevisionHistory(this.originalBytes).list();
+  }
+
+  /**
+   * Get the document exactly as it was at a revision.
+   *
+   * Returns the original bytes up to the end of that revision, so
+   * signatures made at that point still verify against it.
+   *
+   * @param index - Revision index from getRevisions() (0 is the original)
+   * @returns The file bytes of that revision
+   * @throws {RangeError} If index is out of bounds
+   *
+   * @example
+   * ```typescript
+   * const original = await PDF.load(pdf.extractRevision(0));
+   * ```
+   */
+  extractRevision(index: number): Uint8Array {
+    return this.getRevisionHistory().extract(index);
+  }
+
+  /**
+   * List the objects added, modified and removed between two revisions.
+   *
+   * Objects are compared by where the cross-reference points them: an
+   * object rewritten by a later revision counts as modified even if its
+   * value didn't change.
+   *
+   * @param from - Earlier revision index
+   * @param to - Later revision index
+   * @returns References grouped by kind of change
+   * @throws {RangeError} If either index is out of bounds
+   *
+   * @example
+   * ```typescript
+   * // What did the last signature change?
+   * const last = pdf.getRevisions().length - 1;
+   * const { added, modified } = pdf.diffRevisions(last - 1, last);
+   * ```
+   */
+  diffRevisions(from: number, to: number): RevisionDiff {
+    return this.getRevisionHistory().diff(from, to);
+  }
+
+  /**
+   * Read the revision history of the original bytes.
+   */
+  private getRevisionHistory(): RevisionHistory {
+    if (this.originalBytes.length === 0) {
+      throw new RangeError("Document has no revisions (it was not loaded from bytes)");
+    }
+
+    return new RevisionHistory(this.originalBytes);
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Change tracking
   // ─────────────────────────────────────────────────────────────────────────────
@@ -3063,7 +3822,7 @@ export class PDF {
     // Handle encryption based on pending security state
     let encryptRef: PdfRef | undefined;
     let fileId: [Uint8Array, Uint8Array] | undefined;
-    let securityHandler: StandardSecurityHandler | undefined;
+    let securityHandler: SecurityHandler | undefined;
 
     if (this._pendingSecurity.action === "encrypt" && this._pendingSecurity.options) {
       // Generate new encryption
@@ -3138,6 +3897,7 @@ export class PDF {
         encrypt: encryptRef,
         id: fileId,
         useXRefStream,
+        compressStreams: options.compressStreams,
         securityHandler,
       });
 
@@ -3155,6 +3915,7 @@ export class PDF {
       encrypt: encryptRef,
       id: fileId,
       useXRefStream,
+      compressStreams: options.compressStreams,
       securityHandler,
     });
 
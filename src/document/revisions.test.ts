@@ -0,0 +1,137 @@
+import { PDF } from "#src/api/pdf";
+import { PdfString } from "#src/objects/pdf-string";
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { RevisionHistory } from "./revisions";
+
+/**
+ * Load a fixture and append one incremental update changing the title.
+ */
+async function withIncrementalUpdate(category: "basic" | "xref", filename: string) {
+  const original = await loadFixture(category, filename);
+  const pdf = await PDF.load(original);
+
+  pdf.setTitle("Updated");
+
+  return { original, updated: await pdf.save({ incremental: true }) };
+}
+
+describe("RevisionHistory", () => {
+  it("finds a single revision in an unmodified file", async () => {
+    const bytes = await loadFixture("basic", "rot0.pdf");
+
+    const [revision, ...rest] = new RevisionHistory(bytes).list();
+
+    expect(rest).toHaveLength(0);
+    expect(revision.index).toBe(0);
+    expect(revision.start).toBe(0);
+    expect(revision.end).toBe(bytes.length);
+  });
+
+  it("splits incremental updates into revisions", async () => {
+    const { original, updated } = await withIncrementalUpdate("basic", "rot0.pdf");
+
+    const revisions = new RevisionHistory(updated).list();
+
+    expect(revisions).toHaveLength(2);
+    expect(revisions[0].end).toBe(original.length);
+    expect(revisions[1].start).toBe(original.length);
+    expect(revisions[1].end).toBe(updated.length);
+    expect(revisions[1].xrefOffsets[0]).toBeGreaterThan(original.length);
+  });
+
+  it("extracts each revision byte for byte", async () => {
+    const { original, updated } = await withIncrementalUpdate("basic", "rot0.pdf");
+
+    const history = new RevisionHistory(updated);
+
+    expect(history.extract(0)).toEqual(original);
+    expect(history.extract(1)).toEqual(updated);
+
+    const reloaded = await PDF.load(history.extract(0));
+
+    expect(reloaded.getTitle()).not.toBe("Updated");
+  });
+
+  it("diffs added and modified objects", async () => {
+    const original = await loadFixture("basic", "rot0.pdf");
+    const pdf = await PDF.load(original);
+    const catalogRef = pdf.context.info.trailer.getRef("Root");
+
+    pdf.getCatalog().set("Lang", PdfString.fromString("en"));
+    const added = pdf.register(PdfString.fromString("new"));
+
+    const history = new RevisionHistory(await pdf.save({ incremental: true }));
+    const diff = history.diff(0, 1);
+
+    expect(diff.added.map(ref => ref.objectNumber)).toContain(added.objectNumber);
+    expect(diff.modified.map(ref => ref.objectNumber)).toEqual([catalogRef?.objectNumber]);
+    expect(diff.removed).toHaveLength(0);
+
+    // Reversed, the new objects disappear
+    const reversed = history.diff(1, 0);
+
+    expect(reversed.removed.map(ref => ref.objectNumber)).toContain(added.objectNumber);
+    expect(reversed.added).toHaveLength(0);
+  });
+
+  it("reports no changes between a revision and itself", async () => {
+    const { updated } = await withIncrementalUpdate("basic", "rot0.pdf");
+
+    const diff = new RevisionHistory(updated).diff(1, 1);
+
+    expect(diff).toEqual({ added: [], modified: [], removed: [] });
+  });
+
+  it("keeps a linearized file's two cross-references in one revision", async () => {
+    const bytes = await loadFixture("xref", "hello3.pdf");
+
+    const revisions = new RevisionHistory(bytes).list();
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].xrefOffsets).toHaveLength(2);
+    expect(revisions[0].end).toBe(bytes.length);
+  });
+
+  it("adds a revision on top of a linearized file", async () => {
+    const { original, updated } = await withIncrementalUpdate("xref", "hello3.pdf");
+
+    const history = new RevisionHistory(updated);
+
+    expect(history.length).toBe(2);
+    expect(history.extract(0)).toEqual(original);
+  });
+
+  it("rejects out-of-range indices", async () => {
+    const history = new RevisionHistory(await loadFixture("basic", "rot0.pdf"));
+
+    expect(() => history.extract(1)).toThrow(RangeError);
+    expect(() => history.diff(0, -1)).toThrow(RangeError);
+  });
+});
+
+describe("PDF revisions", () => {
+  it("exposes the revisions of the loaded bytes", async () => {
+    const { original, updated } = await withIncrementalUpdate("basic", "rot0.pdf");
+    const pdf = await PDF.load(updated);
+
+    expect(pdf.getRevisions().map(r => [r.start, r.end])).toEqual([
+      [0, original.length],
+      [original.length, updated.length],
+    ]);
+    expect(pdf.extractRevision(0)).toEqual(original);
+
+    // The update added an /Info dictionary for the title
+    const infoRef = pdf.context.info.trailer.getRef("Info");
+
+    expect(pdf.diffRevisions(0, 1).added).toContainEqual(infoRef);
+  });
+
+  it("has no revisions before a new document is saved", () => {
+    const pdf = PDF.create();
+
+    expect(pdf.getRevisions()).toEqual([]);
+    expect(() => pdf.extractRevision(0)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Revision history of a PDF file.
+ *
+ * Every incremental update appends objects, a cross-reference section and
+ * a trailer ending in %%EOF, with /Prev pointing at the previous section.
+ * Walking that chain back from startxref recovers each revision: the bytes
+ * it ends at and the objects visible in it.
+ *
+ * Linearized files are a special case: the first-page cross-reference at
+ * the start of the file and the main one at the end form one revision,
+ * even though each is followed by its own %%EOF.
+ */
+
+import { Scanner } from "#src/io/scanner";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { XRefParseError } from "#src/parser/errors";
+import { type XRefEntry, XRefParser } from "#src/parser/xref-parser";
+
+/**
+ * One revision of the document.
+ */
+export interface RevisionInfo {
+  /** Zero-based index, oldest first (0 is the original document) */
+  index: number;
+
+  /** Offset of the first byte added by this revision */
+  start: number;
+
+  /** Offset just past this revision's %%EOF (and its end-of-line marker) */
+  end: number;
+
+  /** Offsets of this revision's cross-reference sections */
+  xrefOffsets: number[];
+
+  /** Whether the revision uses cross-reference streams (PDF 1.5+) */
+  usesXRefStream: boolean;
+
+  /** Objects written or freed by this revision */
+  updatedObjects: number;
+}
+
+/**
+ * Objects that differ between two revisions.
+ */
+export interface RevisionDiff {
+  /** Objects that don't exist in the earlier revision */
+  added: PdfRef[];
+
+  /** Objects that were rewritten (at the later revision's generation) */
+  modified: PdfRef[];
+
+  /** Objects that were freed (at the earlier revision's generation) */
+  removed: PdfRef[];
+}
+
+/**
+ * A cross-reference section and where its revision ends.
+ */
+interface XRefSection {
+  offset: number;
+  entries: Map<number, XRefEntry>;
+  stream: boolean;
+  end: number;
+}
+
+/**
+ * A revision with its cross-reference sections and the objects visible in it.
+ */
+interface Revision {
+  sections: XRefSection[];
+  end: number;
+  objects: Map<number, XRefEntry>;
+}
+
+const EOF_MARKER = [0x25, 0x25, 0x45, 0x4f, 0x46]; // "%%EOF"
+
+/**
+ * Revisions of a PDF file, read from its cross-reference chain.
+ *
+ * @example
+ * ```typescript
+ * const history = new RevisionHistory(bytes);
+ *
+ * const original = history.extract(0);
+ * const { modified } = history.diff(0, history.length - 1);
+ * ```
+ */
+export class RevisionHistory {
+  private readonly revisions: Revision[];
+
+  /**
+   * @param bytes - The complete PDF file
+   * @throws {XRefParseError} if the cross-reference chain can't be read
+   */
+  constructor(private readonly bytes: Uint8Array) {
+    this.revisions = this.readRevisions();
+  }
+
+  /**
+   * Number of revisions.
+   */
+  get length(): number {
+    return this.revisions.length;
+  }
+
+  /**
+   * Describe every revision, oldest first.
+   */
+  list(): RevisionInfo[] {
+    return this.revisions.map((revision, index) => {
+      // Object 0 is the head of the free list, not an object
+      const updated = new Set(revision.sections.flatMap(section => [...section.entries.keys()]));
+
+      updated.delete(0);
+
+      return {
+        index,
+        start: index === 0 ? 0 : this.revisions[index - 1].end,
+        end: revision.end,
+        xrefOffsets: revision.sections.map(section => section.offset).sort((a, b) => a - b),
+        usesXRefStream: revision.sections.some(section => section.stream),
+        updatedObjects: updated.size,
+      };
+    });
+  }
+
+  /**
+   * Get the file exactly as it was at a revision.
+   *
+   * @param index - Revision index (0 is the original document)
+   * @returns The bytes up to the end of that revision
+   * @throws {RangeError} if index is out of bounds
+   */
+  extract(index: number): Uint8Array {
+    return this.bytes.slice(0, this.get(index).end);
+  }
+
+  /**
+   * List the objects added, modified and removed between two revisions.
+   *
+   * An object counts as modified when a later cross-reference section
+   * points it at a new location - the object was rewritten, even if its
+   * value happens to be the same.
+   *
+   * @param from - Earlier revision index
+   * @param to - Later revision index
+   * @throws {RangeError} if either index is out of bounds
+   */
+  diff(from: number, to: number): RevisionDiff {
+    const before = this.get(from).objects;
+    const after = this.get(to).objects;
+
+    const added: PdfRef[] = [];
+    const modified: PdfRef[] = [];
+    const removed: PdfRef[] = [];
+
+    for (const [objectNumber, entry] of after) {
+      if (entry.type === "free") {
+        continue;
+      }
+
+      const previous = before.get(objectNumber);
+
+      if (!previous || previous.type === "free") {
+        added.push(PdfRef.of(objectNumber, getGeneration(entry)));
+      } else if (!isSameLocation(objectNumber, before, after)) {
+        modified.push(PdfRef.of(objectNumber, getGeneration(entry)));
+      }
+    }
+
+    for (const [objectNumber, entry] of before) {
+      if (entry.type === "free") {
+        continue;
+      }
+
+      const next = after.get(objectNumber);
+
+      if (!next || next.type === "free") {
+        removed.push(PdfRef.of(objectNumber, getGeneration(entry)));
+      }
+    }
+
+    const byNumber = (a: PdfRef, b: PdfRef) => a.objectNumber - b.objectNumber;
+
+    return {
+      added: added.sort(byNumber),
+      modified: modified.sort(byNumber),
+      removed: removed.sort(byNumber),
+    };
+  }
+
+  /**
+   * Get a revision by index.
+   */
+  private get(index: number): Revision {
+    const revision = this.revisions[index];
+
+    if (!Number.isInteger(index) || !revision) {
+      throw new RangeError(
+        `Revision index ${index} out of bounds (0-${Math.max(0, this.revisions.length - 1)})`,
+      );
+    }
+
+    return revision;
+  }
+
+  /**
+   * Walk the /Prev chain and group its sections into revisions, oldest first.
+   */
+  private readRevisions(): Revision[] {
+    const parser = new XRefParser(new Scanner(this.bytes));
+    const sections: XRefSection[] = [];
+    const visited = new Set<number>();
+
+    let offset: number | undefined = parser.findStartXRef();
+
+    // Newest section first
+    while (offset !== undefined) {
+      if (visited.has(offset)) {
+        throw new XRefParseError(`Circular xref reference at offset ${offset}`);
+      }
+
+      visited.add(offset);
+
+      const stream = parser.detectXRefFormat(offset) === true;
+      const xref = parser.parseAt(offset);
+
+      sections.push({ offset, entries: xref.entries, stream, end: this.findRevisionEnd(offset) });
+
+      offset = xref.prev;
+    }
+
+    // A section ending at or after the newer revision's end belongs to it
+    // (the main cross-reference of a linearized file)
+    const grouped: { sections: XRefSection[]; end: number }[] = [];
+
+    for (const section of sections) {
+      const newer = grouped.at(-1);
+
+      if (newer && section.end >= newer.end) {
+        newer.sections.push(section);
+        newer.end = section.end;
+      } else {
+        grouped.push({ sections: [section], end: section.end });
+      }
+    }
+
+    // Build the visible objects from the oldest revision up; within a
+    // revision, sections later in the chain are older
+    const revisions: Revision[] = [];
+    let objects = new Map<number, XRefEntry>();
+
+    for (const { sections: revisionSections, end } of grouped.reverse()) {
+      objects = new Map(objects);
+
+      for (const section of [...revisionSections].reverse()) {
+        for (const [objectNumber, entry] of section.entries) {
+          objects.set(objectNumber, entry);
+        }
+      }
+
+      revisions.push({ sections: revisionSections, end, objects });
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Find where the revision whose cross-reference starts at `offset` ends:
+   * just past the next %%EOF and its end-of-line marker.
+   */
+  private findRevisionEnd(offset: number): number {
+    const bytes = this.bytes;
+
+    for (let i = offset; i <= bytes.length - EOF_MARKER.length; i++) {
+      if (!EOF_MARKER.every((byte, j) => bytes[i + j] === byte)) {
+        continue;
+      }
+
+      let end = i + EOF_MARKER.length;
+
+      if (bytes[end] === 0x0d) {
+        end++;
+      }
+
+      if (bytes[end] === 0x0a) {
+        end++;
+      }
+
+      return end;
+    }
+
+    return bytes.length;
+  }
+}
+
+/**
+ * Generation number of an in-use entry.
+ */
+function getGeneration(entry: XRefEntry): number {
+  return entry.type === "uncompressed" ? entry.generation : 0;
+}
+
+/**
+ * Check whether an object is stored in the same place in both revisions.
+ *
+ * Compressed objects also move when their object stream is rewritten.
+ */
+function isSameLocation(
+  objectNumber: number,
+  before: Map<number, XRefEntry>,
+  after: Map<number, XRefEntry>,
+): boolean {
+  const a = before.get(objectNumber);
+  const b = after.get(objectNumber);
+
+  if (a?.type === "compressed" && b?.type === "compressed") {
+    return (
+      a.streamObjNum === b.streamObjNum &&
+      a.indexInStream === b.indexInStream &&
+      isSameEntry(before.get(a.streamObjNum), after.get(b.streamObjNum))
+    );
+  }
+
+  return isSameEntry(a, b);
+}
+
+/**
+ * Check whether two uncompressed entries point at the same object.
+ */
+function isSameEntry(a: XRefEntry | undefined, b: XRefEntry | undefined): boolean {
+  return (
+    a?.type === "uncompressed" &&
+    b?.type === "uncompressed" &&
+    a.offset === b.offset &&
+    a.generation === b.generation
+  );
+}
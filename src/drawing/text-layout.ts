@@ -1,14 +1,16 @@
 /**
- * Text layout utilities for measuring and wrapping text.
+ * Text layout utilities for measuring, encoding and wrapping text.
  */
 
 import {
+  getEncodingForStandard14,
   getGlyphName,
   getStandard14DefaultWidth,
   getStandard14GlyphWidth,
   isStandard14Font,
   type Standard14FontName,
 } from "#src/fonts/standard-14";
+import { PdfString } from "#src/objects/pdf-string";
 
 import type { FontInput } from "./types";
 
@@ -90,6 +92,58 @@ function measureStandard14Text(
   return (totalWidth * fontSize) / 1000;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Encoding Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Encode text to a PDF string for the given font.
+ *
+ * Standard 14 fonts use WinAnsiEncoding (or SymbolEncoding/ZapfDingbatsEncoding).
+ * Unencodable characters are substituted with .notdef (byte 0x00).
+ * Embedded fonts use Identity-H encoding with glyph IDs.
+ *
+ * @param text - The text to encode
+ * @param font - The font (Standard 14 name or EmbeddedFont)
+ * @returns String operand for the `Tj` operator
+ */
+export function encodeTextForFont(text: string, font: FontInput): PdfString {
+  if (typeof font === "string") {
+    // Standard 14 font - use the appropriate encoding
+    const encoding = getEncodingForStandard14(font);
+    const codes: number[] = [];
+
+    for (const char of text) {
+      if (encoding.canEncode(char)) {
+        // biome-ignore lint/style/noNonNullAssertion: canEncode guarantees getCode succeeds
+        codes.push(encoding.getCode(char.codePointAt(0)!)!);
+      } else {
+        // Substitute unencodable characters with .notdef (byte 0x00)
+        codes.push(0x00);
+      }
+    }
+
+    const bytes = new Uint8Array(codes);
+
+    // Use hex format for defense-in-depth: hex strings are pure ASCII
+    // and immune to any string encoding transformation
+    return PdfString.fromBytes(bytes);
+  }
+
+  // Embedded font - use Identity-H encoding with GIDs
+  // With CIDToGIDMap /Identity, the content stream must contain glyph IDs
+  const gids = font.encodeTextToGids(text);
+  const bytes = new Uint8Array(gids.length * 2);
+
+  for (let i = 0; i < gids.length; i++) {
+    const gid = gids[i];
+    bytes[i * 2] = (gid >> 8) & 0xff;
+    bytes[i * 2 + 1] = gid & 0xff;
+  }
+
+  return PdfString.fromBytes(bytes);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Layout Functions
 // ─────────────────────────────────────────────────────────────────────────────
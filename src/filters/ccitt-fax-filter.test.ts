@@ -0,0 +1,192 @@
+import { PDF } from "#src/api/pdf";
+import { PdfBool } from "#src/objects/pdf-bool";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { loadFixture } from "#src/test-utils";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { CCITTFaxFilter } from "./ccitt-fax-filter";
+
+/**
+ * Pack a string of "0" and "1" into bytes, padding with zeros.
+ */
+function bits(text: string): Uint8Array {
+  const clean = text.replace(/\s/g, "");
+  const bytes = new Uint8Array(Math.ceil(clean.length / 8));
+
+  for (let i = 0; i < clean.length; i++) {
+    if (clean[i] === "1") {
+      bytes[i >> 3] |= 0x80 >> (i & 7);
+    }
+  }
+
+  return bytes;
+}
+
+function params(entries: Record<string, number | boolean>): PdfDict {
+  const dict = new PdfDict();
+
+  for (const [key, value] of Object.entries(entries)) {
+    dict.set(key, typeof value === "boolean" ? PdfBool.of(value) : PdfNumber.of(value));
+  }
+
+  return dict;
+}
+
+const EOL = "000000000001";
+
+describe("CCITTFaxFilter", () => {
+  const filter = new CCITTFaxFilter();
+
+  it("has correct name", () => {
+    expect(filter.name).toBe("CCITTFaxDecode");
+  });
+
+  it("decodes Group 3 one-dimensional rows", () => {
+    // White 3 (1000), black 2 (11), white 3 (1000); then white 8 (10011)
+    const data = bits("1000 11 1000" + "10011");
+
+    expect(filter.decode(data, params({ K: 0, Columns: 8, Rows: 2, BlackIs1: true }))).toEqual(
+      new Uint8Array([0b00011000, 0]),
+    );
+  });
+
+  it("applies BlackIs1", () => {
+    const data = bits("1000 11 1000");
+
+    expect(filter.decode(data, params({ K: 0, Columns: 8, Rows: 1 }))).toEqual(
+      new Uint8Array([0b11100111]),
+    );
+  });
+
+  it("decodes mixed one- and two-dimensional rows", () => {
+    // Row 1 (tag 1): white 3, black 2, white 3
+    // Row 2 (tag 0): vertical modes V0 (1), VR1 (011), V0 (1) - the black
+    // run starts where the one above does and ends one pixel later
+    const data = bits(`${EOL}1 1000 11 1000` + `${EOL}0 1 011 1`);
+
+    expect(
+      filter.decode(data, params({ K: 2, Columns: 8, EndOfLine: true, BlackIs1: true })),
+    ).toEqual(new Uint8Array([0b00011000, 0b00011100]));
+  });
+
+  it("stops at the end of the block", () => {
+    const data = bits("1000 11 1000" + EOL + EOL + "1000 11 1000");
+
+    expect(filter.decode(data, params({ K: 0, Columns: 8, BlackIs1: true }))).toEqual(
+      new Uint8Array([0b00011000]),
+    );
+  });
+
+  describe("damaged rows", () => {
+    // The middle row starts with a code no run has
+    const data = bits(EOL + "1000 11 1000" + EOL + "000000001111" + EOL + "10011");
+
+    it("are an error by default", () => {
+      expect(() =>
+        filter.decode(data, params({ K: 0, Columns: 8, Rows: 3, EndOfLine: true })),
+      ).toThrow(/Invalid code in row 1/);
+    });
+
+    it("repeat the row above up to /DamagedRowsBeforeError", () => {
+      const decoded = filter.decode(
+        data,
+        params({
+          K: 0,
+          Columns: 8,
+          Rows: 3,
+          EndOfLine: true,
+          DamagedRowsBeforeError: 1,
+          BlackIs1: true,
+        }),
+      );
+
+      expect(decoded).toEqual(new Uint8Array([0b00011000, 0b00011000, 0]));
+    });
+  });
+
+  describe("encoding", () => {
+    // 20x4: a frame with a diagonal, 0 = black
+    const image = new Uint8Array([
+      0x00, 0x00, 0x0f, 0x7f, 0xff, 0xef, 0x7b, 0xff, 0xef, 0x00, 0x00, 0x0f,
+    ]);
+
+    for (const [label, options] of [
+      ["Group 4", { K: -1 }],
+      ["Group 4, byte-aligned", { K: -1, EncodedByteAlign: true }],
+      ["Group 3 1D", { K: 0 }],
+      ["Group 3 1D with EOLs, byte-aligned", { K: 0, EndOfLine: true, EncodedByteAlign: true }],
+      ["Group 3 mixed", { K: 2, EndOfLine: true }],
+      ["Group 3 mixed without end of block", { K: 3, EndOfBlock: false, Rows: 4 }],
+    ] as const) {
+      it(`round-trips ${label}`, () => {
+        const dict = params({ Columns: 20, ...options });
+
+        expect(filter.decode(filter.encode(image, dict), dict)).toEqual(image);
+      });
+    }
+
+    it("writes the EOFB code after Group 4 rows", () => {
+      // An all-white row is V0 against the imaginary white row above
+      const encoded = filter.encode(new Uint8Array([0xff]), params({ K: -1, Columns: 8 }));
+
+      expect(encoded).toEqual(bits("1" + EOL + EOL));
+    });
+
+    it("requires /Columns", () => {
+      expect(() => filter.encode(image, params({ K: -1 }))).toThrow(/Columns/);
+    });
+  });
+
+  describe("Group 4 images", () => {
+    let pdf: PDF;
+
+    beforeAll(async () => {
+      pdf = await PDF.load(await loadFixture("malformed", "pdfbox/PDFBOX-3785.pdf"));
+    });
+
+    const resolveImage = (objectNumber: number): PdfStream => {
+      const image = pdf.context.resolve(PdfRef.of(objectNumber, 0));
+
+      if (!(image instanceof PdfStream)) {
+        throw new Error("fixture image not found");
+      }
+
+      return image;
+    };
+
+    it("decodes a line drawing", () => {
+      const stream = resolveImage(121);
+      const decoded = stream.getDecodedData();
+      const rowBytes = Math.ceil(671 / 8);
+
+      expect(decoded.length).toBe(rowBytes * 616);
+
+      // Black lines on white (0 = black), with a blank top row
+      const black = decoded.reduce((count, byte) => count + 8 - popCount(byte), 0);
+
+      expect(black / (671 * 616)).toBeGreaterThan(0.02);
+      expect(black / (671 * 616)).toBeLessThan(0.3);
+      expect(decoded.subarray(0, rowBytes - 1).every(byte => byte === 0xff)).toBe(true);
+    });
+
+    it("re-encodes to the same pixels", () => {
+      const decoded = resolveImage(125).getDecodedData();
+      const dict = params({ K: -1, Columns: 1057, Rows: 949 });
+
+      expect(filter.decode(filter.encode(decoded, dict), dict)).toEqual(decoded);
+    });
+  });
+});
+
+function popCount(byte: number): number {
+  let count = 0;
+
+  for (let value = byte; value; value >>= 1) {
+    count += value & 1;
+  }
+
+  return count;
+}
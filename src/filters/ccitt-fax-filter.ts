@@ -1,56 +1,47 @@
 import { SINGLE_BYTE_MASK } from "#src/helpers/chars";
-import { ByteWriter } from "#src/io/byte-writer";
 import type { PdfDict } from "#src/objects/pdf-dict";
 
+import { decodeCcitt } from "./ccitt/decoder";
+import { encodeCcitt } from "./ccitt/encoder";
 import type { Filter } from "./filter";
 
 /**
  * CCITTFaxDecode filter.
  *
  * Decodes CCITT (fax) compressed image data. Used for black and white
- * scanned documents. Supports Group 3 (1D/2D) and Group 4 encoding.
- *
- * This is a complex filter with multiple encoding variants. The implementation
- * focuses on the most common case: Group 4 (K < 0) encoding.
+ * scanned documents. Supports Group 3 (1D and mixed 1D/2D) and Group 4
+ * encoding, both ways.
  *
  * Parameters (from /DecodeParms):
  * - /K: Encoding type
  *   - K < 0: Group 4 (2D) encoding (most common)
  *   - K = 0: Group 3 (1D) encoding
- *   - K > 0: Mixed 1D/2D encoding
- * - /Columns: Width in pixels (required)
- * - /Rows: Height in pixels (0 = unknown)
+ *   - K > 0: Mixed 1D/2D encoding, at most K-1 2D rows after each 1D row
+ * - /Columns: Width in pixels (default 1728)
+ * - /Rows: Height in pixels (0 = until the data ends)
  * - /BlackIs1: If true, 1 = black (default: 0 = black)
  * - /EncodedByteAlign: Byte-align each row
- * - /EndOfLine: Expect EOL markers
- * - /EndOfBlock: Expect EOFB marker (default: true)
+ * - /EndOfLine: Rows start with EOL codes
+ * - /EndOfBlock: Data ends with an EOFB/RTC code (default: true)
+ * - /DamagedRowsBeforeError: Damaged rows tolerated when rows start with
+ *   EOL codes and K >= 0 (default: 0); each is replaced by the row above
  */
 export class CCITTFaxFilter implements Filter {
   readonly name = "CCITTFaxDecode";
 
   decode(data: Uint8Array, params?: PdfDict): Uint8Array {
-    // Extract parameters
-    const k = params?.getNumber("K")?.value ?? 0;
-    const columns = params?.getNumber("Columns")?.value ?? 1728; // Standard fax width
-    const rows = params?.getNumber("Rows")?.value ?? 0;
     const blackIs1 = params?.getBool("BlackIs1")?.value ?? false;
-    const encodedByteAlign = params?.getBool("EncodedByteAlign")?.value ?? false;
-    const endOfBlock = params?.getBool("EndOfBlock")?.value ?? true;
-
-    let result: Uint8Array;
 
-    if (k < 0) {
-      // Group 4 (2D) encoding
-      result = this.decodeGroup4(data, columns, rows, encodedByteAlign, endOfBlock);
-    } else if (k === 0) {
-      // Group 3 (1D) encoding
-      result = this.decodeGroup3_1D(data, columns, rows, encodedByteAlign, endOfBlock);
-    } else {
-      // Mixed 1D/2D - not commonly used
-      throw new Error(`CCITTFaxDecode: Mixed 1D/2D encoding (K=${k}) not implemented`);
-    }
+    const { data: result } = decodeCcitt(data, {
+      k: params?.getNumber("K")?.value ?? 0,
+      columns: params?.getNumber("Columns")?.value ?? 1728, // Standard fax width
+      rows: params?.getNumber("Rows")?.value ?? 0,
+      encodedByteAlign: params?.getBool("EncodedByteAlign")?.value ?? false,
+      endOfLine: params?.getBool("EndOfLine")?.value ?? false,
+      damagedRowsBeforeError: params?.getNumber("DamagedRowsBeforeError")?.value ?? 0,
+    });
 
-    // Invert if BlackIs1 is false (default)
+    // The decoder produces 1 = black; invert if BlackIs1 is false (default)
     if (!blackIs1) {
       for (let i = 0; i < result.length; i++) {
         result[i] = ~result[i] & SINGLE_BYTE_MASK;
@@ -60,323 +51,25 @@ export class CCITTFaxFilter implements Filter {
     return result;
   }
 
-  encode(_data: Uint8Array, _params?: PdfDict): Uint8Array {
-    throw new Error("CCITTFaxDecode: Encoding not implemented");
-  }
-
-  /**
-   * Decode Group 4 (2D) CCITT encoding.
-   */
-  private decodeGroup4(
-    data: Uint8Array,
-    columns: number,
-    rows: number,
-    _encodedByteAlign: boolean,
-    _endOfBlock: boolean,
-  ): Uint8Array {
-    const bytesPerRow = Math.ceil(columns / 8);
-    const output = new ByteWriter();
-
-    // Bit reading state
-    let bitPos = 0;
-
-    // Reference row (all white initially)
-    let refRow = new Uint8Array(columns);
-    let curRow = new Uint8Array(columns);
-
-    // White and black run-length code tables
-    const whiteTerminating = this.buildWhiteTerminatingTable();
-    const whiteMakeup = this.buildWhiteMakeupTable();
-    const blackTerminating = this.buildBlackTerminatingTable();
-    const blackMakeup = this.buildBlackMakeupTable();
-
-    /**
-     * Read bits from input.
-     */
-    const readBits = (count: number): number => {
-      let value = 0;
-
-      for (let i = 0; i < count; i++) {
-        const byteIndex = Math.floor(bitPos / 8);
-        const bitIndex = 7 - (bitPos % 8);
-
-        if (byteIndex < data.length) {
-          value = (value << 1) | ((data[byteIndex] >> bitIndex) & 1);
-        }
-
-        bitPos++;
-      }
-
-      return value;
-    };
-
-    /**
-     * Peek bits without consuming.
-     */
-    const peekBits = (count: number): number => {
-      const savedPos = bitPos;
-      const value = readBits(count);
-
-      bitPos = savedPos;
-
-      return value;
-    };
-
-    /**
-     * Decode a run length using the given tables.
-     */
-    const decodeRunLength = (isWhite: boolean): number => {
-      const termTable = isWhite ? whiteTerminating : blackTerminating;
-      const makeupTable = isWhite ? whiteMakeup : blackMakeup;
-
-      let totalLength = 0;
-
-      // First, check for makeup codes (lengths >= 64)
-      while (true) {
-        let found = false;
-
-        for (const [code, bits, length] of makeupTable) {
-          if (peekBits(bits) === code) {
-            readBits(bits);
-            totalLength += length;
-            found = true;
-            break;
-          }
-        }
-
-        if (!found) {
-          break;
-        }
-      }
-
-      // Then, get terminating code (length < 64)
-      for (const [code, bits, length] of termTable) {
-        if (peekBits(bits) === code) {
-          readBits(bits);
-          totalLength += length;
-          return totalLength;
-        }
-      }
-
-      // No valid code found - return 0 (error recovery)
-      return totalLength;
-    };
-
-    /**
-     * Fill a run in the current row.
-     */
-    const fillRun = (start: number, length: number, color: number): void => {
-      const end = Math.min(start + length, columns);
-
-      for (let i = start; i < end; i++) {
-        curRow[i] = color;
-      }
-    };
-
-    // Decode rows
-    let rowCount = 0;
-
-    while ((rows === 0 || rowCount < rows) && bitPos < data.length * 8) {
-      // Reset current row
-      curRow.fill(0);
-
-      let a0 = 0; // Current position
-      let isWhite = true; // Start with white
-
-      while (a0 < columns) {
-        // Check for mode codes
-        const bits = peekBits(7);
-
-        // oxlint-disable-next-line no-dupe-else-if
-        if (bits >> 4 === 0b001) {
-          // Horizontal mode (001)
-          readBits(3);
-
-          // Read a0a1 run (current color)
-          const run1 = decodeRunLength(isWhite);
-
-          fillRun(a0, run1, isWhite ? 0 : 1);
-          a0 += run1;
-
-          // Read a1a2 run (opposite color)
-          const run2 = decodeRunLength(!isWhite);
-
-          fillRun(a0, run2, isWhite ? 1 : 0);
-          a0 += run2;
-        } else if (bits >> 6 === 0b1) {
-          // Pass mode (1)
-          readBits(1);
-
-          // Find b2 in reference row
-          let b1 = a0;
-
-          // Find first changing element in ref row after a0
-          while (b1 < columns && refRow[b1] === (isWhite ? 0 : 1)) {
-            b1++;
-          }
-
-          // Find b2 (next changing element)
-          let b2 = b1;
-
-          while (b2 < columns && refRow[b2] === (isWhite ? 1 : 0)) {
-            b2++;
-          }
-
-          // a0 moves to b2
-          fillRun(a0, b2 - a0, isWhite ? 0 : 1);
-          a0 = b2;
-        } else if (bits >> 3 === 0b0001) {
-          // Vertical VR(1) = 011
-          readBits(3);
-          const b1 = this.findB1(refRow, a0, isWhite, columns);
-
-          fillRun(a0, b1 - a0 + 1, isWhite ? 0 : 1);
-          a0 = b1 + 1;
-          isWhite = !isWhite;
-        } else if (bits >> 3 === 0b0010) {
-          // Vertical VL(1) = 010
-          readBits(3);
-          const b1 = this.findB1(refRow, a0, isWhite, columns);
-
-          fillRun(a0, b1 - a0 - 1, isWhite ? 0 : 1);
-          a0 = Math.max(a0, b1 - 1);
-          isWhite = !isWhite;
-        } else if (bits >> 4 === 0b0000011) {
-          // VR(2)
-          readBits(6);
-          const b1 = this.findB1(refRow, a0, isWhite, columns);
-
-          fillRun(a0, b1 - a0 + 2, isWhite ? 0 : 1);
-          a0 = b1 + 2;
-          isWhite = !isWhite;
-        } else if (bits >> 4 === 0b0000010) {
-          // VL(2)
-          readBits(6);
-          const b1 = this.findB1(refRow, a0, isWhite, columns);
-
-          fillRun(a0, b1 - a0 - 2, isWhite ? 0 : 1);
-          a0 = Math.max(a0, b1 - 2);
-          isWhite = !isWhite;
-        } else if (bits >> 4 === 0b0000001) {
-          // V(0) - most common
-          readBits(1);
-          const b1 = this.findB1(refRow, a0, isWhite, columns);
-
-          fillRun(a0, b1 - a0, isWhite ? 0 : 1);
-          a0 = b1;
-          isWhite = !isWhite;
-        } else {
-          // Unknown code or EOFB - advance and continue
-          readBits(1);
-          a0++;
-        }
-      }
-
-      // Pack row into bytes
-      for (let byte = 0; byte < bytesPerRow; byte++) {
-        let value = 0;
-
-        for (let bit = 0; bit < 8; bit++) {
-          const col = byte * 8 + bit;
-
-          if (col < columns) {
-            value = (value << 1) | curRow[col];
-          } else {
-            value = value << 1;
-          }
-        }
-
-        output.writeByte(value);
-      }
-
-      // Current row becomes reference row
-      [refRow, curRow] = [curRow, refRow];
-      rowCount++;
-    }
-
-    return output.toBytes();
-  }
-
   /**
-   * Find b1 in reference row (first changing element of opposite color after a0).
+   * Encode packed 1-bit rows (0 = black unless /BlackIs1). /Columns is
+   * required; /Rows defaults to as many rows as the data holds.
    */
-  private findB1(refRow: Uint8Array, a0: number, isWhite: boolean, columns: number): number {
-    const targetColor = isWhite ? 1 : 0;
-    let b1 = a0;
+  encode(data: Uint8Array, params?: PdfDict): Uint8Array {
+    const columns = params?.getNumber("Columns")?.value;
 
-    // Find first pixel of opposite color
-    while (b1 < columns && refRow[b1] !== targetColor) {
-      b1++;
+    if (columns === undefined) {
+      throw new Error("CCITTFaxDecode: Encoding requires /Columns");
     }
 
-    return b1;
-  }
-
-  /**
-   * Decode Group 3 (1D) encoding - simplified implementation.
-   */
-  private decodeGroup3_1D(
-    data: Uint8Array,
-    columns: number,
-    rows: number,
-    _encodedByteAlign: boolean,
-    _endOfBlock: boolean,
-  ): Uint8Array {
-    // Simplified: Group 3 1D is similar but without 2D coding
-    // For now, throw to indicate this variant needs more work
-    throw new Error(
-      `CCITTFaxDecode: Group 3 (1D) encoding not fully implemented. ` +
-        `Data: ${data.length} bytes, ${columns}x${rows}`,
-    );
-  }
-
-  // Huffman code tables for CCITT (partial - common codes only)
-
-  private buildWhiteTerminatingTable(): Array<[number, number, number]> {
-    // [code, bits, run_length]
-    return [
-      [0b00110101, 8, 0],
-      [0b000111, 6, 1],
-      [0b0111, 4, 2],
-      [0b1000, 4, 3],
-      [0b1011, 4, 4],
-      [0b1100, 4, 5],
-      [0b1110, 4, 6],
-      [0b1111, 4, 7],
-      [0b10011, 5, 8],
-      [0b10100, 5, 9],
-      [0b00111, 5, 10],
-      [0b01000, 5, 11],
-      // ... more codes would go here
-    ];
-  }
-
-  private buildWhiteMakeupTable(): Array<[number, number, number]> {
-    return [
-      [0b11011, 5, 64],
-      [0b10010, 5, 128],
-      // ... more codes
-    ];
-  }
-
-  private buildBlackTerminatingTable(): Array<[number, number, number]> {
-    return [
-      [0b0000110111, 10, 0],
-      [0b010, 3, 1],
-      [0b11, 2, 2],
-      [0b10, 2, 3],
-      [0b011, 3, 4],
-      [0b0011, 4, 5],
-      [0b0010, 4, 6],
-      [0b00011, 5, 7],
-      // ... more codes
-    ];
-  }
-
-  private buildBlackMakeupTable(): Array<[number, number, number]> {
-    return [
-      [0b0000001111, 10, 64],
-      // ... more codes
-    ];
+    return encodeCcitt(data, {
+      k: params?.getNumber("K")?.value ?? 0,
+      columns,
+      rows: params?.getNumber("Rows")?.value ?? 0,
+      blackIs1: params?.getBool("BlackIs1")?.value ?? false,
+      encodedByteAlign: params?.getBool("EncodedByteAlign")?.value ?? false,
+      endOfLine: params?.getBool("EndOfLine")?.value ?? false,
+      endOfBlock: params?.getBool("EndOfBlock")?.value ?? true,
+    });
   }
 }
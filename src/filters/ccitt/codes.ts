@@ -0,0 +1,186 @@
+/**
+ * CCITT fax code tables (T.4 4.1 and 4.2, Tables 1 to 4).
+ *
+ * Codes are written as bit strings, exactly as the recommendation lists
+ * them; lookup tables for decoding are built from them at load time.
+ */
+
+/** Terminating codes for white runs of 0-63 pixels */
+// prettier-ignore
+const WHITE_TERMINATING = [
+  "00110101", "000111", "0111", "1000", "1011", "1100", "1110", "1111",
+  "10011", "10100", "00111", "01000", "001000", "000011", "110100", "110101",
+  "101010", "101011", "0100111", "0001100", "0001000", "0010111", "0000011", "0000100",
+  "0101000", "0101011", "0010011", "0100100", "0011000", "00000010", "00000011", "00011010",
+  "00011011", "00010010", "00010011", "00010100", "00010101", "00010110", "00010111", "00101000",
+  "00101001", "00101010", "00101011", "00101100", "00101101", "00000100", "00000101", "00001010",
+  "00001011", "01010010", "01010011", "01010100", "01010101", "00100100", "00100101", "01011000",
+  "01011001", "01011010", "01011011", "01001010", "01001011", "00110010", "00110011", "00110100",
+];
+
+/** Make-up codes for white runs of 64-1728 pixels, in steps of 64 */
+// prettier-ignore
+const WHITE_MAKEUP = [
+  "11011", "10010", "010111", "0110111", "00110110", "00110111", "01100100", "01100101",
+  "01101000", "01100111", "011001100", "011001101", "011010010", "011010011", "011010100",
+  "011010101", "011010110", "011010111", "011011000", "011011001", "011011010", "011011011",
+  "010011000", "010011001", "010011010", "011000", "010011011",
+];
+
+/** Terminating codes for black runs of 0-63 pixels */
+// prettier-ignore
+const BLACK_TERMINATING = [
+  "0000110111", "010", "11", "10", "011", "0011", "0010", "00011",
+  "000101", "000100", "0000100", "0000101", "0000111", "00000100", "00000111", "000011000",
+  "0000010111", "0000011000", "0000001000", "00001100111", "00001101000", "00001101100",
+  "00000110111", "00000101000", "00000010111", "00000011000", "000011001010", "000011001011",
+  "000011001100", "000011001101", "000001101000", "000001101001", "000001101010", "000001101011",
+  "000011010010", "000011010011", "000011010100", "000011010101", "000011010110", "000011010111",
+  "000001101100", "000001101101", "000011011010", "000011011011", "000001010100", "000001010101",
+  "000001010110", "000001010111", "000001100100", "000001100101", "000001010010", "000001010011",
+  "000000100100", "000000110111", "000000111000", "000000100111", "000000101000", "000001011000",
+  "000001011001", "000000101011", "000000101100", "000001011010", "000001100110", "000001100111",
+];
+
+/** Make-up codes for black runs of 64-1728 pixels, in steps of 64 */
+// prettier-ignore
+const BLACK_MAKEUP = [
+  "0000001111", "000011001000", "000011001001", "000001011011", "000000110011", "000000110100",
+  "000000110101", "0000001101100", "0000001101101", "0000001001010", "0000001001011",
+  "0000001001100", "0000001001101", "0000001110010", "0000001110011", "0000001110100",
+  "0000001110101", "0000001110110", "0000001110111", "0000001010010", "0000001010011",
+  "0000001010100", "0000001010101", "0000001011010", "0000001011011", "0000001100100",
+  "0000001100101",
+];
+
+/** Make-up codes for runs of 1792-2560 pixels of either colour */
+// prettier-ignore
+const EXTENDED_MAKEUP = [
+  "00000001000", "00000001100", "00000001101", "000000010010", "000000010011", "000000010100",
+  "000000010101", "000000010110", "000000010111", "000000011100", "000000011101",
+  "000000011110", "000000011111",
+];
+
+/** End-of-line code */
+export const EOL = { code: 0b000000000001, bits: 12 } as const;
+
+/**
+ * Two-dimensional coding modes (T.4 Table 4).
+ */
+export const Mode = {
+  Pass: 0,
+  Horizontal: 1,
+  Vertical0: 2,
+  VerticalR1: 3,
+  VerticalR2: 4,
+  VerticalR3: 5,
+  VerticalL1: 6,
+  VerticalL2: 7,
+  VerticalL3: 8,
+  Extension: 9,
+} as const;
+
+export type Mode = (typeof Mode)[keyof typeof Mode];
+
+const MODE_CODES: Record<Mode, string> = {
+  [Mode.Pass]: "0001",
+  [Mode.Horizontal]: "001",
+  [Mode.Vertical0]: "1",
+  [Mode.VerticalR1]: "011",
+  [Mode.VerticalR2]: "000011",
+  [Mode.VerticalR3]: "0000011",
+  [Mode.VerticalL1]: "010",
+  [Mode.VerticalL2]: "000010",
+  [Mode.VerticalL3]: "0000010",
+  [Mode.Extension]: "0000001",
+};
+
+/**
+ * A code: its value and length in bits.
+ */
+export interface Code {
+  code: number;
+  bits: number;
+}
+
+function toCode(bits: string): Code {
+  return { code: Number.parseInt(bits, 2), bits: bits.length };
+}
+
+/**
+ * Codes for runs of one colour: terminating codes by length, and make-up
+ * codes by length / 64 - 1.
+ */
+export interface RunCodes {
+  terminating: Code[];
+  makeup: Code[];
+}
+
+export const WHITE_CODES: RunCodes = {
+  terminating: WHITE_TERMINATING.map(toCode),
+  makeup: [...WHITE_MAKEUP, ...EXTENDED_MAKEUP].map(toCode),
+};
+
+export const BLACK_CODES: RunCodes = {
+  terminating: BLACK_TERMINATING.map(toCode),
+  makeup: [...BLACK_MAKEUP, ...EXTENDED_MAKEUP].map(toCode),
+};
+
+/** Vertical mode codes, by a1 - b1 + 3 */
+export const VERTICAL_CODES: Code[] = [
+  Mode.VerticalL3,
+  Mode.VerticalL2,
+  Mode.VerticalL1,
+  Mode.Vertical0,
+  Mode.VerticalR1,
+  Mode.VerticalR2,
+  Mode.VerticalR3,
+].map(mode => toCode(MODE_CODES[mode]));
+
+export const PASS_CODE = toCode(MODE_CODES[Mode.Pass]);
+export const HORIZONTAL_CODE = toCode(MODE_CODES[Mode.Horizontal]);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Decoding tables
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A table indexed by the next `bits` bits of input. Entries hold
+ * `value << 4 | length`, or -1 where no code starts with those bits.
+ */
+export interface LookupTable {
+  bits: number;
+  entries: Int32Array;
+}
+
+function buildLookupTable(bits: number, codes: [value: number, code: Code][]): LookupTable {
+  const entries = new Int32Array(1 << bits).fill(-1);
+
+  for (const [value, code] of codes) {
+    const shift = bits - code.bits;
+    const first = code.code << shift;
+
+    entries.fill((value << 4) | code.bits, first, first + (1 << shift));
+  }
+
+  return { bits, entries };
+}
+
+function runEntries(codes: RunCodes): [number, Code][] {
+  return [
+    ...codes.terminating.map((code, length): [number, Code] => [length, code]),
+    ...codes.makeup.map((code, i): [number, Code] => [(i + 1) * 64, code]),
+  ];
+}
+
+/** White run lengths, by the next 12 bits */
+export const WHITE_TABLE = buildLookupTable(12, runEntries(WHITE_CODES));
+
+/** Black run lengths, by the next 13 bits */
+export const BLACK_TABLE = buildLookupTable(13, runEntries(BLACK_CODES));
+
+/** Coding modes, by the next 7 bits */
+export const MODE_TABLE = buildLookupTable(
+  7,
+  Object.values(Mode).map(mode => [mode, toCode(MODE_CODES[mode])]),
+);
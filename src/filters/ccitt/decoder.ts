@@ -0,0 +1,429 @@
+/**
+ * CCITT fax decoding: Group 3 one-dimensional (Modified Huffman), Group 3
+ * mixed one- and two-dimensional (T.4) and Group 4 (T.6, also JBIG2's MMR).
+ *
+ * Rows are decoded as lists of changing elements, the positions where
+ * the colour changes; two-dimensional rows are coded against the changing
+ * elements of the row above.
+ */
+
+import { ByteWriter } from "#src/io/byte-writer";
+
+import { BLACK_TABLE, EOL, type LookupTable, Mode, MODE_TABLE, WHITE_TABLE } from "./codes";
+
+/**
+ * Decoding parameters, as in a CCITTFaxDecode /DecodeParms dictionary.
+ */
+export interface CcittDecodeOptions {
+  /** Less than 0: Group 4; 0: Group 3 1D; greater than 0: Group 3 mixed */
+  k: number;
+  columns: number;
+
+  /** Number of rows, or 0 to decode until the data ends */
+  rows: number;
+
+  /** Rows (K < 0) or end-of-line codes (K >= 0) are byte-aligned */
+  encodedByteAlign: boolean;
+
+  /** Rows start with end-of-line codes */
+  endOfLine: boolean;
+
+  /** Damaged rows to tolerate, when rows start with end-of-line codes */
+  damagedRowsBeforeError: number;
+}
+
+/**
+ * A decoded image.
+ */
+export interface CcittImage {
+  /** Rows packed 8 pixels per byte, padded to whole bytes, 1 = black */
+  data: Uint8Array;
+  rows: number;
+
+  /** Bytes of input used, through any end-of-block code */
+  bytesRead: number;
+}
+
+/**
+ * Decode CCITT fax data.
+ *
+ * Decoding stops after `rows` rows, at an end-of-block (or return to
+ * control) code, or at the end of the data. Rows missing at the end are
+ * white. A row with an invalid code is an error unless rows start with
+ * end-of-line codes: then up to `damagedRowsBeforeError` damaged rows are
+ * replaced with the row above, and decoding resumes at the next
+ * end-of-line code.
+ */
+export function decodeCcitt(data: Uint8Array, options: CcittDecodeOptions): CcittImage {
+  return new CcittDecoder(data, options).decode();
+}
+
+/**
+ * MSB-first bit input that reads zeros past the end of the data.
+ */
+class BitInput {
+  position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get atEnd(): boolean {
+    return this.position >= this.data.length * 8;
+  }
+
+  /**
+   * The next `count` bits (up to 24) without consuming them.
+   */
+  peek(count: number): number {
+    const byte = this.position >>> 3;
+    const data = this.data;
+
+    const word =
+      ((data[byte] ?? 0) << 24) |
+      ((data[byte + 1] ?? 0) << 16) |
+      ((data[byte + 2] ?? 0) << 8) |
+      (data[byte + 3] ?? 0);
+
+    return ((word << (this.position & 7)) >>> 0) >>> (32 - count);
+  }
+
+  skip(count: number): void {
+    this.position += count;
+  }
+
+  read(count: number): number {
+    const value = this.peek(count);
+
+    this.position += count;
+
+    return value;
+  }
+
+  align(): void {
+    this.position = (this.position + 7) & ~7;
+  }
+}
+
+class CcittDecoder {
+  private readonly input: BitInput;
+  private readonly columns: number;
+
+  /** Changing elements of the row above, padded with `columns` */
+  private reference: Int32Array;
+  private referenceCount = 0;
+  private current: Int32Array;
+  private currentCount = 0;
+
+  constructor(
+    data: Uint8Array,
+    private readonly options: CcittDecodeOptions,
+  ) {
+    if (options.columns < 1) {
+      throw new Error("CCITTFaxDecode: /Columns must be positive");
+    }
+
+    this.input = new BitInput(data);
+    this.columns = options.columns;
+
+    // Room for a change at every pixel, plus padding
+    this.reference = new Int32Array(options.columns + 4);
+    this.current = new Int32Array(options.columns + 4);
+    this.reference.fill(options.columns);
+  }
+
+  decode(): CcittImage {
+    const { k, rows, endOfLine, damagedRowsBeforeError } = this.options;
+    const bytesPerRow = Math.ceil(this.columns / 8);
+    const output = new ByteWriter();
+    let row = 0;
+    let damaged = 0;
+
+    while (rows === 0 || row < rows) {
+      const start = this.startRow();
+
+      if (start === "end") {
+        break;
+      }
+
+      const valid = start === "2d" ? this.decode2D() : this.decode1D();
+
+      if (!valid) {
+        if (k < 0 || !endOfLine || damaged >= damagedRowsBeforeError) {
+          throw new Error(`CCITTFaxDecode: Invalid code in row ${row}`);
+        }
+
+        damaged++;
+
+        // Repeat the row above and resynchronise at the next end of line
+        this.current.set(this.reference);
+        this.currentCount = this.referenceCount;
+
+        while (!this.input.atEnd && this.input.peek(EOL.bits) !== EOL.code) {
+          this.input.skip(1);
+        }
+      }
+
+      output.writeBytes(this.packRow(bytesPerRow));
+
+      [this.reference, this.current] = [this.current, this.reference];
+      this.referenceCount = this.currentCount;
+      this.reference.fill(this.columns, this.referenceCount);
+      row++;
+    }
+
+    // With a known row count, the end of the block may still follow
+    this.readEndOfBlock();
+
+    const result = output.toBytes();
+    const total = rows || row;
+    const bytesRead = Math.ceil(this.input.position / 8);
+
+    if (total > row) {
+      // Missing rows are white
+      const padded = new Uint8Array(total * bytesPerRow);
+
+      padded.set(result);
+
+      return { data: padded, rows: total, bytesRead };
+    }
+
+    return { data: result, rows: total, bytesRead };
+  }
+
+  /**
+   * Skip alignment, fill bits and any end-of-line code before a row, and
+   * find how the row is coded.
+   */
+  private startRow(): "1d" | "2d" | "end" {
+    const { k, encodedByteAlign, endOfLine } = this.options;
+    const input = this.input;
+
+    // Not every encoder aligns the end of the block with the rows
+    if (this.readEndOfBlock()) {
+      return "end";
+    }
+
+    // With end-of-line codes, it's the codes that end on a byte boundary,
+    // after fill bits
+    if (encodedByteAlign && !endOfLine) {
+      input.align();
+    }
+
+    // No code starts with 12 zeros: these are fill bits, or padding at the end
+    while (!input.atEnd && input.peek(EOL.bits) === 0) {
+      input.skip(1);
+    }
+
+    if (input.atEnd || this.readEndOfBlock()) {
+      return "end";
+    }
+
+    if (input.peek(EOL.bits) === EOL.code) {
+      input.skip(EOL.bits);
+    }
+
+    if (k < 0) {
+      return "2d";
+    }
+
+    if (k > 0) {
+      // Tag bit: 1 for a one-dimensional row
+      return input.read(1) ? "1d" : "2d";
+    }
+
+    return "1d";
+  }
+
+  /**
+   * Skip an end-of-block code, if the input is at one: EOFB (two
+   * end-of-line codes) or RTC (six, each followed by a tag bit in mixed
+   * mode).
+   */
+  private readEndOfBlock(): boolean {
+    const input = this.input;
+    const bits = this.options.k > 0 ? EOL.bits + 1 : EOL.bits;
+    const code = this.options.k > 0 ? (EOL.code << 1) | 1 : EOL.code;
+
+    const start = input.position;
+    let count = 0;
+
+    while (input.peek(bits) === code) {
+      input.skip(bits);
+      count++;
+    }
+
+    if (count < 2) {
+      input.position = start;
+
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Decode a Modified Huffman row: alternating white and black runs.
+   */
+  private decode1D(): boolean {
+    this.currentCount = 0;
+
+    let position = 0;
+    let color = 0;
+
+    while (position < this.columns) {
+      const run = this.readRun(color);
+
+      if (run < 0) {
+        return false;
+      }
+
+      position += run;
+      this.addChange(position);
+      color ^= 1;
+    }
+
+    return true;
+  }
+
+  /**
+   * Decode a two-dimensional row against the reference row (T.4 4.2).
+   */
+  private decode2D(): boolean {
+    const columns = this.columns;
+    const reference = this.reference;
+
+    this.currentCount = 0;
+
+    // a0 starts on an imaginary white element before the row
+    let a0 = -1;
+    let color = 0;
+    let index = 0;
+
+    while (a0 < columns) {
+      // b1: the first change on the reference row after a0 to the opposite
+      // colour; changes to black are at even indices
+      while (index > 0 && reference[index - 1] > a0) {
+        index--;
+      }
+
+      while (reference[index] <= a0 || (index & 1) !== color) {
+        index++;
+      }
+
+      const b1 = reference[index];
+      const b2 = reference[index + 1];
+      const entry = MODE_TABLE.entries[this.input.peek(MODE_TABLE.bits)];
+
+      if (entry < 0) {
+        return false;
+      }
+
+      this.input.skip(entry & 15);
+
+      const mode = entry >> 4;
+
+      if (mode === Mode.Pass) {
+        a0 = b2;
+      } else if (mode === Mode.Horizontal) {
+        const first = this.readRun(color);
+        const second = first < 0 ? -1 : this.readRun(color ^ 1);
+
+        if (second < 0) {
+          return false;
+        }
+
+        const a1 = Math.max(a0, 0) + first;
+
+        this.addChange(a1);
+        this.addChange(a1 + second);
+        a0 = a1 + second;
+      } else if (mode === Mode.Extension) {
+        throw new Error("CCITTFaxDecode: Uncompressed mode is not supported");
+      } else {
+        const a1 = b1 + VERTICAL_OFFSETS[mode];
+
+        if (a1 < Math.max(a0, 0)) {
+          return false;
+        }
+
+        this.addChange(a1);
+        a0 = a1;
+        color ^= 1;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Read the make-up and terminating codes of a run; -1 if invalid.
+   */
+  private readRun(color: number): number {
+    const table: LookupTable = color ? BLACK_TABLE : WHITE_TABLE;
+    let total = 0;
+
+    while (true) {
+      const entry = table.entries[this.input.peek(table.bits)];
+
+      if (entry < 0) {
+        return -1;
+      }
+
+      this.input.skip(entry & 15);
+
+      const length = entry >> 4;
+
+      total += length;
+
+      // Terminating codes end the run
+      if (length < 64) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * Record a change on the current row. Positions past the row are
+   * clamped, and a change back at the previous position cancels it.
+   */
+  private addChange(position: number): void {
+    const clamped = Math.min(position, this.columns);
+
+    if (this.currentCount > 0 && this.current[this.currentCount - 1] === clamped) {
+      this.currentCount--;
+
+      return;
+    }
+
+    this.current[this.currentCount++] = clamped;
+  }
+
+  /**
+   * Pack the current row, 1 = black.
+   */
+  private packRow(bytesPerRow: number): Uint8Array {
+    const packed = new Uint8Array(bytesPerRow);
+    const changes = this.current;
+
+    // Black runs go from a change at an even index to the next change
+    for (let i = 0; i < this.currentCount; i += 2) {
+      const end = i + 1 < this.currentCount ? changes[i + 1] : this.columns;
+
+      for (let x = changes[i]; x < end; x++) {
+        packed[x >> 3] |= 0x80 >> (x & 7);
+      }
+    }
+
+    return packed;
+  }
+}
+
+/** a1 - b1 for each vertical mode */
+const VERTICAL_OFFSETS: Record<number, number> = {
+  [Mode.Vertical0]: 0,
+  [Mode.VerticalR1]: 1,
+  [Mode.VerticalR2]: 2,
+  [Mode.VerticalR3]: 3,
+  [Mode.VerticalL1]: -1,
+  [Mode.VerticalL2]: -2,
+  [Mode.VerticalL3]: -3,
+};
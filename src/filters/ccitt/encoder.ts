@@ -0,0 +1,288 @@
+/**
+ * CCITT fax encoding: Group 4 (T.6) and Group 3 one-dimensional or mixed
+ * (T.4), the counterpart of `decodeCcitt()`.
+ */
+
+import { ByteWriter } from "#src/io/byte-writer";
+
+import {
+  BLACK_CODES,
+  type Code,
+  EOL,
+  HORIZONTAL_CODE,
+  PASS_CODE,
+  type RunCodes,
+  VERTICAL_CODES,
+  WHITE_CODES,
+} from "./codes";
+
+/**
+ * Encoding parameters, as in a CCITTFaxDecode /DecodeParms dictionary.
+ */
+export interface CcittEncodeOptions {
+  /** Less than 0: Group 4; 0: Group 3 1D; greater than 0: one 1D row every K rows */
+  k: number;
+  columns: number;
+
+  /** Number of rows, or 0 for as many as the data holds */
+  rows: number;
+
+  /** In the input, 1 = black (otherwise 0 = black, as in DeviceGray) */
+  blackIs1: boolean;
+
+  /** Align rows (K < 0) or end-of-line codes (K >= 0) to bytes */
+  encodedByteAlign: boolean;
+
+  /** Start rows with end-of-line codes */
+  endOfLine: boolean;
+
+  /** End with an end-of-block (or return to control) code */
+  endOfBlock: boolean;
+}
+
+/**
+ * Encode a bilevel image: rows packed 8 pixels per byte, padded to whole
+ * bytes.
+ */
+export function encodeCcitt(data: Uint8Array, options: CcittEncodeOptions): Uint8Array {
+  const { k, columns } = options;
+
+  if (columns < 1) {
+    throw new Error("CCITTFaxDecode: /Columns must be positive");
+  }
+
+  const bytesPerRow = Math.ceil(columns / 8);
+  const rows = options.rows || Math.floor(data.length / bytesPerRow);
+
+  if (data.length < rows * bytesPerRow) {
+    throw new Error(`CCITTFaxDecode: Expected ${rows * bytesPerRow} bytes, got ${data.length}`);
+  }
+
+  const output = new BitOutput();
+
+  // Changing elements, padded with `columns` past the last one
+  let reference = new Int32Array(columns + 4).fill(columns);
+  let current = new Int32Array(columns + 4);
+
+  for (let row = 0; row < rows; row++) {
+    const count = findChanges(data, row * bytesPerRow, columns, options.blackIs1, current);
+
+    current.fill(columns, count);
+
+    if (options.endOfLine) {
+      writeEol(output, options);
+    } else if (options.encodedByteAlign) {
+      output.align();
+    }
+
+    if (k < 0) {
+      encode2D(output, current, reference, columns);
+    } else if (k > 0 && row % k !== 0) {
+      // Tag bit 0: coded against the row above
+      output.write(0, 1);
+      encode2D(output, current, reference, columns);
+    } else {
+      if (k > 0) {
+        output.write(1, 1);
+      }
+
+      encode1D(output, current, count, columns);
+    }
+
+    [reference, current] = [current, reference];
+  }
+
+  if (options.endOfBlock) {
+    // EOFB is two end-of-line codes, RTC six (each tagged in mixed mode)
+    const count = k < 0 ? 2 : 6;
+
+    if (options.encodedByteAlign) {
+      output.align();
+    }
+
+    for (let i = 0; i < count; i++) {
+      output.write(EOL.code, EOL.bits);
+
+      if (k > 0) {
+        output.write(1, 1);
+      }
+    }
+  }
+
+  return output.toBytes();
+}
+
+/**
+ * Write an end-of-line code, with fill bits to end it on a byte boundary
+ * if codes are aligned.
+ */
+function writeEol(output: BitOutput, options: CcittEncodeOptions): void {
+  if (options.encodedByteAlign) {
+    while ((output.position + EOL.bits) % 8 !== 0) {
+      output.write(0, 1);
+    }
+  }
+
+  output.write(EOL.code, EOL.bits);
+}
+
+/**
+ * Find the changing elements of a row: positions where a pixel differs
+ * from the one before it (the first pixel is compared with white).
+ *
+ * @returns The number of changes
+ */
+function findChanges(
+  data: Uint8Array,
+  offset: number,
+  columns: number,
+  blackIs1: boolean,
+  changes: Int32Array,
+): number {
+  let count = 0;
+  let previous = 0;
+
+  for (let x = 0; x < columns; x++) {
+    const bit = (data[offset + (x >> 3)] >> (7 - (x & 7))) & 1;
+    const black = blackIs1 ? bit : bit ^ 1;
+
+    if (black !== previous) {
+      changes[count++] = x;
+      previous = black;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Code a row as alternating white and black runs.
+ */
+function encode1D(output: BitOutput, changes: Int32Array, count: number, columns: number): void {
+  let position = 0;
+
+  for (let i = 0; i <= count; i++) {
+    const next = i < count ? changes[i] : columns;
+
+    writeRun(output, next - position, i & 1 ? BLACK_CODES : WHITE_CODES);
+    position = next;
+  }
+}
+
+/**
+ * Code a row against the one above (T.4 4.2.1.3.4).
+ */
+function encode2D(
+  output: BitOutput,
+  current: Int32Array,
+  reference: Int32Array,
+  columns: number,
+): void {
+  let a0 = -1;
+  let color = 0;
+  let next = 0;
+  let index = 0;
+
+  while (a0 < columns) {
+    // a1: the next change on this row
+    while (current[next] <= a0) {
+      next++;
+    }
+
+    const a1 = current[next];
+
+    // b1: the next change on the row above to the opposite colour of a0
+    while (index > 0 && reference[index - 1] > a0) {
+      index--;
+    }
+
+    while (reference[index] <= a0 || (index & 1) !== color) {
+      index++;
+    }
+
+    const b1 = reference[index];
+    const b2 = reference[index + 1];
+
+    if (b2 < a1) {
+      output.writeCode(PASS_CODE);
+      a0 = b2;
+    } else if (Math.abs(a1 - b1) <= 3) {
+      output.writeCode(VERTICAL_CODES[a1 - b1 + 3]);
+      a0 = a1;
+      color ^= 1;
+    } else {
+      const a2 = current[next + 1];
+
+      output.writeCode(HORIZONTAL_CODE);
+      writeRun(output, a1 - Math.max(a0, 0), color ? BLACK_CODES : WHITE_CODES);
+      writeRun(output, a2 - a1, color ? WHITE_CODES : BLACK_CODES);
+      a0 = a2;
+    }
+  }
+}
+
+/**
+ * Write a run as make-up codes (for 64 pixels or more) and a terminating
+ * code.
+ */
+function writeRun(output: BitOutput, length: number, codes: RunCodes): void {
+  let remaining = length;
+  const longest = codes.makeup.length * 64;
+
+  while (remaining >= longest) {
+    output.writeCode(codes.makeup[codes.makeup.length - 1]);
+    remaining -= longest;
+  }
+
+  if (remaining >= 64) {
+    output.writeCode(codes.makeup[(remaining >> 6) - 1]);
+    remaining &= 63;
+  }
+
+  output.writeCode(codes.terminating[remaining]);
+}
+
+/**
+ * MSB-first bit output.
+ */
+class BitOutput {
+  private readonly bytes = new ByteWriter();
+  private buffer = 0;
+  private bufferBits = 0;
+
+  /** Bits written so far */
+  get position(): number {
+    return this.bytes.position * 8 + this.bufferBits;
+  }
+
+  write(value: number, bits: number): void {
+    for (let i = bits - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+
+      if (++this.bufferBits === 8) {
+        this.bytes.writeByte(this.buffer);
+        this.buffer = 0;
+        this.bufferBits = 0;
+      }
+    }
+  }
+
+  writeCode(code: Code): void {
+    this.write(code.code, code.bits);
+  }
+
+  /**
+   * Pad with zeros to a byte boundary.
+   */
+  align(): void {
+    if (this.bufferBits > 0) {
+      this.write(0, 8 - this.bufferBits);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    this.align();
+
+    return this.bytes.toBytes();
+  }
+}
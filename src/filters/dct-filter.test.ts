@@ -0,0 +1,208 @@
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { DCTFilter } from "./dct-filter";
+import { decodeJpeg, type JpegImage } from "./dct/decoder";
+
+function pixelAt(image: JpegImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * image.components;
+
+  return Array.from(image.pixels.subarray(offset, offset + image.components));
+}
+
+function expectClose(actual: number[], expected: number[], tolerance: number): void {
+  expect(actual).toHaveLength(expected.length);
+
+  for (let i = 0; i < expected.length; i++) {
+    expect(Math.abs(actual[i] - expected[i])).toBeLessThanOrEqual(tolerance);
+  }
+}
+
+describe("DCTFilter", () => {
+  const filter = new DCTFilter();
+
+  it("has correct name", () => {
+    expect(filter.name).toBe("DCTDecode");
+  });
+
+  it("passes JPEG data through by default", async () => {
+    const jpeg = await loadFixture("images", "red-square.jpg");
+
+    expect(filter.decode(jpeg)).toBe(jpeg);
+    expect(filter.encode(jpeg)).toBe(jpeg);
+  });
+
+  it("decodes to pixels when asked", async () => {
+    const jpeg = await loadFixture("images", "red-square.jpg");
+    const pixels = filter.decode(jpeg, undefined, { pixels: true });
+
+    expect(pixels).toHaveLength(100 * 100 * 3);
+
+    let maxError = 0;
+
+    for (let i = 0; i < pixels.length; i += 3) {
+      maxError = Math.max(maxError, 255 - pixels[i], pixels[i + 1], pixels[i + 2]);
+    }
+
+    expect(maxError).toBeLessThanOrEqual(2);
+  });
+
+  it("decodes through PdfStream", async () => {
+    const stream = PdfStream.fromDict(
+      { Filter: PdfName.of("DCTDecode") },
+      await loadFixture("images", "gray-gradient.jpg"),
+    );
+
+    expect(stream.getDecodedData()).toBe(stream.data);
+
+    const pixels = stream.getDecodedData(undefined, { pixels: true });
+
+    expect(pixels).toHaveLength(20 * 12);
+    expect(pixels[0]).toBeLessThanOrEqual(3);
+    expect(Math.abs(pixels[19] - 255)).toBeLessThanOrEqual(3);
+    expect(Math.abs(pixels[11 * 20 + 10] - 134)).toBeLessThanOrEqual(3);
+  });
+
+  it("decodes subsampled images with partial MCUs and restart markers", async () => {
+    const image = decodeJpeg(await loadFixture("images", "quadrants.jpg"));
+
+    expect(image).toMatchObject({ width: 37, height: 21, components: 3, colorTransformed: true });
+
+    // Quadrant colours plus a ±4 ripple
+    expectClose(pixelAt(image, 9, 5), [220, 30, 30], 8);
+    expectClose(pixelAt(image, 27, 5), [30, 200, 60], 8);
+    expectClose(pixelAt(image, 9, 15), [40, 60, 210], 8);
+    expectClose(pixelAt(image, 27, 15), [240, 240, 240], 8);
+  });
+
+  it("decodes progressive images like their baseline equivalent", async () => {
+    const baseline = decodeJpeg(await loadFixture("images", "quadrants.jpg"));
+    const progressive = decodeJpeg(await loadFixture("images", "quadrants-progressive.jpg"));
+
+    expect(progressive.pixels).toEqual(baseline.pixels);
+  });
+
+  it("keeps Adobe CMYK samples as stored unless asked to invert", async () => {
+    const jpeg = await loadFixture("images", "cmyk-adobe.jpg");
+    const stored = decodeJpeg(jpeg);
+
+    expect(stored).toMatchObject({ components: 4, adobeTransform: 0, colorTransformed: false });
+    expectClose(pixelAt(stored, 4, 4), [0, 255, 255, 255], 2);
+    expectClose(pixelAt(stored, 12, 12), [255, 255, 255, 55], 2);
+
+    const inverted = decodeJpeg(jpeg, { invertCmyk: true });
+
+    expectClose(pixelAt(inverted, 4, 4), [255, 0, 0, 0], 2);
+    expectClose(pixelAt(inverted, 12, 4), [0, 255, 0, 0], 2);
+    expectClose(pixelAt(inverted, 4, 12), [0, 0, 255, 0], 2);
+    expectClose(pixelAt(inverted, 12, 12), [0, 0, 0, 200], 2);
+  });
+
+  it("converts YCCK to CMYK", async () => {
+    const cmyk = decodeJpeg(await loadFixture("images", "cmyk-adobe.jpg"));
+    const ycck = decodeJpeg(await loadFixture("images", "ycck-adobe.jpg"));
+
+    expect(ycck).toMatchObject({ adobeTransform: 2, colorTransformed: true });
+
+    for (const [x, y] of [
+      [4, 4],
+      [12, 4],
+      [4, 12],
+      [12, 12],
+    ]) {
+      expectClose(pixelAt(ycck, x, y), pixelAt(cmyk, x, y), 3);
+    }
+  });
+
+  it("follows /ColorTransform for images without an Adobe marker", async () => {
+    const jpeg = await loadFixture("images", "quadrants.jpg");
+    const params = PdfDict.of({ ColorTransform: PdfNumber.of(0) });
+    const image = DCTFilter.decodeImage(jpeg, params);
+
+    expect(image.colorTransformed).toBe(false);
+
+    // Red as YCbCr
+    expectClose(pixelAt(image, 9, 5), [87, 96, 223], 8);
+
+    // The Adobe marker wins over /ColorTransform
+    const adobe = await loadFixture("images", "ycck-adobe.jpg");
+
+    expect(DCTFilter.decodeImage(adobe, params).colorTransformed).toBe(true);
+  });
+
+  it("skips data before the SOI marker", async () => {
+    const jpeg = await loadFixture("images", "gray-gradient.jpg");
+    const padded = new Uint8Array([0x0d, 0x0a, ...jpeg]);
+
+    expect(decodeJpeg(padded).pixels).toEqual(decodeJpeg(jpeg).pixels);
+  });
+
+  it("rejects processes other than Huffman-coded DCT", () => {
+    // SOI, then a lossless (SOF3) frame header
+    const lossless = new Uint8Array([
+      0xff, 0xd8, 0xff, 0xc3, 0x00, 0x0b, 0x08, 0x00, 0x01, 0x00, 0x01, 0x01, 0x01, 0x11, 0x00,
+    ]);
+
+    expect(() => decodeJpeg(lossless)).toThrow("DCTDecode: Unsupported JPEG process (SOF3)");
+    expect(() => decodeJpeg(new Uint8Array([0, 1, 2]))).toThrow("DCTDecode: Missing SOI marker");
+  });
+
+  describe("encodeImage", () => {
+    /** Mean absolute difference between two sample arrays */
+    function meanError(a: Uint8Array, b: Uint8Array): number {
+      let sum = 0;
+
+      for (let i = 0; i < a.length; i++) {
+        sum += Math.abs(a[i] - b[i]);
+      }
+
+      return sum / a.length;
+    }
+
+    it("encodes gray images with partial blocks", () => {
+      const pixels = Uint8Array.from({ length: 37 * 19 }, (_, i) => ((i % 37) * 7) & 0xff);
+      const jpeg = DCTFilter.encodeImage(pixels, { width: 37, height: 19, components: 1 });
+      const image = decodeJpeg(jpeg);
+
+      expect(jpeg.subarray(0, 2)).toEqual(new Uint8Array([0xff, 0xd8]));
+      expect(image).toMatchObject({ width: 37, height: 19, components: 1 });
+      expect(meanError(image.pixels, pixels)).toBeLessThan(4);
+    });
+
+    it("encodes RGB images with subsampled chroma", () => {
+      const pixels = new Uint8Array(40 * 24 * 3);
+
+      for (let i = 0; i < 40 * 24; i++) {
+        pixels[i * 3] = (i % 40) * 6;
+        pixels[i * 3 + 1] = Math.floor(i / 40) * 10;
+        pixels[i * 3 + 2] = 255;
+      }
+
+      const image = decodeJpeg(
+        DCTFilter.encodeImage(pixels, { width: 40, height: 24, components: 3, quality: 90 }),
+      );
+
+      expect(image).toMatchObject({ width: 40, height: 24, components: 3 });
+      expect(meanError(image.pixels, pixels)).toBeLessThan(4);
+    });
+
+    it("trades size for quality", () => {
+      const pixels = Uint8Array.from({ length: 64 * 64 }, (_, i) => (i * 13) & 0xff);
+      const size = (quality: number) =>
+        DCTFilter.encodeImage(pixels, { width: 64, height: 64, components: 1, quality }).length;
+
+      expect(size(20)).toBeLessThan(size(50));
+      expect(size(50)).toBeLessThan(size(95));
+    });
+
+    it("rejects too few samples", () => {
+      expect(() =>
+        DCTFilter.encodeImage(new Uint8Array(10), { width: 4, height: 4, components: 1 }),
+      ).toThrow("JPEG: Expected 16 samples, got 10");
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import type { PdfDict } from "#src/objects/pdf-dict";
 
-import type { Filter } from "./filter";
+import { decodeJpeg, type JpegImage } from "./dct/decoder";
+import { encodeJpeg, type JpegEncodeOptions } from "./dct/encoder";
+import type { DecodeOptions, Filter } from "./filter";
 
 /**
  * DCTDecode filter (JPEG).
@@ -8,25 +10,33 @@ import type { Filter } from "./filter";
  * DCT (Discrete Cosine Transform) is the compression used in JPEG images.
  * In PDF, image streams with /Filter /DCTDecode contain raw JPEG data.
  *
- * This filter is a **pass-through** because:
- * 1. The data is already valid JPEG that browsers/image libraries can decode
- * 2. Decoding to raw pixels would be memory-intensive and usually unnecessary
- * 3. When rendering, the JPEG can be passed directly to canvas/img element
+ * By default this filter is a **pass-through**: the data is already valid
+ * JPEG that browsers and image libraries can decode, and handing it on is
+ * cheaper than expanding it to pixels.
  *
- * If you need actual pixel data, use an external JPEG decoder on the raw data.
+ * Pass `{ pixels: true }` (e.g. to `PdfStream.getDecodedData()`) for 8-bit
+ * samples instead, interleaved, one per colour component. Baseline,
+ * extended and progressive Huffman-coded JPEGs are decoded. YCbCr is
+ * converted to RGB and YCCK to CMYK as the Adobe APP14 marker, or else
+ * /ColorTransform, says. CMYK samples are returned as stored; the image's
+ * /Decode array says whether they're inverted.
  */
 export class DCTFilter implements Filter {
   readonly name = "DCTDecode";
 
   /**
-   * Returns the JPEG data as-is.
+   * Returns the JPEG data as-is, or its pixels when `options.pixels` is set.
    *
-   * The returned data is valid JPEG that can be:
+   * The JPEG data can be:
    * - Used as src for an <img> element (via Blob URL)
    * - Decoded by canvas.drawImage()
-   * - Passed to an external JPEG library for pixel access
+   * - Embedded elsewhere unchanged
    */
-  decode(data: Uint8Array, _params?: PdfDict): Uint8Array {
+  decode(data: Uint8Array, params?: PdfDict, options?: DecodeOptions): Uint8Array {
+    if (options?.pixels) {
+      return DCTFilter.decodeImage(data, params).pixels;
+    }
+
     // Validate JPEG header (optional, for error detection)
     if (data.length >= 2) {
       // JPEG starts with FFD8 (SOI marker)
@@ -43,12 +53,36 @@ export class DCTFilter implements Filter {
   /**
    * Returns the data as-is (assumes it's already JPEG).
    *
-   * For actual JPEG encoding from raw pixels, use an external library.
+   * To encode pixels as JPEG, use `DCTFilter.encodeImage()`.
    */
   encode(data: Uint8Array, _params?: PdfDict): Uint8Array {
     // Assume data is already JPEG encoded
     return data;
   }
+
+  /**
+   * Decode JPEG data to pixels, with the image's size and component count.
+   *
+   * @param data - Raw JPEG data (the stream's data before this filter)
+   * @param params - The filter's /DecodeParms, for /ColorTransform
+   */
+  static decodeImage(data: Uint8Array, params?: PdfDict): JpegImage {
+    const colorTransform = params?.getNumber("ColorTransform")?.value;
+
+    return decodeJpeg(data, {
+      colorTransform: colorTransform === undefined ? undefined : colorTransform !== 0,
+    });
+  }
+
+  /**
+   * Encode 8-bit gray or RGB samples as baseline JPEG data.
+   *
+   * @param pixels - Samples, interleaved, rows top to bottom
+   * @param options - Image size, component count and quality
+   */
+  static encodeImage(pixels: Uint8Array, options: JpegEncodeOptions): Uint8Array {
+    return encodeJpeg(pixels, options);
+  }
 }
 
 /**
@@ -0,0 +1,494 @@
+/**
+ * JPEG decoding (T.81): baseline, extended sequential and progressive
+ * Huffman-coded images, 8 bits per sample, to pixels.
+ *
+ * Markers are read in order; each scan adds to the components'
+ * quantized coefficients. Once all scans are in, blocks are dequantized
+ * and inverse transformed, components upsampled to the full image size
+ * and, where the image asks for it, YCbCr converted to RGB (and YCCK to
+ * CMYK).
+ */
+
+import { buildHuffmanTable, EntropyReader, type HuffmanTable } from "./huffman";
+import { inverseDct } from "./idct";
+import { decodeScan, type Frame, type FrameComponent, type Scan, ZIGZAG } from "./scan";
+
+/**
+ * Options for JPEG decoding.
+ */
+export interface JpegDecodeOptions {
+  /**
+   * Whether to convert YCbCr samples to RGB (and YCCK to CMYK) when the
+   * image has no Adobe APP14 marker to say. An Adobe marker's transform
+   * flag always wins.
+   *
+   * By default three-component images are converted, unless their
+   * component IDs spell "RGB", and others are not.
+   */
+  colorTransform?: boolean;
+
+  /**
+   * Invert the CMYK samples of images with an Adobe APP14 marker.
+   *
+   * Adobe applications write CMYK JPEG files inverted (0 is full ink), so
+   * set this for standalone files. JPEG data in PDF is left as stored: the
+   * image's /Decode array says how to read it.
+   */
+  invertCmyk?: boolean;
+}
+
+/**
+ * A decoded JPEG image.
+ */
+export interface JpegImage {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Number of components per pixel */
+  components: number;
+  /** Samples, 8 bits each, interleaved, rows top to bottom */
+  pixels: Uint8Array;
+  /** Transform flag of the Adobe APP14 marker (0 none, 1 YCbCr, 2 YCCK), or null without one */
+  adobeTransform: number | null;
+  /** Whether YCbCr samples were converted to RGB (or YCCK to CMYK) */
+  colorTransformed: boolean;
+}
+
+const Marker = {
+  SOF0: 0xc0,
+  SOF1: 0xc1,
+  SOF2: 0xc2,
+  DHT: 0xc4,
+  SOI: 0xd8,
+  EOI: 0xd9,
+  SOS: 0xda,
+  DQT: 0xdb,
+  DNL: 0xdc,
+  DRI: 0xdd,
+  APP14: 0xee,
+} as const;
+
+/** "Adobe", the APP14 segment's signature */
+const ADOBE = [0x41, 0x64, 0x6f, 0x62, 0x65];
+
+/**
+ * Decode a JPEG image to pixels.
+ *
+ * Data before the SOI marker is skipped, and truncated scans decode as far
+ * as the data goes.
+ *
+ * @param data - JPEG data
+ * @throws {Error} for lossless, hierarchical and arithmetic-coded images,
+ *   12-bit samples, or data without a frame
+ */
+export function decodeJpeg(data: Uint8Array, options: JpegDecodeOptions = {}): JpegImage {
+  const quantTables: (Uint16Array | undefined)[] = [];
+  const dcTables: (HuffmanTable | undefined)[] = [];
+  const acTables: (HuffmanTable | undefined)[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let pos = findSoi(data);
+
+  while (pos + 1 < data.length) {
+    if (data[pos] !== 0xff) {
+      // Stray bytes between segments
+      pos++;
+      continue;
+    }
+
+    const marker = data[pos + 1];
+
+    pos += 2;
+
+    // Fill bytes, and markers without a segment
+    if (marker === 0xff) {
+      pos--;
+      continue;
+    }
+
+    if (marker === Marker.EOI) {
+      break;
+    }
+
+    if (marker === 0x00 || marker === 0x01 || (marker >= 0xd0 && marker <= Marker.SOI)) {
+      continue;
+    }
+
+    const length = (data[pos] << 8) | data[pos + 1];
+    const segment = data.subarray(pos + 2, pos + length);
+
+    pos += length;
+
+    switch (marker) {
+      case Marker.DQT:
+        readQuantTables(segment, quantTables);
+        break;
+
+      case Marker.DHT:
+        readHuffmanTables(segment, dcTables, acTables);
+        break;
+
+      case Marker.SOF0:
+      case Marker.SOF1:
+      case Marker.SOF2:
+        if (frame) {
+          throw new Error("DCTDecode: Multiple frames are not supported");
+        }
+
+        frame = readFrame(segment, marker === Marker.SOF2, data, pos);
+        break;
+
+      case Marker.DRI:
+        restartInterval = (segment[0] << 8) | segment[1];
+        break;
+
+      case Marker.APP14:
+        if (segment.length >= 12 && ADOBE.every((byte, i) => segment[i] === byte)) {
+          adobeTransform = segment[11];
+        }
+        break;
+
+      case Marker.SOS: {
+        if (!frame) {
+          throw new Error("DCTDecode: Scan before frame header");
+        }
+
+        const scan = readScan(segment, frame, dcTables, acTables, restartInterval);
+        const reader = new EntropyReader(data, pos);
+
+        decodeScan(reader, frame, scan);
+        pos = reader.pos;
+        break;
+      }
+
+      default:
+        if (isUnsupportedFrame(marker)) {
+          throw new Error(
+            `DCTDecode: Unsupported JPEG process (SOF${marker - Marker.SOF0}); only Huffman-coded DCT is supported`,
+          );
+        }
+    }
+  }
+
+  if (!frame) {
+    throw new Error("DCTDecode: No frame header");
+  }
+
+  const pixels = buildPixels(frame, quantTables);
+  const components = frame.components.length;
+  const colorTransformed =
+    (components === 3 || components === 4) &&
+    (adobeTransform !== null
+      ? adobeTransform !== 0
+      : (options.colorTransform ?? (components === 3 && !isRgbIds(frame))));
+
+  if (colorTransformed) {
+    convertYcc(pixels, components);
+  }
+
+  if (options.invertCmyk && components === 4 && adobeTransform !== null) {
+    for (let i = 0; i < pixels.length; i++) {
+      pixels[i] = 255 - pixels[i];
+    }
+  }
+
+  return {
+    width: frame.width,
+    height: frame.height,
+    components,
+    pixels,
+    adobeTransform,
+    colorTransformed,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Segments
+// ─────────────────────────────────────────────────────────────────────────────
+
+function findSoi(data: Uint8Array): number {
+  for (let i = 0; i + 1 < data.length; i++) {
+    if (data[i] === 0xff && data[i + 1] === Marker.SOI) {
+      return i + 2;
+    }
+  }
+
+  throw new Error("DCTDecode: Missing SOI marker");
+}
+
+/**
+ * Read a DQT segment's tables, converted to natural order.
+ */
+function readQuantTables(segment: Uint8Array, tables: (Uint16Array | undefined)[]): void {
+  let pos = 0;
+
+  while (pos < segment.length) {
+    const precision = segment[pos] >> 4;
+    const id = segment[pos] & 3;
+    const table = new Uint16Array(64);
+
+    pos++;
+
+    for (let k = 0; k < 64; k++) {
+      if (precision === 0) {
+        table[ZIGZAG[k]] = segment[pos++];
+      } else {
+        table[ZIGZAG[k]] = (segment[pos] << 8) | segment[pos + 1];
+        pos += 2;
+      }
+    }
+
+    tables[id] = table;
+  }
+}
+
+function readHuffmanTables(
+  segment: Uint8Array,
+  dcTables: (HuffmanTable | undefined)[],
+  acTables: (HuffmanTable | undefined)[],
+): void {
+  let pos = 0;
+
+  while (pos + 17 <= segment.length) {
+    const tableClass = segment[pos] >> 4;
+    const id = segment[pos] & 3;
+    const counts = segment.subarray(pos + 1, pos + 17);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const table = buildHuffmanTable(counts, segment.subarray(pos + 17, pos + 17 + total));
+
+    if (tableClass === 0) {
+      dcTables[id] = table;
+    } else {
+      acTables[id] = table;
+    }
+
+    pos += 17 + total;
+  }
+}
+
+/**
+ * Read a frame header and allocate its components' coefficients.
+ *
+ * @param data - The whole JPEG data, to find a DNL marker if the frame
+ *   leaves the height to one
+ * @param pos - Offset just past the frame header
+ */
+function readFrame(
+  segment: Uint8Array,
+  progressive: boolean,
+  data: Uint8Array,
+  pos: number,
+): Frame {
+  const precision = segment[0];
+
+  if (precision !== 8) {
+    throw new Error(`DCTDecode: ${precision}-bit samples are not supported`);
+  }
+
+  const height = (segment[1] << 8) | segment[2] || findDnlHeight(data, pos);
+  const width = (segment[3] << 8) | segment[4];
+  const count = segment[5];
+
+  if (width === 0 || count === 0) {
+    throw new Error("DCTDecode: Invalid frame header");
+  }
+
+  const specs: { id: number; h: number; v: number; quantTable: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const offset = 6 + i * 3;
+
+    specs.push({
+      id: segment[offset],
+      h: Math.max(1, segment[offset + 1] >> 4),
+      v: Math.max(1, segment[offset + 1] & 15),
+      quantTable: segment[offset + 2] & 3,
+    });
+  }
+
+  const maxH = Math.max(...specs.map(spec => spec.h));
+  const maxV = Math.max(...specs.map(spec => spec.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+  const components = specs.map((spec): FrameComponent => {
+    const blocksPerLineForMcu = mcusPerLine * spec.h;
+    const blocksPerColumnForMcu = mcusPerColumn * spec.v;
+
+    return {
+      ...spec,
+      blocksPerLine: Math.ceil(Math.ceil((width * spec.h) / maxH) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil((height * spec.v) / maxV) / 8),
+      blocksPerLineForMcu,
+      blocksPerColumnForMcu,
+      coefficients: new Int16Array(blocksPerLineForMcu * blocksPerColumnForMcu * 64),
+    };
+  });
+
+  return { progressive, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+}
+
+/**
+ * The number of lines from the DNL marker after the first scan.
+ */
+function findDnlHeight(data: Uint8Array, pos: number): number {
+  for (let i = pos; i + 5 < data.length; i++) {
+    if (data[i] === 0xff && data[i + 1] === Marker.DNL) {
+      const height = (data[i + 4] << 8) | data[i + 5];
+
+      if (height > 0) {
+        return height;
+      }
+    }
+  }
+
+  throw new Error("DCTDecode: Image height is missing");
+}
+
+function readScan(
+  segment: Uint8Array,
+  frame: Frame,
+  dcTables: (HuffmanTable | undefined)[],
+  acTables: (HuffmanTable | undefined)[],
+  restartInterval: number,
+): Scan {
+  const count = segment[0];
+  const components: Scan["components"] = [];
+
+  for (let i = 0; i < count; i++) {
+    const id = segment[1 + i * 2];
+    const tables = segment[2 + i * 2];
+    const component = frame.components.find(c => c.id === id);
+
+    if (!component) {
+      throw new Error(`DCTDecode: Scan refers to unknown component ${id}`);
+    }
+
+    components.push({
+      component,
+      dcTable: dcTables[tables >> 4],
+      acTable: acTables[tables & 15],
+    });
+  }
+
+  const params = 1 + count * 2;
+
+  return {
+    components,
+    start: segment[params],
+    end: Math.min(segment[params + 1], 63),
+    high: segment[params + 2] >> 4,
+    low: segment[params + 2] & 15,
+    restartInterval,
+  };
+}
+
+/**
+ * SOF markers of processes we don't decode: lossless, hierarchical and
+ * arithmetic coding.
+ */
+function isUnsupportedFrame(marker: number): boolean {
+  return marker >= 0xc3 && marker <= 0xcf && marker !== 0xc8 && marker !== 0xcc;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pixels
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Inverse transform every component and interleave them at full size.
+ *
+ * Subsampled components are upsampled by replication.
+ */
+function buildPixels(frame: Frame, quantTables: (Uint16Array | undefined)[]): Uint8Array {
+  const { width, height, components } = frame;
+  const count = components.length;
+  const pixels = new Uint8Array(width * height * count);
+  const workspace = new Float64Array(64);
+  const columns = new Int32Array(width);
+
+  for (let c = 0; c < count; c++) {
+    const component = components[c];
+    const quant = quantTables[component.quantTable];
+
+    if (!quant) {
+      throw new Error(`DCTDecode: Missing quantization table ${component.quantTable}`);
+    }
+
+    const stride = component.blocksPerLineForMcu * 8;
+    const plane = new Uint8Array(stride * component.blocksPerColumnForMcu * 8);
+
+    for (let row = 0; row < component.blocksPerColumn; row++) {
+      for (let col = 0; col < component.blocksPerLine; col++) {
+        inverseDct(
+          component.coefficients,
+          (row * component.blocksPerLineForMcu + col) * 64,
+          quant,
+          plane,
+          row * 8 * stride + col * 8,
+          stride,
+          workspace,
+        );
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      columns[x] = Math.floor((x * component.h) / frame.maxH);
+    }
+
+    for (let y = 0; y < height; y++) {
+      const line = Math.floor((y * component.v) / frame.maxV) * stride;
+      let out = y * width * count + c;
+
+      for (let x = 0; x < width; x++) {
+        pixels[out] = plane[line + columns[x]];
+        out += count;
+      }
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Whether a three-component image's IDs are "R", "G" and "B", marking RGB
+ * samples rather than YCbCr.
+ */
+function isRgbIds(frame: Frame): boolean {
+  const [r, g, b] = frame.components;
+
+  return r.id === 0x52 && g.id === 0x47 && b.id === 0x42;
+}
+
+/**
+ * Convert YCbCr to RGB in place (JFIF), and for four components YCCK to
+ * CMYK: the converted RGB is inverted and K is kept.
+ */
+function convertYcc(pixels: Uint8Array, components: number): void {
+  for (let i = 0; i < pixels.length; i += components) {
+    const y = pixels[i];
+    const cb = pixels[i + 1] - 128;
+    const cr = pixels[i + 2] - 128;
+    const r = clamp(y + 1.402 * cr);
+    const g = clamp(y - 0.344136 * cb - 0.714136 * cr);
+    const b = clamp(y + 1.772 * cb);
+
+    if (components === 4) {
+      pixels[i] = 255 - r;
+      pixels[i + 1] = 255 - g;
+      pixels[i + 2] = 255 - b;
+    } else {
+      pixels[i] = r;
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+    }
+  }
+}
+
+function clamp(value: number): number {
+  const rounded = Math.round(value);
+
+  return rounded < 0 ? 0 : rounded > 255 ? 255 : rounded;
+}
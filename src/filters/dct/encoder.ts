@@ -0,0 +1,540 @@
+/**
+ * Baseline JPEG encoding (T.81): 8-bit gray or RGB samples, Huffman coded
+ * with the example tables of Annex K.
+ *
+ * RGB is converted to YCbCr (JFIF) and the chroma subsampled 2:1 both
+ * ways. Partial blocks at the right and bottom edges repeat the last
+ * column and row.
+ */
+
+import { ByteWriter } from "#src/io/byte-writer";
+
+import { COSINES } from "./idct";
+import { ZIGZAG } from "./scan";
+
+/**
+ * Options for JPEG encoding.
+ */
+export interface JpegEncodeOptions {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** 1 for gray, 3 for RGB */
+  components: 1 | 3;
+  /** Quality from 1 to 100, scaling the Annex K tables as IJG libjpeg does (default: 75) */
+  quality?: number;
+}
+
+/** Annex K.1 luminance quantization table, natural order */
+// prettier-ignore
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16,  24,  40,  51,  61,
+  12, 12, 14, 19,  26,  58,  60,  55,
+  14, 13, 16, 24,  40,  57,  69,  56,
+  14, 17, 22, 29,  51,  87,  80,  62,
+  18, 22, 37, 56,  68, 109, 103,  77,
+  24, 35, 55, 64,  81, 104, 113,  92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103,  99,
+];
+
+/** Annex K.1 chrominance quantization table, natural order */
+// prettier-ignore
+const CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+/**
+ * A Huffman table as written in a DHT segment: code counts per length
+ * (1-16) and the values in code order.
+ */
+interface HuffmanSpec {
+  counts: number[];
+  values: number[];
+}
+
+/** Annex K.3 tables */
+const LUMINANCE_DC: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const CHROMINANCE_DC: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+// prettier-ignore
+const LUMINANCE_AC: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  values: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+// prettier-ignore
+const CHROMINANCE_AC: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  values: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+/** A Huffman table in encoding form: code and length by value */
+interface HuffmanCodes {
+  codes: Uint16Array;
+  sizes: Uint8Array;
+}
+
+/**
+ * A sample plane being coded, with its sampling factors and tables.
+ */
+interface Plane {
+  id: number;
+  samples: Uint8Array;
+  width: number;
+  height: number;
+  horizontal: number;
+  vertical: number;
+  quantIndex: number;
+  quant: Uint16Array;
+  dc: HuffmanCodes;
+  ac: HuffmanCodes;
+
+  /** DC value of the previous block, for differences */
+  predictor: number;
+}
+
+/**
+ * Encode 8-bit samples as a baseline JPEG file.
+ *
+ * @param pixels - Samples, interleaved, rows top to bottom
+ * @throws {Error} If the size is out of range or there are too few samples
+ */
+export function encodeJpeg(pixels: Uint8Array, options: JpegEncodeOptions): Uint8Array {
+  const { width, height, components } = options;
+
+  if (!(width >= 1 && width <= 0xffff && height >= 1 && height <= 0xffff)) {
+    throw new Error(`JPEG: Invalid image size ${width}x${height}`);
+  }
+
+  if (pixels.length < width * height * components) {
+    throw new Error(`JPEG: Expected ${width * height * components} samples, got ${pixels.length}`);
+  }
+
+  const quality = Math.min(100, Math.max(1, Math.round(options.quality ?? 75)));
+  const quantTables = [scaleQuant(LUMINANCE_QUANT, quality)];
+  const luminance = { dc: buildCodes(LUMINANCE_DC), ac: buildCodes(LUMINANCE_AC) };
+  const planes: Plane[] = [];
+
+  if (components === 1) {
+    planes.push({
+      id: 1,
+      samples: pixels,
+      width,
+      height,
+      horizontal: 1,
+      vertical: 1,
+      quantIndex: 0,
+      quant: quantTables[0],
+      ...luminance,
+      predictor: 0,
+    });
+  } else {
+    const chrominance = { dc: buildCodes(CHROMINANCE_DC), ac: buildCodes(CHROMINANCE_AC) };
+    const [y, cb, cr] = toYcc(pixels, width, height);
+    const chromaWidth = Math.ceil(width / 2);
+    const chromaHeight = Math.ceil(height / 2);
+
+    quantTables.push(scaleQuant(CHROMINANCE_QUANT, quality));
+
+    planes.push(
+      {
+        id: 1,
+        samples: y,
+        width,
+        height,
+        horizontal: 2,
+        vertical: 2,
+        quantIndex: 0,
+        quant: quantTables[0],
+        ...luminance,
+        predictor: 0,
+      },
+      ...[cb, cr].map((samples, i) => ({
+        id: i + 2,
+        samples: subsample(samples, width, height),
+        width: chromaWidth,
+        height: chromaHeight,
+        horizontal: 1,
+        vertical: 1,
+        quantIndex: 1,
+        quant: quantTables[1],
+        ...chrominance,
+        predictor: 0,
+      })),
+    );
+  }
+
+  const writer = new ByteWriter();
+
+  writeMarker(writer, 0xd8);
+  writeSegment(writer, 0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+  writeSegment(
+    writer,
+    0xdb,
+    quantTables.flatMap((table, index) => [index, ...Array.from(ZIGZAG, i => table[i])]),
+  );
+
+  writeSegment(writer, 0xc0, [
+    8,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    planes.length,
+    ...planes.flatMap(plane => [
+      plane.id,
+      (plane.horizontal << 4) | plane.vertical,
+      plane.quantIndex,
+    ]),
+  ]);
+
+  const specs: [number, HuffmanSpec][] =
+    components === 1
+      ? [
+          [0x00, LUMINANCE_DC],
+          [0x10, LUMINANCE_AC],
+        ]
+      : [
+          [0x00, LUMINANCE_DC],
+          [0x10, LUMINANCE_AC],
+          [0x01, CHROMINANCE_DC],
+          [0x11, CHROMINANCE_AC],
+        ];
+
+  writeSegment(
+    writer,
+    0xc4,
+    specs.flatMap(([tableClass, spec]) => [tableClass, ...spec.counts, ...spec.values]),
+  );
+
+  writeSegment(writer, 0xda, [
+    planes.length,
+    ...planes.flatMap(plane => [plane.id, plane.quantIndex === 0 ? 0x00 : 0x11]),
+    0,
+    63,
+    0,
+  ]);
+
+  writeScan(writer, planes, width, height);
+  writeMarker(writer, 0xd9);
+
+  return writer.toBytes();
+}
+
+/**
+ * Code every block, in MCU order: one block at a time for a single
+ * component, otherwise each component's blocks of the MCU in turn.
+ */
+function writeScan(writer: ByteWriter, planes: Plane[], width: number, height: number): void {
+  const bits = new BitWriter(writer);
+  const block = new Float64Array(64);
+  const workspace = new Float64Array(64);
+  const coefficients = new Int32Array(64);
+  const maxHorizontal = Math.max(...planes.map(plane => plane.horizontal));
+  const maxVertical = Math.max(...planes.map(plane => plane.vertical));
+  const mcusAcross = Math.ceil(width / (8 * maxHorizontal));
+  const mcusDown = Math.ceil(height / (8 * maxVertical));
+
+  for (let mcuY = 0; mcuY < mcusDown; mcuY++) {
+    for (let mcuX = 0; mcuX < mcusAcross; mcuX++) {
+      for (const plane of planes) {
+        for (let v = 0; v < plane.vertical; v++) {
+          for (let h = 0; h < plane.horizontal; h++) {
+            const x = (mcuX * plane.horizontal + h) * 8;
+            const y = (mcuY * plane.vertical + v) * 8;
+
+            readBlock(plane, x, y, block);
+            forwardDct(block, workspace);
+
+            for (let i = 0; i < 64; i++) {
+              coefficients[i] = Math.round(block[i] / plane.quant[i]);
+            }
+
+            writeBlock(bits, plane, coefficients);
+          }
+        }
+      }
+    }
+  }
+
+  bits.flush();
+}
+
+/**
+ * Read a block's samples, level shifted, repeating the plane's last column
+ * and row past its edges.
+ */
+function readBlock(plane: Plane, x0: number, y0: number, block: Float64Array): void {
+  for (let y = 0; y < 8; y++) {
+    const row = Math.min(y0 + y, plane.height - 1) * plane.width;
+
+    for (let x = 0; x < 8; x++) {
+      block[y * 8 + x] = plane.samples[row + Math.min(x0 + x, plane.width - 1)] - 128;
+    }
+  }
+}
+
+/**
+ * Forward DCT in place (T.81 A.3.3): rows, then columns.
+ */
+function forwardDct(block: Float64Array, workspace: Float64Array): void {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+
+      for (let x = 0; x < 8; x++) {
+        sum += block[y * 8 + x] * COSINES[x * 8 + u];
+      }
+
+      workspace[y * 8 + u] = sum;
+    }
+  }
+
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+
+      for (let y = 0; y < 8; y++) {
+        sum += workspace[y * 8 + u] * COSINES[y * 8 + v];
+      }
+
+      block[v * 8 + u] = sum;
+    }
+  }
+}
+
+/**
+ * Huffman code a block of quantized coefficients (T.81 F.1.2).
+ */
+function writeBlock(bits: BitWriter, plane: Plane, coefficients: Int32Array): void {
+  const dc = coefficients[0];
+  const difference = dc - plane.predictor;
+
+  plane.predictor = dc;
+  writeValue(bits, plane.dc, 0, difference);
+
+  let run = 0;
+
+  for (let k = 1; k < 64; k++) {
+    const value = coefficients[ZIGZAG[k]];
+
+    if (value === 0) {
+      run++;
+      continue;
+    }
+
+    // Runs of 16 zeros
+    while (run > 15) {
+      bits.write(plane.ac.codes[0xf0], plane.ac.sizes[0xf0]);
+      run -= 16;
+    }
+
+    writeValue(bits, plane.ac, run << 4, value);
+    run = 0;
+  }
+
+  if (run > 0) {
+    // End of block
+    bits.write(plane.ac.codes[0], plane.ac.sizes[0]);
+  }
+}
+
+/**
+ * Write a value's size category (with a run length in the high nibble for
+ * AC coefficients) and then its bits: negative values as one less, in the
+ * category's bit count.
+ */
+function writeValue(bits: BitWriter, table: HuffmanCodes, symbol: number, value: number): void {
+  const magnitude = Math.abs(value);
+  const size = magnitude === 0 ? 0 : 32 - Math.clz32(magnitude);
+
+  bits.write(table.codes[symbol | size], table.sizes[symbol | size]);
+
+  if (size > 0) {
+    bits.write((value < 0 ? value - 1 : value) & ((1 << size) - 1), size);
+  }
+}
+
+/**
+ * Scale a quantization table for a quality, as IJG libjpeg does: 50 uses
+ * the table as given, lower qualities scale it up and higher ones down.
+ */
+function scaleQuant(table: number[], quality: number): Uint16Array {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+
+  return Uint16Array.from(table, value =>
+    Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))),
+  );
+}
+
+/**
+ * Assign codes to a table's values (T.81 C.2).
+ */
+function buildCodes(spec: HuffmanSpec): HuffmanCodes {
+  const codes = new Uint16Array(256);
+  const sizes = new Uint8Array(256);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      const value = spec.values[index++];
+
+      codes[value] = code++;
+      sizes[value] = length;
+    }
+
+    code <<= 1;
+  }
+
+  return { codes, sizes };
+}
+
+/**
+ * Convert RGB to full-resolution Y, Cb and Cr planes (JFIF).
+ */
+function toYcc(pixels: Uint8Array, width: number, height: number): Uint8Array[] {
+  const count = width * height;
+  const y = new Uint8Array(count);
+  const cb = new Uint8Array(count);
+  const cr = new Uint8Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const r = pixels[i * 3];
+    const g = pixels[i * 3 + 1];
+    const b = pixels[i * 3 + 2];
+
+    // Pure blue and red come out at 255.5 for Cb and Cr
+    y[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+    cb[i] = Math.min(255, Math.round(128 - 0.168736 * r - 0.331264 * g + 0.5 * b));
+    cr[i] = Math.min(255, Math.round(128 + 0.5 * r - 0.418688 * g - 0.081312 * b));
+  }
+
+  return [y, cb, cr];
+}
+
+/**
+ * Halve a plane both ways, averaging each 2x2 square (or what's left of
+ * it at the edges).
+ */
+function subsample(samples: Uint8Array, width: number, height: number): Uint8Array {
+  const outWidth = Math.ceil(width / 2);
+  const outHeight = Math.ceil(height / 2);
+  const result = new Uint8Array(outWidth * outHeight);
+
+  for (let y = 0; y < outHeight; y++) {
+    const top = y * 2 * width;
+    const bottom = Math.min(y * 2 + 1, height - 1) * width;
+
+    for (let x = 0; x < outWidth; x++) {
+      const left = x * 2;
+      const right = Math.min(x * 2 + 1, width - 1);
+
+      result[y * outWidth + x] =
+        (samples[top + left] +
+          samples[top + right] +
+          samples[bottom + left] +
+          samples[bottom + right] +
+          2) >>
+        2;
+    }
+  }
+
+  return result;
+}
+
+function writeMarker(writer: ByteWriter, marker: number): void {
+  writer.writeByte(0xff);
+  writer.writeByte(marker);
+}
+
+/**
+ * Write a marker segment: the marker, its length and its contents.
+ */
+function writeSegment(writer: ByteWriter, marker: number, contents: number[]): void {
+  const length = contents.length + 2;
+
+  writeMarker(writer, marker);
+  writer.writeByte(length >> 8);
+  writer.writeByte(length & 0xff);
+  writer.writeBytes(Uint8Array.from(contents));
+}
+
+/**
+ * Writes entropy-coded bits, most significant first, stuffing a zero byte
+ * after each 0xFF.
+ */
+class BitWriter {
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private readonly writer: ByteWriter) {}
+
+  /** Write up to 16 bits */
+  write(value: number, size: number): void {
+    this.buffer = (this.buffer << size) | value;
+    this.count += size;
+
+    while (this.count >= 8) {
+      const byte = (this.buffer >> (this.count - 8)) & 0xff;
+
+      this.writer.writeByte(byte);
+
+      if (byte === 0xff) {
+        this.writer.writeByte(0);
+      }
+
+      this.count -= 8;
+    }
+
+    this.buffer &= (1 << this.count) - 1;
+  }
+
+  /** Pad the last byte with 1 bits */
+  flush(): void {
+    if (this.count > 0) {
+      this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+    }
+  }
+}
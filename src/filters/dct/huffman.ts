@@ -0,0 +1,179 @@
+/**
+ * JPEG entropy-coded data: Huffman tables and the bit reader (T.81
+ * Annex C and F.2.2).
+ */
+
+/**
+ * A Huffman table in the decoding form of T.81 F.2.2.3: for each code
+ * length, the largest code of that length and the offset from a code to
+ * its value.
+ */
+export interface HuffmanTable {
+  /** Largest code of each length (1-16), -1 if there are none */
+  maxCode: Int32Array;
+
+  /** Added to a code of each length to index `values` */
+  valueOffset: Int32Array;
+
+  /** Values in code order */
+  values: Uint8Array;
+}
+
+/**
+ * Build a table from a DHT segment's code counts and values.
+ *
+ * @param counts - Number of codes of each length, 1 to 16
+ * @param values - The values, in order of increasing code length
+ */
+export function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+
+    if (count > 0) {
+      valueOffset[length] = index - code;
+      code += count;
+      index += count;
+      maxCode[length] = code - 1;
+    }
+
+    code <<= 1;
+  }
+
+  if (index > values.length) {
+    throw new Error("DCTDecode: Huffman table has fewer values than codes");
+  }
+
+  return { maxCode, valueOffset, values };
+}
+
+/**
+ * Reads bits from entropy-coded data.
+ *
+ * Stuffed zero bytes after 0xFF are dropped. At a marker (or the end of the
+ * data) the reader stops and yields zero bits, as decoders conventionally
+ * do for truncated scans.
+ */
+export class EntropyReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  /**
+   * @param data - The whole JPEG data
+   * @param pos - Offset of the first byte of entropy-coded data
+   */
+  constructor(
+    private readonly data: Uint8Array,
+    public pos: number,
+  ) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      this.fill();
+    }
+
+    this.bitCount--;
+
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.readBit();
+    }
+
+    return value;
+  }
+
+  /**
+   * Read a `size`-bit magnitude and extend it to a signed value (T.81
+   * F.2.2.1, RECEIVE and EXTEND).
+   */
+  receiveExtend(size: number): number {
+    if (size === 0) {
+      return 0;
+    }
+
+    const value = this.readBits(size);
+
+    return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+  }
+
+  /**
+   * Decode one Huffman-coded value.
+   */
+  decode(table: HuffmanTable): number {
+    let code = 0;
+
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | this.readBit();
+
+      if (code <= table.maxCode[length]) {
+        return table.values[code + table.valueOffset[length]];
+      }
+    }
+
+    throw new Error("DCTDecode: Invalid Huffman code");
+  }
+
+  /**
+   * Drop the bits left in the current byte and step over the restart
+   * marker that ends a restart interval.
+   *
+   * Stray bytes before the marker are skipped. Any other marker is left in
+   * place, so the rest of the scan reads as zero bits.
+   */
+  restart(): void {
+    this.bitCount = 0;
+
+    while (this.pos + 1 < this.data.length) {
+      if (this.data[this.pos] === 0xff) {
+        const marker = this.data[this.pos + 1];
+
+        if (marker >= 0xd0 && marker <= 0xd7) {
+          this.pos += 2;
+
+          return;
+        }
+
+        if (marker !== 0x00 && marker !== 0xff) {
+          return;
+        }
+      }
+
+      this.pos++;
+    }
+  }
+
+  private fill(): void {
+    this.bitCount = 8;
+
+    if (this.pos >= this.data.length) {
+      this.bitBuffer = 0;
+
+      return;
+    }
+
+    const byte = this.data[this.pos];
+
+    if (byte === 0xff) {
+      if (this.data[this.pos + 1] !== 0x00) {
+        // A marker: leave it for whoever reads on
+        this.bitBuffer = 0;
+
+        return;
+      }
+
+      this.pos++;
+    }
+
+    this.pos++;
+    this.bitBuffer = byte;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Dequantization and the 8x8 inverse DCT (T.81 A.3.3), separable: rows,
+ * then columns.
+ */
+
+/**
+ * DCT basis: `COSINES[x * 8 + u]` is C(u)/2 * cos((2x + 1)uπ/16), for
+ * the inverse transform here and the forward one in the encoder.
+ */
+export const COSINES = new Float64Array(64);
+
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+
+    COSINES[x * 8 + u] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+}
+
+/**
+ * Dequantize a block of coefficients and write its samples, level shifted
+ * and clamped to 0-255.
+ *
+ * @param coefficients - Quantized coefficients, natural order
+ * @param offset - Offset of the block in `coefficients`
+ * @param quant - Quantization table, natural order
+ * @param out - Sample plane
+ * @param outOffset - Offset of the block's top-left sample in `out`
+ * @param stride - Samples per line of `out`
+ * @param workspace - 64 values of scratch space
+ */
+export function inverseDct(
+  coefficients: Int16Array,
+  offset: number,
+  quant: Uint16Array,
+  out: Uint8Array,
+  outOffset: number,
+  stride: number,
+  workspace: Float64Array,
+): void {
+  // Rows: frequencies across to samples across
+  for (let v = 0; v < 8; v++) {
+    const row = offset + v * 8;
+    let acZero = true;
+
+    for (let u = 1; u < 8; u++) {
+      if (coefficients[row + u] !== 0) {
+        acZero = false;
+        break;
+      }
+    }
+
+    if (acZero) {
+      const dc = coefficients[row] * quant[v * 8] * COSINES[0];
+
+      workspace.fill(dc, v * 8, v * 8 + 8);
+      continue;
+    }
+
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+
+      for (let u = 0; u < 8; u++) {
+        sum += coefficients[row + u] * quant[v * 8 + u] * COSINES[x * 8 + u];
+      }
+
+      workspace[v * 8 + x] = sum;
+    }
+  }
+
+  // Columns: frequencies down to samples down
+  for (let x = 0; x < 8; x++) {
+    for (let y = 0; y < 8; y++) {
+      let sum = 0;
+
+      for (let v = 0; v < 8; v++) {
+        sum += workspace[v * 8 + x] * COSINES[y * 8 + v];
+      }
+
+      const sample = Math.round(sum + 128);
+
+      out[outOffset + y * stride + x] = sample < 0 ? 0 : sample > 255 ? 255 : sample;
+    }
+  }
+}
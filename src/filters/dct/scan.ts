@@ -0,0 +1,356 @@
+/**
+ * JPEG scans: Huffman-coded DCT coefficients, sequential (T.81 F.2.2) and
+ * progressive (G.1.2), read into each component's coefficient blocks.
+ *
+ * Blocks are decoded in MCU order for interleaved scans and in raster
+ * order over the component's own blocks for single-component scans.
+ */
+
+import type { EntropyReader, HuffmanTable } from "./huffman";
+
+/**
+ * Natural (row-major) positions of the coefficients in zig-zag order.
+ */
+// prettier-ignore
+export const ZIGZAG = new Uint8Array([
+   0,  1,  8, 16,  9,  2,  3, 10,
+  17, 24, 32, 25, 18, 11,  4,  5,
+  12, 19, 26, 33, 40, 48, 41, 34,
+  27, 20, 13,  6,  7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36,
+  29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46,
+  53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+/**
+ * A component of the frame and its coefficients.
+ */
+export interface FrameComponent {
+  /** Component identifier from the frame header */
+  id: number;
+
+  /** Sampling factors */
+  h: number;
+  v: number;
+
+  /** Quantization table selector */
+  quantTable: number;
+
+  /** Blocks covering the component's samples */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+
+  /** Blocks covering whole MCUs (the stride of `coefficients`) */
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+
+  /** Quantized coefficients, 64 per block in natural order */
+  coefficients: Int16Array;
+}
+
+/**
+ * A frame header (SOF) with its component buffers.
+ */
+export interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+/**
+ * A component in a scan and the tables it uses.
+ */
+export interface ScanComponent {
+  component: FrameComponent;
+  dcTable: HuffmanTable | undefined;
+  acTable: HuffmanTable | undefined;
+}
+
+/**
+ * A scan header (SOS).
+ */
+export interface Scan {
+  components: ScanComponent[];
+
+  /** Spectral selection: first and last coefficient, in zig-zag order */
+  start: number;
+  end: number;
+
+  /** Successive approximation: previous and current bit position */
+  high: number;
+  low: number;
+
+  /** MCUs per restart interval, 0 for none */
+  restartInterval: number;
+}
+
+/**
+ * Decode a scan's coefficients into its components' blocks.
+ *
+ * @param reader - Positioned at the scan's entropy-coded data
+ */
+export function decodeScan(reader: EntropyReader, frame: Frame, scan: Scan): void {
+  new ScanDecoder(reader, frame, scan).decode();
+}
+
+class ScanDecoder {
+  /** DC predictions, per scan component */
+  private readonly predictions: number[];
+
+  /** Blocks left in the current end-of-band run */
+  private eobRun = 0;
+
+  constructor(
+    private readonly reader: EntropyReader,
+    private readonly frame: Frame,
+    private readonly scan: Scan,
+  ) {
+    this.predictions = scan.components.map(() => 0);
+  }
+
+  decode(): void {
+    const { frame, scan } = this;
+    const single = scan.components.length === 1 ? scan.components[0].component : null;
+    const units = single
+      ? single.blocksPerLine * single.blocksPerColumn
+      : frame.mcusPerLine * frame.mcusPerColumn;
+
+    for (let unit = 0; unit < units; unit++) {
+      if (scan.restartInterval > 0 && unit > 0 && unit % scan.restartInterval === 0) {
+        this.reader.restart();
+        this.predictions.fill(0);
+        this.eobRun = 0;
+      }
+
+      if (single) {
+        const row = Math.floor(unit / single.blocksPerLine);
+        const col = unit % single.blocksPerLine;
+
+        this.decodeBlock(scan.components[0], blockOffset(single, row, col), 0);
+        continue;
+      }
+
+      const mcuRow = Math.floor(unit / frame.mcusPerLine);
+      const mcuCol = unit % frame.mcusPerLine;
+
+      for (let i = 0; i < scan.components.length; i++) {
+        const component = scan.components[i].component;
+
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            const row = mcuRow * component.v + v;
+            const col = mcuCol * component.h + h;
+
+            this.decodeBlock(scan.components[i], blockOffset(component, row, col), i);
+          }
+        }
+      }
+    }
+  }
+
+  private decodeBlock(component: ScanComponent, offset: number, index: number): void {
+    const { frame, scan } = this;
+
+    if (!frame.progressive) {
+      this.decodeBaseline(component, offset, index);
+    } else if (scan.start === 0) {
+      if (scan.high === 0) {
+        this.decodeDcFirst(component, offset, index);
+      } else {
+        this.decodeDcRefine(component, offset);
+      }
+    } else if (scan.high === 0) {
+      this.decodeAcFirst(component, offset);
+    } else {
+      this.decodeAcRefine(component, offset);
+    }
+  }
+
+  /**
+   * Sequential: all coefficients of a block at once.
+   */
+  private decodeBaseline(component: ScanComponent, offset: number, index: number): void {
+    const { reader } = this;
+    const coefficients = component.component.coefficients;
+    const acTable = requireTable(component.acTable);
+
+    this.predictions[index] += reader.receiveExtend(reader.decode(requireTable(component.dcTable)));
+    coefficients[offset] = this.predictions[index];
+
+    for (let k = 1; k < 64; k++) {
+      const symbol = reader.decode(acTable);
+      const run = symbol >> 4;
+      const size = symbol & 15;
+
+      if (size === 0) {
+        if (run < 15) {
+          break;
+        }
+
+        k += 15;
+        continue;
+      }
+
+      k += run;
+
+      if (k > 63) {
+        break;
+      }
+
+      coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(size);
+    }
+  }
+
+  /**
+   * Progressive: the first bits of the DC coefficient.
+   */
+  private decodeDcFirst(component: ScanComponent, offset: number, index: number): void {
+    const { reader } = this;
+
+    this.predictions[index] += reader.receiveExtend(reader.decode(requireTable(component.dcTable)));
+    component.component.coefficients[offset] = this.predictions[index] * (1 << this.scan.low);
+  }
+
+  /**
+   * Progressive: one more bit of the DC coefficient.
+   */
+  private decodeDcRefine(component: ScanComponent, offset: number): void {
+    if (this.reader.readBit()) {
+      component.component.coefficients[offset] |= 1 << this.scan.low;
+    }
+  }
+
+  /**
+   * Progressive: the first bits of a band of AC coefficients.
+   */
+  private decodeAcFirst(component: ScanComponent, offset: number): void {
+    if (this.eobRun > 0) {
+      this.eobRun--;
+
+      return;
+    }
+
+    const { reader, scan } = this;
+    const coefficients = component.component.coefficients;
+    const acTable = requireTable(component.acTable);
+
+    for (let k = scan.start; k <= scan.end; k++) {
+      const symbol = reader.decode(acTable);
+      const run = symbol >> 4;
+      const size = symbol & 15;
+
+      if (size === 0) {
+        if (run < 15) {
+          this.eobRun = (1 << run) - 1;
+
+          if (run > 0) {
+            this.eobRun += reader.readBits(run);
+          }
+
+          break;
+        }
+
+        k += 15;
+        continue;
+      }
+
+      k += run;
+
+      if (k > 63) {
+        break;
+      }
+
+      coefficients[offset + ZIGZAG[k]] = reader.receiveExtend(size) * (1 << scan.low);
+    }
+  }
+
+  /**
+   * Progressive: one more bit of a band of AC coefficients (T.81 G.1.2.3).
+   *
+   * Coefficients that are already nonzero get a correction bit each as
+   * they're passed; the run of a new coefficient counts only zeros.
+   */
+  private decodeAcRefine(component: ScanComponent, offset: number): void {
+    const { reader, scan } = this;
+    const coefficients = component.component.coefficients;
+    const plus = 1 << scan.low;
+    const minus = -1 << scan.low;
+    let k = scan.start;
+
+    if (this.eobRun === 0) {
+      const acTable = requireTable(component.acTable);
+
+      for (; k <= scan.end; k++) {
+        const symbol = reader.decode(acTable);
+        let run = symbol >> 4;
+        let value = 0;
+
+        if ((symbol & 15) !== 0) {
+          value = reader.readBit() ? plus : minus;
+        } else if (run < 15) {
+          this.eobRun = 1 << run;
+
+          if (run > 0) {
+            this.eobRun += reader.readBits(run);
+          }
+
+          break;
+        }
+
+        // Skip `run` zero coefficients, refining the nonzero ones on the way
+        while (k <= scan.end) {
+          const position = offset + ZIGZAG[k];
+
+          if (coefficients[position] !== 0) {
+            this.refine(coefficients, position, plus, minus);
+          } else if (--run < 0) {
+            break;
+          }
+
+          k++;
+        }
+
+        if (value !== 0 && k <= scan.end) {
+          coefficients[offset + ZIGZAG[k]] = value;
+        }
+      }
+    }
+
+    if (this.eobRun > 0) {
+      // In an end-of-band run: only correction bits for the rest
+      for (; k <= scan.end; k++) {
+        const position = offset + ZIGZAG[k];
+
+        if (coefficients[position] !== 0) {
+          this.refine(coefficients, position, plus, minus);
+        }
+      }
+
+      this.eobRun--;
+    }
+  }
+
+  private refine(coefficients: Int16Array, position: number, plus: number, minus: number): void {
+    if (this.reader.readBit() && (coefficients[position] & plus) === 0) {
+      coefficients[position] += coefficients[position] >= 0 ? plus : minus;
+    }
+  }
+}
+
+function blockOffset(component: FrameComponent, row: number, col: number): number {
+  return (row * component.blocksPerLineForMcu + col) * 64;
+}
+
+function requireTable(table: HuffmanTable | undefined): HuffmanTable {
+  if (!table) {
+    throw new Error("DCTDecode: Scan uses an undefined Huffman table");
+  }
+
+  return table;
+}
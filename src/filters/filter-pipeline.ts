@@ -4,7 +4,7 @@ import { ASCIIHexFilter } from "./ascii-hex-filter";
 import { ASCII85Filter } from "./ascii85-filter";
 import { CCITTFaxFilter } from "./ccitt-fax-filter";
 import { DCTFilter } from "./dct-filter";
-import type { Filter, FilterSpec } from "./filter";
+import type { DecodeOptions, EncodeOptions, Filter, FilterSpec } from "./filter";
 import { FlateFilter } from "./flate-filter";
 import { JBIG2Filter } from "./jbig2-filter";
 import { JPXFilter } from "./jpx-filter";
@@ -64,10 +64,15 @@ export class FilterPipeline {
    *
    * @param data - Raw stream data
    * @param filters - Single filter spec or array of filter specs
+   * @param options - How far to decode (e.g. DCTDecode to pixels)
    * @returns Decoded data
    * @throws {Error} if a filter is not registered
    */
-  static decode(data: Uint8Array, filters: FilterSpec | FilterSpec[]): Uint8Array {
+  static decode(
+    data: Uint8Array,
+    filters: FilterSpec | FilterSpec[],
+    options?: DecodeOptions,
+  ): Uint8Array {
     const filterList = Array.isArray(filters) ? filters : [filters];
 
     if (filterList.length === 0) {
@@ -83,7 +88,7 @@ export class FilterPipeline {
         throw new Error(`Unknown filter: ${spec.name}`);
       }
 
-      result = filter.decode(result, spec.params);
+      result = filter.decode(result, spec.params, options);
     }
 
     return result;
@@ -98,10 +103,15 @@ export class FilterPipeline {
    *
    * @param data - Data to encode
    * @param filters - Single filter spec or array of filter specs
+   * @param options - How hard to compress (e.g. the Flate level)
    * @returns Encoded data
    * @throws {Error} if a filter is not registered
    */
-  static encode(data: Uint8Array, filters: FilterSpec | FilterSpec[]): Uint8Array {
+  static encode(
+    data: Uint8Array,
+    filters: FilterSpec | FilterSpec[],
+    options?: EncodeOptions,
+  ): Uint8Array {
     const filterList = Array.isArray(filters) ? filters : [filters];
 
     if (filterList.length === 0) {
@@ -118,7 +128,7 @@ export class FilterPipeline {
         throw new Error(`Unknown filter: ${spec.name}`);
       }
 
-      result = filter.encode(result, spec.params);
+      result = filter.encode(result, spec.params, options);
     }
 
     return result;
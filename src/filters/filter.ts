@@ -10,6 +10,29 @@ export interface FilterSpec {
   params?: PdfDict;
 }
 
+/**
+ * Options for decoding stream data.
+ */
+export interface DecodeOptions {
+  /**
+   * Decode image data all the way to pixels where a filter otherwise
+   * passes it through: DCTDecode then returns 8-bit samples, interleaved,
+   * instead of the JPEG data.
+   */
+  pixels?: boolean;
+}
+
+/**
+ * Options for encoding stream data.
+ */
+export interface EncodeOptions {
+  /**
+   * Compression level for filters that have one (FlateDecode), from 0
+   * (store) to 9 (smallest). Default: 6
+   */
+  level?: number;
+}
+
 /**
  * A PDF stream filter implementation.
  *
@@ -24,15 +47,17 @@ export interface Filter {
    * Decode (decompress) data through this filter.
    * @param data - Input bytes (possibly from previous filter in chain)
    * @param params - Filter-specific parameters from /DecodeParms
+   * @param options - How far to decode
    * @returns Decoded bytes
    */
-  decode(data: Uint8Array, params?: PdfDict): Uint8Array;
+  decode(data: Uint8Array, params?: PdfDict, options?: DecodeOptions): Uint8Array;
 
   /**
    * Encode (compress) data through this filter.
    * @param data - Input bytes to encode
    * @param params - Filter-specific parameters
+   * @param options - How hard to compress
    * @returns Encoded bytes
    */
-  encode(data: Uint8Array, params?: PdfDict): Uint8Array;
+  encode(data: Uint8Array, params?: PdfDict, options?: EncodeOptions): Uint8Array;
 }
@@ -1,3 +1,5 @@
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfNumber } from "#src/objects/pdf-number";
 import pako from "pako";
 import { describe, expect, it } from "vitest";
 
@@ -76,6 +78,39 @@ describe("FlateFilter", () => {
 
       expect(encoded.length).toBeLessThan(original.length);
     });
+
+    it("compresses at the requested level", () => {
+      const original = new TextEncoder().encode(
+        Array.from({ length: 2000 }, (_, i) => `${i * 37} `).join(""),
+      );
+
+      const stored = filter.encode(original, undefined, { level: 0 });
+      const best = filter.encode(original, undefined, { level: 9 });
+
+      expect(stored.length).toBeGreaterThan(original.length);
+      expect(best.length).toBeLessThan(original.length / 2);
+      expect(pako.inflate(stored)).toEqual(original);
+    });
+
+    it("rejects invalid levels", () => {
+      expect(() => filter.encode(new Uint8Array(1), undefined, { level: 10 })).toThrow(
+        "Invalid Flate compression level: 10",
+      );
+    });
+
+    it("applies PNG predictors from the parameters", () => {
+      const params = PdfDict.of({
+        Predictor: PdfNumber.of(12),
+        Columns: PdfNumber.of(3),
+      });
+      const original = new Uint8Array([1, 2, 3, 4, 5, 6]);
+
+      const encoded = filter.encode(original, params);
+
+      // Each row prefixed with its filter byte
+      expect(pako.inflate(encoded).length).toBe(8);
+      expect(filter.decode(encoded, params)).toEqual(original);
+    });
   });
 
   describe("round-trip", () => {
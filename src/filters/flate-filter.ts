@@ -1,8 +1,10 @@
 import type { PdfDict } from "#src/objects/pdf-dict";
 import pako from "pako";
 
-import type { Filter } from "./filter";
-import { applyPredictor } from "./predictor";
+import type { EncodeOptions, Filter } from "./filter";
+import { applyPredictor, encodePredictor } from "./predictor";
+
+const LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] as const;
 
 /**
  * FlateDecode filter - zlib/deflate compression.
@@ -16,7 +18,8 @@ import { applyPredictor } from "./predictor";
  * `undefined` for these streams. We detect this case and recover
  * the decompressed data from pako's internal state.
  *
- * Supports Predictor parameter for PNG/TIFF prediction algorithms.
+ * Supports Predictor parameter for PNG/TIFF prediction algorithms (PNG
+ * only when encoding).
  */
 export class FlateFilter implements Filter {
   readonly name = "FlateDecode";
@@ -36,10 +39,16 @@ export class FlateFilter implements Filter {
     return decompressed;
   }
 
-  encode(data: Uint8Array, _params?: PdfDict): Uint8Array {
-    // Use default compression level (6)
+  encode(data: Uint8Array, params?: PdfDict, options?: EncodeOptions): Uint8Array {
+    const requested = options?.level ?? 6;
+    const level = LEVELS.find(candidate => candidate === requested);
+
+    if (level === undefined) {
+      throw new Error(`Invalid Flate compression level: ${requested}`);
+    }
+
     // Returns zlib format with header
-    return pako.deflate(data);
+    return pako.deflate(params ? encodePredictor(data, params) : data, { level });
   }
 
   /**
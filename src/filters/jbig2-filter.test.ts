@@ -0,0 +1,738 @@
+import { PDF } from "#src/api/pdf";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { loadFixture } from "#src/test-utils";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { encodeCcitt } from "./ccitt/encoder";
+import { JBIG2Filter } from "./jbig2-filter";
+import { Bitmap } from "./jbig2/bitmap";
+import { decodePatternDictionary } from "./jbig2/halftone";
+import { MQDecoder } from "./mq-decoder";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test encoder: just enough of T.88 to build arithmetic-coded streams
+// ─────────────────────────────────────────────────────────────────────────────
+
+const QE: [number, number, number, number][] = [
+  [0x5601, 1, 1, 1],
+  [0x3401, 2, 6, 0],
+  [0x1801, 3, 9, 0],
+  [0x0ac1, 4, 12, 0],
+  [0x0521, 5, 29, 0],
+  [0x0221, 38, 33, 0],
+  [0x5601, 7, 6, 1],
+  [0x5401, 8, 14, 0],
+  [0x4801, 9, 14, 0],
+  [0x3801, 10, 14, 0],
+  [0x3001, 11, 17, 0],
+  [0x2401, 12, 18, 0],
+  [0x1c01, 13, 20, 0],
+  [0x1601, 29, 21, 0],
+  [0x5601, 15, 14, 1],
+  [0x5401, 16, 14, 0],
+  [0x5101, 17, 15, 0],
+  [0x4801, 18, 16, 0],
+  [0x3801, 19, 17, 0],
+  [0x3401, 20, 18, 0],
+  [0x3001, 21, 19, 0],
+  [0x2801, 22, 19, 0],
+  [0x2401, 23, 20, 0],
+  [0x2201, 24, 21, 0],
+  [0x1c01, 25, 22, 0],
+  [0x1801, 26, 23, 0],
+  [0x1601, 27, 24, 0],
+  [0x1401, 28, 25, 0],
+  [0x1201, 29, 26, 0],
+  [0x1101, 30, 27, 0],
+  [0x0ac1, 31, 28, 0],
+  [0x09c1, 32, 29, 0],
+  [0x08a1, 33, 30, 0],
+  [0x0521, 34, 31, 0],
+  [0x0441, 35, 32, 0],
+  [0x02a1, 36, 33, 0],
+  [0x0221, 37, 34, 0],
+  [0x0141, 38, 35, 0],
+  [0x0111, 39, 36, 0],
+  [0x0085, 40, 37, 0],
+  [0x0049, 41, 38, 0],
+  [0x0025, 42, 39, 0],
+  [0x0015, 43, 40, 0],
+  [0x0009, 44, 41, 0],
+  [0x0005, 45, 42, 0],
+  [0x0001, 45, 43, 0],
+  [0x5601, 46, 46, 0],
+];
+
+/**
+ * MQ encoder (T.88 E.2).
+ */
+class MQEncoder {
+  private a = 0x8000;
+  private c = 0;
+  private ct = 12;
+
+  // The first byte stands in for the byte before the output
+  private readonly bytes: number[] = [0];
+
+  encode(contexts: Int8Array, index: number, bit: number): void {
+    const state = contexts[index] >> 1;
+    let mps = contexts[index] & 1;
+    const [qe, nmps, nlps, switchFlag] = QE[state];
+
+    this.a -= qe;
+
+    if (bit === mps) {
+      if (this.a & 0x8000) {
+        this.c += qe;
+
+        return;
+      }
+
+      if (this.a < qe) {
+        this.a = qe;
+      } else {
+        this.c += qe;
+      }
+
+      contexts[index] = (nmps << 1) | mps;
+    } else {
+      if (this.a < qe) {
+        this.c += qe;
+      } else {
+        this.a = qe;
+      }
+
+      if (switchFlag) {
+        mps = 1 - mps;
+      }
+
+      contexts[index] = (nlps << 1) | mps;
+    }
+
+    do {
+      this.a <<= 1;
+      this.c *= 2;
+
+      if (--this.ct === 0) {
+        this.byteOut();
+      }
+    } while ((this.a & 0x8000) === 0);
+  }
+
+  finish(): number[] {
+    const temp = this.c + this.a;
+
+    this.c = this.c - (this.c % 0x10000) + 0xffff;
+
+    if (this.c >= temp) {
+      this.c -= 0x8000;
+    }
+
+    this.c *= 2 ** this.ct;
+    this.byteOut();
+    this.c *= 2 ** this.ct;
+    this.byteOut();
+
+    if (this.bytes.at(-1) !== 0xff) {
+      this.bytes.push(0xff);
+    }
+
+    this.bytes.push(0xac);
+
+    return this.bytes.slice(1);
+  }
+
+  private byteOut(): void {
+    const last = this.bytes.length - 1;
+
+    if (this.bytes[last] !== 0xff && this.c >= 0x8000000) {
+      // Carry into the previous byte
+      this.bytes[last]++;
+      this.c %= 0x8000000;
+    }
+
+    if (this.bytes[last] === 0xff) {
+      this.bytes.push(Math.floor(this.c / 2 ** 20) & 0xff);
+      this.c %= 2 ** 20;
+      this.ct = 7;
+    } else {
+      this.bytes.push(Math.floor(this.c / 2 ** 19) & 0xff);
+      this.c %= 2 ** 19;
+      this.ct = 8;
+    }
+  }
+}
+
+/** Default adaptive pixels of generic template 0 */
+const DEFAULT_AT_PIXELS: [number, number][] = [
+  [3, -1],
+  [-3, -1],
+  [2, -2],
+  [-2, -2],
+];
+
+const DEFAULT_AT = DEFAULT_AT_PIXELS.flat().map(v => v & 0xff);
+
+/**
+ * Generic template 0 with the given adaptive pixels, in context bit order.
+ */
+function template0(at: [number, number][]): [number, number][] {
+  return [
+    at[3],
+    [-1, -2],
+    [0, -2],
+    [1, -2],
+    at[2],
+    at[1],
+    [-2, -1],
+    [-1, -1],
+    [0, -1],
+    [1, -1],
+    [2, -1],
+    at[0],
+    [-4, 0],
+    [-3, 0],
+    [-2, 0],
+    [-1, 0],
+  ];
+}
+
+function encodeGenericRegion(
+  encoder: MQEncoder,
+  contexts: Int8Array,
+  bitmap: Bitmap,
+  typicalPrediction: boolean,
+  atPixels = DEFAULT_AT_PIXELS,
+  skip?: Bitmap,
+): void {
+  const template = template0(atPixels);
+  let ltp = 0;
+
+  for (let y = 0; y < bitmap.height; y++) {
+    if (typicalPrediction) {
+      let typical = 1;
+
+      for (let x = 0; x < bitmap.width; x++) {
+        if (bitmap.get(x, y) !== bitmap.get(x, y - 1)) {
+          typical = 0;
+        }
+      }
+
+      encoder.encode(contexts, 0x9b25, ltp ^ typical);
+      ltp = typical;
+
+      if (ltp) {
+        continue;
+      }
+    }
+
+    for (let x = 0; x < bitmap.width; x++) {
+      if (skip?.get(x, y)) {
+        continue;
+      }
+
+      let context = 0;
+
+      for (const [dx, dy] of template) {
+        context = (context << 1) | bitmap.get(x + dx, y + dy);
+      }
+
+      encoder.encode(contexts, context, bitmap.get(x, y));
+    }
+  }
+}
+
+/**
+ * Arithmetic integer encoder (A.2), null for out-of-band.
+ */
+function encodeInteger(encoder: MQEncoder, contexts: Int8Array, value: number | null): void {
+  let prev = 1;
+
+  const put = (bit: number) => {
+    encoder.encode(contexts, prev, bit);
+    prev = prev < 256 ? (prev << 1) | bit : (((prev << 1) | bit) & 511) | 256;
+  };
+
+  const putBits = (v: number, count: number) => {
+    for (let i = count - 1; i >= 0; i--) {
+      put((v >> i) & 1);
+    }
+  };
+
+  if (value === null) {
+    put(1);
+    put(0);
+    putBits(0, 2);
+
+    return;
+  }
+
+  const magnitude = Math.abs(value);
+
+  put(value < 0 ? 1 : 0);
+
+  const ranges: [number, number, number][] = [
+    [4, 2, 0],
+    [20, 4, 4],
+    [84, 6, 20],
+    [340, 8, 84],
+    [4436, 12, 340],
+  ];
+
+  for (const [prefix, [limit, bits, offset]] of ranges.entries()) {
+    if (magnitude < limit) {
+      putBits((1 << prefix) - 1, prefix);
+      put(0);
+      putBits(magnitude - offset, bits);
+
+      return;
+    }
+  }
+
+  throw new Error("value too large for the test encoder");
+}
+
+function encodeSymbolId(encoder: MQEncoder, contexts: Int8Array, id: number, codeLength: number) {
+  let prev = 1;
+
+  for (let i = codeLength - 1; i >= 0; i--) {
+    const bit = (id >> i) & 1;
+
+    encoder.encode(contexts, prev, bit);
+    prev = (prev << 1) | bit;
+  }
+}
+
+function u32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function segment(
+  number: number,
+  type: number,
+  data: number[],
+  referredTo: number[] = [],
+): number[] {
+  return [
+    ...u32(number),
+    type,
+    referredTo.length << 5,
+    ...referredTo,
+    1,
+    ...u32(data.length),
+    ...data,
+  ];
+}
+
+function pageInformation(width: number, height: number): number[] {
+  return segment(0, 48, [...u32(width), ...u32(height), ...u32(0), ...u32(0), 0, 0, 0]);
+}
+
+function regionInfo(width: number, height: number): number[] {
+  return [...u32(width), ...u32(height), ...u32(0), ...u32(0), 0];
+}
+
+/**
+ * Build a bitmap from rows of "#" (black) and "." (white).
+ */
+function bitmapOf(rows: string[]): Bitmap {
+  const bitmap = new Bitmap(rows[0].length, rows.length);
+
+  rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      bitmap.set(x, y, row[x] === "#" ? 1 : 0);
+    }
+  });
+
+  return bitmap;
+}
+
+/** Four 4x4 halftone patterns, white to black */
+const PATTERNS = [
+  bitmapOf(["....", "....", "....", "...."]),
+  bitmapOf(["#...", "....", "..#.", "...."]),
+  bitmapOf(["#.#.", ".#.#", "#.#.", ".#.#"]),
+  bitmapOf(["####", "####", "####", "####"]),
+];
+
+/** Adaptive pixels of a pattern dictionary's collective bitmap (6.7.5) */
+const PATTERN_AT_PIXELS: [number, number][] = [
+  [-4, 0],
+  [-3, -1],
+  [2, -2],
+  [-2, -2],
+];
+
+/**
+ * Encode PATTERNS side by side as an arithmetic-coded collective bitmap.
+ */
+function encodePatterns(): number[] {
+  const collective = new Bitmap(PATTERNS.length * 4, 4);
+
+  PATTERNS.forEach((pattern, i) => collective.compose(pattern, i * 4, 0, 0));
+
+  const encoder = new MQEncoder();
+
+  encodeGenericRegion(encoder, new Int8Array(1 << 16), collective, false, PATTERN_AT_PIXELS);
+
+  return encoder.finish();
+}
+
+/**
+ * Encode a grid of pattern indices as Gray-coded bit planes (Annex C.5).
+ */
+function encodeGrayScaleImage(values: number[][], bitsPerPixel: number, skip?: Bitmap): number[] {
+  const encoder = new MQEncoder();
+  const contexts = new Int8Array(1 << 16);
+
+  for (let plane = bitsPerPixel - 1; plane >= 0; plane--) {
+    const bitmap = new Bitmap(values[0].length, values.length);
+
+    values.forEach((row, m) =>
+      row.forEach((value, n) => bitmap.set(n, m, ((value >> plane) ^ (value >> (plane + 1))) & 1)),
+    );
+
+    encodeGenericRegion(encoder, contexts, bitmap, false, DEFAULT_AT_PIXELS, skip);
+  }
+
+  return encoder.finish();
+}
+
+/**
+ * Halftone region segment data (7.4.5.1) with an arithmetic-coded grid.
+ */
+function halftoneRegion(
+  region: { width: number; height: number; enableSkip: boolean },
+  grid: { width: number; height: number; x: number; y: number },
+  data: number[],
+): number[] {
+  return [
+    ...regionInfo(region.width, region.height),
+    region.enableSkip ? 0b1000 : 0,
+    ...u32(grid.width),
+    ...u32(grid.height),
+    ...u32(grid.x * 256),
+    ...u32(grid.y * 256),
+    // Grid vector: cells 4 pixels apart, unrotated
+    0x04,
+    0x00,
+    0x00,
+    0x00,
+    ...data,
+  ];
+}
+
+/**
+ * Pattern dictionary segment data (7.4.4.1) for PATTERNS.
+ */
+function patternDictionary(): number[] {
+  return [0, 4, 4, ...u32(PATTERNS.length - 1), ...encodePatterns()];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("JBIG2Filter", () => {
+  const filter = new JBIG2Filter();
+
+  it("decodes a generic region with typical prediction", () => {
+    const image = bitmapOf([
+      "........................",
+      "..######............#...",
+      "..######...........###..",
+      "..######...........###..",
+      "..######............#...",
+      "........................",
+      "........................",
+      "....##########..........",
+      "....#........#..........",
+      "....##########..........",
+    ]);
+
+    const encoder = new MQEncoder();
+
+    encodeGenericRegion(encoder, new Int8Array(1 << 16), image, true);
+
+    const data = new Uint8Array([
+      ...pageInformation(image.width, image.height),
+      ...segment(1, 38, [
+        ...regionInfo(image.width, image.height),
+        0b1000,
+        ...DEFAULT_AT,
+        ...encoder.finish(),
+      ]),
+      ...segment(2, 49, []),
+    ]);
+
+    expect(filter.decode(data)).toEqual(image.pack(true));
+  });
+
+  it("decodes arithmetic-coded symbols placed by a text region", () => {
+    const symbols = [
+      bitmapOf(["#....", "#....", "#....", "#....", "#####"]),
+      bitmapOf(["..#..", ".#.#.", "#...#", "#####", "#...#"]),
+    ];
+
+    // Symbol dictionary: one height class of two symbols, both exported
+    const dictionary = new MQEncoder();
+    const dictionaryContexts = new Map<string, Int8Array>();
+    const contextsFor = (map: Map<string, Int8Array>, name: string, size = 512) => {
+      if (!map.has(name)) {
+        map.set(name, new Int8Array(size));
+      }
+
+      return map.get(name)!;
+    };
+
+    encodeInteger(dictionary, contextsFor(dictionaryContexts, "IADH"), 5);
+
+    let width = 0;
+
+    for (const symbol of symbols) {
+      encodeInteger(dictionary, contextsFor(dictionaryContexts, "IADW"), symbol.width - width);
+      width = symbol.width;
+      encodeGenericRegion(
+        dictionary,
+        contextsFor(dictionaryContexts, "GB", 1 << 16),
+        symbol,
+        false,
+      );
+    }
+
+    encodeInteger(dictionary, contextsFor(dictionaryContexts, "IADW"), null);
+    encodeInteger(dictionary, contextsFor(dictionaryContexts, "IAEX"), 0);
+    encodeInteger(dictionary, contextsFor(dictionaryContexts, "IAEX"), 2);
+
+    // Text region: "LA" on one strip, "A" on the next
+    const text = new MQEncoder();
+    const textContexts = new Map<string, Int8Array>();
+    const strips: { dt: number; firstS: number; instances: [id: number, ds: number | null][] }[] = [
+      {
+        dt: 2,
+        firstS: 1,
+        instances: [
+          [0, 2],
+          [1, null],
+        ],
+      },
+      { dt: 8, firstS: 5, instances: [[1, null]] },
+    ];
+
+    encodeInteger(text, contextsFor(textContexts, "IADT"), 0);
+
+    for (const strip of strips) {
+      encodeInteger(text, contextsFor(textContexts, "IADT"), strip.dt);
+      encodeInteger(text, contextsFor(textContexts, "IAFS"), strip.firstS);
+
+      for (const [id, ds] of strip.instances) {
+        encodeSymbolId(text, contextsFor(textContexts, "IAID", 4), id, 1);
+        encodeInteger(text, contextsFor(textContexts, "IADS"), ds);
+      }
+    }
+
+    const page = { width: 16, height: 16 };
+    const data = new Uint8Array([
+      ...pageInformation(page.width, page.height),
+      ...segment(1, 0, [0, 0, ...DEFAULT_AT, ...u32(2), ...u32(2), ...dictionary.finish()]),
+      ...segment(
+        2,
+        6,
+        [...regionInfo(page.width, page.height), 0x00, 0x10, ...u32(3), ...text.finish()],
+        [1],
+      ),
+    ]);
+
+    // Top-left reference corner: each symbol advances S by its width - 1
+    const expected = new Bitmap(page.width, page.height);
+
+    expected.compose(symbols[0], 1, 2, 0);
+    expected.compose(symbols[1], 1 + 4 + 2, 2, 0);
+    expected.compose(symbols[1], 6, 10, 0);
+
+    expect(filter.decode(data)).toEqual(expected.pack(true));
+  });
+
+  it("decodes an MMR-coded generic region", () => {
+    const image = bitmapOf([
+      "....................",
+      ".######.......##....",
+      ".#....#......####...",
+      ".######.......##....",
+      "....................",
+      "...##############...",
+    ]);
+
+    const mmr = encodeCcitt(image.pack(false), {
+      k: -1,
+      columns: image.width,
+      rows: image.height,
+      blackIs1: true,
+      encodedByteAlign: false,
+      endOfLine: false,
+      endOfBlock: true,
+    });
+
+    const data = new Uint8Array([
+      ...pageInformation(image.width, image.height),
+      ...segment(1, 38, [...regionInfo(image.width, image.height), 0b1, ...mmr]),
+    ]);
+
+    expect(filter.decode(data)).toEqual(image.pack(true));
+  });
+
+  describe("halftone regions", () => {
+    it("splits a pattern dictionary into its patterns", () => {
+      const data = new Uint8Array(encodePatterns());
+
+      const patterns = decodePatternDictionary(
+        { template: 0, patternWidth: 4, patternHeight: 4, grayMax: PATTERNS.length - 1 },
+        { kind: "arithmetic", decoder: new MQDecoder(data), contexts: new Int8Array(1 << 16) },
+      );
+
+      expect(patterns).toEqual(PATTERNS);
+    });
+
+    it("draws the pattern for each grid cell", () => {
+      const values = [
+        [0, 1, 2],
+        [3, 2, 1],
+      ];
+
+      const data = new Uint8Array([
+        ...pageInformation(12, 8),
+        ...segment(1, 16, patternDictionary()),
+        ...segment(
+          2,
+          22,
+          halftoneRegion(
+            { width: 12, height: 8, enableSkip: false },
+            { width: 3, height: 2, x: 0, y: 0 },
+            encodeGrayScaleImage(values, 2),
+          ),
+          [1],
+        ),
+      ]);
+
+      const expected = new Bitmap(12, 8);
+
+      values.forEach((row, m) =>
+        row.forEach((value, n) => expected.compose(PATTERNS[value], n * 4, m * 4, 0)),
+      );
+
+      expect(filter.decode(data)).toEqual(expected.pack(true));
+    });
+
+    it("skips grid cells outside the region (HENABLESKIP)", () => {
+      // Offset 2 pixels left: the last column and row fall outside 12x8
+      const grid = { width: 5, height: 3, x: -2, y: 0 };
+      const values = [
+        [3, 1, 2, 1, 0],
+        [2, 3, 0, 3, 0],
+        [0, 0, 0, 0, 0],
+      ];
+
+      const skip = new Bitmap(grid.width, grid.height);
+
+      for (let m = 0; m < grid.height; m++) {
+        skip.set(grid.width - 1, m, 1);
+      }
+
+      for (let n = 0; n < grid.width; n++) {
+        skip.set(n, grid.height - 1, 1);
+      }
+
+      const data = new Uint8Array([
+        ...pageInformation(12, 8),
+        ...segment(1, 16, patternDictionary()),
+        ...segment(
+          2,
+          22,
+          halftoneRegion(
+            { width: 12, height: 8, enableSkip: true },
+            grid,
+            encodeGrayScaleImage(values, 2, skip),
+          ),
+          [1],
+        ),
+      ]);
+
+      const expected = new Bitmap(12, 8);
+
+      values.forEach((row, m) =>
+        row.forEach((value, n) => expected.compose(PATTERNS[value], grid.x + n * 4, m * 4, 0)),
+      );
+
+      expect(filter.decode(data)).toEqual(expected.pack(true));
+    });
+  });
+
+  describe("scanned page", () => {
+    let stream: PdfStream;
+
+    beforeAll(async () => {
+      const pdf = await PDF.load(await loadFixture("malformed", "pdfbox/PDFBOX-3948.pdf"));
+      const image = pdf.context.resolve(PdfRef.of(23, 0));
+
+      if (!(image instanceof PdfStream)) {
+        throw new Error("fixture image not found");
+      }
+
+      stream = image;
+    });
+
+    it("decodes Huffman-coded symbols with refinement", () => {
+      const decoded = stream.getDecodedData();
+      const width = stream.getNumber("Width")?.value ?? 0;
+      const height = stream.getNumber("Height")?.value ?? 0;
+
+      expect(decoded.length).toBe(((width + 7) >> 3) * height);
+
+      // Mostly white paper, with a few percent of black text
+      const black = decoded.reduce((count, byte) => count + 8 - popCount(byte), 0);
+
+      expect(black / (width * height)).toBeGreaterThan(0.01);
+      expect(black / (width * height)).toBeLessThan(0.1);
+
+      // The top margin is blank
+      expect(decoded.subarray(0, 100 * ((width + 7) >> 3)).every(byte => byte === 0xff)).toBe(true);
+    });
+
+    it("reads the symbol dictionary from /JBIG2Globals", () => {
+      const data = stream.data;
+
+      // Move segment 1 (the symbol dictionary) after the page information
+      // segment into a globals stream
+      const start = 30;
+      const end = start + 11 + new DataView(data.buffer, data.byteOffset).getUint32(start + 7);
+
+      const globals = PdfStream.fromDict({}, data.slice(start, end));
+      const globalsRef = PdfRef.of(900, 0);
+      const image = PdfStream.fromDict(
+        {
+          Filter: PdfName.of("JBIG2Decode"),
+          DecodeParms: PdfDict.of({ JBIG2Globals: globalsRef }),
+        },
+        new Uint8Array([...data.subarray(0, start), ...data.subarray(end)]),
+      );
+
+      const resolver = (ref: PdfRef) => (ref === globalsRef ? globals : null);
+
+      expect(image.getDecodedData(resolver)).toEqual(stream.getDecodedData());
+      expect(() => image.getDecodedData()).toThrow(/unresolved reference/);
+    });
+  });
+});
+
+function popCount(byte: number): number {
+  let count = 0;
+
+  for (let b = byte; b; b >>= 1) {
+    count += b & 1;
+  }
+
+  return count;
+}
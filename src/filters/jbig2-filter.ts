@@ -1,45 +1,45 @@
 import type { PdfDict } from "#src/objects/pdf-dict";
+import { isPdfRef, isPdfStream } from "#src/objects/pdf-object";
 
 import type { Filter } from "./filter";
+import { decodeJbig2 } from "./jbig2/decoder";
 
 /**
- * JBIG2Decode filter (stub).
+ * JBIG2Decode filter.
  *
- * JBIG2 is a complex image compression standard for bi-level (black and white)
- * images, commonly used in scanned documents. It achieves very high compression
- * by pattern matching and dictionary-based encoding.
+ * JBIG2 is a compression standard for bi-level (black and white) images,
+ * commonly used in scanned documents. It achieves very high compression
+ * by coding repeated shapes (such as glyphs) once in symbol dictionaries
+ * and placing them with text regions.
  *
- * Decoding JBIG2 requires:
- * 1. Arithmetic decoding (QM coder)
- * 2. Symbol dictionary management
- * 3. Region decoding (text, halftone, generic)
- * 4. Page composition
+ * Decodes the embedded stream organisation used by PDF, including shared
+ * segments from /JBIG2Globals, to 1 bit per pixel rows (each starting on a
+ * byte boundary) with 0 = black, ready for /DeviceGray or /ImageMask use.
  *
- * This is beyond the scope of a simple implementation. For JBIG2 support,
- * consider using a dedicated library like jbig2dec or the pdf.js implementation.
+ * Parameters (from /DecodeParms):
+ * - /JBIG2Globals: Stream of segments shared between images. It must be
+ *   resolved: decode with `stream.getDecodedData(resolver)`.
  *
- * The raw data can be extracted and passed to an external decoder.
+ * MMR-coded (fax-compressed) regions are decoded as well as
+ * arithmetic-coded ones.
  */
 export class JBIG2Filter implements Filter {
   readonly name = "JBIG2Decode";
 
   decode(data: Uint8Array, params?: PdfDict): Uint8Array {
-    // Check for global data reference
     const globals = params?.get("JBIG2Globals");
+    let globalData: Uint8Array | undefined;
 
-    if (globals) {
+    if (globals && isPdfStream(globals)) {
+      globalData = globals.getDecodedData();
+    } else if (globals && isPdfRef(globals)) {
       throw new Error(
-        "JBIG2Decode: Decoding not implemented. " +
-          "This stream uses JBIG2 compression with global symbols. " +
-          "Consider using an external JBIG2 decoder library.",
+        "JBIG2Decode: /JBIG2Globals is an unresolved reference. " +
+          "Pass a resolver to getDecodedData() to decode streams with global segments.",
       );
     }
 
-    throw new Error(
-      "JBIG2Decode: Decoding not implemented. " +
-        `Stream contains ${data.length} bytes of JBIG2 data. ` +
-        "Consider using an external JBIG2 decoder library (e.g., jbig2dec).",
-    );
+    return decodeJbig2(data, globalData).pack(true);
   }
 
   encode(_data: Uint8Array, _params?: PdfDict): Uint8Array {
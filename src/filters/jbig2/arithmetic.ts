@@ -0,0 +1,106 @@
+/**
+ * Arithmetic integer decoding for JBIG2 (T.88 Annex A).
+ *
+ * Integers are coded bit by bit with the MQ coder. Each integer type
+ * (IADH, IADW, IAID...) has its own set of contexts, kept in a
+ * `ContextStore` for as long as the standard says they persist.
+ */
+
+import type { MQDecoder } from "../mq-decoder";
+
+/**
+ * Value bits and offset for each integer range (Table A.1).
+ */
+const INTEGER_RANGES: [bits: number, offset: number][] = [
+  [2, 0],
+  [4, 4],
+  [6, 20],
+  [8, 84],
+  [12, 340],
+  [32, 4436],
+];
+
+/**
+ * Named context arrays, created on first use.
+ */
+export class ContextStore {
+  private readonly contexts = new Map<string, Int8Array>();
+
+  /**
+   * Get the contexts for a procedure.
+   *
+   * @param name - Procedure name, such as "IADH" or "GB"
+   * @param size - Number of contexts (used on first request only)
+   */
+  get(name: string, size = 512): Int8Array {
+    let contexts = this.contexts.get(name);
+
+    if (!contexts) {
+      contexts = new Int8Array(size);
+      this.contexts.set(name, contexts);
+    }
+
+    return contexts;
+  }
+}
+
+/**
+ * Decode an integer (A.2).
+ *
+ * @returns The value, or null for out-of-band
+ */
+export function decodeInteger(decoder: MQDecoder, contexts: Int8Array): number | null {
+  let prev = 1;
+
+  const readBits = (count: number): number => {
+    let value = 0;
+
+    for (let i = 0; i < count; i++) {
+      const bit = decoder.readBit(contexts, prev);
+
+      // PREV keeps the last 8 bits, plus a flag once more have been read
+      prev = prev < 256 ? (prev << 1) | bit : (((prev << 1) | bit) & 511) | 256;
+      value = value * 2 + bit;
+    }
+
+    return value;
+  };
+
+  const sign = readBits(1);
+
+  // Each 1 in the prefix selects the next, wider range
+  let range = 0;
+
+  while (range < INTEGER_RANGES.length - 1 && readBits(1)) {
+    range++;
+  }
+
+  const [bits, offset] = INTEGER_RANGES[range];
+  const value = readBits(bits) + offset;
+
+  if (sign === 0) {
+    return value;
+  }
+
+  return value > 0 ? -value : null;
+}
+
+/**
+ * Decode a symbol ID (A.3).
+ *
+ * @param contexts - IAID contexts, at least `2 ** (codeLength + 1)` long
+ * @param codeLength - SBSYMCODELEN
+ */
+export function decodeSymbolId(
+  decoder: MQDecoder,
+  contexts: Int8Array,
+  codeLength: number,
+): number {
+  let prev = 1;
+
+  for (let i = 0; i < codeLength; i++) {
+    prev = (prev << 1) | decoder.readBit(contexts, prev);
+  }
+
+  return prev - (1 << codeLength);
+}
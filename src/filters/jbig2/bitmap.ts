@@ -0,0 +1,150 @@
+/**
+ * Bi-level bitmaps for JBIG2 decoding.
+ *
+ * Pixels are stored one per byte (1 = black, as in JBIG2), which keeps
+ * the context-modelling loops simple. `pack()` produces the PDF layout.
+ */
+
+/**
+ * Region combination operators (T.88 7.4.1.5).
+ */
+export const CombinationOperator = {
+  Or: 0,
+  And: 1,
+  Xor: 2,
+  Xnor: 3,
+  Replace: 4,
+} as const;
+
+/**
+ * A bi-level image, one byte per pixel.
+ */
+export class Bitmap {
+  readonly data: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    fill = 0,
+  ) {
+    this.data = new Uint8Array(width * height);
+
+    if (fill) {
+      this.data.fill(1);
+    }
+  }
+
+  /**
+   * Get a pixel; pixels outside the bitmap are 0.
+   */
+  get(x: number, y: number): number {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return 0;
+    }
+
+    return this.data[y * this.width + x];
+  }
+
+  /**
+   * Set a pixel inside the bitmap.
+   */
+  set(x: number, y: number, value: number): void {
+    this.data[y * this.width + x] = value;
+  }
+
+  /**
+   * Combine another bitmap into this one with its top-left corner at (x, y).
+   *
+   * Parts of the source outside this bitmap are ignored.
+   *
+   * @param source - Bitmap to draw
+   * @param x - Left edge in this bitmap (may be negative)
+   * @param y - Top edge in this bitmap (may be negative)
+   * @param operator - One of `CombinationOperator`
+   */
+  compose(source: Bitmap, x: number, y: number, operator: number): void {
+    const x0 = Math.max(0, x);
+    const y0 = Math.max(0, y);
+    const x1 = Math.min(this.width, x + source.width);
+    const y1 = Math.min(this.height, y + source.height);
+
+    for (let row = y0; row < y1; row++) {
+      let target = row * this.width + x0;
+      let from = (row - y) * source.width + (x0 - x);
+
+      for (let col = x0; col < x1; col++, target++, from++) {
+        const a = this.data[target];
+        const b = source.data[from];
+
+        switch (operator) {
+          case CombinationOperator.Or:
+            this.data[target] = a | b;
+            break;
+          case CombinationOperator.And:
+            this.data[target] = a & b;
+            break;
+          case CombinationOperator.Xor:
+            this.data[target] = a ^ b;
+            break;
+          case CombinationOperator.Xnor:
+            this.data[target] = 1 ^ a ^ b;
+            break;
+          default:
+            this.data[target] = b;
+        }
+      }
+    }
+  }
+
+  /**
+   * Copy a rectangle out of this bitmap; pixels outside it are 0.
+   */
+  crop(x: number, y: number, width: number, height: number): Bitmap {
+    const result = new Bitmap(width, height);
+
+    result.compose(this, -x, -y, CombinationOperator.Replace);
+
+    return result;
+  }
+
+  /**
+   * Copy this bitmap into a taller one, filling new rows with a value.
+   */
+  grow(height: number, fill: number): Bitmap {
+    const result = new Bitmap(this.width, height, fill);
+
+    result.data.set(this.data.subarray(0, this.width * Math.min(height, this.height)));
+
+    return result;
+  }
+
+  /**
+   * Pack into rows of 1 bit per pixel, most significant bit first, each row
+   * starting on a byte boundary.
+   *
+   * @param invert - Write 0 for black pixels (the PDF convention)
+   */
+  pack(invert: boolean): Uint8Array {
+    const rowBytes = (this.width + 7) >> 3;
+    const result = new Uint8Array(rowBytes * this.height);
+
+    for (let y = 0; y < this.height; y++) {
+      const rowStart = y * this.width;
+      const outStart = y * rowBytes;
+
+      for (let x = 0; x < this.width; x++) {
+        if (this.data[rowStart + x]) {
+          result[outStart + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+    }
+
+    if (invert) {
+      for (let i = 0; i < result.length; i++) {
+        result[i] ^= 0xff;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,770 @@
+/**
+ * JBIG2 segment parsing and page composition (T.88 7, 8).
+ *
+ * PDF embeds JBIG2 in the "embedded" organisation: no file header, just
+ * segments (header then data) for a single page, optionally preceded by
+ * the segments of a /JBIG2Globals stream holding shared dictionaries.
+ *
+ * Supported: generic, refinement, text and halftone regions, symbol and
+ * pattern dictionaries, custom Huffman tables, MMR-coded (fax-compressed)
+ * data and striped pages of unknown height. Generic regions with the
+ * extended 12-pixel template are not supported.
+ */
+
+import { MQDecoder } from "../mq-decoder";
+import { ContextStore } from "./arithmetic";
+import { Bitmap } from "./bitmap";
+import { decodeHalftoneRegion, decodePatternDictionary } from "./halftone";
+import { BitReader, getStandardTable, type HuffmanTable, readCustomTable } from "./huffman";
+import {
+  type AtPixel,
+  decodeGenericRegion,
+  decodeMmrRegion,
+  decodeRefinementRegion,
+  type GenericCoder,
+  genericContextSize,
+  refinementContextSize,
+} from "./regions";
+import {
+  decodeSymbolDictionary,
+  decodeTextRegion,
+  readSymbolIdTable,
+  type SymbolCoder,
+  symbolCodeLength,
+} from "./symbols";
+
+/**
+ * Segment types (7.3).
+ */
+const SegmentType = {
+  SymbolDictionary: 0,
+  IntermediateTextRegion: 4,
+  ImmediateTextRegion: 6,
+  ImmediateLosslessTextRegion: 7,
+  PatternDictionary: 16,
+  IntermediateHalftoneRegion: 20,
+  ImmediateHalftoneRegion: 22,
+  ImmediateLosslessHalftoneRegion: 23,
+  IntermediateGenericRegion: 36,
+  ImmediateGenericRegion: 38,
+  ImmediateLosslessGenericRegion: 39,
+  IntermediateRefinementRegion: 40,
+  ImmediateRefinementRegion: 42,
+  ImmediateLosslessRefinementRegion: 43,
+  PageInformation: 48,
+  EndOfPage: 49,
+  EndOfStripe: 50,
+  EndOfFile: 51,
+  Tables: 53,
+} as const;
+
+/** Region types whose result is kept for a later refinement, not drawn */
+const INTERMEDIATE_REGIONS: ReadonlySet<number> = new Set([
+  SegmentType.IntermediateTextRegion,
+  SegmentType.IntermediateHalftoneRegion,
+  SegmentType.IntermediateGenericRegion,
+  SegmentType.IntermediateRefinementRegion,
+]);
+
+const UNKNOWN_LENGTH = 0xffffffff;
+
+/** Size of the region segment information field (7.4.1) */
+const REGION_INFO_LENGTH = 17;
+
+/**
+ * A segment header and where its data lies.
+ */
+interface Segment {
+  number: number;
+  type: number;
+  referredTo: number[];
+  dataStart: number;
+  dataEnd: number;
+
+  /** Rows of an immediate generic region whose length wasn't known (7.2.7) */
+  rowCount?: number;
+}
+
+/**
+ * Region segment information (7.4.1).
+ */
+interface RegionInfo {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  combinationOperator: number;
+}
+
+/**
+ * What a decoded segment leaves behind for segments referring to it.
+ */
+interface SegmentResult {
+  symbols?: Bitmap[];
+  patterns?: Bitmap[];
+  table?: HuffmanTable;
+  region?: Bitmap;
+
+  /** Arithmetic coding contexts, for dictionaries that retain them */
+  contexts?: ContextStore;
+}
+
+interface Page {
+  bitmap: Bitmap;
+  defaultPixel: number;
+
+  /** Height 0xffffffff: the page grows with its stripes */
+  growable: boolean;
+}
+
+/**
+ * Decode the page of an embedded JBIG2 stream.
+ *
+ * @param data - The image stream's segments
+ * @param globals - Segments of the /JBIG2Globals stream, if any
+ * @returns The page bitmap (1 = black)
+ */
+export function decodeJbig2(data: Uint8Array, globals?: Uint8Array): Bitmap {
+  const decoder = new Jbig2Decoder();
+
+  if (globals) {
+    decoder.decodeSegments(globals);
+  }
+
+  decoder.decodeSegments(data);
+
+  return decoder.getPage();
+}
+
+class Jbig2Decoder {
+  private readonly results = new Map<number, SegmentResult>();
+  private page: Page | undefined;
+  private ended = false;
+
+  getPage(): Bitmap {
+    if (!this.page) {
+      throw new Error("JBIG2Decode: No page information segment");
+    }
+
+    return this.page.bitmap;
+  }
+
+  decodeSegments(data: Uint8Array): void {
+    this.ended = false;
+
+    for (const segment of readSegments(data)) {
+      this.decodeSegment(segment, data);
+
+      if (this.ended) {
+        break;
+      }
+    }
+  }
+
+  private decodeSegment(segment: Segment, data: Uint8Array): void {
+    switch (segment.type) {
+      case SegmentType.SymbolDictionary:
+        return this.decodeSymbolDictionary(segment, data);
+      case SegmentType.IntermediateTextRegion:
+      case SegmentType.ImmediateTextRegion:
+      case SegmentType.ImmediateLosslessTextRegion:
+        return this.decodeTextRegion(segment, data);
+      case SegmentType.PatternDictionary:
+        return this.decodePatternDictionary(segment, data);
+      case SegmentType.IntermediateHalftoneRegion:
+      case SegmentType.ImmediateHalftoneRegion:
+      case SegmentType.ImmediateLosslessHalftoneRegion:
+        return this.decodeHalftoneRegion(segment, data);
+      case SegmentType.IntermediateGenericRegion:
+      case SegmentType.ImmediateGenericRegion:
+      case SegmentType.ImmediateLosslessGenericRegion:
+        return this.decodeGenericRegion(segment, data);
+      case SegmentType.IntermediateRefinementRegion:
+      case SegmentType.ImmediateRefinementRegion:
+      case SegmentType.ImmediateLosslessRefinementRegion:
+        return this.decodeRefinementRegion(segment, data);
+      case SegmentType.PageInformation:
+        return this.readPageInformation(segment, data);
+      case SegmentType.EndOfStripe:
+        return this.endStripe(readUint32(data, segment.dataStart));
+      case SegmentType.EndOfPage:
+      case SegmentType.EndOfFile:
+        this.ended = true;
+        return;
+      case SegmentType.Tables:
+        this.results.set(segment.number, {
+          table: readCustomTable(data, segment.dataStart, segment.dataEnd),
+        });
+        return;
+      default:
+      // Profiles, extensions and unknown segments don't affect the image
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Dictionaries
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Symbol dictionary segment (7.4.2).
+   */
+  private decodeSymbolDictionary(segment: Segment, data: Uint8Array): void {
+    let position = segment.dataStart;
+
+    const flags = readUint16(data, position);
+    position += 2;
+
+    const huffman = (flags & 1) !== 0;
+    const refinementAggregate = (flags & 2) !== 0;
+    const contextUsed = (flags & 0x100) !== 0;
+    const template = (flags >> 10) & 3;
+    const refinementTemplate = (flags >> 12) & 1;
+
+    let atPixels: AtPixel[] = [];
+    let refinementAt: AtPixel[] = [];
+
+    if (!huffman) {
+      atPixels = readAtPixels(data, position, template === 0 ? 4 : 1);
+      position += atPixels.length * 2;
+    }
+
+    if (refinementAggregate && refinementTemplate === 0) {
+      refinementAt = readAtPixels(data, position, 2);
+      position += 4;
+    }
+
+    const numExportedSymbols = readUint32(data, position);
+    const numNewSymbols = readUint32(data, position + 4);
+    position += 8;
+
+    const referred = this.getReferred(segment);
+    const inputSymbols = referred.flatMap(result => result.symbols ?? []);
+    const customTables = takeCustomTables(referred);
+
+    const tables = huffman
+      ? {
+          dh: selectTable((flags >> 2) & 3, [4, 5], customTables),
+          dw: selectTable((flags >> 4) & 3, [2, 3], customTables),
+          bmSize: selectTable((flags >> 6) & 1, [1], customTables),
+          aggInst: selectTable((flags >> 7) & 1, [1], customTables),
+        }
+      : undefined;
+
+    // "Bitmap coding context used": continue from the last dictionary's state
+    const previous = referred.findLast(result => result.symbols)?.contexts;
+    const contexts = contextUsed && previous ? previous : new ContextStore();
+
+    const symbols = decodeSymbolDictionary(
+      {
+        refinementAggregate,
+        inputSymbols,
+        numNewSymbols,
+        numExportedSymbols,
+        template,
+        atPixels,
+        refinementTemplate,
+        refinementAt,
+        tables,
+      },
+      createCoder(huffman, data, position, segment.dataEnd, contexts),
+    );
+
+    this.results.set(segment.number, { symbols, contexts });
+  }
+
+  /**
+   * Pattern dictionary segment (7.4.4).
+   */
+  private decodePatternDictionary(segment: Segment, data: Uint8Array): void {
+    const position = segment.dataStart;
+    const flags = data[position];
+    const template = (flags >> 1) & 3;
+
+    const patterns = decodePatternDictionary(
+      {
+        template,
+        patternWidth: data[position + 1],
+        patternHeight: data[position + 2],
+        grayMax: readUint32(data, position + 3),
+      },
+      createGenericCoder((flags & 1) !== 0, data, position + 7, segment.dataEnd, template),
+    );
+
+    this.results.set(segment.number, { patterns });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Regions
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Text region segment (7.4.3).
+   */
+  private decodeTextRegion(segment: Segment, data: Uint8Array): void {
+    const info = readRegionInfo(data, segment.dataStart);
+    let position = segment.dataStart + REGION_INFO_LENGTH;
+
+    const flags = readUint16(data, position);
+    position += 2;
+
+    const huffman = (flags & 1) !== 0;
+    const refine = (flags & 2) !== 0;
+    const refinementTemplate = (flags >> 15) & 1;
+
+    // SBDSOFFSET is a signed 5-bit value
+    let dsOffset = (flags >> 10) & 0x1f;
+
+    if (dsOffset > 15) {
+      dsOffset -= 32;
+    }
+
+    let huffmanFlags = 0;
+
+    if (huffman) {
+      huffmanFlags = readUint16(data, position);
+      position += 2;
+    }
+
+    let refinementAt: AtPixel[] = [];
+
+    if (refine && refinementTemplate === 0) {
+      refinementAt = readAtPixels(data, position, 2);
+      position += 4;
+    }
+
+    const numInstances = readUint32(data, position);
+    position += 4;
+
+    const referred = this.getReferred(segment);
+    const symbols = referred.flatMap(result => result.symbols ?? []);
+    const coder = createCoder(huffman, data, position, segment.dataEnd, new ContextStore());
+
+    let tables;
+
+    if (coder.kind === "huffman") {
+      const customTables = takeCustomTables(referred);
+
+      tables = {
+        fs: selectTable(huffmanFlags & 3, [6, 7], customTables),
+        ds: selectTable((huffmanFlags >> 2) & 3, [8, 9, 10], customTables),
+        dt: selectTable((huffmanFlags >> 4) & 3, [11, 12, 13], customTables),
+        rdw: selectTable((huffmanFlags >> 6) & 3, [14, 15], customTables),
+        rdh: selectTable((huffmanFlags >> 8) & 3, [14, 15], customTables),
+        rdx: selectTable((huffmanFlags >> 10) & 3, [14, 15], customTables),
+        rdy: selectTable((huffmanFlags >> 12) & 3, [14, 15], customTables),
+        rsize: selectTable((huffmanFlags >> 14) & 1, [1], customTables),
+        symbolIds: readSymbolIdTable(coder.reader, symbols.length),
+      };
+    }
+
+    const region = decodeTextRegion(
+      {
+        width: info.width,
+        height: info.height,
+        refine,
+        numInstances,
+        strips: 1 << ((flags >> 2) & 3),
+        symbols,
+        symbolCodeLength: symbolCodeLength(symbols.length),
+        defaultPixel: (flags >> 9) & 1,
+        combinationOperator: (flags >> 7) & 3,
+        transposed: (flags & 0x40) !== 0,
+        referenceCorner: (flags >> 4) & 3,
+        dsOffset,
+        refinementTemplate,
+        refinementAt,
+        tables,
+      },
+      coder,
+    );
+
+    this.placeRegion(segment, info, region);
+  }
+
+  /**
+   * Halftone region segment (7.4.5).
+   */
+  private decodeHalftoneRegion(segment: Segment, data: Uint8Array): void {
+    const info = readRegionInfo(data, segment.dataStart);
+    const position = segment.dataStart + REGION_INFO_LENGTH;
+    const flags = data[position];
+    const template = (flags >> 1) & 3;
+    const patterns = this.getReferred(segment).find(result => result.patterns)?.patterns;
+
+    if (!patterns) {
+      throw new Error("JBIG2Decode: Halftone region without a pattern dictionary");
+    }
+
+    const region = decodeHalftoneRegion(
+      {
+        width: info.width,
+        height: info.height,
+        template,
+        enableSkip: (flags & 8) !== 0,
+        combinationOperator: (flags >> 4) & 7,
+        defaultPixel: (flags >> 7) & 1,
+        gridWidth: readUint32(data, position + 1),
+        gridHeight: readUint32(data, position + 5),
+        gridX: readInt32(data, position + 9),
+        gridY: readInt32(data, position + 13),
+        vectorX: readUint16(data, position + 17),
+        vectorY: readUint16(data, position + 19),
+        patterns,
+      },
+      createGenericCoder((flags & 1) !== 0, data, position + 21, segment.dataEnd, template),
+    );
+
+    this.placeRegion(segment, info, region);
+  }
+
+  /**
+   * Generic region segment (7.4.6).
+   */
+  private decodeGenericRegion(segment: Segment, data: Uint8Array): void {
+    const info = readRegionInfo(data, segment.dataStart);
+    let position = segment.dataStart + REGION_INFO_LENGTH;
+
+    const flags = data[position++];
+    const template = (flags >> 1) & 3;
+
+    // With an unknown data length, the real row count follows the data
+    const height = segment.rowCount ?? info.height;
+    const dataEnd = segment.rowCount === undefined ? segment.dataEnd : segment.dataEnd - 6;
+
+    if (flags & 1) {
+      const region = decodeMmrRegion(info.width, height, {
+        kind: "mmr",
+        data,
+        position,
+        end: dataEnd,
+      });
+
+      this.placeRegion(segment, { ...info, height }, region);
+
+      return;
+    }
+
+    if (flags & 0x10) {
+      throw new Error("JBIG2Decode: Extended generic region templates are not supported");
+    }
+
+    const atPixels = readAtPixels(data, position, template === 0 ? 4 : 1);
+    position += atPixels.length * 2;
+
+    const region = decodeGenericRegion(
+      { width: info.width, height, template, atPixels, typicalPrediction: (flags & 8) !== 0 },
+      new MQDecoder(data, position, dataEnd),
+      new Int8Array(genericContextSize(template)),
+    );
+
+    this.placeRegion(segment, { ...info, height }, region);
+  }
+
+  /**
+   * Generic refinement region segment (7.4.7).
+   */
+  private decodeRefinementRegion(segment: Segment, data: Uint8Array): void {
+    const info = readRegionInfo(data, segment.dataStart);
+    let position = segment.dataStart + REGION_INFO_LENGTH;
+
+    const flags = data[position++];
+    const template = flags & 1;
+
+    let atPixels: AtPixel[] = [];
+
+    if (template === 0) {
+      atPixels = readAtPixels(data, position, 2);
+      position += 4;
+    }
+
+    // Refine an intermediate region, or what's already on the page
+    let reference = this.getReferred(segment).find(result => result.region)?.region;
+
+    if (!reference) {
+      reference = this.requirePage().bitmap.crop(info.x, info.y, info.width, info.height);
+    }
+
+    const region = decodeRefinementRegion(
+      {
+        width: info.width,
+        height: info.height,
+        template,
+        reference,
+        referenceDx: 0,
+        referenceDy: 0,
+        atPixels,
+        typicalPrediction: (flags & 2) !== 0,
+      },
+      new MQDecoder(data, position, segment.dataEnd),
+      new Int8Array(refinementContextSize(template)),
+    );
+
+    this.placeRegion(segment, info, region);
+  }
+
+  /**
+   * Keep an intermediate region, or draw an immediate one on the page.
+   */
+  private placeRegion(segment: Segment, info: RegionInfo, region: Bitmap): void {
+    if (INTERMEDIATE_REGIONS.has(segment.type)) {
+      this.results.set(segment.number, { region });
+
+      return;
+    }
+
+    const page = this.requirePage();
+
+    if (page.growable && info.y + info.height > page.bitmap.height) {
+      page.bitmap = page.bitmap.grow(info.y + info.height, page.defaultPixel);
+    }
+
+    page.bitmap.compose(region, info.x, info.y, info.combinationOperator);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Page
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Page information segment (7.4.8).
+   */
+  private readPageInformation(segment: Segment, data: Uint8Array): void {
+    const position = segment.dataStart;
+    const width = readUint32(data, position);
+    const height = readUint32(data, position + 4);
+    const flags = data[position + 16];
+    const defaultPixel = (flags >> 2) & 1;
+    const growable = height === UNKNOWN_LENGTH;
+
+    this.page = {
+      bitmap: new Bitmap(width, growable ? 0 : height, defaultPixel),
+      defaultPixel,
+      growable,
+    };
+  }
+
+  /**
+   * End of stripe segment (7.4.10): the page extends at least to `row`.
+   */
+  private endStripe(row: number): void {
+    const page = this.requirePage();
+
+    if (page.growable && row + 1 > page.bitmap.height) {
+      page.bitmap = page.bitmap.grow(row + 1, page.defaultPixel);
+    }
+  }
+
+  private requirePage(): Page {
+    if (!this.page) {
+      throw new Error("JBIG2Decode: Region segment before page information");
+    }
+
+    return this.page;
+  }
+
+  /**
+   * Results of the segments a segment refers to, in reference order.
+   */
+  private getReferred(segment: Segment): SegmentResult[] {
+    return segment.referredTo.flatMap(number => {
+      const result = this.results.get(number);
+
+      return result ? [result] : [];
+    });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Segment headers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read the segments of a sequentially organised stream (7.2).
+ */
+function readSegments(data: Uint8Array): Segment[] {
+  const segments: Segment[] = [];
+  let position = 0;
+
+  // A header is at least 11 bytes
+  while (position + 11 <= data.length) {
+    const number = readUint32(data, position);
+    const flags = data[position + 4];
+    const type = flags & 0x3f;
+    position += 5;
+
+    let referredCount = data[position] >> 5;
+
+    if (referredCount === 7) {
+      referredCount = readUint32(data, position) & 0x1fffffff;
+      position += 4 + ((referredCount + 8) >> 3);
+    } else {
+      position++;
+    }
+
+    // Referred-to segment numbers are as wide as needed for this number
+    const referredSize = number <= 256 ? 1 : number <= 65536 ? 2 : 4;
+    const referredTo: number[] = [];
+
+    for (let i = 0; i < referredCount; i++) {
+      referredTo.push(
+        referredSize === 1
+          ? data[position]
+          : referredSize === 2
+            ? readUint16(data, position)
+            : readUint32(data, position),
+      );
+      position += referredSize;
+    }
+
+    // Page association: 4 bytes or 1
+    position += flags & 0x40 ? 4 : 1;
+
+    const length = readUint32(data, position);
+    position += 4;
+
+    const segment: Segment = { number, type, referredTo, dataStart: position, dataEnd: 0 };
+
+    if (length === UNKNOWN_LENGTH) {
+      if (type !== SegmentType.ImmediateGenericRegion) {
+        throw new Error(`JBIG2Decode: Segment ${number} has an unknown length`);
+      }
+
+      findGenericRegionEnd(data, segment);
+    } else {
+      segment.dataEnd = Math.min(position + length, data.length);
+    }
+
+    segments.push(segment);
+    position = segment.dataEnd;
+  }
+
+  return segments;
+}
+
+/**
+ * Find the end of an immediate generic region of unknown length: an end
+ * marker (0xFFAC, or 0x0000 for MMR) followed by the 4-byte row count.
+ */
+function findGenericRegionEnd(data: Uint8Array, segment: Segment): void {
+  const flags = data[segment.dataStart + REGION_INFO_LENGTH];
+  const marker = flags & 1 ? [0x00, 0x00] : [0xff, 0xac];
+
+  for (let i = segment.dataStart + REGION_INFO_LENGTH + 1; i + 6 <= data.length; i++) {
+    if (data[i] === marker[0] && data[i + 1] === marker[1]) {
+      segment.rowCount = readUint32(data, i + 2);
+      segment.dataEnd = i + 6;
+
+      return;
+    }
+  }
+
+  throw new Error(`JBIG2Decode: End of segment ${segment.number} not found`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Field readers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function readRegionInfo(data: Uint8Array, position: number): RegionInfo {
+  return {
+    width: readUint32(data, position),
+    height: readUint32(data, position + 4),
+    x: readInt32(data, position + 8),
+    y: readInt32(data, position + 12),
+    combinationOperator: data[position + 16] & 7,
+  };
+}
+
+/**
+ * Read adaptive template pixels: pairs of signed bytes.
+ */
+function readAtPixels(data: Uint8Array, position: number, count: number): AtPixel[] {
+  const pixels: AtPixel[] = [];
+
+  for (let i = 0; i < count; i++) {
+    pixels.push({
+      x: (data[position + i * 2] << 24) >> 24,
+      y: (data[position + i * 2 + 1] << 24) >> 24,
+    });
+  }
+
+  return pixels;
+}
+
+/**
+ * Custom tables of referred-to table segments, consumed in order.
+ */
+function takeCustomTables(referred: SegmentResult[]): Iterator<HuffmanTable> {
+  return referred.flatMap(result => (result.table ? [result.table] : [])).values();
+}
+
+/**
+ * Pick a table from a Huffman table selection field: a standard table by
+ * index, or (with every bit set) the next custom table.
+ */
+function selectTable(
+  selection: number,
+  standard: number[],
+  custom: Iterator<HuffmanTable>,
+): HuffmanTable {
+  if (selection < standard.length) {
+    return getStandardTable(standard[selection]);
+  }
+
+  const next = custom.next();
+
+  if (next.done) {
+    throw new Error("JBIG2Decode: Missing custom Huffman table");
+  }
+
+  return next.value;
+}
+
+function createCoder(
+  huffman: boolean,
+  data: Uint8Array,
+  start: number,
+  end: number,
+  contexts: ContextStore,
+): SymbolCoder {
+  if (huffman) {
+    return { kind: "huffman", reader: new BitReader(data, start, end), data, contexts };
+  }
+
+  return { kind: "arithmetic", decoder: new MQDecoder(data, start, end), contexts };
+}
+
+function createGenericCoder(
+  mmr: boolean,
+  data: Uint8Array,
+  start: number,
+  end: number,
+  template: number,
+): GenericCoder {
+  if (mmr) {
+    return { kind: "mmr", data, position: start, end };
+  }
+
+  return {
+    kind: "arithmetic",
+    decoder: new MQDecoder(data, start, end),
+    contexts: new Int8Array(genericContextSize(template)),
+  };
+}
+
+function readUint16(data: Uint8Array, position: number): number {
+  return (data[position] << 8) | data[position + 1];
+}
+
+function readUint32(data: Uint8Array, position: number): number {
+  return readInt32(data, position) >>> 0;
+}
+
+function readInt32(data: Uint8Array, position: number): number {
+  return (
+    (data[position] << 24) |
+    (data[position + 1] << 16) |
+    (data[position + 2] << 8) |
+    data[position + 3]
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Pattern dictionaries and halftone regions for JBIG2 (T.88 6.6, 6.7).
+ *
+ * A pattern dictionary holds equally-sized patterns (halftone cells of
+ * increasing darkness). A halftone region is a grid, possibly rotated, of
+ * pattern indices coded as a gray-scale image in bit planes.
+ */
+
+import { Bitmap } from "./bitmap";
+import { type AtPixel, decodeCodedGenericRegion, type GenericCoder } from "./regions";
+
+/**
+ * Parameters of the pattern dictionary decoding procedure (Table 21).
+ */
+export interface PatternDictionaryParams {
+  template: number;
+  patternWidth: number;
+  patternHeight: number;
+
+  /** GRAYMAX: number of patterns - 1 */
+  grayMax: number;
+}
+
+/**
+ * Parameters of the halftone region decoding procedure (Table 17).
+ */
+export interface HalftoneRegionParams {
+  width: number;
+  height: number;
+  template: number;
+  enableSkip: boolean;
+  combinationOperator: number;
+  defaultPixel: number;
+
+  /** Grid size and position (HGX, HGY in 1/256 pixel) */
+  gridWidth: number;
+  gridHeight: number;
+  gridX: number;
+  gridY: number;
+
+  /** Grid vector (HRX, HRY in 1/256 pixel) */
+  vectorX: number;
+  vectorY: number;
+  patterns: Bitmap[];
+}
+
+/**
+ * Decode a pattern dictionary (6.7.5).
+ */
+export function decodePatternDictionary(
+  params: PatternDictionaryParams,
+  coder: GenericCoder,
+): Bitmap[] {
+  const { patternWidth, patternHeight, grayMax } = params;
+
+  // All patterns side by side in one collective bitmap
+  const collective = decodeCodedGenericRegion(
+    {
+      width: (grayMax + 1) * patternWidth,
+      height: patternHeight,
+      template: params.template,
+      atPixels: [
+        { x: -patternWidth, y: 0 },
+        { x: -3, y: -1 },
+        { x: 2, y: -2 },
+        { x: -2, y: -2 },
+      ],
+      typicalPrediction: false,
+    },
+    coder,
+  );
+
+  const patterns: Bitmap[] = [];
+
+  for (let i = 0; i <= grayMax; i++) {
+    patterns.push(collective.crop(i * patternWidth, 0, patternWidth, patternHeight));
+  }
+
+  return patterns;
+}
+
+/**
+ * Decode a halftone region (6.6.5).
+ */
+export function decodeHalftoneRegion(params: HalftoneRegionParams, coder: GenericCoder): Bitmap {
+  const { gridWidth, gridHeight, patterns } = params;
+  const region = new Bitmap(params.width, params.height, params.defaultPixel);
+
+  if (patterns.length === 0) {
+    throw new Error("JBIG2Decode: Halftone region without patterns");
+  }
+
+  const patternWidth = patterns[0].width;
+  const patternHeight = patterns[0].height;
+
+  // Position of grid cell (m, n), in whole pixels
+  const cellX = (m: number, n: number) =>
+    Math.floor((params.gridX + m * params.vectorY + n * params.vectorX) / 256);
+  const cellY = (m: number, n: number) =>
+    Math.floor((params.gridY + m * params.vectorX - n * params.vectorY) / 256);
+
+  // Cells entirely outside the region aren't coded (6.6.5.1)
+  let skip: Bitmap | undefined;
+
+  if (params.enableSkip) {
+    skip = new Bitmap(gridWidth, gridHeight);
+
+    for (let m = 0; m < gridHeight; m++) {
+      for (let n = 0; n < gridWidth; n++) {
+        const x = cellX(m, n);
+        const y = cellY(m, n);
+
+        if (
+          x + patternWidth <= 0 ||
+          x >= params.width ||
+          y + patternHeight <= 0 ||
+          y >= params.height
+        ) {
+          skip.set(n, m, 1);
+        }
+      }
+    }
+  }
+
+  const values = decodeGrayScaleImage(
+    gridWidth,
+    gridHeight,
+    Math.ceil(Math.log2(patterns.length)),
+    params.template,
+    skip,
+    coder,
+  );
+
+  for (let m = 0; m < gridHeight; m++) {
+    for (let n = 0; n < gridWidth; n++) {
+      const pattern = patterns[Math.min(values[m * gridWidth + n], patterns.length - 1)];
+
+      region.compose(pattern, cellX(m, n), cellY(m, n), params.combinationOperator);
+    }
+  }
+
+  return region;
+}
+
+/**
+ * Decode a Gray-coded gray-scale image, one bit plane at a time from the
+ * most significant (Annex C.5).
+ */
+function decodeGrayScaleImage(
+  width: number,
+  height: number,
+  bitsPerPixel: number,
+  template: number,
+  skip: Bitmap | undefined,
+  coder: GenericCoder,
+): Uint32Array {
+  const atPixels: AtPixel[] = [
+    { x: template <= 1 ? 3 : 2, y: -1 },
+    { x: -3, y: -1 },
+    { x: 2, y: -2 },
+    { x: -2, y: -2 },
+  ];
+
+  const values = new Uint32Array(width * height);
+  let previous: Bitmap | undefined;
+
+  for (let plane = bitsPerPixel - 1; plane >= 0; plane--) {
+    // MMR-coded planes follow one another, each ending with EOFB
+    const bitmap = decodeCodedGenericRegion(
+      { width, height, template, atPixels, typicalPrediction: false, skip },
+      coder,
+    );
+
+    for (let i = 0; i < values.length; i++) {
+      // Gray code: each plane is stored XORed with the one above
+      if (previous) {
+        bitmap.data[i] ^= previous.data[i];
+      }
+
+      values[i] |= bitmap.data[i] << plane;
+    }
+
+    previous = bitmap;
+  }
+
+  return values;
+}
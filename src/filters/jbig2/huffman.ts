@@ -0,0 +1,439 @@
+/**
+ * Huffman tables for JBIG2 (T.88 Annex B).
+ *
+ * A table is a list of lines, each covering a range of values with a
+ * prefix code followed by a fixed number of offset bits. Prefix codes are
+ * assigned canonically from the prefix lengths (B.3), so both the standard
+ * tables and custom table segments are described by lengths alone.
+ */
+
+/**
+ * MSB-first bit reader over a byte range.
+ */
+export class BitReader {
+  private bitOffset = 0;
+
+  constructor(
+    private readonly data: Uint8Array,
+    private position: number,
+    private readonly end: number,
+  ) {}
+
+  /**
+   * Byte offset of the next unread byte (after `align()`).
+   */
+  get offset(): number {
+    return this.position;
+  }
+
+  readBit(): number {
+    if (this.position >= this.end) {
+      throw new Error("JBIG2Decode: Unexpected end of Huffman-coded data");
+    }
+
+    const bit = (this.data[this.position] >> (7 - this.bitOffset)) & 1;
+
+    if (++this.bitOffset === 8) {
+      this.bitOffset = 0;
+      this.position++;
+    }
+
+    return bit;
+  }
+
+  /**
+   * Read an unsigned integer of up to 32 bits.
+   */
+  readBits(count: number): number {
+    let value = 0;
+
+    for (let i = 0; i < count; i++) {
+      value = value * 2 + this.readBit();
+    }
+
+    return value;
+  }
+
+  /**
+   * Skip to the next byte boundary.
+   */
+  align(): void {
+    if (this.bitOffset !== 0) {
+      this.bitOffset = 0;
+      this.position++;
+    }
+  }
+
+  /**
+   * Skip whole bytes (from a byte boundary).
+   */
+  skip(bytes: number): void {
+    this.position += bytes;
+  }
+}
+
+/**
+ * One line of a Huffman table.
+ */
+export interface HuffmanLine {
+  prefixLength: number;
+  rangeLength: number;
+  rangeLow: number;
+
+  /** Lower and upper range lines read a 32-bit offset; OOB codes no value */
+  kind?: "lower" | "upper" | "oob";
+}
+
+interface HuffmanNode {
+  children: [HuffmanNode | undefined, HuffmanNode | undefined];
+  line?: HuffmanLine;
+}
+
+/**
+ * A Huffman table, decoded bit by bit through a code tree.
+ */
+export class HuffmanTable {
+  private readonly root: HuffmanNode = { children: [undefined, undefined] };
+
+  /**
+   * @param lines - Table lines in table order; lines with a prefix length
+   *   of 0 are unused
+   */
+  constructor(lines: HuffmanLine[]) {
+    const maxLength = Math.max(0, ...lines.map(line => line.prefixLength));
+    const counts = new Array<number>(maxLength + 1).fill(0);
+
+    for (const line of lines) {
+      counts[line.prefixLength]++;
+    }
+
+    counts[0] = 0;
+
+    let firstCode = 0;
+
+    for (let length = 1; length <= maxLength; length++) {
+      firstCode = (firstCode + counts[length - 1]) << 1;
+
+      let code = firstCode;
+
+      for (const line of lines) {
+        if (line.prefixLength === length) {
+          this.insert(code++, length, line);
+        }
+      }
+    }
+  }
+
+  /**
+   * Decode one value.
+   *
+   * @returns The value, or null for the out-of-band code
+   */
+  decode(reader: BitReader): number | null {
+    let node = this.root;
+
+    while (!node.line) {
+      const next = node.children[reader.readBit()];
+
+      if (!next) {
+        throw new Error("JBIG2Decode: Invalid Huffman code");
+      }
+
+      node = next;
+    }
+
+    const line = node.line;
+
+    switch (line.kind) {
+      case "oob":
+        return null;
+      case "lower":
+        return line.rangeLow - reader.readBits(32);
+      case "upper":
+        return line.rangeLow + reader.readBits(32);
+      default:
+        return line.rangeLow + reader.readBits(line.rangeLength);
+    }
+  }
+
+  private insert(code: number, length: number, line: HuffmanLine): void {
+    let node = this.root;
+
+    for (let i = length - 1; i >= 0; i--) {
+      const bit = (code >> i) & 1;
+
+      node = node.children[bit] ??= { children: [undefined, undefined] };
+    }
+
+    node.line = line;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Standard tables (T.88 Tables B.1 - B.15)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function line(prefixLength: number, rangeLength: number, rangeLow: number): HuffmanLine {
+  return { prefixLength, rangeLength, rangeLow };
+}
+
+function lower(prefixLength: number, rangeLow: number): HuffmanLine {
+  return { prefixLength, rangeLength: 32, rangeLow, kind: "lower" };
+}
+
+function upper(prefixLength: number, rangeLow: number): HuffmanLine {
+  return { prefixLength, rangeLength: 32, rangeLow, kind: "upper" };
+}
+
+function oob(prefixLength: number): HuffmanLine {
+  return { prefixLength, rangeLength: 0, rangeLow: 0, kind: "oob" };
+}
+
+const STANDARD_LINES: Record<number, HuffmanLine[]> = {
+  1: [line(1, 4, 0), line(2, 8, 16), line(3, 16, 272), upper(3, 65808)],
+  2: [
+    line(1, 0, 0),
+    line(2, 0, 1),
+    line(3, 0, 2),
+    line(4, 3, 3),
+    line(5, 6, 11),
+    upper(6, 75),
+    oob(6),
+  ],
+  3: [
+    line(8, 8, -256),
+    line(1, 0, 0),
+    line(2, 0, 1),
+    line(3, 0, 2),
+    line(4, 3, 3),
+    line(5, 6, 11),
+    lower(8, -257),
+    upper(7, 75),
+    oob(6),
+  ],
+  4: [line(1, 0, 1), line(2, 0, 2), line(3, 0, 3), line(4, 3, 4), line(5, 6, 12), upper(5, 76)],
+  5: [
+    line(7, 8, -255),
+    line(1, 0, 1),
+    line(2, 0, 2),
+    line(3, 0, 3),
+    line(4, 3, 4),
+    line(5, 6, 12),
+    lower(7, -256),
+    upper(6, 76),
+  ],
+  6: [
+    line(5, 10, -2048),
+    line(4, 9, -1024),
+    line(4, 8, -512),
+    line(4, 7, -256),
+    line(5, 6, -128),
+    line(5, 5, -64),
+    line(4, 5, -32),
+    line(2, 7, 0),
+    line(3, 7, 128),
+    line(3, 8, 256),
+    line(4, 9, 512),
+    line(4, 10, 1024),
+    lower(6, -2049),
+    upper(6, 2048),
+  ],
+  7: [
+    line(4, 9, -1024),
+    line(3, 8, -512),
+    line(4, 7, -256),
+    line(5, 6, -128),
+    line(5, 5, -64),
+    line(4, 5, -32),
+    line(4, 5, 0),
+    line(5, 5, 32),
+    line(5, 6, 64),
+    line(4, 7, 128),
+    line(3, 8, 256),
+    line(3, 9, 512),
+    line(3, 10, 1024),
+    lower(5, -1025),
+    upper(5, 2048),
+  ],
+  8: [
+    line(8, 3, -15),
+    line(9, 1, -7),
+    line(8, 1, -5),
+    line(9, 0, -3),
+    line(7, 0, -2),
+    line(4, 0, -1),
+    line(2, 1, 0),
+    line(5, 0, 2),
+    line(6, 0, 3),
+    line(3, 4, 4),
+    line(6, 1, 20),
+    line(4, 4, 22),
+    line(4, 5, 38),
+    line(5, 6, 70),
+    line(5, 7, 134),
+    line(6, 7, 262),
+    line(7, 8, 390),
+    line(6, 10, 646),
+    lower(9, -16),
+    upper(9, 1670),
+    oob(2),
+  ],
+  9: [
+    line(8, 4, -31),
+    line(9, 2, -15),
+    line(8, 2, -11),
+    line(9, 1, -7),
+    line(7, 1, -5),
+    line(4, 1, -3),
+    line(3, 1, -1),
+    line(3, 1, 1),
+    line(5, 1, 3),
+    line(6, 1, 5),
+    line(3, 5, 7),
+    line(6, 2, 39),
+    line(4, 5, 43),
+    line(4, 6, 75),
+    line(5, 7, 139),
+    line(5, 8, 267),
+    line(6, 8, 523),
+    line(7, 9, 779),
+    line(6, 11, 1291),
+    lower(9, -32),
+    upper(9, 3339),
+    oob(2),
+  ],
+  10: [
+    line(7, 4, -21),
+    line(8, 0, -5),
+    line(7, 0, -4),
+    line(5, 0, -3),
+    line(2, 2, -2),
+    line(5, 0, 2),
+    line(6, 0, 3),
+    line(7, 0, 4),
+    line(8, 0, 5),
+    line(2, 6, 6),
+    line(5, 5, 70),
+    line(6, 5, 102),
+    line(6, 6, 134),
+    line(6, 7, 198),
+    line(6, 8, 326),
+    line(6, 9, 582),
+    line(6, 10, 1094),
+    line(7, 11, 2118),
+    lower(8, -22),
+    upper(8, 4166),
+    oob(2),
+  ],
+  11: [
+    line(1, 0, 1),
+    line(2, 1, 2),
+    line(4, 0, 4),
+    line(4, 1, 5),
+    line(5, 1, 7),
+    line(5, 2, 9),
+    line(6, 2, 13),
+    line(7, 2, 17),
+    line(7, 3, 21),
+    line(7, 4, 29),
+    line(7, 5, 45),
+    line(7, 6, 77),
+    upper(7, 141),
+  ],
+  12: [
+    line(1, 0, 1),
+    line(2, 0, 2),
+    line(3, 1, 3),
+    line(5, 0, 5),
+    line(5, 1, 6),
+    line(6, 1, 8),
+    line(7, 0, 10),
+    line(7, 1, 11),
+    line(7, 2, 13),
+    line(7, 3, 17),
+    line(7, 4, 25),
+    line(8, 5, 41),
+    upper(8, 73),
+  ],
+  13: [
+    line(1, 0, 1),
+    line(3, 0, 2),
+    line(4, 0, 3),
+    line(5, 0, 4),
+    line(4, 1, 5),
+    line(3, 3, 7),
+    line(6, 1, 15),
+    line(6, 2, 17),
+    line(6, 3, 21),
+    line(6, 4, 29),
+    line(6, 5, 45),
+    line(7, 6, 77),
+    upper(7, 141),
+  ],
+  14: [line(3, 0, -2), line(3, 0, -1), line(1, 0, 0), line(3, 0, 1), line(3, 0, 2)],
+  15: [
+    line(7, 4, -24),
+    line(6, 2, -8),
+    line(5, 1, -4),
+    line(4, 0, -2),
+    line(3, 0, -1),
+    line(1, 0, 0),
+    line(3, 0, 1),
+    line(4, 0, 2),
+    line(5, 1, 3),
+    line(6, 2, 5),
+    line(7, 4, 9),
+    lower(7, -25),
+    upper(7, 25),
+  ],
+};
+
+const standardTables = new Map<number, HuffmanTable>();
+
+/**
+ * Get one of the standard tables B.1 - B.15.
+ */
+export function getStandardTable(number: number): HuffmanTable {
+  let table = standardTables.get(number);
+
+  if (!table) {
+    table = new HuffmanTable(STANDARD_LINES[number]);
+    standardTables.set(number, table);
+  }
+
+  return table;
+}
+
+/**
+ * Read a custom table from a table segment (T.88 7.4.13, B.2).
+ */
+export function readCustomTable(data: Uint8Array, start: number, end: number): HuffmanTable {
+  const flags = data[start];
+  const view = new DataView(data.buffer, data.byteOffset + start + 1, 8);
+  const low = view.getInt32(0);
+  const high = view.getInt32(4);
+
+  const hasOob = (flags & 1) !== 0;
+  const prefixBits = ((flags >> 1) & 7) + 1;
+  const rangeBits = ((flags >> 4) & 7) + 1;
+
+  const reader = new BitReader(data, start + 9, end);
+  const lines: HuffmanLine[] = [];
+
+  for (let rangeLow = low; rangeLow < high; ) {
+    const prefixLength = reader.readBits(prefixBits);
+    const rangeLength = reader.readBits(rangeBits);
+
+    lines.push(line(prefixLength, rangeLength, rangeLow));
+    rangeLow += 2 ** rangeLength;
+  }
+
+  lines.push(lower(reader.readBits(prefixBits), low - 1));
+  lines.push(upper(reader.readBits(prefixBits), high));
+
+  if (hasOob) {
+    lines.push(oob(reader.readBits(prefixBits)));
+  }
+
+  return new HuffmanTable(lines);
+}
@@ -0,0 +1,368 @@
+/**
+ * Generic and refinement region decoding for JBIG2 (T.88 6.2, 6.3).
+ *
+ * Both procedures predict each pixel from a template of already-decoded
+ * neighbours. Context bits are formed in the standard's order (the
+ * template's pixels in raster order, most significant first), because the
+ * typical-prediction pseudo-pixels are coded in fixed contexts that only
+ * line up with that numbering.
+ */
+
+import { decodeCcitt } from "../ccitt/decoder";
+import type { MQDecoder } from "../mq-decoder";
+import { Bitmap } from "./bitmap";
+
+/**
+ * An adaptive template pixel offset.
+ */
+export interface AtPixel {
+  x: number;
+  y: number;
+}
+
+/** Marks an adaptive pixel slot in a template */
+type TemplatePixel = readonly [number, number] | number;
+
+/**
+ * Generic region templates (6.2.5.3), most significant bit first.
+ * Numbers are indices into the adaptive pixels.
+ */
+const GENERIC_TEMPLATES: readonly (readonly TemplatePixel[])[] = [
+  [
+    3,
+    [-1, -2],
+    [0, -2],
+    [1, -2],
+    2,
+    1,
+    [-2, -1],
+    [-1, -1],
+    [0, -1],
+    [1, -1],
+    [2, -1],
+    0,
+    [-4, 0],
+    [-3, 0],
+    [-2, 0],
+    [-1, 0],
+  ],
+  [
+    [-1, -2],
+    [0, -2],
+    [1, -2],
+    [2, -2],
+    [-2, -1],
+    [-1, -1],
+    [0, -1],
+    [1, -1],
+    [2, -1],
+    0,
+    [-3, 0],
+    [-2, 0],
+    [-1, 0],
+  ],
+  [[-1, -2], [0, -2], [1, -2], [-2, -1], [-1, -1], [0, -1], [1, -1], 0, [-2, 0], [-1, 0]],
+  [[-3, -1], [-2, -1], [-1, -1], [0, -1], [1, -1], 0, [-4, 0], [-3, 0], [-2, 0], [-1, 0]],
+];
+
+/** Contexts of the generic typical-prediction pseudo-pixel (6.2.5.7) */
+const GENERIC_SLTP_CONTEXTS = [0x9b25, 0x0795, 0x00e5, 0x0195];
+
+/**
+ * Refinement templates (6.3.5.3): reference-bitmap pixels, then pixels of
+ * the bitmap being decoded.
+ */
+const REFINEMENT_TEMPLATES: readonly { reference: TemplatePixel[]; current: TemplatePixel[] }[] = [
+  {
+    reference: [1, [0, -1], [1, -1], [-1, 0], [0, 0], [1, 0], [-1, 1], [0, 1], [1, 1]],
+    current: [0, [0, -1], [1, -1], [-1, 0]],
+  },
+  {
+    reference: [
+      [0, -1],
+      [-1, 0],
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ],
+    current: [
+      [-1, -1],
+      [0, -1],
+      [1, -1],
+      [-1, 0],
+    ],
+  },
+];
+
+/** Contexts of the refinement typical-prediction pseudo-pixel (6.3.5.6) */
+const REFINEMENT_SLTP_CONTEXTS = [0x100, 0x40];
+
+/**
+ * Parameters of the generic region decoding procedure.
+ */
+export interface GenericRegionParams {
+  width: number;
+  height: number;
+
+  /** GBTEMPLATE (0-3) */
+  template: number;
+
+  /** Adaptive pixels: 4 for template 0, 1 otherwise */
+  atPixels: AtPixel[];
+
+  /** Typical prediction (TPGDON) */
+  typicalPrediction: boolean;
+
+  /** Pixels to leave at 0 without decoding (halftone grids) */
+  skip?: Bitmap;
+}
+
+/**
+ * Parameters of the refinement region decoding procedure.
+ */
+export interface RefinementRegionParams {
+  width: number;
+  height: number;
+
+  /** GRTEMPLATE (0-1) */
+  template: number;
+  reference: Bitmap;
+
+  /** GRREFERENCEDX/DY: offset of the reference relative to the region */
+  referenceDx: number;
+  referenceDy: number;
+
+  /** Adaptive pixels for template 0: one in the region, one in the reference */
+  atPixels: AtPixel[];
+
+  /** Typical prediction (TPGRON) */
+  typicalPrediction: boolean;
+}
+
+/**
+ * How a generic region is coded (MMR flag, 6.2.2). MMR data is read from
+ * `position`, which moves past each region decoded.
+ */
+export type GenericCoder =
+  | { kind: "arithmetic"; decoder: MQDecoder; contexts: Int8Array }
+  | { kind: "mmr"; data: Uint8Array; position: number; end: number };
+
+/**
+ * Number of contexts a generic region template uses.
+ */
+export function genericContextSize(template: number): number {
+  return 1 << GENERIC_TEMPLATES[template].length;
+}
+
+/**
+ * Number of contexts a refinement template uses.
+ */
+export function refinementContextSize(template: number): number {
+  const { reference, current } = REFINEMENT_TEMPLATES[template];
+
+  return 1 << (reference.length + current.length);
+}
+
+/**
+ * Decode an arithmetic-coded generic region (6.2.5).
+ */
+export function decodeGenericRegion(
+  params: GenericRegionParams,
+  decoder: MQDecoder,
+  contexts: Int8Array,
+): Bitmap {
+  const { width, height, skip } = params;
+  const [dx, dy] = resolveTemplate(GENERIC_TEMPLATES[params.template], params.atPixels);
+  const sltpContext = GENERIC_SLTP_CONTEXTS[params.template];
+
+  const bitmap = new Bitmap(width, height);
+  const data = bitmap.data;
+  let ltp = 0;
+
+  for (let y = 0; y < height; y++) {
+    if (params.typicalPrediction) {
+      ltp ^= decoder.readBit(contexts, sltpContext);
+
+      // Typical row: a copy of the row above
+      if (ltp) {
+        if (y > 0) {
+          data.copyWithin(y * width, (y - 1) * width, y * width);
+        }
+
+        continue;
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      if (skip?.get(x, y)) {
+        continue;
+      }
+
+      let context = 0;
+
+      for (let k = 0; k < dx.length; k++) {
+        context = (context << 1) | bitmap.get(x + dx[k], y + dy[k]);
+      }
+
+      if (decoder.readBit(contexts, context)) {
+        data[y * width + x] = 1;
+      }
+    }
+  }
+
+  return bitmap;
+}
+
+/**
+ * Decode an MMR-coded generic region (6.2.6): Group 4 fax data, possibly
+ * ending with an EOFB code.
+ */
+export function decodeMmrRegion(
+  width: number,
+  height: number,
+  coder: Extract<GenericCoder, { kind: "mmr" }>,
+): Bitmap {
+  const bitmap = new Bitmap(width, height);
+
+  if (width === 0 || height === 0) {
+    return bitmap;
+  }
+
+  const decoded = decodeCcitt(coder.data.subarray(coder.position, coder.end), {
+    k: -1,
+    columns: width,
+    rows: height,
+    encodedByteAlign: false,
+    endOfLine: false,
+    damagedRowsBeforeError: 0,
+  });
+
+  const bytesPerRow = Math.ceil(width / 8);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      bitmap.data[y * width + x] = (decoded.data[y * bytesPerRow + (x >> 3)] >> (7 - (x & 7))) & 1;
+    }
+  }
+
+  coder.position += decoded.bytesRead;
+
+  return bitmap;
+}
+
+/**
+ * Decode a generic region either way.
+ */
+export function decodeCodedGenericRegion(params: GenericRegionParams, coder: GenericCoder): Bitmap {
+  if (coder.kind === "mmr") {
+    return decodeMmrRegion(params.width, params.height, coder);
+  }
+
+  return decodeGenericRegion(params, coder.decoder, coder.contexts);
+}
+
+/**
+ * Decode an arithmetic-coded refinement region (6.3.5).
+ */
+export function decodeRefinementRegion(
+  params: RefinementRegionParams,
+  decoder: MQDecoder,
+  contexts: Int8Array,
+): Bitmap {
+  const { width, height, reference, referenceDx, referenceDy } = params;
+  const template = REFINEMENT_TEMPLATES[params.template];
+
+  const [refX, refY] = resolveTemplate(template.reference, params.atPixels);
+  const [curX, curY] = resolveTemplate(template.current, params.atPixels);
+  const sltpContext = REFINEMENT_SLTP_CONTEXTS[params.template];
+
+  const bitmap = new Bitmap(width, height);
+  let ltp = 0;
+
+  const decodePixel = (x: number, y: number): number => {
+    let context = 0;
+
+    for (let k = 0; k < refX.length; k++) {
+      context =
+        (context << 1) | reference.get(x - referenceDx + refX[k], y - referenceDy + refY[k]);
+    }
+
+    for (let k = 0; k < curX.length; k++) {
+      context = (context << 1) | bitmap.get(x + curX[k], y + curY[k]);
+    }
+
+    return decoder.readBit(contexts, context);
+  };
+
+  for (let y = 0; y < height; y++) {
+    if (params.typicalPrediction) {
+      ltp ^= decoder.readBit(contexts, sltpContext);
+    }
+
+    for (let x = 0; x < width; x++) {
+      let pixel: number | undefined;
+
+      // In typical rows, pixels whose reference neighbourhood is uniform
+      // take its value without being coded
+      if (ltp) {
+        pixel = uniformNeighbourhood(reference, x - referenceDx, y - referenceDy);
+      }
+
+      pixel ??= decodePixel(x, y);
+
+      if (pixel) {
+        bitmap.set(x, y, 1);
+      }
+    }
+  }
+
+  return bitmap;
+}
+
+/**
+ * Substitute adaptive pixels into a template, returning its x and y
+ * offsets in context bit order.
+ */
+function resolveTemplate(
+  template: readonly TemplatePixel[],
+  atPixels: AtPixel[],
+): [Int32Array, Int32Array] {
+  const dx = new Int32Array(template.length);
+  const dy = new Int32Array(template.length);
+
+  template.forEach((pixel, k) => {
+    if (typeof pixel === "number") {
+      const at = atPixels[pixel];
+
+      if (!at) {
+        throw new Error("JBIG2Decode: Missing adaptive template pixel");
+      }
+
+      dx[k] = at.x;
+      dy[k] = at.y;
+    } else {
+      dx[k] = pixel[0];
+      dy[k] = pixel[1];
+    }
+  });
+
+  return [dx, dy];
+}
+
+/**
+ * Get the value of a 3x3 neighbourhood if all its pixels agree.
+ */
+function uniformNeighbourhood(bitmap: Bitmap, x: number, y: number): number | undefined {
+  const value = bitmap.get(x, y);
+
+  for (let j = -1; j <= 1; j++) {
+    for (let i = -1; i <= 1; i++) {
+      if (bitmap.get(x + i, y + j) !== value) {
+        return undefined;
+      }
+    }
+  }
+
+  return value;
+}
@@ -0,0 +1,599 @@
+/**
+ * Symbol dictionaries and text regions for JBIG2 (T.88 6.4, 6.5).
+ *
+ * A symbol dictionary holds bitmaps (typically glyphs); a text region
+ * places symbols at coded positions. The two depend on each other: with
+ * refinement/aggregation, a new symbol is itself decoded as a small text
+ * region built from earlier symbols.
+ *
+ * Both come in an arithmetic-coded and a Huffman-coded flavour, sharing
+ * everything but how values are read.
+ */
+
+import { MQDecoder } from "../mq-decoder";
+import { ContextStore, decodeInteger, decodeSymbolId } from "./arithmetic";
+import { Bitmap, CombinationOperator } from "./bitmap";
+import { type BitReader, getStandardTable, type HuffmanLine, HuffmanTable } from "./huffman";
+import {
+  type AtPixel,
+  decodeGenericRegion,
+  decodeMmrRegion,
+  decodeRefinementRegion,
+  genericContextSize,
+  type RefinementRegionParams,
+  refinementContextSize,
+} from "./regions";
+
+/**
+ * Reference corners of text region symbol instances (7.4.3.1.1).
+ */
+const ReferenceCorner = {
+  BottomLeft: 0,
+  TopLeft: 1,
+  BottomRight: 2,
+  TopRight: 3,
+} as const;
+
+/**
+ * Where coded values come from: the MQ coder, or Huffman codes read from
+ * the segment data. Refinement bitmaps are arithmetic-coded in both cases.
+ */
+export type SymbolCoder =
+  | { kind: "arithmetic"; decoder: MQDecoder; contexts: ContextStore }
+  | { kind: "huffman"; reader: BitReader; data: Uint8Array; contexts: ContextStore };
+
+/**
+ * Huffman tables of a text region (SBHUFFFS ... SBHUFFRSIZE).
+ */
+export interface TextRegionTables {
+  fs: HuffmanTable;
+  ds: HuffmanTable;
+  dt: HuffmanTable;
+  rdw: HuffmanTable;
+  rdh: HuffmanTable;
+  rdx: HuffmanTable;
+  rdy: HuffmanTable;
+  rsize: HuffmanTable;
+
+  /** Symbol ID codes (null: fixed-length codes of SBSYMCODELEN bits) */
+  symbolIds: HuffmanTable | null;
+}
+
+/**
+ * Parameters of the text region decoding procedure (Table 9).
+ */
+export interface TextRegionParams {
+  width: number;
+  height: number;
+  refine: boolean;
+  numInstances: number;
+
+  /** SBSTRIPS: strip height (1, 2, 4 or 8) */
+  strips: number;
+  symbols: Bitmap[];
+  symbolCodeLength: number;
+  defaultPixel: number;
+  combinationOperator: number;
+  transposed: boolean;
+  referenceCorner: number;
+  dsOffset: number;
+  refinementTemplate: number;
+  refinementAt: AtPixel[];
+
+  /** Required for Huffman coding */
+  tables?: TextRegionTables;
+}
+
+/**
+ * Huffman tables of a symbol dictionary (SDHUFFDH ... SDHUFFAGGINST).
+ */
+export interface SymbolDictionaryTables {
+  dh: HuffmanTable;
+  dw: HuffmanTable;
+  bmSize: HuffmanTable;
+  aggInst: HuffmanTable;
+}
+
+/**
+ * Parameters of the symbol dictionary decoding procedure (Table 13).
+ */
+export interface SymbolDictionaryParams {
+  refinementAggregate: boolean;
+  inputSymbols: Bitmap[];
+  numNewSymbols: number;
+  numExportedSymbols: number;
+  template: number;
+  atPixels: AtPixel[];
+  refinementTemplate: number;
+  refinementAt: AtPixel[];
+
+  /** Required for Huffman coding */
+  tables?: SymbolDictionaryTables;
+}
+
+/**
+ * Number of bits needed for IDs of `count` symbols.
+ */
+export function symbolCodeLength(count: number): number {
+  let length = 0;
+
+  while (1 << length < count) {
+    length++;
+  }
+
+  return length;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Symbol dictionaries
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode a symbol dictionary (6.5.5).
+ *
+ * @returns The exported symbols
+ */
+export function decodeSymbolDictionary(
+  params: SymbolDictionaryParams,
+  coder: SymbolCoder,
+): Bitmap[] {
+  const { inputSymbols, numNewSymbols } = params;
+  const codeLength = symbolCodeLength(inputSymbols.length + numNewSymbols);
+  const newSymbols: Bitmap[] = [];
+
+  const read = (procedure: string, table: (tables: SymbolDictionaryTables) => HuffmanTable) =>
+    readValue(coder, procedure, () => table(requireTables(params.tables)));
+
+  let heightClassHeight = 0;
+  let decoded = 0;
+
+  while (decoded < numNewSymbols) {
+    heightClassHeight += requireValue(read("IADH", tables => tables.dh));
+
+    let symbolWidth = 0;
+    let totalWidth = 0;
+    const widths: number[] = [];
+
+    for (;;) {
+      const dw = read("IADW", tables => tables.dw);
+
+      // Out-of-band ends the height class
+      if (dw === null) {
+        break;
+      }
+
+      if (decoded >= numNewSymbols) {
+        throw new Error("JBIG2Decode: Symbol dictionary has more symbols than declared");
+      }
+
+      symbolWidth += dw;
+      totalWidth += symbolWidth;
+
+      if (coder.kind === "arithmetic" || params.refinementAggregate) {
+        newSymbols.push(
+          decodeSymbolBitmap(params, coder, symbolWidth, heightClassHeight, [
+            ...inputSymbols,
+            ...newSymbols,
+          ]),
+        );
+      } else {
+        widths.push(symbolWidth);
+      }
+
+      decoded++;
+    }
+
+    // Huffman-coded symbols without refinement share one collective bitmap
+    if (coder.kind === "huffman" && !params.refinementAggregate) {
+      const collective = readCollectiveBitmap(params, coder, totalWidth, heightClassHeight);
+      let x = 0;
+
+      for (const width of widths) {
+        newSymbols.push(collective.crop(x, 0, width, heightClassHeight));
+        x += width;
+      }
+    }
+  }
+
+  return readExportedSymbols(coder, [...inputSymbols, ...newSymbols]);
+}
+
+/**
+ * Decode the bitmap of one new symbol (6.5.8).
+ */
+function decodeSymbolBitmap(
+  params: SymbolDictionaryParams,
+  coder: SymbolCoder,
+  width: number,
+  height: number,
+  symbols: Bitmap[],
+): Bitmap {
+  if (!params.refinementAggregate) {
+    if (coder.kind !== "arithmetic") {
+      throw new Error("JBIG2Decode: Huffman symbols are decoded as collective bitmaps");
+    }
+
+    return decodeGenericRegion(
+      {
+        width,
+        height,
+        template: params.template,
+        atPixels: params.atPixels,
+        typicalPrediction: false,
+      },
+      coder.decoder,
+      coder.contexts.get("GB", genericContextSize(params.template)),
+    );
+  }
+
+  const codeLength = symbolCodeLength(params.inputSymbols.length + params.numNewSymbols);
+  const instances = requireValue(
+    readValue(coder, "IAAI", () => requireTables(params.tables).aggInst),
+  );
+
+  // Several instances: an aggregate of refined symbols, coded as a text region
+  if (instances > 1) {
+    return decodeTextRegion(
+      {
+        width,
+        height,
+        refine: true,
+        numInstances: instances,
+        strips: 1,
+        symbols,
+        symbolCodeLength: codeLength,
+        defaultPixel: 0,
+        combinationOperator: CombinationOperator.Or,
+        transposed: false,
+        referenceCorner: ReferenceCorner.TopLeft,
+        dsOffset: 0,
+        refinementTemplate: params.refinementTemplate,
+        refinementAt: params.refinementAt,
+        tables: {
+          fs: getStandardTable(6),
+          ds: getStandardTable(8),
+          dt: getStandardTable(11),
+          rdw: getStandardTable(15),
+          rdh: getStandardTable(15),
+          rdx: getStandardTable(15),
+          rdy: getStandardTable(15),
+          rsize: getStandardTable(1),
+          symbolIds: null,
+        },
+      },
+      coder,
+    );
+  }
+
+  // A single instance: a refinement of an earlier symbol
+  const id =
+    coder.kind === "arithmetic"
+      ? decodeSymbolId(coder.decoder, coder.contexts.get("IAID", 2 << codeLength), codeLength)
+      : coder.reader.readBits(codeLength);
+  const rdx = requireValue(readValue(coder, "IARDX", () => getStandardTable(15)));
+  const rdy = requireValue(readValue(coder, "IARDY", () => getStandardTable(15)));
+
+  return decodeRefinement(
+    coder,
+    {
+      width,
+      height,
+      template: params.refinementTemplate,
+      reference: requireSymbol(symbols, id),
+      referenceDx: rdx,
+      referenceDy: rdy,
+      atPixels: params.refinementAt,
+      typicalPrediction: false,
+    },
+    () => getStandardTable(1),
+  );
+}
+
+/**
+ * Read the collective bitmap of a Huffman-coded height class (6.5.9).
+ */
+function readCollectiveBitmap(
+  params: SymbolDictionaryParams,
+  coder: Extract<SymbolCoder, { kind: "huffman" }>,
+  width: number,
+  height: number,
+): Bitmap {
+  const { reader } = coder;
+  const size = requireValue(requireTables(params.tables).bmSize.decode(reader));
+
+  reader.align();
+
+  if (size !== 0) {
+    const mmr = {
+      kind: "mmr" as const,
+      data: coder.data,
+      position: reader.offset,
+      end: reader.offset + size,
+    };
+    const bitmap = decodeMmrRegion(width, height, mmr);
+
+    reader.skip(size);
+
+    return bitmap;
+  }
+
+  // Uncompressed: rows padded to whole bytes
+  const bitmap = new Bitmap(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      bitmap.set(x, y, reader.readBit());
+    }
+
+    reader.align();
+  }
+
+  return bitmap;
+}
+
+/**
+ * Read the export flags and pick the exported symbols (6.5.10).
+ */
+function readExportedSymbols(coder: SymbolCoder, symbols: Bitmap[]): Bitmap[] {
+  const exported: Bitmap[] = [];
+  let exportFlag = false;
+
+  for (let index = 0; index < symbols.length; ) {
+    const run = readValue(coder, "IAEX", () => getStandardTable(1));
+
+    if (run === null || index + run > symbols.length) {
+      throw new Error("JBIG2Decode: Invalid symbol export flags");
+    }
+
+    if (exportFlag) {
+      exported.push(...symbols.slice(index, index + run));
+    }
+
+    index += run;
+    exportFlag = !exportFlag;
+  }
+
+  return exported;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Text regions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode a text region (6.4.5).
+ */
+export function decodeTextRegion(params: TextRegionParams, coder: SymbolCoder): Bitmap {
+  const { strips, symbols, transposed, referenceCorner: corner } = params;
+  const region = new Bitmap(params.width, params.height, params.defaultPixel);
+
+  const tables = () => requireTables(params.tables);
+  const read = (procedure: string, table: (tables: TextRegionTables) => HuffmanTable) =>
+    readValue(coder, procedure, () => table(tables()));
+
+  const readId = (): number => {
+    if (coder.kind === "arithmetic") {
+      const codeLength = params.symbolCodeLength;
+
+      return decodeSymbolId(coder.decoder, coder.contexts.get("IAID", 2 << codeLength), codeLength);
+    }
+
+    const symbolIds = tables().symbolIds;
+
+    return symbolIds
+      ? requireValue(symbolIds.decode(coder.reader))
+      : coder.reader.readBits(params.symbolCodeLength);
+  };
+
+  const readT = (): number => {
+    if (strips === 1) {
+      return 0;
+    }
+
+    return coder.kind === "arithmetic"
+      ? requireValue(decodeInteger(coder.decoder, coder.contexts.get("IAIT")))
+      : coder.reader.readBits(Math.log2(strips));
+  };
+
+  const readRefine = (): boolean => {
+    if (!params.refine) {
+      return false;
+    }
+
+    return coder.kind === "arithmetic"
+      ? requireValue(decodeInteger(coder.decoder, coder.contexts.get("IARI"))) !== 0
+      : coder.reader.readBit() !== 0;
+  };
+
+  let stripT = -requireValue(read("IADT", t => t.dt)) * strips;
+  let firstS = 0;
+  let instances = 0;
+
+  while (instances < params.numInstances) {
+    stripT += requireValue(read("IADT", t => t.dt)) * strips;
+    firstS += requireValue(read("IAFS", t => t.fs));
+
+    let curS = firstS;
+
+    for (;;) {
+      const t = stripT + readT();
+      let symbol = requireSymbol(symbols, readId());
+
+      if (readRefine()) {
+        const rdw = requireValue(read("IARDW", tables => tables.rdw));
+        const rdh = requireValue(read("IARDH", tables => tables.rdh));
+        const rdx = requireValue(read("IARDX", tables => tables.rdx));
+        const rdy = requireValue(read("IARDY", tables => tables.rdy));
+
+        symbol = decodeRefinement(
+          coder,
+          {
+            width: symbol.width + rdw,
+            height: symbol.height + rdh,
+            template: params.refinementTemplate,
+            reference: symbol,
+            referenceDx: Math.floor(rdw / 2) + rdx,
+            referenceDy: Math.floor(rdh / 2) + rdy,
+            atPixels: params.refinementAt,
+            typicalPrediction: false,
+          },
+          () => tables().rsize,
+        );
+      }
+
+      const right = corner === ReferenceCorner.TopRight || corner === ReferenceCorner.BottomRight;
+      const bottom =
+        corner === ReferenceCorner.BottomLeft || corner === ReferenceCorner.BottomRight;
+
+      // Advance to the symbol's reference edge, place it, then advance
+      // past its far edge
+      if (transposed ? bottom : right) {
+        curS += (transposed ? symbol.height : symbol.width) - 1;
+      }
+
+      const [u, v] = transposed ? [t, curS] : [curS, t];
+      const x = right ? u - symbol.width + 1 : u;
+      const y = bottom ? v - symbol.height + 1 : v;
+
+      region.compose(symbol, x, y, params.combinationOperator);
+
+      if (!(transposed ? bottom : right)) {
+        curS += (transposed ? symbol.height : symbol.width) - 1;
+      }
+
+      instances++;
+
+      const ds = read("IADS", tables => tables.ds);
+
+      // Out-of-band ends the strip
+      if (ds === null) {
+        break;
+      }
+
+      curS += ds + params.dsOffset;
+    }
+  }
+
+  return region;
+}
+
+/**
+ * Read the Huffman table for symbol IDs of a text region (7.4.3.1.7).
+ *
+ * The symbol code lengths are themselves run-length coded with a table
+ * sent first as 35 four-bit prefix lengths.
+ */
+export function readSymbolIdTable(reader: BitReader, numSymbols: number): HuffmanTable {
+  const runCodeLines: HuffmanLine[] = [];
+
+  for (let i = 0; i < 35; i++) {
+    runCodeLines.push({ prefixLength: reader.readBits(4), rangeLength: 0, rangeLow: i });
+  }
+
+  const runCodes = new HuffmanTable(runCodeLines);
+  const lengths: number[] = [];
+
+  while (lengths.length < numSymbols) {
+    const code = requireValue(runCodes.decode(reader));
+
+    if (code < 32) {
+      lengths.push(code);
+    } else if (code === 32) {
+      const previous = lengths.at(-1) ?? 0;
+
+      lengths.push(...new Array<number>(3 + reader.readBits(2)).fill(previous));
+    } else if (code === 33) {
+      lengths.push(...new Array<number>(3 + reader.readBits(3)).fill(0));
+    } else {
+      lengths.push(...new Array<number>(11 + reader.readBits(7)).fill(0));
+    }
+  }
+
+  reader.align();
+
+  return new HuffmanTable(
+    lengths
+      .slice(0, numSymbols)
+      .map((prefixLength, index) => ({ prefixLength, rangeLength: 0, rangeLow: index })),
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read a value arithmetically (in the named procedure's contexts) or with
+ * a Huffman table.
+ */
+function readValue(
+  coder: SymbolCoder,
+  procedure: string,
+  table: () => HuffmanTable,
+): number | null {
+  if (coder.kind === "arithmetic") {
+    return decodeInteger(coder.decoder, coder.contexts.get(procedure));
+  }
+
+  return table().decode(coder.reader);
+}
+
+/**
+ * Decode a refinement bitmap.
+ *
+ * Huffman-coded segments embed it as a size-prefixed, byte-aligned run of
+ * arithmetic-coded data.
+ */
+function decodeRefinement(
+  coder: SymbolCoder,
+  params: RefinementRegionParams,
+  sizeTable: () => HuffmanTable,
+): Bitmap {
+  const contexts = coder.contexts.get("GR", refinementContextSize(params.template));
+
+  if (coder.kind === "arithmetic") {
+    return decodeRefinementRegion(params, coder.decoder, contexts);
+  }
+
+  const { reader } = coder;
+  const size = requireValue(sizeTable().decode(reader));
+
+  reader.align();
+
+  const start = reader.offset;
+  const bitmap = decodeRefinementRegion(
+    params,
+    new MQDecoder(coder.data, start, start + size),
+    contexts,
+  );
+
+  reader.skip(size);
+
+  return bitmap;
+}
+
+function requireValue(value: number | null): number {
+  if (value === null) {
+    throw new Error("JBIG2Decode: Unexpected out-of-band value");
+  }
+
+  return value;
+}
+
+function requireTables<T>(tables: T | undefined): T {
+  if (!tables) {
+    throw new Error("JBIG2Decode: Missing Huffman tables");
+  }
+
+  return tables;
+}
+
+function requireSymbol(symbols: Bitmap[], id: number): Bitmap {
+  const symbol = symbols[id];
+
+  if (!symbol) {
+    throw new Error(`JBIG2Decode: Symbol ${id} out of range (${symbols.length} symbols)`);
+  }
+
+  return symbol;
+}
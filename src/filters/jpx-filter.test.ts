@@ -0,0 +1,201 @@
+import { PDF } from "#src/api/pdf";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { loadFixture } from "#src/test-utils";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { JPXFilter } from "./jpx-filter";
+
+/**
+ * A raw codestream of a 4x4, 8-bit image with `components` components and
+ * no coded data: every packet is empty, so every sample is the level
+ * shift, 128.
+ */
+function emptyCodestream(components: number): Uint8Array {
+  const siz = [0xff, 0x51, 0, 38 + 3 * components, 0, 0];
+
+  // Image and tile size 4x4, no offsets
+  for (const value of [4, 4, 0, 0, 4, 4, 0, 0]) {
+    siz.push(0, 0, 0, value);
+  }
+
+  siz.push(0, components);
+
+  for (let i = 0; i < components; i++) {
+    siz.push(7, 1, 1);
+  }
+
+  // LRCP, one layer, no decomposition levels, 64x64 code-blocks, 5/3
+  const cod = [0xff, 0x52, 0, 12, 0, 0, 0, 1, 0, 0, 4, 4, 0, 1];
+
+  // No quantization, 2 guard bits, exponent 8
+  const qcd = [0xff, 0x5c, 0, 4, 0x40, 0x40];
+
+  // One empty packet per component
+  const packets = new Array<number>(components).fill(0);
+  const sot = [0xff, 0x90, 0, 10, 0, 0, 0, 0, 0, 14 + components, 0, 1];
+
+  return new Uint8Array([
+    0xff,
+    0x4f,
+    ...siz,
+    ...cod,
+    ...qcd,
+    ...sot,
+    0xff,
+    0x93,
+    ...packets,
+    0xff,
+    0xd9,
+  ]);
+}
+
+describe("JPXFilter", () => {
+  const filter = new JPXFilter();
+
+  it("has correct name", () => {
+    expect(filter.name).toBe("JPXDecode");
+  });
+
+  it("decodes a raw codestream", () => {
+    const decoded = filter.decode(emptyCodestream(3));
+
+    expect(decoded.length).toBe(4 * 4 * 3);
+    expect(decoded.every(byte => byte === 128)).toBe(true);
+  });
+
+  it("rejects data that is not JPEG 2000", () => {
+    expect(() => filter.decode(new Uint8Array([1, 2, 3, 4]))).toThrow(/JPXDecode/);
+  });
+
+  it("does not encode", () => {
+    expect(() => filter.encode(new Uint8Array(0))).toThrow(/not implemented/);
+  });
+
+  describe("decodeImage", () => {
+    it("reports size and colour space", () => {
+      const image = JPXFilter.decodeImage(emptyCodestream(3));
+
+      expect(image.width).toBe(4);
+      expect(image.height).toBe(4);
+      expect(image.components).toBe(3);
+      expect(image.colorSpace).toBe("DeviceRGB");
+      expect(image.alpha).toBeUndefined();
+    });
+
+    it("treats an extra component as opacity", () => {
+      const image = JPXFilter.decodeImage(emptyCodestream(2));
+
+      expect(image.components).toBe(1);
+      expect(image.colorSpace).toBe("DeviceGray");
+      expect(image.pixels.length).toBe(16);
+      expect(image.alpha?.length).toBe(16);
+    });
+
+    it("keeps opacity only as /SMaskInData asks", () => {
+      const data = emptyCodestream(2);
+
+      expect(JPXFilter.decodeImage(data, new PdfDict()).alpha).toBeUndefined();
+
+      const separate = JPXFilter.decodeImage(data, PdfDict.of({ SMaskInData: PdfNumber.of(1) }));
+
+      expect(separate.alpha).toBeDefined();
+      expect(separate.premultipliedAlpha).toBe(false);
+
+      const premultiplied = JPXFilter.decodeImage(
+        data,
+        PdfDict.of({ SMaskInData: PdfNumber.of(2) }),
+      );
+
+      expect(premultiplied.premultipliedAlpha).toBe(true);
+
+      const masked = JPXFilter.decodeImage(
+        data,
+        PdfDict.of({ SMaskInData: PdfNumber.of(1), SMask: PdfRef.of(10, 0) }),
+      );
+
+      expect(masked.alpha).toBeUndefined();
+    });
+  });
+
+  describe("JP2 images", () => {
+    let pdf: PDF;
+
+    const resolveImage = (objectNumber: number): PdfStream => {
+      const image = pdf.context.resolve(PdfRef.of(objectNumber, 0));
+
+      if (!(image instanceof PdfStream)) {
+        throw new Error("fixture image not found");
+      }
+
+      return image;
+    };
+
+    beforeAll(async () => {
+      pdf = await PDF.load(await loadFixture("malformed", "pdfbox/PDFBOX-3947.pdf"));
+    });
+
+    it("decodes a greyscale image", () => {
+      const stream = resolveImage(13445);
+      const image = JPXFilter.decodeImage(stream.data, stream);
+
+      expect(image.width).toBe(173);
+      expect(image.height).toBe(172);
+      expect(image.colorSpace).toBe("DeviceGray");
+      expect(image.pixels.length).toBe(173 * 172);
+
+      // A dark seal on white: the corners are white, the middle is not
+      expect(image.pixels[0]).toBeGreaterThan(240);
+      expect(image.pixels[173 * 172 - 1]).toBeGreaterThan(240);
+
+      const dark = image.pixels.filter(value => value < 128).length;
+
+      expect(dark / image.pixels.length).toBeGreaterThan(0.05);
+      expect(dark / image.pixels.length).toBeLessThan(0.6);
+    });
+
+    it("decodes a tiled CMYK image through the stream", () => {
+      const stream = resolveImage(13446);
+      const decoded = stream.getDecodedData();
+
+      expect(decoded.length).toBe(395 * 648 * 4);
+      expect(JPXFilter.decodeImage(stream.data).colorSpace).toBe("DeviceCMYK");
+    });
+
+    it("decodes an RGB image", () => {
+      const stream = resolveImage(118);
+      const image = JPXFilter.decodeImage(stream.data, stream);
+
+      expect(image.width).toBe(1124);
+      expect(image.height).toBe(232);
+      expect(image.colorSpace).toBe("DeviceRGB");
+      expect(image.pixels.length).toBe(1124 * 232 * 3);
+    });
+
+    it("decodes an image with its JP2 header stripped", () => {
+      const stream = resolveImage(13445);
+      const data = stream.data;
+
+      // The contents of the `jp2c` box
+      const type = [0x6a, 0x70, 0x32, 0x63];
+      let start = 0;
+
+      while (!type.every((byte, i) => data[start + i] === byte)) {
+        start++;
+      }
+
+      const codestream = data.subarray(start + 4);
+
+      expect(filter.decode(codestream)).toEqual(filter.decode(data));
+    });
+  });
+
+  it("is the filter behind /JPXDecode streams", () => {
+    const stream = PdfStream.fromDict({ Filter: PdfName.of("JPXDecode") }, emptyCodestream(1));
+
+    expect(stream.getDecodedData()).toEqual(new Uint8Array(16).fill(128));
+  });
+});
@@ -1,36 +1,28 @@
 import type { PdfDict } from "#src/objects/pdf-dict";
 
 import type { Filter } from "./filter";
+import { decodeJpx, type JpxImage } from "./jpx/decoder";
 
 /**
- * JPXDecode filter (stub).
+ * JPXDecode filter (JPEG 2000).
  *
  * JPX (JPEG 2000) is a wavelet-based image compression standard that offers
- * better compression and quality than traditional JPEG (DCT-based).
+ * better compression and quality than traditional JPEG (DCT-based), and is
+ * common in archives from medical and engineering systems.
  *
- * Decoding JPEG 2000 requires:
- * 1. EBCOT (Embedded Block Coding with Optimal Truncation)
- * 2. DWT (Discrete Wavelet Transform)
- * 3. Tier-1 and Tier-2 decoding
- * 4. Color space conversion
+ * Decodes JP2 files and raw codestreams: both wavelet filters (5/3
+ * reversible and 9/7 irreversible), the component transforms, all
+ * progression orders, tiling, subsampled components and palettes.
  *
- * This is beyond the scope of a simple implementation. For JPX support,
- * consider using a dedicated library like OpenJPEG.
- *
- * The raw data can be extracted and passed to an external decoder.
+ * `decode()` returns the colour samples only, 8 bits per component,
+ * interleaved. Use `JPXFilter.decodeImage()` for the image's size, its
+ * colour space from the JP2 header and its opacity channel.
  */
 export class JPXFilter implements Filter {
   readonly name = "JPXDecode";
 
   decode(data: Uint8Array, _params?: PdfDict): Uint8Array {
-    // Check JPEG 2000 signature
-    const isValidJP2 = this.isJPEG2000(data);
-
-    throw new Error(
-      "JPXDecode: Decoding not implemented. " +
-        `Stream contains ${data.length} bytes of ${isValidJP2 ? "valid" : "possible"} JPEG 2000 data. ` +
-        "Consider using an external JPEG 2000 decoder library (e.g., OpenJPEG).",
-    );
+    return decodeJpx(data).pixels;
   }
 
   encode(_data: Uint8Array, _params?: PdfDict): Uint8Array {
@@ -38,42 +30,30 @@ export class JPXFilter implements Filter {
   }
 
   /**
-   * Check if data appears to be valid JPEG 2000.
+   * Decode a JPX image with its size, colour space and opacity.
+   *
+   * A /ColorSpace in the image dictionary overrides the JP2 header's, so
+   * `colorSpace` only matters for images without one. Given the image
+   * dictionary, the opacity channel is kept only as /SMaskInData asks
+   * (1 or 2) and the image has no /SMask of its own.
    *
-   * JPEG 2000 files start with:
-   * - Codestream: FF 4F (SOC marker)
-   * - JP2 file: 00 00 00 0C 6A 50 20 20 (signature box)
+   * @param data - Raw JPX data (the stream's data before this filter)
+   * @param image - The image XObject dictionary
    */
-  private isJPEG2000(data: Uint8Array): boolean {
-    if (data.length < 2) {
-      return false;
-    }
-
-    // Check for codestream SOC marker
-    if (data[0] === 0xff && data[1] === 0x4f) {
-      return true;
-    }
+  static decodeImage(data: Uint8Array, image?: PdfDict): JpxImage {
+    const decoded = decodeJpx(data);
 
-    // Check for JP2 signature box
-    if (data.length >= 12) {
-      const sig = [0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20];
+    if (image && decoded.alpha) {
+      const smaskInData = image.getNumber("SMaskInData")?.value ?? 0;
 
-      for (let i = 0; i < 8; i++) {
-        if (data[i] !== sig[i]) {
-          return false;
-        }
+      if (smaskInData === 0 || image.has("SMask")) {
+        delete decoded.alpha;
+        delete decoded.premultipliedAlpha;
+      } else {
+        decoded.premultipliedAlpha = smaskInData === 2;
       }
-
-      return true;
     }
 
-    return false;
-  }
-
-  /**
-   * Extract raw JPEG 2000 data for use with external decoder.
-   */
-  static getRawData(data: Uint8Array): Uint8Array {
-    return data;
+    return decoded;
   }
 }
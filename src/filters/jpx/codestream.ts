@@ -0,0 +1,508 @@
+/**
+ * JPEG 2000 codestream syntax (T.800 Annex A).
+ *
+ * Reads the main header and the tile-part headers: image and tile sizes,
+ * coding and quantization styles, and each tile's packet data. Packets
+ * are decoded in `tier2.ts`.
+ *
+ * Packed packet headers (PPM, PPT) and progression order changes (POC)
+ * are not supported.
+ */
+
+import { concatBytes } from "#src/helpers/buffer";
+
+/**
+ * Marker codes (A.2).
+ */
+const Marker = {
+  SOC: 0xff4f,
+  SIZ: 0xff51,
+  COD: 0xff52,
+  COC: 0xff53,
+  QCD: 0xff5c,
+  QCC: 0xff5d,
+  RGN: 0xff5e,
+  POC: 0xff5f,
+  PPM: 0xff60,
+  PPT: 0xff61,
+  SOT: 0xff90,
+  SOD: 0xff93,
+  EOC: 0xffd9,
+} as const;
+
+/**
+ * Progression orders (Table A.16).
+ */
+export const ProgressionOrder = {
+  LRCP: 0,
+  RLCP: 1,
+  RPCL: 2,
+  PCRL: 3,
+  CPRL: 4,
+} as const;
+
+/**
+ * Code-block style flags (Table A.19).
+ */
+export const BlockStyle = {
+  Bypass: 0x01,
+  Reset: 0x02,
+  TerminateAll: 0x04,
+  VerticallyCausal: 0x08,
+  PredictableTermination: 0x10,
+  SegmentationSymbols: 0x20,
+} as const;
+
+/**
+ * Quantization styles (Table A.28).
+ */
+export const QuantizationStyle = {
+  None: 0,
+  ScalarDerived: 1,
+  ScalarExpounded: 2,
+} as const;
+
+/**
+ * Image and tile sizes from the SIZ marker (A.5.1).
+ *
+ * All coordinates are on the reference grid.
+ */
+export interface ImageSize {
+  /** Xsiz, Ysiz: right and bottom edges of the image area */
+  width: number;
+  height: number;
+
+  /** XOsiz, YOsiz: image area offset */
+  x0: number;
+  y0: number;
+
+  /** XTsiz, YTsiz, XTOsiz, YTOsiz: tile size and tile grid offset */
+  tileWidth: number;
+  tileHeight: number;
+  tileX0: number;
+  tileY0: number;
+
+  components: ComponentSize[];
+}
+
+/**
+ * Per-component depth and subsampling.
+ */
+export interface ComponentSize {
+  precision: number;
+  signed: boolean;
+
+  /** XRsiz, YRsiz */
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Component coding parameters, from COD or COC (Table A.15).
+ */
+export interface ComponentCodingStyle {
+  /** Number of decomposition levels */
+  levels: number;
+
+  /** Code-block size exponents */
+  codeBlockWidth: number;
+  codeBlockHeight: number;
+
+  /** Combination of `BlockStyle` flags */
+  blockStyle: number;
+
+  /** 5/3 reversible filter (true) or 9/7 irreversible filter (false) */
+  reversible: boolean;
+
+  /** Precinct size exponents [PPx, PPy] for each resolution, lowest first */
+  precincts: [number, number][];
+}
+
+/**
+ * Coding style from a COD marker (A.6.1).
+ */
+export interface CodingStyle {
+  usesSop: boolean;
+  usesEph: boolean;
+  progression: number;
+  layers: number;
+
+  /** Multiple component transform on components 0-2 */
+  mct: boolean;
+
+  component: ComponentCodingStyle;
+}
+
+/**
+ * Quantization from a QCD or QCC marker (A.6.4).
+ */
+export interface Quantization {
+  style: number;
+  guardBits: number;
+
+  /** Step sizes by subband, in codestream order (LL, then HL, LH, HH per level) */
+  steps: { exponent: number; mantissa: number }[];
+}
+
+/**
+ * Coding parameters from the main header, or a tile's first tile-part.
+ */
+export interface HeaderParams {
+  cod?: CodingStyle;
+  coc: Map<number, ComponentCodingStyle>;
+  qcd?: Quantization;
+  qcc: Map<number, Quantization>;
+
+  /** Region of interest maximum shift per component (RGN) */
+  roiShift: Map<number, number>;
+}
+
+/**
+ * A tile's header parameters and packet data.
+ */
+export interface Tile {
+  index: number;
+  params: HeaderParams;
+
+  /** Bodies of the tile's parts, concatenated in order */
+  data: Uint8Array;
+}
+
+/**
+ * A parsed codestream.
+ */
+export interface Codestream {
+  size: ImageSize;
+  main: HeaderParams;
+  tiles: Tile[];
+}
+
+/**
+ * Parse a codestream's headers and split out the tiles' data.
+ */
+export function parseCodestream(data: Uint8Array): Codestream {
+  if (readUint16(data, 0) !== Marker.SOC) {
+    throw new Error("JPXDecode: Missing start of codestream marker");
+  }
+
+  let size: ImageSize | undefined;
+  const main = createHeaderParams();
+  const tileParts = new Map<number, { params: HeaderParams; parts: Uint8Array[] }>();
+  let position = 2;
+
+  // Main header, up to the first tile-part
+  while (position + 4 <= data.length) {
+    const marker = readUint16(data, position);
+
+    if (marker === Marker.SOT || marker === Marker.EOC) {
+      break;
+    }
+
+    const length = readUint16(data, position + 2);
+    const segment = data.subarray(position + 4, position + 2 + length);
+
+    if (marker === Marker.SIZ) {
+      size = readImageSize(segment);
+    } else {
+      readParamsMarker(marker, segment, main, size);
+    }
+
+    position += 2 + length;
+  }
+
+  if (!size) {
+    throw new Error("JPXDecode: Missing image size (SIZ) marker");
+  }
+
+  // Tile-parts
+  while (position + 12 <= data.length && readUint16(data, position) === Marker.SOT) {
+    const length = readUint16(data, position + 2);
+    const tileIndex = readUint16(data, position + 4);
+    const partLength = readUint32(data, position + 6);
+    const partIndex = data[position + 10];
+
+    // A zero length runs to the end of the codestream
+    const end = partLength === 0 ? findEnd(data) : Math.min(position + partLength, data.length);
+
+    let tile = tileParts.get(tileIndex);
+
+    if (!tile) {
+      tile = { params: createHeaderParams(), parts: [] };
+      tileParts.set(tileIndex, tile);
+    }
+
+    position += 2 + length;
+
+    while (position + 2 <= end && readUint16(data, position) !== Marker.SOD) {
+      const marker = readUint16(data, position);
+      const markerLength = readUint16(data, position + 2);
+
+      // Only the first tile-part may change coding parameters
+      if (partIndex === 0 || marker === Marker.PPT || marker === Marker.POC) {
+        readParamsMarker(
+          marker,
+          data.subarray(position + 4, position + 2 + markerLength),
+          tile.params,
+          size,
+        );
+      }
+
+      position += 2 + markerLength;
+    }
+
+    tile.parts.push(data.subarray(position + 2, end));
+    position = end;
+  }
+
+  const tiles: Tile[] = [];
+
+  for (const [index, { params, parts }] of tileParts) {
+    tiles.push({ index, params, data: parts.length === 1 ? parts[0] : concatBytes(parts) });
+  }
+
+  return { size, main, tiles };
+}
+
+/**
+ * Coding style for a component, by precedence: tile COC, tile COD,
+ * main COC, main COD (A.6).
+ */
+export function getCodingStyle(
+  main: HeaderParams,
+  tile: HeaderParams,
+  component: number,
+): CodingStyle {
+  const cod = tile.cod ?? main.cod;
+
+  if (!cod) {
+    throw new Error("JPXDecode: Missing coding style (COD) marker");
+  }
+
+  const componentStyle =
+    tile.coc.get(component) ??
+    (tile.cod ? tile.cod.component : undefined) ??
+    main.coc.get(component) ??
+    cod.component;
+
+  return { ...cod, component: componentStyle };
+}
+
+/**
+ * Quantization for a component, with the same precedence as coding styles.
+ */
+export function getQuantization(
+  main: HeaderParams,
+  tile: HeaderParams,
+  component: number,
+): Quantization {
+  const quantization = tile.qcc.get(component) ?? tile.qcd ?? main.qcc.get(component) ?? main.qcd;
+
+  if (!quantization) {
+    throw new Error("JPXDecode: Missing quantization (QCD) marker");
+  }
+
+  return quantization;
+}
+
+/**
+ * Region of interest shift for a component.
+ */
+export function getRoiShift(main: HeaderParams, tile: HeaderParams, component: number): number {
+  return tile.roiShift.get(component) ?? main.roiShift.get(component) ?? 0;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Marker segments
+// ─────────────────────────────────────────────────────────────────────────────
+
+function createHeaderParams(): HeaderParams {
+  return { coc: new Map(), qcc: new Map(), roiShift: new Map() };
+}
+
+function readImageSize(segment: Uint8Array): ImageSize {
+  const componentCount = readUint16(segment, 34);
+  const components: ComponentSize[] = [];
+
+  for (let i = 0; i < componentCount; i++) {
+    const depth = segment[36 + i * 3];
+
+    components.push({
+      precision: (depth & 0x7f) + 1,
+      signed: (depth & 0x80) !== 0,
+      dx: segment[37 + i * 3],
+      dy: segment[38 + i * 3],
+    });
+  }
+
+  const size: ImageSize = {
+    width: readUint32(segment, 2),
+    height: readUint32(segment, 6),
+    x0: readUint32(segment, 10),
+    y0: readUint32(segment, 14),
+    tileWidth: readUint32(segment, 18),
+    tileHeight: readUint32(segment, 22),
+    tileX0: readUint32(segment, 26),
+    tileY0: readUint32(segment, 30),
+    components,
+  };
+
+  if (
+    size.width <= size.x0 ||
+    size.height <= size.y0 ||
+    size.tileWidth === 0 ||
+    size.tileHeight === 0
+  ) {
+    throw new Error("JPXDecode: Invalid image size");
+  }
+
+  if (components.length === 0 || components.some(c => c.dx === 0 || c.dy === 0)) {
+    throw new Error("JPXDecode: Invalid component parameters");
+  }
+
+  return size;
+}
+
+/**
+ * Read a marker segment that sets coding parameters. Markers with no
+ * effect on decoding (COM, TLM, PLM, PLT, CRG...) are ignored.
+ */
+function readParamsMarker(
+  marker: number,
+  segment: Uint8Array,
+  params: HeaderParams,
+  size: ImageSize | undefined,
+): void {
+  // Component indices take two bytes in images with 257 or more components
+  const indexLength = size && size.components.length > 256 ? 2 : 1;
+  const readIndex = () => (indexLength === 2 ? readUint16(segment, 0) : segment[0]);
+
+  switch (marker) {
+    case Marker.COD: {
+      const flags = segment[0];
+
+      params.cod = {
+        usesSop: (flags & 0x02) !== 0,
+        usesEph: (flags & 0x04) !== 0,
+        progression: segment[1],
+        layers: readUint16(segment, 2),
+        mct: segment[4] !== 0,
+        component: readComponentCodingStyle(segment, 5, (flags & 0x01) !== 0),
+      };
+      break;
+    }
+
+    case Marker.COC:
+      params.coc.set(
+        readIndex(),
+        readComponentCodingStyle(segment, indexLength + 1, (segment[indexLength] & 0x01) !== 0),
+      );
+      break;
+
+    case Marker.QCD:
+      params.qcd = readQuantization(segment, 0);
+      break;
+
+    case Marker.QCC:
+      params.qcc.set(readIndex(), readQuantization(segment, indexLength));
+      break;
+
+    case Marker.RGN:
+      // Only the implicit (maximum shift) method is defined
+      if (segment[indexLength] === 0) {
+        params.roiShift.set(readIndex(), segment[indexLength + 1]);
+      }
+      break;
+
+    case Marker.POC:
+      throw new Error("JPXDecode: Progression order changes (POC) are not supported");
+
+    case Marker.PPM:
+    case Marker.PPT:
+      throw new Error("JPXDecode: Packed packet headers (PPM/PPT) are not supported");
+  }
+}
+
+function readComponentCodingStyle(
+  segment: Uint8Array,
+  position: number,
+  hasPrecincts: boolean,
+): ComponentCodingStyle {
+  const levels = segment[position];
+  const precincts: [number, number][] = [];
+
+  for (let r = 0; r <= levels; r++) {
+    if (hasPrecincts) {
+      const value = segment[position + 5 + r];
+
+      precincts.push([value & 0x0f, value >> 4]);
+    } else {
+      precincts.push([15, 15]);
+    }
+  }
+
+  const style: ComponentCodingStyle = {
+    levels,
+    codeBlockWidth: segment[position + 1] + 2,
+    codeBlockHeight: segment[position + 2] + 2,
+    blockStyle: segment[position + 3],
+    reversible: segment[position + 4] === 1,
+    precincts,
+  };
+
+  if (style.codeBlockWidth + style.codeBlockHeight > 12 || levels > 32) {
+    throw new Error("JPXDecode: Invalid coding style");
+  }
+
+  return style;
+}
+
+function readQuantization(segment: Uint8Array, position: number): Quantization {
+  const flags = segment[position];
+  const style = flags & 0x1f;
+  const steps: Quantization["steps"] = [];
+
+  if (style === QuantizationStyle.None) {
+    for (let i = position + 1; i < segment.length; i++) {
+      steps.push({ exponent: segment[i] >> 3, mantissa: 0 });
+    }
+  } else {
+    for (let i = position + 1; i + 1 < segment.length; i += 2) {
+      const value = readUint16(segment, i);
+
+      steps.push({ exponent: value >> 11, mantissa: value & 0x7ff });
+    }
+  }
+
+  return { style, guardBits: flags >> 5, steps };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * End of the last tile-part: the EOC marker, or the end of the data.
+ */
+function findEnd(data: Uint8Array): number {
+  const length = data.length;
+
+  if (length >= 2 && readUint16(data, length - 2) === Marker.EOC) {
+    return length - 2;
+  }
+
+  return length;
+}
+
+export function readUint16(data: Uint8Array, position: number): number {
+  return (data[position] << 8) | data[position + 1];
+}
+
+export function readUint32(data: Uint8Array, position: number): number {
+  return (
+    ((data[position] << 24) |
+      (data[position + 1] << 16) |
+      (data[position + 2] << 8) |
+      data[position + 3]) >>>
+    0
+  );
+}
@@ -0,0 +1,537 @@
+/**
+ * JPEG 2000 decoding (T.800): JP2 files or raw codestreams to pixels.
+ *
+ * Each tile is decoded component by component: packets are split into
+ * code-block data (tier-2), code-blocks into quantized coefficients
+ * (tier-1), which are dequantized and run through the inverse wavelet
+ * transform, resolution by resolution. The component transform and level
+ * shift then give the tile's samples.
+ *
+ * The JP2 header, when present, maps components to colour and opacity
+ * channels, through a palette if there is one, and names the colour space.
+ */
+
+import {
+  type Codestream,
+  getCodingStyle,
+  getQuantization,
+  getRoiShift,
+  parseCodestream,
+  type Quantization,
+  QuantizationStyle,
+} from "./codestream";
+import { ChannelType, EnumeratedColorSpace, type Jp2Header, readJp2 } from "./jp2";
+import { decodeCodeBlock, SubbandType } from "./tier1";
+import {
+  buildTileComponent,
+  getCodewordSegments,
+  readPackets,
+  type Subband,
+  type TileComponent,
+} from "./tier2";
+import { inverseComponentTransform, inverseWavelet, type SampleRect } from "./transform";
+
+/**
+ * Colour spaces a JPX image can name for itself.
+ */
+export type JpxColorSpace = "DeviceGray" | "DeviceRGB" | "DeviceCMYK";
+
+/**
+ * A decoded JPEG 2000 image.
+ */
+export interface JpxImage {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Number of colour channels (excluding alpha) */
+  components: number;
+  /** Colour space from the JP2 header, or implied by the channel count */
+  colorSpace: JpxColorSpace | null;
+  /** Colour samples, 8 bits each, interleaved, rows top to bottom */
+  pixels: Uint8Array;
+  /** Opacity channel, 8 bits per pixel (if present) */
+  alpha?: Uint8Array;
+  /** Whether `pixels` are premultiplied by `alpha` */
+  premultipliedAlpha?: boolean;
+}
+
+/**
+ * Samples of one component (or palette channel) for the whole image.
+ */
+interface Plane {
+  /** Position and size on the component's own (subsampled) grid */
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+  dx: number;
+  dy: number;
+
+  /** Bits per sample, at most 16 */
+  precision: number;
+
+  /** Samples, level shifted to be unsigned */
+  data: Uint16Array;
+}
+
+/** Most bits kept per sample; deeper components are shifted down */
+const MAX_PRECISION = 16;
+
+/**
+ * Decode a JPEG 2000 image.
+ *
+ * @param data - A JP2 file or a raw codestream
+ * @throws {Error} If the data is invalid or uses an unsupported feature
+ */
+export function decodeJpx(data: Uint8Array): JpxImage {
+  const { codestream, header } = readJp2(data);
+  const parsed = parseCodestream(codestream);
+  const { size } = parsed;
+
+  let channels = decodePlanes(parsed);
+
+  if (header?.palette && header.mapping) {
+    channels = applyPalette(channels, header);
+  }
+
+  const width = size.width - size.x0;
+  const height = size.height - size.y0;
+  const { color, alpha, premultiplied } = assignChannels(channels, header);
+  const colorSpace = getColorSpace(header, color.length);
+  const pixels = new Uint8Array(width * height * color.length);
+
+  color.forEach((plane, c) => {
+    writeChannel(plane, size.x0, size.y0, width, height, pixels, c, color.length);
+  });
+
+  if (header?.colorSpace === EnumeratedColorSpace.sYCC && color.length === 3) {
+    convertYccToRgb(pixels);
+  }
+
+  const image: JpxImage = { width, height, components: color.length, colorSpace, pixels };
+
+  if (alpha) {
+    image.alpha = new Uint8Array(width * height);
+    image.premultipliedAlpha = premultiplied;
+    writeChannel(alpha, size.x0, size.y0, width, height, image.alpha, 0, 1);
+  }
+
+  return image;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tiles
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decode every tile into whole-image component planes.
+ */
+function decodePlanes(codestream: Codestream): Plane[] {
+  const { size } = codestream;
+
+  const planes = size.components.map(component => {
+    const x0 = Math.ceil(size.x0 / component.dx);
+    const y0 = Math.ceil(size.y0 / component.dy);
+    const width = Math.ceil(size.width / component.dx) - x0;
+    const height = Math.ceil(size.height / component.dy) - y0;
+
+    return {
+      x0,
+      y0,
+      width,
+      height,
+      dx: component.dx,
+      dy: component.dy,
+      precision: Math.min(component.precision, MAX_PRECISION),
+      data: new Uint16Array(width * height),
+    };
+  });
+
+  const tilesWide = Math.ceil((size.width - size.tileX0) / size.tileWidth);
+
+  for (const tile of codestream.tiles) {
+    const p = tile.index % tilesWide;
+    const q = Math.floor(tile.index / tilesWide);
+
+    const bounds = {
+      x0: Math.max(size.tileX0 + p * size.tileWidth, size.x0),
+      y0: Math.max(size.tileY0 + q * size.tileHeight, size.y0),
+      x1: Math.min(size.tileX0 + (p + 1) * size.tileWidth, size.width),
+      y1: Math.min(size.tileY0 + (q + 1) * size.tileHeight, size.height),
+    };
+
+    if (bounds.x1 <= bounds.x0 || bounds.y1 <= bounds.y0) {
+      continue;
+    }
+
+    const styles = size.components.map((_, c) => getCodingStyle(codestream.main, tile.params, c));
+    const components = size.components.map((component, c) =>
+      buildTileComponent(bounds, component.dx, component.dy, styles[c].component),
+    );
+
+    readPackets(tile.data, components, styles[0], bounds);
+
+    const samples = components.map((component, c) =>
+      reconstructComponent(
+        component,
+        getQuantization(codestream.main, tile.params, c),
+        size.components[c].precision,
+        getRoiShift(codestream.main, tile.params, c),
+      ),
+    );
+
+    if (styles[0].mct && samples.length >= 3) {
+      inverseComponentTransform(samples[0], samples[1], samples[2], components[0].style.reversible);
+    }
+
+    components.forEach((component, c) => {
+      storeSamples(planes[c], component, samples[c], size.components[c].precision);
+    });
+  }
+
+  return planes;
+}
+
+/**
+ * Dequantize a tile-component's code-blocks and undo the wavelet
+ * transform.
+ */
+function reconstructComponent(
+  component: TileComponent,
+  quantization: Quantization,
+  precision: number,
+  roiShift: number,
+): Float32Array {
+  const { style, resolutions } = component;
+  const decodeSubband = (subband: Subband, r: number, band: number) =>
+    dequantize(subband, component, quantization, precision, roiShift, r, band);
+
+  let current = decodeSubband(resolutions[0].subbands[0], 0, 0);
+
+  for (let r = 1; r <= style.levels; r++) {
+    const resolution = resolutions[r];
+    const [hl, lh, hh] = resolution.subbands.map((subband, band) =>
+      decodeSubband(subband, r, band),
+    );
+
+    current = inverseWavelet(current, [hl, lh, hh], resolution, style.reversible);
+  }
+
+  return current.data;
+}
+
+/**
+ * Decode a subband's code-blocks and scale them by the quantization step
+ * (E.1).
+ *
+ * @param r - Resolution level of the subband
+ * @param band - Index of the subband within the resolution
+ */
+function dequantize(
+  subband: Subband,
+  component: TileComponent,
+  quantization: Quantization,
+  precision: number,
+  roiShift: number,
+  r: number,
+  band: number,
+): SampleRect {
+  const { style } = component;
+  const width = subband.x1 - subband.x0;
+  const height = subband.y1 - subband.y0;
+  const data = new Float32Array(Math.max(width * height, 0));
+
+  // Step sizes are listed LL first, then HL, LH, HH for each level; the
+  // derived style lists only LL and scales it per level (E-5)
+  const index = r === 0 ? 0 : 3 * (r - 1) + band + 1;
+  let { exponent, mantissa } = quantization.steps[Math.min(index, quantization.steps.length - 1)];
+
+  if (quantization.style === QuantizationStyle.ScalarDerived) {
+    ({ exponent, mantissa } = quantization.steps[0]);
+    exponent -= r === 0 ? 0 : r - 1;
+  }
+
+  const gain = subband.type === SubbandType.LL ? 0 : subband.type === SubbandType.HH ? 2 : 1;
+  const magnitudeBits = quantization.guardBits + exponent - 1;
+  const stepSize = style.reversible
+    ? 1
+    : 2 ** (precision + gain - exponent) * (1 + mantissa / 2048);
+
+  for (const codeBlock of subband.codeBlocks) {
+    const bitPlanes = magnitudeBits + roiShift - codeBlock.zeroBitPlanes;
+
+    if (codeBlock.segments.length === 0 || bitPlanes <= 0) {
+      continue;
+    }
+
+    const blockWidth = codeBlock.x1 - codeBlock.x0;
+    const blockHeight = codeBlock.y1 - codeBlock.y0;
+
+    const { values, planesDecoded } = decodeCodeBlock({
+      width: blockWidth,
+      height: blockHeight,
+      subband: subband.type,
+      bitPlanes,
+      blockStyle: style.blockStyle,
+      segments: getCodewordSegments(codeBlock),
+    });
+
+    for (let y = 0; y < blockHeight; y++) {
+      const row = (codeBlock.y0 - subband.y0 + y) * width + codeBlock.x0 - subband.x0;
+
+      for (let x = 0; x < blockWidth; x++) {
+        const i = y * blockWidth + x;
+        const value = values[i];
+
+        if (value === 0) {
+          continue;
+        }
+
+        // Bit-planes not decoded are reconstructed at their midpoint
+        const missing = bitPlanes - planesDecoded[i];
+        let magnitude = Math.abs(value) + (missing > 0 ? 2 ** (missing - 1) : 0);
+
+        // Coefficients in a region of interest were scaled up (H.1)
+        if (roiShift > 0 && magnitude >= 2 ** roiShift) {
+          magnitude /= 2 ** roiShift;
+        }
+
+        data[row + x] = (value < 0 ? -magnitude : magnitude) * stepSize;
+      }
+    }
+  }
+
+  return { x0: subband.x0, y0: subband.y0, width, height, data };
+}
+
+/**
+ * Level shift, round and clamp a tile-component's samples into its plane.
+ */
+function storeSamples(
+  plane: Plane,
+  component: TileComponent,
+  samples: Float32Array,
+  precision: number,
+): void {
+  const width = component.x1 - component.x0;
+  const height = component.y1 - component.y0;
+  const max = 2 ** precision - 1;
+  const shift = precision - plane.precision;
+
+  // Signed samples are shifted too, so planes are always unsigned
+  const offset = 2 ** (precision - 1);
+
+  for (let y = 0; y < height; y++) {
+    const target = (component.y0 - plane.y0 + y) * plane.width + component.x0 - plane.x0;
+
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(samples[y * width + x] + offset);
+      const clamped = value < 0 ? 0 : value > max ? max : value;
+
+      plane.data[target + x] = shift > 0 ? Math.floor(clamped / 2 ** shift) : clamped;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Channels
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Map components to channels through the palette (I.5.3.4, I.5.3.5).
+ */
+function applyPalette(planes: Plane[], header: Jp2Header): Plane[] {
+  const { palette, mapping } = header;
+
+  if (!palette || !mapping) {
+    return planes;
+  }
+
+  return mapping.map(({ component, column }) => {
+    const source = planes[component];
+
+    if (!source) {
+      throw new Error(`JPXDecode: Component mapping refers to missing component ${component}`);
+    }
+
+    if (column < 0) {
+      return source;
+    }
+
+    const columns = palette.columns.length;
+    const precision = palette.columns[column]?.precision ?? 8;
+    const shift = Math.max(precision - MAX_PRECISION, 0);
+    const data = new Uint16Array(source.data.length);
+
+    for (let i = 0; i < data.length; i++) {
+      const entry = Math.min(source.data[i], palette.entries - 1);
+
+      data[i] = Math.floor(palette.values[entry * columns + column] / 2 ** shift);
+    }
+
+    return { ...source, precision: precision - shift, data };
+  });
+}
+
+/**
+ * Split channels into colour and opacity, using the channel definitions
+ * if there are any (I.5.3.6).
+ */
+function assignChannels(
+  channels: Plane[],
+  header: Jp2Header | null,
+): { color: Plane[]; alpha?: Plane; premultiplied: boolean } {
+  if (header?.channels) {
+    const color: { plane: Plane; association: number }[] = [];
+    let alpha: Plane | undefined;
+    let premultiplied = false;
+
+    for (const { index, type, association } of header.channels) {
+      const plane = channels[index];
+
+      if (!plane) {
+        continue;
+      }
+
+      if (type === ChannelType.Color) {
+        color.push({ plane, association });
+      } else if (
+        !alpha &&
+        (type === ChannelType.Opacity || type === ChannelType.PremultipliedOpacity)
+      ) {
+        alpha = plane;
+        premultiplied = type === ChannelType.PremultipliedOpacity;
+      }
+    }
+
+    if (color.length > 0) {
+      color.sort((a, b) => a.association - b.association);
+
+      return { color: color.map(entry => entry.plane), alpha, premultiplied };
+    }
+  }
+
+  // Without definitions, an extra channel after the colour ones is opacity
+  const colorCount =
+    getColorChannelCount(header?.colorSpace) ??
+    (channels.length === 2 ? 1 : Math.min(channels.length, 4));
+
+  return {
+    color: channels.slice(0, colorCount),
+    alpha: channels.length > colorCount ? channels[colorCount] : undefined,
+    premultiplied: false,
+  };
+}
+
+function getColorChannelCount(colorSpace: number | undefined): number | undefined {
+  switch (colorSpace) {
+    case EnumeratedColorSpace.Greyscale:
+      return 1;
+
+    case EnumeratedColorSpace.sRGB:
+    case EnumeratedColorSpace.sYCC:
+    case EnumeratedColorSpace.eSRGB:
+    case EnumeratedColorSpace.ROMMRGB:
+      return 3;
+
+    case EnumeratedColorSpace.CMYK:
+      return 4;
+
+    default:
+      return undefined;
+  }
+}
+
+function getColorSpace(header: Jp2Header | null, channels: number): JpxColorSpace | null {
+  const count = getColorChannelCount(header?.colorSpace) ?? channels;
+
+  if (count !== channels) {
+    return null;
+  }
+
+  switch (count) {
+    case 1:
+      return "DeviceGray";
+    case 3:
+      return "DeviceRGB";
+    case 4:
+      return "DeviceCMYK";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Write a plane into an interleaved 8-bit image, upsampling subsampled
+ * components.
+ */
+function writeChannel(
+  plane: Plane,
+  imageX0: number,
+  imageY0: number,
+  width: number,
+  height: number,
+  target: Uint8Array,
+  channel: number,
+  channels: number,
+): void {
+  const columns = new Int32Array(width);
+
+  for (let x = 0; x < width; x++) {
+    columns[x] = clamp(Math.floor((imageX0 + x) / plane.dx) - plane.x0, plane.width - 1);
+  }
+
+  const scale = to8Bit(plane.precision);
+
+  for (let y = 0; y < height; y++) {
+    const row =
+      clamp(Math.floor((imageY0 + y) / plane.dy) - plane.y0, plane.height - 1) * plane.width;
+    let out = y * width * channels + channel;
+
+    for (let x = 0; x < width; x++) {
+      target[out] = scale(plane.data[row + columns[x]]);
+      out += channels;
+    }
+  }
+}
+
+function to8Bit(precision: number): (value: number) => number {
+  if (precision === 8) {
+    return value => value;
+  }
+
+  if (precision > 8) {
+    const shift = precision - 8;
+
+    return value => value >> shift;
+  }
+
+  const factor = 255 / (2 ** precision - 1);
+
+  return value => Math.round(value * factor);
+}
+
+function clamp(value: number, max: number): number {
+  return value < 0 ? 0 : value > max ? max : value;
+}
+
+/**
+ * Convert sYCC samples to sRGB in place.
+ */
+function convertYccToRgb(pixels: Uint8Array): void {
+  for (let i = 0; i + 2 < pixels.length; i += 3) {
+    const y = pixels[i];
+    const cb = pixels[i + 1] - 128;
+    const cr = pixels[i + 2] - 128;
+
+    // Uint8Array assignment wraps out-of-range values, so clamp explicitly
+    pixels[i] = clampByte(y + 1.402 * cr);
+    pixels[i + 1] = clampByte(y - 0.344136 * cb - 0.714136 * cr);
+    pixels[i + 2] = clampByte(y + 1.772 * cb);
+  }
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
@@ -0,0 +1,214 @@
+/**
+ * JP2 file format boxes (T.800 Annex I).
+ *
+ * A JP2 file wraps the codestream in boxes; the header box describes how
+ * the decoded components become colour and opacity channels: colour
+ * space, palette, component mapping and channel definitions.
+ */
+
+import { readUint16, readUint32 } from "./codestream";
+
+/**
+ * Enumerated colour spaces (Table I.10, and T.801 Table M.25).
+ */
+export const EnumeratedColorSpace = {
+  CMYK: 12,
+  sRGB: 16,
+  Greyscale: 17,
+  sYCC: 18,
+  eSRGB: 20,
+  ROMMRGB: 21,
+} as const;
+
+/**
+ * Channel types in a channel definition box (Table I.16).
+ */
+export const ChannelType = {
+  Color: 0,
+  Opacity: 1,
+  PremultipliedOpacity: 2,
+} as const;
+
+/**
+ * Palette from a `pclr` box: `values[entry * columns.length + column]`.
+ */
+export interface Jp2Palette {
+  entries: number;
+  columns: { precision: number; signed: boolean }[];
+  values: Int32Array;
+}
+
+/**
+ * What the JP2 header says about the image's channels.
+ */
+export interface Jp2Header {
+  /** Enumerated colour space, if the `colr` box has one */
+  colorSpace?: number;
+
+  /** ICC profile, if the `colr` box has one instead */
+  iccProfile?: Uint8Array;
+  palette?: Jp2Palette;
+
+  /** Component mapping (`cmap`): palette column, or -1 for a direct component */
+  mapping?: { component: number; column: number }[];
+
+  /** Channel definitions (`cdef`) */
+  channels?: { index: number; type: number; association: number }[];
+}
+
+const BoxType = {
+  Header: 0x6a703268,
+  ColorSpecification: 0x636f6c72,
+  Palette: 0x70636c72,
+  ComponentMapping: 0x636d6170,
+  ChannelDefinition: 0x63646566,
+  Codestream: 0x6a703263,
+} as const;
+
+/**
+ * Split JPX data into its codestream and JP2 header. Raw codestreams,
+ * with no boxes, have no header.
+ */
+export function readJp2(data: Uint8Array): { codestream: Uint8Array; header: Jp2Header | null } {
+  if (data.length >= 2 && data[0] === 0xff && data[1] === 0x4f) {
+    return { codestream: data, header: null };
+  }
+
+  let header: Jp2Header | null = null;
+  let codestream: Uint8Array | undefined;
+
+  for (const box of readBoxes(data, 0, data.length)) {
+    if (box.type === BoxType.Header) {
+      header = readHeader(data, box.start, box.end);
+    } else if (box.type === BoxType.Codestream && !codestream) {
+      codestream = data.subarray(box.start, box.end);
+    }
+  }
+
+  if (!codestream) {
+    throw new Error("JPXDecode: No codestream found");
+  }
+
+  return { codestream, header };
+}
+
+interface Box {
+  type: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * The boxes in a range, with the bounds of their contents.
+ */
+function readBoxes(data: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let position = start;
+
+  while (position + 8 <= end) {
+    let length = readUint32(data, position);
+    const type = readUint32(data, position + 4);
+    let headerLength = 8;
+
+    if (length === 1) {
+      // 64-bit length; anything past 2^53 is beyond any real file
+      length = readUint32(data, position + 8) * 2 ** 32 + readUint32(data, position + 12);
+      headerLength = 16;
+    } else if (length === 0) {
+      // The last box runs to the end
+      length = end - position;
+    }
+
+    if (length < headerLength) {
+      throw new Error("JPXDecode: Invalid box length");
+    }
+
+    boxes.push({ type, start: position + headerLength, end: Math.min(position + length, end) });
+    position += length;
+  }
+
+  return boxes;
+}
+
+function readHeader(data: Uint8Array, start: number, end: number): Jp2Header {
+  const header: Jp2Header = {};
+
+  for (const box of readBoxes(data, start, end)) {
+    const content = data.subarray(box.start, box.end);
+
+    switch (box.type) {
+      case BoxType.ColorSpecification:
+        // Only the first colour specification counts
+        if (header.colorSpace === undefined && !header.iccProfile) {
+          if (content[0] === 1) {
+            header.colorSpace = readUint32(content, 3);
+          } else if (content[0] === 2 || content[0] === 3) {
+            header.iccProfile = content.subarray(3);
+          }
+        }
+        break;
+
+      case BoxType.Palette:
+        header.palette = readPalette(content);
+        break;
+
+      case BoxType.ComponentMapping:
+        header.mapping = [];
+
+        for (let i = 0; i + 4 <= content.length; i += 4) {
+          header.mapping.push({
+            component: readUint16(content, i),
+            column: content[i + 2] === 1 ? content[i + 3] : -1,
+          });
+        }
+        break;
+
+      case BoxType.ChannelDefinition: {
+        const count = readUint16(content, 0);
+
+        header.channels = [];
+
+        for (let i = 0; i < count; i++) {
+          header.channels.push({
+            index: readUint16(content, 2 + i * 6),
+            type: readUint16(content, 4 + i * 6),
+            association: readUint16(content, 6 + i * 6),
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return header;
+}
+
+function readPalette(content: Uint8Array): Jp2Palette {
+  const entries = readUint16(content, 0);
+  const columnCount = content[2];
+  const columns: Jp2Palette["columns"] = [];
+
+  for (let i = 0; i < columnCount; i++) {
+    const depth = content[3 + i];
+
+    columns.push({ precision: (depth & 0x7f) + 1, signed: (depth & 0x80) !== 0 });
+  }
+
+  const values = new Int32Array(entries * columnCount);
+  let position = 3 + columnCount;
+
+  for (let entry = 0; entry < entries; entry++) {
+    for (let column = 0; column < columnCount; column++) {
+      const bytes = Math.ceil(columns[column].precision / 8);
+      let value = 0;
+
+      for (let i = 0; i < bytes; i++) {
+        value = value * 256 + (content[position++] ?? 0);
+      }
+
+      values[entry * columnCount + column] = value;
+    }
+  }
+
+  return { entries, columns, values };
+}
@@ -0,0 +1,538 @@
+/**
+ * JPEG 2000 tier-1 decoding: code-block bit-planes (T.800 Annex D).
+ *
+ * Each code-block is coded independently, most significant bit-plane
+ * first, in three passes per bit-plane (significance propagation,
+ * magnitude refinement and cleanup) over stripes four rows high. Passes
+ * are arithmetic coded with the MQ coder, or, in bypass mode, the first
+ * two passes of the lower bit-planes are stored raw.
+ */
+
+import { MQDecoder } from "../mq-decoder";
+import { BlockStyle } from "./codestream";
+
+/**
+ * Subband orientations, which select the zero coding contexts.
+ */
+export const SubbandType = {
+  LL: 0,
+  HL: 1,
+  LH: 2,
+  HH: 3,
+} as const;
+
+export type SubbandType = (typeof SubbandType)[keyof typeof SubbandType];
+
+/**
+ * A codeword segment: the data of one or more coding passes, coded with
+ * one MQ decoder run or stored raw.
+ */
+export interface CodewordSegment {
+  data: Uint8Array;
+  passes: number;
+  raw: boolean;
+}
+
+/**
+ * Parameters for decoding one code-block.
+ */
+export interface CodeBlockParams {
+  width: number;
+  height: number;
+  subband: SubbandType;
+
+  /** Number of bit-planes coded, from the most significant non-zero one */
+  bitPlanes: number;
+
+  /** Combination of `BlockStyle` flags */
+  blockStyle: number;
+  segments: CodewordSegment[];
+}
+
+/**
+ * Decoded code-block coefficients.
+ */
+export interface CodeBlockCoefficients {
+  /** Quantization indices, with sign */
+  values: Int32Array;
+
+  /** How many of the bit-planes were decoded for each coefficient */
+  planesDecoded: Uint8Array;
+}
+
+// Context labels (Table D.7)
+const UNIFORM_CONTEXT = 18;
+const RUN_LENGTH_CONTEXT = 17;
+const REFINEMENT_CONTEXT = 14;
+
+// Coefficient state flags
+const SIGNIFICANT = 1;
+const NEGATIVE = 2;
+const REFINED = 4;
+
+/** Coded in this bit-plane's significance propagation pass */
+const CODED = 8;
+
+const Pass = {
+  SignificancePropagation: 0,
+  MagnitudeRefinement: 1,
+  Cleanup: 2,
+} as const;
+
+/**
+ * Zero coding contexts (Table D.1) for LL and LH subbands, HL subbands
+ * and HH subbands, indexed by `h * 15 + v * 5 + d`: the number of
+ * significant horizontal, vertical and diagonal neighbours.
+ */
+const ZERO_CONTEXTS = buildZeroContexts();
+
+function buildZeroContexts(): Uint8Array[] {
+  const lowHigh = new Uint8Array(45);
+  const highLow = new Uint8Array(45);
+  const highHigh = new Uint8Array(45);
+
+  const primary = (h: number, v: number, d: number) => {
+    if (h === 2) {
+      return 8;
+    }
+
+    if (h === 1) {
+      return v >= 1 ? 7 : d >= 1 ? 6 : 5;
+    }
+
+    return v === 2 ? 4 : v === 1 ? 3 : d >= 2 ? 2 : d;
+  };
+
+  for (let h = 0; h <= 2; h++) {
+    for (let v = 0; v <= 2; v++) {
+      for (let d = 0; d <= 4; d++) {
+        const index = h * 15 + v * 5 + d;
+        const hv = h + v;
+
+        lowHigh[index] = primary(h, v, d);
+        highLow[index] = primary(v, h, d);
+
+        if (d >= 3) {
+          highHigh[index] = 8;
+        } else if (d === 2) {
+          highHigh[index] = hv >= 1 ? 7 : 6;
+        } else if (d === 1) {
+          highHigh[index] = hv >= 2 ? 5 : hv === 1 ? 4 : 3;
+        } else {
+          highHigh[index] = hv >= 2 ? 2 : hv;
+        }
+      }
+    }
+  }
+
+  return [lowHigh, highLow, lowHigh, highHigh];
+}
+
+/**
+ * Sign coding context and XOR bit (Table D.3), indexed by
+ * `(horizontal + 1) * 3 + (vertical + 1)` for contributions of -1, 0, 1.
+ */
+const SIGN_CONTEXTS: [context: number, xor: number][] = [
+  [13, 1],
+  [12, 1],
+  [11, 1],
+  [10, 1],
+  [9, 0],
+  [10, 0],
+  [11, 0],
+  [12, 0],
+  [13, 0],
+];
+
+/**
+ * Decode a code-block's coefficients (D.3 - D.5).
+ */
+export function decodeCodeBlock(params: CodeBlockParams): CodeBlockCoefficients {
+  return new CodeBlockDecoder(params).decode();
+}
+
+/**
+ * Where pass bits come from: the MQ decoder, or raw bits.
+ */
+interface BitSource {
+  readBit(contexts: Int8Array, index: number): number;
+}
+
+/**
+ * Raw (bypass) bits, with a stuffed zero bit after each 0xFF byte (D.6).
+ * Contexts are ignored.
+ */
+class RawBitReader implements BitSource {
+  private position = 0;
+  private byte = 0;
+  private bitsLeft = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  readBit(_contexts: Int8Array, _index: number): number {
+    if (this.bitsLeft === 0) {
+      const stuffed = this.byte === 0xff;
+
+      this.byte = this.position < this.data.length ? this.data[this.position] : 0xff;
+      this.position++;
+      this.bitsLeft = stuffed ? 7 : 8;
+    }
+
+    this.bitsLeft--;
+
+    return (this.byte >> this.bitsLeft) & 1;
+  }
+}
+
+class CodeBlockDecoder {
+  private readonly width: number;
+  private readonly height: number;
+
+  /** Row length of the state arrays, which have a one-coefficient border */
+  private readonly stride: number;
+  private readonly flags: Uint8Array;
+  private readonly magnitudes: Int32Array;
+  private readonly planes: Uint8Array;
+  private readonly zeroContexts: Uint8Array;
+  private readonly contexts = new Int8Array(19);
+  private readonly verticallyCausal: boolean;
+
+  private source: BitSource = new RawBitReader(new Uint8Array(0));
+  private raw = false;
+
+  constructor(private readonly params: CodeBlockParams) {
+    this.width = params.width;
+    this.height = params.height;
+    this.stride = params.width + 2;
+
+    const size = this.stride * (params.height + 2);
+
+    this.flags = new Uint8Array(size);
+    this.magnitudes = new Int32Array(size);
+    this.planes = new Uint8Array(size);
+    this.zeroContexts = ZERO_CONTEXTS[params.subband];
+    this.verticallyCausal = (params.blockStyle & BlockStyle.VerticallyCausal) !== 0;
+
+    this.resetContexts();
+  }
+
+  decode(): CodeBlockCoefficients {
+    const { bitPlanes, blockStyle, segments } = this.params;
+
+    if (bitPlanes > 31) {
+      throw new Error("JPXDecode: Too many bit-planes in code-block");
+    }
+
+    let pass: number = Pass.Cleanup;
+    let bitPlane = bitPlanes - 1;
+
+    for (const segment of segments) {
+      this.source = segment.raw ? new RawBitReader(segment.data) : new MQDecoder(segment.data);
+      this.raw = segment.raw;
+
+      for (let i = 0; i < segment.passes && bitPlane >= 0; i++) {
+        if (pass === Pass.SignificancePropagation) {
+          this.significancePass(bitPlane);
+        } else if (pass === Pass.MagnitudeRefinement) {
+          this.refinementPass(bitPlane);
+        } else {
+          this.cleanupPass(bitPlane);
+        }
+
+        if (blockStyle & BlockStyle.Reset) {
+          this.resetContexts();
+        }
+
+        if (pass === Pass.Cleanup) {
+          pass = Pass.SignificancePropagation;
+          bitPlane--;
+          this.clearCoded();
+        } else {
+          pass++;
+        }
+      }
+    }
+
+    return this.result();
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Passes
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private significancePass(bitPlane: number): void {
+    const { flags } = this;
+
+    this.forEachInStripes((index, y) => {
+      if (flags[index] & SIGNIFICANT) {
+        return;
+      }
+
+      const context = this.zeroContext(index, y);
+
+      // Only coefficients with a significant neighbour are coded here
+      if (context === 0) {
+        return;
+      }
+
+      flags[index] |= CODED;
+      this.planes[index]++;
+
+      if (this.decodeBit(context)) {
+        this.becomeSignificant(index, y, bitPlane);
+      }
+    });
+  }
+
+  private refinementPass(bitPlane: number): void {
+    const { flags } = this;
+
+    this.forEachInStripes((index, y) => {
+      if ((flags[index] & (SIGNIFICANT | CODED)) !== SIGNIFICANT) {
+        return;
+      }
+
+      let context = REFINEMENT_CONTEXT + 2;
+
+      if (!(flags[index] & REFINED)) {
+        context = this.hasSignificantNeighbour(index, y)
+          ? REFINEMENT_CONTEXT + 1
+          : REFINEMENT_CONTEXT;
+      }
+
+      if (this.decodeBit(context)) {
+        this.magnitudes[index] |= 1 << bitPlane;
+      }
+
+      flags[index] |= REFINED;
+      this.planes[index]++;
+    });
+  }
+
+  private cleanupPass(bitPlane: number): void {
+    const { width, height, stride, flags } = this;
+
+    for (let y0 = 0; y0 < height; y0 += 4) {
+      const rows = Math.min(4, height - y0);
+
+      for (let x = 0; x < width; x++) {
+        const top = (y0 + 1) * stride + x + 1;
+        let y = y0;
+
+        // Run-length mode: a full column of four uncoded coefficients with
+        // no significant neighbours
+        if (rows === 4 && this.canRunLength(top, y0)) {
+          if (!this.decodeBit(RUN_LENGTH_CONTEXT)) {
+            for (let k = 0; k < 4; k++) {
+              this.planes[top + k * stride]++;
+            }
+
+            continue;
+          }
+
+          const run = (this.decodeBit(UNIFORM_CONTEXT) << 1) | this.decodeBit(UNIFORM_CONTEXT);
+
+          for (let k = 0; k < run; k++) {
+            this.planes[top + k * stride]++;
+          }
+
+          const index = top + run * stride;
+
+          this.planes[index]++;
+          this.becomeSignificant(index, y0 + run, bitPlane);
+          y = y0 + run + 1;
+        }
+
+        for (; y < y0 + rows; y++) {
+          const index = top + (y - y0) * stride;
+
+          if (flags[index] & (SIGNIFICANT | CODED)) {
+            continue;
+          }
+
+          this.planes[index]++;
+
+          if (this.decodeBit(this.zeroContext(index, y))) {
+            this.becomeSignificant(index, y, bitPlane);
+          }
+        }
+      }
+    }
+
+    if (this.params.blockStyle & BlockStyle.SegmentationSymbols) {
+      // Four bits, 1010, that only serve for error detection
+      for (let i = 0; i < 4; i++) {
+        this.decodeBit(UNIFORM_CONTEXT);
+      }
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helpers
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Visit coefficients in stripe order: stripes of four rows, column by
+   * column within a stripe.
+   */
+  private forEachInStripes(visit: (index: number, y: number) => void): void {
+    const { width, height, stride } = this;
+
+    for (let y0 = 0; y0 < height; y0 += 4) {
+      const y1 = Math.min(y0 + 4, height);
+
+      for (let x = 0; x < width; x++) {
+        for (let y = y0; y < y1; y++) {
+          visit((y + 1) * stride + x + 1, y);
+        }
+      }
+    }
+  }
+
+  private decodeBit(context: number): number {
+    return this.source.readBit(this.contexts, context);
+  }
+
+  private becomeSignificant(index: number, y: number, bitPlane: number): void {
+    let negative: number;
+
+    if (this.raw) {
+      negative = this.decodeBit(0);
+    } else {
+      const [context, xor] = this.signContext(index, y);
+
+      negative = this.decodeBit(context) ^ xor;
+    }
+
+    this.flags[index] |= negative ? SIGNIFICANT | NEGATIVE : SIGNIFICANT;
+    this.magnitudes[index] |= 1 << bitPlane;
+  }
+
+  /**
+   * Whether neighbours below the coefficient count: in vertically causal
+   * mode, the next stripe is treated as insignificant.
+   */
+  private usesBelow(y: number): boolean {
+    return !(this.verticallyCausal && (y & 3) === 3);
+  }
+
+  private zeroContext(index: number, y: number): number {
+    const { flags, stride } = this;
+    const above = index - stride;
+    const below = index + stride;
+    const usesBelow = this.usesBelow(y);
+
+    const h = (flags[index - 1] & SIGNIFICANT) + (flags[index + 1] & SIGNIFICANT);
+    let v = flags[above] & SIGNIFICANT;
+    let d = (flags[above - 1] & SIGNIFICANT) + (flags[above + 1] & SIGNIFICANT);
+
+    if (usesBelow) {
+      v += flags[below] & SIGNIFICANT;
+      d += (flags[below - 1] & SIGNIFICANT) + (flags[below + 1] & SIGNIFICANT);
+    }
+
+    return this.zeroContexts[h * 15 + v * 5 + d];
+  }
+
+  private hasSignificantNeighbour(index: number, y: number): boolean {
+    const { flags, stride } = this;
+    const above = index - stride;
+
+    if (
+      (flags[index - 1] | flags[index + 1] | flags[above - 1] | flags[above] | flags[above + 1]) &
+      SIGNIFICANT
+    ) {
+      return true;
+    }
+
+    if (!this.usesBelow(y)) {
+      return false;
+    }
+
+    const below = index + stride;
+
+    return ((flags[below - 1] | flags[below] | flags[below + 1]) & SIGNIFICANT) !== 0;
+  }
+
+  private canRunLength(top: number, y0: number): boolean {
+    const { flags, stride } = this;
+
+    for (let k = 0; k < 4; k++) {
+      const index = top + k * stride;
+
+      if (flags[index] & (SIGNIFICANT | CODED) || this.hasSignificantNeighbour(index, y0 + k)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private signContext(index: number, y: number): [context: number, xor: number] {
+    const { stride } = this;
+
+    const horizontal = clampContribution(
+      this.contribution(index - 1) + this.contribution(index + 1),
+    );
+    const vertical = clampContribution(
+      this.contribution(index - stride) +
+        (this.usesBelow(y) ? this.contribution(index + stride) : 0),
+    );
+
+    return SIGN_CONTEXTS[(horizontal + 1) * 3 + vertical + 1];
+  }
+
+  /**
+   * A neighbour's sign contribution: 1 if significant and positive, -1 if
+   * significant and negative, 0 otherwise.
+   */
+  private contribution(index: number): number {
+    const state = this.flags[index];
+
+    if (!(state & SIGNIFICANT)) {
+      return 0;
+    }
+
+    return state & NEGATIVE ? -1 : 1;
+  }
+
+  private clearCoded(): void {
+    const { flags } = this;
+
+    for (let i = 0; i < flags.length; i++) {
+      flags[i] &= ~CODED;
+    }
+  }
+
+  private resetContexts(): void {
+    const { contexts } = this;
+
+    // All contexts start in state 0, except these (Table D.7)
+    contexts.fill(0);
+    contexts[0] = 4 << 1;
+    contexts[RUN_LENGTH_CONTEXT] = 3 << 1;
+    contexts[UNIFORM_CONTEXT] = 46 << 1;
+  }
+
+  private result(): CodeBlockCoefficients {
+    const { width, height, stride } = this;
+    const values = new Int32Array(width * height);
+    const planesDecoded = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = (y + 1) * stride + x + 1;
+        const magnitude = this.magnitudes[index];
+
+        values[y * width + x] = this.flags[index] & NEGATIVE ? -magnitude : magnitude;
+        planesDecoded[y * width + x] = this.planes[index];
+      }
+    }
+
+    return { values, planesDecoded };
+  }
+}
+
+function clampContribution(value: number): number {
+  return value > 1 ? 1 : value < -1 ? -1 : value;
+}
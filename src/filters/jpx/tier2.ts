@@ -0,0 +1,779 @@
+/**
+ * JPEG 2000 tier-2 decoding: packets (T.800 Annex B).
+ *
+ * A tile-component is split into resolution levels, each into subbands,
+ * precincts and code-blocks. The tile's data is a sequence of packets, one
+ * per layer, resolution, component and precinct in the tile's progression
+ * order; each packet header says which code-blocks contribute how many
+ * coding passes, and the body holds their bytes.
+ */
+
+import { concatBytes } from "#src/helpers/buffer";
+
+import {
+  BlockStyle,
+  type CodingStyle,
+  type ComponentCodingStyle,
+  ProgressionOrder,
+} from "./codestream";
+import { type CodewordSegment, SubbandType } from "./tier1";
+
+/**
+ * A code-block's position in its subband, and the coding passes
+ * collected from packets so far.
+ */
+export interface CodeBlock {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+
+  included: boolean;
+  zeroBitPlanes: number;
+
+  /** Lblock: bits in the segment length fields */
+  lengthBits: number;
+  passes: number;
+  segments: PendingSegment[];
+}
+
+/**
+ * A codeword segment being collected, possibly across several layers.
+ */
+interface PendingSegment {
+  chunks: Uint8Array[];
+  passes: number;
+  maxPasses: number;
+  raw: boolean;
+}
+
+export interface Subband {
+  type: SubbandType;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  codeBlocks: CodeBlock[];
+}
+
+/**
+ * The code-blocks of one subband within a precinct, with the tag trees
+ * their packet headers use.
+ */
+interface PrecinctBand {
+  codeBlocks: CodeBlock[];
+  inclusion: TagTree;
+  zeroBitPlanes: TagTree;
+}
+
+interface Precinct {
+  bands: PrecinctBand[];
+}
+
+export interface Resolution {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+
+  /** Precinct size exponents */
+  ppx: number;
+  ppy: number;
+  precinctsWide: number;
+  precinctsHigh: number;
+  precincts: Precinct[];
+
+  /** LL for the lowest resolution; HL, LH and HH for the others */
+  subbands: Subband[];
+}
+
+/**
+ * A component's part of a tile.
+ */
+export interface TileComponent {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+
+  /** Component subsampling */
+  dx: number;
+  dy: number;
+  style: ComponentCodingStyle;
+  resolutions: Resolution[];
+}
+
+/**
+ * Bounds of a tile on the reference grid.
+ */
+export interface TileBounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Split a tile-component into resolutions, subbands, precincts and
+ * code-blocks (B.5 - B.7).
+ */
+export function buildTileComponent(
+  bounds: TileBounds,
+  dx: number,
+  dy: number,
+  style: ComponentCodingStyle,
+): TileComponent {
+  const component: TileComponent = {
+    x0: Math.ceil(bounds.x0 / dx),
+    y0: Math.ceil(bounds.y0 / dy),
+    x1: Math.ceil(bounds.x1 / dx),
+    y1: Math.ceil(bounds.y1 / dy),
+    dx,
+    dy,
+    style,
+    resolutions: [],
+  };
+
+  for (let r = 0; r <= style.levels; r++) {
+    component.resolutions.push(buildResolution(component, r));
+  }
+
+  return component;
+}
+
+function buildResolution(component: TileComponent, r: number): Resolution {
+  const { style } = component;
+  const scale = 2 ** (style.levels - r);
+  const [ppx, ppy] = style.precincts[r];
+
+  const resolution: Resolution = {
+    x0: Math.ceil(component.x0 / scale),
+    y0: Math.ceil(component.y0 / scale),
+    x1: Math.ceil(component.x1 / scale),
+    y1: Math.ceil(component.y1 / scale),
+    ppx,
+    ppy,
+    precinctsWide: 0,
+    precinctsHigh: 0,
+    precincts: [],
+    subbands: [],
+  };
+
+  if (resolution.x1 > resolution.x0 && resolution.y1 > resolution.y0) {
+    resolution.precinctsWide =
+      Math.ceil(resolution.x1 / 2 ** ppx) - Math.floor(resolution.x0 / 2 ** ppx);
+    resolution.precinctsHigh =
+      Math.ceil(resolution.y1 / 2 ** ppy) - Math.floor(resolution.y0 / 2 ** ppy);
+  }
+
+  const types = r === 0 ? [SubbandType.LL] : [SubbandType.HL, SubbandType.LH, SubbandType.HH];
+
+  // Subbands of level n lie on a grid 2^n coarser than the tile-component
+  const level = r === 0 ? style.levels : style.levels - r + 1;
+
+  for (const type of types) {
+    const xOffset = type === SubbandType.HL || type === SubbandType.HH ? 2 ** (level - 1) : 0;
+    const yOffset = type === SubbandType.LH || type === SubbandType.HH ? 2 ** (level - 1) : 0;
+
+    resolution.subbands.push({
+      type,
+      x0: Math.ceil((component.x0 - xOffset) / 2 ** level),
+      y0: Math.ceil((component.y0 - yOffset) / 2 ** level),
+      x1: Math.ceil((component.x1 - xOffset) / 2 ** level),
+      y1: Math.ceil((component.y1 - yOffset) / 2 ** level),
+      codeBlocks: [],
+    });
+  }
+
+  // Precincts map to half-size regions in the subbands above the lowest
+  // resolution, and code-blocks never cross them
+  const bandPpx = r === 0 ? ppx : Math.max(ppx - 1, 0);
+  const bandPpy = r === 0 ? ppy : Math.max(ppy - 1, 0);
+  const cbw = Math.min(style.codeBlockWidth, bandPpx);
+  const cbh = Math.min(style.codeBlockHeight, bandPpy);
+  const firstPx = Math.floor(resolution.x0 / 2 ** ppx);
+  const firstPy = Math.floor(resolution.y0 / 2 ** ppy);
+
+  for (let py = 0; py < resolution.precinctsHigh; py++) {
+    for (let px = 0; px < resolution.precinctsWide; px++) {
+      const precinct: Precinct = { bands: [] };
+
+      for (const subband of resolution.subbands) {
+        const x0 = Math.max(subband.x0, (firstPx + px) * 2 ** bandPpx);
+        const y0 = Math.max(subband.y0, (firstPy + py) * 2 ** bandPpy);
+        const x1 = Math.min(subband.x1, (firstPx + px + 1) * 2 ** bandPpx);
+        const y1 = Math.min(subband.y1, (firstPy + py + 1) * 2 ** bandPpy);
+
+        precinct.bands.push(buildPrecinctBand(subband, x0, y0, x1, y1, cbw, cbh));
+      }
+
+      resolution.precincts.push(precinct);
+    }
+  }
+
+  return resolution;
+}
+
+function buildPrecinctBand(
+  subband: Subband,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  cbw: number,
+  cbh: number,
+): PrecinctBand {
+  const codeBlocks: CodeBlock[] = [];
+  let width = 0;
+  let height = 0;
+
+  if (x1 > x0 && y1 > y0) {
+    const cx0 = Math.floor(x0 / 2 ** cbw);
+    const cy0 = Math.floor(y0 / 2 ** cbh);
+
+    width = Math.ceil(x1 / 2 ** cbw) - cx0;
+    height = Math.ceil(y1 / 2 ** cbh) - cy0;
+
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        const codeBlock: CodeBlock = {
+          x0: Math.max(x0, (cx0 + i) * 2 ** cbw),
+          y0: Math.max(y0, (cy0 + j) * 2 ** cbh),
+          x1: Math.min(x1, (cx0 + i + 1) * 2 ** cbw),
+          y1: Math.min(y1, (cy0 + j + 1) * 2 ** cbh),
+          included: false,
+          zeroBitPlanes: 0,
+          lengthBits: 3,
+          passes: 0,
+          segments: [],
+        };
+
+        codeBlocks.push(codeBlock);
+        subband.codeBlocks.push(codeBlock);
+      }
+    }
+  }
+
+  return {
+    codeBlocks,
+    inclusion: new TagTree(width, height),
+    zeroBitPlanes: new TagTree(width, height),
+  };
+}
+
+/**
+ * A code-block's codeword segments, ready for tier-1 decoding.
+ */
+export function getCodewordSegments(codeBlock: CodeBlock): CodewordSegment[] {
+  return codeBlock.segments.map(segment => ({
+    data: segment.chunks.length === 1 ? segment.chunks[0] : concatBytes(segment.chunks),
+    passes: segment.passes,
+    raw: segment.raw,
+  }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Packets
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read all packets of a tile, collecting code-block data (B.9, B.10).
+ *
+ * Truncated data ends decoding early; the code-blocks keep what they have.
+ */
+export function readPackets(
+  data: Uint8Array,
+  components: TileComponent[],
+  coding: CodingStyle,
+  bounds: TileBounds,
+): void {
+  let position = 0;
+
+  for (const [layer, r, c, k] of packetOrder(components, coding, bounds)) {
+    if (position >= data.length) {
+      break;
+    }
+
+    const component = components[c];
+    const precinct = component.resolutions[r].precincts[k];
+
+    position = readPacket(data, position, precinct, layer, coding, component.style.blockStyle);
+  }
+}
+
+function readPacket(
+  data: Uint8Array,
+  start: number,
+  precinct: Precinct,
+  layer: number,
+  coding: CodingStyle,
+  blockStyle: number,
+): number {
+  let position = start;
+
+  // Start of packet marker segment
+  if (coding.usesSop && data[position] === 0xff && data[position + 1] === 0x91) {
+    position += 6;
+  }
+
+  const header = new PacketHeaderReader(data, position);
+  const contributions: { codeBlock: CodeBlock; segment: PendingSegment; length: number }[] = [];
+
+  // An empty packet has just a zero bit
+  if (header.readBit()) {
+    for (const band of precinct.bands) {
+      band.codeBlocks.forEach((codeBlock, index) => {
+        const x = index % band.inclusion.width;
+        const y = Math.floor(index / band.inclusion.width);
+        let included: boolean;
+
+        if (codeBlock.included) {
+          included = header.readBit() === 1;
+        } else {
+          included = band.inclusion.decode(header, x, y, layer + 1);
+        }
+
+        if (!included) {
+          return;
+        }
+
+        if (!codeBlock.included) {
+          codeBlock.included = true;
+          codeBlock.zeroBitPlanes = band.zeroBitPlanes.decodeValue(header, x, y);
+        }
+
+        const passes = readPassCount(header);
+
+        while (header.readBit()) {
+          codeBlock.lengthBits++;
+        }
+
+        for (const [segment, segmentPasses] of addPasses(codeBlock, passes, blockStyle)) {
+          const length = header.readBits(
+            codeBlock.lengthBits + Math.floor(Math.log2(segmentPasses)),
+          );
+
+          contributions.push({ codeBlock, segment, length });
+        }
+      });
+    }
+  }
+
+  position = header.align();
+
+  // End of packet header marker
+  if (coding.usesEph && data[position] === 0xff && data[position + 1] === 0x92) {
+    position += 2;
+  }
+
+  for (const { segment, length } of contributions) {
+    segment.chunks.push(data.subarray(position, Math.min(position + length, data.length)));
+    position += length;
+  }
+
+  return position;
+}
+
+/**
+ * Number of new coding passes (Table B.4).
+ */
+function readPassCount(header: PacketHeaderReader): number {
+  if (!header.readBit()) {
+    return 1;
+  }
+
+  if (!header.readBit()) {
+    return 2;
+  }
+
+  let value = header.readBits(2);
+
+  if (value < 3) {
+    return 3 + value;
+  }
+
+  value = header.readBits(5);
+
+  if (value < 31) {
+    return 6 + value;
+  }
+
+  return 37 + header.readBits(7);
+}
+
+/**
+ * Add passes to a code-block, continuing its open codeword segment and
+ * starting new ones where the code-block style ends them.
+ *
+ * @returns Each segment that received passes, with how many
+ */
+function addPasses(
+  codeBlock: CodeBlock,
+  passes: number,
+  blockStyle: number,
+): [PendingSegment, number][] {
+  const added: [PendingSegment, number][] = [];
+  let remaining = passes;
+
+  while (remaining > 0) {
+    let segment = codeBlock.segments.at(-1);
+
+    if (!segment || segment.passes === segment.maxPasses) {
+      segment = { chunks: [], passes: 0, ...segmentLimits(codeBlock.passes, blockStyle) };
+      codeBlock.segments.push(segment);
+    }
+
+    const count = Math.min(remaining, segment.maxPasses - segment.passes);
+
+    segment.passes += count;
+    codeBlock.passes += count;
+    remaining -= count;
+    added.push([segment, count]);
+  }
+
+  return added;
+}
+
+/**
+ * Length and coding of a codeword segment starting at a pass (D.4.1, Table D.9).
+ */
+function segmentLimits(firstPass: number, blockStyle: number): { maxPasses: number; raw: boolean } {
+  const bypass = (blockStyle & BlockStyle.Bypass) !== 0;
+  const terminateAll = (blockStyle & BlockStyle.TerminateAll) !== 0;
+
+  // With bypass, the significance and refinement passes after the first
+  // ten passes (four bit-planes) are raw, and the cleanup passes coded
+  const raw = bypass && firstPass >= 10 && (firstPass - 10) % 3 !== 2;
+
+  if (terminateAll) {
+    return { maxPasses: 1, raw };
+  }
+
+  if (!bypass) {
+    return { maxPasses: Infinity, raw };
+  }
+
+  if (firstPass < 10) {
+    return { maxPasses: 10 - firstPass, raw };
+  }
+
+  return { maxPasses: raw ? 2 : 1, raw };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Progression
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Packets in progression order, as [layer, resolution, component, precinct]
+ * (B.12).
+ */
+function* packetOrder(
+  components: TileComponent[],
+  coding: CodingStyle,
+  bounds: TileBounds,
+): Generator<[number, number, number, number]> {
+  const { layers } = coding;
+  const maxLevels = Math.max(...components.map(c => c.style.levels));
+
+  const precinctCount = (c: number, r: number) => {
+    const resolution = components[c].resolutions[r];
+
+    return resolution ? resolution.precincts.length : 0;
+  };
+
+  switch (coding.progression) {
+    case ProgressionOrder.LRCP:
+      for (let l = 0; l < layers; l++) {
+        for (let r = 0; r <= maxLevels; r++) {
+          for (let c = 0; c < components.length; c++) {
+            for (let k = 0; k < precinctCount(c, r); k++) {
+              yield [l, r, c, k];
+            }
+          }
+        }
+      }
+      break;
+
+    case ProgressionOrder.RLCP:
+      for (let r = 0; r <= maxLevels; r++) {
+        for (let l = 0; l < layers; l++) {
+          for (let c = 0; c < components.length; c++) {
+            for (let k = 0; k < precinctCount(c, r); k++) {
+              yield [l, r, c, k];
+            }
+          }
+        }
+      }
+      break;
+
+    case ProgressionOrder.RPCL:
+      for (let r = 0; r <= maxLevels; r++) {
+        for (const [x, y] of positions(components, bounds, [r])) {
+          for (let c = 0; c < components.length; c++) {
+            const k = precinctAt(components[c], r, x, y, bounds);
+
+            for (let l = 0; k >= 0 && l < layers; l++) {
+              yield [l, r, c, k];
+            }
+          }
+        }
+      }
+      break;
+
+    case ProgressionOrder.PCRL:
+      for (const [x, y] of positions(components, bounds, range(maxLevels + 1))) {
+        for (let c = 0; c < components.length; c++) {
+          for (let r = 0; r <= components[c].style.levels; r++) {
+            const k = precinctAt(components[c], r, x, y, bounds);
+
+            for (let l = 0; k >= 0 && l < layers; l++) {
+              yield [l, r, c, k];
+            }
+          }
+        }
+      }
+      break;
+
+    case ProgressionOrder.CPRL:
+      for (let c = 0; c < components.length; c++) {
+        const levels = components[c].style.levels;
+
+        for (const [x, y] of positions([components[c]], bounds, range(levels + 1))) {
+          for (let r = 0; r <= levels; r++) {
+            const k = precinctAt(components[c], r, x, y, bounds);
+
+            for (let l = 0; k >= 0 && l < layers; l++) {
+              yield [l, r, c, k];
+            }
+          }
+        }
+      }
+      break;
+
+    default:
+      throw new Error(`JPXDecode: Invalid progression order ${coding.progression}`);
+  }
+}
+
+/**
+ * Positions on the reference grid where a precinct of the given
+ * resolutions may start, top to bottom and left to right.
+ */
+function* positions(
+  components: TileComponent[],
+  bounds: TileBounds,
+  resolutions: number[],
+): Generator<[number, number]> {
+  let xStep = Infinity;
+  let yStep = Infinity;
+
+  for (const component of components) {
+    for (const r of resolutions) {
+      const resolution = component.resolutions[r];
+
+      if (!resolution) {
+        continue;
+      }
+
+      const scale = 2 ** (component.style.levels - r);
+
+      xStep = Math.min(xStep, component.dx * scale * 2 ** resolution.ppx);
+      yStep = Math.min(yStep, component.dy * scale * 2 ** resolution.ppy);
+    }
+  }
+
+  if (xStep === Infinity) {
+    return;
+  }
+
+  for (let y = bounds.y0; y < bounds.y1; y += yStep - (y % yStep)) {
+    for (let x = bounds.x0; x < bounds.x1; x += xStep - (x % xStep)) {
+      yield [x, y];
+    }
+  }
+}
+
+/**
+ * The precinct of a resolution that starts at a reference grid position,
+ * or -1 (B.12.1.3).
+ */
+function precinctAt(
+  component: TileComponent,
+  r: number,
+  x: number,
+  y: number,
+  bounds: TileBounds,
+): number {
+  const resolution = component.resolutions[r];
+
+  if (!resolution || resolution.precincts.length === 0) {
+    return -1;
+  }
+
+  const scale = 2 ** (component.style.levels - r);
+  const precinctWidth = 2 ** resolution.ppx;
+  const precinctHeight = 2 ** resolution.ppy;
+
+  const startsRow =
+    y % (component.dy * scale * precinctHeight) === 0 ||
+    (y === bounds.y0 && resolution.y0 % precinctHeight !== 0);
+  const startsColumn =
+    x % (component.dx * scale * precinctWidth) === 0 ||
+    (x === bounds.x0 && resolution.x0 % precinctWidth !== 0);
+
+  if (!startsRow || !startsColumn) {
+    return -1;
+  }
+
+  const px =
+    Math.floor(Math.ceil(x / (component.dx * scale)) / precinctWidth) -
+    Math.floor(resolution.x0 / precinctWidth);
+  const py =
+    Math.floor(Math.ceil(y / (component.dy * scale)) / precinctHeight) -
+    Math.floor(resolution.y0 / precinctHeight);
+
+  if (px >= resolution.precinctsWide || py >= resolution.precinctsHigh) {
+    return -1;
+  }
+
+  return px + py * resolution.precinctsWide;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Packet header coding
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Packet header bits, with a stuffed zero bit after each 0xFF byte (B.10.1).
+ */
+class PacketHeaderReader {
+  private byte = 0;
+  private bitsLeft = 0;
+
+  constructor(
+    private readonly data: Uint8Array,
+    private position: number,
+  ) {}
+
+  readBit(): number {
+    if (this.bitsLeft === 0) {
+      const stuffed = this.byte === 0xff;
+
+      this.byte = this.position < this.data.length ? this.data[this.position] : 0;
+      this.position++;
+      this.bitsLeft = stuffed ? 7 : 8;
+    }
+
+    this.bitsLeft--;
+
+    return (this.byte >> this.bitsLeft) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+
+    for (let i = 0; i < count; i++) {
+      value = value * 2 + this.readBit();
+    }
+
+    return value;
+  }
+
+  /**
+   * Finish the header, skipping the stuffed byte after a final 0xFF.
+   *
+   * @returns Position of the packet body
+   */
+  align(): number {
+    if (this.byte === 0xff) {
+      this.position++;
+    }
+
+    this.byte = 0;
+    this.bitsLeft = 0;
+
+    return this.position;
+  }
+}
+
+/**
+ * Tag tree: values on a grid, coded from a quad-tree of minimums (B.10.2).
+ */
+class TagTree {
+  /** Current lower bound of each node, leaves first */
+  private readonly levels: { width: number; values: Int32Array; known: Uint8Array }[] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    let w = width;
+    let h = height;
+
+    for (;;) {
+      this.levels.push({ width: w, values: new Int32Array(w * h), known: new Uint8Array(w * h) });
+
+      if (w <= 1 && h <= 1) {
+        break;
+      }
+
+      w = Math.ceil(w / 2);
+      h = Math.ceil(h / 2);
+    }
+  }
+
+  /**
+   * Decode whether a leaf's value is below a threshold.
+   */
+  decode(reader: PacketHeaderReader, x: number, y: number, threshold: number): boolean {
+    let lowerBound = 0;
+    let known = false;
+    let value = 0;
+
+    for (let level = this.levels.length - 1; level >= 0; level--) {
+      const node = this.levels[level];
+      const index = (y >> level) * node.width + (x >> level);
+
+      if (node.values[index] < lowerBound) {
+        node.values[index] = lowerBound;
+      }
+
+      while (!node.known[index] && node.values[index] < threshold) {
+        if (reader.readBit()) {
+          node.known[index] = 1;
+        } else {
+          node.values[index]++;
+        }
+      }
+
+      value = node.values[index];
+      known = node.known[index] === 1;
+
+      if (!known) {
+        return false;
+      }
+
+      lowerBound = value;
+    }
+
+    return known && value < threshold;
+  }
+
+  /**
+   * Decode a leaf's value in full.
+   */
+  decodeValue(reader: PacketHeaderReader, x: number, y: number): number {
+    this.decode(reader, x, y, Infinity);
+
+    return this.levels[0].values[y * this.levels[0].width + x];
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i);
+}
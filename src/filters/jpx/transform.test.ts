@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+
+import { inverseComponentTransform, inverseWavelet, type SampleRect } from "./transform";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Test-side forward 5/3 transform (F.4.8.1)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function reflect(index: number, length: number): number {
+  const period = 2 * (length - 1);
+  const i = ((index % period) + period) % period;
+
+  return i < length ? i : period - i;
+}
+
+/**
+ * Forward 5/3 transform of one line whose first sample is at `start`.
+ */
+function forwardLine(line: number[], start: number): number[] {
+  if (line.length === 1) {
+    return [start & 1 ? line[0] * 2 : line[0]];
+  }
+
+  const isOdd = (k: number) => ((start + k) & 1) === 1;
+  const at = (k: number) => line[reflect(k, line.length)];
+  const high = (k: number) => at(k) - Math.floor((at(k - 1) + at(k + 1)) / 2);
+
+  return line.map((value, k) => {
+    if (isOdd(k)) {
+      return high(k);
+    }
+
+    const before = high(reflect(k - 1, line.length));
+    const after = high(reflect(k + 1, line.length));
+
+    return value + Math.floor((before + after + 2) / 4);
+  });
+}
+
+/**
+ * One level of forward 5/3 transform: the LL, HL, LH and HH subbands.
+ */
+function forward(
+  samples: number[][],
+  x0: number,
+  y0: number,
+): [ll: SampleRect, hl: SampleRect, lh: SampleRect, hh: SampleRect] {
+  const height = samples.length;
+  const width = samples[0].length;
+  const columns: number[][] = [];
+
+  for (let x = 0; x < width; x++) {
+    const column = samples.map(row => row[x]);
+
+    columns.push(forwardLine(column, y0));
+  }
+
+  const transformed = samples.map((_, y) => {
+    const row = columns.map(column => column[y]);
+
+    return forwardLine(row, x0);
+  });
+
+  const band = (highX: number, highY: number): SampleRect => {
+    const values: number[] = [];
+    let bandWidth = 0;
+    let bandHeight = 0;
+
+    for (let y = 0; y < height; y++) {
+      if (((y0 + y) & 1) !== highY) {
+        continue;
+      }
+
+      bandHeight++;
+      bandWidth = 0;
+
+      for (let x = 0; x < width; x++) {
+        if (((x0 + x) & 1) === highX) {
+          values.push(transformed[y][x]);
+          bandWidth++;
+        }
+      }
+    }
+
+    return { x0: 0, y0: 0, width: bandWidth, height: bandHeight, data: Float32Array.from(values) };
+  };
+
+  return [band(0, 0), band(1, 0), band(0, 1), band(1, 1)];
+}
+
+function randomSamples(width: number, height: number): number[][] {
+  let seed = 12345;
+
+  return Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+
+      return (seed >> 16) % 256;
+    }),
+  );
+}
+
+describe("inverseWavelet", () => {
+  for (const [x0, y0, width, height] of [
+    [0, 0, 8, 8],
+    [3, 5, 7, 6],
+    [1, 0, 9, 1],
+    [2, 1, 1, 5],
+  ]) {
+    it(`reverses the 5/3 transform of a ${width}x${height} block at (${x0}, ${y0})`, () => {
+      const samples = randomSamples(width, height);
+      const [ll, hl, lh, hh] = forward(samples, x0, y0);
+
+      const result = inverseWavelet(
+        ll,
+        [hl, lh, hh],
+        { x0, y0, x1: x0 + width, y1: y0 + height },
+        true,
+      );
+
+      expect(Array.from(result.data)).toEqual(samples.flat());
+    });
+  }
+
+  it("keeps a flat image flat through the 9/7 transform", () => {
+    const zero = (width: number, height: number): SampleRect => ({
+      x0: 0,
+      y0: 0,
+      width,
+      height,
+      data: new Float32Array(width * height),
+    });
+
+    const low = zero(4, 4);
+
+    low.data.fill(100);
+
+    const result = inverseWavelet(
+      low,
+      [zero(4, 4), zero(4, 4), zero(4, 4)],
+      { x0: 0, y0: 0, x1: 8, y1: 8 },
+      false,
+    );
+
+    for (const value of result.data) {
+      expect(value).toBeCloseTo(100, 3);
+    }
+  });
+});
+
+describe("inverseComponentTransform", () => {
+  it("reverses the RCT exactly", () => {
+    const red = [0, 255, 17, 200];
+    const green = [0, 0, 99, 255];
+    const blue = [255, 0, 3, 128];
+
+    // Forward RCT (G.2)
+    const y = Float32Array.from(red, (r, i) => Math.floor((r + 2 * green[i] + blue[i]) / 4));
+    const cb = Float32Array.from(blue, (b, i) => b - green[i]);
+    const cr = Float32Array.from(red, (r, i) => r - green[i]);
+
+    inverseComponentTransform(y, cb, cr, true);
+
+    expect(Array.from(y)).toEqual(red);
+    expect(Array.from(cb)).toEqual(green);
+    expect(Array.from(cr)).toEqual(blue);
+  });
+
+  it("converts ICT luminance to grey", () => {
+    const y = Float32Array.of(-50, 0, 90);
+    const cb = new Float32Array(3);
+    const cr = new Float32Array(3);
+
+    inverseComponentTransform(y, cb, cr, false);
+
+    expect(Array.from(cb)).toEqual([-50, 0, 90]);
+    expect(Array.from(cr)).toEqual([-50, 0, 90]);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * JPEG 2000 inverse transforms: the discrete wavelet transform (T.800
+ * Annex F) and the multiple component transforms (Annex G).
+ */
+
+/**
+ * A rectangle of samples with its position on the component's grid. The
+ * position decides which samples are low-pass (even coordinates) and
+ * which are high-pass (odd).
+ */
+export interface SampleRect {
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// 9/7 lifting coefficients (Table F.4)
+const ALPHA = -1.586134342059924;
+const BETA = -0.052980118572961;
+const GAMMA = 0.882911075530934;
+const DELTA = 0.443506852043971;
+const K = 1.230174104914001;
+
+/** Samples of symmetric extension on each side of a line (F.3.7) */
+const EXTENSION = 4;
+
+/**
+ * Reconstruct the next resolution from its lower resolution and the three
+ * subbands of the level (2D_SR, F.3.2).
+ *
+ * @param low - The lower resolution (the LL subband of this level)
+ * @param bands - The HL, LH and HH subbands
+ * @param bounds - The reconstructed resolution's position and size
+ */
+export function inverseWavelet(
+  low: SampleRect,
+  bands: [hl: SampleRect, lh: SampleRect, hh: SampleRect],
+  bounds: { x0: number; y0: number; x1: number; y1: number },
+  reversible: boolean,
+): SampleRect {
+  const width = bounds.x1 - bounds.x0;
+  const height = bounds.y1 - bounds.y0;
+  const data = new Float32Array(width * height);
+
+  // Interleave: low-pass samples sit at even coordinates (2D_INTERLEAVE)
+  const lowColumn = bounds.x0 & 1;
+  const lowRow = bounds.y0 & 1;
+
+  interleave(data, width, low, lowColumn, lowRow);
+  interleave(data, width, bands[0], 1 - lowColumn, lowRow);
+  interleave(data, width, bands[1], lowColumn, 1 - lowRow);
+  interleave(data, width, bands[2], 1 - lowColumn, 1 - lowRow);
+
+  const line = new Float64Array(Math.max(width, height) + 2 * EXTENSION);
+
+  // Rows, then columns (HOR_SR, VER_SR)
+  for (let y = 0; y < height; y++) {
+    filterLine(data, y * width, 1, width, bounds.x0, reversible, line);
+  }
+
+  for (let x = 0; x < width; x++) {
+    filterLine(data, x, width, height, bounds.y0, reversible, line);
+  }
+
+  return { x0: bounds.x0, y0: bounds.y0, width, height, data };
+}
+
+function interleave(
+  target: Float32Array,
+  targetWidth: number,
+  source: SampleRect,
+  xOffset: number,
+  yOffset: number,
+): void {
+  for (let y = 0; y < source.height; y++) {
+    const row = (yOffset + 2 * y) * targetWidth + xOffset;
+
+    for (let x = 0; x < source.width; x++) {
+      target[row + 2 * x] = source.data[y * source.width + x];
+    }
+  }
+}
+
+/**
+ * One-dimensional inverse transform of a line of samples in place (1D_SR).
+ *
+ * @param start - Coordinate of the first sample, for its parity
+ * @param line - Scratch space of at least `length + 2 * EXTENSION`
+ */
+function filterLine(
+  data: Float32Array,
+  offset: number,
+  step: number,
+  length: number,
+  start: number,
+  reversible: boolean,
+  line: Float64Array,
+): void {
+  if (length === 1) {
+    // A lone high-pass sample is halved
+    if (start & 1) {
+      data[offset] /= 2;
+    }
+
+    return;
+  }
+
+  for (let i = 0; i < length; i++) {
+    line[EXTENSION + i] = data[offset + i * step];
+  }
+
+  // Periodic symmetric extension (F.3.7)
+  for (let i = 1; i <= EXTENSION; i++) {
+    line[EXTENSION - i] = line[EXTENSION + reflect(-i, length)];
+    line[EXTENSION + length - 1 + i] = line[EXTENSION + reflect(length - 1 + i, length)];
+  }
+
+  const total = length + 2 * EXTENSION;
+
+  // Index of the first even (low-pass) coordinate; EXTENSION is even
+  const firstEven = start & 1;
+  const firstOdd = 1 - firstEven;
+
+  if (reversible) {
+    // 5/3 lifting (F.3.8.1)
+    for (let i = firstEven || 2; i < total - 1; i += 2) {
+      line[i] -= Math.floor((line[i - 1] + line[i + 1] + 2) / 4);
+    }
+
+    for (let i = firstOdd || 2; i < total - 1; i += 2) {
+      line[i] += Math.floor((line[i - 1] + line[i + 1]) / 2);
+    }
+  } else {
+    // 9/7 lifting (F.3.8.2)
+    for (let i = firstEven; i < total; i += 2) {
+      line[i] *= K;
+    }
+
+    for (let i = firstOdd; i < total; i += 2) {
+      line[i] /= K;
+    }
+
+    lift(line, firstEven || 2, total, DELTA);
+    lift(line, firstOdd || 2, total, GAMMA);
+    lift(line, firstEven || 2, total, BETA);
+    lift(line, firstOdd || 2, total, ALPHA);
+  }
+
+  for (let i = 0; i < length; i++) {
+    data[offset + i * step] = line[EXTENSION + i];
+  }
+}
+
+function lift(line: Float64Array, first: number, total: number, factor: number): void {
+  for (let i = first; i < total - 1; i += 2) {
+    line[i] -= factor * (line[i - 1] + line[i + 1]);
+  }
+}
+
+/**
+ * Mirror an index into `[0, length)`, without repeating the edge samples.
+ */
+function reflect(index: number, length: number): number {
+  const period = 2 * (length - 1);
+  const i = ((index % period) + period) % period;
+
+  return i < length ? i : period - i;
+}
+
+/**
+ * Undo the multiple component transform on the first three components in
+ * place: the reversible RCT (G.2) or the irreversible ICT (G.3).
+ */
+export function inverseComponentTransform(
+  y: Float32Array,
+  cb: Float32Array,
+  cr: Float32Array,
+  reversible: boolean,
+): void {
+  for (let i = 0; i < y.length; i++) {
+    const y0 = y[i];
+    const y1 = cb[i];
+    const y2 = cr[i];
+
+    if (reversible) {
+      const g = y0 - Math.floor((y1 + y2) / 4);
+
+      y[i] = y2 + g;
+      cb[i] = g;
+      cr[i] = y1 + g;
+    } else {
+      y[i] = y0 + 1.402 * y2;
+      cb[i] = y0 - 0.34413 * y1 - 0.71414 * y2;
+      cr[i] = y0 + 1.772 * y1;
+    }
+  }
+}
@@ -1,3 +1,9 @@
+import { PDF } from "#src/api/pdf";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { loadFixture } from "#src/test-utils";
 import { describe, expect, it } from "vitest";
 
 import { LZWFilter } from "./lzw-filter";
@@ -56,10 +62,72 @@ describe("LZWFilter", () => {
   });
 
   describe("encode", () => {
-    it("throws not implemented error", async () => {
-      const data = new TextEncoder().encode("Hello");
+    it("matches the PDF specification's example", () => {
+      // ISO 32000-1, 7.4.4.2: "-----A---B"
+      const data = new TextEncoder().encode("-----A---B");
 
-      expect(() => filter.encode(data)).toThrow("not implemented");
+      expect(filter.encode(data)).toEqual(
+        new Uint8Array([0x80, 0x0b, 0x60, 0x50, 0x22, 0x0c, 0x0c, 0x85, 0x01]),
+      );
+    });
+
+    it("encodes empty data as Clear and EOD", () => {
+      expect(filter.decode(filter.encode(new Uint8Array(0)))).toEqual(new Uint8Array(0));
+    });
+
+    it.each([0, 1])("round-trips through code widths and table resets (EarlyChange %i)", early => {
+      const params = PdfDict.of({ EarlyChange: PdfNumber.of(early) });
+      let seed = 1;
+
+      // Enough varied data to fill the table more than once
+      const data = new Uint8Array(40000).map(() => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+
+        return (seed >> 16) % 48;
+      });
+
+      const encoded = filter.encode(data, params);
+
+      expect(encoded.length).toBeLessThan(data.length);
+      expect(filter.decode(encoded, params)).toEqual(data);
+    });
+
+    it("round-trips every length up to a few hundred bytes", () => {
+      // Lengths around 254 cross into 10-bit codes just before EOD
+      for (let length = 0; length < 600; length++) {
+        const data = new Uint8Array(length).map((_, i) => (i * 7) % 251);
+
+        expect(filter.decode(filter.encode(data))).toEqual(data);
+      }
+    });
+
+    it("applies PNG predictors from the parameters", () => {
+      const params = PdfDict.of({
+        Predictor: PdfNumber.of(15),
+        Columns: PdfNumber.of(4),
+        Colors: PdfNumber.of(1),
+        BitsPerComponent: PdfNumber.of(8),
+      });
+      const data = new Uint8Array([10, 20, 30, 40, 11, 21, 31, 41, 12, 22, 32, 42]);
+
+      expect(filter.decode(filter.encode(data, params), params)).toEqual(data);
+    });
+  });
+
+  describe("externally encoded streams", () => {
+    it.each([35, 156])("decodes the LZW layer of image %i in us_constitution.pdf", async id => {
+      const pdf = await PDF.load(await loadFixture("text", "variety/us_constitution.pdf"));
+      const image = pdf.context.resolve(PdfRef.of(id, 0));
+
+      if (!(image instanceof PdfStream)) {
+        throw new Error("fixture image not found");
+      }
+
+      // [/LZWDecode /DCTDecode]: the LZW layer wraps a whole JPEG
+      const jpeg = filter.decode(image.data);
+
+      expect(jpeg.subarray(0, 2)).toEqual(new Uint8Array([0xff, 0xd8]));
+      expect(jpeg.subarray(-2)).toEqual(new Uint8Array([0xff, 0xd9]));
     });
   });
 
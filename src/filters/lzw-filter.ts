@@ -2,7 +2,7 @@ import { ByteWriter } from "#src/io/byte-writer.ts";
 import type { PdfDict } from "#src/objects/pdf-dict";
 
 import type { Filter } from "./filter";
-import { applyPredictor } from "./predictor";
+import { applyPredictor, encodePredictor } from "./predictor";
 
 /**
  * LZWDecode filter.
@@ -14,6 +14,10 @@ import { applyPredictor } from "./predictor";
  * - Uses variable-length codes starting at 9 bits
  * - Clear code = 256, EOD code = 257
  * - EarlyChange parameter affects when code width increases
+ *
+ * Encoding honours EarlyChange and PNG predictors from the same
+ * parameters, so streams decode with the /DecodeParms they were encoded
+ * with.
  */
 export class LZWFilter implements Filter {
   readonly name = "LZWDecode";
@@ -21,6 +25,9 @@ export class LZWFilter implements Filter {
   private static readonly CLEAR_CODE = 256;
   private static readonly EOD_CODE = 257;
 
+  /** The encoder starts over before the table reaches 12-bit codes' limit */
+  private static readonly MAX_ENCODER_CODE = 4094;
+
   decode(data: Uint8Array, params?: PdfDict): Uint8Array {
     const earlyChange = params?.getNumber("EarlyChange")?.value ?? 1;
     const result = this.lzwDecode(data, earlyChange);
@@ -37,9 +44,97 @@ export class LZWFilter implements Filter {
     return result;
   }
 
-  encode(_data: Uint8Array, _params?: PdfDict): Uint8Array {
-    // LZW encoding is rarely needed (FlateDecode is preferred)
-    throw new Error("LZW encoding not implemented");
+  encode(data: Uint8Array, params?: PdfDict): Uint8Array {
+    const earlyChange = params?.getNumber("EarlyChange")?.value ?? 1;
+
+    return this.lzwEncode(params ? encodePredictor(data, params) : data, earlyChange);
+  }
+
+  private lzwEncode(data: Uint8Array, earlyChange: number): Uint8Array {
+    const output = new ByteWriter(undefined, { initialSize: Math.max(64, data.length >> 1) });
+    let codeLength = 9;
+    let nextCode = 258;
+
+    // Dictionary: maps (prefix code << 8 | byte) → code
+    const dictionary = new Map<number, number>();
+
+    // Bit writing state, most significant bit first
+    let buffer = 0;
+    let bufferBits = 0;
+
+    const writeCode = (code: number): void => {
+      buffer = (buffer << codeLength) | code;
+      bufferBits += codeLength;
+
+      while (bufferBits >= 8) {
+        bufferBits -= 8;
+        output.writeByte((buffer >> bufferBits) & 0xff);
+      }
+
+      buffer &= (1 << bufferBits) - 1;
+    };
+
+    // Mirrors the decoder, which adds each entry one code later
+    const advance = (): void => {
+      nextCode++;
+
+      if (nextCode + earlyChange - 1 === 1 << codeLength && codeLength < 12) {
+        codeLength++;
+      }
+    };
+
+    writeCode(LZWFilter.CLEAR_CODE);
+
+    // Code of the longest match so far (-1 before the first byte)
+    let prefix = -1;
+
+    for (const byte of data) {
+      if (prefix === -1) {
+        prefix = byte;
+        continue;
+      }
+
+      const key = (prefix << 8) | byte;
+      const code = dictionary.get(key);
+
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+
+      writeCode(prefix);
+
+      if (nextCode < LZWFilter.MAX_ENCODER_CODE) {
+        dictionary.set(key, nextCode);
+        advance();
+      } else {
+        // Table full: start over
+        writeCode(LZWFilter.CLEAR_CODE);
+        dictionary.clear();
+        codeLength = 9;
+        nextCode = 258;
+      }
+
+      prefix = byte;
+    }
+
+    if (prefix !== -1) {
+      writeCode(prefix);
+
+      // The decoder adds an entry for this code too, which may widen EOD
+      if (nextCode < LZWFilter.MAX_ENCODER_CODE) {
+        advance();
+      }
+    }
+
+    writeCode(LZWFilter.EOD_CODE);
+
+    // Pad the last byte with zeros
+    if (bufferBits > 0) {
+      output.writeByte((buffer << (8 - bufferBits)) & 0xff);
+    }
+
+    return output.toBytes();
   }
 
   private lzwDecode(data: Uint8Array, earlyChange: number): Uint8Array {
@@ -141,10 +236,12 @@ export class LZWFilter implements Filter {
         dictionary[nextCode] = newEntry;
         nextCode++;
 
-        // Increase code length when needed
-        // EarlyChange=1 (default): increase before code is used
-        // EarlyChange=0: increase after code is used
-        const threshold = earlyChange === 1 ? nextCode : nextCode - 1;
+        // Increase code length when needed. The decoder adds each entry
+        // one code after the encoder did, so the encoder's next code is
+        // nextCode + 1.
+        // EarlyChange=1 (default): increase one code early
+        // EarlyChange=0: increase once a code needs the extra bit
+        const threshold = nextCode + earlyChange;
 
         if (threshold === 512 && codeLength < 10) {
           codeLength = 10;
@@ -0,0 +1,40 @@
+import { hexToBytes } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { MQDecoder } from "./mq-decoder";
+
+const coded = hexToBytes(
+  "84 C7 3B FC E1 A1 43 04 02 20 00 00 41 0D BB 86 F4 31 7F FF 88 FF 37 47 1A DB 6A DF FF AC",
+);
+
+describe("MQDecoder", () => {
+  it("decodes the T.88 Annex H.2 test sequence", () => {
+    const expected = hexToBytes(
+      "00 02 00 51 00 00 00 C0 03 52 87 2A AA AA AA AA 82 C0 20 00 FC D7 9E F6 BF 7F ED 90 4F 46 A3 BF",
+    );
+
+    // All 256 bits are coded in a single context
+    const decoder = new MQDecoder(coded);
+    const contexts = new Int8Array(1);
+    const decoded = new Uint8Array(expected.length);
+
+    for (let i = 0; i < expected.length * 8; i++) {
+      decoded[i >> 3] |= decoder.readBit(contexts, 0) << (7 - (i & 7));
+    }
+
+    expect(decoded).toEqual(expected);
+  });
+
+  it("decodes within a byte range", () => {
+    const padded = new Uint8Array([0x12, 0x34, ...coded, 0x56]);
+
+    const a = new MQDecoder(coded);
+    const b = new MQDecoder(padded, 2, 2 + coded.length);
+    const contextsA = new Int8Array(1);
+    const contextsB = new Int8Array(1);
+
+    for (let i = 0; i < 256; i++) {
+      expect(b.readBit(contextsB, 0)).toBe(a.readBit(contextsA, 0));
+    }
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * MQ arithmetic decoder.
+ *
+ * The adaptive binary arithmetic coder shared by JBIG2 (ITU-T T.88,
+ * Annex E) and JPEG 2000 (ITU-T T.800, Annex C). Each decision is coded
+ * in a context whose probability state adapts as bits are decoded.
+ *
+ * Context states live in caller-owned `Int8Array`s, one entry per context,
+ * holding `(stateIndex << 1) | mps`. A zero-filled array is the initial
+ * state for every context.
+ */
+
+/**
+ * Probability estimation table (T.88 Table E.1).
+ *
+ * Each row is [Qe, NMPS, NLPS, SWITCH].
+ */
+const QE_TABLE: readonly (readonly [number, number, number, number])[] = [
+  [0x5601, 1, 1, 1],
+  [0x3401, 2, 6, 0],
+  [0x1801, 3, 9, 0],
+  [0x0ac1, 4, 12, 0],
+  [0x0521, 5, 29, 0],
+  [0x0221, 38, 33, 0],
+  [0x5601, 7, 6, 1],
+  [0x5401, 8, 14, 0],
+  [0x4801, 9, 14, 0],
+  [0x3801, 10, 14, 0],
+  [0x3001, 11, 17, 0],
+  [0x2401, 12, 18, 0],
+  [0x1c01, 13, 20, 0],
+  [0x1601, 29, 21, 0],
+  [0x5601, 15, 14, 1],
+  [0x5401, 16, 14, 0],
+  [0x5101, 17, 15, 0],
+  [0x4801, 18, 16, 0],
+  [0x3801, 19, 17, 0],
+  [0x3401, 20, 18, 0],
+  [0x3001, 21, 19, 0],
+  [0x2801, 22, 19, 0],
+  [0x2401, 23, 20, 0],
+  [0x2201, 24, 21, 0],
+  [0x1c01, 25, 22, 0],
+  [0x1801, 26, 23, 0],
+  [0x1601, 27, 24, 0],
+  [0x1401, 28, 25, 0],
+  [0x1201, 29, 26, 0],
+  [0x1101, 30, 27, 0],
+  [0x0ac1, 31, 28, 0],
+  [0x09c1, 32, 29, 0],
+  [0x08a1, 33, 30, 0],
+  [0x0521, 34, 31, 0],
+  [0x0441, 35, 32, 0],
+  [0x02a1, 36, 33, 0],
+  [0x0221, 37, 34, 0],
+  [0x0141, 38, 35, 0],
+  [0x0111, 39, 36, 0],
+  [0x0085, 40, 37, 0],
+  [0x0049, 41, 38, 0],
+  [0x0025, 42, 39, 0],
+  [0x0015, 43, 40, 0],
+  [0x0009, 44, 41, 0],
+  [0x0005, 45, 42, 0],
+  [0x0001, 45, 43, 0],
+  [0x5601, 46, 46, 0],
+];
+
+/**
+ * Decoder for one MQ-coded byte range.
+ *
+ * Reading past the end of the range behaves as if the data were followed
+ * by a marker (0xFF 0xFF...), as the standards require.
+ *
+ * @example
+ * ```typescript
+ * const decoder = new MQDecoder(data);
+ * const contexts = new Int8Array(1 << 16);
+ *
+ * const bit = decoder.readBit(contexts, context);
+ * ```
+ */
+export class MQDecoder {
+  private position: number;
+  private chigh: number;
+  private clow = 0;
+  private ct = 0;
+  private a: number;
+
+  /**
+   * @param data - Buffer holding the coded data
+   * @param start - Offset of the first coded byte
+   * @param end - Offset just past the last coded byte
+   */
+  constructor(
+    private readonly data: Uint8Array,
+    start = 0,
+    private readonly end = data.length,
+  ) {
+    this.position = start;
+    this.chigh = this.byteAt(start);
+
+    this.byteIn();
+
+    this.chigh = ((this.chigh << 7) & 0xffff) | ((this.clow >> 9) & 0x7f);
+    this.clow = (this.clow << 7) & 0xffff;
+    this.ct -= 7;
+    this.a = 0x8000;
+  }
+
+  /**
+   * Decode one bit in a context, updating the context's state.
+   *
+   * @param contexts - Context states
+   * @param index - Context to decode in
+   * @returns The decoded bit (0 or 1)
+   */
+  readBit(contexts: Int8Array, index: number): number {
+    let stateIndex = contexts[index] >> 1;
+    let mps = contexts[index] & 1;
+
+    const [qe, nmps, nlps, switchFlag] = QE_TABLE[stateIndex];
+
+    let a = this.a - qe;
+    let bit: number;
+
+    if (this.chigh < qe) {
+      // LPS exchange
+      if (a < qe) {
+        a = qe;
+        bit = mps;
+        stateIndex = nmps;
+      } else {
+        a = qe;
+        bit = 1 ^ mps;
+
+        if (switchFlag === 1) {
+          mps = bit;
+        }
+
+        stateIndex = nlps;
+      }
+    } else {
+      this.chigh -= qe;
+
+      if ((a & 0x8000) !== 0) {
+        this.a = a;
+
+        return mps;
+      }
+
+      // MPS exchange
+      if (a < qe) {
+        bit = 1 ^ mps;
+
+        if (switchFlag === 1) {
+          mps = bit;
+        }
+
+        stateIndex = nlps;
+      } else {
+        bit = mps;
+        stateIndex = nmps;
+      }
+    }
+
+    // Renormalize
+    do {
+      if (this.ct === 0) {
+        this.byteIn();
+      }
+
+      a <<= 1;
+      this.chigh = ((this.chigh << 1) & 0xffff) | ((this.clow >> 15) & 1);
+      this.clow = (this.clow << 1) & 0xffff;
+      this.ct--;
+    } while ((a & 0x8000) === 0);
+
+    this.a = a;
+    contexts[index] = (stateIndex << 1) | mps;
+
+    return bit;
+  }
+
+  /**
+   * Read the next byte into the code register, handling 0xFF stuffing.
+   */
+  private byteIn(): void {
+    if (this.byteAt(this.position) === 0xff) {
+      if (this.byteAt(this.position + 1) > 0x8f) {
+        this.clow += 0xff00;
+        this.ct = 8;
+      } else {
+        this.position++;
+        this.clow += this.byteAt(this.position) << 9;
+        this.ct = 7;
+      }
+    } else {
+      this.position++;
+      this.clow += this.byteAt(this.position) << 8;
+      this.ct = 8;
+    }
+
+    if (this.clow > 0xffff) {
+      this.chigh += this.clow >> 16;
+      this.clow &= 0xffff;
+    }
+  }
+
+  private byteAt(index: number): number {
+    return index < this.end ? this.data[index] : 0xff;
+  }
+}
@@ -2,7 +2,7 @@ import { PdfDict } from "#src/objects/pdf-dict";
 import { PdfNumber } from "#src/objects/pdf-number";
 import { describe, expect, it } from "vitest";
 
-import { applyPredictor } from "./predictor";
+import { applyPredictor, encodePngPredictor, encodePredictor } from "./predictor";
 
 /**
  * Helper to create a PdfDict with predictor parameters.
@@ -332,3 +332,44 @@ describe("applyPredictor", () => {
     });
   });
 });
+
+describe("encodePredictor", () => {
+  it("leaves data alone without a predictor", () => {
+    const data = new Uint8Array([1, 2, 3]);
+
+    expect(encodePredictor(data, makeParams({ predictor: 1 }))).toBe(data);
+  });
+
+  it("uses PNG prediction for predictors 10-15", () => {
+    const params = makeParams({ predictor: 10, columns: 3 });
+
+    expect(encodePredictor(new Uint8Array([1, 2, 3]), params)).toHaveLength(4);
+  });
+
+  it("throws for TIFF Predictor 2", () => {
+    expect(() => encodePredictor(new Uint8Array(3), makeParams({ predictor: 2 }))).toThrow(
+      "TIFF Predictor 2 encoding is not supported",
+    );
+  });
+});
+
+describe("encodePngPredictor", () => {
+  it("round trips through applyPredictor", () => {
+    const params = makeParams({ predictor: 15, columns: 5, colors: 3, bpc: 8 });
+    const data = Uint8Array.from({ length: 5 * 3 * 4 }, (_, i) => (i * 37 + (i >> 4) * 11) & 0xff);
+
+    const encoded = encodePngPredictor(data, params);
+
+    expect(encoded.length).toBe(4 * 16);
+    expect(applyPredictor(encoded, params)).toEqual(data);
+  });
+
+  it("picks the filter with the smallest differences", () => {
+    const params = makeParams({ predictor: 15, columns: 4, colors: 1, bpc: 8 });
+
+    // A horizontal ramp suits Sub; repeating it suits Up
+    const encoded = encodePngPredictor(new Uint8Array([10, 20, 30, 40, 10, 20, 30, 40]), params);
+
+    expect(Array.from(encoded)).toEqual([1, 10, 10, 10, 10, 2, 0, 0, 0, 0]);
+  });
+});
@@ -43,6 +43,92 @@ export function applyPredictor(data: Uint8Array, params: PdfDict): Uint8Array {
   throw new Error(`Unknown predictor value: ${predictor}`);
 }
 
+/**
+ * Apply the prediction /DecodeParms asks for before encoding: the reverse
+ * of `applyPredictor()`.
+ *
+ * @throws {Error} For TIFF Predictor 2, which can't be encoded yet
+ */
+export function encodePredictor(data: Uint8Array, params: PdfDict): Uint8Array {
+  const predictor = params.getNumber("Predictor")?.value ?? 1;
+
+  if (predictor >= 10) {
+    return encodePngPredictor(data, params);
+  }
+
+  if (predictor === 2) {
+    throw new Error("TIFF Predictor 2 encoding is not supported");
+  }
+
+  return data;
+}
+
+/**
+ * Apply PNG prediction to data for encoding, the reverse of
+ * `applyPredictor()` with Predictor 15.
+ *
+ * Each row gets the filter whose output has the smallest sum of absolute
+ * (signed) differences, PNG's usual heuristic.
+ *
+ * @param data - Rows of samples
+ * @param params - /DecodeParms the data will be read with (Columns,
+ *   Colors, BitsPerComponent)
+ * @returns Rows, each prefixed with its filter byte
+ */
+export function encodePngPredictor(data: Uint8Array, params: PdfDict): Uint8Array {
+  const columns = params.getNumber("Columns")?.value ?? 1;
+  const colors = params.getNumber("Colors")?.value ?? 1;
+  const bpc = params.getNumber("BitsPerComponent")?.value ?? 8;
+  const bytesPerPixel = Math.max(1, Math.floor((colors * bpc + 7) / 8));
+  const bytesPerRow = Math.floor((columns * colors * bpc + 7) / 8);
+  const rows = Math.floor(data.length / bytesPerRow);
+  const output = new Uint8Array(rows * (bytesPerRow + 1));
+  const candidate = new Uint8Array(bytesPerRow);
+  let prevRow: Uint8Array = new Uint8Array(bytesPerRow);
+
+  for (let row = 0; row < rows; row++) {
+    const rowData = data.subarray(row * bytesPerRow, (row + 1) * bytesPerRow);
+    const outputOffset = row * (bytesPerRow + 1);
+    let bestCost = Infinity;
+
+    for (let filter = 0; filter <= 4; filter++) {
+      let cost = 0;
+
+      for (let i = 0; i < bytesPerRow; i++) {
+        const left = i >= bytesPerPixel ? rowData[i - bytesPerPixel] : 0;
+        const up = prevRow[i];
+        const upLeft = i >= bytesPerPixel ? prevRow[i - bytesPerPixel] : 0;
+        let prediction = 0;
+
+        if (filter === 1) {
+          prediction = left;
+        } else if (filter === 2) {
+          prediction = up;
+        } else if (filter === 3) {
+          prediction = (left + up) >> 1;
+        } else if (filter === 4) {
+          prediction = paethPredictor(left, up, upLeft);
+        }
+
+        const value = (rowData[i] - prediction) & SINGLE_BYTE_MASK;
+
+        candidate[i] = value;
+        cost += value < 128 ? value : 256 - value;
+      }
+
+      if (cost < bestCost) {
+        bestCost = cost;
+        output[outputOffset] = filter;
+        output.set(candidate, outputOffset + 1);
+      }
+    }
+
+    prevRow = rowData;
+  }
+
+  return output;
+}
+
 /**
  * Decode TIFF Predictor 2 (horizontal differencing).
  *
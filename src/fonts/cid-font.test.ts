@@ -2,7 +2,7 @@ import { PdfArray } from "#src/objects/pdf-array";
 import { PdfNumber } from "#src/objects/pdf-number";
 import { describe, expect, it } from "vitest";
 
-import { CIDFont, CIDWidthMap, parseCIDWidths } from "./cid-font";
+import { CIDFont, CIDWidthMap, parseCIDVerticalMetrics, parseCIDWidths } from "./cid-font";
 
 describe("CIDWidthMap", () => {
   describe("individual mappings", () => {
@@ -120,6 +120,28 @@ describe("parseCIDWidths", () => {
   });
 });
 
+describe("parseCIDVerticalMetrics", () => {
+  it("should parse individual and range formats", () => {
+    // [120 [-1000 250 772 -500 250 772] 7080 8032 -1000 500 900]
+    const innerArray = new PdfArray();
+    innerArray.push(...[-1000, 250, 772, -500, 250, 772].map(value => new PdfNumber(value)));
+
+    const w2Array = new PdfArray();
+    w2Array.push(
+      new PdfNumber(120),
+      innerArray,
+      ...[7080, 8032, -1000, 500, 900].map(value => new PdfNumber(value)),
+    );
+
+    const map = parseCIDVerticalMetrics(w2Array);
+
+    expect(map.get(120)).toEqual({ w1y: -1000, vx: 250, vy: 772 });
+    expect(map.get(121)).toEqual({ w1y: -500, vx: 250, vy: 772 });
+    expect(map.get(7500)).toEqual({ w1y: -1000, vx: 500, vy: 900 });
+    expect(map.get(122)).toBeUndefined();
+  });
+});
+
 describe("CIDFont", () => {
   it("should create with defaults", () => {
     const font = new CIDFont({
@@ -185,4 +207,25 @@ describe("CIDFont", () => {
     expect(font.cidSystemInfo.ordering).toBe("Japan1");
     expect(font.cidSystemInfo.supplement).toBe(6);
   });
+
+  it("should use /DW2 and half the width for CIDs without vertical metrics", () => {
+    const widths = new CIDWidthMap();
+    widths.set(5, 600);
+
+    const font = new CIDFont({
+      subtype: "CIDFontType0",
+      baseFontName: "TestFont",
+      widths,
+    });
+
+    expect(font.getVerticalMetrics(5)).toEqual({ w1y: -1000, vx: 300, vy: 880 });
+
+    const custom = new CIDFont({
+      subtype: "CIDFontType0",
+      baseFontName: "TestFont",
+      defaultVerticalMetrics: { vy: 900, w1y: -950 },
+    });
+
+    expect(custom.getVerticalMetrics(5)).toEqual({ w1y: -950, vx: 500, vy: 900 });
+  });
 });
@@ -28,6 +28,7 @@ import { PdfStream } from "#src/objects/pdf-stream.ts";
 import { type EmbeddedParserOptions, parseEmbeddedProgram } from "./embedded-parser";
 import { FontDescriptor } from "./font-descriptor";
 import type { FontProgram } from "./font-program/index.ts";
+import type { VerticalMetrics } from "./pdf-font";
 
 export type CIDFontSubtype = "CIDFontType0" | "CIDFontType2";
 
@@ -66,6 +67,12 @@ export class CIDFont {
   /** Width map from /W array */
   private readonly widths: CIDWidthMap;
 
+  /** Default vertical metrics from /DW2: [vy w1y] */
+  readonly defaultVerticalMetrics: { vy: number; w1y: number };
+
+  /** Vertical metrics from /W2 */
+  private readonly verticalMetrics: CIDVerticalMetricsMap;
+
   /** CID to GID mapping (null = Identity, Uint16Array = explicit map) */
   private readonly cidToGidMap: "Identity" | Uint16Array | null;
 
@@ -79,6 +86,8 @@ export class CIDFont {
     descriptor?: FontDescriptor | null;
     defaultWidth?: number;
     widths?: CIDWidthMap;
+    defaultVerticalMetrics?: { vy: number; w1y: number };
+    verticalMetrics?: CIDVerticalMetricsMap;
     cidToGidMap?: "Identity" | Uint16Array | null;
     embeddedProgram?: FontProgram | null;
   }) {
@@ -92,6 +101,8 @@ export class CIDFont {
     this.descriptor = options.descriptor ?? null;
     this.defaultWidth = options.defaultWidth ?? 1000;
     this.widths = options.widths ?? new CIDWidthMap();
+    this.defaultVerticalMetrics = options.defaultVerticalMetrics ?? { vy: 880, w1y: -1000 };
+    this.verticalMetrics = options.verticalMetrics ?? new CIDVerticalMetricsMap();
     this.cidToGidMap = options.cidToGidMap ?? "Identity";
     this.embeddedProgram = options.embeddedProgram ?? null;
   }
@@ -136,6 +147,25 @@ export class CIDFont {
     return this.defaultWidth;
   }
 
+  /**
+   * Get vertical writing metrics for a CID in glyph units (1000 = 1 em).
+   * CIDs not in /W2 use /DW2, with the vertical origin centred over the
+   * glyph's width.
+   */
+  getVerticalMetrics(cid: number): VerticalMetrics {
+    const explicit = this.verticalMetrics.get(cid);
+
+    if (explicit) {
+      return explicit;
+    }
+
+    return {
+      w1y: this.defaultVerticalMetrics.w1y,
+      vx: this.getWidth(cid) / 2,
+      vy: this.defaultVerticalMetrics.vy,
+    };
+  }
+
   /**
    * Get GID (glyph index) for a CID.
    * Used when accessing embedded font data.
@@ -264,6 +294,111 @@ export function parseCIDWidths(wArray: PdfArray): CIDWidthMap {
   return map;
 }
 
+/**
+ * Storage for CID vertical metrics from /W2.
+ */
+export class CIDVerticalMetricsMap {
+  /** Individual CID -> metrics mappings */
+  private readonly individual = new Map<number, VerticalMetrics>();
+
+  /** Range mappings: all CIDs in range have the same metrics */
+  private readonly ranges: Array<{ start: number; end: number; metrics: VerticalMetrics }> = [];
+
+  /**
+   * Get metrics for a CID.
+   */
+  get(cid: number): VerticalMetrics | undefined {
+    const individual = this.individual.get(cid);
+
+    if (individual !== undefined) {
+      return individual;
+    }
+
+    for (const range of this.ranges) {
+      if (cid >= range.start && cid <= range.end) {
+        return range.metrics;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Set metrics for a single CID.
+   */
+  set(cid: number, metrics: VerticalMetrics): void {
+    this.individual.set(cid, metrics);
+  }
+
+  /**
+   * Add a range where all CIDs have the same metrics.
+   */
+  addRange(start: number, end: number, metrics: VerticalMetrics): void {
+    this.ranges.push({ start, end, metrics });
+  }
+}
+
+/**
+ * Parse /W2 array format from PDF.
+ *
+ * Format:
+ *   [cid [w1y vx vy w1y vx vy ...]] - individual metrics starting at cid
+ *   [cidStart cidEnd w1y vx vy] - same metrics for range
+ *
+ * Example: [120 [-1000 250 772] 7080 8032 -1000 500 900]
+ *   CID 120: w1y = -1000, v = (250, 772)
+ *   CIDs 7080-8032: w1y = -1000, v = (500, 900)
+ */
+export function parseCIDVerticalMetrics(w2Array: PdfArray): CIDVerticalMetricsMap {
+  const map = new CIDVerticalMetricsMap();
+  const number = (index: number) => {
+    const item = w2Array.at(index);
+
+    return item?.type === "number" ? item.value : undefined;
+  };
+
+  let i = 0;
+
+  while (i < w2Array.length) {
+    const startCid = number(i);
+
+    if (startCid === undefined) {
+      i++;
+      continue;
+    }
+
+    const second = w2Array.at(i + 1);
+
+    if (!second) {
+      break;
+    }
+
+    if (second.type === "array") {
+      // Individual metrics: cid [w1y vx vy ...]
+      const values = second.toArray().map(item => (item.type === "number" ? item.value : 0));
+
+      for (let j = 0; j + 2 < values.length; j += 3) {
+        map.set(startCid + j / 3, { w1y: values[j], vx: values[j + 1], vy: values[j + 2] });
+      }
+
+      i += 2;
+    } else if (second.type === "number") {
+      // Range: cidStart cidEnd w1y vx vy
+      const [w1y, vx, vy] = [number(i + 2), number(i + 3), number(i + 4)];
+
+      if (w1y !== undefined && vx !== undefined && vy !== undefined) {
+        map.addRange(startCid, second.value, { w1y, vx, vy });
+      }
+
+      i += 5;
+    } else {
+      i++;
+    }
+  }
+
+  return map;
+}
+
 /**
  * Parse a CIDFont from a PDF font dictionary.
  */
@@ -311,6 +446,16 @@ export function parseCIDFont(
     widths = parseCIDWidths(wArray);
   }
 
+  // Parse vertical metrics: /DW2 [vy w1y] and /W2
+  const dw2 = dict.getArray("DW2", options.resolver);
+  const dw2Values = dw2?.toArray().map(item => (item.type === "number" ? item.value : NaN));
+  const defaultVerticalMetrics =
+    dw2Values?.length === 2 && dw2Values.every(Number.isFinite)
+      ? { vy: dw2Values[0], w1y: dw2Values[1] }
+      : undefined;
+  const w2 = dict.getArray("W2", options.resolver);
+  const verticalMetrics = w2 ? parseCIDVerticalMetrics(w2) : undefined;
+
   // Parse FontDescriptor and embedded font program
   let descriptor: FontDescriptor | null = null;
   let embeddedProgram: FontProgram | null = null;
@@ -357,6 +502,8 @@ export function parseCIDFont(
     descriptor,
     defaultWidth,
     widths,
+    defaultVerticalMetrics,
+    verticalMetrics,
     cidToGidMap,
     embeddedProgram,
   });
@@ -52,6 +52,31 @@ describe("CompositeFont", () => {
     });
   });
 
+  describe("vertical writing", () => {
+    it("should follow the CMap's writing mode", () => {
+      const cidFont = new CIDFont({ subtype: "CIDFontType0", baseFontName: "TestFont" });
+
+      expect(
+        new CompositeFont({ baseFontName: "TestFont", cmap: CMap.identityH(), cidFont }).isVertical,
+      ).toBe(false);
+      expect(
+        new CompositeFont({ baseFontName: "TestFont", cmap: CMap.identityV(), cidFont }).isVertical,
+      ).toBe(true);
+    });
+
+    it("should get vertical metrics via CMap lookup then CIDFont", () => {
+      const cidFont = new CIDFont({
+        subtype: "CIDFontType0",
+        baseFontName: "TestFont",
+        defaultWidth: 1000,
+      });
+
+      const font = new CompositeFont({ baseFontName: "TestFont", cmap: CMap.identityV(), cidFont });
+
+      expect(font.getVerticalMetrics(0x3042)).toEqual({ w1y: -1000, vx: 500, vy: 880 });
+    });
+  });
+
   describe("encodeText", () => {
     it("should encode text via CMap", () => {
       const cmap = CMap.identityH();
@@ -28,7 +28,7 @@ import { PdfStream } from "#src/objects/pdf-stream.ts";
 import { CIDFont, parseCIDFont } from "./cid-font";
 import { CMap, parseCMap } from "./cmap";
 import type { FontDescriptor } from "./font-descriptor";
-import { PdfFont } from "./pdf-font";
+import { PdfFont, type VerticalMetrics } from "./pdf-font";
 import type { ToUnicodeMap } from "./to-unicode";
 
 /**
@@ -94,6 +94,21 @@ export class CompositeFont extends PdfFont {
     return this.cidFont.getWidth(cid);
   }
 
+  /**
+   * Whether the CMap writes vertically (e.g. Identity-V).
+   */
+  override get isVertical(): boolean {
+    return this.cmap.vertical;
+  }
+
+  /**
+   * Get the vertical writing metrics of a character code, from the
+   * CIDFont's /W2 and /DW2.
+   */
+  override getVerticalMetrics(code: number): VerticalMetrics {
+    return this.cidFont.getVerticalMetrics(this.cmap.lookup(code));
+  }
+
   /**
    * Encode text to character codes.
    */
@@ -2,7 +2,7 @@
  * FontFactory - Creates appropriate font objects from PDF dictionaries.
  *
  * Examines the /Subtype of a font dictionary and returns the
- * appropriate font class (SimpleFont or Type0Font).
+ * appropriate font class (SimpleFont, Type3Font or Type0Font).
  */
 
 import type { RefResolver } from "#src/helpers/types.ts";
@@ -12,6 +12,7 @@ import { CompositeFont, parseCompositeFont } from "./composite-font";
 import { PdfFont } from "./pdf-font";
 import { parseSimpleFont, SimpleFont } from "./simple-font";
 import type { ToUnicodeMap } from "./to-unicode";
+import { parseType3Font, Type3Font } from "./type3-font";
 
 // Re-export PdfFont for convenience
 export { PdfFont };
@@ -36,7 +37,7 @@ export interface FontParseOptions {
  *
  * @param dict - The font dictionary
  * @param options - Parsing options for resolving references
- * @returns A SimpleFont or CompositeFont instance
+ * @returns A SimpleFont, Type3Font or CompositeFont instance
  */
 export function parseFont(dict: PdfDict, options: FontParseOptions = {}): PdfFont {
   const subtype = dict.getName("Subtype", options.resolver)?.value;
@@ -45,9 +46,11 @@ export function parseFont(dict: PdfDict, options: FontParseOptions = {}): PdfFon
     case "Type0":
       return parseCompositeFont(dict, options);
 
+    case "Type3":
+      return parseType3Font(dict, options);
+
     case "TrueType":
     case "Type1":
-    case "Type3":
     case "MMType1":
       return parseSimpleFont(dict, options);
 
@@ -58,12 +61,19 @@ export function parseFont(dict: PdfDict, options: FontParseOptions = {}): PdfFon
 }
 
 /**
- * Check if a font is a SimpleFont (TrueType, Type1, Type3).
+ * Check if a font is a SimpleFont (TrueType, Type1).
  */
 export function isSimpleFont(font: PdfFont): font is SimpleFont {
   return font instanceof SimpleFont;
 }
 
+/**
+ * Check if a font is a Type3Font (glyphs drawn by content streams).
+ */
+export function isType3Font(font: PdfFont): font is Type3Font {
+  return font instanceof Type3Font;
+}
+
 /**
  * Check if a font is a CompositeFont (Type0/CID font).
  */
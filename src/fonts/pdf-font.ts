@@ -2,7 +2,8 @@
  * PdfFont - Abstract base class for all PDF font types.
  *
  * PDF supports several font types:
- * - SimpleFont: TrueType, Type1, Type3, MMType1 (single-byte encoding)
+ * - SimpleFont: TrueType, Type1, MMType1 (single-byte encoding)
+ * - Type3Font: Type3 (single-byte encoding, glyphs drawn by content streams)
  * - CompositeFont: Type0 (multi-byte CID encoding, used for CJK/Unicode)
  *
  * All fonts share a common interface for:
@@ -13,6 +14,19 @@
 
 import type { FontDescriptor } from "./font-descriptor";
 
+/**
+ * Metrics of a glyph in vertical writing (PDF 1.7 section 9.7.4.3), in
+ * glyph units (1000 units = 1 em).
+ */
+export interface VerticalMetrics {
+  /** Vertical displacement to the next glyph (negative: downwards) */
+  w1y: number;
+  /** Position vector from the horizontal origin to the vertical origin, x */
+  vx: number;
+  /** Position vector from the horizontal origin to the vertical origin, y */
+  vy: number;
+}
+
 /**
  * Abstract base class for PDF fonts.
  */
@@ -66,6 +80,26 @@ export abstract class PdfFont {
    */
   abstract canEncode(text: string): boolean;
 
+  /**
+   * Whether text in this font is written vertically (WMode 1). Only
+   * composite fonts can be.
+   */
+  get isVertical(): boolean {
+    return false;
+  }
+
+  /**
+   * Get the vertical writing metrics of a character code: the spec's
+   * defaults, a full em down with the vertical origin centred above the
+   * glyph. Composite fonts read theirs from /W2 and /DW2.
+   *
+   * @param code - Character code
+   * @returns Metrics in glyph units
+   */
+  getVerticalMetrics(code: number): VerticalMetrics {
+    return { w1y: -1000, vx: this.getWidth(code) / 2, vy: 880 };
+  }
+
   /**
    * Get width of text in points at a given font size.
    *
@@ -1,13 +1,14 @@
 /**
  * SimpleFont - Base class for single-byte encoded fonts.
  *
- * This handles TrueType, Type1, and Type3 fonts which use single-byte
- * character codes (0-255).
+ * This handles TrueType and Type1 fonts which use single-byte
+ * character codes (0-255). Type 3 fonts also use single-byte codes, but
+ * their glyphs and metrics work differently (see Type3Font).
  *
  * Font structure:
  * <<
  *   /Type /Font
- *   /Subtype /TrueType  (or /Type1, /Type3)
+ *   /Subtype /TrueType  (or /Type1)
  *   /BaseFont /Helvetica
  *   /FirstChar 32
  *   /LastChar 255
@@ -51,7 +52,7 @@ const isSimpleFontSubtype = (subtype: unknown): subtype is SimpleFontSubtype =>
 };
 
 /**
- * SimpleFont handles single-byte encoded fonts (TrueType, Type1, Type3).
+ * SimpleFont handles single-byte encoded fonts (TrueType, Type1).
  */
 export class SimpleFont extends PdfFont {
   /** Font subtype */
@@ -405,6 +406,6 @@ const ENCODING_MAP: Record<string, FontEncoding> = {
 /**
  * Get encoding by name.
  */
-function getEncodingByName(name: string): FontEncoding {
+export function getEncodingByName(name: string): FontEncoding {
   return ENCODING_MAP[name] ?? WinAnsiEncoding.instance;
 }
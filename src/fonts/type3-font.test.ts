@@ -0,0 +1,166 @@
+import { Matrix } from "#src/helpers/matrix";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { numbers } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { FontDescriptor } from "./font-descriptor";
+import { parseFont } from "./font-factory";
+import { ToUnicodeMap } from "./to-unicode";
+import { glyphNameToUnicode, parseType3Font, Type3Font } from "./type3-font";
+
+function names(...values: Array<number | string>): PdfArray {
+  return new PdfArray(
+    values.map(value => (typeof value === "number" ? PdfNumber.of(value) : PdfName.of(value))),
+  );
+}
+
+/** A Type 3 font drawn on a 10-unit grid: 10 glyph space units = 1 em */
+const dict = PdfDict.of({
+  Type: PdfName.of("Font"),
+  Subtype: PdfName.of("Type3"),
+  Name: PdfName.of("Grid"),
+  FontBBox: numbers(0, -2, 8, 9),
+  FontMatrix: numbers(0.1, 0, 0, 0.1, 0, 0),
+  CharProcs: PdfDict.of({}),
+  Encoding: PdfDict.of({
+    Type: PdfName.of("Encoding"),
+    Differences: names(65, "A", "g42", "uni00E9", "f_i", "a1", "square"),
+  }),
+  FirstChar: PdfNumber.of(65),
+  LastChar: PdfNumber.of(71),
+  Widths: numbers(8, 7, 6, 5, 9, 4, 3),
+});
+
+describe("Type3Font", () => {
+  it("is created for /Subtype /Type3", () => {
+    const font = parseFont(dict);
+
+    expect(font).toBeInstanceOf(Type3Font);
+    expect(font.subtype).toBe("Type3");
+    expect(font.baseFontName).toBe("Grid");
+  });
+
+  describe("metrics", () => {
+    it("converts widths through the font matrix", () => {
+      const font = parseType3Font(dict);
+
+      expect(font.getWidth(65)).toBeCloseTo(800);
+      expect(font.getWidth(66)).toBeCloseTo(700);
+      expect(font.getWidth(64)).toBe(0);
+      expect(font.getTextWidth("A", 12)).toBeCloseTo(9.6);
+    });
+
+    it("converts the font bounding box into descriptor metrics", () => {
+      const { descriptor } = parseType3Font(dict);
+
+      expect(descriptor.ascent).toBeCloseTo(900);
+      expect(descriptor.descent).toBeCloseTo(-200);
+      expect(descriptor.fontBBox.map(value => Math.round(value))).toEqual([0, -200, 800, 900]);
+    });
+
+    it("handles flipped font matrices", () => {
+      const font = new Type3Font({
+        fontMatrix: new Matrix(0.01, 0, 0, -0.01, 0, 0),
+        fontBBox: [0, -70, 60, 20],
+      });
+
+      expect(font.descriptor.ascent).toBeCloseTo(700);
+      expect(font.descriptor.descent).toBeCloseTo(-200);
+    });
+
+    it("scales the font's own descriptor", () => {
+      const font = new Type3Font({
+        fontMatrix: new Matrix(0.1, 0, 0, 0.1, 0, 0),
+        fontBBox: [0, 0, 0, 0],
+        descriptor: new FontDescriptor({
+          fontName: "Grid",
+          flags: 0,
+          fontBBox: [0, -2, 8, 9],
+          italicAngle: 0,
+          ascent: 8,
+          descent: -2,
+          leading: 0,
+          capHeight: 7,
+          xHeight: 5,
+          stemV: 1,
+          stemH: 1,
+          avgWidth: 6,
+          maxWidth: 9,
+          missingWidth: 0,
+        }),
+      });
+
+      expect(font.descriptor.ascent).toBeCloseTo(800);
+      expect(font.descriptor.capHeight).toBeCloseTo(700);
+      expect(font.descriptor.fontBBox[3]).toBeCloseTo(900);
+    });
+  });
+
+  describe("toUnicode", () => {
+    const font = parseType3Font(dict);
+
+    it("reads glyph names from /Differences", () => {
+      expect(font.toUnicode(65)).toBe("A");
+      expect(font.toUnicode(66)).toBe("B"); // g42: hex code
+      expect(font.toUnicode(67)).toBe("é");
+      expect(font.toUnicode(68)).toBe("fi");
+    });
+
+    it("falls back to the character code for made-up names", () => {
+      expect(font.getGlyphName(69)).toBe("a1");
+      expect(font.toUnicode(69)).toBe("E");
+      expect(font.toUnicode(70)).toBe("F");
+      expect(font.toUnicode(200)).toBe("");
+    });
+
+    it("prefers ToUnicode", () => {
+      const withToUnicode = parseType3Font(dict, {
+        toUnicodeMap: new ToUnicodeMap(new Map([[70, "■"]])),
+      });
+
+      expect(withToUnicode.toUnicode(70)).toBe("■");
+    });
+
+    it("uses /BaseEncoding for codes without a name", () => {
+      const font = parseType3Font(
+        PdfDict.of({
+          Subtype: PdfName.of("Type3"),
+          Encoding: PdfDict.of({
+            BaseEncoding: PdfName.of("WinAnsiEncoding"),
+            Differences: names(65, "square"),
+          }),
+        }),
+      );
+
+      expect(font.toUnicode(0x80)).toBe("€");
+    });
+
+    it("encodes text with the codes it decodes from", () => {
+      expect(font.encodeText("AB")).toEqual([65, 66]);
+      expect(font.canEncode("Z")).toBe(false);
+      expect(() => font.encodeText("Z")).toThrow("Cannot encode");
+    });
+  });
+});
+
+describe("glyphNameToUnicode", () => {
+  it.each([
+    ["A", "A"],
+    ["eacute", "é"],
+    ["uni20AC", "€"],
+    ["uni00660069", "fi"],
+    ["u1F600", "😀"],
+    ["f_f_i", "ffi"],
+    ["a.sc", "a"],
+    ["G41", "A"],
+    ["c97", "a"],
+    ["a12", undefined],
+    [".notdef", undefined],
+    ["square", undefined],
+  ])("maps %s to %j", (name, expected) => {
+    expect(glyphNameToUnicode(name)).toBe(expected);
+  });
+});
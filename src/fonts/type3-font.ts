@@ -0,0 +1,396 @@
+/**
+ * Type3Font - Fonts whose glyphs are content stream procedures.
+ *
+ * Type 3 fonts (used by TeX for bitmap fonts, and by many report
+ * generators) define each glyph as a procedure in /CharProcs, drawn in
+ * glyph space. /FontMatrix maps glyph space to text space, so widths and
+ * the font bounding box are in whatever units the font chose and must go
+ * through the matrix to get to 1000-unit glyph units.
+ *
+ * Font structure:
+ * <<
+ *   /Type /Font
+ *   /Subtype /Type3
+ *   /FontBBox [0 -2 8 9]
+ *   /FontMatrix [0.1 0 0 0.1 0 0]
+ *   /CharProcs << /A 10 0 R /B 11 0 R >>
+ *   /Encoding << /Type /Encoding /Differences [65 /A /B] >>
+ *   /FirstChar 65
+ *   /LastChar 66
+ *   /Widths [8 7]
+ *   /Resources 12 0 R
+ * >>
+ *
+ * Glyph names are often made up (/g12, /a3, /C65), and ToUnicode
+ * is often missing, so Unicode comes from the glyph name where it can be
+ * worked out, and from the character code as a last resort.
+ */
+
+import { Matrix } from "#src/helpers/matrix";
+import type { RefResolver } from "#src/helpers/types.ts";
+import type { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name.ts";
+import { PdfNumber } from "#src/objects/pdf-number.ts";
+
+import { DifferencesEncoding } from "./encodings/differences";
+import type { FontEncoding } from "./encodings/encoding";
+import { glyphToUnicode } from "./encodings/glyph-list";
+import { FontDescriptor } from "./font-descriptor";
+import { PdfFont } from "./pdf-font";
+import { getEncodingByName } from "./simple-font";
+import type { ToUnicodeMap } from "./to-unicode";
+
+/** The usual font matrix: 1000 glyph space units to the em */
+const DEFAULT_FONT_MATRIX = new Matrix(0.001, 0, 0, 0.001, 0, 0);
+
+/**
+ * Type3Font handles fonts with glyphs defined by content stream procedures.
+ */
+export class Type3Font extends PdfFont {
+  readonly subtype = "Type3";
+
+  /** Font name (/Name, or /BaseFont where a producer sets it) */
+  readonly baseFontName: string;
+
+  /** Maps glyph space to text space */
+  readonly fontMatrix: Matrix;
+
+  /** Bounding box of all glyphs, in glyph space */
+  readonly fontBBox: [number, number, number, number];
+
+  /** First character code in the Widths array */
+  readonly firstChar: number;
+
+  /** Last character code in the Widths array */
+  readonly lastChar: number;
+
+  /** Width array indexed from firstChar, in glyph space */
+  private readonly widths: number[];
+
+  /** Glyph names by character code, from /Differences */
+  private readonly glyphNames: Map<number, string>;
+
+  /** Encoding for codes /Differences doesn't name (from /BaseEncoding) */
+  private readonly baseEncoding: FontEncoding | null;
+
+  /** Glyph procedures by glyph name */
+  readonly charProcs: PdfDict | null;
+
+  /** ToUnicode map for text extraction (optional) */
+  private readonly toUnicodeMap: ToUnicodeMap | null;
+
+  /** Font descriptor with metrics in glyph units (1000 = 1 em) */
+  private readonly _descriptor: FontDescriptor;
+
+  /** Unicode -> code, built on first encode */
+  private codesByText: Map<string, number> | null = null;
+
+  constructor(options: {
+    baseFontName?: string;
+    fontMatrix?: Matrix;
+    fontBBox?: [number, number, number, number];
+    firstChar?: number;
+    lastChar?: number;
+    widths?: number[];
+    glyphNames?: Map<number, string>;
+    baseEncoding?: FontEncoding | null;
+    charProcs?: PdfDict | null;
+    toUnicodeMap?: ToUnicodeMap | null;
+    descriptor?: FontDescriptor | null;
+  }) {
+    super();
+    this.baseFontName = options.baseFontName ?? "Type3";
+    this.fontMatrix = options.fontMatrix ?? DEFAULT_FONT_MATRIX;
+    this.fontBBox = options.fontBBox ?? [0, 0, 0, 0];
+    this.firstChar = options.firstChar ?? 0;
+    this.lastChar = options.lastChar ?? 255;
+    this.widths = options.widths ?? [];
+    this.glyphNames = options.glyphNames ?? new Map();
+    this.baseEncoding = options.baseEncoding ?? null;
+    this.charProcs = options.charProcs ?? null;
+    this.toUnicodeMap = options.toUnicodeMap ?? null;
+    this._descriptor = this.scaleDescriptor(options.descriptor ?? null);
+  }
+
+  /**
+   * Get the font descriptor. Its metrics are converted from glyph space
+   * through the font matrix, and come from /FontBBox when the font has no
+   * descriptor of its own.
+   */
+  get descriptor(): FontDescriptor {
+    return this._descriptor;
+  }
+
+  /**
+   * Get the width of a character code in glyph units (1000 = 1 em).
+   */
+  getWidth(code: number): number {
+    if (code < this.firstChar || code > this.lastChar) {
+      return 0;
+    }
+
+    const width = this.widths[code - this.firstChar] ?? 0;
+
+    return width * this.fontMatrix.a * 1000;
+  }
+
+  /**
+   * Get the glyph name a character code is drawn with.
+   */
+  getGlyphName(code: number): string | undefined {
+    return this.glyphNames.get(code);
+  }
+
+  /**
+   * Decode character code to Unicode string.
+   *
+   * Uses ToUnicode, then the glyph name, then /BaseEncoding. Fonts that
+   * name glyphs arbitrarily usually keep printable ASCII codes for the
+   * characters they look like, so those codes are used as they are.
+   */
+  toUnicode(code: number): string {
+    // Try ToUnicode map first (most accurate)
+    if (this.toUnicodeMap?.has(code)) {
+      // biome-ignore lint/style/noNonNullAssertion: checked with has(...)
+      return this.toUnicodeMap.get(code)!;
+    }
+
+    const glyphName = this.glyphNames.get(code);
+    const fromName = glyphName ? glyphNameToUnicode(glyphName) : undefined;
+
+    if (fromName !== undefined) {
+      return fromName;
+    }
+
+    if (glyphName === undefined && this.baseEncoding) {
+      return this.baseEncoding.decode(code);
+    }
+
+    return code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : "";
+  }
+
+  /**
+   * Encode text to character codes.
+   *
+   * @throws {Error} if a character has no glyph in the font
+   */
+  encodeText(text: string): number[] {
+    const codes: number[] = [];
+
+    for (const char of text) {
+      const code = this.getCodes().get(char);
+
+      if (code === undefined) {
+        throw new Error(`Cannot encode '${char}' in Type 3 font ${this.baseFontName}`);
+      }
+
+      codes.push(code);
+    }
+
+    return codes;
+  }
+
+  /**
+   * Check if text can be encoded with this font.
+   */
+  canEncode(text: string): boolean {
+    const codes = this.getCodes();
+
+    for (const char of text) {
+      if (!codes.has(char)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private getCodes(): Map<string, number> {
+    if (!this.codesByText) {
+      this.codesByText = new Map();
+
+      for (let code = this.firstChar; code <= this.lastChar; code++) {
+        const text = this.toUnicode(code);
+
+        if (text && !this.codesByText.has(text)) {
+          this.codesByText.set(text, code);
+        }
+      }
+    }
+
+    return this.codesByText;
+  }
+
+  /**
+   * Convert a descriptor's metrics (or, without one, /FontBBox) from glyph
+   * space to glyph units.
+   */
+  private scaleDescriptor(descriptor: FontDescriptor | null): FontDescriptor {
+    const scaleX = (value: number) => value * this.fontMatrix.a * 1000;
+    const scaleY = (value: number) => value * this.fontMatrix.d * 1000;
+    // /FontBBox is required in Type 3 fonts, but may be all zeros ("unknown")
+    const [llx, lly, urx, ury] =
+      this.fontBBox.every(value => value === 0) && descriptor ? descriptor.fontBBox : this.fontBBox;
+    const corners = [
+      this.fontMatrix.transformPoint(llx, lly),
+      this.fontMatrix.transformPoint(urx, lly),
+      this.fontMatrix.transformPoint(urx, ury),
+      this.fontMatrix.transformPoint(llx, ury),
+    ];
+    const xs = corners.map(corner => corner.x * 1000);
+    const ys = corners.map(corner => corner.y * 1000);
+    const fontBBox: [number, number, number, number] = [
+      Math.min(...xs),
+      Math.min(...ys),
+      Math.max(...xs),
+      Math.max(...ys),
+    ];
+
+    // A flipped font matrix swaps the ascent and descent
+    const [ascent, descent] =
+      descriptor && (descriptor.ascent !== 0 || descriptor.descent !== 0)
+        ? [scaleY(descriptor.ascent), scaleY(descriptor.descent)].sort((a, b) => b - a)
+        : [fontBBox[3], fontBBox[1]];
+
+    return new FontDescriptor({
+      fontName: descriptor?.fontName ?? this.baseFontName,
+      flags: descriptor?.flags ?? 0,
+      fontBBox,
+      italicAngle: descriptor?.italicAngle ?? 0,
+      ascent,
+      descent,
+      leading: Math.abs(scaleY(descriptor?.leading ?? 0)),
+      capHeight: Math.abs(scaleY(descriptor?.capHeight ?? 0)),
+      xHeight: Math.abs(scaleY(descriptor?.xHeight ?? 0)),
+      stemV: scaleX(descriptor?.stemV ?? 0),
+      stemH: Math.abs(scaleY(descriptor?.stemH ?? 0)),
+      avgWidth: scaleX(descriptor?.avgWidth ?? 0),
+      maxWidth: scaleX(descriptor?.maxWidth ?? 0),
+      missingWidth: scaleX(descriptor?.missingWidth ?? 0),
+    });
+  }
+}
+
+/**
+ * Work out the Unicode text of a glyph name, following the Adobe Glyph
+ * List conventions: "uniXXXX" and "uXXXX[XX]" names, ligatures joined by
+ * "_", and suffixes after "." ("a.sc"). Names built from a character code
+ * ("g41" in hex, "c65" in decimal) give the code's ASCII character.
+ *
+ * The Dingbats names "a1"-"a191" aren't used: in Type 3 fonts, names like
+ * those are numbered glyphs, not Dingbats.
+ */
+export function glyphNameToUnicode(name: string): string | undefined {
+  if (name === ".notdef") {
+    return undefined;
+  }
+
+  const base = name.split(".")[0];
+
+  if (base === "") {
+    return undefined;
+  }
+
+  if (base.includes("_")) {
+    const parts = base.split("_").map(glyphNameToUnicode);
+
+    return parts.every(part => part !== undefined) ? parts.join("") : undefined;
+  }
+
+  const listed = /^a\d+$/.test(base) ? undefined : glyphToUnicode(base);
+
+  if (listed !== undefined) {
+    return String.fromCodePoint(listed);
+  }
+
+  const uni = /^uni((?:[0-9A-F]{4})+)$/.exec(base);
+
+  if (uni) {
+    return String.fromCodePoint(
+      ...(uni[1].match(/.{4}/g) ?? []).map(hex => Number.parseInt(hex, 16)),
+    );
+  }
+
+  const u = /^u([0-9A-F]{4,6})$/.exec(base);
+
+  if (u) {
+    const codePoint = Number.parseInt(u[1], 16);
+
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : undefined;
+  }
+
+  const numbered = /^(?:[Gg]([0-9A-Fa-f]{2})|[Cc](\d{2,3}))$/.exec(base);
+
+  if (numbered) {
+    const code = numbered[1] ? Number.parseInt(numbered[1], 16) : Number(numbered[2]);
+
+    return code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a Type3Font from a PDF font dictionary.
+ */
+export function parseType3Font(
+  dict: PdfDict,
+  options: {
+    resolver?: RefResolver;
+    toUnicodeMap?: ToUnicodeMap | null;
+  } = {},
+): Type3Font {
+  const baseFontName =
+    dict.getName("Name", options.resolver)?.value ??
+    dict.getName("BaseFont", options.resolver)?.value;
+
+  const fontMatrix = parseNumbers(dict, "FontMatrix", 6, options.resolver);
+  const fontBBox = parseNumbers(dict, "FontBBox", 4, options.resolver);
+  const widths = dict
+    .getArray("Widths", options.resolver)
+    ?.toArray()
+    .map(item => (item instanceof PdfNumber ? item.value : 0));
+
+  // Glyph names from /Differences, and the base encoding if there is one
+  const encodingDict = dict.getDict("Encoding", options.resolver);
+  const baseEncodingName = encodingDict?.getName("BaseEncoding", options.resolver);
+  const differences = encodingDict?.getArray("Differences", options.resolver);
+  const glyphNames = DifferencesEncoding.parseDifferencesArray(
+    (differences?.toArray() ?? []).flatMap(item =>
+      item instanceof PdfNumber || item instanceof PdfName ? [item.value] : [],
+    ),
+  );
+
+  const fontDescriptor = dict.getDict("FontDescriptor", options.resolver);
+
+  return new Type3Font({
+    baseFontName,
+    fontMatrix: fontMatrix && fontMatrix[0] !== 0 ? Matrix.fromArray(fontMatrix) : undefined,
+    fontBBox: fontBBox && [fontBBox[0], fontBBox[1], fontBBox[2], fontBBox[3]],
+    firstChar: dict.getNumber("FirstChar", options.resolver)?.value,
+    lastChar: dict.getNumber("LastChar", options.resolver)?.value,
+    widths,
+    glyphNames,
+    baseEncoding: baseEncodingName ? getEncodingByName(baseEncodingName.value) : null,
+    charProcs: dict.getDict("CharProcs", options.resolver) ?? null,
+    toUnicodeMap: options.toUnicodeMap,
+    descriptor: fontDescriptor ? FontDescriptor.parse(fontDescriptor) : null,
+  });
+}
+
+/**
+ * Read an array of exactly `count` numbers.
+ */
+function parseNumbers(
+  dict: PdfDict,
+  key: string,
+  count: number,
+  resolver?: RefResolver,
+): number[] | undefined {
+  const values = dict
+    .getArray(key, resolver)
+    ?.toArray()
+    .map(item => (item instanceof PdfNumber ? item.value : NaN));
+
+  return values?.length === count && values.every(Number.isFinite) ? values : undefined;
+}
@@ -0,0 +1,282 @@
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { numbers } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { parseFunction } from "./pdf-function";
+
+const resolve = () => null;
+
+function exponential(c0: number[], c1: number[], n = 1): PdfDict {
+  return PdfDict.of({
+    FunctionType: PdfNumber.of(2),
+    Domain: numbers(0, 1),
+    C0: numbers(...c0),
+    C1: numbers(...c1),
+    N: PdfNumber.of(n),
+  });
+}
+
+function sampled(entries: Record<string, PdfObject>, data: number[]): PdfStream {
+  return PdfStream.fromDict({ FunctionType: PdfNumber.of(0), ...entries }, new Uint8Array(data));
+}
+
+function expectClose(actual: number[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+
+  for (let i = 0; i < expected.length; i++) {
+    expect(actual[i]).toBeCloseTo(expected[i], 5);
+  }
+}
+
+describe("parseFunction", () => {
+  describe("exponential (type 2)", () => {
+    it("interpolates between C0 and C1", () => {
+      const fn = parseFunction(exponential([0, 1, 0], [1, 0, 0.5]), resolve);
+
+      expect(fn.inputs).toBe(1);
+      expect(fn.outputs).toBe(3);
+      expectClose(fn.evaluate([0.25]), [0.25, 0.75, 0.125]);
+    });
+
+    it("raises the input to N and clips it to the domain", () => {
+      const fn = parseFunction(exponential([0], [1], 2), resolve);
+
+      expectClose(fn.evaluate([0.5]), [0.25]);
+      expectClose(fn.evaluate([3]), [1]);
+      expectClose(fn.evaluate([-1]), [0]);
+    });
+
+    it("defaults C0 to 0 and C1 to 1", () => {
+      const fn = parseFunction(
+        PdfDict.of({ FunctionType: PdfNumber.of(2), Domain: numbers(0, 1), N: PdfNumber.of(1) }),
+        resolve,
+      );
+
+      expectClose(fn.evaluate([0.4]), [0.4]);
+    });
+  });
+
+  describe("stitching (type 3)", () => {
+    it("picks the subfunction for the input's subdomain", () => {
+      const fn = parseFunction(
+        PdfDict.of({
+          FunctionType: PdfNumber.of(3),
+          Domain: numbers(0, 1),
+          Functions: new PdfArray([exponential([0], [1]), exponential([1], [0])]),
+          Bounds: numbers(0.5),
+          Encode: numbers(0, 1, 0, 1),
+        }),
+        resolve,
+      );
+
+      expectClose(fn.evaluate([0.25]), [0.5]);
+      expectClose(fn.evaluate([0.5]), [1]);
+      expectClose(fn.evaluate([0.75]), [0.5]);
+    });
+
+    it("maps subdomains through /Encode", () => {
+      const fn = parseFunction(
+        PdfDict.of({
+          FunctionType: PdfNumber.of(3),
+          Domain: numbers(0, 2),
+          Functions: new PdfArray([exponential([0], [1])]),
+          Bounds: numbers(),
+          Encode: numbers(1, 0),
+        }),
+        resolve,
+      );
+
+      expectClose(fn.evaluate([0.5]), [0.75]);
+    });
+
+    it("rejects mismatched bounds", () => {
+      const dict = PdfDict.of({
+        FunctionType: PdfNumber.of(3),
+        Domain: numbers(0, 1),
+        Functions: new PdfArray([exponential([0], [1]), exponential([1], [0])]),
+        Bounds: numbers(),
+        Encode: numbers(0, 1, 0, 1),
+      });
+
+      expect(() => parseFunction(dict, resolve)).toThrow("Invalid stitching function");
+    });
+  });
+
+  describe("sampled (type 0)", () => {
+    it("interpolates linearly between samples", () => {
+      const fn = parseFunction(
+        sampled(
+          {
+            Domain: numbers(0, 1),
+            Range: numbers(0, 1, 0, 1),
+            Size: numbers(3),
+            BitsPerSample: PdfNumber.of(8),
+          },
+          [0, 255, 255, 0, 0, 255],
+        ),
+        resolve,
+      );
+
+      expect(fn.outputs).toBe(2);
+      expectClose(fn.evaluate([0]), [0, 1]);
+      expectClose(fn.evaluate([0.25]), [0.5, 0.5]);
+      expectClose(fn.evaluate([0.5]), [1, 0]);
+      expectClose(fn.evaluate([1]), [0, 1]);
+    });
+
+    it("interpolates bilinearly with two inputs", () => {
+      // 2x2 grid, first input varying fastest
+      const fn = parseFunction(
+        sampled(
+          {
+            Domain: numbers(0, 1, 0, 1),
+            Range: numbers(0, 1),
+            Size: numbers(2, 2),
+            BitsPerSample: PdfNumber.of(8),
+          },
+          [0, 255, 255, 255],
+        ),
+        resolve,
+      );
+
+      expect(fn.inputs).toBe(2);
+      expectClose(fn.evaluate([0.5, 0]), [0.5]);
+      expectClose(fn.evaluate([0.5, 0.5]), [0.75]);
+      expectClose(fn.evaluate([1, 1]), [1]);
+    });
+
+    it("reads packed samples and applies /Encode and /Decode", () => {
+      // 4-bit samples 0, 15, 5
+      const fn = parseFunction(
+        sampled(
+          {
+            Domain: numbers(0, 1),
+            Range: numbers(0, 100),
+            Size: numbers(3),
+            BitsPerSample: PdfNumber.of(4),
+            Encode: numbers(2, 0),
+            Decode: numbers(0, 30),
+          },
+          [0x0f, 0x50],
+        ),
+        resolve,
+      );
+
+      expectClose(fn.evaluate([0]), [10]);
+      expectClose(fn.evaluate([1]), [0]);
+      expectClose(fn.evaluate([0.5]), [30]);
+    });
+
+    it("reads 12-bit samples", () => {
+      const fn = parseFunction(
+        sampled(
+          {
+            Domain: numbers(0, 1),
+            Range: numbers(0, 1),
+            Size: numbers(2),
+            BitsPerSample: PdfNumber.of(12),
+          },
+          [0x00, 0x0f, 0xff],
+        ),
+        resolve,
+      );
+
+      expectClose(fn.evaluate([0]), [0]);
+      expectClose(fn.evaluate([1]), [1]);
+    });
+
+    it("requires /Range", () => {
+      const stream = sampled(
+        { Domain: numbers(0, 1), Size: numbers(2), BitsPerSample: PdfNumber.of(8) },
+        [0, 255],
+      );
+
+      expect(() => parseFunction(stream, resolve)).toThrow("missing /Range");
+    });
+  });
+
+  describe("PostScript calculator (type 4)", () => {
+    function calculator(domain: number[], range: number[], source: string): PdfStream {
+      return PdfStream.fromDict(
+        { FunctionType: PdfNumber.of(4), Domain: numbers(...domain), Range: numbers(...range) },
+        new TextEncoder().encode(source),
+      );
+    }
+
+    it("runs the program on the inputs and returns the stack", () => {
+      const fn = parseFunction(
+        calculator([0, 1, 0, 1], [0, 1, 0, 1, 0, 1], "{ 2 copy add 3 1 roll }"),
+        resolve,
+      );
+
+      expect(fn.inputs).toBe(2);
+      expect(fn.outputs).toBe(3);
+      expectClose(fn.evaluate([0.25, 0.5]), [0.75, 0.25, 0.5]);
+    });
+
+    it("clips inputs to the domain and outputs to the range", () => {
+      const fn = parseFunction(calculator([0, 1], [0, 0.5], "{ 2 mul }"), resolve);
+
+      expectClose(fn.evaluate([0.2]), [0.4]);
+      expectClose(fn.evaluate([0.4]), [0.5]);
+      expectClose(fn.evaluate([-3]), [0]);
+    });
+
+    it("requires /Range", () => {
+      const stream = PdfStream.fromDict(
+        { FunctionType: PdfNumber.of(4), Domain: numbers(0, 1) },
+        new TextEncoder().encode("{ }"),
+      );
+
+      expect(() => parseFunction(stream, resolve)).toThrow("missing /Range");
+    });
+
+    it("throws when the program leaves too few numbers", () => {
+      expect(() =>
+        parseFunction(calculator([0, 1], [0, 1, 0, 1], "{ }"), resolve).evaluate([0]),
+      ).toThrow("too few results");
+      expect(() =>
+        parseFunction(calculator([0, 1], [0, 1], "{ 0.5 gt }"), resolve).evaluate([1]),
+      ).toThrow("non-numeric result");
+    });
+  });
+
+  it("concatenates the outputs of an array of functions", () => {
+    const fn = parseFunction(new PdfArray([exponential([0], [1]), exponential([1], [0])]), resolve);
+
+    expect(fn.outputs).toBe(2);
+    expectClose(fn.evaluate([0.25]), [0.25, 0.75]);
+  });
+
+  it("clips outputs to /Range", () => {
+    const dict = exponential([0], [2]);
+
+    dict.set("Range", numbers(0, 1));
+
+    expectClose(parseFunction(dict, resolve).evaluate([1]), [1]);
+  });
+
+  it("resolves references", () => {
+    const ref = PdfRef.of(5, 0);
+    const fn = parseFunction(ref, r => (r === ref ? exponential([0], [1]) : null));
+
+    expectClose(fn.evaluate([0.5]), [0.5]);
+  });
+
+  it("rejects functions without a domain", () => {
+    const dict = PdfDict.of({ FunctionType: PdfNumber.of(2), N: PdfNumber.of(1) });
+
+    expect(() => parseFunction(dict, resolve)).toThrow("missing /Domain");
+  });
+
+  it("rejects unknown function types", () => {
+    const dict = PdfDict.of({ FunctionType: PdfNumber.of(7), Domain: numbers(0, 1) });
+
+    expect(() => parseFunction(dict, resolve)).toThrow("Unsupported function type 7");
+  });
+});
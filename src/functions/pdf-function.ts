@@ -0,0 +1,400 @@
+/**
+ * PDF functions (PDF 1.7 section 7.10).
+ *
+ * Functions map m inputs to n outputs. They're used for tint transforms,
+ * shadings and transfer functions. `parseFunction()` reads a function
+ * dictionary or stream once and returns a closure that evaluates it;
+ * PostScript calculator programs are compiled to closures up front.
+ */
+
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+
+import { compilePostScript, type Operand } from "./postscript-calculator";
+
+/**
+ * A parsed PDF function.
+ */
+export interface PdfFunction {
+  /** Number of inputs (m) */
+  readonly inputs: number;
+
+  /** Number of outputs (n) */
+  readonly outputs: number;
+
+  /**
+   * Evaluate the function. Inputs are clipped to the domain and outputs
+   * to the range.
+   */
+  evaluate(input: ArrayLike<number>): number[];
+}
+
+/** Nested stitching functions deeper than this are treated as broken */
+const MAX_DEPTH = 16;
+
+/**
+ * Parse a function dictionary or stream, or an array of 1-output
+ * functions whose outputs are concatenated (as shadings allow).
+ *
+ * @throws {Error} If the function is invalid or of an unsupported type
+ */
+export function parseFunction(object: PdfObject, resolve: RefResolver): PdfFunction {
+  return parse(object, resolve, 0);
+}
+
+function parse(object: PdfObject, resolve: RefResolver, depth: number): PdfFunction {
+  const value = object instanceof PdfRef ? resolve(object) : object;
+
+  if (depth > MAX_DEPTH) {
+    throw new Error("Function nesting is too deep");
+  }
+
+  if (value instanceof PdfArray) {
+    return combine(value.toArray().map(item => parse(item, resolve, depth + 1)));
+  }
+
+  if (!(value instanceof PdfDict)) {
+    throw new Error("Invalid function: expected a dictionary or stream");
+  }
+
+  const type = value.getNumber("FunctionType", resolve)?.value;
+  const domain = numbers(value, "Domain", resolve);
+
+  if (!domain || domain.length < 2 || domain.length % 2 !== 0) {
+    throw new Error("Invalid function: missing /Domain");
+  }
+
+  const range = numbers(value, "Range", resolve);
+
+  switch (type) {
+    case 0:
+      if (!(value instanceof PdfStream)) {
+        throw new Error("Invalid sampled function: expected a stream");
+      }
+
+      return sampled(value, domain, range, resolve);
+
+    case 2:
+      return exponential(value, domain, range, resolve);
+
+    case 3:
+      return stitching(value, domain, range, resolve, depth);
+
+    case 4:
+      if (!(value instanceof PdfStream)) {
+        throw new Error("Invalid PostScript calculator function: expected a stream");
+      }
+
+      return calculator(value, domain, range, resolve);
+  }
+
+  throw new Error(`Unsupported function type ${type ?? "(missing)"}`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Function Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Type 0: samples on a grid, interpolated multilinearly. Cubic spline
+ * interpolation (/Order 3) is approximated linearly too.
+ */
+function sampled(
+  stream: PdfStream,
+  domain: number[],
+  range: number[] | undefined,
+  resolve: RefResolver,
+): PdfFunction {
+  const inputs = domain.length / 2;
+  const size = numbers(stream, "Size", resolve);
+  const bits = stream.getNumber("BitsPerSample", resolve)?.value ?? 0;
+
+  if (!range || range.length < 2) {
+    throw new Error("Invalid sampled function: missing /Range");
+  }
+
+  if (!size || size.length !== inputs || size.some(s => !(s >= 1 && Number.isInteger(s)))) {
+    throw new Error("Invalid sampled function: bad /Size");
+  }
+
+  if (![1, 2, 4, 8, 12, 16, 24, 32].includes(bits)) {
+    throw new Error(`Invalid sampled function: BitsPerSample ${bits}`);
+  }
+
+  const outputs = range.length / 2;
+  const encode = numbers(stream, "Encode", resolve) ?? size.flatMap(s => [0, s - 1]);
+  const decode = numbers(stream, "Decode", resolve) ?? range;
+  const samples = readSamples(stream.getDecodedData(resolve), size, outputs, bits);
+
+  // Sample offsets of one step along each input
+  const strides: number[] = [];
+
+  for (let i = 0, stride = outputs; i < inputs; i++) {
+    strides.push(stride);
+    stride *= size[i];
+  }
+
+  const corners = 1 << inputs;
+
+  return {
+    inputs,
+    outputs,
+    evaluate(input) {
+      const low: number[] = [];
+      const fraction: number[] = [];
+
+      for (let i = 0; i < inputs; i++) {
+        const x = clip(input[i] ?? 0, domain[i * 2], domain[i * 2 + 1]);
+        const e = clip(
+          interpolate(x, domain[i * 2], domain[i * 2 + 1], encode[i * 2], encode[i * 2 + 1]),
+          0,
+          size[i] - 1,
+        );
+        const index = Math.min(Math.floor(e), size[i] - 2);
+
+        // A single sample along this input never interpolates
+        low.push(Math.max(index, 0));
+        fraction.push(size[i] > 1 ? e - Math.max(index, 0) : 0);
+      }
+
+      const result = new Array<number>(outputs).fill(0);
+
+      // Weighted sum over the corners of the cell the point lies in
+      for (let corner = 0; corner < corners; corner++) {
+        let weight = 1;
+        let offset = 0;
+
+        for (let i = 0; i < inputs; i++) {
+          const high = (corner >> i) & 1;
+
+          weight *= high ? fraction[i] : 1 - fraction[i];
+          offset += (low[i] + high) * strides[i];
+        }
+
+        if (weight === 0) {
+          continue;
+        }
+
+        for (let j = 0; j < outputs; j++) {
+          result[j] += weight * samples[offset + j];
+        }
+      }
+
+      const maxValue = 2 ** bits - 1;
+
+      for (let j = 0; j < outputs; j++) {
+        const value = interpolate(result[j], 0, maxValue, decode[j * 2], decode[j * 2 + 1]);
+
+        result[j] = clip(value, range[j * 2], range[j * 2 + 1]);
+      }
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Type 2: C0 + x^N * (C1 - C0).
+ */
+function exponential(
+  dict: PdfDict,
+  domain: number[],
+  range: number[] | undefined,
+  resolve: RefResolver,
+): PdfFunction {
+  const c0 = numbers(dict, "C0", resolve) ?? [0];
+  const c1 = numbers(dict, "C1", resolve) ?? [1];
+  const n = dict.getNumber("N", resolve)?.value;
+
+  if (n === undefined) {
+    throw new Error("Invalid exponential function: missing /N");
+  }
+
+  if (c0.length !== c1.length) {
+    throw new Error("Invalid exponential function: /C0 and /C1 differ in length");
+  }
+
+  return {
+    inputs: 1,
+    outputs: c0.length,
+    evaluate(input) {
+      const power = clip(input[0] ?? 0, domain[0], domain[1]) ** n;
+
+      return c0.map((start, j) => clipToRange(start + power * (c1[j] - start), range, j));
+    },
+  };
+}
+
+/**
+ * Type 3: 1-input functions stitched together over subdomains.
+ */
+function stitching(
+  dict: PdfDict,
+  domain: number[],
+  range: number[] | undefined,
+  resolve: RefResolver,
+  depth: number,
+): PdfFunction {
+  const entries = dict.getArray("Functions", resolve);
+
+  if (!entries || entries.length === 0) {
+    throw new Error("Invalid stitching function: missing /Functions");
+  }
+
+  const functions = entries.toArray().map(item => parse(item, resolve, depth + 1));
+  const bounds = numbers(dict, "Bounds", resolve) ?? [];
+  const encode = numbers(dict, "Encode", resolve) ?? [];
+
+  if (bounds.length !== functions.length - 1 || encode.length < functions.length * 2) {
+    throw new Error("Invalid stitching function: /Bounds or /Encode don't match /Functions");
+  }
+
+  const [start, end] = domain;
+
+  return {
+    inputs: 1,
+    outputs: functions[0].outputs,
+    evaluate(input) {
+      const x = clip(input[0] ?? 0, start, end);
+      let k = 0;
+
+      while (k < bounds.length && x >= bounds[k]) {
+        k++;
+      }
+
+      const low = k === 0 ? start : bounds[k - 1];
+      const high = k === bounds.length ? end : bounds[k];
+
+      // An empty subdomain (equal bounds) maps to the start of its encoding
+      const encoded =
+        low === high ? encode[k * 2] : interpolate(x, low, high, encode[k * 2], encode[k * 2 + 1]);
+
+      return functions[k].evaluate([encoded]).map((value, j) => clipToRange(value, range, j));
+    },
+  };
+}
+
+/**
+ * Type 4: a PostScript calculator program, run on the inputs and leaving
+ * the outputs on the stack.
+ */
+function calculator(
+  stream: PdfStream,
+  domain: number[],
+  range: number[] | undefined,
+  resolve: RefResolver,
+): PdfFunction {
+  if (!range || range.length < 2) {
+    throw new Error("Invalid PostScript calculator function: missing /Range");
+  }
+
+  const program = compilePostScript(new TextDecoder().decode(stream.getDecodedData(resolve)));
+  const inputs = domain.length / 2;
+  const outputs = range.length / 2;
+
+  return {
+    inputs,
+    outputs,
+    evaluate(input) {
+      const stack: Operand[] = [];
+
+      for (let i = 0; i < inputs; i++) {
+        stack.push(clip(input[i] ?? 0, domain[i * 2], domain[i * 2 + 1]));
+      }
+
+      program(stack);
+
+      if (stack.length < outputs) {
+        throw new Error("PostScript function error: too few results");
+      }
+
+      // The results are the top n values, the last output on top
+      return stack.slice(stack.length - outputs).map((value, j) => {
+        if (typeof value !== "number") {
+          throw new Error("PostScript function error: non-numeric result");
+        }
+
+        return clip(value, range[j * 2], range[j * 2 + 1]);
+      });
+    },
+  };
+}
+
+/**
+ * An array of 1-output functions, evaluated on the same input.
+ */
+function combine(functions: PdfFunction[]): PdfFunction {
+  if (functions.length === 0) {
+    throw new Error("Invalid function: empty array");
+  }
+
+  return {
+    inputs: functions[0].inputs,
+    outputs: functions.reduce((sum, fn) => sum + fn.outputs, 0),
+    evaluate(input) {
+      return functions.flatMap(fn => fn.evaluate(input));
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read a sampled function's table: samples packed big-endian, with no
+ * padding between rows. Missing samples read as 0.
+ */
+function readSamples(data: Uint8Array, size: number[], outputs: number, bits: number): number[] {
+  const count = size.reduce((product, s) => product * s, outputs);
+  const samples = new Array<number>(count);
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    let value = 0;
+
+    for (let read = 0; read < bits; ) {
+      const byte = data[position >> 3] ?? 0;
+      const available = 8 - (position & 7);
+      const take = Math.min(available, bits - read);
+      const chunk = (byte >> (available - take)) & ((1 << take) - 1);
+
+      value = value * (1 << take) + chunk;
+      read += take;
+      position += take;
+    }
+
+    samples[i] = value;
+  }
+
+  return samples;
+}
+
+function numbers(dict: PdfDict, key: string, resolve: RefResolver): number[] | undefined {
+  const array = dict.getArray(key, resolve);
+
+  return array?.toArray().map(item => {
+    const value = item instanceof PdfRef ? resolve(item) : item;
+
+    return value instanceof PdfNumber ? value.value : 0;
+  });
+}
+
+function interpolate(x: number, xMin: number, xMax: number, yMin: number, yMax: number): number {
+  return xMax === xMin ? yMin : yMin + ((x - xMin) * (yMax - yMin)) / (xMax - xMin);
+}
+
+function clip(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
+
+function clipToRange(value: number, range: number[] | undefined, index: number): number {
+  return range && range.length >= index * 2 + 2
+    ? clip(value, range[index * 2], range[index * 2 + 1])
+    : value;
+}
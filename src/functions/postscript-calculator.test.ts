@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+
+import { compilePostScript, type Operand } from "./postscript-calculator";
+
+function execute(source: string, ...stack: Operand[]): Operand[] {
+  compilePostScript(source)(stack);
+
+  return stack;
+}
+
+describe("compilePostScript", () => {
+  describe("arithmetic", () => {
+    it.each([
+      ["3 4 add", [7]],
+      ["3 4 sub", [-1]],
+      ["3 4 mul", [12]],
+      ["3 4 div", [0.75]],
+      ["7 2 idiv", [3]],
+      ["-7 2 idiv", [-3]],
+      ["7 3 mod", [1]],
+      ["-7 3 mod", [-1]],
+      ["-2.5 abs", [2.5]],
+      ["2.5 neg", [-2.5]],
+      ["2.2 ceiling", [3]],
+      ["-2.2 floor", [-3]],
+      ["2.5 round", [3]],
+      ["-2.7 truncate", [-2]],
+      ["-2.7 cvi", [-2]],
+      ["2 cvr", [2]],
+      ["16 sqrt", [4]],
+      ["2 10 exp", [1024]],
+      ["100 log", [2]],
+      ["1 ln", [0]],
+    ])("%s", (source, expected) => {
+      expect(execute(`{ ${source} }`)).toEqual(expected);
+    });
+
+    it("works in degrees for trigonometry", () => {
+      const [sin, cos, atan, negative] = execute("{ 30 sin 60 cos 1 1 atan -1 0 atan }");
+
+      expect(sin).toBeCloseTo(0.5, 10);
+      expect(cos).toBeCloseTo(0.5, 10);
+      expect(atan).toBeCloseTo(45, 10);
+      expect(negative).toBeCloseTo(270, 10);
+    });
+  });
+
+  describe("relational, boolean and bitwise", () => {
+    it.each([
+      ["1 2 lt", [true]],
+      ["1 2 gt", [false]],
+      ["2 2 le", [true]],
+      ["2 2 ge", [true]],
+      ["1 1.0 eq", [true]],
+      ["1 true eq", [false]],
+      ["1 2 ne", [true]],
+      ["true false and", [false]],
+      ["true false or", [true]],
+      ["true true xor", [false]],
+      ["true not", [false]],
+      ["12 10 and", [8]],
+      ["12 10 or", [14]],
+      ["12 10 xor", [6]],
+      ["0 not", [-1]],
+      ["1 4 bitshift", [16]],
+      ["16 -2 bitshift", [4]],
+    ])("%s", (source, expected) => {
+      expect(execute(`{ ${source} }`)).toEqual(expected);
+    });
+
+    it("rejects mixed boolean and integer operands", () => {
+      expect(() => execute("{ true 1 and }")).toThrow("type check");
+    });
+  });
+
+  describe("stack", () => {
+    it.each([
+      ["1 2 dup", [1, 2, 2]],
+      ["1 2 exch", [2, 1]],
+      ["1 2 pop", [1]],
+      ["1 2 3 2 copy", [1, 2, 3, 2, 3]],
+      ["1 2 3 0 copy", [1, 2, 3]],
+      ["1 2 3 2 index", [1, 2, 3, 1]],
+      ["1 2 3 3 1 roll", [3, 1, 2]],
+      ["1 2 3 3 -1 roll", [2, 3, 1]],
+      ["1 2 3 3 4 roll", [3, 1, 2]],
+      ["1 2 3 0 5 roll", [1, 2, 3]],
+    ])("%s", (source, expected) => {
+      expect(execute(`{ ${source} }`)).toEqual(expected);
+    });
+
+    it("throws on underflow", () => {
+      expect(() => execute("{ add }", 1)).toThrow("stack underflow");
+      expect(() => execute("{ 5 index }", 1)).toThrow("stack underflow");
+    });
+
+    it("throws past the stack limit", () => {
+      expect(() => execute(`{ ${"1 ".repeat(101)}}`)).toThrow("stack overflow");
+    });
+  });
+
+  describe("conditionals", () => {
+    it("runs if only when the condition is true", () => {
+      const source = "{ dup 0.5 gt { 1 exch sub } if }";
+
+      expect(execute(source, 0.75)).toEqual([0.25]);
+      expect(execute(source, 0.25)).toEqual([0.25]);
+    });
+
+    it("picks a branch with ifelse, nested", () => {
+      const source = "{ dup 0 lt { pop -1 } { 0 eq { 0 } { 1 } ifelse } ifelse }";
+
+      expect(execute(source, -5)).toEqual([-1]);
+      expect(execute(source, 0)).toEqual([0]);
+      expect(execute(source, 5)).toEqual([1]);
+    });
+
+    it("requires a boolean condition", () => {
+      expect(() => execute("{ 1 { 2 } if }")).toThrow("type check");
+    });
+  });
+
+  it("runs the inputs through a tint transform", () => {
+    // A typical Separation to CMYK transform
+    const source = "{ dup 0.9 mul exch dup 0.2 mul exch dup 0 mul exch 0.1 mul }";
+
+    expect(execute(source, 0.5)).toEqual([0.45, 0.1, 0, 0.05]);
+  });
+
+  it("ignores comments and spacing", () => {
+    expect(execute("{% adds one\n1\r\n   add}", 2)).toEqual([3]);
+  });
+
+  it("reads numbers in every form", () => {
+    expect(execute("{ -1 +2 .5 3. 1e2 -2.5E-1 }")).toEqual([-1, 2, 0.5, 3, 100, -0.25]);
+  });
+
+  it.each([
+    ["1 2 add", "expected {"],
+    ["{ 1 2 add", "missing }"],
+    ["{ 1 2 add } 3", "unexpected 3"],
+    ["{ 1 2 foo }", "unsupported operator foo"],
+    ["{ 1 toString }", "unsupported operator toString"],
+    ["{ true { 1 } }", "procedure without if or ifelse"],
+    ["{ true { 1 } { 2 } if }", "if takes one procedure"],
+    ["{ true { 1 } ifelse }", "ifelse takes two procedures"],
+    ["{ true { 1 } 2 if }", "procedure before 2"],
+  ])("rejects %s", (source, message) => {
+    expect(() => compilePostScript(source)).toThrow(message);
+  });
+
+  it("throws on division by zero", () => {
+    expect(() => execute("{ 1 0 div }")).toThrow("division by zero");
+    expect(() => execute("{ 1 0 mod }")).toThrow("division by zero");
+  });
+});
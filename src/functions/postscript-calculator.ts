@@ -0,0 +1,400 @@
+/**
+ * PostScript calculator functions (PDF 1.7 section 7.10.5).
+ *
+ * A type 4 function's stream holds a small PostScript program: numbers,
+ * booleans, arithmetic, relational, bitwise and stack operators, and
+ * `if`/`ifelse` on braced procedures. `compilePostScript()` parses the
+ * program once into a tree of closures, so evaluating it is a run of
+ * plain function calls with no tokenizing or operator lookup.
+ */
+
+/** A value on the operand stack */
+export type Operand = number | boolean;
+
+/**
+ * A compiled program: runs on the operand stack, leaving its results.
+ *
+ * @throws {Error} On stack underflow or overflow, or an operand of the
+ *   wrong type
+ */
+export type PostScriptProgram = (stack: Operand[]) => void;
+
+type Instruction = (stack: Operand[]) => void;
+
+/** The operand stack limit from the spec's implementation limits */
+const STACK_LIMIT = 100;
+
+/** Procedures nested deeper than this are treated as broken */
+const MAX_DEPTH = 64;
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Compile a calculator function's program, `{ ... }` around the
+ * operators.
+ *
+ * @throws {Error} If the program is malformed or uses an operator outside
+ *   the calculator subset
+ */
+export function compilePostScript(source: string): PostScriptProgram {
+  const tokens = tokenize(source);
+
+  if (tokens[0] !== "{") {
+    throw new Error("Invalid PostScript function: expected {");
+  }
+
+  const cursor = { tokens, position: 1 };
+  const body = compileProcedure(cursor, 0);
+
+  if (cursor.position < tokens.length) {
+    throw new Error(`Invalid PostScript function: unexpected ${tokens[cursor.position]}`);
+  }
+
+  return stack => run(body, stack);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Compiling
+// ─────────────────────────────────────────────────────────────────────────────
+
+function tokenize(source: string): string[] {
+  // Comments run from % to the end of the line
+  return source.replace(/%[^\r\n]*/g, "").match(/[{}]|[^\s{}]+/g) ?? [];
+}
+
+/**
+ * Compile the procedure body after its `{`, up to and past the matching `}`.
+ */
+function compileProcedure(
+  cursor: { tokens: string[]; position: number },
+  depth: number,
+): Instruction[] {
+  if (depth > MAX_DEPTH) {
+    throw new Error("Invalid PostScript function: procedures nested too deep");
+  }
+
+  // Procedures only appear as operands of if and ifelse
+  const body: Instruction[] = [];
+  const procedures: Instruction[][] = [];
+
+  while (cursor.position < cursor.tokens.length) {
+    const token = cursor.tokens[cursor.position++];
+
+    if (token === "}") {
+      if (procedures.length > 0) {
+        throw new Error("Invalid PostScript function: procedure without if or ifelse");
+      }
+
+      return body;
+    }
+
+    if (token === "{") {
+      procedures.push(compileProcedure(cursor, depth + 1));
+
+      continue;
+    }
+
+    if (token === "if" || token === "ifelse") {
+      body.push(conditional(token, procedures));
+      procedures.length = 0;
+
+      continue;
+    }
+
+    if (procedures.length > 0) {
+      throw new Error(`Invalid PostScript function: procedure before ${token}`);
+    }
+
+    body.push(instruction(token));
+  }
+
+  throw new Error("Invalid PostScript function: missing }");
+}
+
+function conditional(operator: "if" | "ifelse", procedures: Instruction[][]): Instruction {
+  if (operator === "if") {
+    if (procedures.length !== 1) {
+      throw new Error("Invalid PostScript function: if takes one procedure");
+    }
+
+    const [then] = procedures;
+
+    return stack => {
+      if (popBoolean(stack)) {
+        run(then, stack);
+      }
+    };
+  }
+
+  if (procedures.length !== 2) {
+    throw new Error("Invalid PostScript function: ifelse takes two procedures");
+  }
+
+  const [then, otherwise] = procedures;
+
+  return stack => run(popBoolean(stack) ? then : otherwise, stack);
+}
+
+function instruction(token: string): Instruction {
+  if (NUMBER.test(token)) {
+    const value = Number(token);
+
+    return stack => {
+      stack.push(value);
+    };
+  }
+
+  // Own properties only: "toString" isn't an operator
+  const operator = Object.hasOwn(OPERATORS, token) ? OPERATORS[token] : undefined;
+
+  if (!operator) {
+    throw new Error(`Invalid PostScript function: unsupported operator ${token}`);
+  }
+
+  return operator;
+}
+
+function run(body: Instruction[], stack: Operand[]): void {
+  for (const step of body) {
+    step(stack);
+
+    if (stack.length > STACK_LIMIT) {
+      throw new Error("PostScript function error: stack overflow");
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Operators
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEGREES = 180 / Math.PI;
+
+/**
+ * A 1-operand numeric operator.
+ */
+function unary(fn: (x: number) => number): Instruction {
+  return stack => {
+    stack.push(fn(popNumber(stack)));
+  };
+}
+
+/**
+ * A 2-operand numeric operator; `fn` gets them in program order.
+ */
+function binary(fn: (a: number, b: number) => number): Instruction {
+  return stack => {
+    const b = popNumber(stack);
+    const a = popNumber(stack);
+
+    stack.push(fn(a, b));
+  };
+}
+
+/**
+ * A 2-operand numeric comparison.
+ */
+function compare(fn: (a: number, b: number) => boolean): Instruction {
+  return stack => {
+    const b = popNumber(stack);
+    const a = popNumber(stack);
+
+    stack.push(fn(a, b));
+  };
+}
+
+/**
+ * and, or and xor: logical on booleans, bitwise on integers.
+ */
+function logical(
+  bool: (a: boolean, b: boolean) => boolean,
+  int: (a: number, b: number) => number,
+): Instruction {
+  return stack => {
+    const b = pop(stack);
+    const a = pop(stack);
+
+    if (typeof a === "boolean" && typeof b === "boolean") {
+      stack.push(bool(a, b));
+    } else if (typeof a === "number" && typeof b === "number") {
+      stack.push(int(a, b));
+    } else {
+      throw new Error("PostScript function error: type check");
+    }
+  };
+}
+
+function divide(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error("PostScript function error: division by zero");
+  }
+
+  return a / b;
+}
+
+const OPERATORS: Record<string, Instruction> = {
+  // Arithmetic
+  abs: unary(Math.abs),
+  add: binary((a, b) => a + b),
+  atan: binary((num, den) => {
+    const angle = Math.atan2(num, den) * DEGREES;
+
+    return angle < 0 ? angle + 360 : angle;
+  }),
+  ceiling: unary(Math.ceil),
+  cos: unary(x => Math.cos(x / DEGREES)),
+  cvi: unary(Math.trunc),
+  cvr: unary(x => x),
+  div: binary(divide),
+  exp: binary((base, exponent) => base ** exponent),
+  floor: unary(Math.floor),
+  idiv: binary((a, b) => Math.trunc(divide(Math.trunc(a), Math.trunc(b)))),
+  ln: unary(Math.log),
+  log: unary(Math.log10),
+  mod: binary((a, b) => {
+    if (Math.trunc(b) === 0) {
+      throw new Error("PostScript function error: division by zero");
+    }
+
+    return Math.trunc(a) % Math.trunc(b);
+  }),
+  mul: binary((a, b) => a * b),
+  neg: unary(x => -x),
+  round: unary(Math.round),
+  sin: unary(x => Math.sin(x / DEGREES)),
+  sqrt: unary(Math.sqrt),
+  sub: binary((a, b) => a - b),
+  truncate: unary(Math.trunc),
+
+  // Relational, boolean and bitwise
+  and: logical(
+    (a, b) => a && b,
+    (a, b) => a & b,
+  ),
+  bitshift: binary((int, shift) => (shift >= 0 ? int << shift : int >> -shift)),
+  eq: stack => {
+    stack.push(pop(stack) === pop(stack));
+  },
+  false: stack => {
+    stack.push(false);
+  },
+  ge: compare((a, b) => a >= b),
+  gt: compare((a, b) => a > b),
+  le: compare((a, b) => a <= b),
+  lt: compare((a, b) => a < b),
+  ne: stack => {
+    stack.push(pop(stack) !== pop(stack));
+  },
+  not: stack => {
+    const value = pop(stack);
+
+    stack.push(typeof value === "boolean" ? !value : ~value);
+  },
+  or: logical(
+    (a, b) => a || b,
+    (a, b) => a | b,
+  ),
+  true: stack => {
+    stack.push(true);
+  },
+  xor: logical(
+    (a, b) => a !== b,
+    (a, b) => a ^ b,
+  ),
+
+  // Stack
+  copy: stack => {
+    const n = popCount(stack);
+
+    stack.push(...stack.slice(stack.length - n));
+  },
+  dup: stack => {
+    const value = pop(stack);
+
+    stack.push(value, value);
+  },
+  exch: stack => {
+    const b = pop(stack);
+    const a = pop(stack);
+
+    stack.push(b, a);
+  },
+  index: stack => {
+    const n = popCount(stack);
+
+    if (n >= stack.length) {
+      throw new Error("PostScript function error: stack underflow");
+    }
+
+    stack.push(stack[stack.length - 1 - n]);
+  },
+  pop: stack => {
+    pop(stack);
+  },
+  roll: stack => {
+    const j = popNumber(stack);
+    const n = popCount(stack);
+
+    if (n === 0) {
+      return;
+    }
+
+    // Positive j moves elements up, the top ones wrapping round to the bottom
+    const shift = ((Math.trunc(j) % n) + n) % n;
+    const window = stack.splice(stack.length - n, n);
+
+    stack.push(...window.slice(n - shift), ...window.slice(0, n - shift));
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function pop(stack: Operand[]): Operand {
+  const value = stack.pop();
+
+  if (value === undefined) {
+    throw new Error("PostScript function error: stack underflow");
+  }
+
+  return value;
+}
+
+function popNumber(stack: Operand[]): number {
+  const value = pop(stack);
+
+  if (typeof value !== "number") {
+    throw new Error("PostScript function error: type check");
+  }
+
+  return value;
+}
+
+function popBoolean(stack: Operand[]): boolean {
+  const value = pop(stack);
+
+  if (typeof value !== "boolean") {
+    throw new Error("PostScript function error: type check");
+  }
+
+  return value;
+}
+
+/**
+ * The count operand of copy, index and roll: a non-negative integer no
+ * larger than what's left on the stack.
+ */
+function popCount(stack: Operand[]): number {
+  const n = popNumber(stack);
+
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error("PostScript function error: range check");
+  }
+
+  if (n > stack.length) {
+    throw new Error("PostScript function error: stack underflow");
+  }
+
+  return n;
+}
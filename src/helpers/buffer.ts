@@ -43,6 +43,27 @@ export function concatBytes(arrays: Uint8Array[]): Uint8Array {
   return result;
 }
 
+/**
+ * Check whether two byte arrays hold the same bytes.
+ *
+ * @param a - First array
+ * @param b - Second array
+ * @returns True if both have the same length and contents
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
 /**
  * Convert bytes to uppercase hex string.
  *
@@ -1,6 +1,49 @@
 import { ColorSpace } from "#src/index";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { PdfString } from "#src/objects/pdf-string";
+import { numbers } from "#src/test-utils";
 import { describe, expect, it } from "vitest";
 
+import {
+  colorSpaceComponents,
+  createColorConverter,
+  defaultDecode,
+  parseColorSpace,
+} from "./colorspace";
+
+const resolve = () => null;
+
+function space(...items: PdfObject[]): PdfArray {
+  return new PdfArray(items);
+}
+
+/**
+ * Convert one colour in the given colour space.
+ */
+function convert(entry: PdfObject, ...values: number[]): number[] {
+  const converter = createColorConverter(parseColorSpace(entry, resolve), resolve);
+  const output = new Uint8Array(converter.channels);
+
+  converter.convert(values, output, 0);
+
+  return [...output];
+}
+
+function tint(c1: number[]): PdfDict {
+  return PdfDict.of({
+    FunctionType: PdfNumber.of(2),
+    Domain: numbers(0, 1),
+    C0: numbers(...c1.map(() => 0)),
+    C1: numbers(...c1),
+    N: PdfNumber.of(1),
+  });
+}
+
 describe("ColorSpace", () => {
   it("should export ColorSpace constants", () => {
     expect(ColorSpace.DeviceGray).toBe("DeviceGray");
@@ -9,3 +52,202 @@ describe("ColorSpace", () => {
     expect(ColorSpace.Pattern).toBe("Pattern");
   });
 });
+
+describe("parseColorSpace", () => {
+  it("parses device spaces and their abbreviations", () => {
+    expect(parseColorSpace(PdfName.of("DeviceRGB"), resolve)).toEqual({ kind: "rgb" });
+    expect(parseColorSpace(PdfName.of("G"), resolve)).toEqual({ kind: "gray" });
+    expect(parseColorSpace(PdfName.of("CMYK"), resolve)).toEqual({ kind: "cmyk" });
+  });
+
+  it("takes ICCBased spaces from /N, or else /Alternate", () => {
+    const withN = PdfStream.fromDict({ N: PdfNumber.of(4) });
+    const withAlternate = PdfStream.fromDict({ Alternate: PdfName.of("DeviceGray") });
+
+    expect(parseColorSpace(space(PdfName.of("ICCBased"), withN), resolve)).toEqual({
+      kind: "cmyk",
+    });
+    expect(parseColorSpace(space(PdfName.of("ICCBased"), withAlternate), resolve)).toEqual({
+      kind: "gray",
+    });
+  });
+
+  it("counts DeviceN colorants", () => {
+    const deviceN = parseColorSpace(
+      space(
+        PdfName.of("DeviceN"),
+        space(PdfName.of("Cyan"), PdfName.of("Spot")),
+        PdfName.of("DeviceCMYK"),
+        tint([1, 0, 0, 0]),
+      ),
+      resolve,
+    );
+
+    expect(deviceN).toMatchObject({ kind: "separation", names: ["Cyan", "Spot"] });
+    expect(colorSpaceComponents(deviceN)).toBe(2);
+  });
+
+  it("rejects Pattern and unknown spaces", () => {
+    expect(() => parseColorSpace(PdfName.of("Pattern"), resolve)).toThrow(
+      "Unsupported color space: Pattern",
+    );
+    expect(() => parseColorSpace(space(PdfName.of("Foo")), resolve)).toThrow(
+      "Unsupported color space: Foo",
+    );
+  });
+});
+
+describe("defaultDecode", () => {
+  it("spans palette indices and Lab ranges", () => {
+    const indexed = parseColorSpace(
+      space(
+        PdfName.of("Indexed"),
+        PdfName.of("DeviceRGB"),
+        PdfNumber.of(1),
+        PdfString.fromBytes(new Uint8Array(6)),
+      ),
+      resolve,
+    );
+    const lab = parseColorSpace(
+      space(PdfName.of("Lab"), PdfDict.of({ Range: numbers(-50, 50, -60, 60) })),
+      resolve,
+    );
+
+    expect(defaultDecode(indexed, 4)).toEqual([0, 15]);
+    expect(defaultDecode(lab, 8)).toEqual([0, 100, -50, 50, -60, 60]);
+    expect(defaultDecode({ kind: "cmyk" }, 8)).toEqual([0, 1, 0, 1, 0, 1, 0, 1]);
+  });
+});
+
+describe("createColorConverter", () => {
+  it("converts device colours", () => {
+    expect(convert(PdfName.of("DeviceGray"), 0.5)).toEqual([128]);
+    expect(convert(PdfName.of("DeviceRGB"), 1, 0, 0.2)).toEqual([255, 0, 51]);
+    expect(convert(PdfName.of("DeviceCMYK"), 0, 1, 0, 0.5)).toEqual([128, 0, 128]);
+  });
+
+  it("converts Lab to sRGB", () => {
+    const lab = space(PdfName.of("Lab"), PdfDict.of({ WhitePoint: numbers(0.9505, 1, 1.089) }));
+
+    expect(convert(lab, 100, 0, 0)).toEqual([255, 255, 255]);
+    expect(convert(lab, 0, 0, 0)).toEqual([0, 0, 0]);
+
+    // Lab(53.24, 80.09, 67.2) is sRGB red
+    const [r, g, b] = convert(lab, 53.24, 80.09, 67.2);
+
+    expect(r).toBeGreaterThan(250);
+    expect(g).toBeLessThan(5);
+    expect(b).toBeLessThan(5);
+  });
+
+  it("adapts the Lab white point", () => {
+    const d50 = space(PdfName.of("Lab"), PdfDict.of({ WhitePoint: numbers(0.9642, 1, 0.8249) }));
+
+    expect(convert(d50, 100, 0, 0)).toEqual([255, 255, 255]);
+  });
+
+  it("applies CalGray and CalRGB gamma", () => {
+    const calGray = space(
+      PdfName.of("CalGray"),
+      PdfDict.of({ WhitePoint: numbers(0.9505, 1, 1.089), Gamma: PdfNumber.of(2.2) }),
+    );
+    const calRgb = space(
+      PdfName.of("CalRGB"),
+      PdfDict.of({
+        WhitePoint: numbers(0.9505, 1, 1.089),
+        Gamma: numbers(2.2, 2.2, 2.2),
+        // sRGB primaries
+        Matrix: numbers(0.4124, 0.2126, 0.0193, 0.3576, 0.7152, 0.1192, 0.1805, 0.0722, 0.9505),
+      }),
+    );
+
+    // Gamma 2.2 is close to the sRGB curve
+    expect(convert(calGray, 0.5)[0]).toBeGreaterThan(125);
+    expect(convert(calGray, 0.5)[0]).toBeLessThan(131);
+
+    const [r, g, b] = convert(calRgb, 1, 0.5, 0);
+
+    expect(r).toBeGreaterThan(252);
+    expect(Math.abs(g - 128)).toBeLessThan(4);
+    expect(b).toBeLessThan(3);
+  });
+
+  it("looks up indexed colours through the base space", () => {
+    const indexed = space(
+      PdfName.of("Indexed"),
+      PdfName.of("DeviceCMYK"),
+      PdfNumber.of(1),
+      PdfString.fromBytes(new Uint8Array([0, 0, 0, 0, 255, 0, 255, 0])),
+    );
+
+    expect(convert(indexed, 0)).toEqual([255, 255, 255]);
+    expect(convert(indexed, 1)).toEqual([0, 255, 0]);
+
+    // Out of range indices are clamped
+    expect(convert(indexed, 7)).toEqual([0, 255, 0]);
+  });
+
+  it("converts Separation colours through the tint transform", () => {
+    const separation = space(
+      PdfName.of("Separation"),
+      PdfName.of("PANTONE 185 C"),
+      PdfName.of("DeviceCMYK"),
+      tint([0, 1, 0.8, 0]),
+    );
+
+    expect(convert(separation, 0)).toEqual([255, 255, 255]);
+    expect(convert(separation, 1)).toEqual([255, 0, 51]);
+    expect(convert(separation, 0.5)).toEqual([255, 128, 153]);
+  });
+
+  it("converts DeviceN colours, with a gray alternate giving one channel", () => {
+    const deviceN = space(
+      PdfName.of("DeviceN"),
+      space(PdfName.of("A"), PdfName.of("B")),
+      PdfName.of("DeviceGray"),
+      PdfStream.fromDict(
+        {
+          FunctionType: PdfNumber.of(0),
+          Domain: numbers(0, 1, 0, 1),
+          Range: numbers(0, 1),
+          Size: numbers(2, 2),
+          BitsPerSample: PdfNumber.of(8),
+        },
+        new Uint8Array([255, 128, 128, 0]),
+      ),
+    );
+
+    expect(convert(deviceN, 0, 0)).toEqual([255]);
+    expect(convert(deviceN, 1, 0)).toEqual([128]);
+    expect(convert(deviceN, 1, 1)).toEqual([0]);
+  });
+
+  it("runs PostScript calculator tint transforms", () => {
+    const separation = space(
+      PdfName.of("Separation"),
+      PdfName.of("Spot"),
+      PdfName.of("DeviceRGB"),
+      PdfStream.fromDict(
+        { FunctionType: PdfNumber.of(4), Domain: numbers(0, 1), Range: numbers(0, 1, 0, 1, 0, 1) },
+        new TextEncoder().encode("{ 1 exch sub dup 1 }"),
+      ),
+    );
+
+    expect(convert(separation, 0)).toEqual([255, 255, 255]);
+    expect(convert(separation, 1)).toEqual([0, 0, 255]);
+  });
+
+  it("throws for tint transforms it can't evaluate", () => {
+    const separation = parseColorSpace(
+      space(
+        PdfName.of("Separation"),
+        PdfName.of("Spot"),
+        PdfName.of("DeviceGray"),
+        PdfNumber.of(0),
+      ),
+      resolve,
+    );
+
+    expect(() => createColorConverter(separation, resolve)).toThrow("Invalid function");
+  });
+});
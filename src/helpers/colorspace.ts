@@ -1,10 +1,24 @@
 /**
- * PDF color space constants for use with low-level drawing operators.
+ * PDF color spaces.
  *
- * These are the standard PDF color space names used with setStrokingColorSpace
- * and setNonStrokingColorSpace operators.
+ * `ColorSpace` holds the standard color space names used with the
+ * setStrokingColorSpace and setNonStrokingColorSpace operators. The rest
+ * parses /ColorSpace entries and converts colour values to RGB, as image
+ * decoding needs.
  */
 
+import { parseFunction } from "#src/functions/pdf-function";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { PdfString } from "#src/objects/pdf-string";
+
+import type { RefResolver } from "./types";
+
 export const ColorSpace = {
   /** Device Gray color space (single component: 0-1) */
   DeviceGray: "DeviceGray",
@@ -20,3 +34,508 @@ export const ColorSpace = {
 } as const;
 
 export type ColorSpace = (typeof ColorSpace)[keyof typeof ColorSpace];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Colour Space Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A colour space parsed from a /ColorSpace entry, as used for image
+ * samples. Pattern spaces aren't included: images can't use them.
+ */
+export type ColorSpaceDefinition =
+  | { kind: "gray" }
+  | { kind: "rgb" }
+  | { kind: "cmyk" }
+  | { kind: "calgray"; whitePoint: number[]; gamma: number }
+  | { kind: "calrgb"; whitePoint: number[]; gamma: number[]; matrix: number[] }
+  | { kind: "lab"; whitePoint: number[]; range: number[] }
+  | { kind: "indexed"; base: ColorSpaceDefinition; hival: number; lookup: Uint8Array }
+  | {
+      /** Separation (one colorant) or DeviceN */
+      kind: "separation";
+      names: string[];
+      alternate: ColorSpaceDefinition;
+      tintTransform: PdfObject;
+    };
+
+const GRAY: ColorSpaceDefinition = { kind: "gray" };
+const RGB: ColorSpaceDefinition = { kind: "rgb" };
+const CMYK: ColorSpaceDefinition = { kind: "cmyk" };
+
+/** CIE D65, the sRGB white point */
+const D65 = [0.9505, 1, 1.089];
+
+/**
+ * Parse a colour space: a name (abbreviations from inline images
+ * included) or an array.
+ *
+ * ICCBased spaces are taken as the device space with the profile's
+ * component count (/N), or else as their /Alternate: profiles themselves
+ * aren't applied.
+ *
+ * @throws {Error} If the colour space is invalid or unsupported
+ */
+export function parseColorSpace(entry: PdfObject, resolve: RefResolver): ColorSpaceDefinition {
+  const value = entry instanceof PdfRef ? resolve(entry) : entry;
+
+  if (value instanceof PdfName) {
+    switch (value.value) {
+      case "DeviceGray":
+      case "G":
+        return GRAY;
+      case "DeviceRGB":
+      case "RGB":
+        return RGB;
+      case "DeviceCMYK":
+      case "CMYK":
+        return CMYK;
+    }
+
+    throw new Error(`Unsupported color space: ${value.value}`);
+  }
+
+  if (!(value instanceof PdfArray) || value.length === 0) {
+    throw new Error("Invalid color space");
+  }
+
+  const family = value.at(0, resolve);
+  const name = family instanceof PdfName ? family.value : "";
+
+  switch (name) {
+    case "DeviceGray":
+      return GRAY;
+
+    case "DeviceRGB":
+      return RGB;
+
+    case "DeviceCMYK":
+      return CMYK;
+
+    case "CalGray": {
+      const params = value.at(1, resolve);
+
+      return {
+        kind: "calgray",
+        whitePoint: whitePoint(params, resolve),
+        gamma: params instanceof PdfDict ? (params.getNumber("Gamma", resolve)?.value ?? 1) : 1,
+      };
+    }
+
+    case "CalRGB": {
+      const params = value.at(1, resolve);
+      const gamma = params instanceof PdfDict ? numbers(params.getArray("Gamma", resolve)) : [];
+      const matrix = params instanceof PdfDict ? numbers(params.getArray("Matrix", resolve)) : [];
+
+      return {
+        kind: "calrgb",
+        whitePoint: whitePoint(params, resolve),
+        gamma: gamma.length === 3 ? gamma : [1, 1, 1],
+        matrix: matrix.length === 9 ? matrix : [1, 0, 0, 0, 1, 0, 0, 0, 1],
+      };
+    }
+
+    case "Lab": {
+      const params = value.at(1, resolve);
+      const range = params instanceof PdfDict ? numbers(params.getArray("Range", resolve)) : [];
+
+      return {
+        kind: "lab",
+        whitePoint: whitePoint(params, resolve),
+        range: range.length === 4 ? range : [-100, 100, -100, 100],
+      };
+    }
+
+    case "ICCBased": {
+      const profile = value.at(1, resolve);
+
+      if (!(profile instanceof PdfDict)) {
+        throw new Error("Invalid ICCBased color space");
+      }
+
+      const n = profile.getNumber("N", resolve)?.value;
+
+      if (n === 1 || n === 3 || n === 4) {
+        return n === 1 ? GRAY : n === 3 ? RGB : CMYK;
+      }
+
+      const alternate = profile.get("Alternate", resolve);
+
+      if (alternate) {
+        return parseColorSpace(alternate, resolve);
+      }
+
+      throw new Error("Invalid ICCBased color space");
+    }
+
+    case "Indexed":
+    case "I": {
+      const base = value.at(1, resolve);
+      const hival = value.at(2, resolve);
+      const lookup = value.at(3, resolve);
+
+      if (!base || !(hival instanceof PdfNumber)) {
+        throw new Error("Invalid Indexed color space");
+      }
+
+      return {
+        kind: "indexed",
+        base: parseColorSpace(base, resolve),
+        hival: hival.value,
+        lookup:
+          lookup instanceof PdfStream
+            ? lookup.getDecodedData(resolve)
+            : lookup instanceof PdfString
+              ? lookup.bytes
+              : new Uint8Array(0),
+      };
+    }
+
+    case "Separation":
+    case "DeviceN": {
+      const names = value.at(1, resolve);
+      const alternate = value.at(2, resolve);
+      const tintTransform = value.at(3);
+      const colorants =
+        names instanceof PdfName
+          ? [names.value]
+          : names instanceof PdfArray
+            ? names.toArray().map(item => (item instanceof PdfName ? item.value : ""))
+            : [];
+
+      if (colorants.length === 0 || !alternate || !tintTransform) {
+        throw new Error(`Invalid ${name} color space`);
+      }
+
+      return {
+        kind: "separation",
+        names: colorants,
+        alternate: parseColorSpace(alternate, resolve),
+        tintTransform,
+      };
+    }
+  }
+
+  throw new Error(`Unsupported color space: ${name || "unknown"}`);
+}
+
+/**
+ * Number of components per colour value.
+ */
+export function colorSpaceComponents(colorSpace: ColorSpaceDefinition): number {
+  switch (colorSpace.kind) {
+    case "gray":
+    case "calgray":
+    case "indexed":
+      return 1;
+    case "rgb":
+    case "calrgb":
+    case "lab":
+      return 3;
+    case "cmyk":
+      return 4;
+    case "separation":
+      return colorSpace.names.length;
+  }
+}
+
+/**
+ * The default /Decode array of an image in a colour space: the range of
+ * each component (palette indices for Indexed).
+ */
+export function defaultDecode(
+  colorSpace: ColorSpaceDefinition,
+  bitsPerComponent: number,
+): number[] {
+  switch (colorSpace.kind) {
+    case "indexed":
+      return [0, 2 ** bitsPerComponent - 1];
+    case "lab":
+      return [0, 100, ...colorSpace.range];
+  }
+
+  return Array.from({ length: colorSpaceComponents(colorSpace) }, () => [0, 1]).flat();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conversion to RGB
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Converts colour values to 8-bit gray or RGB.
+ */
+export interface ColorConverter {
+  /** Channels written per colour: 1 when the space only has grays */
+  readonly channels: 1 | 3;
+
+  /**
+   * Convert one colour, its components in their ranges (see
+   * `defaultDecode()`), writing `channels` bytes at `output[offset]`.
+   */
+  convert(values: ArrayLike<number>, output: Uint8Array, offset: number): void;
+}
+
+/** Most colours a converter remembers */
+const CACHE_LIMIT = 65536;
+
+/**
+ * Create a converter from a colour space to 8-bit gray or RGB.
+ *
+ * CMYK uses the naive complement (no profile). CIE-based spaces are
+ * converted to sRGB, adapting their white point to D65. Separation and
+ * DeviceN colours go through their tint transform to the alternate space.
+ *
+ * @throws {Error} If a tint transform can't be parsed
+ */
+export function createColorConverter(
+  colorSpace: ColorSpaceDefinition,
+  resolve: RefResolver,
+): ColorConverter {
+  switch (colorSpace.kind) {
+    case "gray":
+      return {
+        channels: 1,
+        convert(values, output, offset) {
+          output[offset] = toByte(values[0]);
+        },
+      };
+
+    case "rgb":
+      return {
+        channels: 3,
+        convert(values, output, offset) {
+          output[offset] = toByte(values[0]);
+          output[offset + 1] = toByte(values[1]);
+          output[offset + 2] = toByte(values[2]);
+        },
+      };
+
+    case "cmyk":
+      return {
+        channels: 3,
+        convert(values, output, offset) {
+          const white = 1 - values[3];
+
+          output[offset] = toByte((1 - values[0]) * white);
+          output[offset + 1] = toByte((1 - values[1]) * white);
+          output[offset + 2] = toByte((1 - values[2]) * white);
+        },
+      };
+
+    case "calgray": {
+      const { gamma } = colorSpace;
+
+      return cached(colorSpace, {
+        channels: 1,
+        convert(values, output, offset) {
+          output[offset] = toByte(gammaEncode(clip(values[0], 0, 1) ** gamma));
+        },
+      });
+    }
+
+    case "calrgb": {
+      const { whitePoint, gamma, matrix } = colorSpace;
+      const abc = [0, 0, 0];
+
+      return cached(colorSpace, {
+        channels: 3,
+        convert(values, output, offset) {
+          for (let i = 0; i < 3; i++) {
+            abc[i] = clip(values[i], 0, 1) ** gamma[i];
+          }
+
+          const [a, b, c] = abc;
+
+          xyzToRgb(
+            matrix[0] * a + matrix[3] * b + matrix[6] * c,
+            matrix[1] * a + matrix[4] * b + matrix[7] * c,
+            matrix[2] * a + matrix[5] * b + matrix[8] * c,
+            whitePoint,
+            output,
+            offset,
+          );
+        },
+      });
+    }
+
+    case "lab": {
+      const { whitePoint, range } = colorSpace;
+
+      return cached(colorSpace, {
+        channels: 3,
+        convert(values, output, offset) {
+          const l = clip(values[0], 0, 100);
+          const a = clip(values[1], range[0], range[1]);
+          const b = clip(values[2], range[2], range[3]);
+          const fy = (l + 16) / 116;
+
+          xyzToRgb(
+            whitePoint[0] * labInverse(fy + a / 500),
+            whitePoint[1] * labInverse(fy),
+            whitePoint[2] * labInverse(fy - b / 200),
+            whitePoint,
+            output,
+            offset,
+          );
+        },
+      });
+    }
+
+    case "indexed":
+      return indexedConverter(colorSpace, resolve);
+
+    case "separation": {
+      const tintTransform = parseFunction(colorSpace.tintTransform, resolve);
+      const alternate = createColorConverter(colorSpace.alternate, resolve);
+
+      return cached(colorSpace, {
+        channels: alternate.channels,
+        convert(values, output, offset) {
+          alternate.convert(tintTransform.evaluate(values), output, offset);
+        },
+      });
+    }
+  }
+}
+
+function indexedConverter(
+  colorSpace: Extract<ColorSpaceDefinition, { kind: "indexed" }>,
+  resolve: RefResolver,
+): ColorConverter {
+  const { base, hival, lookup } = colorSpace;
+  const baseConverter = createColorConverter(base, resolve);
+  const components = colorSpaceComponents(base);
+  const decode = defaultDecode(base, 8);
+  const channels = baseConverter.channels;
+  const palette = new Uint8Array((hival + 1) * channels);
+  const values = new Array<number>(components);
+
+  // Lookup bytes span each base component's range
+  for (let index = 0; index <= hival; index++) {
+    for (let c = 0; c < components; c++) {
+      const byte = lookup[index * components + c] ?? 0;
+
+      values[c] = decode[c * 2] + (byte * (decode[c * 2 + 1] - decode[c * 2])) / 255;
+    }
+
+    baseConverter.convert(values, palette, index * channels);
+  }
+
+  return {
+    channels,
+    convert(values, output, offset) {
+      const index = clip(Math.round(values[0]), 0, hival) * channels;
+
+      for (let c = 0; c < channels; c++) {
+        output[offset + c] = palette[index + c];
+      }
+    },
+  };
+}
+
+/**
+ * Remember converted colours, keyed by the components quantized to 8
+ * bits: images repeat colours, and the conversion can be slow.
+ */
+function cached(colorSpace: ColorSpaceDefinition, converter: ColorConverter): ColorConverter {
+  const components = colorSpaceComponents(colorSpace);
+  const decode = defaultDecode(colorSpace, 8);
+  const { channels } = converter;
+
+  // Quantized keys must stay exact integers
+  if (components > 6) {
+    return converter;
+  }
+
+  const cache = new Map<number, number>();
+
+  return {
+    channels,
+    convert(values, output, offset) {
+      let key = 0;
+
+      for (let c = 0; c < components; c++) {
+        const min = decode[c * 2];
+        const max = decode[c * 2 + 1];
+
+        key = key * 256 + clip(Math.round(((values[c] - min) * 255) / (max - min)), 0, 255);
+      }
+
+      const packed = cache.get(key);
+
+      if (packed !== undefined) {
+        for (let c = 0; c < channels; c++) {
+          output[offset + c] = (packed >> (c * 8)) & 0xff;
+        }
+
+        return;
+      }
+
+      converter.convert(values, output, offset);
+
+      if (cache.size < CACHE_LIMIT) {
+        let result = 0;
+
+        for (let c = 0; c < channels; c++) {
+          result |= output[offset + c] << (c * 8);
+        }
+
+        cache.set(key, result);
+      }
+    },
+  };
+}
+
+/**
+ * CIE XYZ (relative to the given white point) to sRGB bytes.
+ */
+function xyzToRgb(
+  x: number,
+  y: number,
+  z: number,
+  whitePoint: number[],
+  output: Uint8Array,
+  offset: number,
+): void {
+  // Von Kries-style scaling from the source white to D65
+  const xs = (x * D65[0]) / whitePoint[0];
+  const ys = (y * D65[1]) / whitePoint[1];
+  const zs = (z * D65[2]) / whitePoint[2];
+
+  output[offset] = toByte(gammaEncode(3.2406 * xs - 1.5372 * ys - 0.4986 * zs));
+  output[offset + 1] = toByte(gammaEncode(-0.9689 * xs + 1.8758 * ys + 0.0415 * zs));
+  output[offset + 2] = toByte(gammaEncode(0.0557 * xs - 0.204 * ys + 1.057 * zs));
+}
+
+/**
+ * The sRGB transfer function, from linear light.
+ */
+function gammaEncode(linear: number): number {
+  if (linear <= 0.0031308) {
+    return 12.92 * linear;
+  }
+
+  return 1.055 * linear ** (1 / 2.4) - 0.055;
+}
+
+function labInverse(t: number): number {
+  return t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29);
+}
+
+function whitePoint(params: PdfObject | undefined, resolve: RefResolver): number[] {
+  const values = params instanceof PdfDict ? numbers(params.getArray("WhitePoint", resolve)) : [];
+
+  return values.length === 3 && values[0] > 0 && values[1] > 0 && values[2] > 0 ? values : D65;
+}
+
+function numbers(array: PdfArray | undefined): number[] {
+  return (array?.toArray() ?? []).map(item => (item instanceof PdfNumber ? item.value : 0));
+}
+
+function toByte(value: number): number {
+  return value <= 0 ? 0 : value >= 1 ? 255 : Math.round(value * 255);
+}
+
+function clip(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
@@ -0,0 +1,32 @@
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { parsePkcs12 } from "./pkcs12";
+
+describe("parsePkcs12", () => {
+  it.each([
+    ["AES-256", "test-signer-aes256.p12"],
+    ["3DES", "test-signer-3des.p12"],
+    ["40-bit RC2", "test-signer-rc2-40.p12"],
+  ])("unlocks %s encrypted files", async (_, filename) => {
+    const { privateKey, certificates } = await parsePkcs12(
+      await loadFixture("certificates", filename),
+      "test123",
+    );
+
+    expect(privateKey).not.toBeNull();
+    expect(certificates.length).toBeGreaterThan(0);
+  });
+
+  it("rejects a wrong password", async () => {
+    const data = await loadFixture("certificates", "test-signer-aes256.p12");
+
+    await expect(parsePkcs12(data, "wrong")).rejects.toThrow();
+  });
+
+  it("rejects data that isn't PKCS#12", async () => {
+    await expect(parsePkcs12(new Uint8Array([1, 2, 3]), "test123")).rejects.toThrow(
+      "Malformed ASN.1 structure",
+    );
+  });
+});
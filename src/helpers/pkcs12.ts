@@ -0,0 +1,167 @@
+/**
+ * PKCS#12 (.p12/.pfx) parsing.
+ *
+ * Unlocks a PKCS#12 file into its private key and certificates. Used by
+ * `P12Signer` for signing and by PKCS#12 credentials for decryption.
+ */
+
+import {
+  decryptLegacyPbe,
+  installCryptoEngine,
+  isLegacyPbeOid,
+  PKCS12KDF,
+} from "#src/signatures/crypto";
+import { OID_CERT_BAG, OID_KEY_BAG, OID_PKCS8_SHROUDED_KEY_BAG } from "#src/signatures/oids";
+import { fromBER } from "asn1js";
+import * as pkijs from "pkijs";
+
+import { toArrayBuffer } from "./buffer";
+
+// Install our legacy crypto engine to handle 3DES/RC2 encrypted P12 files
+installCryptoEngine();
+
+/**
+ * The contents of an unlocked PKCS#12 file.
+ */
+export interface Pkcs12Contents {
+  /** The last private key in the file, or null if it has none */
+  privateKey: pkijs.PrivateKeyInfo | null;
+  /** Certificates in file order, the key's own certificate first */
+  certificates: pkijs.Certificate[];
+}
+
+/**
+ * Unlock a PKCS#12 file.
+ *
+ * @param data - The .p12/.pfx file contents
+ * @param password - Password protecting the file
+ * @returns The private key and certificates
+ * @throws {Error} if the file is malformed or the password is wrong
+ */
+export async function parsePkcs12(data: Uint8Array, password: string): Promise<Pkcs12Contents> {
+  const asn1 = fromBER(toArrayBuffer(data));
+
+  if (asn1.offset === -1) {
+    throw new Error("Malformed ASN.1 structure");
+  }
+
+  const pfx = new pkijs.PFX({ schema: asn1.result });
+  const passwordBuffer = toArrayBuffer(new TextEncoder().encode(password));
+
+  // Parse internal values (decrypt MAC)
+  await pfx.parseInternalValues({ password: passwordBuffer });
+
+  const authenticatedSafe = pfx.parsedValue?.authenticatedSafe;
+
+  if (!authenticatedSafe) {
+    throw new Error("Missing authenticated safe");
+  }
+
+  // Parse safe contents (our LegacyCryptoEngine handles legacy encryption)
+  await authenticatedSafe.parseInternalValues({
+    safeContents: authenticatedSafe.safeContents.map(() => ({ password: passwordBuffer })),
+  });
+
+  const contents: Pkcs12Contents = { privateKey: null, certificates: [] };
+
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  const parsedValue = authenticatedSafe.parsedValue as
+    | { safeContents: Array<{ value: pkijs.SafeContents }> }
+    | undefined;
+
+  for (const entry of parsedValue?.safeContents ?? []) {
+    for (const safeBag of entry.value.safeBags ?? []) {
+      // PKCS#8 shrouded key bag (encrypted private key)
+      if (safeBag.bagId === OID_PKCS8_SHROUDED_KEY_BAG) {
+        contents.privateKey = await decryptKeyBag(safeBag, password, passwordBuffer);
+      }
+
+      // Unencrypted key bag
+      if (safeBag.bagId === OID_KEY_BAG) {
+        // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+        contents.privateKey = safeBag.bagValue as pkijs.PrivateKeyInfo;
+      }
+
+      // Certificate bag
+      if (safeBag.bagId === OID_CERT_BAG) {
+        // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+        const certBag = safeBag.bagValue as pkijs.CertBag;
+
+        if (certBag.parsedValue instanceof pkijs.Certificate) {
+          contents.certificates.push(certBag.parsedValue);
+        }
+      }
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Decrypt the private key in a shrouded key bag.
+ */
+async function decryptKeyBag(
+  safeBag: pkijs.SafeBag,
+  password: string,
+  passwordBuffer: ArrayBuffer,
+): Promise<pkijs.PrivateKeyInfo> {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  const keyBag = safeBag.bagValue as pkijs.PKCS8ShroudedKeyBag;
+  const algorithmId = keyBag.encryptionAlgorithm.algorithmId;
+
+  let decryptedKey: ArrayBuffer;
+
+  if (isLegacyPbeOid(algorithmId)) {
+    // Use our legacy decryption
+    const algorithmParams = keyBag.encryptionAlgorithm.algorithmParams?.toBER(false);
+
+    if (!algorithmParams) {
+      throw new Error("Missing algorithm parameters for key decryption");
+    }
+
+    // Parse PBE parameters
+    const paramsAsn1 = fromBER(algorithmParams);
+
+    if (paramsAsn1.offset === -1) {
+      throw new Error("Failed to parse PBE parameters");
+    }
+
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    const paramsSeq = paramsAsn1.result as { valueBlock: { value: unknown[] } };
+
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    const saltValue = paramsSeq.valueBlock.value[0] as {
+      valueBlock: { valueHexView: Uint8Array };
+    };
+
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    const iterValue = paramsSeq.valueBlock.value[1] as { valueBlock: { valueDec: number } };
+
+    const decrypted = decryptLegacyPbe(
+      algorithmId,
+      new Uint8Array(saltValue.valueBlock.valueHexView),
+      iterValue.valueBlock.valueDec,
+      new Uint8Array(keyBag.encryptedData.valueBlock.valueHexView),
+      PKCS12KDF.passwordToBytes(password),
+    );
+
+    decryptedKey = toArrayBuffer(decrypted);
+  } else {
+    // Use pkijs/Web Crypto
+    decryptedKey = await pkijs.getCrypto(true).decryptEncryptedContentInfo({
+      encryptedContentInfo: new pkijs.EncryptedContentInfo({
+        contentEncryptionAlgorithm: keyBag.encryptionAlgorithm,
+        encryptedContent: keyBag.encryptedData,
+      }),
+      password: passwordBuffer,
+    });
+  }
+
+  const pkcs8Asn1 = fromBER(decryptedKey);
+
+  if (pkcs8Asn1.offset === -1) {
+    throw new Error("Failed to parse decrypted private key");
+  }
+
+  return new pkijs.PrivateKeyInfo({ schema: pkcs8Asn1.result });
+}
@@ -0,0 +1,90 @@
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { isBmp, parseBmp } from "./bmp";
+import { parsePng } from "./png";
+import { parseTiff } from "./tiff";
+
+describe("isBmp", () => {
+  it("returns true for the BM signature", () => {
+    const bytes = new Uint8Array(26);
+
+    bytes.set([0x42, 0x4d]);
+
+    expect(isBmp(bytes)).toBe(true);
+  });
+
+  it("returns false for other data", () => {
+    expect(isBmp(new Uint8Array([0x42, 0x4d]))).toBe(false);
+    expect(isBmp(new Uint8Array(26))).toBe(false);
+  });
+});
+
+describe("parseBmp", () => {
+  it("throws for invalid BMP", () => {
+    expect(() => parseBmp(new Uint8Array(26))).toThrow("Invalid BMP: missing signature");
+  });
+
+  it("decodes 24-bit bottom-up bitmaps", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const image = parseBmp(await loadFixture("images", "ramp-rgb24.bmp"));
+
+    expect(image.width).toBe(40);
+    expect(image.height).toBe(24);
+    expect(image.colorSpace).toBe("DeviceRGB");
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toBeUndefined();
+  });
+
+  it("decodes 32-bit top-down bitmaps with an alpha mask", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgba-interlaced.png"));
+    const image = parseBmp(await loadFixture("images", "ramp-rgba32-v5.bmp"));
+
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toEqual(expected.alpha);
+  });
+
+  it("scales bit fields to 8 bits", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const image = parseBmp(await loadFixture("images", "ramp-rgb565.bmp"));
+
+    for (let i = 0; i < expected.pixels.length; i++) {
+      expect(Math.abs(image.pixels[i] - expected.pixels[i])).toBeLessThanOrEqual(7);
+    }
+  });
+
+  it("decodes palette and RLE8 bitmaps", async () => {
+    const expected = parseTiff(await loadFixture("images", "multipage.tif"), 2);
+    const palette = parseBmp(await loadFixture("images", "palette4-os2.bmp"));
+    const rle = parseBmp(await loadFixture("images", "palette8-rle8.bmp"));
+
+    expect(palette.pixels).toEqual(expected.pixels);
+    expect(rle.pixels).toEqual(expected.pixels);
+    expect(rle.alpha).toBeUndefined();
+  });
+
+  it("leaves pixels skipped by RLE transparent", () => {
+    // 2x2 RLE8: one red pixel, end of line, end of bitmap
+    const bytes = new Uint8Array(14 + 40 + 8 + 6);
+    const view = new DataView(bytes.buffer);
+
+    bytes.set([0x42, 0x4d]);
+    view.setUint32(10, 14 + 40 + 8, true);
+    view.setUint32(14, 40, true);
+    view.setInt32(18, 2, true);
+    view.setInt32(22, 2, true);
+    view.setUint16(28, 8, true);
+    view.setUint32(30, 1, true);
+    view.setUint32(46, 2, true);
+
+    // Palette: black, red (blue, green, red, reserved)
+    bytes.set([0, 0, 0, 0, 0, 0, 255, 0], 54);
+    bytes.set([1, 1, 0, 0, 0, 1], 62);
+
+    const image = parseBmp(bytes);
+
+    // The first stored row is the bottom one
+    expect(Array.from(image.alpha ?? [])).toEqual([0, 0, 255, 0]);
+    expect(Array.from(image.pixels.subarray(6, 9))).toEqual([255, 0, 0]);
+  });
+});
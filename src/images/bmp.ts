@@ -0,0 +1,359 @@
+/**
+ * BMP image parsing.
+ *
+ * Decodes Windows and OS/2 bitmaps for embedding in PDF: 1, 4 and 8-bit
+ * palette images (uncompressed or run-length encoded), and 16, 24 and
+ * 32-bit images with default or explicit bit fields. Pixels are expanded
+ * to 8-bit RGB, with an alpha channel when the bitmap has one.
+ */
+
+import { opaqueToUndefined, type RasterImage } from "./raster";
+
+// Compression methods
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+// OS/2 1.x bitmaps have a 12-byte header and 3-byte palette entries
+const CORE_HEADER_SIZE = 12;
+
+// Same limit as PNG: prevents absurd allocations
+const MAX_PIXELS = 100_000_000;
+
+/**
+ * Check if bytes are a BMP file ("BM").
+ */
+export function isBmp(bytes: Uint8Array): boolean {
+  return bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+}
+
+/**
+ * Parse a BMP file.
+ *
+ * @param bytes - BMP file data
+ * @returns Decoded image
+ * @throws {Error} If not a valid BMP or unsupported format
+ */
+export function parseBmp(bytes: Uint8Array): RasterImage {
+  if (!isBmp(bytes)) {
+    throw new Error("Invalid BMP: missing signature");
+  }
+
+  const dataOffset = readUint32LE(bytes, 10);
+  const headerSize = readUint32LE(bytes, 14);
+  const core = headerSize === CORE_HEADER_SIZE;
+
+  if (!core && headerSize < 40) {
+    throw new Error(`Unsupported BMP header size: ${headerSize}`);
+  }
+
+  const width = core ? readUint16LE(bytes, 18) : readUint32LE(bytes, 18) | 0;
+  const rawHeight = core ? readUint16LE(bytes, 20) : readUint32LE(bytes, 22) | 0;
+  const bitCount = readUint16LE(bytes, core ? 24 : 28);
+  const compression = core ? BI_RGB : readUint32LE(bytes, 30);
+
+  // Negative heights store rows top to bottom
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+
+  if (width <= 0 || height === 0) {
+    throw new Error("Invalid BMP: zero dimension");
+  }
+
+  if (width * height > MAX_PIXELS) {
+    throw new Error(
+      `BMP image too large: ${width}x${height} (${width * height} pixels) exceeds limit of ${MAX_PIXELS} pixels`,
+    );
+  }
+
+  const layout: Layout = { width, height, topDown, bitCount, dataOffset };
+  const paletteOffset = 14 + headerSize;
+
+  if (bitCount <= 8) {
+    if (![1, 4, 8].includes(bitCount)) {
+      throw new Error(`Unsupported BMP bit count: ${bitCount}`);
+    }
+
+    const entrySize = core ? 3 : 4;
+    const used = core ? 0 : readUint32LE(bytes, 46);
+    const count = Math.min(used || 1 << bitCount, 1 << bitCount);
+    const palette = new Uint8Array(256 * 3);
+
+    // Palette entries are blue, green, red (and a reserved byte)
+    for (let i = 0; i < count; i++) {
+      const entry = paletteOffset + i * entrySize;
+
+      palette[i * 3] = bytes[entry + 2] ?? 0;
+      palette[i * 3 + 1] = bytes[entry + 1] ?? 0;
+      palette[i * 3 + 2] = bytes[entry] ?? 0;
+    }
+
+    if (compression === BI_RLE8 || compression === BI_RLE4) {
+      return decodeRunLength(bytes, layout, palette, compression === BI_RLE4 ? 4 : 8);
+    }
+
+    if (compression !== BI_RGB) {
+      throw new Error(`Unsupported BMP compression: ${compression}`);
+    }
+
+    return decodePalette(bytes, layout, palette);
+  }
+
+  if (![16, 24, 32].includes(bitCount)) {
+    throw new Error(`Unsupported BMP bit count: ${bitCount}`);
+  }
+
+  let masks: number[];
+
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    // Masks are in the header from version 2 on, else right after it
+    const maskOffset = 54;
+    const hasAlphaMask = headerSize >= 56 || compression === BI_ALPHABITFIELDS;
+
+    masks = [0, 1, 2].map(i => readUint32LE(bytes, maskOffset + i * 4));
+    masks.push(hasAlphaMask ? readUint32LE(bytes, maskOffset + 12) : 0);
+  } else if (compression === BI_RGB) {
+    masks =
+      bitCount === 16
+        ? [0x7c00, 0x03e0, 0x001f, 0]
+        : // The fourth byte of 32-bit pixels is alpha if it's ever set
+          [0xff0000, 0x00ff00, 0x0000ff, bitCount === 32 ? 0xff000000 : 0];
+  } else {
+    throw new Error(`Unsupported BMP compression: ${compression}`);
+  }
+
+  return decodeBitFields(bytes, layout, masks);
+}
+
+/**
+ * Where and how the pixel rows are stored.
+ */
+interface Layout {
+  width: number;
+  height: number;
+  topDown: boolean;
+  bitCount: number;
+  dataOffset: number;
+}
+
+/**
+ * Offset of the stored row for image row `y`. Rows are padded to 4 bytes.
+ */
+function rowOffset(layout: Layout, y: number): number {
+  const stride = Math.ceil((layout.width * layout.bitCount) / 32) * 4;
+  const stored = layout.topDown ? y : layout.height - 1 - y;
+
+  return layout.dataOffset + stored * stride;
+}
+
+/**
+ * Decode uncompressed 1, 4 or 8-bit palette indices.
+ */
+function decodePalette(bytes: Uint8Array, layout: Layout, palette: Uint8Array): RasterImage {
+  const { width, height, bitCount } = layout;
+  const pixels = new Uint8Array(width * height * 3);
+  const mask = (1 << bitCount) - 1;
+
+  for (let y = 0; y < height; y++) {
+    const row = rowOffset(layout, y);
+
+    for (let x = 0; x < width; x++) {
+      const bit = x * bitCount;
+      const byte = bytes[row + (bit >> 3)] ?? 0;
+      const index = (byte >> (8 - bitCount - (bit & 7))) & mask;
+      const target = (y * width + x) * 3;
+
+      pixels[target] = palette[index * 3];
+      pixels[target + 1] = palette[index * 3 + 1];
+      pixels[target + 2] = palette[index * 3 + 2];
+    }
+  }
+
+  return { width, height, colorSpace: "DeviceRGB", bitsPerComponent: 8, pixels };
+}
+
+/**
+ * Decode RLE8 or RLE4 data. Pixels skipped by end-of-line, delta or
+ * end-of-bitmap codes are transparent.
+ */
+function decodeRunLength(
+  bytes: Uint8Array,
+  layout: Layout,
+  palette: Uint8Array,
+  bits: 4 | 8,
+): RasterImage {
+  const { width, height } = layout;
+  const pixels = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+  let pos = layout.dataOffset;
+  let x = 0;
+
+  // Rows are stored bottom-up
+  let row = 0;
+
+  const put = (index: number): void => {
+    if (x < width && row < height) {
+      const target = (height - 1 - row) * width + x;
+
+      pixels[target * 3] = palette[index * 3];
+      pixels[target * 3 + 1] = palette[index * 3 + 1];
+      pixels[target * 3 + 2] = palette[index * 3 + 2];
+      alpha[target] = 255;
+    }
+
+    x++;
+  };
+
+  while (pos + 1 < bytes.length && row < height) {
+    const count = bytes[pos++];
+    const value = bytes[pos++];
+
+    if (count > 0) {
+      // A run: for RLE4, the two nibbles alternate
+      for (let i = 0; i < count; i++) {
+        put(bits === 8 ? value : i & 1 ? value & 0x0f : value >> 4);
+      }
+
+      continue;
+    }
+
+    if (value === 0) {
+      // End of line
+      x = 0;
+      row++;
+    } else if (value === 1) {
+      // End of bitmap
+      break;
+    } else if (value === 2) {
+      // Delta: move right and up
+      x += bytes[pos++] ?? 0;
+      row += bytes[pos++] ?? 0;
+    } else {
+      // Absolute mode: `value` literal pixels, padded to a 2-byte boundary
+      const length = bits === 8 ? value : Math.ceil(value / 2);
+
+      for (let i = 0; i < value; i++) {
+        const byte = bytes[pos + (bits === 8 ? i : i >> 1)] ?? 0;
+
+        put(bits === 8 ? byte : i & 1 ? byte & 0x0f : byte >> 4);
+      }
+
+      pos += length + (length & 1);
+    }
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: "DeviceRGB",
+    bitsPerComponent: 8,
+    pixels,
+    alpha: opaqueToUndefined(alpha),
+  };
+}
+
+/**
+ * Decode 16, 24 or 32-bit pixels by their red, green, blue and alpha bit
+ * masks.
+ */
+function decodeBitFields(bytes: Uint8Array, layout: Layout, masks: number[]): RasterImage {
+  const { width, height, bitCount } = layout;
+  const pixels = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+  const fields = masks.map(mask => toField(mask));
+  const bytesPerPixel = bitCount / 8;
+  let anyAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = rowOffset(layout, y);
+
+    for (let x = 0; x < width; x++) {
+      const at = row + x * bytesPerPixel;
+      let value = 0;
+
+      for (let i = bytesPerPixel - 1; i >= 0; i--) {
+        value = value * 256 + (bytes[at + i] ?? 0);
+      }
+
+      const target = y * width + x;
+
+      for (let c = 0; c < 3; c++) {
+        pixels[target * 3 + c] = extract(value, fields[c]);
+      }
+
+      alpha[target] = extract(value, fields[3]);
+      anyAlpha ||= alpha[target] !== 0;
+    }
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: "DeviceRGB",
+    bitsPerComponent: 8,
+    pixels,
+
+    // Alpha that is zero everywhere is an unused byte, not a blank image
+    alpha: anyAlpha ? opaqueToUndefined(alpha) : undefined,
+  };
+}
+
+/**
+ * A bit field: its position and width.
+ */
+interface Field {
+  shift: number;
+  bits: number;
+}
+
+function toField(mask: number): Field {
+  if (mask === 0) {
+    return { shift: 0, bits: 0 };
+  }
+
+  let shift = 0;
+  let bits = 0;
+
+  while (Math.floor(mask / 2 ** shift) % 2 === 0) {
+    shift++;
+  }
+
+  while (Math.floor(mask / 2 ** (shift + bits)) % 2 === 1) {
+    bits++;
+  }
+
+  return { shift, bits };
+}
+
+/**
+ * Extract a field from a pixel, scaled to 8 bits.
+ */
+function extract(value: number, field: Field): number {
+  if (field.bits === 0) {
+    return 0;
+  }
+
+  const max = 2 ** field.bits - 1;
+  const sample = Math.floor(value / 2 ** field.shift) % 2 ** field.bits;
+
+  return Math.round((sample * 255) / max);
+}
+
+/**
+ * Read little-endian uint16.
+ */
+function readUint16LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+/**
+ * Read little-endian uint32.
+ */
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16)) +
+    data[offset + 3] * 0x1000000
+  );
+}
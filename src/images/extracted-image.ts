@@ -0,0 +1,182 @@
+/**
+ * ExtractedImage - An image placed on a page, found by `page.getImages()`.
+ */
+
+import type { Rectangle } from "#src/api/pdf-page";
+import type { Matrix } from "#src/helpers/matrix";
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfRef } from "#src/objects/pdf-ref";
+import type { PdfStream } from "#src/objects/pdf-stream";
+
+import { decodeImageToRgba, type RgbaImage } from "./image-decoder";
+import { type ExportedImage, exportImage } from "./image-export";
+
+/**
+ * Where an image was found.
+ */
+export interface ImagePlacement {
+  /** Page index (0-based) */
+  pageIndex: number;
+
+  /** The image XObject, or null for an inline image */
+  ref: PdfRef | null;
+
+  /** Resource name the image was painted with (null for inline images) */
+  name: string | null;
+
+  /** Transformation from the image's unit square to page space */
+  matrix: Matrix;
+}
+
+/**
+ * One placement of an image on a page: an image XObject painted with
+ * `Do` (possibly inside Form XObjects), or an inline image.
+ *
+ * An image drawn several times appears once per placement, with the same
+ * `ref`.
+ *
+ * @example
+ * ```typescript
+ * for (const image of page.getImages()) {
+ *   console.log(`${image.width}x${image.height} at`, image.bbox);
+ *
+ *   const { format, data } = image.export();
+ *   await writeFile(`image.${format === "jpeg" ? "jpg" : "png"}`, data);
+ * }
+ * ```
+ */
+export class ExtractedImage {
+  /** Page index (0-based) */
+  readonly pageIndex: number;
+
+  /** Reference to the image XObject (null for inline images) */
+  readonly ref: PdfRef | null;
+
+  /** Resource name the image was painted with (null for inline images) */
+  readonly name: string | null;
+
+  /**
+   * The image dictionary and data. For inline images this is built from
+   * the inline parameters, with abbreviations expanded.
+   */
+  readonly stream: PdfStream;
+
+  /** Image width in pixels */
+  readonly width: number;
+
+  /** Image height in pixels */
+  readonly height: number;
+
+  /** Bits per colour component (null for JPX images that don't say) */
+  readonly bitsPerComponent: number | null;
+
+  /**
+   * Colour space family (e.g. "DeviceRGB", "ICCBased", "Indexed"); null
+   * for image masks and JPX images that take it from the image data.
+   */
+  readonly colorSpace: string | null;
+
+  /** Filter names, in decoding order */
+  readonly filters: string[];
+
+  /** Whether the image is a stencil mask painted with the fill colour */
+  readonly imageMask: boolean;
+
+  /** Soft mask image XObject */
+  readonly smask: PdfRef | null;
+
+  /** Stencil mask image XObject, or colour key ranges (min, max per component) */
+  readonly mask: PdfRef | number[] | null;
+
+  /** Transformation from the image's unit square to page space (the CTM) */
+  readonly matrix: Matrix;
+
+  /** Bounding box of the placement in page space */
+  readonly bbox: Rectangle;
+
+  private readonly resolve: RefResolver;
+
+  constructor(stream: PdfStream, placement: ImagePlacement, resolve: RefResolver) {
+    this.stream = stream;
+    this.pageIndex = placement.pageIndex;
+    this.ref = placement.ref;
+    this.name = placement.name;
+    this.matrix = placement.matrix;
+    this.resolve = resolve;
+
+    this.width = stream.getNumber("Width", resolve)?.value ?? 0;
+    this.height = stream.getNumber("Height", resolve)?.value ?? 0;
+    this.imageMask = stream.getBool("ImageMask", resolve)?.value ?? false;
+    this.filters = stream.getFilterSpecs(resolve).map(spec => spec.name);
+    this.bitsPerComponent = this.imageMask
+      ? 1
+      : (stream.getNumber("BitsPerComponent", resolve)?.value ?? null);
+
+    const colorSpace = stream.get("ColorSpace", resolve);
+    const family = colorSpace instanceof PdfArray ? colorSpace.at(0, resolve) : colorSpace;
+
+    this.colorSpace = family instanceof PdfName ? family.value : null;
+    this.smask = stream.getRef("SMask") ?? null;
+
+    const mask = stream.get("Mask");
+
+    if (mask instanceof PdfArray) {
+      this.mask = mask.toArray().map(item => (item instanceof PdfNumber ? item.value : 0));
+    } else {
+      this.mask = mask?.type === "ref" ? mask : null;
+    }
+
+    // The unit square's corners in page space
+    const corners = [
+      placement.matrix.transformPoint(0, 0),
+      placement.matrix.transformPoint(1, 0),
+      placement.matrix.transformPoint(0, 1),
+      placement.matrix.transformPoint(1, 1),
+    ];
+
+    const xs = corners.map(point => point.x);
+    const ys = corners.map(point => point.y);
+
+    this.bbox = {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
+    };
+  }
+
+  /**
+   * Whether this is an inline image (BI ... ID ... EI).
+   */
+  get isInline(): boolean {
+    return this.ref === null;
+  }
+
+  /**
+   * Export the image as a standalone file: the JPEG data of DCTDecode
+   * images, otherwise a PNG decoded through the filter pipeline, with any
+   * soft mask, stencil mask or colour key mask as its alpha channel.
+   *
+   * JPEGs are exported as stored, without /Decode or masks applied.
+   *
+   * @throws {Error} If the image can't be decoded or its colour space isn't
+   *   supported
+   */
+  export(): ExportedImage {
+    return exportImage(this.stream, this.resolve);
+  }
+
+  /**
+   * Decode the image to 8-bit RGBA pixels, with /Decode and any soft
+   * mask, stencil mask or colour key mask applied (see `pdf.imageToRGBA()`).
+   *
+   * @throws {Error} If the image can't be decoded or its colour space isn't
+   *   supported
+   */
+  toRGBA(): RgbaImage {
+    return decodeImageToRgba(this.stream, this.resolve);
+  }
+}
@@ -0,0 +1,81 @@
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { isGif, parseGif } from "./gif";
+
+/**
+ * A GIF89a file: 2x2 screen, 4-colour global table, one frame.
+ */
+function createGif(frame: number[], options: { transparent?: number } = {}): Uint8Array {
+  const gce =
+    options.transparent === undefined ? [] : [0x21, 0xf9, 4, 0x01, 0, 0, options.transparent, 0];
+
+  return new Uint8Array([
+    ...[0x47, 0x49, 0x46, 0x38, 0x39, 0x61],
+    ...[2, 0, 2, 0, 0x81, 0, 0],
+    // Black, red, green, blue
+    ...[0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255],
+    ...gce,
+    ...[0x2c, 0, 0, 0, 0, 2, 0, 2, 0, 0],
+    ...frame,
+    0x3b,
+  ]);
+}
+
+// LZW data (code size 2) for indices 1, 2, 3, 0
+const FRAME = [2, 3, 0x8c, 0x06, 0x05, 0];
+
+describe("isGif", () => {
+  it("recognizes GIF87a and GIF89a", () => {
+    expect(isGif(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x37, 0x61]))).toBe(true);
+    expect(isGif(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]))).toBe(true);
+  });
+
+  it("returns false for other data", () => {
+    expect(isGif(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x38, 0x61]))).toBe(false);
+    expect(isGif(new Uint8Array(0))).toBe(false);
+  });
+});
+
+describe("parseGif", () => {
+  it("throws for invalid GIF", () => {
+    expect(() => parseGif(new Uint8Array(16))).toThrow("Invalid GIF: missing signature");
+  });
+
+  it("decodes palette colours", () => {
+    const image = parseGif(createGif(FRAME));
+
+    expect(image.width).toBe(2);
+    expect(image.height).toBe(2);
+    expect(Array.from(image.pixels)).toEqual([255, 0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0]);
+    expect(image.alpha).toBeUndefined();
+  });
+
+  it("makes the transparent colour an alpha channel", () => {
+    const image = parseGif(createGif(FRAME, { transparent: 2 }));
+
+    expect(Array.from(image.alpha ?? [])).toEqual([255, 0, 255, 255]);
+  });
+
+  it("decodes an interlaced frame", async () => {
+    const image = parseGif(await loadFixture("images", "ramp-rgba-interlaced.gif"));
+
+    expect(image.width).toBe(40);
+    expect(image.height).toBe(24);
+    expect(image.colorSpace).toBe("DeviceRGB");
+
+    // The left half is opaque; the right half's fading alpha is cut to
+    // fully transparent or opaque
+    expect(image.alpha?.subarray(0, 20).every(a => a === 255)).toBe(true);
+    expect(image.alpha?.some(a => a === 0)).toBe(true);
+
+    // Rows come out in order: green rises 10 per row (quantized)
+    const green = (y: number) => image.pixels[(y * 40 + 5) * 3 + 1];
+
+    for (let y = 1; y < 24; y++) {
+      expect(green(y)).toBeGreaterThanOrEqual(green(y - 1));
+    }
+
+    expect(green(23)).toBeGreaterThan(green(0) + 150);
+  });
+});
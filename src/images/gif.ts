@@ -0,0 +1,375 @@
+/**
+ * GIF image parsing.
+ *
+ * Decodes the first frame of a GIF for embedding in PDF. Palette colours
+ * are expanded to RGB; the transparent colour index (from the graphic
+ * control extension) and any part of the logical screen the frame doesn't
+ * cover become the alpha channel.
+ */
+
+import { opaqueToUndefined, type RasterImage } from "./raster";
+
+// Block introducers and extension labels
+const EXTENSION = 0x21;
+const IMAGE_DESCRIPTOR = 0x2c;
+const TRAILER = 0x3b;
+const GRAPHIC_CONTROL = 0xf9;
+
+// LZW codes are at most 12 bits
+const MAX_CODES = 4096;
+
+// Same limit as PNG: prevents absurd allocations
+const MAX_PIXELS = 100_000_000;
+
+/**
+ * Interlaced rows come in four passes: first row, then row step.
+ */
+// prettier-ignore
+const INTERLACE_PASSES = [
+  [0, 8],
+  [4, 8],
+  [2, 4],
+  [1, 2],
+] as const;
+
+/**
+ * Check if bytes are a GIF file ("GIF87a" or "GIF89a").
+ */
+export function isGif(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 6 &&
+    bytes[0] === 0x47 &&
+    bytes[1] === 0x49 &&
+    bytes[2] === 0x46 &&
+    bytes[3] === 0x38 &&
+    (bytes[4] === 0x37 || bytes[4] === 0x39) &&
+    bytes[5] === 0x61
+  );
+}
+
+/**
+ * Parse a GIF file and decode its first frame.
+ *
+ * @param bytes - GIF file data
+ * @returns Decoded image, the size of the logical screen
+ * @throws {Error} If not a valid GIF
+ */
+export function parseGif(bytes: Uint8Array): RasterImage {
+  if (!isGif(bytes)) {
+    throw new Error("Invalid GIF: missing signature");
+  }
+
+  if (bytes.length < 13) {
+    throw new Error("Invalid GIF: unexpected end of file");
+  }
+
+  const width = readUint16LE(bytes, 6);
+  const height = readUint16LE(bytes, 8);
+  const flags = bytes[10];
+  let offset = 13;
+  let globalColors: Uint8Array | null = null;
+  let transparentIndex = -1;
+
+  if (width === 0 || height === 0) {
+    throw new Error("Invalid GIF: zero dimension");
+  }
+
+  if (width * height > MAX_PIXELS) {
+    throw new Error(
+      `GIF image too large: ${width}x${height} (${width * height} pixels) exceeds limit of ${MAX_PIXELS} pixels`,
+    );
+  }
+
+  if (flags & 0x80) {
+    const size = 3 << ((flags & 7) + 1);
+
+    globalColors = bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  while (offset < bytes.length) {
+    const introducer = bytes[offset++];
+
+    if (introducer === TRAILER) {
+      break;
+    }
+
+    if (introducer === EXTENSION) {
+      const label = bytes[offset++];
+
+      if (label === GRAPHIC_CONTROL && bytes[offset] >= 4 && bytes[offset + 1] & 1) {
+        transparentIndex = bytes[offset + 4];
+      }
+
+      offset = skipSubBlocks(bytes, offset);
+      continue;
+    }
+
+    if (introducer !== IMAGE_DESCRIPTOR) {
+      throw new Error(`Invalid GIF: unknown block 0x${introducer.toString(16)}`);
+    }
+
+    const frameFlags = bytes[offset + 8];
+    const frame = {
+      left: readUint16LE(bytes, offset),
+      top: readUint16LE(bytes, offset + 2),
+      width: readUint16LE(bytes, offset + 4),
+      height: readUint16LE(bytes, offset + 6),
+      interlaced: (frameFlags & 0x40) !== 0,
+    };
+
+    let colors = globalColors;
+
+    offset += 9;
+
+    if (frameFlags & 0x80) {
+      const size = 3 << ((frameFlags & 7) + 1);
+
+      colors = bytes.subarray(offset, offset + size);
+      offset += size;
+    }
+
+    if (!colors) {
+      throw new Error("Invalid GIF: no color table");
+    }
+
+    const minCodeSize = bytes[offset++];
+    const indices = decodeLzw(
+      readSubBlocks(bytes, offset),
+      minCodeSize,
+      frame.width * frame.height,
+    );
+
+    return compose(width, height, frame, indices, colors, transparentIndex);
+  }
+
+  throw new Error("Invalid GIF: no image");
+}
+
+/**
+ * Paint the frame onto the logical screen, which is otherwise transparent.
+ */
+function compose(
+  width: number,
+  height: number,
+  frame: { left: number; top: number; width: number; height: number; interlaced: boolean },
+  indices: Uint8Array,
+  colors: Uint8Array,
+  transparentIndex: number,
+): RasterImage {
+  const pixels = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+
+  // Rows in the order they are stored
+  const rows: number[] = [];
+
+  if (frame.interlaced) {
+    for (const [start, step] of INTERLACE_PASSES) {
+      for (let y = start; y < frame.height; y += step) {
+        rows.push(y);
+      }
+    }
+  } else {
+    for (let y = 0; y < frame.height; y++) {
+      rows.push(y);
+    }
+  }
+
+  for (let row = 0; row < rows.length; row++) {
+    const y = frame.top + rows[row];
+
+    if (y >= height) {
+      continue;
+    }
+
+    for (let col = 0; col < frame.width && frame.left + col < width; col++) {
+      const index = indices[row * frame.width + col];
+
+      if (index === transparentIndex) {
+        continue;
+      }
+
+      const target = y * width + frame.left + col;
+
+      // Indices past the end of the table are black
+      pixels[target * 3] = colors[index * 3] ?? 0;
+      pixels[target * 3 + 1] = colors[index * 3 + 1] ?? 0;
+      pixels[target * 3 + 2] = colors[index * 3 + 2] ?? 0;
+      alpha[target] = 255;
+    }
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: "DeviceRGB",
+    bitsPerComponent: 8,
+    pixels,
+    alpha: opaqueToUndefined(alpha),
+  };
+}
+
+/**
+ * Decode GIF LZW data: variable-length codes, least significant bit first,
+ * growing to 12 bits.
+ *
+ * @param data - The image data sub-blocks, joined
+ * @param minCodeSize - Bits of the initial code table's literal codes
+ * @param count - Number of pixels; missing pixels are 0
+ */
+function decodeLzw(data: Uint8Array, minCodeSize: number, count: number): Uint8Array {
+  if (minCodeSize < 1 || minCodeSize > 11) {
+    throw new Error(`Invalid GIF: LZW code size ${minCodeSize}`);
+  }
+
+  const output = new Uint8Array(count);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  // Each code is a previous code plus one byte
+  const prefix = new Int16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const lengths = new Uint16Array(MAX_CODES);
+
+  for (let i = 0; i < clearCode; i++) {
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let out = 0;
+  let bits = 0;
+  let bitCount = 0;
+  let pos = 0;
+
+  while (out < count) {
+    while (bitCount < codeSize && pos < data.length) {
+      bits |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+
+    if (bitCount < codeSize) {
+      break;
+    }
+
+    const code = bits & ((1 << codeSize) - 1);
+
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+
+    if (code === endCode) {
+      break;
+    }
+
+    if (previous === -1) {
+      if (code >= clearCode) {
+        throw new Error(`Invalid GIF: LZW code ${code} before any string`);
+      }
+
+      output[out++] = code;
+      previous = code;
+      continue;
+    }
+
+    // A code not yet in the table is the previous string plus its own first byte
+    const known = code < nextCode;
+
+    if (!known && code !== nextCode) {
+      throw new Error(`Invalid GIF: LZW code ${code} out of range`);
+    }
+
+    const source = known ? code : previous;
+    const length = lengths[source];
+    let first = 0;
+
+    // Write the string backwards from its last byte
+    for (let c = source, i = length - 1; i >= 0; i--) {
+      first = suffix[c];
+
+      if (out + i < count) {
+        output[out + i] = first;
+      }
+
+      c = prefix[c];
+    }
+
+    out += length;
+
+    if (!known && out < count) {
+      output[out] = first;
+    }
+
+    if (!known) {
+      out++;
+    }
+
+    if (nextCode < MAX_CODES) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+
+      if (nextCode === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+
+    previous = code;
+  }
+
+  return output;
+}
+
+/**
+ * Join a sequence of data sub-blocks (each a length byte, then that many
+ * bytes, up to a zero length).
+ */
+function readSubBlocks(bytes: Uint8Array, offset: number): Uint8Array {
+  const end = skipSubBlocks(bytes, offset);
+  const data = new Uint8Array(end - offset);
+  let length = 0;
+
+  for (let pos = offset; pos < end && bytes[pos] !== 0; pos += bytes[pos] + 1) {
+    const block = bytes.subarray(pos + 1, pos + 1 + bytes[pos]);
+
+    data.set(block, length);
+    length += block.length;
+  }
+
+  return data.subarray(0, length);
+}
+
+/**
+ * Find the end of a sequence of data sub-blocks.
+ */
+function skipSubBlocks(bytes: Uint8Array, offset: number): number {
+  let pos = offset;
+
+  while (pos < bytes.length) {
+    const size = bytes[pos];
+
+    pos += size + 1;
+
+    if (size === 0) {
+      break;
+    }
+  }
+
+  return Math.min(pos, bytes.length);
+}
+
+/**
+ * Read little-endian uint16.
+ */
+function readUint16LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
@@ -0,0 +1,177 @@
+import { PDF } from "#src/api/pdf";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { numbers } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { decodeImageToRgba } from "./image-decoder";
+import { writePng } from "./png-writer";
+
+const resolve = () => null;
+
+function image(entries: Record<string, PdfObject>, data: number[]): PdfStream {
+  return PdfStream.fromDict(
+    {
+      Type: PdfName.of("XObject"),
+      Subtype: PdfName.of("Image"),
+      BitsPerComponent: PdfNumber.of(8),
+      ...entries,
+    },
+    new Uint8Array(data),
+  );
+}
+
+describe("decodeImageToRgba", () => {
+  it("expands gray to RGBA, opaque without masks", () => {
+    const rgba = decodeImageToRgba(
+      image(
+        { Width: PdfNumber.of(2), Height: PdfNumber.of(1), ColorSpace: PdfName.of("DeviceGray") },
+        [0, 200],
+      ),
+      resolve,
+    );
+
+    expect(rgba).toEqual({
+      width: 2,
+      height: 1,
+      pixels: new Uint8Array([0, 0, 0, 255, 200, 200, 200, 255]),
+    });
+  });
+
+  it("takes alpha from a soft mask", () => {
+    const smask = image(
+      { Width: PdfNumber.of(2), Height: PdfNumber.of(1), ColorSpace: PdfName.of("DeviceGray") },
+      [255, 64],
+    );
+    const rgba = decodeImageToRgba(
+      image(
+        {
+          Width: PdfNumber.of(2),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceRGB"),
+          SMask: smask,
+        },
+        [255, 0, 0, 0, 0, 255],
+      ),
+      resolve,
+    );
+
+    expect(rgba.pixels).toEqual(new Uint8Array([255, 0, 0, 255, 0, 0, 255, 64]));
+  });
+
+  it("removes a soft mask's matte colour", () => {
+    // Half-transparent red premultiplied against white
+    const smask = image(
+      {
+        Width: PdfNumber.of(1),
+        Height: PdfNumber.of(1),
+        ColorSpace: PdfName.of("DeviceGray"),
+        Matte: numbers(1, 1, 1),
+      },
+      [128],
+    );
+    const rgba = decodeImageToRgba(
+      image(
+        {
+          Width: PdfNumber.of(1),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceRGB"),
+          SMask: smask,
+        },
+        [255, 127, 127],
+      ),
+      resolve,
+    );
+
+    expect(rgba.pixels).toEqual(new Uint8Array([255, 0, 0, 128]));
+  });
+
+  it("converts Lab images with their /Decode", () => {
+    const lab = new PdfArray([
+      PdfName.of("Lab"),
+      PdfDict.of({ WhitePoint: numbers(0.9505, 1, 1.089), Range: numbers(-128, 127, -128, 127) }),
+    ]);
+    const rgba = decodeImageToRgba(
+      image(
+        {
+          Width: PdfNumber.of(2),
+          Height: PdfNumber.of(1),
+          ColorSpace: lab,
+          Decode: numbers(0, 100, -128, 127, -128, 127),
+        },
+        // L* 100 and 0, a* and b* at 0
+        [255, 128, 128, 0, 128, 128],
+      ),
+      resolve,
+    );
+
+    expect([...rgba.pixels.subarray(0, 3)].every(value => value >= 253)).toBe(true);
+    expect([...rgba.pixels.subarray(4, 7)]).toEqual([0, 0, 0]);
+  });
+
+  it("converts Separation images through the tint transform, after /Decode", () => {
+    const separation = new PdfArray([
+      PdfName.of("Separation"),
+      PdfName.of("Orange"),
+      PdfName.of("DeviceRGB"),
+      PdfDict.of({
+        FunctionType: PdfNumber.of(2),
+        Domain: numbers(0, 1),
+        C0: numbers(1, 1, 1),
+        C1: numbers(1, 0.5, 0),
+        N: PdfNumber.of(1),
+      }),
+    ]);
+    const rgba = decodeImageToRgba(
+      image(
+        {
+          Width: PdfNumber.of(2),
+          Height: PdfNumber.of(1),
+          ColorSpace: separation,
+          Decode: numbers(1, 0),
+        },
+        [0, 255],
+      ),
+      resolve,
+    );
+
+    expect(rgba.pixels).toEqual(new Uint8Array([255, 128, 0, 255, 255, 255, 255, 255]));
+  });
+});
+
+describe("pdf.imageToRGBA", () => {
+  it("decodes embedded images with their alpha", () => {
+    const pixels = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 9, 9, 9, 255]);
+    const pdf = PDF.create();
+    const embedded = pdf.embedImage(writePng({ width: 2, height: 2, channels: 4, pixels }));
+
+    expect(pdf.imageToRGBA(embedded)).toEqual({ width: 2, height: 2, pixels });
+    expect(pdf.imageToRGBA(embedded.ref).pixels).toEqual(pixels);
+  });
+
+  it("decodes placed images", async () => {
+    const pdf = PDF.create();
+    const pixels = new Uint8Array(4 * 3).fill(90);
+    const embedded = pdf.embedImage(writePng({ width: 2, height: 2, channels: 3, pixels }));
+
+    pdf.addPage().drawImage(embedded, { x: 0, y: 0 });
+
+    const loaded = await PDF.load(await pdf.save());
+    const [placed] = loaded.extractImages();
+
+    expect(placed.toRGBA().pixels).toEqual(
+      new Uint8Array(16).map((_, i) => (i % 4 === 3 ? 255 : 90)),
+    );
+  });
+
+  it("throws for objects that aren't images", () => {
+    const pdf = PDF.create();
+    const ref = pdf.register(PdfDict.of({ Type: PdfName.of("Foo") }));
+
+    expect(() => pdf.imageToRGBA(ref)).toThrow("Not an image XObject");
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * Decode image XObjects to 8-bit pixels.
+ *
+ * Samples are read through the filter pipeline at any bit depth, mapped
+ * through /Decode and converted from their colour space to gray or RGB
+ * (see `createColorConverter()`). /SMask, /Mask (stencil or colour key)
+ * and /ImageMask become an alpha channel.
+ */
+
+import { FilterPipeline } from "#src/filters/filter-pipeline";
+import { JPXFilter } from "#src/filters/jpx-filter";
+import {
+  type ColorSpaceDefinition,
+  colorSpaceComponents,
+  createColorConverter,
+  defaultDecode,
+  parseColorSpace,
+} from "#src/helpers/colorspace";
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfStream } from "#src/objects/pdf-stream";
+
+/**
+ * An image decoded to 8-bit RGBA.
+ */
+export interface RgbaImage {
+  /** Image width in pixels */
+  width: number;
+
+  /** Image height in pixels */
+  height: number;
+
+  /** Red, green, blue and alpha per pixel, rows top to bottom */
+  pixels: Uint8Array;
+}
+
+/**
+ * An image decoded to 8-bit gray or RGB.
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  channels: 1 | 3;
+
+  /** Interleaved samples, rows top to bottom */
+  pixels: Uint8Array;
+
+  /** Opacity, one byte per pixel */
+  alpha?: Uint8Array;
+}
+
+/**
+ * Decode an image XObject to RGBA, with its masks applied as alpha.
+ *
+ * Image masks come out black where they paint and transparent elsewhere.
+ *
+ * @throws {Error} If the image can't be decoded or its colour space isn't
+ *   supported
+ */
+export function decodeImageToRgba(image: PdfStream, resolve: RefResolver): RgbaImage {
+  const { width, height, channels, pixels, alpha } = decodeImage(image, resolve);
+  const count = width * height;
+  const rgba = new Uint8Array(count * 4);
+
+  for (let i = 0; i < count; i++) {
+    const out = i * 4;
+
+    if (channels === 1) {
+      rgba[out] = rgba[out + 1] = rgba[out + 2] = pixels[i];
+    } else {
+      rgba[out] = pixels[i * 3];
+      rgba[out + 1] = pixels[i * 3 + 1];
+      rgba[out + 2] = pixels[i * 3 + 2];
+    }
+
+    rgba[out + 3] = alpha ? alpha[i] : 255;
+  }
+
+  return { width, height, pixels: rgba };
+}
+
+/**
+ * Decode an image XObject to gray or RGB (whichever its colour space
+ * needs), with its masks as a separate alpha channel.
+ *
+ * @throws {Error} If the image can't be decoded or its colour space isn't
+ *   supported
+ */
+export function decodeImage(image: PdfStream, resolve: RefResolver): DecodedImage {
+  const width = image.getNumber("Width", resolve)?.value ?? 0;
+  const height = image.getNumber("Height", resolve)?.value ?? 0;
+
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`Invalid image size: ${width}x${height}`);
+  }
+
+  if (image.getBool("ImageMask", resolve)?.value) {
+    return decodeStencil(image, width, height, resolve);
+  }
+
+  const specs = image.getFilterSpecs(resolve);
+  const colorSpaceEntry = image.get("ColorSpace", resolve);
+  let colorSpace = colorSpaceEntry ? parseColorSpace(colorSpaceEntry, resolve) : null;
+  let samples: Uint8Array;
+  let bitsPerComponent: number;
+  let alpha: Uint8Array | undefined;
+  let decode = image.getArray("Decode", resolve);
+
+  if (specs.at(-1)?.name === "JPXDecode") {
+    // JPX images carry their own size, sample depth and (optionally) colour
+    // space; /Decode only applies to them as image masks
+    const jpx = JPXFilter.decodeImage(FilterPipeline.decode(image.data, specs.slice(0, -1)), image);
+
+    colorSpace ??= jpx.components === 1 ? GRAY : jpx.components === 4 ? CMYK : RGB;
+    samples = jpx.pixels;
+    bitsPerComponent = 8;
+    decode = undefined;
+
+    if (jpx.alpha) {
+      alpha = jpx.alpha;
+
+      if (jpx.premultipliedAlpha) {
+        unpremultiply(samples, alpha, jpx.components);
+      }
+    }
+  } else {
+    if (!colorSpace) {
+      throw new Error("Image has no /ColorSpace");
+    }
+
+    // DCTDecode gives its JPEG data unless asked for pixels
+    samples = image.getDecodedData(resolve, { pixels: true });
+    bitsPerComponent = image.getNumber("BitsPerComponent", resolve)?.value ?? 8;
+  }
+
+  const components = colorSpaceComponents(colorSpace);
+  const reader = new SampleReader(samples, width, components, bitsPerComponent);
+  const maxValue = 2 ** bitsPerComponent - 1;
+  const decoded = convertSamples(
+    reader,
+    width,
+    height,
+    colorSpace,
+    decodeTables(decode, colorSpace, bitsPerComponent, resolve),
+    resolve,
+  );
+
+  const mask = image.get("Mask", resolve);
+  const smask = image.get("SMask", resolve);
+
+  if (smask instanceof PdfStream) {
+    // The soft mask's gray level is the opacity
+    alpha = resample(decodeImage(smask, resolve), width, height, "pixels");
+
+    const matte = smask.getArray("Matte", resolve);
+
+    if (matte) {
+      removeMatte(decoded, alpha, matte, colorSpace, resolve);
+    }
+  } else if (mask instanceof PdfStream) {
+    alpha = resample(
+      decodeStencil(mask, ...maskSize(mask, resolve), resolve),
+      width,
+      height,
+      "alpha",
+    );
+  } else if (mask instanceof PdfArray) {
+    alpha = colorKeyAlpha(reader, width, height, components, mask, maxValue, resolve);
+  }
+
+  return { ...decoded, alpha };
+}
+
+const GRAY: ColorSpaceDefinition = { kind: "gray" };
+const RGB: ColorSpaceDefinition = { kind: "rgb" };
+const CMYK: ColorSpaceDefinition = { kind: "cmyk" };
+
+function maskSize(mask: PdfStream, resolve: RefResolver): [number, number] {
+  return [
+    mask.getNumber("Width", resolve)?.value ?? 0,
+    mask.getNumber("Height", resolve)?.value ?? 0,
+  ];
+}
+
+/**
+ * Decode a stencil mask: black where it paints, transparent elsewhere.
+ *
+ * Samples of 0 paint, unless /Decode is [1 0].
+ */
+function decodeStencil(
+  image: PdfStream,
+  width: number,
+  height: number,
+  resolve: RefResolver,
+): DecodedImage {
+  if (!(width > 0 && height > 0)) {
+    throw new Error(`Invalid image size: ${width}x${height}`);
+  }
+
+  const reader = new SampleReader(image.getDecodedData(resolve), width, 1, 1);
+  const decode = image.getArray("Decode", resolve);
+  const paint = decode && numberAt(decode, 0, resolve) === 1 ? 1 : 0;
+  const pixels = new Uint8Array(width * height);
+  const alpha = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    reader.startRow(y);
+
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+
+      if (reader.read() === paint) {
+        alpha[i] = 255;
+      } else {
+        pixels[i] = 255;
+      }
+    }
+  }
+
+  return { width, height, channels: 1, pixels, alpha };
+}
+
+/**
+ * Convert samples to 8-bit gray or RGB.
+ */
+function convertSamples(
+  reader: SampleReader,
+  width: number,
+  height: number,
+  colorSpace: ColorSpaceDefinition,
+  tables: Float64Array[],
+  resolve: RefResolver,
+): DecodedImage {
+  const converter = createColorConverter(colorSpace, resolve);
+  const components = colorSpaceComponents(colorSpace);
+  const channels = converter.channels;
+  const pixels = new Uint8Array(width * height * channels);
+  const values = new Float64Array(components);
+
+  for (let y = 0; y < height; y++) {
+    reader.startRow(y);
+
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < components; c++) {
+        values[c] = tables[c][reader.read()];
+      }
+
+      converter.convert(values, pixels, (y * width + x) * channels);
+    }
+  }
+
+  return { width, height, channels, pixels };
+}
+
+/**
+ * Build a table per component mapping raw samples to component values
+ * (or palette indices), applying /Decode.
+ */
+function decodeTables(
+  decode: PdfArray | undefined,
+  colorSpace: ColorSpaceDefinition,
+  bitsPerComponent: number,
+  resolve: RefResolver,
+): Float64Array[] {
+  const components = colorSpaceComponents(colorSpace);
+  const ranges = defaultDecode(colorSpace, bitsPerComponent);
+  const maxValue = 2 ** bitsPerComponent - 1;
+  const tables: Float64Array[] = [];
+
+  for (let c = 0; c < components; c++) {
+    const low = decode ? numberAt(decode, c * 2, resolve) : ranges[c * 2];
+    const high = decode ? numberAt(decode, c * 2 + 1, resolve) : ranges[c * 2 + 1];
+    const table = new Float64Array(maxValue + 1);
+
+    for (let value = 0; value <= maxValue; value++) {
+      table[value] = low + (value * (high - low)) / maxValue;
+    }
+
+    tables.push(table);
+  }
+
+  return tables;
+}
+
+/**
+ * Undo a soft mask's /Matte: the colours were premultiplied against the
+ * matte colour, so c = m + (c' - m) / alpha.
+ */
+function removeMatte(
+  image: DecodedImage,
+  alpha: Uint8Array,
+  matte: PdfArray,
+  colorSpace: ColorSpaceDefinition,
+  resolve: RefResolver,
+): void {
+  const components = colorSpaceComponents(colorSpace);
+  const values = Array.from({ length: components }, (_, c) => numberAt(matte, c, resolve));
+  const background = new Uint8Array(image.channels);
+
+  createColorConverter(colorSpace, resolve).convert(values, background, 0);
+
+  const { pixels, channels } = image;
+
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+
+    if (a === 0 || a === 255) {
+      continue;
+    }
+
+    for (let c = 0; c < channels; c++) {
+      const index = i * channels + c;
+      const value = background[c] + ((pixels[index] - background[c]) * 255) / a;
+
+      pixels[index] = Math.max(0, Math.min(255, Math.round(value)));
+    }
+  }
+}
+
+/**
+ * Opacity from a colour key mask: pixels whose samples all fall in the
+ * given ranges are transparent.
+ */
+function colorKeyAlpha(
+  reader: SampleReader,
+  width: number,
+  height: number,
+  components: number,
+  ranges: PdfArray,
+  maxValue: number,
+  resolve: RefResolver,
+): Uint8Array {
+  const alpha = new Uint8Array(width * height).fill(255);
+  const low: number[] = [];
+  const high: number[] = [];
+
+  for (let c = 0; c < components; c++) {
+    low.push(numberAt(ranges, c * 2, resolve));
+    high.push(numberAt(ranges, c * 2 + 1, resolve, maxValue));
+  }
+
+  for (let y = 0; y < height; y++) {
+    reader.startRow(y);
+
+    for (let x = 0; x < width; x++) {
+      let masked = true;
+
+      for (let c = 0; c < components; c++) {
+        const value = reader.read();
+
+        masked &&= value >= low[c] && value <= high[c];
+      }
+
+      if (masked) {
+        alpha[y * width + x] = 0;
+      }
+    }
+  }
+
+  return alpha;
+}
+
+/**
+ * Scale a mask to the image's size (nearest neighbour), taking its gray
+ * level or its alpha.
+ */
+function resample(
+  mask: DecodedImage,
+  width: number,
+  height: number,
+  source: "pixels" | "alpha",
+): Uint8Array {
+  const plane = source === "alpha" && mask.alpha ? mask.alpha : gray(mask);
+
+  if (mask.width === width && mask.height === height) {
+    return plane;
+  }
+
+  const result = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.floor((y * mask.height) / height);
+
+    for (let x = 0; x < width; x++) {
+      result[y * width + x] = plane[sy * mask.width + Math.floor((x * mask.width) / width)];
+    }
+  }
+
+  return result;
+}
+
+function gray(image: DecodedImage): Uint8Array {
+  if (image.channels === 1) {
+    return image.pixels;
+  }
+
+  const count = image.width * image.height;
+  const result = new Uint8Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const p = image.pixels;
+
+    result[i] = Math.round(p[i * 3] * 0.299 + p[i * 3 + 1] * 0.587 + p[i * 3 + 2] * 0.114);
+  }
+
+  return result;
+}
+
+function unpremultiply(pixels: Uint8Array, alpha: Uint8Array, components: number): void {
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+
+    if (a === 0 || a === 255) {
+      continue;
+    }
+
+    for (let c = 0; c < components; c++) {
+      const index = i * components + c;
+
+      pixels[index] = Math.min(255, Math.round((pixels[index] * 255) / a));
+    }
+  }
+}
+
+function numberAt(array: PdfArray, index: number, resolve?: RefResolver, fallback = 0): number {
+  const item = array.at(index, resolve);
+
+  return item instanceof PdfNumber ? item.value : fallback;
+}
+
+/**
+ * Reads samples of any bit depth (1-16), rows starting on byte boundaries.
+ */
+class SampleReader {
+  private readonly rowBytes: number;
+  private readonly bits: number;
+  private position = 0;
+
+  constructor(
+    private readonly data: Uint8Array,
+    width: number,
+    components: number,
+    bitsPerComponent: number,
+  ) {
+    this.rowBytes = Math.ceil((width * components * bitsPerComponent) / 8);
+    this.bits = bitsPerComponent;
+  }
+
+  startRow(y: number): void {
+    this.position = y * this.rowBytes * 8;
+  }
+
+  read(): number {
+    const bits = this.bits;
+    const byte = this.position >> 3;
+    let value: number;
+
+    if (bits === 8) {
+      value = this.data[byte] ?? 0;
+    } else if (bits === 16) {
+      value = ((this.data[byte] ?? 0) << 8) | (this.data[byte + 1] ?? 0);
+    } else {
+      const shift = 8 - (this.position & 7) - bits;
+
+      value = ((this.data[byte] ?? 0) >> shift) & ((1 << bits) - 1);
+    }
+
+    this.position += bits;
+
+    return value;
+  }
+}
@@ -0,0 +1,311 @@
+import { PDF } from "#src/api/pdf";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfBool } from "#src/objects/pdf-bool";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { PdfString } from "#src/objects/pdf-string";
+import { loadFixture, numbers } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { exportImage } from "./image-export";
+import { parsePng } from "./png";
+
+const resolve = () => null;
+
+function image(entries: Record<string, PdfObject>, data: number[]): PdfStream {
+  return PdfStream.fromDict(
+    {
+      Type: PdfName.of("XObject"),
+      Subtype: PdfName.of("Image"),
+      BitsPerComponent: PdfNumber.of(8),
+      ...entries,
+    },
+    new Uint8Array(data),
+  );
+}
+
+function exportPng(stream: PdfStream) {
+  const exported = exportImage(stream, resolve);
+
+  expect(exported.format).toBe("png");
+  expect(exported.mimeType).toBe("image/png");
+
+  return parsePng(exported.data);
+}
+
+describe("exportImage", () => {
+  it("exports gray images", () => {
+    const png = exportPng(
+      image(
+        { Width: PdfNumber.of(2), Height: PdfNumber.of(2), ColorSpace: PdfName.of("DeviceGray") },
+        [0, 85, 170, 255],
+      ),
+    );
+
+    expect(png.info).toMatchObject({ width: 2, height: 2, colorSpace: "DeviceGray" });
+    expect(png.pixels).toEqual(new Uint8Array([0, 85, 170, 255]));
+  });
+
+  it("unpacks low bit depths and applies /Decode", () => {
+    // 1-bit rows padded to bytes, inverted by /Decode
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(3),
+          Height: PdfNumber.of(2),
+          ColorSpace: PdfName.of("DeviceGray"),
+          BitsPerComponent: PdfNumber.of(1),
+          Decode: numbers(1, 0),
+        },
+        [0b10100000, 0b01000000],
+      ),
+    );
+
+    expect(png.pixels).toEqual(new Uint8Array([0, 255, 0, 255, 0, 255]));
+  });
+
+  it("scales 16-bit samples", () => {
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(1),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceRGB"),
+          BitsPerComponent: PdfNumber.of(16),
+        },
+        [0xff, 0xff, 0x80, 0x00, 0x00, 0xff],
+      ),
+    );
+
+    expect(png.pixels).toEqual(new Uint8Array([255, 128, 1]));
+  });
+
+  it("converts CMYK to RGB", () => {
+    const png = exportPng(
+      image(
+        { Width: PdfNumber.of(2), Height: PdfNumber.of(1), ColorSpace: PdfName.of("DeviceCMYK") },
+        [255, 0, 0, 0, 0, 0, 0, 255],
+      ),
+    );
+
+    expect(png.pixels).toEqual(new Uint8Array([0, 255, 255, 0, 0, 0]));
+  });
+
+  it("looks up indexed colours", () => {
+    const colorSpace = new PdfArray([
+      PdfName.of("Indexed"),
+      PdfName.of("DeviceRGB"),
+      PdfNumber.of(1),
+      new PdfString(new Uint8Array([255, 0, 0, 0, 0, 255])),
+    ]);
+
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(4),
+          Height: PdfNumber.of(1),
+          ColorSpace: colorSpace,
+          BitsPerComponent: PdfNumber.of(2),
+        },
+        [0b00010100],
+      ),
+    );
+
+    expect(png.pixels).toEqual(new Uint8Array([255, 0, 0, 0, 0, 255, 0, 0, 255, 255, 0, 0]));
+  });
+
+  it("uses the ICC profile's component count", () => {
+    const profile = PdfStream.fromDict({ N: PdfNumber.of(1) });
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(1),
+          Height: PdfNumber.of(1),
+          ColorSpace: new PdfArray([PdfName.of("ICCBased"), profile]),
+        },
+        [42],
+      ),
+    );
+
+    expect(png.info.colorSpace).toBe("DeviceGray");
+    expect(png.pixels).toEqual(new Uint8Array([42]));
+  });
+
+  it("uses a soft mask as alpha, scaled to the image", () => {
+    const smask = image(
+      { Width: PdfNumber.of(1), Height: PdfNumber.of(1), ColorSpace: PdfName.of("DeviceGray") },
+      [128],
+    );
+
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(2),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceGray"),
+          SMask: smask,
+        },
+        [10, 20],
+      ),
+    );
+
+    expect(png.pixels).toEqual(new Uint8Array([10, 20]));
+    expect(png.alpha).toEqual(new Uint8Array([128, 128]));
+  });
+
+  it("decodes JPEG soft masks", async () => {
+    const smask = PdfStream.fromDict(
+      {
+        Width: PdfNumber.of(20),
+        Height: PdfNumber.of(12),
+        ColorSpace: PdfName.of("DeviceGray"),
+        BitsPerComponent: PdfNumber.of(8),
+        Filter: PdfName.of("DCTDecode"),
+      },
+      await loadFixture("images", "gray-gradient.jpg"),
+    );
+
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(20),
+          Height: PdfNumber.of(12),
+          ColorSpace: PdfName.of("DeviceGray"),
+          SMask: smask,
+        },
+        new Array<number>(240).fill(0),
+      ),
+    );
+
+    // A horizontal gradient, transparent to opaque
+    expect(png.alpha?.[0]).toBeLessThan(4);
+    expect(png.alpha?.[19]).toBeGreaterThan(251);
+  });
+
+  it("applies stencil and colour key masks", () => {
+    // Mask samples of 1 are masked out
+    const stencil = image(
+      {
+        Width: PdfNumber.of(2),
+        Height: PdfNumber.of(1),
+        ImageMask: PdfBool.of(true),
+        BitsPerComponent: PdfNumber.of(1),
+      },
+      [0b01000000],
+    );
+
+    const stenciled = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(2),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceGray"),
+          Mask: stencil,
+        },
+        [10, 20],
+      ),
+    );
+
+    expect(stenciled.alpha).toEqual(new Uint8Array([255, 0]));
+
+    const keyed = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(3),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceGray"),
+          Mask: numbers(15, 25),
+        },
+        [10, 20, 30],
+      ),
+    );
+
+    expect(keyed.alpha).toEqual(new Uint8Array([255, 0, 255]));
+  });
+
+  it("exports image masks as black on transparent", () => {
+    const png = exportPng(
+      image(
+        {
+          Width: PdfNumber.of(2),
+          Height: PdfNumber.of(1),
+          ImageMask: PdfBool.of(true),
+          BitsPerComponent: PdfNumber.of(1),
+        },
+        [0b01000000],
+      ),
+    );
+
+    expect(png.pixels).toEqual(new Uint8Array([0, 255]));
+    expect(png.alpha).toEqual(new Uint8Array([255, 0]));
+  });
+
+  it("exports DCT images as their JPEG data", () => {
+    const exported = exportImage(
+      image(
+        {
+          Width: PdfNumber.of(1),
+          Height: PdfNumber.of(1),
+          ColorSpace: PdfName.of("DeviceRGB"),
+          Filter: new PdfArray([PdfName.of("ASCIIHexDecode"), PdfName.of("DCTDecode")]),
+        },
+        Array.from(new TextEncoder().encode("ffd8ffd9>")),
+      ),
+      resolve,
+    );
+
+    expect(exported.format).toBe("jpeg");
+    expect(exported.mimeType).toBe("image/jpeg");
+    expect(exported.data).toEqual(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]));
+  });
+
+  it("decodes JPX images", async () => {
+    const pdf = await PDF.load(await loadFixture("malformed", "pdfbox/PDFBOX-3947.pdf"));
+    const stream = pdf.context.resolve(PdfRef.of(13445, 0));
+
+    if (!(stream instanceof PdfStream)) {
+      throw new Error("fixture image not found");
+    }
+
+    const png = parsePng(exportImage(stream, ref => pdf.context.resolve(ref)).data);
+
+    expect(png.info).toMatchObject({ width: 173, height: 172, colorSpace: "DeviceGray" });
+  });
+
+  it("exports Separation images through their tint transform", () => {
+    const separation = new PdfArray([
+      PdfName.of("Separation"),
+      PdfName.of("Spot"),
+      PdfName.of("DeviceGray"),
+      PdfDict.of({
+        FunctionType: PdfNumber.of(2),
+        Domain: numbers(0, 1),
+        C0: numbers(1),
+        C1: numbers(0),
+        N: PdfNumber.of(1),
+      }),
+    ]);
+    const png = exportPng(
+      image({ Width: PdfNumber.of(2), Height: PdfNumber.of(1), ColorSpace: separation }, [0, 255]),
+    );
+
+    expect(png.info.colorSpace).toBe("DeviceGray");
+    expect(png.pixels).toEqual(new Uint8Array([255, 0]));
+  });
+
+  it("rejects colour spaces it can't convert", () => {
+    expect(() =>
+      exportImage(
+        image(
+          { Width: PdfNumber.of(1), Height: PdfNumber.of(1), ColorSpace: PdfName.of("Pattern") },
+          [0],
+        ),
+        resolve,
+      ),
+    ).toThrow("Unsupported color space: Pattern");
+  });
+});
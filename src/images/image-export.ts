@@ -0,0 +1,80 @@
+/**
+ * Export image XObjects as standalone image files.
+ *
+ * DCTDecode images are exported as the JPEG data they hold. Everything
+ * else is decoded to 8-bit gray or RGB (see `decodeImage()`) and written
+ * as a PNG, with /SMask, /Mask or /ImageMask as alpha.
+ */
+
+import { FilterPipeline } from "#src/filters/filter-pipeline";
+import type { RefResolver } from "#src/helpers/types";
+import type { PdfStream } from "#src/objects/pdf-stream";
+
+import { decodeImage } from "./image-decoder";
+import { writePng } from "./png-writer";
+
+/**
+ * An image exported as a file.
+ */
+export interface ExportedImage {
+  /** File format */
+  format: "png" | "jpeg";
+
+  /** MIME type of the file */
+  mimeType: "image/png" | "image/jpeg";
+
+  /** File bytes */
+  data: Uint8Array;
+}
+
+/**
+ * Export an image XObject as a PNG or, for DCTDecode images, a JPEG.
+ *
+ * JPEGs are exported as stored: /Decode, /SMask and /Mask are not
+ * applied to them.
+ *
+ * @throws {Error} If the image can't be decoded or its colour space isn't
+ *   supported
+ */
+export function exportImage(image: PdfStream, resolve: RefResolver): ExportedImage {
+  const specs = image.getFilterSpecs(resolve);
+
+  if (specs.at(-1)?.name === "DCTDecode") {
+    return {
+      format: "jpeg",
+      mimeType: "image/jpeg",
+      data: FilterPipeline.decode(image.data, specs.slice(0, -1)),
+    };
+  }
+
+  const decoded = decodeImage(image, resolve);
+  const { width, height, channels, alpha } = decoded;
+  const count = width * height;
+  let pixels = decoded.pixels;
+
+  if (alpha) {
+    // Interleave the alpha channel
+    const withAlpha = new Uint8Array(count * (channels + 1));
+
+    for (let i = 0, out = 0; i < count; i++) {
+      for (let c = 0; c < channels; c++) {
+        withAlpha[out++] = pixels[i * channels + c];
+      }
+
+      withAlpha[out++] = alpha[i];
+    }
+
+    pixels = withAlpha;
+  }
+
+  return {
+    format: "png",
+    mimeType: "image/png",
+    data: writePng({
+      width,
+      height,
+      channels: alpha ? (channels === 1 ? 2 : 4) : channels,
+      pixels,
+    }),
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * ImageExtractor - Finds the images painted by PDF content streams.
+ *
+ * Tracks the current transformation matrix through q/Q/cm, follows `Do`
+ * into Form XObjects (with their /Matrix and /Resources) and collects
+ * image XObjects and inline images with their placement.
+ */
+
+import { ContentStreamParser } from "#src/content/parsing/content-stream-parser";
+import {
+  type ContentToken,
+  type InlineImageOperation,
+  isInlineImageOperation,
+  type ParsedOperation,
+} from "#src/content/parsing/types";
+import { Matrix } from "#src/helpers/matrix";
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfBool } from "#src/objects/pdf-bool";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNull } from "#src/objects/pdf-null";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { PdfString } from "#src/objects/pdf-string";
+
+import { ExtractedImage } from "./extracted-image";
+
+/**
+ * Options for image extraction.
+ */
+export interface ImageExtractorOptions {
+  /** Page the content belongs to (0-based) */
+  pageIndex: number;
+
+  /** Resolves indirect references */
+  resolve: RefResolver;
+}
+
+/** Full keys of abbreviated inline image parameters */
+const INLINE_KEYS: Record<string, string> = {
+  BPC: "BitsPerComponent",
+  CS: "ColorSpace",
+  D: "Decode",
+  DP: "DecodeParms",
+  F: "Filter",
+  H: "Height",
+  IM: "ImageMask",
+  I: "Interpolate",
+  W: "Width",
+};
+
+/** Full names of abbreviated inline image filters and colour spaces */
+const INLINE_NAMES: Record<string, string> = {
+  AHx: "ASCIIHexDecode",
+  A85: "ASCII85Decode",
+  LZW: "LZWDecode",
+  Fl: "FlateDecode",
+  RL: "RunLengthDecode",
+  CCF: "CCITTFaxDecode",
+  DCT: "DCTDecode",
+  G: "DeviceGray",
+  RGB: "DeviceRGB",
+  CMYK: "DeviceCMYK",
+  I: "Indexed",
+};
+
+/**
+ * Extracts image placements from content streams.
+ */
+export class ImageExtractor {
+  private readonly pageIndex: number;
+  private readonly resolve: RefResolver;
+  private readonly images: ExtractedImage[] = [];
+
+  /** Form XObjects being processed, to break cycles */
+  private readonly activeForms = new Set<PdfStream>();
+
+  constructor(options: ImageExtractorOptions) {
+    this.pageIndex = options.pageIndex;
+    this.resolve = options.resolve;
+  }
+
+  /**
+   * Extract the images painted by a content stream.
+   *
+   * @param contentBytes - The decoded content stream bytes
+   * @param resources - The content's /Resources dictionary
+   * @returns Image placements, in painting order
+   */
+  extract(contentBytes: Uint8Array, resources: PdfDict | null): ExtractedImage[] {
+    this.process(contentBytes, resources, Matrix.identity());
+
+    return this.images;
+  }
+
+  /**
+   * Process a content stream under an initial transformation.
+   */
+  private process(contentBytes: Uint8Array, resources: PdfDict | null, initial: Matrix): void {
+    const { operations } = new ContentStreamParser(contentBytes).parse();
+    const stack: Matrix[] = [];
+    let ctm = initial;
+
+    for (const op of operations) {
+      if (isInlineImageOperation(op)) {
+        this.addInlineImage(op, resources, ctm);
+        continue;
+      }
+
+      switch (op.operator) {
+        case "q":
+          stack.push(ctm);
+          break;
+
+        case "Q":
+          ctm = stack.pop() ?? ctm;
+          break;
+
+        case "cm":
+          ctm = toMatrix(
+            op.operands.map(token => (token.type === "number" ? token.value : 0)),
+          ).multiply(ctm);
+          break;
+
+        case "Do":
+          this.handleDo(op, resources, ctm);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Handle Do: record an image, or descend into a Form XObject.
+   */
+  private handleDo(op: ParsedOperation, resources: PdfDict | null, ctm: Matrix): void {
+    const operand = op.operands[0];
+
+    if (operand?.type !== "name") {
+      return;
+    }
+
+    const xobjects = resources?.getDict("XObject", this.resolve);
+    const entry = xobjects?.get(operand.value);
+    const xobject = entry instanceof PdfRef ? this.resolve(entry) : entry;
+
+    if (!(xobject instanceof PdfStream)) {
+      return;
+    }
+
+    const subtype = xobject.getName("Subtype", this.resolve)?.value;
+
+    if (subtype === "Image") {
+      this.images.push(
+        new ExtractedImage(
+          xobject,
+          {
+            pageIndex: this.pageIndex,
+            ref: entry instanceof PdfRef ? entry : null,
+            name: operand.value,
+            matrix: ctm,
+          },
+          this.resolve,
+        ),
+      );
+
+      return;
+    }
+
+    if (subtype !== "Form" || this.activeForms.has(xobject)) {
+      return;
+    }
+
+    let content: Uint8Array;
+
+    try {
+      content = xobject.getDecodedData(this.resolve);
+    } catch {
+      // Undecodable form content paints nothing we can find
+      return;
+    }
+
+    const matrix = xobject.getArray("Matrix", this.resolve);
+    const formMatrix = toMatrix(
+      matrix?.toArray().map(item => (item instanceof PdfNumber ? item.value : 0)) ?? [],
+    );
+
+    // Forms without resources use their parent's
+    const formResources = xobject.getDict("Resources", this.resolve) ?? resources;
+
+    this.activeForms.add(xobject);
+    this.process(content, formResources, formMatrix.multiply(ctm));
+    this.activeForms.delete(xobject);
+  }
+
+  /**
+   * Record an inline image as a stream with its parameters expanded.
+   */
+  private addInlineImage(op: InlineImageOperation, resources: PdfDict | null, ctm: Matrix): void {
+    const dict = new PdfDict();
+
+    for (const [key, token] of op.params) {
+      const fullKey = INLINE_KEYS[key] ?? key;
+      let value = this.tokenToObject(token, fullKey === "Filter" || fullKey === "ColorSpace");
+
+      // Other colour space names are resources
+      if (fullKey === "ColorSpace" && value instanceof PdfName && !isDeviceColorSpace(value)) {
+        const named = resources
+          ?.getDict("ColorSpace", this.resolve)
+          ?.get(value.value, this.resolve);
+
+        value = named ?? value;
+      }
+
+      dict.set(fullKey, value);
+    }
+
+    this.images.push(
+      new ExtractedImage(
+        new PdfStream(dict, op.data),
+        { pageIndex: this.pageIndex, ref: null, name: null, matrix: ctm },
+        this.resolve,
+      ),
+    );
+  }
+
+  /**
+   * Convert an inline image parameter to a PDF object, expanding
+   * abbreviated names where they're filter or colour space names.
+   */
+  private tokenToObject(token: ContentToken, expandNames: boolean): PdfObject {
+    switch (token.type) {
+      case "number":
+        return PdfNumber.of(token.value);
+      case "name":
+        return PdfName.of(expandNames ? (INLINE_NAMES[token.value] ?? token.value) : token.value);
+      case "string":
+        return new PdfString(token.value, token.hex ? "hex" : "literal");
+      case "bool":
+        return PdfBool.of(token.value);
+      case "null":
+        return PdfNull.instance;
+      case "array":
+        return new PdfArray(token.items.map(item => this.tokenToObject(item, expandNames)));
+      case "dict": {
+        const dict = new PdfDict();
+
+        for (const [key, value] of token.entries) {
+          dict.set(key, this.tokenToObject(value, false));
+        }
+
+        return dict;
+      }
+    }
+  }
+}
+
+/**
+ * A matrix from its six values; identity if malformed.
+ */
+function toMatrix(values: number[]): Matrix {
+  return values.length === 6 ? Matrix.fromArray(values) : Matrix.identity();
+}
+
+function isDeviceColorSpace(name: PdfName): boolean {
+  return name.value === "DeviceGray" || name.value === "DeviceRGB" || name.value === "DeviceCMYK";
+}
@@ -0,0 +1,313 @@
+import { PDF } from "#src/api/pdf";
+import { DCTFilter } from "#src/filters/dct-filter";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { describe, expect, it } from "vitest";
+
+import { writePng } from "./png-writer";
+
+/**
+ * RGB pixels: red rises across, green down, blue is a soft diagonal.
+ */
+function rgbPixels(width: number, height: number, gray = false): Uint8Array {
+  const pixels = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      const r = Math.round((x * 255) / (width - 1));
+
+      pixels[i] = r;
+      pixels[i + 1] = gray ? r : Math.round((y * 255) / (height - 1));
+      pixels[i + 2] = gray ? r : (x + y) & 0xff;
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Gray pixels of black "text" on white: lines of strokes of varying
+ * width and height, each with a soft top right corner.
+ */
+function scanPixels(width: number, height: number): Uint8Array {
+  const pixels = new Uint8Array(width * height).fill(255);
+  let seed = 1;
+
+  const random = (range: number) => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+
+    return (seed >> 8) % range;
+  };
+
+  for (let line = 0; line + 12 <= height; line += 16) {
+    for (let x = 0; x < width - 12; ) {
+      const stroke = 1 + random(6);
+      const top = line + random(4);
+      const bottom = line + 8 + random(4);
+
+      for (let y = top; y < bottom; y++) {
+        pixels.fill(10, y * width + x, y * width + x + stroke);
+      }
+
+      pixels[top * width + x + stroke] = 120;
+
+      x += stroke + 2 + random(4);
+    }
+  }
+
+  return pixels;
+}
+
+function imageStream(pdf: PDF, ref: PdfRef): PdfStream {
+  const stream = pdf.getObject(ref);
+
+  if (!(stream instanceof PdfStream)) {
+    throw new Error("Expected an image stream");
+  }
+
+  return stream;
+}
+
+describe("optimizeImages", () => {
+  it("downsamples images finer than maxDpi and deflates them with predictors", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const image = pdf.embedImage(
+      writePng({ width: 600, height: 400, channels: 3, pixels: rgbPixels(600, 400) }),
+    );
+
+    // 600 pixels over 2 inches: 300 dpi
+    page.drawImage(image, { x: 0, y: 0, width: 144, height: 96 });
+
+    const result = pdf.optimizeImages({ maxDpi: 150 });
+    const stream = imageStream(pdf, image.ref);
+
+    expect(result).toMatchObject({ imagesOptimized: 1, imagesDownsampled: 1 });
+    expect(result.bytesSaved).toBeGreaterThan(0);
+    expect(stream.getNumber("Width")?.value).toBe(300);
+    expect(stream.getNumber("Height")?.value).toBe(200);
+    expect(stream.getName("Filter")?.value).toBe("FlateDecode");
+    expect(stream.getDict("DecodeParms")?.getNumber("Predictor")?.value).toBe(15);
+
+    // Each pixel averages two by two: the red ramp keeps its ends
+    const pixels = stream.getDecodedData();
+
+    expect(pixels.length).toBe(300 * 200 * 3);
+    expect(pixels[0]).toBe(0);
+    expect(pixels[299 * 3]).toBe(255);
+  });
+
+  it("keeps the resolution of the largest placement", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const image = pdf.embedImage(
+      writePng({ width: 600, height: 400, channels: 3, pixels: rgbPixels(600, 400) }),
+    );
+
+    page.drawImage(image, { x: 0, y: 0, width: 72, height: 48 });
+    page.drawImage(image, { x: 100, y: 100, width: 216, height: 144 });
+
+    pdf.optimizeImages({ maxDpi: 100 });
+
+    // 3 inches at 100 dpi
+    expect(imageStream(pdf, image.ref).getNumber("Width")?.value).toBe(300);
+  });
+
+  it("re-encodes downsampled JPEGs as JPEG and leaves others alone", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const jpeg = DCTFilter.encodeImage(rgbPixels(400, 400), {
+      width: 400,
+      height: 400,
+      components: 3,
+      quality: 90,
+    });
+
+    const large = pdf.embedJpeg(jpeg);
+    const small = pdf.embedJpeg(jpeg.slice());
+
+    page.drawImage(large, { x: 0, y: 0, width: 72, height: 72 });
+    page.drawImage(small, { x: 0, y: 100, width: 400, height: 400 });
+
+    const result = pdf.optimizeImages({ maxDpi: 150, jpegQuality: 60 });
+    const stream = imageStream(pdf, large.ref);
+
+    expect(result.imagesOptimized).toBe(1);
+    expect(stream.getName("Filter")?.value).toBe("DCTDecode");
+    expect(stream.getNumber("Width")?.value).toBe(150);
+    expect(DCTFilter.decodeImage(stream.data)).toMatchObject({ width: 150, height: 150 });
+    expect(imageStream(pdf, small.ref).data).toEqual(jpeg);
+  });
+
+  it("stores gray RGB images as DeviceGray", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const image = pdf.embedImage(
+      writePng({ width: 64, height: 64, channels: 3, pixels: rgbPixels(64, 64, true) }),
+    );
+
+    page.drawImage(image, { x: 0, y: 0 });
+
+    pdf.optimizeImages();
+
+    const stream = imageStream(pdf, image.ref);
+
+    expect(stream.getName("ColorSpace")?.value).toBe("DeviceGray");
+    expect(stream.getDecodedData().subarray(0, 64)).toEqual(
+      rgbPixels(64, 1, true).filter((_, i) => i % 3 === 0),
+    );
+  });
+
+  it("keeps colour images colour, and gray ones without grayscaleDetection", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const color = pdf.embedImage(
+      writePng({ width: 64, height: 64, channels: 3, pixels: rgbPixels(64, 64) }),
+    );
+    const gray = pdf.embedImage(
+      writePng({ width: 64, height: 64, channels: 3, pixels: rgbPixels(64, 64, true) }),
+    );
+
+    page.drawImage(color, { x: 0, y: 0 });
+    page.drawImage(gray, { x: 100, y: 0 });
+
+    pdf.optimizeImages({ grayscaleDetection: false });
+
+    expect(imageStream(pdf, color.ref).getName("ColorSpace")?.value).toBe("DeviceRGB");
+    expect(imageStream(pdf, gray.ref).getName("ColorSpace")?.value).toBe("DeviceRGB");
+  });
+
+  it("converts nearly bilevel gray images to CCITT with bilevelThreshold", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const pixels = scanPixels(96, 64);
+    const image = pdf.embedImage(writePng({ width: 96, height: 64, channels: 1, pixels }));
+
+    page.drawImage(image, { x: 0, y: 0 });
+
+    const result = pdf.optimizeImages({ bilevelThreshold: 100 });
+    const stream = imageStream(pdf, image.ref);
+
+    expect(result.imagesOptimized).toBe(1);
+    expect(stream.getName("Filter")?.value).toBe("CCITTFaxDecode");
+    expect(stream.getNumber("BitsPerComponent")?.value).toBe(1);
+
+    // Black below the threshold: the soft corners at 120 turn white
+    const bits = stream.getDecodedData();
+
+    for (let y = 0; y < 64; y++) {
+      for (let x = 0; x < 96; x++) {
+        const bit = (bits[y * 12 + (x >> 3)] >> (7 - (x & 7))) & 1;
+
+        expect(bit).toBe(pixels[y * 96 + x] < 100 ? 0 : 1);
+      }
+    }
+  });
+
+  it("leaves gray images with mid-tones gray", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const pixels = rgbPixels(64, 64, true).filter((_, i) => i % 3 === 0);
+    const image = pdf.embedImage(writePng({ width: 64, height: 64, channels: 1, pixels }));
+
+    page.drawImage(image, { x: 0, y: 0 });
+
+    pdf.optimizeImages({ bilevelThreshold: 128 });
+
+    expect(imageStream(pdf, image.ref).getName("Filter")?.value).not.toBe("CCITTFaxDecode");
+  });
+
+  it("downsamples soft masks with their images", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const pixels = new Uint8Array(200 * 200 * 4).map((_, i) =>
+      i % 4 === 3 ? (i >> 6) & 0xff : 90,
+    );
+    const image = pdf.embedImage(writePng({ width: 200, height: 200, channels: 4, pixels }));
+
+    page.drawImage(image, { x: 0, y: 0, width: 72, height: 72 });
+
+    const result = pdf.optimizeImages({ maxDpi: 50 });
+    const smask = imageStream(pdf, imageStream(pdf, image.ref).getRef("SMask") as PdfRef);
+
+    expect(result.imagesDownsampled).toBe(2);
+    expect(smask.getNumber("Width")?.value).toBe(50);
+    expect(smask.getNumber("Height")?.value).toBe(50);
+  });
+
+  it("keeps images with /Matte soft masks at full size", () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const pixels = new Uint8Array(200 * 200 * 4).map((_, i) =>
+      i % 4 === 3 ? (i >> 6) & 0xff : 90,
+    );
+    const image = pdf.embedImage(writePng({ width: 200, height: 200, channels: 4, pixels }));
+    const smaskRef = imageStream(pdf, image.ref).getRef("SMask") as PdfRef;
+
+    imageStream(pdf, smaskRef).set(
+      "Matte",
+      PdfArray.of(PdfNumber.of(0), PdfNumber.of(0), PdfNumber.of(0)),
+    );
+    page.drawImage(image, { x: 0, y: 0, width: 72, height: 72 });
+
+    const result = pdf.optimizeImages({ maxDpi: 50 });
+    const stream = imageStream(pdf, image.ref);
+    const smask = imageStream(pdf, stream.getRef("SMask") as PdfRef);
+
+    expect(result.imagesDownsampled).toBe(0);
+    expect(stream.getNumber("Width")?.value).toBe(200);
+    expect(stream.getNumber("Height")?.value).toBe(200);
+    expect(smask.getNumber("Width")?.value).toBe(200);
+    expect(smask.getNumber("Height")?.value).toBe(200);
+  });
+
+  it("merges identical images", async () => {
+    const pdf = PDF.create();
+    const png = writePng({ width: 32, height: 32, channels: 3, pixels: rgbPixels(32, 32) });
+    const first = pdf.embedImage(png);
+    const second = pdf.embedImage(png);
+
+    pdf.addPage().drawImage(first, { x: 0, y: 0 });
+    pdf.addPage().drawImage(second, { x: 0, y: 0 });
+
+    const before = (await pdf.save()).length;
+    const result = pdf.optimizeImages();
+    const [a, b] = pdf.extractImages();
+
+    expect(result.duplicatesRemoved).toBe(1);
+    expect(a.ref?.toString()).toBe(first.ref.toString());
+    expect(b.ref?.toString()).toBe(first.ref.toString());
+    expect((await pdf.save()).length).toBeLessThan(before);
+  });
+
+  it("survives a save and reload", async () => {
+    const pdf = PDF.create();
+    const page = pdf.addPage();
+    const image = pdf.embedImage(
+      writePng({ width: 600, height: 400, channels: 3, pixels: rgbPixels(600, 400) }),
+    );
+
+    page.drawImage(image, { x: 0, y: 0, width: 144, height: 96 });
+    pdf.optimizeImages();
+
+    const loaded = await PDF.load(await pdf.save());
+    const [extracted] = loaded.extractImages();
+
+    expect(extracted).toMatchObject({ width: 300, height: 200 });
+    expect(extracted.export().format).toBe("png");
+  });
+
+  it("throws for an invalid maxDpi", () => {
+    expect(() => PDF.create().optimizeImages({ maxDpi: 0 })).toThrow("Invalid maxDpi: 0");
+  });
+
+  it("throws for an invalid jpegQuality", () => {
+    expect(() => PDF.create().optimizeImages({ jpegQuality: 0 })).toThrow("Invalid jpegQuality: 0");
+    expect(() => PDF.create().optimizeImages({ jpegQuality: 101 })).toThrow(
+      "Invalid jpegQuality: 101",
+    );
+  });
+});
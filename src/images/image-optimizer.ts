@@ -0,0 +1,782 @@
+/**
+ * ImageOptimizer - Shrinks the image XObjects painted on a document's pages.
+ *
+ * Each image's effective resolution comes from its placements: the pixels
+ * along each side of the image over the inches that side covers on the
+ * page. Images finer than the limit are downsampled, then re-encoded:
+ * bilevel images with CCITT Group 4, images stored as JPEG as JPEG again,
+ * others with Flate and PNG predictors. Finally, identical image streams
+ * are merged.
+ */
+
+import type { PDFPage } from "#src/api/pdf-page";
+import { encodeCcitt } from "#src/filters/ccitt/encoder";
+import { DCTFilter } from "#src/filters/dct-filter";
+import { encodePngPredictor } from "#src/filters/predictor";
+import { bytesToHex } from "#src/helpers/buffer";
+import {
+  type ColorSpaceDefinition,
+  colorSpaceComponents,
+  parseColorSpace,
+} from "#src/helpers/colorspace";
+import type { RefResolver } from "#src/helpers/types";
+import { ByteWriter } from "#src/io/byte-writer";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { deflate } from "pako";
+
+/**
+ * Options for `pdf.optimizeImages()`.
+ */
+export interface OptimizeImagesOptions {
+  /**
+   * Highest resolution to keep, in pixels per inch at the image's largest
+   * placement. Finer images are downsampled to it. Default: 150
+   */
+  maxDpi?: number;
+
+  /** Quality (1-100) for images re-encoded as JPEG. Default: 75 */
+  jpegQuality?: number;
+
+  /**
+   * Store RGB images whose pixels are all (nearly) gray as DeviceGray.
+   * Default: true
+   */
+  grayscaleDetection?: boolean;
+
+  /**
+   * Gray level (0-255) dividing black from white when converting gray
+   * images that are almost all black and white, such as scanned text, to
+   * 1-bit CCITT images. Without it, gray images stay gray; images that are
+   * already 1-bit are split at 128 after downsampling.
+   */
+  bilevelThreshold?: number;
+}
+
+/**
+ * What `pdf.optimizeImages()` did.
+ */
+export interface OptimizeImagesResult {
+  /** Images replaced with a smaller encoding */
+  imagesOptimized: number;
+  /** Of those, images that were downsampled */
+  imagesDownsampled: number;
+  /** Image streams dropped as duplicates of another */
+  duplicatesRemoved: number;
+  /** Stream bytes saved, re-encoding and dropping duplicates */
+  bytesSaved: number;
+}
+
+/** Channel differences allowed in pixels counted as gray */
+const GRAY_TOLERANCE = 2;
+
+/** Share of pixels that must be near black or white for bilevel conversion */
+const BILEVEL_SHARE = 0.95;
+
+/** How near black or white (in levels) those pixels must be */
+const BILEVEL_MARGIN = 64;
+
+/**
+ * An image's samples, unpacked to one byte each: 0-255 levels, or palette
+ * indices for Indexed images.
+ */
+interface Samples {
+  width: number;
+  height: number;
+  components: number;
+  data: Uint8Array;
+  kind: "bilevel" | "indexed" | "continuous";
+
+  /** Bits per component as stored */
+  bitsPerComponent: number;
+}
+
+/**
+ * What an image's colour space allows.
+ */
+interface ColorSpaceInfo {
+  components: number;
+  indexed: boolean;
+
+  /** A gray space images can be made bilevel in */
+  gray: boolean;
+
+  /** An RGB space images can be made gray in */
+  rgb: boolean;
+}
+
+/**
+ * Size an image should be reduced to.
+ */
+interface Target {
+  stream: PdfStream;
+  width: number;
+  height: number;
+}
+
+/**
+ * A dictionary entry referring to an image.
+ */
+interface ImageHolder {
+  dict: PdfDict;
+  key: string;
+  ref: PdfRef;
+}
+
+/**
+ * Recompresses and downsamples a document's images.
+ */
+export class ImageOptimizer {
+  private readonly maxDpi: number;
+  private readonly jpegQuality: number;
+  private readonly grayscaleDetection: boolean;
+  private readonly bilevelThreshold: number | undefined;
+
+  private readonly result: OptimizeImagesResult = {
+    imagesOptimized: 0,
+    imagesDownsampled: 0,
+    duplicatesRemoved: 0,
+    bytesSaved: 0,
+  };
+
+  constructor(
+    private readonly resolve: RefResolver,
+    options: OptimizeImagesOptions = {},
+  ) {
+    this.maxDpi = options.maxDpi ?? 150;
+    this.jpegQuality = options.jpegQuality ?? 75;
+    this.grayscaleDetection = options.grayscaleDetection ?? true;
+    this.bilevelThreshold = options.bilevelThreshold;
+
+    if (!(this.maxDpi > 0)) {
+      throw new Error(`Invalid maxDpi: ${this.maxDpi}`);
+    }
+
+    if (!(this.jpegQuality >= 1 && this.jpegQuality <= 100)) {
+      throw new Error(`Invalid jpegQuality: ${this.jpegQuality}`);
+    }
+
+    if (
+      this.bilevelThreshold !== undefined &&
+      !(this.bilevelThreshold > 0 && this.bilevelThreshold <= 255)
+    ) {
+      throw new Error(`Invalid bilevelThreshold: ${this.bilevelThreshold}`);
+    }
+  }
+
+  /**
+   * Optimize the images painted on the given pages.
+   *
+   * Inline images are left alone, as are JPEG 2000 and JBIG2 images and
+   * images with colour key masks.
+   */
+  optimize(pages: PDFPage[]): OptimizeImagesResult {
+    for (const target of this.findTargets(pages).values()) {
+      try {
+        this.optimizeImage(target);
+      } catch {
+        // Images that can't be decoded are kept as they are
+      }
+    }
+
+    this.deduplicate(pages);
+
+    return this.result;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Resolution
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Work out the size each image XObject needs for its largest placement,
+   * and its soft mask the same proportion of its own size. Images with
+   * /Matte masks keep their size.
+   */
+  private findTargets(pages: PDFPage[]): Map<string, Target> {
+    const targets = new Map<string, Target>();
+
+    for (const page of pages) {
+      for (const image of page.getImages()) {
+        if (!image.ref || image.width < 1 || image.height < 1) {
+          continue;
+        }
+
+        const { a, b, c, d } = image.matrix;
+
+        // The image's unit square sides, in inches on the page
+        const across = Math.hypot(a, b) / 72;
+        const down = Math.hypot(c, d) / 72;
+
+        if (across === 0 || down === 0) {
+          continue;
+        }
+
+        addTarget(
+          targets,
+          image.ref,
+          image.stream,
+          Math.min(image.width, Math.ceil(across * this.maxDpi)),
+          Math.min(image.height, Math.ceil(down * this.maxDpi)),
+        );
+      }
+    }
+
+    for (const target of [...targets.values()]) {
+      const ref = target.stream.getRef("SMask");
+      const smask = ref ? this.resolve(ref) : null;
+
+      if (!ref || !(smask instanceof PdfStream)) {
+        continue;
+      }
+
+      const width = smask.getNumber("Width", this.resolve)?.value ?? 0;
+      const height = smask.getNumber("Height", this.resolve)?.value ?? 0;
+      const imageWidth = target.stream.getNumber("Width", this.resolve)?.value ?? 0;
+      const imageHeight = target.stream.getNumber("Height", this.resolve)?.value ?? 0;
+
+      // Colours premultiplied against a /Matte mask must line up with it
+      // pixel for pixel, so neither is downsampled
+      if (smask.has("Matte")) {
+        target.width = imageWidth;
+        target.height = imageHeight;
+        addTarget(targets, ref, smask, width, height);
+
+        continue;
+      }
+
+      const scale = imageWidth > 0 && imageHeight > 0;
+
+      addTarget(
+        targets,
+        ref,
+        smask,
+        scale ? Math.min(width, Math.ceil((width * target.width) / imageWidth)) : width,
+        scale ? Math.min(height, Math.ceil((height * target.height) / imageHeight)) : height,
+      );
+    }
+
+    return targets;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Re-encoding
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Downsample and re-encode an image, replacing its data if that's
+   * smaller.
+   */
+  private optimizeImage(target: Target): void {
+    const { stream } = target;
+    const filters = stream.getFilterSpecs(this.resolve).map(spec => spec.name);
+
+    if (filters.includes("JPXDecode") || filters.includes("JBIG2Decode")) {
+      return;
+    }
+
+    // Colour key ranges are in stored sample values
+    if (stream.get("Mask", this.resolve) instanceof PdfArray) {
+      return;
+    }
+
+    const imageMask = stream.getBool("ImageMask", this.resolve)?.value ?? false;
+    const colorSpace = imageMask ? null : this.colorSpaceInfo(stream.get("ColorSpace"));
+
+    if (!imageMask && !colorSpace) {
+      return;
+    }
+
+    let samples = this.readSamples(stream, colorSpace);
+
+    if (!samples) {
+      return;
+    }
+
+    const hasDecode = stream.has("Decode");
+    const wasJpeg = filters.at(-1) === "DCTDecode";
+    let converted = false;
+
+    if (
+      this.grayscaleDetection &&
+      colorSpace?.rgb &&
+      !hasDecode &&
+      samples.kind === "continuous" &&
+      isGray(samples.data)
+    ) {
+      samples = toGray(samples);
+      converted = true;
+    }
+
+    if (
+      this.bilevelThreshold !== undefined &&
+      (colorSpace?.gray || converted) &&
+      !hasDecode &&
+      samples.kind === "continuous" &&
+      isNearlyBilevel(samples.data)
+    ) {
+      samples = { ...samples, kind: "bilevel" };
+      converted = true;
+    }
+
+    const downsampled = target.width < samples.width || target.height < samples.height;
+
+    if (downsampled) {
+      samples = resample(samples, target.width, target.height);
+    }
+
+    // Re-encoding JPEG data as it is would only lose quality
+    if (wasJpeg && !downsampled && !converted) {
+      return;
+    }
+
+    const encoded = this.encode(samples, wasJpeg);
+
+    if (encoded.data.length >= stream.data.length) {
+      return;
+    }
+
+    this.result.imagesOptimized++;
+    this.result.bytesSaved += stream.data.length - encoded.data.length;
+
+    if (downsampled) {
+      this.result.imagesDownsampled++;
+    }
+
+    stream.setData(encoded.data);
+    stream.set("Filter", PdfName.of(encoded.filter));
+    stream.set("Width", PdfNumber.of(samples.width));
+    stream.set("Height", PdfNumber.of(samples.height));
+
+    if (!imageMask) {
+      stream.set("BitsPerComponent", PdfNumber.of(encoded.bitsPerComponent));
+    }
+
+    if (encoded.params) {
+      stream.set("DecodeParms", encoded.params);
+    }
+
+    if (converted) {
+      stream.set("ColorSpace", PdfName.of("DeviceGray"));
+    }
+  }
+
+  /**
+   * Encode samples: bilevel with CCITT Group 4, palette indices repacked
+   * and deflated, others as JPEG if they were, else deflated with PNG
+   * predictors.
+   */
+  private encode(
+    samples: Samples,
+    asJpeg: boolean,
+  ): { data: Uint8Array; filter: string; params?: PdfDict; bitsPerComponent: number } {
+    const { width, height, components, data } = samples;
+
+    if (samples.kind === "bilevel") {
+      const threshold = this.bilevelThreshold ?? 128;
+
+      // Set bits are the samples at or above the threshold (white, unless
+      // /Decode inverts them), as stored
+      const encoded = encodeCcitt(
+        pack(data, width, height, 1, value => value >= threshold),
+        {
+          k: -1,
+          columns: width,
+          rows: height,
+          blackIs1: false,
+          encodedByteAlign: false,
+          endOfLine: false,
+          endOfBlock: true,
+        },
+      );
+
+      return {
+        data: encoded,
+        filter: "CCITTFaxDecode",
+        params: PdfDict.of({
+          K: PdfNumber.of(-1),
+          Columns: PdfNumber.of(width),
+          Rows: PdfNumber.of(height),
+        }),
+        bitsPerComponent: 1,
+      };
+    }
+
+    if (samples.kind === "indexed") {
+      const bits = samples.bitsPerComponent;
+
+      return {
+        data: deflate(pack(data, width, height, bits, value => value)),
+        filter: "FlateDecode",
+        bitsPerComponent: bits,
+      };
+    }
+
+    if (asJpeg && (components === 1 || components === 3)) {
+      return {
+        data: DCTFilter.encodeImage(data, {
+          width,
+          height,
+          components,
+          quality: this.jpegQuality,
+        }),
+        filter: "DCTDecode",
+        bitsPerComponent: 8,
+      };
+    }
+
+    const params = PdfDict.of({
+      Predictor: PdfNumber.of(15),
+      Colors: PdfNumber.of(components),
+      BitsPerComponent: PdfNumber.of(8),
+      Columns: PdfNumber.of(width),
+    });
+
+    return {
+      data: deflate(encodePngPredictor(data, params)),
+      filter: "FlateDecode",
+      params,
+      bitsPerComponent: 8,
+    };
+  }
+
+  /**
+   * Decode an image and unpack its samples to a byte each.
+   */
+  private readSamples(stream: PdfStream, colorSpace: ColorSpaceInfo | null): Samples | null {
+    const width = stream.getNumber("Width", this.resolve)?.value ?? 0;
+    const height = stream.getNumber("Height", this.resolve)?.value ?? 0;
+    const components = colorSpace?.components ?? 1;
+    const bits = colorSpace ? (stream.getNumber("BitsPerComponent", this.resolve)?.value ?? 8) : 1;
+
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      return null;
+    }
+
+    if (![1, 2, 4, 8, 16].includes(bits) || (colorSpace?.indexed && bits === 16)) {
+      return null;
+    }
+
+    // DCTDecode gives its JPEG data unless asked for pixels
+    const raw = stream.getDecodedData(this.resolve, { pixels: true });
+    const rowBytes = Math.ceil((width * components * bits) / 8);
+
+    if (raw.length < rowBytes * height) {
+      return null;
+    }
+
+    const indexed = colorSpace?.indexed ?? false;
+    const maxValue = (1 << bits) - 1;
+    const data = new Uint8Array(width * height * components);
+    const rowSamples = width * components;
+
+    for (let y = 0; y < height; y++) {
+      for (let i = 0; i < rowSamples; i++) {
+        const out = y * rowSamples + i;
+
+        if (bits === 8) {
+          data[out] = raw[y * rowBytes + i];
+        } else if (bits === 16) {
+          data[out] = raw[y * rowBytes + i * 2];
+        } else {
+          const position = i * bits;
+          const shift = 8 - (position & 7) - bits;
+          const value = (raw[y * rowBytes + (position >> 3)] >> shift) & maxValue;
+
+          data[out] = indexed ? value : Math.round((value * 255) / maxValue);
+        }
+      }
+    }
+
+    let kind: Samples["kind"] = "continuous";
+
+    if (indexed) {
+      kind = "indexed";
+    } else if (bits === 1 && components === 1) {
+      kind = "bilevel";
+    }
+
+    return { width, height, components, data, kind, bitsPerComponent: bits };
+  }
+
+  /**
+   * Component count and kind of an image colour space, or null for ones
+   * images can't be re-encoded in (Pattern, unknown).
+   */
+  private colorSpaceInfo(entry: PdfObject | undefined): ColorSpaceInfo | null {
+    let colorSpace: ColorSpaceDefinition;
+
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      colorSpace = parseColorSpace(entry, this.resolve);
+    } catch {
+      return null;
+    }
+
+    return {
+      components: colorSpaceComponents(colorSpace),
+      indexed: colorSpace.kind === "indexed",
+      gray: colorSpace.kind === "gray" || colorSpace.kind === "calgray",
+      rgb: colorSpace.kind === "rgb" || colorSpace.kind === "calrgb",
+    };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Deduplication
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Point every reference to an image at the first of its identical
+   * copies. Soft masks are merged first, so images whose masks were
+   * copies compare equal.
+   */
+  private deduplicate(pages: PDFPage[]): void {
+    const images: ImageHolder[] = [];
+    const visited = new Set<PdfStream>();
+
+    for (const page of pages) {
+      this.collectImages(page.resolveInheritedResources(), images, visited);
+    }
+
+    const masks: ImageHolder[] = [];
+
+    for (const { ref } of images) {
+      const stream = this.resolve(ref);
+      const smask = stream instanceof PdfDict ? stream.getRef("SMask") : undefined;
+
+      if (stream instanceof PdfStream && smask) {
+        masks.push({ dict: stream, key: "SMask", ref: smask });
+      }
+    }
+
+    this.merge(masks);
+    this.merge(images);
+  }
+
+  /**
+   * Find the image XObjects in a resource dictionary and the Form
+   * XObjects it uses.
+   */
+  private collectImages(
+    resources: PdfDict | null | undefined,
+    holders: ImageHolder[],
+    visited: Set<PdfStream>,
+  ): void {
+    const xobjects = resources?.getDict("XObject", this.resolve);
+
+    if (!xobjects) {
+      return;
+    }
+
+    for (const [name, value] of xobjects) {
+      const xobject = value instanceof PdfRef ? this.resolve(value) : value;
+
+      if (!(xobject instanceof PdfStream) || visited.has(xobject)) {
+        continue;
+      }
+
+      const subtype = xobject.getName("Subtype", this.resolve)?.value;
+
+      if (subtype === "Image" && value instanceof PdfRef) {
+        holders.push({ dict: xobjects, key: name.value, ref: value });
+      } else if (subtype === "Form") {
+        visited.add(xobject);
+        this.collectImages(xobject.getDict("Resources", this.resolve), holders, visited);
+      }
+    }
+  }
+
+  /**
+   * Redirect references to streams with the same dictionary and data to
+   * the first of them.
+   */
+  private merge(holders: ImageHolder[]): void {
+    const canonical = new Map<string, PdfRef>();
+    const replaced = new Map<string, PdfRef>();
+
+    for (const holder of holders) {
+      const refKey = holder.ref.toString();
+      let target = replaced.get(refKey);
+
+      if (!target) {
+        const stream = this.resolve(holder.ref);
+
+        if (!(stream instanceof PdfStream)) {
+          continue;
+        }
+
+        const key = contentKey(stream);
+        const first = canonical.get(key);
+
+        if (!first) {
+          canonical.set(key, holder.ref);
+          continue;
+        }
+
+        if (first.toString() === refKey) {
+          continue;
+        }
+
+        target = first;
+        replaced.set(refKey, first);
+        this.result.duplicatesRemoved++;
+        this.result.bytesSaved += stream.data.length;
+      }
+
+      holder.dict.set(holder.key, target);
+    }
+  }
+}
+
+/**
+ * Record a size an image is needed at, keeping the largest.
+ */
+function addTarget(
+  targets: Map<string, Target>,
+  ref: PdfRef,
+  stream: PdfStream,
+  width: number,
+  height: number,
+): void {
+  const key = ref.toString();
+  const existing = targets.get(key);
+
+  targets.set(key, {
+    stream,
+    width: Math.max(width, existing?.width ?? 0),
+    height: Math.max(height, existing?.height ?? 0),
+  });
+}
+
+/**
+ * A digest of a stream's dictionary and data.
+ */
+function contentKey(stream: PdfStream): string {
+  const writer = new ByteWriter();
+
+  stream.toBytes(writer);
+
+  return bytesToHex(sha256(writer.toBytes()));
+}
+
+/**
+ * Whether every RGB pixel is gray, within `GRAY_TOLERANCE`.
+ */
+function isGray(data: Uint8Array): boolean {
+  for (let i = 0; i < data.length; i += 3) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    if (Math.abs(r - g) > GRAY_TOLERANCE || Math.abs(g - b) > GRAY_TOLERANCE) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function toGray(samples: Samples): Samples {
+  const count = samples.width * samples.height;
+  const data = new Uint8Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const p = samples.data;
+
+    data[i] = Math.round(p[i * 3] * 0.299 + p[i * 3 + 1] * 0.587 + p[i * 3 + 2] * 0.114);
+  }
+
+  return { ...samples, components: 1, data };
+}
+
+/**
+ * Whether nearly all gray samples are close to black or white.
+ */
+function isNearlyBilevel(data: Uint8Array): boolean {
+  let extremes = 0;
+
+  for (const value of data) {
+    if (value < BILEVEL_MARGIN || value > 255 - BILEVEL_MARGIN) {
+      extremes++;
+    }
+  }
+
+  return extremes >= data.length * BILEVEL_SHARE;
+}
+
+/**
+ * Reduce samples to a smaller size: palette indices by picking the nearest
+ * pixel, levels by averaging the pixels each new one covers.
+ */
+function resample(samples: Samples, width: number, height: number): Samples {
+  const { components } = samples;
+  const source = samples.data;
+  const data = new Uint8Array(width * height * components);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * samples.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * samples.height) / height));
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * samples.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * samples.width) / width));
+      const out = (y * width + x) * components;
+
+      if (samples.kind === "indexed") {
+        data[out] = source[(top * samples.width + left) * components];
+        continue;
+      }
+
+      const count = (bottom - top) * (right - left);
+
+      for (let c = 0; c < components; c++) {
+        let sum = 0;
+
+        for (let sy = top; sy < bottom; sy++) {
+          for (let sx = left; sx < right; sx++) {
+            sum += source[(sy * samples.width + sx) * components + c];
+          }
+        }
+
+        data[out + c] = Math.round(sum / count);
+      }
+    }
+  }
+
+  return { ...samples, width, height, data };
+}
+
+/**
+ * Pack single-component samples into rows of `bits`-bit values, each row
+ * padded to a whole byte.
+ */
+function pack(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  bits: number,
+  value: (sample: number) => number | boolean,
+): Uint8Array {
+  const rowBytes = Math.ceil((width * bits) / 8);
+  const packed = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = x * bits;
+      const shift = 8 - (position & 7) - bits;
+
+      packed[y * rowBytes + (position >> 3)] |= Number(value(data[y * width + x])) << shift;
+    }
+  }
+
+  return packed;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePng } from "./png";
+import { writePng } from "./png-writer";
+
+describe("writePng", () => {
+  it("writes grayscale images", () => {
+    const pixels = new Uint8Array([0, 64, 128, 255, 255, 128, 64, 0, 10, 20, 30, 40]);
+    const png = parsePng(writePng({ width: 4, height: 3, channels: 1, pixels }));
+
+    expect(png.info).toMatchObject({ width: 4, height: 3, colorType: 0, bitDepth: 8 });
+    expect(png.pixels).toEqual(pixels);
+  });
+
+  it("writes RGB images", () => {
+    const pixels = new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 200, 100, 50]);
+    const png = parsePng(writePng({ width: 2, height: 2, channels: 3, pixels }));
+
+    expect(png.info).toMatchObject({ width: 2, height: 2, colorType: 2 });
+    expect(png.pixels).toEqual(pixels);
+  });
+
+  it("writes the alpha channel", () => {
+    const rgba = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 0]);
+    const png = parsePng(writePng({ width: 2, height: 1, channels: 4, pixels: rgba }));
+
+    expect(png.info.colorType).toBe(6);
+    expect(png.pixels).toEqual(new Uint8Array([255, 0, 0, 0, 0, 255]));
+    expect(png.alpha).toEqual(new Uint8Array([255, 0]));
+
+    const grayAlpha = parsePng(
+      writePng({ width: 1, height: 2, channels: 2, pixels: new Uint8Array([10, 20, 30, 40]) }),
+    );
+
+    expect(grayAlpha.info.colorType).toBe(4);
+    expect(grayAlpha.pixels).toEqual(new Uint8Array([10, 30]));
+    expect(grayAlpha.alpha).toEqual(new Uint8Array([20, 40]));
+  });
+
+  it("rejects short pixel data", () => {
+    expect(() =>
+      writePng({ width: 2, height: 2, channels: 3, pixels: new Uint8Array(11) }),
+    ).toThrow("PNG: Expected 12 bytes of pixels, got 11");
+  });
+});
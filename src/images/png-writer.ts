@@ -0,0 +1,129 @@
+/**
+ * PNG image writing.
+ *
+ * Writes 8-bit grayscale or RGB pixels, with or without alpha, as a PNG
+ * file. Used to export images extracted from a document.
+ */
+
+import { deflate } from "pako";
+
+/**
+ * Pixels to write as a PNG.
+ */
+export interface PngImage {
+  width: number;
+  height: number;
+
+  /** 1 (gray), 2 (gray + alpha), 3 (RGB) or 4 (RGBA) */
+  channels: 1 | 2 | 3 | 4;
+
+  /** 8-bit samples, interleaved, rows top to bottom */
+  pixels: Uint8Array;
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** PNG colour type for each channel count */
+const COLOR_TYPES = { 1: 0, 2: 4, 3: 2, 4: 6 } as const;
+
+/**
+ * Encode pixels as a PNG file.
+ */
+export function writePng(image: PngImage): Uint8Array {
+  const { width, height, channels, pixels } = image;
+  const stride = width * channels;
+
+  if (pixels.length < stride * height) {
+    throw new Error(`PNG: Expected ${stride * height} bytes of pixels, got ${pixels.length}`);
+  }
+
+  // Each row is preceded by its filter type; Up (2) suits scans and drawings
+  const filtered = new Uint8Array((stride + 1) * height);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const out = y * (stride + 1);
+
+    filtered[out] = y > 0 ? 2 : 0;
+
+    for (let i = 0; i < stride; i++) {
+      const above = y > 0 ? pixels[row - stride + i] : 0;
+
+      filtered[out + 1 + i] = (pixels[row + i] - above) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = COLOR_TYPES[channels];
+
+  const chunks = [
+    chunk("IHDR", header),
+    chunk("IDAT", deflate(filtered)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+
+  const result = new Uint8Array(
+    PNG_SIGNATURE.length + chunks.reduce((sum, part) => sum + part.length, 0),
+  );
+
+  result.set(PNG_SIGNATURE);
+
+  let offset = PNG_SIGNATURE.length;
+
+  for (const part of chunks) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+/**
+ * Build a chunk: length, type, data and the CRC of type and data.
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(12 + data.length);
+  const view = new DataView(result.buffer);
+
+  view.setUint32(0, data.length);
+
+  for (let i = 0; i < 4; i++) {
+    result[4 + i] = type.charCodeAt(i);
+  }
+
+  result.set(data, 8);
+  view.setUint32(8 + data.length, crc32(result.subarray(4, 8 + data.length)));
+
+  return result;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -1,3 +1,4 @@
+import { loadFixture } from "#src/test-utils";
 import { describe, expect, it } from "vitest";
 
 import { isPng, parsePng } from "./png";
@@ -59,3 +60,89 @@ describe("parsePng", () => {
   // Note: Full PNG parsing tests would require actual PNG files
   // The basic signature tests verify the module works correctly
 });
+
+describe("parsePng with fixtures", () => {
+  // The ramp: red = 6x, green = 10y, blue 200 in two opposite quadrants,
+  // alpha opaque on the left and fading down the right
+  const ramp = (x: number, y: number) => [
+    x * 6,
+    y * 10,
+    x < 20 !== y < 12 ? 200 : 50,
+    x < 20 ? 255 : 255 - y * 10,
+  ];
+
+  it("decodes RGB", async () => {
+    const { info, pixels, alpha, bitsPerComponent } = parsePng(
+      await loadFixture("images", "ramp-rgb.png"),
+    );
+
+    expect(info.width).toBe(40);
+    expect(info.height).toBe(24);
+    expect(info.interlaced).toBe(false);
+    expect(bitsPerComponent).toBe(8);
+    expect(alpha).toBeUndefined();
+    expect(Array.from(pixels.subarray((5 * 40 + 30) * 3, (5 * 40 + 30) * 3 + 3))).toEqual(
+      ramp(30, 5).slice(0, 3),
+    );
+  });
+
+  it("de-interlaces Adam7 images", async () => {
+    const plain = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const interlaced = parsePng(await loadFixture("images", "ramp-rgb-interlaced.png"));
+
+    expect(interlaced.info.interlaced).toBe(true);
+    expect(interlaced.pixels).toEqual(plain.pixels);
+  });
+
+  it("de-interlaces images with alpha", async () => {
+    const plain = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const { pixels, alpha } = parsePng(await loadFixture("images", "ramp-rgba-interlaced.png"));
+
+    expect(pixels).toEqual(plain.pixels);
+    expect(alpha?.[23 * 40 + 39]).toBe(ramp(39, 23)[3]);
+    expect(alpha?.[23 * 40]).toBe(255);
+  });
+
+  it("de-interlaces palette images", async () => {
+    const plain = parsePng(await loadFixture("images", "ramp-palette2.png"));
+    const interlaced = parsePng(await loadFixture("images", "ramp-palette2-interlaced.png"));
+
+    expect(plain.bitsPerComponent).toBe(8);
+    expect(plain.pixels.length).toBe(40 * 24 * 3);
+    expect(interlaced.pixels).toEqual(plain.pixels);
+  });
+
+  it("keeps 16-bit samples", async () => {
+    const eight = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const sixteen = parsePng(await loadFixture("images", "ramp-rgba16.png"));
+
+    expect(sixteen.bitsPerComponent).toBe(16);
+    expect(sixteen.pixels.length).toBe(40 * 24 * 3 * 2);
+    expect(sixteen.alpha?.length).toBe(40 * 24 * 2);
+
+    // Big-endian; the high bytes are the 8-bit values
+    for (let i = 0; i < eight.pixels.length; i++) {
+      expect(sixteen.pixels[i * 2]).toBe(eight.pixels[i]);
+    }
+
+    expect(sixteen.alpha?.[(23 * 40 + 39) * 2]).toBe(ramp(39, 23)[3]);
+  });
+
+  it("de-interlaces 16-bit images", async () => {
+    const plain = parsePng(await loadFixture("images", "ramp-rgba16.png"));
+    const interlaced = parsePng(await loadFixture("images", "ramp-rgba16-interlaced.png"));
+
+    expect(interlaced.pixels).toEqual(plain.pixels);
+    expect(interlaced.alpha).toEqual(plain.alpha);
+  });
+
+  it("decodes 16-bit grayscale", async () => {
+    const { info, pixels, bitsPerComponent } = parsePng(
+      await loadFixture("images", "ramp-gray16.png"),
+    );
+
+    expect(info.colorSpace).toBe("DeviceGray");
+    expect(bitsPerComponent).toBe(16);
+    expect(pixels.length).toBe(40 * 24 * 2);
+  });
+});
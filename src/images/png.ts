@@ -26,6 +26,8 @@ export interface PngInfo {
   colorSpace: "DeviceGray" | "DeviceRGB";
   /** Number of color components (excluding alpha) */
   components: number;
+  /** Whether the image is Adam7 interlaced */
+  interlaced: boolean;
 }
 
 /**
@@ -34,10 +36,15 @@ export interface PngInfo {
 export interface PngData {
   /** Image information */
   info: PngInfo;
-  /** Decoded RGB/Gray pixels (deflated for efficiency) */
+  /** Decoded RGB/Gray pixels */
   pixels: Uint8Array;
   /** Alpha channel data (if present) */
   alpha?: Uint8Array;
+  /**
+   * Bits per sample of `pixels` and `alpha`: 16 (big-endian) for 16-bit
+   * images, otherwise 8. Lower bit depths and palettes are expanded.
+   */
+  bitsPerComponent: 8 | 16;
 }
 
 // PNG signature
@@ -114,8 +121,9 @@ export function parsePng(bytes: Uint8Array): PngData {
 
   // Unfilter and extract pixel data
   const { pixels, alpha } = unfilterAndExtract(rawData, info, palette, transparency);
+  const bitsPerComponent = info.bitDepth === 16 ? 16 : 8;
 
-  return { info, pixels, alpha };
+  return { info, pixels, alpha, bitsPerComponent };
 }
 
 /**
@@ -154,8 +162,14 @@ function parseIHDR(data: Uint8Array): PngInfo {
     throw new Error(`Unsupported PNG filter method: ${filterMethod}`);
   }
 
-  if (interlaceMethod !== 0) {
-    throw new Error("Interlaced PNG images are not supported");
+  if (interlaceMethod > 1) {
+    throw new Error(`Unsupported PNG interlace method: ${interlaceMethod}`);
+  }
+
+  const validDepths = colorType === 0 ? [1, 2, 4, 8, 16] : colorType === 3 ? [1, 2, 4, 8] : [8, 16];
+
+  if (!validDepths.includes(bitDepth)) {
+    throw new Error(`Invalid PNG: bit depth ${bitDepth} for color type ${colorType}`);
   }
 
   // Determine if has alpha and components
@@ -198,9 +212,29 @@ function parseIHDR(data: Uint8Array): PngInfo {
     hasAlpha,
     colorSpace,
     components,
+    interlaced: interlaceMethod === 1,
   };
 }
 
+/**
+ * Adam7 passes: first column and row, then column and row step.
+ */
+// prettier-ignore
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+] as const;
+
+/**
+ * Samples per pixel of each colour type.
+ */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
 /**
  * Unfilter PNG data and extract pixels/alpha.
  */
@@ -210,35 +244,44 @@ function unfilterAndExtract(
   palette: Uint8Array | null,
   transparency: Uint8Array | null,
 ): { pixels: Uint8Array; alpha?: Uint8Array } {
-  const { width, height, colorType, bitDepth } = info;
+  const { colorType } = info;
+  const raw = info.interlaced
+    ? deinterlace(data, info)
+    : unfilterImage(data, info, info.width, info.height);
 
-  // Calculate bytes per pixel and row
-  let bytesPerPixel: number;
+  if (colorType === 3) {
+    // Indexed - expand to RGB
+    if (!palette) {
+      throw new Error("Invalid PNG: missing palette for indexed image");
+    }
 
-  switch (colorType) {
-    case 0: // Grayscale
-      bytesPerPixel = Math.ceil(bitDepth / 8);
-      break;
-    case 2: // RGB
-      bytesPerPixel = 3 * Math.ceil(bitDepth / 8);
-      break;
-    case 3: // Indexed
-      bytesPerPixel = 1;
-      break;
-    case 4: // Grayscale + Alpha
-      bytesPerPixel = 2 * Math.ceil(bitDepth / 8);
-      break;
-    case 6: // RGBA
-      bytesPerPixel = 4 * Math.ceil(bitDepth / 8);
-      break;
-    default:
-      throw new Error(`Unsupported color type: ${colorType}`);
+    return expandIndexed(raw, info, palette, transparency);
   }
 
-  const rowBytes = 1 + Math.ceil((width * bytesPerPixel * 8) / 8); // +1 for filter byte
-  const stride = rowBytes - 1; // Bytes per row excluding filter byte
+  const samples = new SampleRows(raw, info);
+
+  if (colorType === 4 || colorType === 6) {
+    // Gray or RGB + alpha - separate the alpha channel
+    return separateAlpha(samples, info);
+  }
+
+  return applyTransparency(samples, info, transparency);
+}
+
+/**
+ * Unfilter the rows of a (sub-)image into packed rows without filter
+ * bytes.
+ */
+function unfilterImage(data: Uint8Array, info: PngInfo, width: number, height: number): Uint8Array {
+  const bitsPerPixel = CHANNELS[info.colorType] * info.bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const rowBytes = stride + 1; // +1 for filter byte
+
+  if (data.length < height * rowBytes) {
+    throw new Error("Invalid PNG: image data is truncated");
+  }
 
-  // Unfilter
   const unfiltered = new Uint8Array(height * stride);
   let prevRow = new Uint8Array(stride);
 
@@ -249,122 +292,130 @@ function unfilterAndExtract(
     const outputRow = unfiltered.subarray(y * stride, (y + 1) * stride);
 
     unfilterRow(filterType, currentRow, prevRow, outputRow, bytesPerPixel);
-    prevRow = outputRow.slice();
+    prevRow = outputRow;
   }
 
-  // Extract pixels and alpha based on color type
-  if (colorType === 3) {
-    // Indexed - expand to RGB
-    if (!palette) {
-      throw new Error("Invalid PNG: missing palette for indexed image");
-    }
+  return unfiltered;
+}
 
-    return expandIndexed(unfiltered, width, height, palette, transparency);
-  }
+/**
+ * Unfilter the seven Adam7 passes and scatter their pixels into packed
+ * rows of the full image.
+ */
+function deinterlace(data: Uint8Array, info: PngInfo): Uint8Array {
+  const { width, height, bitDepth } = info;
+  const bitsPerPixel = CHANNELS[info.colorType] * bitDepth;
+  const bytesPerPixel = bitsPerPixel >> 3;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const image = new Uint8Array(height * stride);
+  let offset = 0;
 
-  if (colorType === 4) {
-    // Grayscale + Alpha - separate alpha channel
-    return separateGrayAlpha(unfiltered, width, height);
-  }
+  for (const [x0, y0, dx, dy] of ADAM7_PASSES) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
 
-  if (colorType === 6) {
-    // RGBA - separate alpha channel
-    return separateRgbAlpha(unfiltered, width, height);
-  }
+    // Passes without pixels have no data at all
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
 
-  // Grayscale or RGB without alpha
-  // Handle transparency chunk for simple transparency
-  if (transparency) {
-    if (colorType === 0) {
-      // Grayscale transparency
-      const transparentGray = (transparency[0] << 8) | transparency[1];
+    const passStride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const pass = unfilterImage(data.subarray(offset), info, passWidth, passHeight);
 
-      return applyGrayTransparency(unfiltered, width, height, transparentGray, bitDepth);
-    }
+    offset += passHeight * (passStride + 1);
+
+    for (let row = 0; row < passHeight; row++) {
+      const source = row * passStride;
+      const target = (y0 + row * dy) * stride;
+
+      for (let col = 0; col < passWidth; col++) {
+        const x = x0 + col * dx;
 
-    if (colorType === 2) {
-      // RGB transparency
-      const tr = (transparency[0] << 8) | transparency[1];
-      const tg = (transparency[2] << 8) | transparency[3];
-      const tb = (transparency[4] << 8) | transparency[5];
+        if (bytesPerPixel > 0) {
+          image.set(
+            pass.subarray(source + col * bytesPerPixel, source + (col + 1) * bytesPerPixel),
+            target + x * bytesPerPixel,
+          );
+        } else {
+          // Sub-byte pixels (one channel): move the bits
+          const bit = col * bitDepth;
+          const value =
+            (pass[source + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+          const targetBit = x * bitDepth;
 
-      return applyRgbTransparency(unfiltered, width, height, tr, tg, tb, bitDepth);
+          image[target + (targetBit >> 3)] |= value << (8 - bitDepth - (targetBit & 7));
+        }
+      }
     }
   }
 
-  return { pixels: unfiltered };
+  return image;
 }
 
 /**
- * Apply PNG filter to a row.
+ * Samples of unfiltered rows, at the image's bit depth.
  */
-function unfilterRow(
-  filterType: number,
-  current: Uint8Array,
-  prev: Uint8Array,
-  output: Uint8Array,
-  bpp: number,
-): void {
-  const len = current.length;
-
-  switch (filterType) {
-    case 0: // None
-      output.set(current);
-      break;
+class SampleRows {
+  private readonly stride: number;
+  private readonly channels: number;
+
+  constructor(
+    private readonly data: Uint8Array,
+    private readonly info: PngInfo,
+  ) {
+    this.channels = CHANNELS[info.colorType];
+    this.stride = Math.ceil((info.width * this.channels * info.bitDepth) / 8);
+  }
 
-    case 1: // Sub
-      for (let i = 0; i < len; i++) {
-        const left = i >= bpp ? output[i - bpp] : 0;
-        output[i] = (current[i] + left) & 0xff;
-      }
-      break;
+  /**
+   * Sample `index` (pixel * channels + channel) of the image, with rows
+   * starting on byte boundaries.
+   */
+  get(index: number): number {
+    const { bitDepth, width } = this.info;
 
-    case 2: // Up
-      for (let i = 0; i < len; i++) {
-        output[i] = (current[i] + prev[i]) & 0xff;
-      }
-      break;
+    // Whole-byte rows have no padding
+    if (bitDepth === 16) {
+      return (this.data[index * 2] << 8) | this.data[index * 2 + 1];
+    }
 
-    case 3: // Average
-      for (let i = 0; i < len; i++) {
-        const left = i >= bpp ? output[i - bpp] : 0;
-        const up = prev[i];
-        output[i] = (current[i] + Math.floor((left + up) / 2)) & 0xff;
-      }
-      break;
+    if (bitDepth === 8) {
+      return this.data[index];
+    }
 
-    case 4: // Paeth
-      for (let i = 0; i < len; i++) {
-        const left = i >= bpp ? output[i - bpp] : 0;
-        const up = prev[i];
-        const upLeft = i >= bpp ? prev[i - bpp] : 0;
-        output[i] = (current[i] + paethPredictor(left, up, upLeft)) & 0xff;
-      }
-      break;
+    const perRow = width * this.channels;
+    const y = Math.floor(index / perRow);
+    const row = y * this.stride;
+    const bit = (index - y * perRow) * bitDepth;
 
-    default:
-      throw new Error(`Unknown PNG filter type: ${filterType}`);
+    return (this.data[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
   }
 }
 
 /**
- * Paeth predictor function.
+ * Output samples: 16-bit images keep 16 bits (big-endian), lower depths
+ * are scaled to 8 bits.
  */
-function paethPredictor(a: number, b: number, c: number): number {
-  const p = a + b - c;
-  const pa = Math.abs(p - a);
-  const pb = Math.abs(p - b);
-  const pc = Math.abs(p - c);
-
-  if (pa <= pb && pa <= pc) {
-    return a;
+class SampleWriter {
+  readonly data: Uint8Array;
+  private readonly scale: number;
+
+  constructor(
+    count: number,
+    private readonly bitDepth: number,
+  ) {
+    this.data = new Uint8Array(bitDepth === 16 ? count * 2 : count);
+    this.scale = bitDepth < 8 ? 255 / ((1 << bitDepth) - 1) : 1;
   }
 
-  if (pb <= pc) {
-    return b;
+  set(index: number, value: number): void {
+    if (this.bitDepth === 16) {
+      this.data[index * 2] = value >> 8;
+      this.data[index * 2 + 1] = value & 0xff;
+    } else {
+      this.data[index] = Math.round(value * this.scale);
+    }
   }
-
-  return c;
 }
 
 /**
@@ -372,21 +423,22 @@ function paethPredictor(a: number, b: number, c: number): number {
  */
 function expandIndexed(
   data: Uint8Array,
-  width: number,
-  height: number,
+  info: PngInfo,
   palette: Uint8Array,
   transparency: Uint8Array | null,
 ): { pixels: Uint8Array; alpha?: Uint8Array } {
-  const pixels = new Uint8Array(width * height * 3);
+  const count = info.width * info.height;
+  const samples = new SampleRows(data, info);
+  const pixels = new Uint8Array(count * 3);
   let alpha: Uint8Array | undefined;
 
   if (transparency) {
-    alpha = new Uint8Array(width * height);
+    alpha = new Uint8Array(count);
     alpha.fill(255); // Default to fully opaque
   }
 
-  for (let i = 0; i < width * height; i++) {
-    const idx = data[i];
+  for (let i = 0; i < count; i++) {
+    const idx = samples.get(i);
     pixels[i * 3] = palette[idx * 3];
     pixels[i * 3 + 1] = palette[idx * 3 + 1];
     pixels[i * 3 + 2] = palette[idx * 3 + 2];
@@ -405,126 +457,137 @@ function expandIndexed(
 }
 
 /**
- * Separate grayscale + alpha into gray and alpha.
+ * Separate gray + alpha or RGB + alpha into colour and alpha.
  */
-function separateGrayAlpha(
-  data: Uint8Array,
-  width: number,
-  height: number,
+function separateAlpha(
+  samples: SampleRows,
+  info: PngInfo,
 ): { pixels: Uint8Array; alpha: Uint8Array } {
-  const pixels = new Uint8Array(width * height);
-  const alpha = new Uint8Array(width * height);
+  const count = info.width * info.height;
+  const { components } = info;
+  const pixels = new SampleWriter(count * components, info.bitDepth);
+  const alpha = new SampleWriter(count, info.bitDepth);
+
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < components; c++) {
+      pixels.set(i * components + c, samples.get(i * (components + 1) + c));
+    }
 
-  for (let i = 0; i < width * height; i++) {
-    pixels[i] = data[i * 2];
-    alpha[i] = data[i * 2 + 1];
+    alpha.set(i, samples.get(i * (components + 1) + components));
   }
 
-  return { pixels, alpha };
+  return { pixels: pixels.data, alpha: alpha.data };
 }
 
 /**
- * Separate RGBA into RGB and alpha.
+ * Convert gray or RGB samples, with tRNS simple transparency if present:
+ * pixels of exactly the tRNS colour are transparent.
  */
-function separateRgbAlpha(
-  data: Uint8Array,
-  width: number,
-  height: number,
-): { pixels: Uint8Array; alpha: Uint8Array } {
-  const pixels = new Uint8Array(width * height * 3);
-  const alpha = new Uint8Array(width * height);
-
-  for (let i = 0; i < width * height; i++) {
-    pixels[i * 3] = data[i * 4];
-    pixels[i * 3 + 1] = data[i * 4 + 1];
-    pixels[i * 3 + 2] = data[i * 4 + 2];
-    alpha[i] = data[i * 4 + 3];
+function applyTransparency(
+  samples: SampleRows,
+  info: PngInfo,
+  transparency: Uint8Array | null,
+): { pixels: Uint8Array; alpha?: Uint8Array } {
+  const count = info.width * info.height;
+  const { components, bitDepth } = info;
+  const pixels = new SampleWriter(count * components, bitDepth);
+  const key: number[] = [];
+
+  if (transparency && transparency.length >= components * 2) {
+    for (let c = 0; c < components; c++) {
+      key.push((transparency[c * 2] << 8) | transparency[c * 2 + 1]);
+    }
   }
 
-  return { pixels, alpha };
-}
+  const alpha = key.length > 0 ? new SampleWriter(count, bitDepth) : null;
+  const opaque = bitDepth === 16 ? 0xffff : (1 << bitDepth) - 1;
 
-/**
- * Apply grayscale transparency.
- */
-function applyGrayTransparency(
-  data: Uint8Array,
-  width: number,
-  height: number,
-  transparentValue: number,
-  bitDepth: number,
-): { pixels: Uint8Array; alpha: Uint8Array } {
-  const alpha = new Uint8Array(width * height);
-
-  for (let i = 0; i < width * height; i++) {
-    const value = bitDepth === 16 ? (data[i * 2] << 8) | data[i * 2 + 1] : data[i];
-    alpha[i] = value === transparentValue ? 0 : 255;
-  }
-
-  // For 16-bit, reduce to 8-bit
-  let pixels: Uint8Array;
+  for (let i = 0; i < count; i++) {
+    let keyed = alpha !== null;
 
-  if (bitDepth === 16) {
-    pixels = new Uint8Array(width * height);
+    for (let c = 0; c < components; c++) {
+      const value = samples.get(i * components + c);
 
-    for (let i = 0; i < width * height; i++) {
-      pixels[i] = data[i * 2];
+      pixels.set(i * components + c, value);
+      keyed &&= value === key[c];
     }
-  } else {
-    pixels = data;
+
+    alpha?.set(i, keyed ? 0 : opaque);
   }
 
-  return { pixels, alpha };
+  return { pixels: pixels.data, alpha: alpha?.data };
 }
 
 /**
- * Apply RGB transparency.
+ * Apply PNG filter to a row.
  */
-function applyRgbTransparency(
-  data: Uint8Array,
-  width: number,
-  height: number,
-  tr: number,
-  tg: number,
-  tb: number,
-  bitDepth: number,
-): { pixels: Uint8Array; alpha: Uint8Array } {
-  const alpha = new Uint8Array(width * height);
+function unfilterRow(
+  filterType: number,
+  current: Uint8Array,
+  prev: Uint8Array,
+  output: Uint8Array,
+  bpp: number,
+): void {
+  const len = current.length;
 
-  for (let i = 0; i < width * height; i++) {
-    let r: number;
-    let g: number;
-    let b: number;
+  switch (filterType) {
+    case 0: // None
+      output.set(current);
+      break;
 
-    if (bitDepth === 16) {
-      r = (data[i * 6] << 8) | data[i * 6 + 1];
-      g = (data[i * 6 + 2] << 8) | data[i * 6 + 3];
-      b = (data[i * 6 + 4] << 8) | data[i * 6 + 5];
-    } else {
-      r = data[i * 3];
-      g = data[i * 3 + 1];
-      b = data[i * 3 + 2];
-    }
+    case 1: // Sub
+      for (let i = 0; i < len; i++) {
+        const left = i >= bpp ? output[i - bpp] : 0;
+        output[i] = (current[i] + left) & 0xff;
+      }
+      break;
+
+    case 2: // Up
+      for (let i = 0; i < len; i++) {
+        output[i] = (current[i] + prev[i]) & 0xff;
+      }
+      break;
+
+    case 3: // Average
+      for (let i = 0; i < len; i++) {
+        const left = i >= bpp ? output[i - bpp] : 0;
+        const up = prev[i];
+        output[i] = (current[i] + Math.floor((left + up) / 2)) & 0xff;
+      }
+      break;
+
+    case 4: // Paeth
+      for (let i = 0; i < len; i++) {
+        const left = i >= bpp ? output[i - bpp] : 0;
+        const up = prev[i];
+        const upLeft = i >= bpp ? prev[i - bpp] : 0;
+        output[i] = (current[i] + paethPredictor(left, up, upLeft)) & 0xff;
+      }
+      break;
 
-    alpha[i] = r === tr && g === tg && b === tb ? 0 : 255;
+    default:
+      throw new Error(`Unknown PNG filter type: ${filterType}`);
   }
+}
 
-  // For 16-bit, reduce to 8-bit
-  let pixels: Uint8Array;
+/**
+ * Paeth predictor function.
+ */
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
 
-  if (bitDepth === 16) {
-    pixels = new Uint8Array(width * height * 3);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
 
-    for (let i = 0; i < width * height; i++) {
-      pixels[i * 3] = data[i * 6];
-      pixels[i * 3 + 1] = data[i * 6 + 2];
-      pixels[i * 3 + 2] = data[i * 6 + 4];
-    }
-  } else {
-    pixels = data;
+  if (pb <= pc) {
+    return b;
   }
 
-  return { pixels, alpha };
+  return c;
 }
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Decoded raster images.
+ *
+ * The TIFF, GIF, BMP and WebP decoders all produce a `RasterImage`: samples
+ * in a PDF device colour space, ready to be compressed into an image
+ * XObject, with the alpha channel (if any) kept apart for a soft mask.
+ */
+
+/**
+ * A decoded image, in the layout of a PDF image XObject's samples.
+ */
+export interface RasterImage {
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** PDF color space name */
+  colorSpace: "DeviceGray" | "DeviceRGB" | "DeviceCMYK";
+  /**
+   * Bits per sample. 1-bit images are DeviceGray with 0 = black, each row
+   * padded to a whole byte; 16-bit samples are big-endian.
+   */
+  bitsPerComponent: 1 | 8 | 16;
+  /** Interleaved samples, rows top to bottom */
+  pixels: Uint8Array;
+  /**
+   * Opacity, one sample per pixel at the same depth as `pixels` (never
+   * present for 1-bit images). Absent when the image is fully opaque.
+   */
+  alpha?: Uint8Array;
+}
+
+/**
+ * Drop an alpha channel that is opaque everywhere (all samples 0xff).
+ */
+export function opaqueToUndefined(alpha: Uint8Array | undefined): Uint8Array | undefined {
+  if (!alpha) {
+    return undefined;
+  }
+
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] !== 0xff) {
+      return alpha;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,129 @@
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { parsePng } from "./png";
+import { getTiffPageCount, isTiff, parseTiff } from "./tiff";
+
+/**
+ * The 45x20 checkerboard of `checker-g4.tif`, one byte per pixel, 1 = white.
+ */
+function checker(x: number, y: number): number {
+  return ((x >> 2) + (y >> 2)) % 2 === 0 || x === y * 2 ? 0 : 1;
+}
+
+function bitAt(image: { width: number; pixels: Uint8Array }, x: number, y: number): number {
+  const stride = Math.ceil(image.width / 8);
+
+  return (image.pixels[y * stride + (x >> 3)] >> (7 - (x & 7))) & 1;
+}
+
+describe("isTiff", () => {
+  it("recognizes both byte orders", () => {
+    expect(isTiff(new Uint8Array([0x49, 0x49, 0x2a, 0x00, 8, 0, 0, 0]))).toBe(true);
+    expect(isTiff(new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8]))).toBe(true);
+  });
+
+  it("returns false for other data", () => {
+    expect(isTiff(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe(false);
+    expect(isTiff(new Uint8Array(0))).toBe(false);
+  });
+});
+
+describe("parseTiff", () => {
+  it("throws for invalid TIFF", () => {
+    expect(() => parseTiff(new Uint8Array(8))).toThrow("Invalid TIFF");
+  });
+
+  it.each(["ramp-rgb-lzw.tif", "ramp-rgb-tiled.tif"])("decodes %s", async name => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const image = parseTiff(await loadFixture("images", name));
+
+    expect(image.width).toBe(40);
+    expect(image.height).toBe(24);
+    expect(image.colorSpace).toBe("DeviceRGB");
+    expect(image.bitsPerComponent).toBe(8);
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toBeUndefined();
+  });
+
+  it("separates alpha", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgba-interlaced.png"));
+    const image = parseTiff(await loadFixture("images", "ramp-rgba-deflate.tif"));
+
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toEqual(expected.alpha);
+  });
+
+  it("keeps 16-bit samples big-endian", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgba16.png"));
+    const image = parseTiff(await loadFixture("images", "ramp-rgba16.tif"));
+
+    expect(image.bitsPerComponent).toBe(16);
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toEqual(expected.alpha);
+  });
+
+  it("decodes PackBits grayscale", async () => {
+    const image = parseTiff(await loadFixture("images", "ramp-gray-packbits.tif"));
+
+    expect(image.colorSpace).toBe("DeviceGray");
+    expect(image.bitsPerComponent).toBe(8);
+    expect(image.pixels.length).toBe(40 * 24);
+  });
+
+  it("decodes CCITT Group 4 as 1-bit gray", async () => {
+    const image = parseTiff(await loadFixture("images", "checker-g4.tif"));
+
+    expect(image.width).toBe(45);
+    expect(image.height).toBe(20);
+    expect(image.colorSpace).toBe("DeviceGray");
+    expect(image.bitsPerComponent).toBe(1);
+
+    for (let y = 0; y < 20; y++) {
+      for (let x = 0; x < 45; x++) {
+        expect(bitAt(image, x, y)).toBe(checker(x, y));
+      }
+    }
+  });
+
+  describe("multi-page", () => {
+    it("counts pages", async () => {
+      expect(getTiffPageCount(await loadFixture("images", "multipage.tif"))).toBe(4);
+      expect(getTiffPageCount(await loadFixture("images", "ramp-rgb-lzw.tif"))).toBe(1);
+    });
+
+    it("decodes CCITT Group 3 pages (2D with fill order 2, and Modified Huffman)", async () => {
+      const bytes = await loadFixture("images", "multipage.tif");
+      const g4 = parseTiff(await loadFixture("images", "checker-g4.tif"));
+
+      expect(parseTiff(bytes, 0).pixels).toEqual(g4.pixels);
+      expect(parseTiff(bytes, 1).pixels).toEqual(g4.pixels);
+    });
+
+    it("expands palette pages to RGB", async () => {
+      const image = parseTiff(await loadFixture("images", "multipage.tif"), 2);
+
+      expect(image.colorSpace).toBe("DeviceRGB");
+      expect(image.bitsPerComponent).toBe(8);
+      expect(image.pixels.length).toBe(40 * 24 * 3);
+    });
+
+    it("un-premultiplies planar alpha", async () => {
+      const expected = parsePng(await loadFixture("images", "ramp-rgba-interlaced.png"));
+      const image = parseTiff(await loadFixture("images", "multipage.tif"), 3);
+
+      expect(image.alpha).toEqual(expected.alpha);
+
+      // Premultiplying loses precision where alpha is low
+      for (let i = 0; i < expected.pixels.length; i++) {
+        expect(Math.abs(image.pixels[i] - expected.pixels[i])).toBeLessThanOrEqual(5);
+      }
+    });
+
+    it("rejects pages that don't exist", async () => {
+      const bytes = await loadFixture("images", "multipage.tif");
+
+      expect(() => parseTiff(bytes, 4)).toThrow();
+    });
+  });
+});
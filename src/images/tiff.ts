@@ -0,0 +1,655 @@
+/**
+ * TIFF image parsing.
+ *
+ * Decodes baseline TIFF images for embedding in PDF: bilevel, grayscale,
+ * palette, RGB and CMYK images, in strips or tiles, uncompressed or
+ * compressed with PackBits, LZW, Deflate or CCITT fax encoding. Each
+ * image file directory (IFD) is one page of a multi-page TIFF.
+ */
+
+import { decodeCcitt } from "#src/filters/ccitt/decoder";
+import { LZWFilter } from "#src/filters/lzw-filter";
+import { inflate } from "pako";
+
+import { opaqueToUndefined, type RasterImage } from "./raster";
+
+// Tags
+const IMAGE_WIDTH = 256;
+const IMAGE_LENGTH = 257;
+const BITS_PER_SAMPLE = 258;
+const COMPRESSION = 259;
+const PHOTOMETRIC = 262;
+const FILL_ORDER = 266;
+const STRIP_OFFSETS = 273;
+const SAMPLES_PER_PIXEL = 277;
+const ROWS_PER_STRIP = 278;
+const STRIP_BYTE_COUNTS = 279;
+const PLANAR_CONFIGURATION = 284;
+const T4_OPTIONS = 292;
+const PREDICTOR = 317;
+const COLOR_MAP = 320;
+const TILE_WIDTH = 322;
+const TILE_LENGTH = 323;
+const TILE_OFFSETS = 324;
+const TILE_BYTE_COUNTS = 325;
+const EXTRA_SAMPLES = 338;
+const SAMPLE_FORMAT = 339;
+
+// Compression schemes
+const NONE = 1;
+const CCITT_RLE = 2;
+const CCITT_T4 = 3;
+const CCITT_T6 = 4;
+const LZW = 5;
+const DEFLATE = 8;
+const PACKBITS = 32773;
+const DEFLATE_OLD = 32946;
+
+// Photometric interpretations
+const WHITE_IS_ZERO = 0;
+const BLACK_IS_ZERO = 1;
+const RGB = 2;
+const PALETTE = 3;
+const SEPARATED = 5;
+
+// Bytes per value of each field type; types not listed are skipped
+// prettier-ignore
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4,
+};
+
+// Same limit as PNG: prevents absurd allocations
+const MAX_PIXELS = 100_000_000;
+
+/**
+ * Check if bytes are a TIFF file ("II*\0" or "MM\0*").
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+  if (bytes.length < 8) {
+    return false;
+  }
+
+  return (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+}
+
+/**
+ * Count the pages (image file directories) of a TIFF file.
+ *
+ * @throws {Error} If not a valid TIFF
+ */
+export function getTiffPageCount(bytes: Uint8Array): number {
+  return readDirectoryOffsets(new TiffReader(bytes)).length;
+}
+
+/**
+ * Parse one page of a TIFF file.
+ *
+ * @param bytes - TIFF file data
+ * @param page - Page index (default: 0, the first page)
+ * @returns Decoded image
+ * @throws {Error} If not a valid TIFF or unsupported format
+ */
+export function parseTiff(bytes: Uint8Array, page = 0): RasterImage {
+  const reader = new TiffReader(bytes);
+  const offsets = readDirectoryOffsets(reader);
+
+  if (page < 0 || page >= offsets.length) {
+    throw new Error(`TIFF page ${page} out of range (0-${offsets.length - 1})`);
+  }
+
+  return decodePage(reader, readEntries(reader, offsets[page]));
+}
+
+/**
+ * Reads values in the file's byte order.
+ */
+class TiffReader {
+  readonly littleEndian: boolean;
+
+  constructor(readonly bytes: Uint8Array) {
+    if (!isTiff(bytes)) {
+      throw new Error("Invalid TIFF: missing header");
+    }
+
+    this.littleEndian = bytes[0] === 0x49;
+  }
+
+  uint16(offset: number): number {
+    const { bytes } = this;
+
+    return this.littleEndian
+      ? bytes[offset] | (bytes[offset + 1] << 8)
+      : (bytes[offset] << 8) | bytes[offset + 1];
+  }
+
+  uint32(offset: number): number {
+    const high = this.uint16(offset + (this.littleEndian ? 2 : 0));
+    const low = this.uint16(offset + (this.littleEndian ? 0 : 2));
+
+    return high * 0x10000 + low;
+  }
+}
+
+/**
+ * Follow the chain of image file directories from the header.
+ */
+function readDirectoryOffsets(reader: TiffReader): number[] {
+  const offsets: number[] = [];
+  const seen = new Set<number>();
+  let offset = reader.uint32(4);
+
+  while (offset !== 0) {
+    if (seen.has(offset) || offset + 2 > reader.bytes.length) {
+      // Loops and dangling offsets end the chain
+      break;
+    }
+
+    seen.add(offset);
+    offsets.push(offset);
+
+    const count = reader.uint16(offset);
+    const next = offset + 2 + count * 12;
+
+    offset = next + 4 <= reader.bytes.length ? reader.uint32(next) : 0;
+  }
+
+  if (offsets.length === 0) {
+    throw new Error("Invalid TIFF: no image file directory");
+  }
+
+  return offsets;
+}
+
+/**
+ * Read the entries of an image file directory as tag → values. Rationals
+ * are read as their quotient.
+ */
+function readEntries(reader: TiffReader, offset: number): Map<number, number[]> {
+  const { bytes } = reader;
+  const entries = new Map<number, number[]>();
+  const count = reader.uint16(offset);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+
+    if (entry + 12 > bytes.length) {
+      break;
+    }
+
+    const tag = reader.uint16(entry);
+    const type = reader.uint16(entry + 2);
+    const length = reader.uint32(entry + 4);
+    const size = TYPE_SIZES[type];
+
+    if (size === undefined) {
+      continue;
+    }
+
+    // Values that fit in 4 bytes are stored in the entry itself
+    const start = size * length <= 4 ? entry + 8 : reader.uint32(entry + 8);
+
+    if (start + size * length > bytes.length) {
+      continue;
+    }
+
+    const values: number[] = [];
+
+    for (let j = 0; j < length; j++) {
+      const at = start + j * size;
+
+      switch (type) {
+        case 3:
+          values.push(reader.uint16(at));
+          break;
+        case 4:
+          values.push(reader.uint32(at));
+          break;
+        case 5:
+          values.push(reader.uint32(at) / reader.uint32(at + 4));
+          break;
+        case 6:
+          values.push((bytes[at] << 24) >> 24);
+          break;
+        case 8:
+          values.push((reader.uint16(at) << 16) >> 16);
+          break;
+        case 9:
+          values.push(reader.uint32(at) | 0);
+          break;
+        default:
+          values.push(bytes[at]);
+      }
+    }
+
+    entries.set(tag, values);
+  }
+
+  return entries;
+}
+
+/**
+ * Decode the image described by a directory's entries.
+ */
+function decodePage(reader: TiffReader, entries: Map<number, number[]>): RasterImage {
+  const get = (tag: number, fallback?: number): number => {
+    const value = entries.get(tag)?.[0] ?? fallback;
+
+    if (value === undefined) {
+      throw new Error(`Invalid TIFF: missing required tag ${tag}`);
+    }
+
+    return value;
+  };
+
+  const width = get(IMAGE_WIDTH);
+  const height = get(IMAGE_LENGTH);
+  const compression = get(COMPRESSION, NONE);
+  const isCcitt = compression === CCITT_RLE || compression === CCITT_T4 || compression === CCITT_T6;
+  const photometric = get(PHOTOMETRIC, isCcitt ? WHITE_IS_ZERO : BLACK_IS_ZERO);
+  const samplesPerPixel = get(SAMPLES_PER_PIXEL, 1);
+  const bitsPerSample = entries.get(BITS_PER_SAMPLE) ?? [1];
+  const bits = bitsPerSample[0];
+
+  if (width === 0 || height === 0) {
+    throw new Error("Invalid TIFF: zero dimension");
+  }
+
+  if (width * height > MAX_PIXELS) {
+    throw new Error(
+      `TIFF image too large: ${width}x${height} (${width * height} pixels) exceeds limit of ${MAX_PIXELS} pixels`,
+    );
+  }
+
+  if (![1, 2, 4, 8, 16].includes(bits) || bitsPerSample.some(b => b !== bits)) {
+    throw new Error(`Unsupported TIFF bits per sample: ${bitsPerSample.join(",")}`);
+  }
+
+  if (get(SAMPLE_FORMAT, 1) !== 1) {
+    throw new Error("Unsupported TIFF sample format: only unsigned integers are supported");
+  }
+
+  const colorChannels = photometric === RGB ? 3 : photometric === SEPARATED ? 4 : 1;
+
+  if (![WHITE_IS_ZERO, BLACK_IS_ZERO, RGB, PALETTE, SEPARATED].includes(photometric)) {
+    throw new Error(`Unsupported TIFF photometric interpretation: ${photometric}`);
+  }
+
+  if (samplesPerPixel < colorChannels) {
+    throw new Error(
+      `Invalid TIFF: ${samplesPerPixel} samples per pixel for photometric ${photometric}`,
+    );
+  }
+
+  // The first extra sample is alpha if it says so: 1 = premultiplied, 2 = straight
+  const extra = get(EXTRA_SAMPLES, 0);
+  const hasAlpha = samplesPerPixel > colorChannels && (extra === 1 || extra === 2);
+
+  const samples = readSamples(reader, entries, {
+    width,
+    height,
+    bits,
+    samplesPerPixel,
+    compression,
+    planar: get(PLANAR_CONFIGURATION, 1) === 2,
+    predictor: get(PREDICTOR, 1),
+    fillOrder: get(FILL_ORDER, 1),
+    t4Options: get(T4_OPTIONS, 0),
+  });
+
+  const count = width * height;
+  const max = bits === 16 ? 0xffff : (1 << bits) - 1;
+
+  // Bilevel: keep 1 bit per pixel, 0 = black
+  if (bits === 1 && samplesPerPixel === 1 && photometric !== PALETTE) {
+    const rowBytes = Math.ceil(width / 8);
+    const pixels = new Uint8Array(rowBytes * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const white = samples[y * width + x] === (photometric === WHITE_IS_ZERO ? 0 : 1);
+
+        if (white) {
+          pixels[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+    }
+
+    return { width, height, colorSpace: "DeviceGray", bitsPerComponent: 1, pixels };
+  }
+
+  const outBits = bits === 16 ? 16 : 8;
+  const scale = (value: number): number => (bits < 8 ? Math.round((value * 255) / max) : value);
+
+  if (photometric === PALETTE) {
+    const colorMap = entries.get(COLOR_MAP);
+    const size = 1 << bits;
+
+    if (!colorMap || colorMap.length < size * 3) {
+      throw new Error("Invalid TIFF: missing color map for palette image");
+    }
+
+    const pixels = new Uint8Array(count * 3);
+    const alpha = hasAlpha ? new Uint8Array(count) : undefined;
+
+    for (let i = 0; i < count; i++) {
+      const index = samples[i * samplesPerPixel];
+
+      // Color map entries are 16-bit
+      pixels[i * 3] = colorMap[index] >> 8;
+      pixels[i * 3 + 1] = colorMap[size + index] >> 8;
+      pixels[i * 3 + 2] = colorMap[size * 2 + index] >> 8;
+
+      if (alpha) {
+        alpha[i] = scale(samples[i * samplesPerPixel + 1]) >> (outBits - 8);
+      }
+    }
+
+    return {
+      width,
+      height,
+      colorSpace: "DeviceRGB",
+      bitsPerComponent: 8,
+      pixels,
+      alpha: opaqueToUndefined(alpha),
+    };
+  }
+
+  const bytesPerSample = outBits / 8;
+  const pixels = new Uint8Array(count * colorChannels * bytesPerSample);
+  const alpha = hasAlpha ? new Uint8Array(count * bytesPerSample) : undefined;
+  const premultiplied = hasAlpha && extra === 1;
+
+  const write = (target: Uint8Array, index: number, value: number): void => {
+    if (outBits === 16) {
+      target[index * 2] = value >> 8;
+      target[index * 2 + 1] = value & 0xff;
+    } else {
+      target[index] = scale(value);
+    }
+  };
+
+  for (let i = 0; i < count; i++) {
+    const base = i * samplesPerPixel;
+    const opacity = hasAlpha ? samples[base + colorChannels] : max;
+
+    for (let c = 0; c < colorChannels; c++) {
+      let value = samples[base + c];
+
+      if (photometric === WHITE_IS_ZERO) {
+        value = max - value;
+      }
+
+      if (premultiplied) {
+        value = opacity === 0 ? 0 : Math.min(max, Math.round((value * max) / opacity));
+      }
+
+      write(pixels, i * colorChannels + c, value);
+    }
+
+    if (alpha) {
+      write(alpha, i, opacity);
+    }
+  }
+
+  const colorSpace =
+    colorChannels === 3 ? "DeviceRGB" : colorChannels === 4 ? "DeviceCMYK" : "DeviceGray";
+
+  return {
+    width,
+    height,
+    colorSpace,
+    bitsPerComponent: outBits,
+    pixels,
+    alpha: opaqueToUndefined(alpha),
+  };
+}
+
+/**
+ * How a page's samples are stored.
+ */
+interface Layout {
+  width: number;
+  height: number;
+  bits: number;
+  samplesPerPixel: number;
+  compression: number;
+  /** Each sample in its own plane (PlanarConfiguration 2) */
+  planar: boolean;
+  predictor: number;
+  fillOrder: number;
+  t4Options: number;
+}
+
+/**
+ * Decompress every strip or tile and gather the samples, one per value,
+ * pixel-interleaved.
+ */
+function readSamples(
+  reader: TiffReader,
+  entries: Map<number, number[]>,
+  layout: Layout,
+): Uint16Array {
+  const { width, height, samplesPerPixel, planar } = layout;
+  const tiled = entries.has(TILE_WIDTH);
+
+  // Strips are tiles as wide as the image
+  const chunkWidth = tiled ? (entries.get(TILE_WIDTH)?.[0] ?? 0) : width;
+  const chunkHeight = tiled
+    ? (entries.get(TILE_LENGTH)?.[0] ?? 0)
+    : Math.min(entries.get(ROWS_PER_STRIP)?.[0] ?? height, height);
+  const offsets = entries.get(tiled ? TILE_OFFSETS : STRIP_OFFSETS);
+  const byteCounts = entries.get(tiled ? TILE_BYTE_COUNTS : STRIP_BYTE_COUNTS);
+
+  if (chunkWidth === 0 || chunkHeight === 0) {
+    throw new Error("Invalid TIFF: zero tile or strip size");
+  }
+
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const planes = planar ? samplesPerPixel : 1;
+  const chunkSamples = planar ? 1 : samplesPerPixel;
+
+  if (!offsets || offsets.length < across * down * planes) {
+    throw new Error("Invalid TIFF: missing strip or tile offsets");
+  }
+
+  const samples = new Uint16Array(width * height * samplesPerPixel);
+  const row = new Uint16Array(chunkWidth * chunkSamples);
+
+  for (let plane = 0; plane < planes; plane++) {
+    for (let cy = 0; cy < down; cy++) {
+      for (let cx = 0; cx < across; cx++) {
+        const index = (plane * down + cy) * across + cx;
+        const start = offsets[index];
+        const end =
+          byteCounts?.[index] === undefined ? reader.bytes.length : start + byteCounts[index];
+
+        // Tiles are always full size; the last strip may be short
+        const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - cy * chunkHeight);
+        const data = decompress(
+          reader.bytes.subarray(start, end),
+          layout,
+          chunkWidth * chunkSamples,
+          rows,
+        );
+        const rowBytes = Math.ceil((chunkWidth * chunkSamples * layout.bits) / 8);
+
+        for (let r = 0; r < rows && cy * chunkHeight + r < height; r++) {
+          readRow(reader, data, r * rowBytes, layout.bits, row);
+
+          if (layout.predictor === 2) {
+            undoHorizontalDifferencing(row, chunkSamples, layout.bits);
+          } else if (layout.predictor !== 1) {
+            throw new Error(`Unsupported TIFF predictor: ${layout.predictor}`);
+          }
+
+          const y = cy * chunkHeight + r;
+          const columns = Math.min(chunkWidth, width - cx * chunkWidth);
+
+          for (let x = 0; x < columns; x++) {
+            const target = (y * width + cx * chunkWidth + x) * samplesPerPixel;
+
+            if (planar) {
+              samples[target + plane] = row[x];
+            } else {
+              samples.set(row.subarray(x * chunkSamples, (x + 1) * chunkSamples), target);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Read one row of samples. Data missing at the end of a truncated chunk
+ * reads as zeros.
+ */
+function readRow(
+  reader: TiffReader,
+  data: Uint8Array,
+  offset: number,
+  bits: number,
+  row: Uint16Array,
+): void {
+  for (let i = 0; i < row.length; i++) {
+    if (bits === 16) {
+      const at = offset + i * 2;
+
+      row[i] =
+        at + 1 < data.length
+          ? reader.littleEndian
+            ? data[at] | (data[at + 1] << 8)
+            : (data[at] << 8) | data[at + 1]
+          : 0;
+    } else if (bits === 8) {
+      row[i] = data[offset + i] ?? 0;
+    } else {
+      const bit = i * bits;
+      const byte = data[offset + (bit >> 3)] ?? 0;
+
+      row[i] = (byte >> (8 - bits - (bit & 7))) & ((1 << bits) - 1);
+    }
+  }
+}
+
+/**
+ * Predictor 2: each sample is stored as the difference from the same
+ * sample of the pixel to its left.
+ */
+function undoHorizontalDifferencing(row: Uint16Array, samplesPerPixel: number, bits: number): void {
+  const mask = bits === 16 ? 0xffff : (1 << bits) - 1;
+
+  for (let i = samplesPerPixel; i < row.length; i++) {
+    row[i] = (row[i] + row[i - samplesPerPixel]) & mask;
+  }
+}
+
+/**
+ * Decompress a strip or tile.
+ *
+ * @param data - Compressed bytes
+ * @param layout - The page's storage
+ * @param samplesPerRow - Samples in each row of the chunk
+ * @param rows - Rows in the chunk
+ */
+function decompress(
+  data: Uint8Array,
+  layout: Layout,
+  samplesPerRow: number,
+  rows: number,
+): Uint8Array {
+  const input = layout.fillOrder === 2 ? reverseBits(data) : data;
+
+  switch (layout.compression) {
+    case NONE:
+      return input;
+
+    case CCITT_RLE:
+    case CCITT_T4:
+    case CCITT_T6:
+      // The runs are of 0 and 1 bits: "black" is 1 whatever the photometric
+      // interpretation, as libtiff reads it
+      return decodeCcitt(input, {
+        k: layout.compression === CCITT_T6 ? -1 : layout.t4Options & 1 ? 1 : 0,
+        columns: samplesPerRow,
+        rows,
+        encodedByteAlign: layout.compression === CCITT_RLE,
+        endOfLine: layout.compression === CCITT_T4,
+        damagedRowsBeforeError: 0,
+      }).data;
+
+    case LZW:
+      // Pre-6.0 LZW codes were written least significant bit first
+      if (input[0] === 0 && (input[1] & 1) === 1) {
+        throw new Error("Unsupported TIFF compression: old-style LZW");
+      }
+
+      return new LZWFilter().decode(input);
+
+    case DEFLATE:
+    case DEFLATE_OLD:
+      return inflate(input);
+
+    case PACKBITS:
+      return unpackBits(input, Math.ceil((samplesPerRow * layout.bits) / 8) * rows);
+
+    default:
+      throw new Error(`Unsupported TIFF compression: ${layout.compression}`);
+  }
+}
+
+/**
+ * PackBits: a count byte n, then n + 1 literal bytes (n < 128) or one byte
+ * repeated 1 - n times (n > 128, as a signed byte). 128 is a no-op.
+ */
+function unpackBits(data: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let pos = 0;
+  let out = 0;
+
+  while (pos < data.length && out < expected) {
+    const n = data[pos++];
+
+    if (n < 128) {
+      const length = Math.min(n + 1, expected - out, data.length - pos);
+
+      output.set(data.subarray(pos, pos + length), out);
+      pos += n + 1;
+      out += length;
+    } else if (n > 128) {
+      const length = Math.min(257 - n, expected - out);
+
+      output.fill(data[pos++] ?? 0, out, out + length);
+      out += length;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * FillOrder 2: bits are stored least significant first.
+ */
+function reverseBits(data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    let byte = data[i];
+    let reversed = 0;
+
+    for (let bit = 0; bit < 8; bit++) {
+      reversed = (reversed << 1) | (byte & 1);
+      byte >>= 1;
+    }
+
+    output[i] = reversed;
+  }
+
+  return output;
+}
@@ -0,0 +1,78 @@
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { parsePng } from "./png";
+import { isWebp, parseWebp } from "./webp";
+
+describe("isWebp", () => {
+  it("returns true for the RIFF WEBP signature", async () => {
+    expect(isWebp(await loadFixture("images", "ramp-rgb-lossy.webp"))).toBe(true);
+  });
+
+  it("returns false for other RIFF files", () => {
+    const wave = new TextEncoder().encode("RIFF\0\0\0\0WAVEfmt ");
+
+    expect(isWebp(wave)).toBe(false);
+  });
+});
+
+describe("parseWebp", () => {
+  it("throws for invalid WebP", () => {
+    expect(() => parseWebp(new Uint8Array(16))).toThrow("Invalid WebP: missing signature");
+  });
+
+  it("throws for animations", () => {
+    const bytes = new TextEncoder().encode(
+      "RIFF\x16\0\0\0WEBPVP8X\x0a\0\0\0\x02\0\0\0\0\0\0\0\0\0",
+    );
+
+    expect(() => parseWebp(bytes)).toThrow("Animated WebP is not supported");
+  });
+
+  it("decodes lossless images with alpha", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-rgba-interlaced.png"));
+    const image = parseWebp(await loadFixture("images", "ramp-rgba-lossless.webp"));
+
+    expect(image.width).toBe(40);
+    expect(image.height).toBe(24);
+    expect(image.colorSpace).toBe("DeviceRGB");
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toEqual(expected.alpha);
+  });
+
+  it("decodes lossless palette images", async () => {
+    const expected = parsePng(await loadFixture("images", "ramp-palette2.png"));
+    const image = parseWebp(await loadFixture("images", "ramp-palette-lossless.webp"));
+
+    expect(image.pixels).toEqual(expected.pixels);
+    expect(image.alpha).toBeUndefined();
+  });
+
+  it("decodes lossy images", async () => {
+    const source = parsePng(await loadFixture("images", "ramp-rgb.png"));
+    const image = parseWebp(await loadFixture("images", "ramp-rgb-lossy.webp"));
+
+    expect(image.alpha).toBeUndefined();
+
+    let error = 0;
+
+    for (let i = 0; i < source.pixels.length; i++) {
+      error += Math.abs(image.pixels[i] - source.pixels[i]);
+    }
+
+    expect(error / source.pixels.length).toBeLessThan(8);
+  });
+
+  it.each(["ramp-rgba-lossy", "green-circle-alpha-lossy"])(
+    "matches libwebp's decode of %s",
+    async name => {
+      const expected = parsePng(await loadFixture("images", `${name}.ref.png`));
+      const image = parseWebp(await loadFixture("images", `${name}.webp`));
+
+      expect(image.width).toBe(expected.info.width);
+      expect(image.height).toBe(expected.info.height);
+      expect(image.pixels).toEqual(expected.pixels);
+      expect(image.alpha).toEqual(expected.alpha);
+    },
+  );
+});
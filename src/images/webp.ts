@@ -0,0 +1,232 @@
+/**
+ * WebP image parsing.
+ *
+ * Decodes still WebP images for embedding in PDF: lossy (VP8) images,
+ * optionally with a separately coded alpha plane, and lossless (VP8L)
+ * images. Animated WebP is not supported.
+ */
+
+import { opaqueToUndefined, type RasterImage } from "./raster";
+import { decodeVp8 } from "./webp/vp8";
+import { decodeVp8l, decodeVp8lStream } from "./webp/vp8l";
+
+// VP8X feature flags
+const FLAG_ANIMATION = 0x02;
+
+// Alpha plane compression and filtering methods
+const ALPHA_UNCOMPRESSED = 0;
+const ALPHA_LOSSLESS = 1;
+const FILTER_HORIZONTAL = 1;
+const FILTER_VERTICAL = 2;
+const FILTER_GRADIENT = 3;
+
+// Same limit as PNG: prevents absurd allocations
+const MAX_PIXELS = 100_000_000;
+
+/**
+ * Check if bytes are a WebP file ("RIFF" ... "WEBP").
+ */
+export function isWebp(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 16 &&
+    bytes[0] === 0x52 &&
+    bytes[1] === 0x49 &&
+    bytes[2] === 0x46 &&
+    bytes[3] === 0x46 &&
+    bytes[8] === 0x57 &&
+    bytes[9] === 0x45 &&
+    bytes[10] === 0x42 &&
+    bytes[11] === 0x50
+  );
+}
+
+/**
+ * Parse a WebP file.
+ *
+ * @param bytes - WebP file data
+ * @returns Decoded image
+ * @throws {Error} If not a valid WebP or animated
+ */
+export function parseWebp(bytes: Uint8Array): RasterImage {
+  if (!isWebp(bytes)) {
+    throw new Error("Invalid WebP: missing signature");
+  }
+
+  const chunks = readChunks(bytes);
+  const extended = chunks.get("VP8X");
+
+  if (extended && extended[0] & FLAG_ANIMATION) {
+    throw new Error("Animated WebP is not supported");
+  }
+
+  const lossless = chunks.get("VP8L");
+
+  if (lossless) {
+    const image = decodeVp8l(lossless);
+
+    checkSize(image.width, image.height);
+
+    return fromArgb(image.width, image.height, image.pixels);
+  }
+
+  const lossy = chunks.get("VP8 ");
+
+  if (!lossy) {
+    throw new Error("Invalid WebP: no image data");
+  }
+
+  const image = decodeVp8(lossy);
+
+  checkSize(image.width, image.height);
+
+  const alphaChunk = chunks.get("ALPH");
+
+  return {
+    width: image.width,
+    height: image.height,
+    colorSpace: "DeviceRGB",
+    bitsPerComponent: 8,
+    pixels: image.pixels,
+    alpha: alphaChunk
+      ? opaqueToUndefined(decodeAlpha(alphaChunk, image.width, image.height))
+      : undefined,
+  };
+}
+
+/**
+ * Index the file's chunks by their four-character code (first one wins).
+ */
+function readChunks(bytes: Uint8Array): Map<string, Uint8Array> {
+  const chunks = new Map<string, Uint8Array>();
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(
+      bytes[offset],
+      bytes[offset + 1],
+      bytes[offset + 2],
+      bytes[offset + 3],
+    );
+    const size = readUint32LE(bytes, offset + 4);
+    const start = offset + 8;
+
+    if (!chunks.has(id)) {
+      chunks.set(id, bytes.subarray(start, Math.min(start + size, bytes.length)));
+    }
+
+    // Chunks are padded to an even size
+    offset = start + size + (size & 1);
+  }
+
+  return chunks;
+}
+
+function checkSize(width: number, height: number): void {
+  if (width * height > MAX_PIXELS) {
+    throw new Error(
+      `WebP image too large: ${width}x${height} (${width * height} pixels) exceeds limit of ${MAX_PIXELS} pixels`,
+    );
+  }
+}
+
+/**
+ * Split lossless ARGB pixels into RGB and alpha.
+ */
+function fromArgb(width: number, height: number, argb: Uint32Array): RasterImage {
+  const pixels = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+
+  for (let i = 0; i < argb.length; i++) {
+    const pixel = argb[i];
+
+    pixels[i * 3] = (pixel >>> 16) & 0xff;
+    pixels[i * 3 + 1] = (pixel >>> 8) & 0xff;
+    pixels[i * 3 + 2] = pixel & 0xff;
+    alpha[i] = pixel >>> 24;
+  }
+
+  return {
+    width,
+    height,
+    colorSpace: "DeviceRGB",
+    bitsPerComponent: 8,
+    pixels,
+    alpha: opaqueToUndefined(alpha),
+  };
+}
+
+/**
+ * Decode an "ALPH" chunk: a header byte, then the alpha plane, raw or as
+ * the green channel of a headerless lossless stream, and possibly
+ * filtered.
+ */
+function decodeAlpha(chunk: Uint8Array, width: number, height: number): Uint8Array {
+  const compression = chunk[0] & 0x03;
+  const filter = (chunk[0] >> 2) & 0x03;
+  const data = chunk.subarray(1);
+  const alpha = new Uint8Array(width * height);
+
+  if (compression === ALPHA_UNCOMPRESSED) {
+    alpha.set(data.subarray(0, alpha.length));
+  } else if (compression === ALPHA_LOSSLESS) {
+    const argb = decodeVp8lStream(data, width, height);
+
+    for (let i = 0; i < alpha.length; i++) {
+      alpha[i] = (argb[i] >>> 8) & 0xff;
+    }
+  } else {
+    throw new Error(`Invalid WebP: alpha compression ${compression}`);
+  }
+
+  if (filter !== 0) {
+    unfilterAlpha(alpha, width, height, filter);
+  }
+
+  return alpha;
+}
+
+/**
+ * Undo alpha plane prediction in place. Each sample was stored as the
+ * difference from its prediction: the left, above or gradient
+ * (left + above - above-left) neighbour. The first row always predicts
+ * from the left, and the first column from above.
+ */
+function unfilterAlpha(alpha: Uint8Array, width: number, height: number, filter: number): void {
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    const above = row - width;
+
+    for (let x = 0; x < width; x++) {
+      const i = row + x;
+      let prediction: number;
+
+      if (y === 0) {
+        prediction = x === 0 ? 0 : alpha[i - 1];
+      } else if (x === 0) {
+        prediction = alpha[above];
+      } else if (filter === FILTER_HORIZONTAL) {
+        prediction = alpha[i - 1];
+      } else if (filter === FILTER_VERTICAL) {
+        prediction = alpha[above + x];
+      } else if (filter === FILTER_GRADIENT) {
+        const gradient = alpha[i - 1] + alpha[above + x] - alpha[above + x - 1];
+
+        prediction = gradient < 0 ? 0 : gradient > 255 ? 255 : gradient;
+      } else {
+        prediction = 0;
+      }
+
+      alpha[i] = (alpha[i] + prediction) & 0xff;
+    }
+  }
+}
+
+/**
+ * Read little-endian uint32.
+ */
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (
+    (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16)) +
+    data[offset + 3] * 0x1000000
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * The boolean entropy decoder of VP8 (RFC 6386 section 7).
+ */
+export class BoolDecoder {
+  private value: number;
+  private range = 255;
+  private bitCount = 0;
+  private pos: number;
+
+  /**
+   * @param data - Buffer holding the partition
+   * @param start - Offset of the partition
+   * @param end - End of the partition; past it, zeros are read
+   */
+  constructor(
+    private readonly data: Uint8Array,
+    start: number,
+    private readonly end: number,
+  ) {
+    this.value = ((data[start] ?? 0) << 8) | (data[start + 1] ?? 0);
+    this.pos = start + 2;
+  }
+
+  /**
+   * Read a bit that is 0 with probability `prob` / 256.
+   */
+  readBool(prob: number): number {
+    const split = 1 + (((this.range - 1) * prob) >> 8);
+    const bigSplit = split << 8;
+    let bit = 0;
+
+    if (this.value >= bigSplit) {
+      bit = 1;
+      this.range -= split;
+      this.value -= bigSplit;
+    } else {
+      this.range = split;
+    }
+
+    while (this.range < 128) {
+      this.value <<= 1;
+      this.range <<= 1;
+
+      if (++this.bitCount === 8) {
+        this.bitCount = 0;
+
+        if (this.pos < this.end) {
+          this.value |= this.data[this.pos];
+        }
+
+        this.pos++;
+      }
+    }
+
+    return bit;
+  }
+
+  /**
+   * Read an unsigned `bits`-bit literal, most significant bit first.
+   */
+  readLiteral(bits: number): number {
+    let value = 0;
+
+    for (let i = 0; i < bits; i++) {
+      value = (value << 1) | this.readBool(128);
+    }
+
+    return value;
+  }
+
+  /**
+   * Read a `bits`-bit magnitude followed by a sign bit.
+   */
+  readSigned(bits: number): number {
+    const value = this.readLiteral(bits);
+
+    return this.readBool(128) ? -value : value;
+  }
+
+  /**
+   * Read a flag, then a signed value if the flag is set (else 0).
+   */
+  readOptionalSigned(bits: number): number {
+    return this.readBool(128) ? this.readSigned(bits) : 0;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * The VP8 loop filter (RFC 6386 section 15), which smooths the edges
+ * between macroblocks and between their 4x4 subblocks.
+ */
+
+/**
+ * How one macroblock is filtered.
+ */
+export interface FilterParams {
+  /** Edge limit; 0 turns filtering off */
+  limit: number;
+
+  /** Interior limit */
+  interiorLimit: number;
+
+  /** High edge variance threshold */
+  hevThreshold: number;
+
+  /** Whether subblock edges are filtered too */
+  inner: boolean;
+}
+
+/**
+ * A plane of samples being filtered.
+ */
+export interface Plane {
+  data: Uint8Array;
+  stride: number;
+}
+
+/**
+ * Filter a macroblock's edges with the simple filter (luma only).
+ *
+ * @param offset - Offset of the macroblock's top-left sample
+ */
+export function simpleFilter(
+  plane: Plane,
+  offset: number,
+  params: FilterParams,
+  left: boolean,
+  top: boolean,
+): void {
+  const { data, stride } = plane;
+  const { limit, inner } = params;
+
+  if (left) {
+    simpleEdge(data, offset, 1, stride, limit + 4);
+  }
+
+  if (inner) {
+    for (let i = 4; i < 16; i += 4) {
+      simpleEdge(data, offset + i, 1, stride, limit);
+    }
+  }
+
+  if (top) {
+    simpleEdge(data, offset, stride, 1, limit + 4);
+  }
+
+  if (inner) {
+    for (let i = 4; i < 16; i += 4) {
+      simpleEdge(data, offset + i * stride, stride, 1, limit);
+    }
+  }
+}
+
+/**
+ * Filter a macroblock's edges with the normal filter.
+ *
+ * @param offset - Offset of the block's top-left sample
+ * @param size - 16 for luma, 8 for chroma
+ */
+export function normalFilter(
+  plane: Plane,
+  offset: number,
+  size: number,
+  params: FilterParams,
+  left: boolean,
+  top: boolean,
+): void {
+  const { data, stride } = plane;
+  const { limit, interiorLimit, hevThreshold, inner } = params;
+
+  if (left) {
+    macroblockEdge(data, offset, 1, stride, size, limit + 4, interiorLimit, hevThreshold);
+  }
+
+  if (inner) {
+    for (let i = 4; i < size; i += 4) {
+      subblockEdge(data, offset + i, 1, stride, size, limit, interiorLimit, hevThreshold);
+    }
+  }
+
+  if (top) {
+    macroblockEdge(data, offset, stride, 1, size, limit + 4, interiorLimit, hevThreshold);
+  }
+
+  if (inner) {
+    for (let i = 4; i < size; i += 4) {
+      subblockEdge(data, offset + i * stride, stride, 1, size, limit, interiorLimit, hevThreshold);
+    }
+  }
+}
+
+/**
+ * Filter 16 positions along an edge with the simple filter.
+ *
+ * @param step - Distance between samples across the edge
+ * @param along - Distance between positions along the edge
+ */
+function simpleEdge(data: Uint8Array, p: number, step: number, along: number, limit: number): void {
+  const threshold = 2 * limit + 1;
+
+  for (let i = 0; i < 16; i++, p += along) {
+    const p1 = data[p - 2 * step];
+    const p0 = data[p - step];
+    const q0 = data[p];
+    const q1 = data[p + step];
+
+    if (4 * Math.abs(p0 - q0) + Math.abs(p1 - q1) <= threshold) {
+      commonAdjust(data, p, step, true);
+    }
+  }
+}
+
+function macroblockEdge(
+  data: Uint8Array,
+  p: number,
+  step: number,
+  along: number,
+  size: number,
+  limit: number,
+  interiorLimit: number,
+  hevThreshold: number,
+): void {
+  const threshold = 2 * limit + 1;
+
+  for (let i = 0; i < size; i++, p += along) {
+    if (!needsFilter(data, p, step, threshold, interiorLimit)) {
+      continue;
+    }
+
+    if (highEdgeVariance(data, p, step, hevThreshold)) {
+      commonAdjust(data, p, step, true);
+      continue;
+    }
+
+    const p2 = data[p - 3 * step];
+    const p1 = data[p - 2 * step];
+    const p0 = data[p - step];
+    const q0 = data[p];
+    const q1 = data[p + step];
+    const q2 = data[p + 2 * step];
+    const a = clampSigned(3 * (q0 - p0) + clampSigned(p1 - q1));
+    const a1 = (27 * a + 63) >> 7;
+    const a2 = (18 * a + 63) >> 7;
+    const a3 = (9 * a + 63) >> 7;
+
+    data[p - 3 * step] = clamp255(p2 + a3);
+    data[p - 2 * step] = clamp255(p1 + a2);
+    data[p - step] = clamp255(p0 + a1);
+    data[p] = clamp255(q0 - a1);
+    data[p + step] = clamp255(q1 - a2);
+    data[p + 2 * step] = clamp255(q2 - a3);
+  }
+}
+
+function subblockEdge(
+  data: Uint8Array,
+  p: number,
+  step: number,
+  along: number,
+  size: number,
+  limit: number,
+  interiorLimit: number,
+  hevThreshold: number,
+): void {
+  const threshold = 2 * limit + 1;
+
+  for (let i = 0; i < size; i++, p += along) {
+    if (!needsFilter(data, p, step, threshold, interiorLimit)) {
+      continue;
+    }
+
+    if (highEdgeVariance(data, p, step, hevThreshold)) {
+      commonAdjust(data, p, step, true);
+      continue;
+    }
+
+    const a1 = commonAdjust(data, p, step, false);
+    const a3 = (a1 + 1) >> 1;
+
+    data[p - 2 * step] = clamp255(data[p - 2 * step] + a3);
+    data[p + step] = clamp255(data[p + step] - a3);
+  }
+}
+
+/**
+ * Adjust the two samples nearest the edge.
+ *
+ * @param useOuterTaps - Whether the outer samples contribute
+ * @returns The adjustment applied to `q0`
+ */
+function commonAdjust(data: Uint8Array, p: number, step: number, useOuterTaps: boolean): number {
+  const p1 = data[p - 2 * step];
+  const p0 = data[p - step];
+  const q0 = data[p];
+  const q1 = data[p + step];
+  const a = 3 * (q0 - p0) + (useOuterTaps ? clampSigned(p1 - q1) : 0);
+  const a1 = clampAdjustment((a + 4) >> 3);
+  const a2 = clampAdjustment((a + 3) >> 3);
+
+  data[p - step] = clamp255(p0 + a2);
+  data[p] = clamp255(q0 - a1);
+
+  return a1;
+}
+
+function needsFilter(
+  data: Uint8Array,
+  p: number,
+  step: number,
+  threshold: number,
+  interiorLimit: number,
+): boolean {
+  const p3 = data[p - 4 * step];
+  const p2 = data[p - 3 * step];
+  const p1 = data[p - 2 * step];
+  const p0 = data[p - step];
+  const q0 = data[p];
+  const q1 = data[p + step];
+  const q2 = data[p + 2 * step];
+  const q3 = data[p + 3 * step];
+
+  return (
+    4 * Math.abs(p0 - q0) + Math.abs(p1 - q1) <= threshold &&
+    Math.abs(p3 - p2) <= interiorLimit &&
+    Math.abs(p2 - p1) <= interiorLimit &&
+    Math.abs(p1 - p0) <= interiorLimit &&
+    Math.abs(q3 - q2) <= interiorLimit &&
+    Math.abs(q2 - q1) <= interiorLimit &&
+    Math.abs(q1 - q0) <= interiorLimit
+  );
+}
+
+function highEdgeVariance(data: Uint8Array, p: number, step: number, threshold: number): boolean {
+  return (
+    Math.abs(data[p - 2 * step] - data[p - step]) > threshold ||
+    Math.abs(data[p + step] - data[p]) > threshold
+  );
+}
+
+function clampSigned(value: number): number {
+  return value < -128 ? -128 : value > 127 ? 127 : value;
+}
+
+function clampAdjustment(value: number): number {
+  return value < -16 ? -16 : value > 15 ? 15 : value;
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
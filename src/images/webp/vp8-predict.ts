@@ -0,0 +1,213 @@
+/**
+ * VP8 intra prediction (RFC 6386 section 12).
+ *
+ * Predictors write into a work buffer whose rows are `BPS` bytes apart;
+ * the row above and the column to the left of the block being predicted
+ * hold the neighbouring (unfiltered) pixels.
+ */
+
+/** Row stride of the work buffer */
+export const BPS = 32;
+
+// Prediction modes. 16x16 luma and 8x8 chroma blocks use the first four.
+export const DC_PRED = 0;
+export const TM_PRED = 1;
+export const VE_PRED = 2;
+export const HE_PRED = 3;
+export const RD_PRED = 4;
+export const VR_PRED = 5;
+export const LD_PRED = 6;
+export const VL_PRED = 7;
+export const HD_PRED = 8;
+export const HU_PRED = 9;
+
+/**
+ * Predict a 16x16 luma or 8x8 chroma block.
+ *
+ * @param mode - One of `DC_PRED`, `TM_PRED`, `VE_PRED` or `HE_PRED`
+ * @param size - 16 or 8
+ * @param hasTop - Whether there's a row above (else DC ignores it)
+ * @param hasLeft - Whether there's a column to the left
+ */
+export function predictBlock(
+  buf: Uint8Array,
+  dst: number,
+  size: number,
+  mode: number,
+  hasTop: boolean,
+  hasLeft: boolean,
+): void {
+  if (mode === DC_PRED) {
+    const shift = size === 16 ? 4 : 3;
+    let sum = 0;
+    let dc = 0x80;
+
+    if (hasTop) {
+      for (let i = 0; i < size; i++) {
+        sum += buf[dst - BPS + i];
+      }
+    }
+
+    if (hasLeft) {
+      for (let i = 0; i < size; i++) {
+        sum += buf[dst - 1 + i * BPS];
+      }
+    }
+
+    if (hasTop && hasLeft) {
+      dc = (sum + size) >> (shift + 1);
+    } else if (hasTop || hasLeft) {
+      dc = (sum + (size >> 1)) >> shift;
+    }
+
+    fill(buf, dst, size, () => dc);
+  } else if (mode === TM_PRED) {
+    trueMotion(buf, dst, size);
+  } else if (mode === VE_PRED) {
+    fill(buf, dst, size, x => buf[dst - BPS + x]);
+  } else if (mode === HE_PRED) {
+    fill(buf, dst, size, (_, y) => buf[dst - 1 + y * BPS]);
+  } else {
+    throw new Error(`VP8: Invalid prediction mode ${mode}`);
+  }
+}
+
+/**
+ * Predict a 4x4 luma subblock. The four pixels above and to the right
+ * must be in the buffer too.
+ */
+export function predictSubblock(buf: Uint8Array, dst: number, mode: number): void {
+  const top = dst - BPS;
+  const [X, A, B, C, D, E, F, G, H] = Array.from({ length: 9 }, (_, i) => buf[top - 1 + i]);
+  const [I, J, K, L] = Array.from({ length: 4 }, (_, i) => buf[dst - 1 + i * BPS]);
+  let values: number[];
+
+  switch (mode) {
+    case DC_PRED: {
+      const dc = (A + B + C + D + I + J + K + L + 4) >> 3;
+
+      values = new Array<number>(16).fill(dc);
+      break;
+    }
+
+    case TM_PRED:
+      trueMotion(buf, dst, 4);
+
+      return;
+
+    case VE_PRED: {
+      const row = [avg3(X, A, B), avg3(A, B, C), avg3(B, C, D), avg3(C, D, E)];
+
+      values = [...row, ...row, ...row, ...row];
+      break;
+    }
+
+    case HE_PRED:
+      values = [avg3(X, I, J), avg3(I, J, K), avg3(J, K, L), avg3(K, L, L)].flatMap(v => [
+        v,
+        v,
+        v,
+        v,
+      ]);
+      break;
+
+    // prettier-ignore
+    case RD_PRED:
+      values = [
+        avg3(A, X, I), avg3(B, A, X), avg3(C, B, A), avg3(D, C, B),
+        avg3(X, I, J), avg3(A, X, I), avg3(B, A, X), avg3(C, B, A),
+        avg3(I, J, K), avg3(X, I, J), avg3(A, X, I), avg3(B, A, X),
+        avg3(J, K, L), avg3(I, J, K), avg3(X, I, J), avg3(A, X, I),
+      ];
+      break;
+
+    // prettier-ignore
+    case VR_PRED:
+      values = [
+        avg2(X, A),    avg2(A, B),    avg2(B, C),    avg2(C, D),
+        avg3(I, X, A), avg3(X, A, B), avg3(A, B, C), avg3(B, C, D),
+        avg3(J, I, X), avg2(X, A),    avg2(A, B),    avg2(B, C),
+        avg3(K, J, I), avg3(I, X, A), avg3(X, A, B), avg3(A, B, C),
+      ];
+      break;
+
+    // prettier-ignore
+    case LD_PRED:
+      values = [
+        avg3(A, B, C), avg3(B, C, D), avg3(C, D, E), avg3(D, E, F),
+        avg3(B, C, D), avg3(C, D, E), avg3(D, E, F), avg3(E, F, G),
+        avg3(C, D, E), avg3(D, E, F), avg3(E, F, G), avg3(F, G, H),
+        avg3(D, E, F), avg3(E, F, G), avg3(F, G, H), avg3(G, H, H),
+      ];
+      break;
+
+    // prettier-ignore
+    case VL_PRED:
+      values = [
+        avg2(A, B),    avg2(B, C),    avg2(C, D),    avg2(D, E),
+        avg3(A, B, C), avg3(B, C, D), avg3(C, D, E), avg3(D, E, F),
+        avg2(B, C),    avg2(C, D),    avg2(D, E),    avg3(E, F, G),
+        avg3(B, C, D), avg3(C, D, E), avg3(D, E, F), avg3(F, G, H),
+      ];
+      break;
+
+    // prettier-ignore
+    case HD_PRED:
+      values = [
+        avg2(I, X),    avg3(I, X, A), avg3(X, A, B), avg3(A, B, C),
+        avg2(J, I),    avg3(J, I, X), avg2(I, X),    avg3(I, X, A),
+        avg2(K, J),    avg3(K, J, I), avg2(J, I),    avg3(J, I, X),
+        avg2(L, K),    avg3(L, K, J), avg2(K, J),    avg3(K, J, I),
+      ];
+      break;
+
+    // prettier-ignore
+    case HU_PRED:
+      values = [
+        avg2(I, J),    avg3(I, J, K), avg2(J, K),    avg3(J, K, L),
+        avg2(J, K),    avg3(J, K, L), avg2(K, L),    avg3(K, L, L),
+        avg2(K, L),    avg3(K, L, L), L,             L,
+        L,             L,             L,             L,
+      ];
+      break;
+
+    default:
+      throw new Error(`VP8: Invalid prediction mode ${mode}`);
+  }
+
+  fill(buf, dst, 4, (x, y) => values[y * 4 + x]);
+}
+
+/**
+ * TrueMotion: each pixel is left + above - above-left, clamped.
+ */
+function trueMotion(buf: Uint8Array, dst: number, size: number): void {
+  const corner = buf[dst - BPS - 1];
+
+  fill(buf, dst, size, (x, y) => clamp255(buf[dst - BPS + x] + buf[dst - 1 + y * BPS] - corner));
+}
+
+function fill(
+  buf: Uint8Array,
+  dst: number,
+  size: number,
+  value: (x: number, y: number) => number,
+): void {
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      buf[dst + y * BPS + x] = value(x, y);
+    }
+  }
+}
+
+function avg2(a: number, b: number): number {
+  return (a + b + 1) >> 1;
+}
+
+function avg3(a: number, b: number, c: number): number {
+  return (a + 2 * b + c + 2) >> 2;
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
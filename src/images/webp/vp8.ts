@@ -0,0 +1,957 @@
+/**
+ * VP8: WebP's lossy format, a single VP8 key frame (RFC 6386).
+ *
+ * The frame is split into 16x16 macroblocks. Each is predicted from its
+ * already decoded neighbours, then a residual (a dequantized 4x4 DCT per
+ * subblock, with the luma DCs optionally in a second Walsh-Hadamard
+ * transform) is added. A loop filter then smooths block edges, and
+ * the 4:2:0 YUV planes are converted to RGB. Arithmetic follows libwebp
+ * exactly, so output matches the reference decoder.
+ */
+
+import { BoolDecoder } from "./bool-decoder";
+import { type FilterParams, normalFilter, type Plane, simpleFilter } from "./vp8-filter";
+import {
+  BPS,
+  DC_PRED,
+  HD_PRED,
+  HE_PRED,
+  HU_PRED,
+  LD_PRED,
+  predictBlock,
+  predictSubblock,
+  RD_PRED,
+  TM_PRED,
+  VE_PRED,
+  VL_PRED,
+  VR_PRED,
+} from "./vp8-predict";
+import {
+  AC_QUANT,
+  BMODE_PROBS,
+  COEFF_UPDATE_PROBS,
+  DC_QUANT,
+  DEFAULT_COEFF_PROBS,
+} from "./vp8-tables";
+import { yuvToRgb } from "./yuv";
+
+/**
+ * A decoded lossy image.
+ */
+export interface Vp8Image {
+  width: number;
+  height: number;
+
+  /** Pixels as 8-bit RGB */
+  pixels: Uint8Array;
+}
+
+const NUM_SEGMENTS = 4;
+
+// Coefficient token probabilities per block type, band, context and node
+const NUM_TYPES = 4;
+const NUM_BANDS = 8;
+const NUM_CONTEXTS = 3;
+const NUM_PROBS = 11;
+
+// Block types for coefficient probabilities
+const TYPE_Y_AFTER_Y2 = 0;
+const TYPE_Y2 = 1;
+const TYPE_CHROMA = 2;
+const TYPE_Y_WITH_DC = 3;
+
+/**
+ * Band of each coefficient position (plus one past the end).
+ */
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0];
+
+/**
+ * Coefficient order within a 4x4 block.
+ */
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+
+/**
+ * Probabilities of the extra bits of large coefficient categories 3-6.
+ */
+const CATEGORY_PROBS = [
+  [173, 148, 140],
+  [176, 155, 140, 135],
+  [180, 157, 141, 134, 130],
+  [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129],
+];
+
+/**
+ * Tree of 4x4 subblock modes: positive entries index the tree, others
+ * are negated modes.
+ */
+// prettier-ignore
+const SUBBLOCK_MODE_TREE = [
+  -DC_PRED, 1,
+  -TM_PRED, 2,
+  -VE_PRED, 3,
+  4, 6,
+  -HE_PRED, 5,
+  -RD_PRED, -VR_PRED,
+  -LD_PRED, 7,
+  -VL_PRED, 8,
+  -HD_PRED, -HU_PRED,
+];
+
+// Layout of the per-macroblock work buffer: luma, then the two chroma
+// blocks side by side, each with a border row above and column to the left
+const Y_OFFSET = BPS + 8;
+const U_OFFSET = Y_OFFSET + 16 * BPS + BPS;
+const V_OFFSET = U_OFFSET + 16;
+const WORK_SIZE = BPS * 17 + BPS * 9;
+
+/**
+ * Dequantization factors (DC and AC) for one segment.
+ */
+interface Quantizer {
+  y1: [number, number];
+  y2: [number, number];
+  uv: [number, number];
+}
+
+/**
+ * Frame-wide state from the frame header.
+ */
+interface FrameHeader {
+  width: number;
+  height: number;
+  segmentMapUpdated: boolean;
+  segmentProbs: number[];
+  skipProb: number | null;
+  coeffProbs: Uint8Array;
+  quantizers: Quantizer[];
+  filterType: "none" | "simple" | "normal";
+  filters: FilterParams[][];
+}
+
+/**
+ * How one macroblock is predicted.
+ */
+interface MacroblockModes {
+  segment: number;
+  skip: boolean;
+  lumaMode: number;
+
+  /** Subblock modes, when luma is predicted per 4x4 subblock */
+  subblockModes: number[] | null;
+  chromaMode: number;
+}
+
+/**
+ * Decode a VP8 bitstream (the payload of a "VP8 " chunk).
+ */
+export function decodeVp8(data: Uint8Array): Vp8Image {
+  if (data.length < 10) {
+    throw new Error("VP8: Truncated frame header");
+  }
+
+  const tag = data[0] | (data[1] << 8) | (data[2] << 16);
+  const keyFrame = (tag & 1) === 0;
+  const profile = (tag >> 1) & 7;
+  const firstPartitionSize = tag >> 5;
+
+  if (!keyFrame) {
+    throw new Error("VP8: Not a key frame");
+  }
+
+  if (profile > 3) {
+    throw new Error(`VP8: Unknown profile ${profile}`);
+  }
+
+  if (data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) {
+    throw new Error("VP8: Invalid start code");
+  }
+
+  const width = (data[6] | (data[7] << 8)) & 0x3fff;
+  const height = (data[8] | (data[9] << 8)) & 0x3fff;
+
+  if (width === 0 || height === 0) {
+    throw new Error("VP8: Zero dimension");
+  }
+
+  const partitionStart = 10;
+  const partitionEnd = partitionStart + firstPartitionSize;
+
+  if (partitionEnd > data.length) {
+    throw new Error("VP8: Truncated first partition");
+  }
+
+  const br = new BoolDecoder(data, partitionStart, partitionEnd);
+  const { header, tokenPartitions } = readFrameHeader(br, data, partitionEnd, width, height);
+
+  const planes = reconstructFrame(header, br, tokenPartitions);
+
+  return {
+    width,
+    height,
+    pixels: yuvToRgb({
+      width,
+      height,
+      y: planes.y.data,
+      u: planes.u.data,
+      v: planes.v.data,
+      yStride: planes.y.stride,
+      uvStride: planes.u.stride,
+    }),
+  };
+}
+
+/**
+ * Read the frame header from the first partition, and locate the token
+ * partitions that follow it.
+ */
+function readFrameHeader(
+  br: BoolDecoder,
+  data: Uint8Array,
+  partitionEnd: number,
+  width: number,
+  height: number,
+): { header: FrameHeader; tokenPartitions: BoolDecoder[] } {
+  // Color space and clamping type: only one of each is defined
+  br.readLiteral(2);
+
+  // Segmentation
+  const segmentEnabled = br.readBool(128) === 1;
+  let segmentMapUpdated = false;
+  let absoluteValues = false;
+  const segmentQuant = [0, 0, 0, 0];
+  const segmentFilter = [0, 0, 0, 0];
+  const segmentProbs = [255, 255, 255];
+
+  if (segmentEnabled) {
+    segmentMapUpdated = br.readBool(128) === 1;
+
+    if (br.readBool(128)) {
+      absoluteValues = br.readBool(128) === 1;
+
+      for (let s = 0; s < NUM_SEGMENTS; s++) {
+        segmentQuant[s] = br.readOptionalSigned(7);
+      }
+
+      for (let s = 0; s < NUM_SEGMENTS; s++) {
+        segmentFilter[s] = br.readOptionalSigned(6);
+      }
+    }
+
+    if (segmentMapUpdated) {
+      for (let i = 0; i < 3; i++) {
+        segmentProbs[i] = br.readBool(128) ? br.readLiteral(8) : 255;
+      }
+    }
+  }
+
+  // Loop filter
+  const simple = br.readBool(128) === 1;
+  const level = br.readLiteral(6);
+  const sharpness = br.readLiteral(3);
+  const refDeltas = [0, 0, 0, 0];
+  const modeDeltas = [0, 0, 0, 0];
+  const useDeltas = br.readBool(128) === 1;
+
+  if (useDeltas && br.readBool(128)) {
+    for (let i = 0; i < 4; i++) {
+      if (br.readBool(128)) {
+        refDeltas[i] = br.readSigned(6);
+      }
+    }
+
+    for (let i = 0; i < 4; i++) {
+      if (br.readBool(128)) {
+        modeDeltas[i] = br.readSigned(6);
+      }
+    }
+  }
+
+  // Token partitions: sizes of all but the last, then the data
+  const partitionCount = 1 << br.readLiteral(2);
+  const sizesStart = partitionEnd;
+  let start = sizesStart + 3 * (partitionCount - 1);
+  const tokenPartitions: BoolDecoder[] = [];
+
+  if (start > data.length) {
+    throw new Error("VP8: Truncated partition sizes");
+  }
+
+  for (let p = 0; p < partitionCount; p++) {
+    const at = sizesStart + p * 3;
+    const end =
+      p < partitionCount - 1
+        ? Math.min(start + (data[at] | (data[at + 1] << 8) | (data[at + 2] << 16)), data.length)
+        : data.length;
+
+    tokenPartitions.push(new BoolDecoder(data, start, end));
+    start = end;
+  }
+
+  // Quantizers
+  const baseQ = br.readLiteral(7);
+  const y1dc = br.readOptionalSigned(4);
+  const y2dc = br.readOptionalSigned(4);
+  const y2ac = br.readOptionalSigned(4);
+  const uvdc = br.readOptionalSigned(4);
+  const uvac = br.readOptionalSigned(4);
+  const quantizers: Quantizer[] = [];
+
+  for (let s = 0; s < NUM_SEGMENTS; s++) {
+    let q = baseQ;
+
+    if (segmentEnabled) {
+      q = segmentQuant[s] + (absoluteValues ? 0 : baseQ);
+    }
+
+    quantizers.push({
+      y1: [DC_QUANT[clip(q + y1dc, 127)], AC_QUANT[clip(q, 127)]],
+      y2: [
+        DC_QUANT[clip(q + y2dc, 127)] * 2,
+        Math.max(8, (AC_QUANT[clip(q + y2ac, 127)] * 101581) >> 16),
+      ],
+      uv: [DC_QUANT[clip(q + uvdc, 117)], AC_QUANT[clip(q + uvac, 127)]],
+    });
+  }
+
+  // "Refresh entropy probabilities": irrelevant for a single frame
+  br.readBool(128);
+
+  const coeffProbs = new Uint8Array(DEFAULT_COEFF_PROBS);
+
+  for (let i = 0; i < NUM_TYPES * NUM_BANDS * NUM_CONTEXTS * NUM_PROBS; i++) {
+    if (br.readBool(COEFF_UPDATE_PROBS[i])) {
+      coeffProbs[i] = br.readLiteral(8);
+    }
+  }
+
+  const skipProb = br.readBool(128) ? br.readLiteral(8) : null;
+
+  // Filter strength per segment, for whole-block and subblock prediction
+  const filters: FilterParams[][] = [];
+
+  for (let s = 0; s < NUM_SEGMENTS; s++) {
+    let base = level;
+
+    if (segmentEnabled) {
+      base = segmentFilter[s] + (absoluteValues ? 0 : level);
+    }
+
+    filters.push(
+      [false, true].map(subblocks => {
+        let strength = base;
+
+        if (useDeltas) {
+          strength += refDeltas[0] + (subblocks ? modeDeltas[0] : 0);
+        }
+
+        return filterParams(clip(strength, 63), sharpness, subblocks);
+      }),
+    );
+  }
+
+  return {
+    header: {
+      width,
+      height,
+      segmentMapUpdated,
+      segmentProbs,
+      skipProb,
+      coeffProbs,
+      quantizers,
+      filterType: level === 0 ? "none" : simple ? "simple" : "normal",
+      filters,
+    },
+    tokenPartitions,
+  };
+}
+
+function filterParams(level: number, sharpness: number, inner: boolean): FilterParams {
+  if (level === 0) {
+    return { limit: 0, interiorLimit: 0, hevThreshold: 0, inner };
+  }
+
+  let interiorLimit = level;
+
+  if (sharpness > 0) {
+    interiorLimit >>= sharpness > 4 ? 2 : 1;
+    interiorLimit = Math.min(interiorLimit, 9 - sharpness);
+  }
+
+  interiorLimit = Math.max(interiorLimit, 1);
+
+  return {
+    limit: 2 * level + interiorLimit,
+    interiorLimit,
+    hevThreshold: level >= 40 ? 2 : level >= 15 ? 1 : 0,
+    inner,
+  };
+}
+
+/**
+ * Decode every macroblock into the Y, U and V planes (padded to whole
+ * macroblocks), then apply the loop filter.
+ */
+function reconstructFrame(
+  header: FrameHeader,
+  br: BoolDecoder,
+  tokenPartitions: BoolDecoder[],
+): { y: Plane; u: Plane; v: Plane } {
+  const mbWidth = (header.width + 15) >> 4;
+  const mbHeight = (header.height + 15) >> 4;
+  const y: Plane = { data: new Uint8Array(mbWidth * 16 * mbHeight * 16), stride: mbWidth * 16 };
+  const u: Plane = { data: new Uint8Array(mbWidth * 8 * mbHeight * 8), stride: mbWidth * 8 };
+  const v: Plane = { data: new Uint8Array(mbWidth * 8 * mbHeight * 8), stride: mbWidth * 8 };
+
+  // Unfiltered bottom rows of the macroblock row above, for prediction
+  const topY = new Uint8Array(mbWidth * 16);
+  const topU = new Uint8Array(mbWidth * 8);
+  const topV = new Uint8Array(mbWidth * 8);
+
+  // Subblock mode contexts: the modes above and to the left
+  const topModes = new Uint8Array(mbWidth * 4);
+  const leftModes = new Uint8Array(4);
+
+  // Non-zero coefficient contexts: 4 luma, 2 + 2 chroma and the Y2 block
+  const topNonZero = new Uint8Array(mbWidth * 9);
+  const leftNonZero = new Uint8Array(9);
+
+  const work = new Uint8Array(WORK_SIZE);
+  const coeffs = new Int16Array(384);
+  const filters: FilterParams[] = [];
+
+  for (let mbY = 0; mbY < mbHeight; mbY++) {
+    const tokens = tokenPartitions[mbY % tokenPartitions.length];
+
+    leftModes.fill(DC_PRED);
+    leftNonZero.fill(0);
+    initRowBorders(work, mbY);
+
+    for (let mbX = 0; mbX < mbWidth; mbX++) {
+      const modes = readModes(br, header, topModes.subarray(mbX * 4, mbX * 4 + 4), leftModes);
+      const context = topNonZero.subarray(mbX * 9, mbX * 9 + 9);
+      coeffs.fill(0);
+
+      if (!modes.skip) {
+        readResiduals(tokens, header, modes, context, leftNonZero, coeffs);
+      } else {
+        context.fill(0, 0, 8);
+        leftNonZero.fill(0, 0, 8);
+
+        if (!modes.subblockModes) {
+          context[8] = 0;
+          leftNonZero[8] = 0;
+        }
+      }
+
+      const segmentFilters = header.filters[modes.segment];
+      const params = segmentFilters[modes.subblockModes ? 1 : 0];
+
+      // Subblock edges are filtered if there are any, or any residual
+      filters.push({ ...params, inner: params.inner || coeffs.some(c => c !== 0) });
+
+      prepareBorders(work, mbX, mbY, mbWidth, topY, topU, topV);
+      predictMacroblock(work, modes, coeffs, mbX, mbY);
+
+      // Keep the bottom rows for the next macroblock row
+      for (let i = 0; i < 16; i++) {
+        topY[mbX * 16 + i] = work[Y_OFFSET + 15 * BPS + i];
+      }
+
+      for (let i = 0; i < 8; i++) {
+        topU[mbX * 8 + i] = work[U_OFFSET + 7 * BPS + i];
+        topV[mbX * 8 + i] = work[V_OFFSET + 7 * BPS + i];
+      }
+
+      copyOut(work, Y_OFFSET, y, mbX * 16, mbY * 16, 16);
+      copyOut(work, U_OFFSET, u, mbX * 8, mbY * 8, 8);
+      copyOut(work, V_OFFSET, v, mbX * 8, mbY * 8, 8);
+    }
+  }
+
+  if (header.filterType !== "none") {
+    for (let mbY = 0; mbY < mbHeight; mbY++) {
+      for (let mbX = 0; mbX < mbWidth; mbX++) {
+        const params = filters[mbY * mbWidth + mbX];
+
+        if (params.limit === 0) {
+          continue;
+        }
+
+        const left = mbX > 0;
+        const top = mbY > 0;
+
+        if (header.filterType === "simple") {
+          simpleFilter(y, mbY * 16 * y.stride + mbX * 16, params, left, top);
+        } else {
+          normalFilter(y, mbY * 16 * y.stride + mbX * 16, 16, params, left, top);
+
+          const chroma = mbY * 8 * u.stride + mbX * 8;
+
+          normalFilter(u, chroma, 8, params, left, top);
+          normalFilter(v, chroma, 8, params, left, top);
+        }
+      }
+    }
+  }
+
+  return { y, u, v };
+}
+
+/**
+ * Read a macroblock's segment, skip flag and prediction modes from the
+ * first partition.
+ */
+function readModes(
+  br: BoolDecoder,
+  header: FrameHeader,
+  topModes: Uint8Array,
+  leftModes: Uint8Array,
+): MacroblockModes {
+  let segment = 0;
+
+  if (header.segmentMapUpdated) {
+    const probs = header.segmentProbs;
+
+    segment = !br.readBool(probs[0]) ? br.readBool(probs[1]) : br.readBool(probs[2]) + 2;
+  }
+
+  const skip = header.skipProb !== null && br.readBool(header.skipProb) === 1;
+  let lumaMode = DC_PRED;
+  let subblockModes: number[] | null = null;
+
+  if (br.readBool(145)) {
+    lumaMode = br.readBool(156)
+      ? br.readBool(128)
+        ? TM_PRED
+        : HE_PRED
+      : br.readBool(163)
+        ? VE_PRED
+        : DC_PRED;
+
+    topModes.fill(lumaMode);
+    leftModes.fill(lumaMode);
+  } else {
+    subblockModes = [];
+
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        const probs = (topModes[x] * 10 + leftModes[y]) * 9;
+        let i = SUBBLOCK_MODE_TREE[br.readBool(BMODE_PROBS[probs])];
+
+        while (i > 0) {
+          i = SUBBLOCK_MODE_TREE[2 * i + br.readBool(BMODE_PROBS[probs + i])];
+        }
+
+        const mode = -i;
+
+        subblockModes.push(mode);
+        topModes[x] = mode;
+        leftModes[y] = mode;
+      }
+    }
+  }
+
+  const chromaMode = !br.readBool(142)
+    ? DC_PRED
+    : !br.readBool(114)
+      ? VE_PRED
+      : br.readBool(183)
+        ? TM_PRED
+        : HE_PRED;
+
+  return { segment, skip, lumaMode, subblockModes, chromaMode };
+}
+
+/**
+ * Read and dequantize a macroblock's coefficients: 16 luma blocks, then
+ * 4 U and 4 V blocks, 16 coefficients each.
+ *
+ * @param top - Non-zero flags of the blocks above (updated)
+ * @param left - Non-zero flags of the blocks to the left (updated)
+ */
+function readResiduals(
+  br: BoolDecoder,
+  header: FrameHeader,
+  modes: MacroblockModes,
+  top: Uint8Array,
+  left: Uint8Array,
+  coeffs: Int16Array,
+): void {
+  const q = header.quantizers[modes.segment];
+  const probs = header.coeffProbs;
+  let first = 0;
+  let lumaType = TYPE_Y_WITH_DC;
+
+  if (!modes.subblockModes) {
+    // Luma DCs come in their own block, Walsh-Hadamard transformed
+    const dc = new Int16Array(16);
+    const count = readCoefficients(br, probs, TYPE_Y2, top[8] + left[8], q.y2, 0, dc, 0);
+
+    top[8] = left[8] = count > 0 ? 1 : 0;
+    inverseWalshHadamard(dc, coeffs);
+    first = 1;
+    lumaType = TYPE_Y_AFTER_Y2;
+  }
+
+  for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 4; x++) {
+      const block = (y * 4 + x) * 16;
+      const count = readCoefficients(
+        br,
+        probs,
+        lumaType,
+        top[x] + left[y],
+        q.y1,
+        first,
+        coeffs,
+        block,
+      );
+
+      top[x] = left[y] = count > first ? 1 : 0;
+    }
+  }
+
+  // U blocks use contexts 4-5, V blocks 6-7
+  for (let plane = 0; plane < 2; plane++) {
+    for (let y = 0; y < 2; y++) {
+      for (let x = 0; x < 2; x++) {
+        const block = (16 + plane * 4 + y * 2 + x) * 16;
+        const t = 4 + plane * 2 + x;
+        const l = 4 + plane * 2 + y;
+        const count = readCoefficients(
+          br,
+          probs,
+          TYPE_CHROMA,
+          top[t] + left[l],
+          q.uv,
+          0,
+          coeffs,
+          block,
+        );
+
+        top[t] = left[l] = count > 0 ? 1 : 0;
+      }
+    }
+  }
+}
+
+/**
+ * Read the tokens of one block, storing dequantized coefficients in
+ * natural order.
+ *
+ * @param first - Position of the first coefficient (1 when the DC is in
+ *   the Y2 block)
+ * @returns One past the position of the last non-zero coefficient
+ */
+function readCoefficients(
+  br: BoolDecoder,
+  probs: Uint8Array,
+  type: number,
+  context: number,
+  quant: [number, number],
+  first: number,
+  out: Int16Array,
+  offset: number,
+): number {
+  const probOffset = (n: number, ctx: number): number =>
+    ((type * NUM_BANDS + BANDS[n]) * NUM_CONTEXTS + ctx) * NUM_PROBS;
+
+  let p = probOffset(first, context);
+
+  for (let n = first; n < 16; n++) {
+    // End of block
+    if (!br.readBool(probs[p])) {
+      return n;
+    }
+
+    // Runs of zeros
+    while (!br.readBool(probs[p + 1])) {
+      n++;
+
+      if (n === 16) {
+        return 16;
+      }
+
+      p = probOffset(n, 0);
+    }
+
+    let value: number;
+
+    if (!br.readBool(probs[p + 2])) {
+      value = 1;
+      p = probOffset(n + 1, 1);
+    } else {
+      value = readLargeValue(br, probs, p);
+      p = probOffset(n + 1, 2);
+    }
+
+    if (br.readBool(128)) {
+      value = -value;
+    }
+
+    out[offset + ZIGZAG[n]] = value * quant[n > 0 ? 1 : 0];
+  }
+
+  return 16;
+}
+
+/**
+ * Read a coefficient magnitude of 2 or more.
+ */
+function readLargeValue(br: BoolDecoder, probs: Uint8Array, p: number): number {
+  if (!br.readBool(probs[p + 3])) {
+    if (!br.readBool(probs[p + 4])) {
+      return 2;
+    }
+
+    return 3 + br.readBool(probs[p + 5]);
+  }
+
+  if (!br.readBool(probs[p + 6])) {
+    if (!br.readBool(probs[p + 7])) {
+      return 5 + br.readBool(159);
+    }
+
+    return 7 + 2 * br.readBool(165) + br.readBool(145);
+  }
+
+  const high = br.readBool(probs[p + 8]);
+  const low = br.readBool(probs[p + 9 + high]);
+  const category = 2 * high + low;
+  let value = 0;
+
+  for (const prob of CATEGORY_PROBS[category]) {
+    value = 2 * value + br.readBool(prob);
+  }
+
+  return value + 3 + (8 << category);
+}
+
+/**
+ * Set the work buffer's borders at the start of a macroblock row: the
+ * left column is 129, and so is the corner except in the first row,
+ * whose top row is 127 throughout.
+ */
+function initRowBorders(work: Uint8Array, mbY: number): void {
+  for (let j = 0; j < 16; j++) {
+    work[Y_OFFSET + j * BPS - 1] = 129;
+  }
+
+  for (let j = 0; j < 8; j++) {
+    work[U_OFFSET + j * BPS - 1] = 129;
+    work[V_OFFSET + j * BPS - 1] = 129;
+  }
+
+  if (mbY > 0) {
+    work[Y_OFFSET - BPS - 1] = 129;
+    work[U_OFFSET - BPS - 1] = 129;
+    work[V_OFFSET - BPS - 1] = 129;
+  } else {
+    work.fill(127, Y_OFFSET - BPS - 1, Y_OFFSET - BPS + 20);
+    work.fill(127, U_OFFSET - BPS - 1, U_OFFSET - BPS + 8);
+    work.fill(127, V_OFFSET - BPS - 1, V_OFFSET - BPS + 8);
+  }
+}
+
+/**
+ * Fill the work buffer's borders for a macroblock: the left column from
+ * the previous macroblock, the top row from the row above, and the four
+ * pixels above-right that subblock prediction reads.
+ */
+function prepareBorders(
+  work: Uint8Array,
+  mbX: number,
+  mbY: number,
+  mbWidth: number,
+  topY: Uint8Array,
+  topU: Uint8Array,
+  topV: Uint8Array,
+): void {
+  // Rotate the right columns (and the corner) of the previous macroblock
+  if (mbX > 0) {
+    for (let j = -1; j < 16; j++) {
+      work.copyWithin(Y_OFFSET + j * BPS - 4, Y_OFFSET + j * BPS + 12, Y_OFFSET + j * BPS + 16);
+    }
+
+    for (let j = -1; j < 8; j++) {
+      work.copyWithin(U_OFFSET + j * BPS - 4, U_OFFSET + j * BPS + 4, U_OFFSET + j * BPS + 8);
+      work.copyWithin(V_OFFSET + j * BPS - 4, V_OFFSET + j * BPS + 4, V_OFFSET + j * BPS + 8);
+    }
+  }
+
+  const topRight = Y_OFFSET - BPS + 16;
+
+  if (mbY > 0) {
+    work.set(topY.subarray(mbX * 16, mbX * 16 + 16), Y_OFFSET - BPS);
+    work.set(topU.subarray(mbX * 8, mbX * 8 + 8), U_OFFSET - BPS);
+    work.set(topV.subarray(mbX * 8, mbX * 8 + 8), V_OFFSET - BPS);
+
+    // Past the right edge, the last pixel above repeats
+    if (mbX >= mbWidth - 1) {
+      work.fill(topY[mbX * 16 + 15], topRight, topRight + 4);
+    } else {
+      work.set(topY.subarray(mbX * 16 + 16, mbX * 16 + 20), topRight);
+    }
+  }
+
+  // Subblocks on the right edge take their above-right pixels from the
+  // macroblock's above-right, whatever their row
+  for (let row = 4; row < 16; row += 4) {
+    work.copyWithin(topRight + row * BPS, topRight, topRight + 4);
+  }
+}
+
+/**
+ * Predict the macroblock in the work buffer and add the residual.
+ */
+function predictMacroblock(
+  work: Uint8Array,
+  modes: MacroblockModes,
+  coeffs: Int16Array,
+  mbX: number,
+  mbY: number,
+): void {
+  if (modes.subblockModes) {
+    for (let n = 0; n < 16; n++) {
+      const dst = Y_OFFSET + (n & 3) * 4 + (n >> 2) * 4 * BPS;
+
+      predictSubblock(work, dst, modes.subblockModes[n]);
+      inverseDct(coeffs, n * 16, work, dst);
+    }
+  } else {
+    predictBlock(work, Y_OFFSET, 16, modes.lumaMode, mbY > 0, mbX > 0);
+
+    for (let n = 0; n < 16; n++) {
+      inverseDct(coeffs, n * 16, work, Y_OFFSET + (n & 3) * 4 + (n >> 2) * 4 * BPS);
+    }
+  }
+
+  for (let plane = 0; plane < 2; plane++) {
+    const offset = plane === 0 ? U_OFFSET : V_OFFSET;
+
+    predictBlock(work, offset, 8, modes.chromaMode, mbY > 0, mbX > 0);
+
+    for (let n = 0; n < 4; n++) {
+      inverseDct(
+        coeffs,
+        (16 + plane * 4 + n) * 16,
+        work,
+        offset + (n & 1) * 4 + (n >> 1) * 4 * BPS,
+      );
+    }
+  }
+}
+
+function copyOut(
+  work: Uint8Array,
+  offset: number,
+  plane: Plane,
+  x: number,
+  y: number,
+  size: number,
+): void {
+  for (let j = 0; j < size; j++) {
+    const row = offset + j * BPS;
+
+    plane.data.set(work.subarray(row, row + size), (y + j) * plane.stride + x);
+  }
+}
+
+/**
+ * Inverse Walsh-Hadamard transform of the Y2 block, giving the DC of each
+ * of the 16 luma blocks.
+ */
+function inverseWalshHadamard(input: Int16Array, coeffs: Int16Array): void {
+  const tmp = new Int32Array(16);
+
+  for (let i = 0; i < 4; i++) {
+    const a0 = input[i] + input[12 + i];
+    const a1 = input[4 + i] + input[8 + i];
+    const a2 = input[4 + i] - input[8 + i];
+    const a3 = input[i] - input[12 + i];
+
+    tmp[i] = a0 + a1;
+    tmp[8 + i] = a0 - a1;
+    tmp[4 + i] = a3 + a2;
+    tmp[12 + i] = a3 - a2;
+  }
+
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i * 4] + 3;
+    const a0 = dc + tmp[i * 4 + 3];
+    const a1 = tmp[i * 4 + 1] + tmp[i * 4 + 2];
+    const a2 = tmp[i * 4 + 1] - tmp[i * 4 + 2];
+    const a3 = dc - tmp[i * 4 + 3];
+
+    coeffs[i * 4 * 16] = (a0 + a1) >> 3;
+    coeffs[(i * 4 + 1) * 16] = (a3 + a2) >> 3;
+    coeffs[(i * 4 + 2) * 16] = (a0 - a1) >> 3;
+    coeffs[(i * 4 + 3) * 16] = (a3 - a2) >> 3;
+  }
+}
+
+// Fixed-point multipliers of the inverse DCT: sqrt(2) * cos(pi/8) - 1
+// and sqrt(2) * sin(pi/8), in 16 bits
+const mul1 = (a: number): number => ((a * 20091) >> 16) + a;
+const mul2 = (a: number): number => (a * 35468) >> 16;
+
+/**
+ * Inverse DCT of a 4x4 block, added to the prediction at `dst`. Blocks of
+ * zeros are skipped.
+ */
+function inverseDct(coeffs: Int16Array, offset: number, work: Uint8Array, dst: number): void {
+  let any = false;
+
+  for (let i = 0; i < 16; i++) {
+    if (coeffs[offset + i] !== 0) {
+      any = true;
+      break;
+    }
+  }
+
+  if (!any) {
+    return;
+  }
+
+  const tmp = new Int32Array(16);
+
+  // Vertical pass
+  for (let i = 0; i < 4; i++) {
+    const in0 = coeffs[offset + i];
+    const in4 = coeffs[offset + 4 + i];
+    const in8 = coeffs[offset + 8 + i];
+    const in12 = coeffs[offset + 12 + i];
+    const a = in0 + in8;
+    const b = in0 - in8;
+    const c = mul2(in4) - mul1(in12);
+    const d = mul1(in4) + mul2(in12);
+
+    tmp[i * 4] = a + d;
+    tmp[i * 4 + 1] = b + c;
+    tmp[i * 4 + 2] = b - c;
+    tmp[i * 4 + 3] = a - d;
+  }
+
+  // Horizontal pass
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i] + 4;
+    const a = dc + tmp[8 + i];
+    const b = dc - tmp[8 + i];
+    const c = mul2(tmp[4 + i]) - mul1(tmp[12 + i]);
+    const d = mul1(tmp[4 + i]) + mul2(tmp[12 + i]);
+    const row = dst + i * BPS;
+
+    work[row] = clamp255(work[row] + ((a + d) >> 3));
+    work[row + 1] = clamp255(work[row + 1] + ((b + c) >> 3));
+    work[row + 2] = clamp255(work[row + 2] + ((b - c) >> 3));
+    work[row + 3] = clamp255(work[row + 3] + ((a - d) >> 3));
+  }
+}
+
+function clip(value: number, max: number): number {
+  return value < 0 ? 0 : value > max ? max : value;
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
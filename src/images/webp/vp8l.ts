@@ -0,0 +1,736 @@
+/**
+ * VP8L: WebP's lossless format.
+ *
+ * Pixels are ARGB, coded with prefix (Huffman) codes, LZ77-style backward
+ * references and a cache of recent colours. Up to four reversible
+ * transforms (spatial prediction, colour decorrelation, subtract-green and
+ * palette indexing) are undone afterwards, last read first.
+ */
+
+/**
+ * A decoded lossless image.
+ */
+export interface Vp8lImage {
+  width: number;
+  height: number;
+
+  /** Pixels as 0xAARRGGBB, rows top to bottom */
+  pixels: Uint32Array;
+}
+
+const SIGNATURE = 0x2f;
+
+// Transform types
+const PREDICTOR = 0;
+const CROSS_COLOR = 1;
+const SUBTRACT_GREEN = 2;
+const COLOR_INDEXING = 3;
+
+// Literal, length prefix and distance prefix symbols
+const NUM_LITERALS = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+
+// Order in which code length code lengths are stored
+// prettier-ignore
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/**
+ * Short distances, as (dy << 4) | (8 - dx), for distance codes 1-120.
+ */
+// prettier-ignore
+const DISTANCE_MAP = [
+  0x18, 0x07, 0x17, 0x19, 0x28, 0x06, 0x27, 0x29, 0x16, 0x1a, 0x26, 0x2a, 0x38, 0x05, 0x37, 0x39,
+  0x15, 0x1b, 0x36, 0x3a, 0x25, 0x2b, 0x48, 0x04, 0x47, 0x49, 0x14, 0x1c, 0x35, 0x3b, 0x46, 0x4a,
+  0x24, 0x2c, 0x58, 0x45, 0x4b, 0x34, 0x3c, 0x03, 0x57, 0x59, 0x13, 0x1d, 0x56, 0x5a, 0x23, 0x2d,
+  0x44, 0x4c, 0x55, 0x5b, 0x33, 0x3d, 0x68, 0x02, 0x67, 0x69, 0x12, 0x1e, 0x66, 0x6a, 0x22, 0x2e,
+  0x54, 0x5c, 0x43, 0x4d, 0x65, 0x6b, 0x32, 0x3e, 0x78, 0x01, 0x77, 0x79, 0x53, 0x5d, 0x11, 0x1f,
+  0x64, 0x6c, 0x42, 0x4e, 0x76, 0x7a, 0x21, 0x2f, 0x75, 0x7b, 0x31, 0x3f, 0x63, 0x6d, 0x52, 0x5e,
+  0x00, 0x74, 0x7c, 0x41, 0x4f, 0x10, 0x20, 0x62, 0x6e, 0x30, 0x73, 0x7d, 0x51, 0x5f, 0x40, 0x72,
+  0x7e, 0x61, 0x6f, 0x50, 0x71, 0x7f, 0x60, 0x70,
+];
+
+// Prefix codes are looked up 8 bits at a time; longer codes are walked
+const LOOKUP_BITS = 8;
+
+/**
+ * Decode a VP8L bitstream (the payload of a "VP8L" chunk).
+ */
+export function decodeVp8l(data: Uint8Array): Vp8lImage {
+  if (data.length < 5 || data[0] !== SIGNATURE) {
+    throw new Error("VP8L: Missing signature");
+  }
+
+  const reader = new BitReader(data, 1);
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+
+  reader.readBits(1); // Alpha hint
+
+  if (reader.readBits(3) !== 0) {
+    throw new Error("VP8L: Unsupported version");
+  }
+
+  return { width, height, pixels: decodeImageStream(reader, width, height, true) };
+}
+
+/**
+ * Decode a headerless VP8L image stream of a known size, as in the
+ * lossless compressed alpha of an "ALPH" chunk.
+ */
+export function decodeVp8lStream(data: Uint8Array, width: number, height: number): Uint32Array {
+  return decodeImageStream(new BitReader(data, 0), width, height, true);
+}
+
+/**
+ * Reads bits least significant first.
+ */
+class BitReader {
+  private value = 0;
+  private count = 0;
+
+  constructor(
+    private readonly data: Uint8Array,
+    private pos: number,
+  ) {}
+
+  /** Read up to 24 bits. */
+  readBits(n: number): number {
+    const bits = this.peek(n);
+
+    this.skip(n);
+
+    return bits;
+  }
+
+  /** Look at the next `n` (up to 24) bits without reading them. */
+  peek(n: number): number {
+    while (this.count < n) {
+      if (this.pos >= this.data.length + 4) {
+        throw new Error("VP8L: Truncated data");
+      }
+
+      // Past the end, read zeros: the last code may not need them
+      this.value |= (this.data[this.pos++] ?? 0) << this.count;
+      this.count += 8;
+    }
+
+    return this.value & ((1 << n) - 1);
+  }
+
+  skip(n: number): void {
+    this.value >>>= n;
+    this.count -= n;
+  }
+}
+
+/**
+ * A canonical prefix code.
+ */
+class PrefixCode {
+  /** The only symbol, for codes with one symbol (which take no bits) */
+  private readonly single: number = -1;
+
+  /** `(symbol << 4) | length` by the next 8 bits, or -1 for longer codes */
+  private readonly lookup = new Int32Array(1 << LOOKUP_BITS).fill(-1);
+
+  /** Number of codes of each length */
+  private readonly counts = new Uint16Array(16);
+
+  /** Symbols in code order */
+  private readonly symbols: Uint16Array;
+
+  constructor(lengths: ArrayLike<number>) {
+    let used = 0;
+
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+      if (lengths[symbol] > 0) {
+        this.counts[lengths[symbol]]++;
+        this.single = symbol;
+        used++;
+      }
+    }
+
+    if (used === 0) {
+      throw new Error("VP8L: Empty prefix code");
+    }
+
+    this.symbols = new Uint16Array(used);
+
+    if (used === 1) {
+      return;
+    }
+
+    this.single = -1;
+
+    // First code and position in `symbols` of each length
+    const next = new Uint32Array(16);
+    const offsets = new Uint16Array(16);
+
+    for (let length = 1; length < 16; length++) {
+      next[length] = (next[length - 1] + this.counts[length - 1]) << 1;
+      offsets[length] = offsets[length - 1] + this.counts[length - 1];
+    }
+
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+      const length = lengths[symbol];
+
+      if (length === 0) {
+        continue;
+      }
+
+      const code = next[length]++;
+
+      this.symbols[offsets[length]++] = symbol;
+
+      if (length <= LOOKUP_BITS) {
+        // Codes are stored most significant bit first
+        let reversed = 0;
+
+        for (let i = 0; i < length; i++) {
+          reversed |= ((code >> i) & 1) << (length - 1 - i);
+        }
+
+        for (let i = reversed; i < 1 << LOOKUP_BITS; i += 1 << length) {
+          this.lookup[i] = (symbol << 4) | length;
+        }
+      }
+    }
+  }
+
+  read(reader: BitReader): number {
+    if (this.single >= 0) {
+      return this.single;
+    }
+
+    const entry = this.lookup[reader.peek(LOOKUP_BITS)];
+
+    if (entry >= 0) {
+      reader.skip(entry & 15);
+
+      return entry >> 4;
+    }
+
+    // Walk the code a bit at a time
+    const bits = reader.peek(15);
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let length = 1; length < 16; length++) {
+      code |= (bits >> (length - 1)) & 1;
+
+      const count = this.counts[length];
+
+      if (code - first < count) {
+        reader.skip(length);
+
+        return this.symbols[index + code - first];
+      }
+
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+
+    throw new Error("VP8L: Invalid prefix code");
+  }
+}
+
+/**
+ * The five prefix codes used together: green, length and cache symbols;
+ * red; blue; alpha; distance.
+ */
+type PrefixGroup = [PrefixCode, PrefixCode, PrefixCode, PrefixCode, PrefixCode];
+
+/**
+ * A transform to undo, with the image width it was read at.
+ */
+interface Transform {
+  type: number;
+  width: number;
+  bits: number;
+  data: Uint32Array;
+}
+
+/**
+ * Decode an image stream: transforms (main image only), colour cache,
+ * prefix codes and pixels.
+ */
+function decodeImageStream(
+  reader: BitReader,
+  width: number,
+  height: number,
+  isMain: boolean,
+): Uint32Array {
+  const transforms: Transform[] = [];
+  let codedWidth = width;
+
+  while (isMain && reader.readBits(1)) {
+    const type = reader.readBits(2);
+
+    if (transforms.some(t => t.type === type)) {
+      throw new Error("VP8L: Repeated transform");
+    }
+
+    if (type === PREDICTOR || type === CROSS_COLOR) {
+      const bits = reader.readBits(3) + 2;
+      const data = decodeImageStream(
+        reader,
+        subSampleSize(codedWidth, bits),
+        subSampleSize(height, bits),
+        false,
+      );
+
+      transforms.push({ type, width: codedWidth, bits, data });
+    } else if (type === SUBTRACT_GREEN) {
+      transforms.push({ type, width: codedWidth, bits: 0, data: new Uint32Array(0) });
+    } else if (type === COLOR_INDEXING) {
+      const size = reader.readBits(8) + 1;
+      const bits = size > 16 ? 0 : size > 4 ? 1 : size > 2 ? 2 : 3;
+      const palette = decodeImageStream(reader, size, 1, false);
+
+      // Palette entries are stored as differences from the previous one
+      for (let i = 1; i < size; i++) {
+        palette[i] = addPixels(palette[i], palette[i - 1]);
+      }
+
+      transforms.push({ type, width: codedWidth, bits, data: palette });
+      codedWidth = subSampleSize(codedWidth, bits);
+    }
+  }
+
+  let cacheBits = 0;
+
+  if (reader.readBits(1)) {
+    cacheBits = reader.readBits(4);
+
+    if (cacheBits < 1 || cacheBits > 11) {
+      throw new Error(`VP8L: Invalid color cache size ${cacheBits}`);
+    }
+  }
+
+  // The main image may use different prefix codes in each block
+  let groupImage: Uint32Array | null = null;
+  let groupBits = 0;
+  let groupCount = 1;
+
+  if (isMain && reader.readBits(1)) {
+    groupBits = reader.readBits(3) + 2;
+    groupImage = decodeImageStream(
+      reader,
+      subSampleSize(codedWidth, groupBits),
+      subSampleSize(height, groupBits),
+      false,
+    );
+
+    for (let i = 0; i < groupImage.length; i++) {
+      groupImage[i] = (groupImage[i] >> 8) & 0xffff;
+      groupCount = Math.max(groupCount, groupImage[i] + 1);
+    }
+  }
+
+  const groups: PrefixGroup[] = [];
+  const greenSize = NUM_LITERALS + NUM_LENGTH_CODES + (cacheBits > 0 ? 1 << cacheBits : 0);
+
+  for (let i = 0; i < groupCount; i++) {
+    groups.push([
+      readPrefixCode(reader, greenSize),
+      readPrefixCode(reader, NUM_LITERALS),
+      readPrefixCode(reader, NUM_LITERALS),
+      readPrefixCode(reader, NUM_LITERALS),
+      readPrefixCode(reader, NUM_DISTANCE_CODES),
+    ]);
+  }
+
+  let pixels = decodePixels(reader, codedWidth, height, groups, groupImage, groupBits, cacheBits);
+
+  for (let i = transforms.length - 1; i >= 0; i--) {
+    pixels = undoTransform(transforms[i], pixels, height);
+  }
+
+  return pixels;
+}
+
+/**
+ * Read a prefix code's code lengths, simply listed or themselves
+ * prefix-coded, and build it.
+ */
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixCode {
+  const lengths = new Uint8Array(alphabetSize);
+
+  if (reader.readBits(1)) {
+    // One or two symbols, with 1-bit codes
+    const count = reader.readBits(1) + 1;
+    const first = reader.readBits(reader.readBits(1) ? 8 : 1);
+
+    lengths[first] = 1;
+
+    if (count === 2) {
+      lengths[reader.readBits(8)] = 1;
+    }
+
+    return new PrefixCode(lengths);
+  }
+
+  const lengthCodeLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  const stored = reader.readBits(4) + 4;
+
+  for (let i = 0; i < stored; i++) {
+    lengthCodeLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+
+  const lengthCode = new PrefixCode(lengthCodeLengths);
+  let remaining = alphabetSize;
+
+  if (reader.readBits(1)) {
+    remaining = 2 + reader.readBits(2 + 2 * reader.readBits(3));
+
+    if (remaining > alphabetSize) {
+      throw new Error("VP8L: Invalid code length count");
+    }
+  }
+
+  let previous = 8;
+  let symbol = 0;
+
+  while (symbol < alphabetSize && remaining-- > 0) {
+    const code = lengthCode.read(reader);
+
+    if (code < 16) {
+      lengths[symbol++] = code;
+
+      if (code !== 0) {
+        previous = code;
+      }
+
+      continue;
+    }
+
+    // 16: repeat the previous non-zero length; 17, 18: zeros
+    const repeat =
+      code === 16
+        ? 3 + reader.readBits(2)
+        : code === 17
+          ? 3 + reader.readBits(3)
+          : 11 + reader.readBits(7);
+
+    if (symbol + repeat > alphabetSize) {
+      throw new Error("VP8L: Invalid code lengths");
+    }
+
+    lengths.fill(code === 16 ? previous : 0, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+
+  return new PrefixCode(lengths);
+}
+
+/**
+ * Decode entropy-coded pixels: literals, backward references and colour
+ * cache hits.
+ */
+function decodePixels(
+  reader: BitReader,
+  width: number,
+  height: number,
+  groups: PrefixGroup[],
+  groupImage: Uint32Array | null,
+  groupBits: number,
+  cacheBits: number,
+): Uint32Array {
+  const total = width * height;
+  const pixels = new Uint32Array(total);
+  const cache = cacheBits > 0 ? new Uint32Array(1 << cacheBits) : null;
+  const groupWidth = subSampleSize(width, groupBits);
+  const cacheShift = 32 - cacheBits;
+  let cached = 0;
+  let pos = 0;
+
+  while (pos < total) {
+    const x = pos % width;
+    const y = (pos - x) / width;
+    const group =
+      groups[groupImage ? groupImage[(y >> groupBits) * groupWidth + (x >> groupBits)] : 0];
+    const symbol = group[0].read(reader);
+
+    if (symbol < NUM_LITERALS) {
+      const red = group[1].read(reader);
+      const blue = group[2].read(reader);
+      const alpha = group[3].read(reader);
+
+      pixels[pos++] = (alpha << 24) | (red << 16) | (symbol << 8) | blue;
+    } else if (symbol < NUM_LITERALS + NUM_LENGTH_CODES) {
+      const length = readPrefixedValue(reader, symbol - NUM_LITERALS);
+      const distance = toDistance(width, readPrefixedValue(reader, group[4].read(reader)));
+
+      if (distance > pos || length > total - pos) {
+        throw new Error("VP8L: Invalid backward reference");
+      }
+
+      for (let i = 0; i < length; i++, pos++) {
+        pixels[pos] = pixels[pos - distance];
+      }
+    } else {
+      if (!cache) {
+        throw new Error("VP8L: Color cache symbol without a cache");
+      }
+
+      // Bring the cache up to date first
+      for (; cached < pos; cached++) {
+        cache[Math.imul(pixels[cached], 0x1e35a7bd) >>> cacheShift] = pixels[cached];
+      }
+
+      pixels[pos++] = cache[symbol - NUM_LITERALS - NUM_LENGTH_CODES];
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Lengths and distances are coded as a prefix symbol plus extra bits.
+ */
+function readPrefixedValue(reader: BitReader, prefix: number): number {
+  if (prefix < 4) {
+    return prefix + 1;
+  }
+
+  const extraBits = (prefix - 2) >> 1;
+  const offset = (2 + (prefix & 1)) << extraBits;
+
+  return offset + reader.readBits(extraBits) + 1;
+}
+
+/**
+ * Distance codes 1-120 are nearby pixels in two dimensions; larger codes
+ * are linear distances plus 120.
+ */
+function toDistance(width: number, code: number): number {
+  if (code > DISTANCE_MAP.length) {
+    return code - DISTANCE_MAP.length;
+  }
+
+  const entry = DISTANCE_MAP[code - 1];
+  const distance = (entry >> 4) * width + 8 - (entry & 15);
+
+  return Math.max(1, distance);
+}
+
+/**
+ * Undo a transform, returning pixels at the width it was read at.
+ */
+function undoTransform(transform: Transform, pixels: Uint32Array, height: number): Uint32Array {
+  const { width, bits, data } = transform;
+
+  switch (transform.type) {
+    case PREDICTOR:
+      undoPrediction(pixels, width, height, bits, data);
+
+      return pixels;
+
+    case CROSS_COLOR: {
+      const blocksPerRow = subSampleSize(width, bits);
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const element = data[(y >> bits) * blocksPerRow + (x >> bits)];
+          const i = y * width + x;
+          const argb = pixels[i];
+          const green = (argb << 16) >> 24;
+          let red = (argb >> 16) & 0xff;
+          let blue = argb & 0xff;
+
+          red = (red + colorDelta(element, green)) & 0xff;
+          blue = (blue + colorDelta(element >> 8, green)) & 0xff;
+          blue = (blue + colorDelta(element >> 16, (red << 24) >> 24)) & 0xff;
+          pixels[i] = (argb & 0xff00ff00) | (red << 16) | blue;
+        }
+      }
+
+      return pixels;
+    }
+
+    case SUBTRACT_GREEN:
+      for (let i = 0; i < pixels.length; i++) {
+        const argb = pixels[i];
+        const green = (argb >> 8) & 0xff;
+
+        pixels[i] = addPixels(argb, (green << 16) | green);
+      }
+
+      return pixels;
+
+    default: {
+      // Colour indexing: pixels may pack several indices into green
+      const packedWidth = subSampleSize(width, bits);
+      const indexBits = 8 >> bits;
+      const mask = (1 << indexBits) - 1;
+      const output = new Uint32Array(width * height);
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const packed = (pixels[y * packedWidth + (x >> bits)] >> 8) & 0xff;
+          const index = (packed >> ((x & ((1 << bits) - 1)) * indexBits)) & mask;
+
+          // Indices past the palette are transparent black
+          output[y * width + x] = index < data.length ? data[index] : 0;
+        }
+      }
+
+      return output;
+    }
+  }
+}
+
+/**
+ * Undo spatial prediction. The first pixel is predicted as opaque black,
+ * the rest of the first row from the left and the first column from above;
+ * other pixels by their block's mode.
+ */
+function undoPrediction(
+  pixels: Uint32Array,
+  width: number,
+  height: number,
+  bits: number,
+  modes: Uint32Array,
+): void {
+  const blocksPerRow = subSampleSize(width, bits);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let prediction: number;
+
+      if (y === 0) {
+        prediction = x === 0 ? 0xff000000 : pixels[i - 1];
+      } else if (x === 0) {
+        prediction = pixels[i - width];
+      } else {
+        const mode = (modes[(y >> bits) * blocksPerRow + (x >> bits)] >> 8) & 0xf;
+
+        // The top-right of the last column is the first pixel of this row
+        prediction = predict(
+          mode,
+          pixels[i - 1],
+          pixels[i - width],
+          pixels[i - width + 1],
+          pixels[i - width - 1],
+        );
+      }
+
+      pixels[i] = addPixels(pixels[i], prediction);
+    }
+  }
+}
+
+/**
+ * Predict a pixel from its left, top, top-right and top-left neighbours.
+ */
+function predict(
+  mode: number,
+  left: number,
+  top: number,
+  topRight: number,
+  topLeft: number,
+): number {
+  switch (mode) {
+    case 1:
+      return left;
+    case 2:
+      return top;
+    case 3:
+      return topRight;
+    case 4:
+      return topLeft;
+    case 5:
+      return average(average(left, topRight), top);
+    case 6:
+      return average(left, topLeft);
+    case 7:
+      return average(left, top);
+    case 8:
+      return average(topLeft, top);
+    case 9:
+      return average(top, topRight);
+    case 10:
+      return average(average(left, topLeft), average(top, topRight));
+    case 11:
+      return select(left, top, topLeft);
+    case 12:
+      return mapChannels(c => clamp(channel(left, c) + channel(top, c) - channel(topLeft, c)));
+    case 13: {
+      const mean = average(left, top);
+
+      // C-style division: rounds toward zero
+      return mapChannels(c => {
+        const a = channel(mean, c);
+
+        return clamp(a + Math.trunc((a - channel(topLeft, c)) / 2));
+      });
+    }
+    default:
+      // Mode 0, and the unused modes 14 and 15
+      return 0xff000000;
+  }
+}
+
+/**
+ * Whichever of left and top is closer to the gradient estimate
+ * left + top - top-left.
+ */
+function select(left: number, top: number, topLeft: number): number {
+  let toLeft = 0;
+  let toTop = 0;
+
+  for (let c = 0; c < 32; c += 8) {
+    toLeft += Math.abs(channel(top, c) - channel(topLeft, c));
+    toTop += Math.abs(channel(left, c) - channel(topLeft, c));
+  }
+
+  return toLeft < toTop ? left : top;
+}
+
+/**
+ * Per-channel floor average.
+ */
+function average(a: number, b: number): number {
+  return ((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0;
+}
+
+/**
+ * Per-channel sum, modulo 256.
+ */
+function addPixels(a: number, b: number): number {
+  const alphaGreen = ((a & 0xff00ff00) + (b & 0xff00ff00)) & 0xff00ff00;
+  const redBlue = ((a & 0x00ff00ff) + (b & 0x00ff00ff)) & 0x00ff00ff;
+
+  return (alphaGreen | redBlue) >>> 0;
+}
+
+/**
+ * Colour transform delta: a signed 3.5 fixed-point multiplier (the low byte
+ * of `multiplier`) times a signed channel value.
+ */
+function colorDelta(multiplier: number, value: number): number {
+  return (((multiplier << 24) >> 24) * value) >> 5;
+}
+
+function channel(argb: number, shift: number): number {
+  return (argb >>> shift) & 0xff;
+}
+
+function mapChannels(fn: (shift: number) => number): number {
+  return ((fn(24) << 24) | (fn(16) << 16) | (fn(8) << 8) | fn(0)) >>> 0;
+}
+
+function clamp(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+/**
+ * Size of a subsampled image (transform data, prefix code groups).
+ */
+function subSampleSize(size: number, bits: number): number {
+  return (size + (1 << bits) - 1) >> bits;
+}
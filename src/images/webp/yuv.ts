@@ -0,0 +1,141 @@
+/**
+ * YUV 4:2:0 to RGB conversion for VP8 frames.
+ *
+ * Chroma is upsampled by interpolating between the four nearest samples
+ * (libwebp's "fancy upsampling"), then converted with the BT.601
+ * studio-swing matrix in 14-bit fixed point, so output matches libwebp.
+ */
+
+/**
+ * Decoded planes of a VP8 frame.
+ */
+export interface YuvImage {
+  width: number;
+  height: number;
+  y: Uint8Array;
+  u: Uint8Array;
+  v: Uint8Array;
+  yStride: number;
+  uvStride: number;
+}
+
+/**
+ * Convert planes to interleaved 8-bit RGB.
+ */
+export function yuvToRgb(image: YuvImage): Uint8Array {
+  const { width, height } = image;
+  const rgb = new Uint8Array(width * height * 3);
+
+  // The first and last rows mirror the chroma samples at the edge
+  upsampleRows(image, rgb, 0, -1, 0, 0);
+
+  for (let y = 1; y + 1 < height; y += 2) {
+    const chroma = (y - 1) >> 1;
+
+    upsampleRows(image, rgb, y, y + 1, chroma, chroma + 1);
+  }
+
+  if (height % 2 === 0 && height > 1) {
+    const last = (height >> 1) - 1;
+
+    upsampleRows(image, rgb, height - 1, -1, last, last);
+  }
+
+  return rgb;
+}
+
+/**
+ * Upsample and convert a pair of luma rows lying between two chroma rows.
+ *
+ * @param topRow - Luma row nearer the upper chroma row
+ * @param bottomRow - Luma row nearer the lower chroma row, or -1
+ * @param topChroma - Upper chroma row
+ * @param bottomChroma - Lower chroma row
+ */
+function upsampleRows(
+  image: YuvImage,
+  rgb: Uint8Array,
+  topRow: number,
+  bottomRow: number,
+  topChroma: number,
+  bottomChroma: number,
+): void {
+  const { width, yStride, uvStride } = image;
+  const top = topChroma * uvStride;
+  const bottom = bottomChroma * uvStride;
+
+  const put = (row: number, x: number, u: number, v: number): void => {
+    if (row >= 0) {
+      writeRgb(rgb, (row * width + x) * 3, image.y[row * yStride + x], u, v);
+    }
+  };
+
+  // Edge columns interpolate vertically only
+  const edge = (x: number, column: number): void => {
+    const [tu, tv, bu, bv] = [
+      image.u[top + column],
+      image.v[top + column],
+      image.u[bottom + column],
+      image.v[bottom + column],
+    ];
+
+    put(topRow, x, (3 * tu + bu + 2) >> 2, (3 * tv + bv + 2) >> 2);
+    put(bottomRow, x, (3 * bu + tu + 2) >> 2, (3 * bv + tv + 2) >> 2);
+  };
+
+  edge(0, 0);
+
+  const pairs = (width - 1) >> 1;
+
+  for (let x = 1; x <= pairs; x++) {
+    const u = interpolate(image.u, top + x, bottom + x);
+    const v = interpolate(image.v, top + x, bottom + x);
+
+    put(topRow, 2 * x - 1, u[0], v[0]);
+    put(topRow, 2 * x, u[1], v[1]);
+    put(bottomRow, 2 * x - 1, u[2], v[2]);
+    put(bottomRow, 2 * x, u[3], v[3]);
+  }
+
+  if (width % 2 === 0) {
+    edge(width - 1, pairs);
+  }
+}
+
+/**
+ * Interpolate the 2x2 chroma samples ending at `top` and `bottom` to the
+ * four pixels between them: upper left, upper right, lower left, lower
+ * right.
+ */
+function interpolate(plane: Uint8Array, top: number, bottom: number): number[] {
+  const topLeft = plane[top - 1];
+  const topRight = plane[top];
+  const bottomLeft = plane[bottom - 1];
+  const bottomRight = plane[bottom];
+  const sum = topLeft + topRight + bottomLeft + bottomRight + 8;
+  const diagonal12 = (sum + 2 * (topRight + bottomLeft)) >> 3;
+  const diagonal03 = (sum + 2 * (topLeft + bottomRight)) >> 3;
+
+  return [
+    (diagonal12 + topLeft) >> 1,
+    (diagonal03 + topRight) >> 1,
+    (diagonal03 + bottomLeft) >> 1,
+    (diagonal12 + bottomRight) >> 1,
+  ];
+}
+
+function writeRgb(rgb: Uint8Array, offset: number, y: number, u: number, v: number): void {
+  const luma = multHi(y, 19077);
+
+  rgb[offset] = clip8(luma + multHi(v, 26149) - 14234);
+  rgb[offset + 1] = clip8(luma - multHi(u, 6419) - multHi(v, 13320) + 8708);
+  rgb[offset + 2] = clip8(luma + multHi(u, 33050) - 17685);
+}
+
+function multHi(value: number, coefficient: number): number {
+  return (value * coefficient) >> 8;
+}
+
+function clip8(value: number): number {
+  return value < 0 ? 0 : value > 16383 ? 255 : value >> 6;
+}
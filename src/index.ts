@@ -13,6 +13,9 @@ export { version } from "../package.json";
 export {
   type CopyPagesOptions,
   type DocumentMetadata,
+  type EmbedBilevelImageOptions,
+  type EmbedTiffOptions,
+  type ExtractImagesOptions,
   type ExtractPagesOptions,
   type FlattenAllOptions,
   type FlattenAllResult,
@@ -23,6 +26,11 @@ export {
   type SetTitleOptions,
   type TrappedStatus,
 } from "./api/pdf";
+export type {
+  CompressionFilter,
+  CompressionPolicy,
+  StreamCompression,
+} from "./writer/stream-compression";
 export { PDFEmbeddedPage } from "./api/pdf-embedded-page";
 export {
   type CheckboxOptions,
@@ -62,6 +70,7 @@ export type {
   TextField,
 } from "./document/forms/fields";
 export type { FlattenOptions } from "./document/forms/form-flattener";
+export type { RevisionDiff, RevisionInfo } from "./document/revisions";
 export {
   // Color presets
   black,
@@ -95,8 +104,17 @@ export type {
   PermissionOptions,
   Permissions,
   ProtectionOptions,
+  ProtectionRecipient,
+  PublicKeySubFilterOption,
   SecurityInfo,
 } from "./api/pdf-security";
+export type {
+  CertificateCredential,
+  CredentialInput,
+  DecryptionCredential,
+  P12Credential,
+  PasswordCredential,
+} from "./security/credentials";
 export { PermissionDeniedError, SecurityError } from "./security/errors";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -104,22 +122,45 @@ export { PermissionDeniedError, SecurityError } from "./security/errors";
 // ─────────────────────────────────────────────────────────────────────────────
 
 export type {
+  AddLtvDataOptions,
+  CertificateRevocationStatus,
+  CertificateSeedValues,
+  CertificateValidationFailure,
+  CertificateValidationOptions,
+  CertificateValidationResult,
+  CompleteSignatureOptions,
   DigestAlgorithm,
+  DocMdpPermission,
+  DocumentTimestampOptions,
+  EmbeddedValidationData,
   HttpTimestampAuthorityOptions,
   KeyType,
   PAdESLevel,
+  PreparedSignature,
+  PrepareSigningOptions,
   RevocationProvider,
   SignatureAlgorithm,
+  SignatureAppearance,
+  SignatureFieldLock,
+  SignatureInfo,
+  SignatureSeedValues,
+  SignatureVerificationIssue,
+  SignatureVerificationOptions,
+  SignatureVerificationResult,
   Signer,
+  SignerIdentity,
+  SigningState,
   SignOptions,
   SignResult,
   SignWarning,
   SubFilter,
   TimestampAuthority,
+  TimestampVerificationResult,
 } from "./signatures";
 export {
   CertificateChainError,
   CryptoKeySigner,
+  DefaultRevocationProvider,
   GoogleKmsSigner,
   HttpTimestampAuthority,
   KmsSignerError,
@@ -129,6 +170,7 @@ export {
   SignatureError,
   SignerError,
   TimestampError,
+  validateCertificateChain,
 } from "./signatures";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -158,6 +200,10 @@ export { Standard14Font } from "./fonts/standard-14-font";
 // Images
 // ─────────────────────────────────────────────────────────────────────────────
 
+export { ExtractedImage } from "./images/extracted-image";
+export type { RgbaImage } from "./images/image-decoder";
+export type { ExportedImage } from "./images/image-export";
+export type { OptimizeImagesOptions, OptimizeImagesResult } from "./images/image-optimizer";
 export { PDFImage } from "./images/pdf-image";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,250 @@
+import { PDF } from "#src/api/pdf";
+import { parsePng } from "#src/images/png";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+const encoder = new TextEncoder();
+
+/**
+ * A 2x1 gray image XObject: black, white.
+ */
+function grayImage(pdf: PDF) {
+  return pdf.register(
+    PdfStream.fromDict(
+      {
+        Type: PdfName.of("XObject"),
+        Subtype: PdfName.of("Image"),
+        Width: PdfNumber.of(2),
+        Height: PdfNumber.of(1),
+        ColorSpace: PdfName.of("DeviceGray"),
+        BitsPerComponent: PdfNumber.of(8),
+      },
+      new Uint8Array([0, 255]),
+    ),
+  );
+}
+
+function setContent(pdf: PDF, page: PdfDict, content: string, resources: PdfDict): void {
+  page.set("Contents", pdf.register(PdfStream.fromDict({}, encoder.encode(content))));
+  page.set("Resources", resources);
+}
+
+describe("Image Extraction Integration", () => {
+  describe("getImages", () => {
+    it("finds drawn images with their placement", async () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage({ width: 612, height: 792 });
+      const jpegBytes = await loadFixture("images", "red-square.jpg");
+      const jpeg = pdf.embedJpeg(jpegBytes);
+      const png = pdf.embedPng(await loadFixture("images", "green-circle-alpha.png"));
+
+      page.drawImage(jpeg, { x: 50, y: 600, width: 100, height: 50 });
+      page.drawImage(png, { x: 200, y: 100, width: 64, height: 64 });
+
+      const images = page.getImages();
+
+      expect(images).toHaveLength(2);
+
+      const [first, second] = images;
+
+      expect(first.ref).toBe(jpeg.ref);
+      expect(first.isInline).toBe(false);
+      expect(first.pageIndex).toBe(0);
+      expect(first).toMatchObject({
+        width: jpeg.width,
+        height: jpeg.height,
+        bitsPerComponent: 8,
+        colorSpace: "DeviceRGB",
+        filters: ["DCTDecode"],
+        imageMask: false,
+        smask: null,
+        mask: null,
+      });
+      expect(first.bbox).toEqual({ x: 50, y: 600, width: 100, height: 50 });
+      expect(first.matrix.toArray()).toEqual([100, 0, 0, 50, 50, 600]);
+
+      expect(second.ref).toBe(png.ref);
+      expect(second.filters).toEqual(["FlateDecode"]);
+      expect(second.smask).not.toBeNull();
+      expect(second.bbox).toEqual({ x: 200, y: 100, width: 64, height: 64 });
+    });
+
+    it("exports JPEGs as stored and other images as PNG", async () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const jpegBytes = await loadFixture("images", "red-square.jpg");
+      const png = pdf.embedPng(await loadFixture("images", "green-circle-alpha.png"));
+
+      page.drawImage(pdf.embedJpeg(jpegBytes));
+      page.drawImage(png);
+
+      const [jpegImage, pngImage] = page.getImages();
+
+      expect(jpegImage.export()).toEqual({
+        format: "jpeg",
+        mimeType: "image/jpeg",
+        data: jpegBytes,
+      });
+
+      const exported = pngImage.export();
+      const decoded = parsePng(exported.data);
+
+      expect(exported.format).toBe("png");
+      expect(decoded.info).toMatchObject({ width: png.width, height: png.height, hasAlpha: true });
+    });
+
+    it("follows nested Form XObjects", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const image = grayImage(pdf);
+
+      // The form paints the image 50x40 and is moved by its /Matrix
+      const form = pdf.register(
+        PdfStream.fromDict(
+          {
+            Type: PdfName.of("XObject"),
+            Subtype: PdfName.of("Form"),
+            BBox: new PdfArray([0, 0, 100, 100].map(n => PdfNumber.of(n))),
+            Matrix: new PdfArray([1, 0, 0, 1, 5, 5].map(n => PdfNumber.of(n))),
+            Resources: PdfDict.of({ XObject: PdfDict.of({ Im1: image }) }),
+          },
+          encoder.encode("50 0 0 40 0 0 cm /Im1 Do"),
+        ),
+      );
+
+      setContent(
+        pdf,
+        page.dict,
+        "q 2 0 0 2 10 20 cm /Fm1 Do Q /Fm1 Do",
+        PdfDict.of({ XObject: PdfDict.of({ Fm1: form }) }),
+      );
+
+      const images = page.getImages();
+
+      expect(images).toHaveLength(2);
+      expect(images[0].ref).toBe(image);
+      expect(images[0].name).toBe("Im1");
+      expect(images[0].bbox).toEqual({ x: 20, y: 30, width: 100, height: 80 });
+      expect(images[1].bbox).toEqual({ x: 5, y: 5, width: 50, height: 40 });
+    });
+
+    it("stops at Form XObjects that paint themselves", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const image = grayImage(pdf);
+      const resources = new PdfDict();
+      const form = pdf.register(
+        PdfStream.fromDict(
+          {
+            Type: PdfName.of("XObject"),
+            Subtype: PdfName.of("Form"),
+            BBox: new PdfArray([0, 0, 1, 1].map(n => PdfNumber.of(n))),
+            Resources: resources,
+          },
+          encoder.encode("/Im1 Do /Fm1 Do"),
+        ),
+      );
+
+      resources.set("XObject", PdfDict.of({ Im1: image, Fm1: form }));
+      setContent(pdf, page.dict, "/Fm1 Do", resources);
+
+      expect(page.getImages()).toHaveLength(1);
+    });
+
+    it("finds inline images", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+
+      setContent(
+        pdf,
+        page.dict,
+        "q 8 0 0 4 100 200 cm BI /W 2 /H 1 /CS /RGB /BPC 8 /F /AHx ID ff000000ff00> EI Q",
+        new PdfDict(),
+      );
+
+      const [image] = page.getImages();
+
+      expect(image.isInline).toBe(true);
+      expect(image).toMatchObject({
+        ref: null,
+        name: null,
+        width: 2,
+        height: 1,
+        colorSpace: "DeviceRGB",
+        filters: ["ASCIIHexDecode"],
+      });
+      expect(image.bbox).toEqual({ x: 100, y: 200, width: 8, height: 4 });
+
+      const decoded = parsePng(image.export().data);
+
+      expect(decoded.pixels).toEqual(new Uint8Array([255, 0, 0, 0, 255, 0]));
+    });
+
+    it("resolves named colour spaces of inline images", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const palette = new PdfArray([
+        PdfName.of("Indexed"),
+        PdfName.of("DeviceGray"),
+        PdfNumber.of(1),
+        pdf.register(PdfStream.fromDict({}, new Uint8Array([30, 200]))),
+      ]);
+
+      setContent(
+        pdf,
+        page.dict,
+        "BI /W 2 /H 1 /CS /Pal /BPC 1 ID \x40 EI",
+        PdfDict.of({ ColorSpace: PdfDict.of({ Pal: palette }) }),
+      );
+
+      const [image] = page.getImages();
+
+      expect(image.colorSpace).toBe("Indexed");
+      expect(parsePng(image.export().data).pixels).toEqual(new Uint8Array([30, 200]));
+    });
+  });
+
+  describe("extractImages", () => {
+    it("collects placements across pages", async () => {
+      const pdf = PDF.create();
+      const image = pdf.embedPng(await loadFixture("images", "red-square.png"));
+      const first = pdf.addPage();
+      const second = pdf.addPage();
+
+      first.drawImage(image, { x: 0, y: 0 });
+      first.drawImage(image, { x: 100, y: 0 });
+      second.drawImage(image, { x: 0, y: 100 });
+
+      const all = pdf.extractImages();
+
+      expect(all.map(placement => placement.pageIndex)).toEqual([0, 0, 1]);
+      expect(pdf.extractImages({ pages: [1] })).toHaveLength(1);
+
+      const unique = pdf.extractImages({ unique: true });
+
+      expect(unique).toHaveLength(1);
+      expect(unique[0].ref).toBe(image.ref);
+    });
+
+    it("extracts images from a loaded document", async () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+
+      page.drawImage(pdf.embedJpeg(await loadFixture("images", "sample.jpg")), {
+        x: 10,
+        y: 10,
+      });
+
+      const loaded = await PDF.load(await pdf.save());
+      const [image] = loaded.extractImages();
+
+      expect(image.filters).toEqual(["DCTDecode"]);
+      expect(image.export().format).toBe("jpeg");
+    });
+  });
+});
@@ -6,9 +6,32 @@
  */
 
 import { PDF } from "#src/api/pdf";
+import { hexToBytes, toArrayBuffer } from "#src/helpers/buffer";
+import { rgb } from "#src/helpers/colors";
+import * as ops from "#src/helpers/operators";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import {
+  encodeSignedAttributesForSigning,
+  getDigestAlgorithmOid,
+  getSignatureAlgorithmOid,
+  parseCertificate,
+} from "#src/signatures/formats/common";
+import { readDssValidationData } from "#src/signatures/ltv";
+import {
+  OID_CONTENT_TYPE,
+  OID_MESSAGE_DIGEST,
+  OID_SIGNED_DATA,
+  OID_TST_INFO,
+} from "#src/signatures/oids";
 import { P12Signer } from "#src/signatures/signers";
 import { HttpTimestampAuthority } from "#src/signatures/timestamp";
+import type { DigestAlgorithm, TimestampAuthority } from "#src/signatures/types";
+import { hashData } from "#src/signatures/utils";
 import { loadFixture, saveTestOutput } from "#src/test-utils";
+import { Integer, ObjectIdentifier, OctetString } from "asn1js";
+import * as pkijs from "pkijs";
 import { describe, expect, it } from "vitest";
 
 /** Test P12 files with different encryption formats */
@@ -27,6 +50,86 @@ const P12_FILES = {
   ecdsaP384: "test-signer-ec-p384-aes256.p12",
 };
 
+/**
+ * Offline RFC 3161 timestamp authority that signs tokens with a test key.
+ */
+class LocalTimestampAuthority implements TimestampAuthority {
+  requests = 0;
+
+  constructor(private readonly signer: P12Signer) {}
+
+  async timestamp(digest: Uint8Array, algorithm: DigestAlgorithm): Promise<Uint8Array> {
+    this.requests++;
+
+    const digestAlgorithm = new pkijs.AlgorithmIdentifier({
+      algorithmId: getDigestAlgorithmOid(algorithm),
+    });
+
+    const tstInfo = new pkijs.TSTInfo({
+      version: 1,
+      policy: "1.3.6.1.4.1.99999.1",
+      messageImprint: new pkijs.MessageImprint({
+        hashAlgorithm: digestAlgorithm,
+        hashedMessage: new OctetString({ valueHex: toArrayBuffer(digest) }),
+      }),
+      serialNumber: new Integer({ value: this.requests }),
+      genTime: new Date(),
+    });
+
+    const content = new Uint8Array(tstInfo.toSchema().toBER(false));
+
+    const attributes = [
+      new pkijs.Attribute({
+        type: OID_CONTENT_TYPE,
+        values: [new ObjectIdentifier({ value: OID_TST_INFO })],
+      }),
+      new pkijs.Attribute({
+        type: OID_MESSAGE_DIGEST,
+        values: [new OctetString({ valueHex: toArrayBuffer(hashData(content, algorithm)) })],
+      }),
+    ];
+
+    const signatureValue = await this.signer.sign(
+      new Uint8Array(encodeSignedAttributesForSigning(attributes)),
+      algorithm,
+    );
+
+    const certificate = parseCertificate(this.signer.certificate);
+
+    const signedData = new pkijs.SignedData({
+      version: 3,
+      encapContentInfo: new pkijs.EncapsulatedContentInfo({
+        eContentType: OID_TST_INFO,
+        eContent: new OctetString({ valueHex: toArrayBuffer(content) }),
+      }),
+      digestAlgorithms: [digestAlgorithm],
+      certificates: [certificate],
+      signerInfos: [
+        new pkijs.SignerInfo({
+          version: 1,
+          sid: new pkijs.IssuerAndSerialNumber({
+            issuer: certificate.issuer,
+            serialNumber: certificate.serialNumber,
+          }),
+          digestAlgorithm,
+          signedAttrs: new pkijs.SignedAndUnsignedAttributes({ type: 0, attributes }),
+          signatureAlgorithm: new pkijs.AlgorithmIdentifier({
+            algorithmId: getSignatureAlgorithmOid(this.signer, algorithm),
+          }),
+          signature: new OctetString({ valueHex: toArrayBuffer(signatureValue) }),
+        }),
+      ],
+    });
+
+    const contentInfo = new pkijs.ContentInfo({
+      contentType: OID_SIGNED_DATA,
+      content: signedData.toSchema(true),
+    });
+
+    return new Uint8Array(contentInfo.toSchema().toBER(false));
+  }
+}
+
 describe("signing integration", () => {
   /**
    * Load the test P12 certificate (default AES-256).
@@ -606,6 +709,533 @@ describe("signing integration", () => {
     });
   });
 
+  describe("certification signatures", () => {
+    it("writes a DocMDP reference and catalog /Perms", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const { bytes, warnings } = await pdf.sign({ signer, certify: 2 });
+
+      expect(warnings).toHaveLength(0);
+
+      const pdfStr = new TextDecoder().decode(bytes);
+      expect(pdfStr).toContain("/TransformMethod /DocMDP");
+
+      const signed = await PDF.load(bytes);
+      const [signature] = signed.getSignatures();
+
+      expect(signature.docMdpPermission).toBe(2);
+      expect(signed.getCatalog()?.getDict("Perms")?.get("DocMDP")).toBeDefined();
+
+      const [result] = await signed.verifySignatures();
+      expect(result.integrity).toBe(true);
+
+      await saveTestOutput("signatures/certified-p2.pdf", bytes);
+    });
+
+    it("does not mark approval signatures as certifications", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const { bytes } = await pdf.sign({ signer });
+
+      const [signature] = (await PDF.load(bytes)).getSignatures();
+      expect(signature.docMdpPermission).toBeUndefined();
+    });
+
+    it("refuses to certify an already-signed document", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      await pdf.sign({ signer });
+
+      await expect(pdf.sign({ signer, certify: 1 })).rejects.toThrow(/first signature/);
+    });
+
+    it("warns when signing a P=1 certified document", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      await pdf.sign({ signer, certify: 1 });
+      const { warnings } = await pdf.sign({ signer });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].code).toBe("MDP_VIOLATION");
+      expect(warnings[0].message).toContain("P=1");
+    });
+
+    it("allows signing an existing field under P=2", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      pdf.getOrCreateForm().createSignatureField("Approver");
+
+      await pdf.sign({ signer, certify: 2, fieldName: "Author" });
+      const { warnings } = await pdf.sign({ signer, fieldName: "Approver" });
+
+      expect(warnings).toHaveLength(0);
+    });
+
+    it("warns when creating a new signature field under P=2", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      await pdf.sign({ signer, certify: 2 });
+      const { warnings } = await pdf.sign({ signer });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].code).toBe("MDP_VIOLATION");
+      expect(warnings[0].message).toContain("P=2");
+    });
+
+    it("allows new signature fields under P=3", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      await pdf.sign({ signer, certify: 3 });
+      const { warnings } = await pdf.sign({ signer });
+
+      expect(warnings).toHaveLength(0);
+    });
+  });
+
+  describe("signature field constraints", () => {
+    it("locks fields and records a FieldMDP transform", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+      const form = pdf.getOrCreateForm();
+
+      form.createTextField("amount");
+      form.createTextField("notes");
+      form.createSignatureField("Approval", {
+        lock: { action: "include", fields: ["amount"] },
+      });
+
+      const { bytes } = await pdf.sign({ signer, fieldName: "Approval" });
+
+      const pdfStr = new TextDecoder().decode(bytes);
+      expect(pdfStr).toContain("/TransformMethod /FieldMDP");
+
+      const signed = await PDF.load(bytes);
+      const signedForm = signed.getForm();
+
+      expect(signedForm?.getTextField("amount")?.isReadOnly()).toBe(true);
+      expect(signedForm?.getTextField("notes")?.isReadOnly()).toBe(false);
+
+      const [result] = await signed.verifySignatures();
+      expect(result.integrity).toBe(true);
+
+      await saveTestOutput("signatures/field-lock.pdf", bytes);
+    });
+
+    it("uses seed values for unspecified options", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      pdf.getOrCreateForm().createSignatureField("Approval", {
+        seedValues: { subFilters: ["adbe.pkcs7.detached"], digestAlgorithms: ["SHA-384"] },
+      });
+
+      const { bytes } = await pdf.sign({ signer });
+
+      const [signature] = (await PDF.load(bytes)).getSignatures();
+      expect(signature.subFilter).toBe("adbe.pkcs7.detached");
+    });
+
+    it("rejects signatures violating required seed values", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      pdf.getOrCreateForm().createSignatureField("Approval", {
+        seedValues: { reasons: ["Approved", "Rejected"], required: ["reasons"] },
+      });
+
+      await expect(pdf.sign({ signer, reason: "Looks fine" })).rejects.toMatchObject({
+        code: "SEED_VALUE_VIOLATION",
+      });
+
+      const { bytes } = await pdf.sign({ signer, reason: "Approved" });
+      expect(bytes.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("visible signatures", () => {
+    /**
+     * Get the decoded normal appearance stream of a signature field, with
+     * hex string operands expanded to text.
+     */
+    function getAppearanceContent(pdf: PDF, fieldName: string): string {
+      const field = pdf.getForm()?.getSignatureField(fieldName);
+      const normal = field?.acroField().getDict("AP")?.get("N");
+      const stream = normal instanceof PdfRef ? pdf.getObject(normal) : normal;
+
+      if (!(stream instanceof PdfStream)) {
+        throw new Error("Signature has no appearance stream");
+      }
+
+      return String.fromCharCode(...stream.getDecodedData()).replace(/<([0-9A-F]+)>/g, (_, hex) =>
+        String.fromCharCode(...hexToBytes(hex)),
+      );
+    }
+
+    it("draws name, date, reason and location", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const { bytes } = await pdf.sign({
+        signer,
+        fieldName: "Visible",
+        reason: "Approved",
+        location: "Berlin",
+        signingTime: new Date("2026-03-01T12:30:00Z"),
+        appearance: {
+          rect: { x: 50, y: 50, width: 220, height: 60 },
+          borderColor: rgb(0, 0, 0.5),
+        },
+      });
+
+      const signed = await PDF.load(bytes);
+      const field = signed.getForm()?.getSignatureField("Visible");
+      const rect = field?.acroField().getArray("Rect");
+
+      expect(rect?.toArray().map(n => (n instanceof PdfNumber ? n.value : null))).toEqual([
+        50, 50, 270, 110,
+      ]);
+      expect(signed.getPage(0)?.dict.getArray("Annots")?.length).toBe(1);
+
+      const content = getAppearanceContent(signed, "Visible");
+      expect(content).toContain("Test Signer");
+      expect(content).toContain("Date: 2026-03-01 12:30:00 UTC");
+      expect(content).toContain("Reason: Approved");
+      expect(content).toContain("Location: Berlin");
+
+      const [result] = await signed.verifySignatures();
+      expect(result.integrity).toBe(true);
+
+      await saveTestOutput("signatures/visible-text.pdf", bytes);
+    });
+
+    it("draws an image and embedded font text", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const image = pdf.embedImage(await loadFixture("images", "red-square.png"));
+      const font = pdf.embedFont(await loadFixture("fonts", "ttf/LiberationSans-Regular.ttf"));
+
+      const { bytes } = await pdf.sign({
+        signer,
+        fieldName: "Visible",
+        appearance: {
+          rect: { x: 300, y: 50, width: 250, height: 80 },
+          name: "Дмитрий Иванов",
+          date: false,
+          image,
+          font,
+        },
+      });
+
+      const signed = await PDF.load(bytes);
+      const field = signed.getForm()?.getSignatureField("Visible");
+      const normal = field?.acroField().getDict("AP")?.get("N");
+      const stream = normal instanceof PdfRef ? signed.getObject(normal) : normal;
+      const resources = stream instanceof PdfStream ? stream.getDict("Resources") : undefined;
+
+      expect(resources?.getDict("XObject")?.has("Im0")).toBe(true);
+      expect(resources?.getDict("Font")?.get("F0")).toBeInstanceOf(PdfRef);
+      expect(getAppearanceContent(signed, "Visible")).not.toContain("Date:");
+      expect(new TextDecoder().decode(bytes)).toContain("/FontFile2");
+
+      await saveTestOutput("signatures/visible-image.pdf", bytes);
+    });
+
+    it("uses a custom Form XObject", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const stamp = pdf.createFormXObject({
+        bbox: { x: 0, y: 0, width: 100, height: 50 },
+        operators: [ops.setNonStrokingRGB(0, 0.5, 0), ops.rectangle(0, 0, 100, 50), ops.fill()],
+      });
+
+      const { bytes } = await pdf.sign({
+        signer,
+        fieldName: "Visible",
+        appearance: { rect: { x: 50, y: 500, width: 200, height: 100 }, xobject: stamp },
+      });
+
+      const content = getAppearanceContent(await PDF.load(bytes), "Visible");
+      expect(content).toContain("2 0 0 2 0 0 cm");
+      expect(content).toContain("/X0 Do");
+      expect(content).not.toContain("Test Signer");
+    });
+
+    it("rejects an appearance on a missing page", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      await expect(
+        pdf.sign({ signer, appearance: { page: 5, rect: { x: 0, y: 0, width: 10, height: 10 } } }),
+      ).rejects.toThrow(/page 5 does not exist/);
+    });
+
+    it("rejects an empty appearance rect", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      await expect(
+        pdf.sign({ signer, appearance: { rect: { x: 0, y: 0, width: 0, height: 10 } } }),
+      ).rejects.toThrow(/positive width and height/);
+    });
+  });
+
+  describe("two-phase signing", () => {
+    it("completes a prepared signature from serialized state", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const prepared = await pdf.prepareForSigning({
+        signer: {
+          certificate: signer.certificate,
+          certificateChain: signer.certificateChain,
+          keyType: signer.keyType,
+          signatureAlgorithm: signer.signatureAlgorithm,
+        },
+        reason: "Approved remotely",
+      });
+
+      // Simulate a restart: only plain data survives
+      const state = JSON.parse(JSON.stringify(prepared.state));
+      const storedBytes = new Uint8Array(prepared.bytes);
+
+      const signatureValue = await signer.sign(prepared.signedAttributes, "SHA-256");
+      const { bytes, warnings } = await PDF.completeSignature(storedBytes, state, signatureValue);
+
+      expect(warnings).toHaveLength(0);
+
+      const signed = await PDF.load(bytes);
+      const [result] = await signed.verifySignatures();
+
+      expect(result.integrity).toBe(true);
+      expect(result.reason).toBe("Approved remotely");
+      expect(result.subFilter).toBe("ETSI.CAdES.detached");
+
+      await saveTestOutput("signatures/two-phase.pdf", bytes);
+    });
+
+    it("returns the ByteRange and signed attribute digests", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner(P12_FILES.ecdsaP256);
+
+      const prepared = await pdf.prepareForSigning({
+        signer,
+        subFilter: "adbe.pkcs7.detached",
+        digestAlgorithm: "SHA-384",
+      });
+
+      const [offset1, length1, offset2, length2] = prepared.state.byteRange;
+      const covered = new Uint8Array([
+        ...prepared.bytes.subarray(offset1, offset1 + length1),
+        ...prepared.bytes.subarray(offset2, offset2 + length2),
+      ]);
+
+      expect(prepared.digest).toEqual(hashData(covered, "SHA-384"));
+      expect(prepared.signedAttributesDigest).toEqual(
+        hashData(prepared.signedAttributes, "SHA-384"),
+      );
+
+      const signatureValue = await signer.sign(prepared.signedAttributes, "SHA-384");
+      const { bytes } = await PDF.completeSignature(prepared.bytes, prepared.state, signatureValue);
+
+      const [result] = await (await PDF.load(bytes)).verifySignatures();
+      expect(result.integrity).toBe(true);
+      expect(result.subFilter).toBe("adbe.pkcs7.detached");
+    });
+
+    it("rejects bytes changed after preparing", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const prepared = await pdf.prepareForSigning({ signer });
+      const signatureValue = await signer.sign(prepared.signedAttributes, "SHA-256");
+
+      const tampered = new Uint8Array(prepared.bytes);
+      tampered[20] ^= 0x01;
+
+      await expect(
+        PDF.completeSignature(tampered, prepared.state, signatureValue),
+      ).rejects.toMatchObject({ code: "INVALID_SIGNING_STATE" });
+    });
+
+    it("rejects a signature from the wrong key", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+      const other = await loadTestSigner(P12_FILES.ecdsaP256);
+
+      const prepared = await pdf.prepareForSigning({ signer });
+      const signatureValue = await other.sign(prepared.signedAttributes, "SHA-256");
+
+      await expect(
+        PDF.completeSignature(prepared.bytes, prepared.state, signatureValue),
+      ).rejects.toMatchObject({ code: "INVALID_SIGNATURE_VALUE" });
+    });
+
+    it("requires a timestamp authority to complete a B-T signature", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner();
+
+      const prepared = await pdf.prepareForSigning({ signer, level: "B-T" });
+      const signatureValue = await signer.sign(prepared.signedAttributes, "SHA-256");
+
+      await expect(
+        PDF.completeSignature(prepared.bytes, prepared.state, signatureValue),
+      ).rejects.toThrow(/timestampAuthority/);
+    });
+  });
+
+  describe("document timestamps", () => {
+    it("timestamps an unsigned document", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const tsa = new LocalTimestampAuthority(await loadTestSigner());
+
+      const { bytes, warnings } = await pdf.timestamp({ timestampAuthority: tsa });
+
+      expect(warnings).toHaveLength(0);
+
+      const timestamped = await PDF.load(bytes);
+      const [info] = timestamped.getSignatures();
+
+      expect(info.kind).toBe("timestamp");
+      expect(info.fieldName).toBe("DocTimeStamp_1");
+      expect(info.subFilter).toBe("ETSI.RFC3161");
+      expect(info.coversWholeDocument).toBe(true);
+
+      const [result] = await timestamped.verifySignatures();
+
+      expect(result.integrity).toBe(true);
+      expect(result.timestamp?.valid).toBe(true);
+
+      await saveTestOutput("signatures/document-timestamp.pdf", bytes);
+    });
+
+    it("timestamps a signed document without invalidating the signature", async () => {
+      const signer = await loadTestSigner();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      await pdf.sign({ signer, fieldName: "Approval" });
+
+      const { bytes } = await pdf.timestamp({
+        timestampAuthority: new LocalTimestampAuthority(await loadTestSigner(P12_FILES.ecdsaP384)),
+        digestAlgorithm: "SHA-384",
+      });
+
+      const results = await (await PDF.load(bytes)).verifySignatures();
+
+      expect(results.map(r => [r.fieldName, r.kind, r.integrity])).toEqual([
+        ["Approval", "signature", true],
+        ["DocTimeStamp_1", "timestamp", true],
+      ]);
+    });
+
+    it("re-timestamps with validation data for the previous timestamp", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const tsa = new LocalTimestampAuthority(await loadTestSigner());
+
+      await pdf.timestamp({ timestampAuthority: tsa });
+      const { bytes } = await pdf.timestamp({ timestampAuthority: tsa, longTermValidation: true });
+
+      const timestamped = await PDF.load(bytes);
+      const results = await timestamped.verifySignatures();
+
+      expect(results.map(r => r.fieldName)).toEqual(["DocTimeStamp_1", "DocTimeStamp_2"]);
+      expect(results.every(r => r.integrity)).toBe(true);
+
+      // The first timestamp's DSS entries are covered by the second one
+      expect(results[0].coversWholeDocument).toBe(false);
+      expect(new TextDecoder().decode(bytes)).toContain("/DSS");
+    });
+
+    it("leaves empty signature fields for signers", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      pdf.getOrCreateForm().createSignatureField("Approval");
+
+      const { bytes } = await pdf.timestamp({
+        timestampAuthority: new LocalTimestampAuthority(await loadTestSigner()),
+        fieldName: "Archive",
+      });
+
+      const timestamped = await PDF.load(bytes);
+
+      expect(timestamped.getSignatures().map(s => s.fieldName)).toEqual(["Archive"]);
+    });
+  });
+
+  describe("adding LTV data to existing signatures", () => {
+    const crl = new Uint8Array([0x30, 0x03, 0x02, 0x01, 0x01]);
+    const revocationProvider = { getCRL: async () => crl };
+
+    it("embeds validation data for a signature made earlier", async () => {
+      const signer = await loadTestSigner();
+      const signed = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const { bytes: signedBytes } = await signed.sign({ signer, level: "B-B" });
+
+      const pdf = await PDF.load(signedBytes);
+      const { bytes } = await pdf.addLtvData({ revocationProvider });
+
+      expect(bytes.subarray(0, signedBytes.length)).toEqual(signedBytes);
+
+      const upgraded = await PDF.load(bytes);
+      const [result] = await upgraded.verifySignatures();
+
+      expect(result.integrity).toBe(true);
+
+      // VRI entry for the signature points at its certificate and CRL
+      const dss = await readDssValidationData(
+        upgraded.getCatalog(),
+        upgraded.context.registry,
+        result.contents,
+      );
+
+      expect(dss.certificates).toContainEqual(signer.certificate);
+      expect(dss.crls).toContainEqual(crl);
+    });
+
+    it("merges with an existing DSS", async () => {
+      const signer = await loadTestSigner();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      await pdf.sign({ signer, fieldName: "First" });
+      await pdf.addLtvData({ revocationProvider });
+      await pdf.sign({ signer: await loadTestSigner(P12_FILES.ecdsaP256), fieldName: "Second" });
+
+      const { bytes } = await pdf.addLtvData({ revocationProvider });
+
+      const upgraded = await PDF.load(bytes);
+      const results = await upgraded.verifySignatures();
+      const pdfStr = new TextDecoder().decode(bytes);
+
+      expect(results.map(r => r.integrity)).toEqual([true, true]);
+      expect(pdfStr.match(/\/Type \/DSS/g)?.length).toBeGreaterThanOrEqual(2);
+
+      for (const result of results) {
+        const dss = await readDssValidationData(
+          upgraded.getCatalog(),
+          upgraded.context.registry,
+          result.contents,
+        );
+
+        expect(dss.certificates).toContainEqual(result.signerCertificate);
+      }
+    });
+
+    it("warns when there is nothing to validate", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      const { warnings } = await pdf.addLtvData({ revocationProvider });
+
+      expect(warnings.map(w => w.code)).toEqual(["NO_SIGNATURES"]);
+    });
+  });
+
   describe("error handling", () => {
     it("throws on invalid P12 password", async () => {
       const p12Bytes = await loadFixture("certificates", "test-signer-aes256.p12");
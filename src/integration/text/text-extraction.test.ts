@@ -305,5 +305,150 @@ describe("Text Extraction Integration", () => {
       expect(chars[2].bbox.width).toBeCloseTo(4.67, 1);
       expect(chars[3].bbox.width).toBeCloseTo(3.32, 1);
     });
+
+    it("measures Type 3 glyphs through the font matrix", async () => {
+      // 12pt glyphs with /Widths [1000 1000] and /FontBBox [0 0 750 750]
+      // under /FontMatrix [0.001 0 0 0.001 0 0], named /square and /triangle
+      const bytes = await loadFixture("text", "variety/simpletype3font.pdf");
+      const pdf = await PDF.load(bytes);
+      const { lines } = pdf.getPage(0)!.extractText();
+
+      expect(lines.map(line => line.text)).toEqual(["ababab"]);
+
+      const chars = lines[0].spans[0].chars;
+
+      expect(chars[0].bbox).toEqual({ x: 100, y: 700, width: 12, height: 9 });
+      expect(chars[1].bbox.x).toBeCloseTo(112);
+    });
+  });
+
+  describe("layout", () => {
+    it("reads a two-column page column by column", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+
+      page.drawText("Two Column Heading", { x: 72, y: 740, size: 18 });
+      page.drawText("The left column comes", { x: 72, y: 700 });
+      page.drawText("first in reading order.", { x: 72, y: 686 });
+      page.drawText("The right column comes", { x: 320, y: 700 });
+      page.drawText("after the left column.", { x: 320, y: 686 });
+
+      const pageText = page.extractText();
+
+      expect(pageText.lines[1].text).toContain("left column comes");
+      expect(pageText.lines[1].text).toContain("right column comes");
+      expect(pageText.blocks.map(block => block.text)).toEqual([
+        "Two Column Heading",
+        "The left column comes first in reading order.",
+        "The right column comes after the left column.",
+      ]);
+      expect(pageText.paragraphs).toHaveLength(3);
+    });
+
+    it("follows the structure tree of a tagged PDF", async () => {
+      const pdf = await PDF.load(await loadFixture("text", "proposal.pdf"));
+      const { blocks, paragraphs } = pdf.getPage(0)!.extractText();
+
+      expect(blocks[0].text).toContain("COMPANY_NAME");
+      expect(paragraphs.some(paragraph => paragraph.text.startsWith("Lorem ipsum"))).toBe(true);
+    });
+  });
+
+  describe("extractTables", () => {
+    it("extracts a ruled table drawn with lines and rectangles", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const rows = [
+        ["Item", "Qty", "Price"],
+        ["Paper", "2", "9.98"],
+        ["Ink, black", "1", "24.50"],
+      ];
+
+      page.drawRectangle({ x: 72, y: 640, width: 300, height: 60, borderWidth: 1 });
+
+      for (const y of [680, 660]) {
+        page.drawLine({ start: { x: 72, y }, end: { x: 372, y }, thickness: 0.5 });
+      }
+
+      for (const x of [222, 297]) {
+        page.drawLine({ start: { x, y: 640 }, end: { x, y: 700 }, thickness: 0.5 });
+      }
+
+      rows.forEach((row, r) => {
+        row.forEach((text, c) => {
+          page.drawText(text, { x: [78, 228, 303][c], y: 686 - r * 20, size: 10 });
+        });
+      });
+
+      const [table] = page.extractTables();
+
+      expect(table.ruled).toBe(true);
+      expect(table.toArray()).toEqual(rows);
+      expect(table.toCSV().split("\r\n")[2]).toBe('"Ink, black",1,24.50');
+    });
+
+    it("extracts a table without rules from aligned text", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+
+      page.drawText("Statement for March", { x: 72, y: 740, size: 14 });
+      page.drawText("Date", { x: 72, y: 700 });
+      page.drawText("Description", { x: 150, y: 700 });
+      page.drawText("Amount", { x: 400, y: 700 });
+      page.drawText("03/01", { x: 72, y: 684 });
+      page.drawText("Coffee", { x: 150, y: 684 });
+      page.drawText("3.20", { x: 410, y: 684 });
+      page.drawText("03/02", { x: 72, y: 668 });
+      page.drawText("Rent", { x: 150, y: 668 });
+      page.drawText("900.00", { x: 400, y: 668 });
+
+      const tables = page.extractTables();
+
+      expect(tables).toHaveLength(1);
+      expect(tables[0].ruled).toBe(false);
+      expect(tables[0].toArray()).toEqual([
+        ["Date", "Description", "Amount"],
+        ["03/01", "Coffee", "3.20"],
+        ["03/02", "Rent", "900.00"],
+      ]);
+    });
+
+    it("finds no tables in running text", async () => {
+      const pdf = await PDF.load(await loadFixture("text", "openoffice-test-document.pdf"));
+
+      expect(pdf.getPage(0)!.extractTables()).toEqual([]);
+    });
+  });
+
+  describe("Form XObjects and annotations", () => {
+    it("extracts text drawn through an embedded page", async () => {
+      const source = PDF.create();
+
+      source.addPage().drawText("Stamped text", { x: 72, y: 720 });
+
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+
+      page.drawPage(await pdf.embedPage(source, 0), { x: 100, y: -200, scale: 0.5 });
+
+      const [match] = page.findText("Stamped text");
+
+      expect(match).toBeDefined();
+      expect(match.bbox.x).toBeCloseTo(136, 0);
+      expect(match.bbox.y).toBeGreaterThan(150);
+      expect(match.bbox.y).toBeLessThan(170);
+    });
+
+    it("includes form field values only with includeAnnotations", () => {
+      const pdf = PDF.create();
+      const page = pdf.addPage();
+      const field = pdf.getOrCreateForm().createTextField("name", { defaultValue: "John Doe" });
+
+      page.drawField(field, { x: 100, y: 700, width: 200, height: 24 });
+
+      expect(page.extractText().text).not.toContain("John Doe");
+      expect(page.extractText({ includeAnnotations: true }).text).toContain("John Doe");
+      expect(pdf.findText("John Doe", { includeAnnotations: true })).toHaveLength(1);
+    });
   });
 });
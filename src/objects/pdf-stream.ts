@@ -1,11 +1,13 @@
-import type { FilterSpec } from "#src/filters/filter";
+import type { DecodeOptions, FilterSpec } from "#src/filters/filter";
 import { FilterPipeline } from "#src/filters/filter-pipeline";
+import type { RefResolver } from "#src/helpers/types";
 import type { ByteWriter } from "#src/io/byte-writer";
 
 import { PdfArray } from "./pdf-array";
 import { PdfDict } from "./pdf-dict";
 import { PdfName } from "./pdf-name";
 import type { PdfObject } from "./pdf-object";
+import { PdfRef } from "./pdf-ref";
 
 /**
  * PDF stream object (dictionary + binary data).
@@ -102,10 +104,18 @@ export class PdfStream extends PdfDict {
    * Applies any filters specified in /Filter in order.
    * Results are not cached - call once and store if needed.
    *
+   * Some filters take other objects as parameters (/JBIG2Globals is a
+   * stream). Pass a resolver to resolve indirect /DecodeParms values.
+   *
+   * DCTDecode images decode to their JPEG data unless `options.pixels`
+   * asks for samples.
+   *
+   * @param resolver - Resolves indirect references in /DecodeParms
+   * @param options - How far to decode
    * @returns Decoded data
    * @throws {Error} if a filter fails or is unknown
    */
-  getDecodedData(): Uint8Array {
+  getDecodedData(resolver?: RefResolver, options?: DecodeOptions): Uint8Array {
     const filterEntry = this.get("Filter");
 
     // No filter - return raw data
@@ -114,14 +124,29 @@ export class PdfStream extends PdfDict {
     }
 
     // Build filter specs
-    const filterSpecs = this.buildFilterSpecs(filterEntry);
+    const filterSpecs = this.buildFilterSpecs(filterEntry, resolver);
 
     if (filterSpecs.length === 0) {
       return this._data;
     }
 
     // Decode through filter pipeline
-    return FilterPipeline.decode(this._data, filterSpecs);
+    return FilterPipeline.decode(this._data, filterSpecs, options);
+  }
+
+  /**
+   * Get the stream's filters with their decode parameters, in decoding
+   * order.
+   *
+   * Useful to stop decoding early, e.g. to keep the JPEG data of a
+   * DCTDecode image: `FilterPipeline.decode(stream.data, specs.slice(0, -1))`.
+   *
+   * @param resolver - Resolves indirect references in /DecodeParms
+   */
+  getFilterSpecs(resolver?: RefResolver): FilterSpec[] {
+    const filterEntry = this.get("Filter", resolver);
+
+    return filterEntry ? this.buildFilterSpecs(filterEntry, resolver) : [];
   }
 
   /**
@@ -158,7 +183,7 @@ export class PdfStream extends PdfDict {
   /**
    * Build filter specs from /Filter and /DecodeParms entries.
    */
-  private buildFilterSpecs(filterEntry: PdfObject): FilterSpec[] {
+  private buildFilterSpecs(filterEntry: PdfObject, resolver?: RefResolver): FilterSpec[] {
     const filters: PdfName[] = [];
     const params: (PdfDict | null)[] = [];
 
@@ -174,14 +199,16 @@ export class PdfStream extends PdfDict {
     }
 
     // Collect decode parameters
-    const parmsEntry = this.get("DecodeParms");
+    const parmsEntry = this.get("DecodeParms", resolver);
 
     if (parmsEntry instanceof PdfDict) {
-      params.push(parmsEntry);
+      params.push(resolveParams(parmsEntry, resolver));
     } else if (parmsEntry instanceof PdfArray) {
-      for (const item of parmsEntry) {
+      for (let i = 0; i < parmsEntry.length; i++) {
+        const item = parmsEntry.at(i, resolver);
+
         if (item instanceof PdfDict) {
-          params.push(item);
+          params.push(resolveParams(item, resolver));
         } else {
           params.push(null); // null entry means no params for this filter
         }
@@ -237,3 +264,26 @@ export class PdfStream extends PdfDict {
     writer.writeAscii("\nendstream");
   }
 }
+
+/**
+ * Resolve the indirect values of a decode parameters dictionary.
+ *
+ * Returns a copy, so the stream's own dictionary keeps its references.
+ */
+function resolveParams(params: PdfDict, resolver?: RefResolver): PdfDict {
+  if (!resolver) {
+    return params;
+  }
+
+  const resolved = params.clone();
+
+  for (const [key, value] of params) {
+    const target = value instanceof PdfRef ? resolver(value) : null;
+
+    if (target) {
+      resolved.set(key, target);
+    }
+  }
+
+  return resolved;
+}
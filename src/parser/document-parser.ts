@@ -7,13 +7,15 @@ import { PdfRef } from "#src/objects/pdf-ref";
 import { PdfStream } from "#src/objects/pdf-stream";
 import { PdfString } from "#src/objects/pdf-string";
 import { type CredentialInput, normalizeCredential } from "#src/security/credentials";
-import {
-  type EncryptionDict,
-  isEncryptedTrailer,
-  parseEncryptionDict,
-} from "#src/security/encryption-dict";
+import { isEncryptedTrailer, parseEncryptionDict } from "#src/security/encryption-dict";
 import { EncryptionDictError } from "#src/security/errors";
 import type { Permissions } from "#src/security/permissions";
+import {
+  isPublicKeyEncryptDict,
+  parsePublicKeyEncryptionDict,
+} from "#src/security/public-key-dict";
+import { PublicKeySecurityHandler } from "#src/security/public-key-handler";
+import type { DocumentEncryption, SecurityHandler } from "#src/security/security-handler";
 import { StandardSecurityHandler, tryEmptyPassword } from "#src/security/standard-handler";
 
 import { BruteForceParser } from "./brute-force-parser";
@@ -35,7 +37,9 @@ export interface ParseOptions {
    * Accepts:
    * - A plain string (shorthand for password credential)
    * - A PasswordCredential object: `{ type: "password", password: "..." }`
-   * - A CertificateCredential object (future): `{ type: "certificate", ... }`
+   * - A CertificateCredential object: `{ type: "certificate", certificate, privateKey }`
+   *   for documents encrypted to recipients' certificates (/Adobe.PubSec)
+   * - A P12Credential object: `{ type: "p12", data, password }` (resolved by `PDF.load()`)
    *
    * If not provided, tries empty password for documents with owner-only encryption.
    */
@@ -69,7 +73,7 @@ export interface ParsedDocument {
   isEncrypted: boolean;
 
   /** Encryption dictionary (if encrypted) */
-  encryption: EncryptionDict | null;
+  encryption: DocumentEncryption | null;
 
   /** Whether authentication succeeded */
   isAuthenticated: boolean;
@@ -78,7 +82,7 @@ export interface ParsedDocument {
   permissions: Permissions | null;
 
   /** Security handler (if encrypted) - for advanced operations */
-  securityHandler: StandardSecurityHandler | null;
+  securityHandler: SecurityHandler | null;
 
   /**
    * Authenticate with a password.
@@ -401,8 +405,8 @@ export class DocumentParser {
     // Encryption setup
     // ─────────────────────────────────────────────────────────────────────────────
 
-    let securityHandler: StandardSecurityHandler | null = null;
-    let encryptionDict: EncryptionDict | null = null;
+    let securityHandler: SecurityHandler | null = null;
+    let encryptionDict: DocumentEncryption | null = null;
 
     const isEncrypted = isEncryptedTrailer(trailer);
 
@@ -430,22 +434,37 @@ export class DocumentParser {
           encryptDictObj = trailer.getDict("Encrypt") ?? null;
         }
 
-        if (encryptDictObj) {
-          encryptionDict = parseEncryptionDict(encryptDictObj);
+        if (encryptDictObj && isPublicKeyEncryptDict(encryptDictObj)) {
+          // Certificate encryption: only a certificate credential can open it
+          const publicKeyDict = parsePublicKeyEncryptionDict(encryptDictObj);
+
+          encryptionDict = publicKeyDict;
+          securityHandler = new PublicKeySecurityHandler(publicKeyDict);
+
+          if (this.options.credentials !== undefined) {
+            const credential = normalizeCredential(this.options.credentials);
+            securityHandler.authenticateWithCredential(credential);
+          }
+        } else if (encryptDictObj) {
+          const standardDict = parseEncryptionDict(encryptDictObj);
+
+          encryptionDict = standardDict;
 
           // Get file ID from trailer
           const fileId = this.getFileId(trailer);
 
           if (fileId) {
-            securityHandler = new StandardSecurityHandler(encryptionDict, fileId);
+            const standardHandler = new StandardSecurityHandler(standardDict, fileId);
+
+            securityHandler = standardHandler;
 
             // Try to authenticate
             if (this.options.credentials !== undefined) {
               const credential = normalizeCredential(this.options.credentials);
-              securityHandler.authenticateWithCredential(credential);
+              standardHandler.authenticateWithCredential(credential);
             } else {
               // Try empty password (common case for owner-only protection)
-              tryEmptyPassword(securityHandler);
+              tryEmptyPassword(standardHandler);
             }
           } else {
             this.warnings.push("Encrypted PDF missing /ID in trailer");
@@ -0,0 +1,93 @@
+import { constants, generateKeyPairSync, publicEncrypt } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { type RsaPrivateKey, rsaDecrypt, rsaEncrypt } from "./rsa";
+
+function base64UrlToBigInt(value: string | undefined): bigint {
+  const bytes = Buffer.from(value ?? "", "base64url");
+
+  return BigInt(`0x${bytes.toString("hex") || "0"}`);
+}
+
+function generateKey(): { key: RsaPrivateKey; publicKeyPem: string } {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 1024 });
+  const jwk = privateKey.export({ format: "jwk" });
+
+  return {
+    key: {
+      modulus: base64UrlToBigInt(jwk.n),
+      publicExponent: base64UrlToBigInt(jwk.e),
+      privateExponent: base64UrlToBigInt(jwk.d),
+      prime1: base64UrlToBigInt(jwk.p),
+      prime2: base64UrlToBigInt(jwk.q),
+      exponent1: base64UrlToBigInt(jwk.dp),
+      exponent2: base64UrlToBigInt(jwk.dq),
+      coefficient: base64UrlToBigInt(jwk.qi),
+    },
+    publicKeyPem: publicKey.export({ format: "pem", type: "spki" }).toString(),
+  };
+}
+
+describe("RSA PKCS#1 v1.5", () => {
+  const { key, publicKeyPem } = generateKey();
+
+  it("round-trips a message", () => {
+    const message = new Uint8Array([1, 2, 3, 4, 5, 0, 255]);
+
+    const ciphertext = rsaEncrypt(key, message);
+
+    expect(ciphertext.length).toBe(128);
+    expect(rsaDecrypt(key, ciphertext)).toEqual(message);
+  });
+
+  it("decrypts ciphertext produced by Node", () => {
+    const message = new Uint8Array(32).fill(7);
+
+    const ciphertext = publicEncrypt(
+      { key: publicKeyPem, padding: constants.RSA_PKCS1_PADDING },
+      message,
+    );
+
+    expect(rsaDecrypt(key, new Uint8Array(ciphertext))).toEqual(message);
+  });
+
+  it("returns a deterministic synthetic message for the wrong key", () => {
+    const other = generateKey().key;
+    const message = new Uint8Array(16).fill(1);
+
+    const ciphertext = rsaEncrypt(key, message);
+    const result = rsaDecrypt(other, ciphertext);
+
+    expect(result).not.toBeNull();
+    expect(result).not.toEqual(message);
+    expect(rsaDecrypt(other, ciphertext)).toEqual(result);
+  });
+
+  it("doesn't distinguish invalid padding from a valid message", () => {
+    // 0x00 0x01 block type (signature padding) with a valid-looking message
+    const em = new Uint8Array(128).fill(0xff);
+
+    em[0] = 0x00;
+    em[1] = 0x01;
+    em[100] = 0x00;
+
+    const ciphertext = new Uint8Array(
+      publicEncrypt({ key: publicKeyPem, padding: constants.RSA_NO_PADDING }, em),
+    );
+    const result = rsaDecrypt(key, ciphertext);
+
+    expect(result).not.toBeNull();
+    expect(result?.length).toBeLessThanOrEqual(128 - 11);
+    expect(result).not.toEqual(em.subarray(101));
+    expect(rsaDecrypt(key, ciphertext)).toEqual(result);
+  });
+
+  it("returns null for ciphertext that doesn't fit the key", () => {
+    expect(rsaDecrypt(key, new Uint8Array(64))).toBeNull();
+    expect(rsaDecrypt(key, new Uint8Array(128).fill(0xff))).toBeNull();
+  });
+
+  it("rejects messages that are too long", () => {
+    expect(() => rsaEncrypt(key, new Uint8Array(118))).toThrow(/too long/);
+  });
+});
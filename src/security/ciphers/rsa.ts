@@ -0,0 +1,330 @@
+/**
+ * RSA key transport (RSAES-PKCS1-v1_5).
+ *
+ * The public-key security handler wraps each recipient's content-encryption
+ * key with RSAES-PKCS1-v1_5, which Web Crypto doesn't offer (it only has
+ * RSA-OAEP). Key transport happens once per document open, so a BigInt
+ * implementation is fast enough and keeps parsing synchronous.
+ *
+ * BigInt arithmetic isn't constant-time, so decryption blinds the ciphertext
+ * and never reports bad padding: a malformed message decrypts to a
+ * pseudo-random one derived from the key and ciphertext (implicit rejection),
+ * which the caller then fails to use like any other wrong key.
+ *
+ * @see RFC 8017, Section 7.2 (RSAES-PKCS1-v1_5)
+ * @see draft-irtf-cfrg-rsa-guidance, Section 7.2 (Implicit rejection)
+ */
+
+import { randomBytes } from "@noble/ciphers/utils.js";
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+
+/**
+ * RSA public key components.
+ */
+export interface RsaPublicKey {
+  modulus: bigint;
+  publicExponent: bigint;
+}
+
+/**
+ * RSA private key components (PKCS#1 RSAPrivateKey).
+ */
+export interface RsaPrivateKey extends RsaPublicKey {
+  privateExponent: bigint;
+  prime1: bigint;
+  prime2: bigint;
+  exponent1: bigint;
+  exponent2: bigint;
+  coefficient: bigint;
+}
+
+/** Minimum padding string length for PKCS#1 v1.5 encryption */
+const MIN_PADDING_LENGTH = 8;
+
+/**
+ * Encrypt a message with RSAES-PKCS1-v1_5.
+ *
+ * @param key - Recipient's public key
+ * @param message - Message to encrypt (at most modulus length - 11 bytes)
+ * @returns Ciphertext, the same length as the modulus
+ * @throws {Error} if the message is too long for the key
+ */
+export function rsaEncrypt(key: RsaPublicKey, message: Uint8Array): Uint8Array {
+  const k = byteLength(key.modulus);
+
+  if (message.length > k - MIN_PADDING_LENGTH - 3) {
+    throw new Error(`Message too long for ${k * 8}-bit RSA key: ${message.length} bytes`);
+  }
+
+  // EM = 0x00 || 0x02 || PS || 0x00 || M, with PS random non-zero bytes
+  const em = new Uint8Array(k);
+  const paddingLength = k - message.length - 3;
+
+  em[1] = 0x02;
+  em.set(randomNonZeroBytes(paddingLength), 2);
+  em.set(message, k - message.length);
+
+  const c = modPow(bytesToBigInt(em), key.publicExponent, key.modulus);
+
+  return bigIntToBytes(c, k);
+}
+
+/**
+ * Decrypt an RSAES-PKCS1-v1_5 ciphertext.
+ *
+ * The padding check doesn't branch on the decrypted bytes. If the padding is
+ * invalid (wrong key or corrupted data), the result is a synthetic message
+ * that is deterministic for the key and ciphertext, so callers can't tell it
+ * apart from a real decryption.
+ *
+ * @param key - Private key
+ * @param ciphertext - Ciphertext bytes
+ * @returns Decrypted (or synthetic) message, or null if the ciphertext
+ *   doesn't fit the key
+ */
+export function rsaDecrypt(key: RsaPrivateKey, ciphertext: Uint8Array): Uint8Array | null {
+  const k = byteLength(key.modulus);
+
+  if (ciphertext.length !== k) {
+    return null;
+  }
+
+  const c = bytesToBigInt(ciphertext);
+
+  if (c >= key.modulus) {
+    return null;
+  }
+
+  const em = bigIntToBytes(decryptBlinded(key, c), k);
+  const synthetic = syntheticMessage(key, ciphertext);
+
+  // EM = 0x00 || 0x02 || PS || 0x00 || M. Scan every byte, recording the
+  // first zero after PS, rather than stopping at it.
+  let good = isZero(em[0]) & isZero(em[1] ^ 0x02);
+  let separator = 0;
+  let found = 0;
+
+  for (let i = 2; i < k; i++) {
+    const first = isZero(em[i]) & (found ^ 1);
+
+    separator |= -first & i;
+    found |= first;
+  }
+
+  // PS must be at least 8 bytes
+  good &= found & ((MIN_PADDING_LENGTH + 1 - separator) >>> 31);
+
+  // Both candidates end at the last byte; pick one with a mask
+  const mask = -good;
+  const length = (mask & (k - separator - 1)) | (~mask & synthetic.length);
+  const message = new Uint8Array(k);
+
+  for (let i = 0; i < k; i++) {
+    message[i] = (mask & em[i]) | (~mask & synthetic.message[i]);
+  }
+
+  return message.slice(k - length);
+}
+
+/**
+ * Convert big-endian bytes to a BigInt.
+ */
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let hex = "";
+
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+
+  return hex.length > 0 ? BigInt(`0x${hex}`) : 0n;
+}
+
+/**
+ * Convert a BigInt to big-endian bytes of a fixed length.
+ */
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const hex = value.toString(16).padStart(length * 2, "0");
+  const bytes = new Uint8Array(length);
+
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  return bytes;
+}
+
+/**
+ * Byte length of a modulus.
+ */
+function byteLength(n: bigint): number {
+  return Math.ceil(n.toString(16).length / 2);
+}
+
+/**
+ * Modular exponentiation (square-and-multiply).
+ */
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % modulus;
+    }
+
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+
+  return result;
+}
+
+/**
+ * RSA decryption primitive using the Chinese Remainder Theorem.
+ */
+function decryptCrt(key: RsaPrivateKey, c: bigint): bigint {
+  const { prime1: p, prime2: q, exponent1: dP, exponent2: dQ, coefficient: qInv } = key;
+
+  // Fall back to the plain exponent if CRT parameters are missing
+  if (p === 0n || q === 0n) {
+    return modPow(c, key.privateExponent, key.modulus);
+  }
+
+  const m1 = modPow(c, dP, p);
+  const m2 = modPow(c, dQ, q);
+  const h = (((m1 - m2) % p) + p) % p;
+
+  return m2 + ((h * qInv) % p) * q;
+}
+
+/**
+ * RSA decryption with base blinding.
+ *
+ * Decrypts c·r^e instead of c for a random r, so the timing of the
+ * exponentiation isn't correlated with the ciphertext.
+ */
+function decryptBlinded(key: RsaPrivateKey, c: bigint): bigint {
+  const n = key.modulus;
+  const k = byteLength(n);
+
+  for (;;) {
+    const r = bytesToBigInt(randomBytes(k)) % n;
+    const rInverse = r > 1n ? modInverse(r, n) : null;
+
+    if (rInverse === null) {
+      continue;
+    }
+
+    const blinded = (c * modPow(r, key.publicExponent, n)) % n;
+
+    return (decryptCrt(key, blinded) * rInverse) % n;
+  }
+}
+
+/**
+ * Modular inverse (extended Euclid), or null if a and n aren't coprime.
+ */
+function modInverse(a: bigint, n: bigint): bigint | null {
+  let [oldR, r] = [a, n];
+  let [oldS, s] = [1n, 0n];
+
+  while (r !== 0n) {
+    const quotient = oldR / r;
+
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+
+  if (oldR !== 1n) {
+    return null;
+  }
+
+  return ((oldS % n) + n) % n;
+}
+
+/**
+ * Derive the message returned for a ciphertext with invalid padding.
+ *
+ * A key derivation key is the HMAC of the ciphertext under a hash of the
+ * private exponent. The PRF output supplies a full-width message, whose
+ * trailing `length` bytes are used, and that length, chosen from 128
+ * candidates so it's always one a valid padding could produce.
+ */
+function syntheticMessage(
+  key: RsaPrivateKey,
+  ciphertext: Uint8Array,
+): { message: Uint8Array; length: number } {
+  const k = ciphertext.length;
+  const kdk = hmac(sha256, sha256(bigIntToBytes(key.privateExponent, k)), ciphertext);
+  const candidates = prf(kdk, "length", 256);
+  const message = prf(kdk, "message", k);
+
+  // Valid padding leaves room for messages shorter than this
+  const limit = k - MIN_PADDING_LENGTH - 2;
+  let lengthMask = 1;
+
+  while (lengthMask < limit) {
+    lengthMask = (lengthMask << 1) | 1;
+  }
+
+  // Take the last candidate below the limit
+  let length = 0;
+
+  for (let i = 0; i < candidates.length; i += 2) {
+    const candidate = ((candidates[i] << 8) | candidates[i + 1]) & lengthMask;
+    const select = -((candidate - limit) >>> 31);
+
+    length = (select & candidate) | (~select & length);
+  }
+
+  return { message, length };
+}
+
+/**
+ * HMAC-SHA256 based PRF: HMAC(key, I || label || L) for counter I, where L
+ * is the output length in bits.
+ */
+function prf(key: Uint8Array, label: string, length: number): Uint8Array {
+  const labelBytes = new TextEncoder().encode(label);
+  const input = new Uint8Array(labelBytes.length + 4);
+  const output = new Uint8Array(Math.ceil(length / 32) * 32);
+
+  input.set(labelBytes, 2);
+  input[input.length - 2] = (length * 8) >>> 8;
+  input[input.length - 1] = (length * 8) & 0xff;
+
+  for (let i = 0; i * 32 < length; i++) {
+    input[0] = i >>> 8;
+    input[1] = i & 0xff;
+    output.set(hmac(sha256, key, input), i * 32);
+  }
+
+  return output.subarray(0, length);
+}
+
+/**
+ * 1 if a byte is zero, 0 otherwise, without branching.
+ */
+function isZero(byte: number): number {
+  return (byte - 1) >>> 31;
+}
+
+/**
+ * Generate random non-zero bytes for the padding string.
+ */
+function randomNonZeroBytes(length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let filled = 0;
+
+  while (filled < length) {
+    for (const byte of randomBytes(length - filled)) {
+      if (byte !== 0) {
+        result[filled++] = byte;
+      }
+    }
+  }
+
+  return result;
+}
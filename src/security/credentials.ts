@@ -1,10 +1,15 @@
 /**
  * Credentials for decrypting PDF documents.
  *
- * Currently supports password-based authentication (Standard security handler).
- * Certificate-based authentication (Public Key handler) is planned for the future.
+ * Passwords open documents protected by the Standard security handler.
+ * Certificates with their private key open documents encrypted to
+ * recipients by the public-key handler (/Adobe.PubSec).
  */
 
+import { parsePkcs12 } from "#src/helpers/pkcs12";
+
+import { UnsupportedEncryptionError } from "./errors";
+
 /**
  * Password credential for Standard security handler.
  */
@@ -14,23 +19,41 @@ export interface PasswordCredential {
 }
 
 /**
- * Certificate credential for Public Key security handler (future).
+ * Certificate credential for the public-key security handler.
  */
 export interface CertificateCredential {
   type: "certificate";
+  /** Recipient's X.509 certificate (DER) */
   certificate: Uint8Array;
+  /** Matching RSA private key (PKCS#8 DER) */
   privateKey: Uint8Array;
 }
 
+/**
+ * PKCS#12 (.p12/.pfx) credential for the public-key security handler.
+ *
+ * Takes the same inputs as `P12Signer.create()`. Unlocking the file is
+ * asynchronous, so it is resolved to a {@link CertificateCredential} by
+ * `PDF.load()` before parsing.
+ */
+export interface P12Credential {
+  type: "p12";
+  /** PKCS#12 file bytes */
+  data: Uint8Array;
+  /** Password protecting the file */
+  password: string;
+}
+
 /**
  * Credentials for decrypting a document.
  *
  * Can be provided as:
  * - A plain string (shorthand for password credential)
  * - A PasswordCredential object
- * - A CertificateCredential object (future support)
+ * - A CertificateCredential object
+ * - A P12Credential object (resolved by `PDF.load()`)
  */
-export type DecryptionCredential = PasswordCredential | CertificateCredential;
+export type DecryptionCredential = PasswordCredential | CertificateCredential | P12Credential;
 
 /**
  * Input type that accepts either explicit credentials or string shorthand.
@@ -68,3 +91,47 @@ export function isCertificateCredential(
 ): credential is CertificateCredential {
   return credential.type === "certificate";
 }
+
+/**
+ * Check if the credential is a PKCS#12 credential.
+ */
+export function isP12Credential(credential: DecryptionCredential): credential is P12Credential {
+  return credential.type === "p12";
+}
+
+/**
+ * Resolve credentials that need asynchronous work before parsing.
+ *
+ * PKCS#12 credentials are unlocked into a certificate credential; all
+ * other inputs are returned unchanged.
+ *
+ * @param input - Credential input
+ * @returns Credential usable by the (synchronous) document parser
+ * @throws {UnsupportedEncryptionError} if the PKCS#12 file can't be unlocked
+ */
+export async function resolveCredential(input: CredentialInput): Promise<CredentialInput> {
+  if (typeof input === "string" || !isP12Credential(input)) {
+    return input;
+  }
+
+  try {
+    const { privateKey, certificates } = await parsePkcs12(input.data, input.password);
+
+    if (!privateKey || certificates.length === 0) {
+      throw new Error("the file has no private key and certificate");
+    }
+
+    return {
+      type: "certificate",
+      certificate: new Uint8Array(certificates[0].toSchema().toBER(false)),
+      privateKey: new Uint8Array(privateKey.toSchema().toBER(false)),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    throw new UnsupportedEncryptionError(
+      `Failed to unlock PKCS#12 credential: ${message}`,
+      "INVALID_CREDENTIALS",
+    );
+  }
+}
@@ -7,7 +7,9 @@
  * @see PDF 2.0 Specification, Section 7.6.2 (Standard encryption dictionary)
  */
 
+import { PdfArray } from "../objects/pdf-array";
 import { PdfDict } from "../objects/pdf-dict";
+import { PdfString } from "../objects/pdf-string";
 import { EncryptionDictError } from "./errors";
 import { parsePermissions, type Permissions } from "./permissions";
 import {
@@ -98,11 +100,15 @@ export interface EncryptionDict {
 
 /**
  * Parse a crypt filter dictionary.
+ *
+ * Public-key crypt filters also carry /Recipients and /EncryptMetadata.
  */
-function parseCryptFilter(dict: PdfDict): CryptFilter {
+export function parseCryptFilter(dict: PdfDict): CryptFilter {
   const cfm = dict.getName("CFM")?.value ?? "None";
   const authEvent = dict.getName("AuthEvent")?.value;
   const length = dict.getNumber("Length")?.value;
+  const recipients = parseRecipients(dict);
+  const encryptMetadata = dict.getBool("EncryptMetadata")?.value;
 
   // Validate CFM
   if (!isCryptFilterMethod(cfm)) {
@@ -114,11 +120,44 @@ function parseCryptFilter(dict: PdfDict): CryptFilter {
     throw new EncryptionDictError(`Invalid auth event: ${authEvent}`);
   }
 
-  return {
-    cfm,
-    authEvent,
-    length,
-  };
+  const filter: CryptFilter = { cfm, authEvent, length };
+
+  if (recipients) {
+    filter.recipients = recipients;
+  }
+
+  if (encryptMetadata !== undefined) {
+    filter.encryptMetadata = encryptMetadata;
+  }
+
+  return filter;
+}
+
+/**
+ * Parse a /Recipients entry: an array of PKCS#7 envelopes, or a single one.
+ *
+ * @returns Envelope bytes, or undefined if the entry is absent
+ */
+export function parseRecipients(dict: PdfDict): Uint8Array[] | undefined {
+  const value = dict.get("Recipients");
+
+  if (value instanceof PdfString) {
+    return [value.bytes];
+  }
+
+  if (!(value instanceof PdfArray)) {
+    return undefined;
+  }
+
+  const recipients: Uint8Array[] = [];
+
+  for (const item of value) {
+    if (item instanceof PdfString) {
+      recipients.push(item.bytes);
+    }
+  }
+
+  return recipients;
 }
 
 /**
@@ -2,25 +2,38 @@
  * Encryption generator for creating encryption dictionaries.
  *
  * This module generates all components needed to encrypt a PDF document
- * using the Standard security handler with AES-256 (V5/R6).
+ * using the Standard security handler with AES-256 (V5/R6), or the
+ * public-key handler for a list of recipient certificates.
  *
  * @see PDF 2.0 Specification, Section 7.6.4 (Standard Security Handler)
+ * @see PDF 2.0 Specification, Section 7.6.5 (Public-key security handlers)
  */
 
 import type { ProtectionOptions } from "#src/api/pdf-security";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfBool } from "#src/objects/pdf-bool";
 import { PdfDict } from "#src/objects/pdf-dict";
 import { PdfName } from "#src/objects/pdf-name";
 import { PdfNumber } from "#src/objects/pdf-number";
 import { PdfString } from "#src/objects/pdf-string";
 import { randomBytes } from "@noble/ciphers/utils.js";
 
-import type { EncryptionDict } from "./encryption-dict";
+import type { CryptFilter, EncryptionDict } from "./encryption-dict";
+import {
+  computePublicKeyFileKey,
+  encodeRecipientData,
+  SEED_LENGTH,
+} from "./key-derivation/public-key";
 import {
   generateOwnerEntries,
   generatePermsEntry,
   generateUserEntries,
 } from "./key-derivation/sha-based";
 import { DEFAULT_PERMISSIONS, encodePermissions, type Permissions } from "./permissions";
+import { createEnvelope } from "./pkcs7-envelope";
+import { PUBLIC_KEY_FILTER, type PublicKeyEncryptionDict } from "./public-key-dict";
+import { PublicKeySecurityHandler } from "./public-key-handler";
+import type { DocumentEncryption, SecurityHandler } from "./security-handler";
 import { StandardSecurityHandler } from "./standard-handler";
 
 /**
@@ -34,7 +47,7 @@ export interface GeneratedEncryption {
   fileId: [Uint8Array, Uint8Array];
 
   /** Security handler for encrypting strings and streams */
-  securityHandler: StandardSecurityHandler;
+  securityHandler: SecurityHandler;
 }
 
 /**
@@ -43,10 +56,14 @@ export interface GeneratedEncryption {
  * Creates all the necessary encryption dictionary entries and
  * returns a security handler that can encrypt content.
  *
- * @param options - Protection options (passwords, permissions, algorithm)
+ * @param options - Protection options (passwords or recipients, permissions, algorithm)
  * @returns Generated encryption data
  */
 export function generateEncryption(options: ProtectionOptions): GeneratedEncryption {
+  if (options.recipients) {
+    return generatePublicKeyEncryption(options);
+  }
+
   // Only support AES-256 for new encryption
   const algorithm = options.algorithm ?? "AES-256";
 
@@ -162,6 +179,102 @@ export function generateEncryption(options: ProtectionOptions): GeneratedEncrypt
   };
 }
 
+/**
+ * Generate public-key encryption for a list of recipient certificates.
+ *
+ * Every recipient gets an envelope holding the shared seed and their own
+ * permissions. adbe.pkcs7.s5 (default) stores the envelopes in a
+ * /DefaultCryptFilter using AES; adbe.pkcs7.s4 stores them in the
+ * encryption dictionary and uses RC4.
+ */
+function generatePublicKeyEncryption(options: ProtectionOptions): GeneratedEncryption {
+  const recipients = options.recipients ?? [];
+
+  if (recipients.length === 0) {
+    throw new Error("Certificate encryption requires at least one recipient");
+  }
+
+  if (options.userPassword !== undefined || options.ownerPassword !== undefined) {
+    throw new Error("Certificate encryption cannot be combined with passwords");
+  }
+
+  if (options.permissions !== undefined) {
+    throw new Error("Certificate encryption takes permissions per recipient");
+  }
+
+  const subFilter = options.subFilter ?? "adbe.pkcs7.s5";
+  const isS5 = subFilter === "adbe.pkcs7.s5";
+  const algorithm = options.algorithm ?? (isS5 ? "AES-256" : "RC4-128");
+
+  const supported = isS5 ? ["AES-128", "AES-256"] : ["RC4-40", "RC4-128"];
+
+  if (!supported.includes(algorithm)) {
+    throw new Error(
+      `${subFilter} encryption supports ${supported.join(" and ")}. Got: ${algorithm}`,
+    );
+  }
+
+  const keyLengthBits = algorithm === "AES-256" ? 256 : algorithm === "RC4-40" ? 40 : 128;
+
+  // s4 has no crypt filters, so metadata is always encrypted
+  const encryptMetadata = isS5 ? (options.encryptMetadata ?? true) : true;
+
+  // One envelope per recipient, all sharing the same seed
+  const seed = randomBytes(SEED_LENGTH);
+  const envelopes = recipients.map(recipient => {
+    const permissions: Permissions = { ...DEFAULT_PERMISSIONS, ...recipient.permissions };
+
+    return createEnvelope(
+      encodeRecipientData(seed, encodePermissions(permissions)),
+      recipient.certificate,
+    );
+  });
+
+  const fileKey = computePublicKeyFileKey(seed, envelopes, encryptMetadata, keyLengthBits);
+
+  const encryption: PublicKeyEncryptionDict = isS5
+    ? {
+        filter: PUBLIC_KEY_FILTER,
+        subFilter,
+        version: algorithm === "AES-256" ? 5 : 4,
+        keyLengthBits,
+        recipients: envelopes,
+        encryptMetadata,
+        algorithm: algorithm === "AES-256" ? "AES-256" : "AES-128",
+        cryptFilters: new Map([
+          [
+            "DefaultCryptFilter",
+            {
+              cfm: algorithm === "AES-256" ? "AESV3" : "AESV2",
+              authEvent: "DocOpen",
+              length: keyLengthBits / 8,
+              recipients: envelopes,
+              encryptMetadata,
+            },
+          ],
+        ]),
+        streamFilter: "DefaultCryptFilter",
+        stringFilter: "DefaultCryptFilter",
+      }
+    : {
+        filter: PUBLIC_KEY_FILTER,
+        subFilter,
+        version: keyLengthBits === 40 ? 1 : 2,
+        keyLengthBits,
+        recipients: envelopes,
+        encryptMetadata,
+        algorithm: "RC4",
+      };
+
+  const fileId: [Uint8Array, Uint8Array] = [randomBytes(16), randomBytes(16)];
+
+  return {
+    encryptDict: reconstructEncryptDict(encryption),
+    fileId,
+    securityHandler: PublicKeySecurityHandler.withFileKey(encryption, fileKey),
+  };
+}
+
 /**
  * Generate a random password for owner password when not specified.
  *
@@ -185,7 +298,11 @@ function generateRandomPassword(): string {
  * @param encryption The parsed encryption dictionary
  * @returns A PdfDict that can be written to the PDF
  */
-export function reconstructEncryptDict(encryption: EncryptionDict): PdfDict {
+export function reconstructEncryptDict(encryption: DocumentEncryption): PdfDict {
+  if (encryption.filter === PUBLIC_KEY_FILTER) {
+    return reconstructPublicKeyEncryptDict(encryption);
+  }
+
   const dict = PdfDict.of({
     Filter: PdfName.of(encryption.filter),
     V: PdfNumber.of(encryption.version),
@@ -209,7 +326,56 @@ export function reconstructEncryptDict(encryption: EncryptionDict): PdfDict {
     dict.set("Perms", PdfString.fromBytes(encryption.permsValue));
   }
 
-  // Crypt filters (V4+)
+  setCryptFilters(dict, encryption);
+
+  // EncryptMetadata (only if false, true is default)
+  if (!encryption.encryptMetadata) {
+    dict.set("EncryptMetadata", PdfName.of("false"));
+  }
+
+  return dict;
+}
+
+/**
+ * Reconstruct a public-key (/Adobe.PubSec) encryption dictionary.
+ *
+ * The recipient envelopes are written back byte for byte, since the file
+ * key is derived from them.
+ */
+function reconstructPublicKeyEncryptDict(encryption: PublicKeyEncryptionDict): PdfDict {
+  const dict = PdfDict.of({
+    Filter: PdfName.of(encryption.filter),
+    SubFilter: PdfName.of(encryption.subFilter),
+    V: PdfNumber.of(encryption.version),
+  });
+
+  if (encryption.revision !== undefined) {
+    dict.set("R", PdfNumber.of(encryption.revision));
+  }
+
+  if (encryption.version < 4) {
+    dict.set("Length", PdfNumber.of(encryption.keyLengthBits));
+    dict.set("Recipients", createRecipientsArray(encryption.recipients));
+
+    return dict;
+  }
+
+  setCryptFilters(dict, encryption);
+
+  return dict;
+}
+
+/**
+ * Write /CF, /StmF and /StrF (V4+).
+ */
+function setCryptFilters(
+  dict: PdfDict,
+  encryption: {
+    cryptFilters?: Map<string, CryptFilter>;
+    streamFilter?: string;
+    stringFilter?: string;
+  },
+): void {
   if (encryption.cryptFilters && encryption.cryptFilters.size > 0) {
     const cfDict = new PdfDict();
 
@@ -226,6 +392,15 @@ export function reconstructEncryptDict(encryption: EncryptionDict): PdfDict {
         filterDict.set("Length", PdfNumber.of(filter.length));
       }
 
+      // Public-key crypt filters carry the recipients
+      if (filter.recipients) {
+        filterDict.set("Recipients", createRecipientsArray(filter.recipients));
+      }
+
+      if (filter.encryptMetadata === false) {
+        filterDict.set("EncryptMetadata", PdfBool.of(false));
+      }
+
       cfDict.set(name, filterDict);
     }
 
@@ -240,11 +415,11 @@ export function reconstructEncryptDict(encryption: EncryptionDict): PdfDict {
   if (encryption.stringFilter) {
     dict.set("StrF", PdfName.of(encryption.stringFilter));
   }
+}
 
-  // EncryptMetadata (only if false, true is default)
-  if (!encryption.encryptMetadata) {
-    dict.set("EncryptMetadata", PdfName.of("false"));
-  }
-
-  return dict;
+/**
+ * Build a /Recipients array of hex strings.
+ */
+function createRecipientsArray(recipients: Uint8Array[]): PdfArray {
+  return new PdfArray(recipients.map(recipient => PdfString.fromBytes(recipient)));
 }
@@ -27,14 +27,24 @@ export interface HandlerConfig {
   embeddedFileHandler: AbstractSecurityHandler;
 }
 
+/**
+ * Encryption parameters that select the handlers.
+ *
+ * Shared by the Standard and public-key encryption dictionaries.
+ */
+export type HandlerParams = Pick<
+  EncryptionDict,
+  "version" | "algorithm" | "stringFilter" | "streamFilter" | "embeddedFileFilter" | "cryptFilters"
+>;
+
 /**
  * Create security handlers from an encryption dictionary and file key.
  *
  * @param encryptDict - Parsed encryption dictionary
- * @param fileKey - File encryption key (from password verification)
+ * @param fileKey - File encryption key (from password or recipient verification)
  * @returns Handler configuration for strings, streams, and embedded files
  */
-export function createHandlers(encryptDict: EncryptionDict, fileKey: Uint8Array): HandlerConfig {
+export function createHandlers(encryptDict: HandlerParams, fileKey: Uint8Array): HandlerConfig {
   const { version, algorithm, stringFilter, streamFilter, embeddedFileFilter, cryptFilters } =
     encryptDict;
 
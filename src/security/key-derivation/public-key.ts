@@ -0,0 +1,98 @@
+/**
+ * Key derivation for the public-key security handler.
+ *
+ * Every recipient envelope holds the same 20-byte seed followed by that
+ * recipient's 4-byte permission flags. The file encryption key is a hash of
+ * the seed and all envelopes, so it only changes when the recipient list does.
+ *
+ * @see PDF 2.0 Specification, Section 7.6.5.3 (Public-key encryption algorithms)
+ */
+
+import { sha1 } from "@noble/hashes/legacy.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+
+/** Length of the random seed shared by all recipients */
+export const SEED_LENGTH = 20;
+
+/**
+ * Decoded content of a recipient envelope.
+ */
+export interface RecipientData {
+  /** Seed shared by all recipients */
+  seed: Uint8Array;
+  /** Raw permission flags (/P format) for this recipient */
+  permissionsRaw: number;
+}
+
+/**
+ * Encode the enveloped content for one recipient: seed + big-endian permissions.
+ *
+ * @param seed - 20-byte random seed
+ * @param permissionsRaw - Permission flags in /P format
+ */
+export function encodeRecipientData(seed: Uint8Array, permissionsRaw: number): Uint8Array {
+  const data = new Uint8Array(SEED_LENGTH + 4);
+
+  data.set(seed.subarray(0, SEED_LENGTH));
+  new DataView(data.buffer).setInt32(SEED_LENGTH, permissionsRaw);
+
+  return data;
+}
+
+/**
+ * Decode enveloped content into the seed and permission flags.
+ *
+ * Older (adbe.pkcs7.s3) envelopes may omit the permissions, in which case
+ * everything is allowed.
+ *
+ * @returns Decoded data, or null if the content is too short
+ */
+export function decodeRecipientData(data: Uint8Array): RecipientData | null {
+  if (data.length < SEED_LENGTH) {
+    return null;
+  }
+
+  const seed = data.slice(0, SEED_LENGTH);
+
+  if (data.length < SEED_LENGTH + 4) {
+    return { seed, permissionsRaw: -1 };
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  return { seed, permissionsRaw: view.getInt32(SEED_LENGTH) };
+}
+
+/**
+ * Compute the file encryption key.
+ *
+ * Hashes the seed, every envelope in /Recipients order, and 0xFFFFFFFF when
+ * metadata is left unencrypted. SHA-256 is used for 256-bit keys (AESV3),
+ * SHA-1 otherwise; the digest is truncated to the key length.
+ *
+ * @param seed - Seed recovered from (or placed in) the envelopes
+ * @param recipients - All envelopes, exactly as stored in /Recipients
+ * @param encryptMetadata - Whether metadata streams are encrypted
+ * @param keyLengthBits - File key length in bits
+ * @returns File encryption key
+ */
+export function computePublicKeyFileKey(
+  seed: Uint8Array,
+  recipients: Uint8Array[],
+  encryptMetadata: boolean,
+  keyLengthBits: number,
+): Uint8Array {
+  const hash = keyLengthBits === 256 ? sha256.create() : sha1.create();
+
+  hash.update(seed);
+
+  for (const recipient of recipients) {
+    hash.update(recipient);
+  }
+
+  if (!encryptMetadata) {
+    hash.update(new Uint8Array([0xff, 0xff, 0xff, 0xff]));
+  }
+
+  return hash.digest().slice(0, keyLengthBits / 8);
+}
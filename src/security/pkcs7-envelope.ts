@@ -0,0 +1,372 @@
+/**
+ * PKCS#7 enveloped data for the public-key security handler.
+ *
+ * Each entry in /Recipients is a CMS ContentInfo wrapping EnvelopedData.
+ * The enveloped content (seed + permissions) is encrypted with a random
+ * content-encryption key, which is in turn encrypted to the recipient's
+ * RSA public key (KeyTransRecipientInfo).
+ *
+ * Everything here is synchronous so documents can be opened during parsing.
+ *
+ * @see PDF 2.0 Specification, Section 7.6.5 (Public-key security handlers)
+ * @see RFC 5652, Section 6 (Enveloped-data content type)
+ */
+
+import { toArrayBuffer } from "#src/helpers/buffer";
+import { RC2, TripleDES } from "#src/signatures/crypto";
+import { OID_DATA, OID_RSA_ENCRYPTION } from "#src/signatures/oids";
+import { cbc } from "@noble/ciphers/aes.js";
+import { randomBytes } from "@noble/ciphers/utils.js";
+import { fromBER, Integer, Null, OctetString, Sequence } from "asn1js";
+import * as pkijs from "pkijs";
+
+import {
+  bytesToBigInt,
+  type RsaPrivateKey,
+  type RsaPublicKey,
+  rsaDecrypt,
+  rsaEncrypt,
+} from "./ciphers/rsa";
+import type { CertificateCredential } from "./credentials";
+import { UnsupportedEncryptionError } from "./errors";
+
+/** id-envelopedData (PKCS#7) */
+const OID_ENVELOPED_DATA = "1.2.840.113549.1.7.3";
+
+/** aes128-CBC */
+const OID_AES128_CBC = "2.16.840.1.101.3.4.1.2";
+
+/** aes192-CBC */
+const OID_AES192_CBC = "2.16.840.1.101.3.4.1.22";
+
+/** aes256-CBC */
+const OID_AES256_CBC = "2.16.840.1.101.3.4.1.42";
+
+/** des-ede3-cbc */
+const OID_DES_EDE3_CBC = "1.2.840.113549.3.7";
+
+/** rc2-cbc */
+const OID_RC2_CBC = "1.2.840.113549.3.2";
+
+/**
+ * RC2 parameter versions mapped to effective key bits (RFC 8018, B.2.3).
+ */
+const RC2_EFFECTIVE_BITS: Record<number, number> = {
+  160: 40,
+  120: 64,
+  58: 128,
+};
+
+/**
+ * A recipient able to open envelopes: their certificate and RSA private key.
+ */
+export interface EnvelopeRecipient {
+  certificate: pkijs.Certificate;
+  privateKey: RsaPrivateKey;
+}
+
+/**
+ * Parse a certificate credential into an envelope recipient.
+ *
+ * @param credential - Certificate (DER) and PKCS#8 private key (DER)
+ * @returns Parsed recipient
+ * @throws {UnsupportedEncryptionError} if the key isn't RSA or can't be parsed
+ */
+export function parseEnvelopeRecipient(credential: CertificateCredential): EnvelopeRecipient {
+  let certificate: pkijs.Certificate;
+  let keyInfo: pkijs.PrivateKeyInfo;
+
+  try {
+    certificate = pkijs.Certificate.fromBER(toArrayBuffer(credential.certificate));
+    keyInfo = pkijs.PrivateKeyInfo.fromBER(toArrayBuffer(credential.privateKey));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    throw new UnsupportedEncryptionError(
+      `Invalid certificate credential: ${message}`,
+      "INVALID_CREDENTIALS",
+    );
+  }
+
+  const parsedKey = keyInfo.parsedKey;
+
+  if (keyInfo.privateKeyAlgorithm.algorithmId !== OID_RSA_ENCRYPTION || !parsedKey) {
+    throw new UnsupportedEncryptionError(
+      "Certificate-encrypted documents can only be opened with an RSA private key",
+      "UNSUPPORTED_CREDENTIALS",
+    );
+  }
+
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  const rsaKey = parsedKey as pkijs.RSAPrivateKey;
+
+  return {
+    certificate,
+    privateKey: {
+      modulus: toUnsigned(rsaKey.modulus),
+      publicExponent: toUnsigned(rsaKey.publicExponent),
+      privateExponent: toUnsigned(rsaKey.privateExponent),
+      prime1: toUnsigned(rsaKey.prime1),
+      prime2: toUnsigned(rsaKey.prime2),
+      exponent1: toUnsigned(rsaKey.exponent1),
+      exponent2: toUnsigned(rsaKey.exponent2),
+      coefficient: toUnsigned(rsaKey.coefficient),
+    },
+  };
+}
+
+/**
+ * Encrypt content to a recipient's certificate.
+ *
+ * Uses AES-256-CBC for the content and RSAES-PKCS1-v1_5 key transport,
+ * as Acrobat does.
+ *
+ * @param content - Content to envelope
+ * @param certificateDer - Recipient's X.509 certificate (DER)
+ * @returns DER-encoded ContentInfo
+ * @throws {Error} if the certificate is invalid or doesn't hold an RSA key
+ */
+export function createEnvelope(content: Uint8Array, certificateDer: Uint8Array): Uint8Array {
+  let certificate: pkijs.Certificate;
+
+  try {
+    certificate = pkijs.Certificate.fromBER(toArrayBuffer(certificateDer));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    throw new Error(`Invalid recipient certificate: ${message}`, { cause: error });
+  }
+
+  const publicKey = getRsaPublicKey(certificate);
+
+  const contentKey = randomBytes(32);
+  const iv = randomBytes(16);
+  const encryptedContent = cbc(contentKey, iv).encrypt(content);
+
+  const recipientInfo = new pkijs.KeyTransRecipientInfo({
+    version: 0,
+    rid: new pkijs.IssuerAndSerialNumber({
+      issuer: certificate.issuer,
+      serialNumber: certificate.serialNumber,
+    }),
+    keyEncryptionAlgorithm: new pkijs.AlgorithmIdentifier({
+      algorithmId: OID_RSA_ENCRYPTION,
+      algorithmParams: new Null(),
+    }),
+    encryptedKey: new OctetString({ valueHex: toArrayBuffer(rsaEncrypt(publicKey, contentKey)) }),
+  });
+
+  const envelopedData = new pkijs.EnvelopedData({
+    version: 0,
+    recipientInfos: [new pkijs.RecipientInfo({ variant: 1, value: recipientInfo })],
+    encryptedContentInfo: new pkijs.EncryptedContentInfo({
+      contentType: OID_DATA,
+      contentEncryptionAlgorithm: new pkijs.AlgorithmIdentifier({
+        algorithmId: OID_AES256_CBC,
+        algorithmParams: new OctetString({ valueHex: toArrayBuffer(iv) }),
+      }),
+      encryptedContent: new OctetString({ valueHex: toArrayBuffer(encryptedContent) }),
+      disableSplit: true,
+    }),
+  });
+
+  const contentInfo = new pkijs.ContentInfo({
+    contentType: OID_ENVELOPED_DATA,
+    content: envelopedData.toSchema(),
+  });
+
+  return new Uint8Array(contentInfo.toSchema().toBER(false));
+}
+
+/**
+ * Decrypt an envelope addressed to a recipient.
+ *
+ * @param envelope - DER-encoded ContentInfo from /Recipients
+ * @param recipient - Recipient certificate and private key
+ * @returns Enveloped content, or null if the envelope isn't addressed to
+ *   the recipient (or can't be decrypted with their key)
+ */
+export function openEnvelope(
+  envelope: Uint8Array,
+  recipient: EnvelopeRecipient,
+): Uint8Array | null {
+  const envelopedData = parseEnvelopedData(envelope);
+
+  if (!envelopedData) {
+    return null;
+  }
+
+  for (const info of envelopedData.recipientInfos) {
+    if (info.variant !== 1 || !(info.value instanceof pkijs.KeyTransRecipientInfo)) {
+      continue;
+    }
+
+    if (!matchesRecipient(info.value, recipient.certificate)) {
+      continue;
+    }
+
+    const encryptedKey = new Uint8Array(info.value.encryptedKey.valueBlock.valueHexView);
+    const contentKey = rsaDecrypt(recipient.privateKey, encryptedKey);
+
+    if (!contentKey) {
+      continue;
+    }
+
+    try {
+      return decryptContent(envelopedData.encryptedContentInfo, contentKey);
+    } catch {
+      // Wrong key (bad padding) - keep looking
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse ContentInfo → EnvelopedData, tolerating malformed input.
+ */
+function parseEnvelopedData(envelope: Uint8Array): pkijs.EnvelopedData | null {
+  try {
+    const asn1 = fromBER(toArrayBuffer(envelope));
+
+    if (asn1.offset === -1) {
+      return null;
+    }
+
+    const contentInfo = new pkijs.ContentInfo({ schema: asn1.result });
+
+    if (contentInfo.contentType !== OID_ENVELOPED_DATA) {
+      return null;
+    }
+
+    return new pkijs.EnvelopedData({ schema: contentInfo.content });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a KeyTransRecipientInfo identifies the certificate.
+ */
+function matchesRecipient(
+  info: pkijs.KeyTransRecipientInfo,
+  certificate: pkijs.Certificate,
+): boolean {
+  const rid = info.rid;
+
+  if (rid instanceof pkijs.IssuerAndSerialNumber) {
+    return (
+      rid.issuer.isEqual(certificate.issuer) && rid.serialNumber.isEqual(certificate.serialNumber)
+    );
+  }
+
+  // SubjectKeyIdentifier
+  const ski = certificate.extensions?.find(ext => ext.extnID === "2.5.29.14")?.parsedValue;
+
+  if (rid instanceof OctetString && ski instanceof OctetString) {
+    return rid.isEqual(ski);
+  }
+
+  return false;
+}
+
+/**
+ * Decrypt the EncryptedContentInfo with the content-encryption key.
+ */
+function decryptContent(info: pkijs.EncryptedContentInfo, key: Uint8Array): Uint8Array {
+  const { algorithmId, algorithmParams } = info.contentEncryptionAlgorithm;
+  const data = new Uint8Array(info.getEncryptedContent());
+
+  switch (algorithmId) {
+    case OID_AES128_CBC:
+    case OID_AES192_CBC:
+    case OID_AES256_CBC:
+      return cbc(key, getOctets(algorithmParams)).decrypt(data);
+
+    case OID_DES_EDE3_CBC:
+      return TripleDES.decrypt(data, key, getOctets(algorithmParams));
+
+    case OID_RC2_CBC: {
+      const { iv, effectiveBits } = parseRc2Params(algorithmParams, key);
+
+      return RC2.decrypt(data, key, iv, effectiveBits);
+    }
+
+    default:
+      throw new UnsupportedEncryptionError(
+        `Unsupported recipient content encryption algorithm: ${algorithmId}`,
+      );
+  }
+}
+
+/**
+ * Read an OCTET STRING algorithm parameter (the IV).
+ */
+function getOctets(params: unknown): Uint8Array {
+  if (!(params instanceof OctetString)) {
+    throw new Error("Missing IV in content encryption parameters");
+  }
+
+  return new Uint8Array(params.valueBlock.valueHexView);
+}
+
+/**
+ * Parse RC2-CBC parameters: SEQUENCE { version INTEGER OPTIONAL, iv OCTET STRING }.
+ */
+function parseRc2Params(
+  params: unknown,
+  key: Uint8Array,
+): { iv: Uint8Array; effectiveBits: number } {
+  if (params instanceof OctetString) {
+    return { iv: getOctets(params), effectiveBits: 32 };
+  }
+
+  if (!(params instanceof Sequence)) {
+    throw new Error("Missing RC2 parameters");
+  }
+
+  const [first, second] = params.valueBlock.value;
+
+  if (first instanceof Integer) {
+    const version = first.valueBlock.valueDec;
+
+    return {
+      iv: getOctets(second),
+      effectiveBits: RC2_EFFECTIVE_BITS[version] ?? (version >= 256 ? version : key.length * 8),
+    };
+  }
+
+  return { iv: getOctets(first), effectiveBits: 32 };
+}
+
+/**
+ * Extract the RSA public key from a certificate.
+ */
+function getRsaPublicKey(certificate: pkijs.Certificate): RsaPublicKey {
+  const spki = certificate.subjectPublicKeyInfo;
+
+  if (spki.algorithm.algorithmId !== OID_RSA_ENCRYPTION) {
+    throw new Error("Recipient certificates must hold an RSA public key");
+  }
+
+  const parsedKey = spki.parsedKey;
+
+  if (!(parsedKey instanceof pkijs.RSAPublicKey)) {
+    throw new Error("Failed to parse recipient RSA public key");
+  }
+
+  return {
+    modulus: toUnsigned(parsedKey.modulus),
+    publicExponent: toUnsigned(parsedKey.publicExponent),
+  };
+}
+
+/**
+ * Read an RSA key component as an unsigned integer.
+ *
+ * pkijs strips the DER sign byte from key integers, so Integer.toBigInt()
+ * would read large components as negative.
+ */
+function toUnsigned(value: Integer): bigint {
+  return bytesToBigInt(new Uint8Array(value.valueBlock.valueHexView));
+}
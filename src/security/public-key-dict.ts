@@ -0,0 +1,236 @@
+/**
+ * Encryption dictionary parsing for the public-key security handler.
+ *
+ * Certificate-encrypted documents use /Filter /Adobe.PubSec. With the
+ * adbe.pkcs7.s3 and s4 SubFilters, /Recipients sits in the encryption
+ * dictionary and RC4 is used; with adbe.pkcs7.s5 it moves into a crypt
+ * filter (usually /DefaultCryptFilter) that can also select AES.
+ *
+ * @see PDF 2.0 Specification, Section 7.6.5 (Public-key security handlers)
+ */
+
+import { PdfDict } from "../objects/pdf-dict";
+import { parseCryptFilter, parseRecipients } from "./encryption-dict";
+import { EncryptionDictError } from "./errors";
+import {
+  type CryptFilter,
+  type EncryptionAlgorithm,
+  type EncryptionVersion,
+  isEncryptionVersion,
+} from "./schemas";
+
+/** Security handler name for certificate encryption */
+export const PUBLIC_KEY_FILTER = "Adobe.PubSec";
+
+/**
+ * Public-key SubFilters.
+ *
+ * - adbe.pkcs7.s3: RC4, recipients without permissions (read only)
+ * - adbe.pkcs7.s4: RC4, per-recipient permissions
+ * - adbe.pkcs7.s5: crypt filters (RC4 or AES), per-recipient permissions
+ */
+export type PublicKeySubFilter = "adbe.pkcs7.s3" | "adbe.pkcs7.s4" | "adbe.pkcs7.s5";
+
+const SUB_FILTERS: readonly PublicKeySubFilter[] = [
+  "adbe.pkcs7.s3",
+  "adbe.pkcs7.s4",
+  "adbe.pkcs7.s5",
+];
+
+/**
+ * Parsed public-key encryption dictionary.
+ */
+export interface PublicKeyEncryptionDict {
+  /** Security handler filter */
+  filter: "Adobe.PubSec";
+
+  /** Public-key SubFilter */
+  subFilter: PublicKeySubFilter;
+
+  /** Algorithm version: 1, 2, 3, 4, or 5 */
+  version: EncryptionVersion;
+
+  /** Handler-specific revision (/R), if present */
+  revision?: number;
+
+  /** Key length in bits (40-256) */
+  keyLengthBits: number;
+
+  /**
+   * PKCS#7 envelopes, one per recipient group.
+   *
+   * Taken from the encryption dictionary (s3/s4) or from the stream crypt
+   * filter (s5). The file key is derived from these exact bytes.
+   */
+  recipients: Uint8Array[];
+
+  /** Whether metadata streams are encrypted */
+  encryptMetadata: boolean;
+
+  /** Crypt filters dictionary (V4+) */
+  cryptFilters?: Map<string, CryptFilter>;
+
+  /** Name of stream filter (V4+) */
+  streamFilter?: string;
+
+  /** Name of string filter (V4+) */
+  stringFilter?: string;
+
+  /** Name of embedded file filter (V4+) */
+  embeddedFileFilter?: string;
+
+  /** Derived encryption algorithm */
+  algorithm: EncryptionAlgorithm;
+}
+
+/**
+ * Check if an encryption dictionary uses the public-key handler.
+ */
+export function isPublicKeyEncryptDict(dict: PdfDict): boolean {
+  return dict.getName("Filter")?.value === PUBLIC_KEY_FILTER;
+}
+
+/**
+ * Parse a public-key encryption dictionary.
+ *
+ * @param dict - The /Encrypt dictionary
+ * @returns Parsed encryption parameters
+ * @throws {EncryptionDictError} if the dictionary is invalid or unsupported
+ */
+export function parsePublicKeyEncryptionDict(dict: PdfDict): PublicKeyEncryptionDict {
+  const subFilter = dict.getName("SubFilter")?.value;
+
+  if (!subFilter || !isPublicKeySubFilter(subFilter)) {
+    throw new EncryptionDictError(
+      subFilter
+        ? `Unsupported public-key SubFilter: ${subFilter}`
+        : "Missing /SubFilter in public-key encryption dictionary",
+    );
+  }
+
+  const version = dict.getNumber("V")?.value;
+
+  if (version === undefined || !isEncryptionVersion(version)) {
+    throw new EncryptionDictError(`Unsupported encryption version: ${version ?? "missing"}`);
+  }
+
+  const revision = dict.getNumber("R")?.value;
+
+  if (version < 4) {
+    const recipients = parseRecipients(dict);
+
+    if (!recipients || recipients.length === 0) {
+      throw new EncryptionDictError("Missing /Recipients in public-key encryption dictionary");
+    }
+
+    const keyLengthBits = version === 1 ? 40 : (dict.getNumber("Length")?.value ?? 40);
+
+    validateKeyLength(keyLengthBits);
+
+    return {
+      filter: PUBLIC_KEY_FILTER,
+      subFilter,
+      version,
+      revision,
+      keyLengthBits,
+      recipients,
+      encryptMetadata: true,
+      algorithm: "RC4",
+    };
+  }
+
+  // V4+: recipients live in the crypt filters
+  const cryptFilters = new Map<string, CryptFilter>();
+  const cfDict = dict.getDict("CF");
+
+  if (cfDict) {
+    for (const [name, filterDict] of cfDict) {
+      if (filterDict instanceof PdfDict) {
+        cryptFilters.set(name.value, parseCryptFilter(filterDict));
+      }
+    }
+  }
+
+  const streamFilter = dict.getName("StmF")?.value ?? "Identity";
+  const stringFilter = dict.getName("StrF")?.value ?? "Identity";
+  const embeddedFileFilter = dict.getName("EFF")?.value ?? streamFilter;
+
+  const filter =
+    cryptFilters.get(streamFilter) ??
+    cryptFilters.get(stringFilter) ??
+    [...cryptFilters.values()].find(f => f.recipients);
+
+  const recipients = filter?.recipients ?? parseRecipients(dict);
+
+  if (!filter || !recipients || recipients.length === 0) {
+    throw new EncryptionDictError("Missing /Recipients in public-key crypt filter");
+  }
+
+  const keyLengthBits = getCryptFilterKeyLength(filter, dict.getNumber("Length")?.value);
+
+  validateKeyLength(keyLengthBits);
+
+  return {
+    filter: PUBLIC_KEY_FILTER,
+    subFilter,
+    version,
+    revision,
+    keyLengthBits,
+    recipients,
+    encryptMetadata: filter.encryptMetadata ?? dict.getBool("EncryptMetadata")?.value ?? true,
+    cryptFilters,
+    streamFilter,
+    stringFilter,
+    embeddedFileFilter,
+    algorithm: getCryptFilterAlgorithm(filter),
+  };
+}
+
+/**
+ * Check whether a name is a supported public-key SubFilter.
+ */
+function isPublicKeySubFilter(name: string): name is PublicKeySubFilter {
+  return SUB_FILTERS.some(subFilter => subFilter === name);
+}
+
+/**
+ * Key length of a crypt filter in bits.
+ *
+ * /Length is nominally in bytes for crypt filters, but writers disagree,
+ * so small values are treated as bytes and large ones as bits.
+ */
+function getCryptFilterKeyLength(filter: CryptFilter, dictLength: number | undefined): number {
+  switch (filter.cfm) {
+    case "AESV3":
+      return 256;
+    case "AESV2":
+      return 128;
+  }
+
+  const length = filter.length ?? dictLength ?? 128;
+
+  return length <= 32 ? length * 8 : length;
+}
+
+/**
+ * Encryption algorithm selected by a crypt filter.
+ */
+function getCryptFilterAlgorithm(filter: CryptFilter): EncryptionAlgorithm {
+  switch (filter.cfm) {
+    case "AESV3":
+      return "AES-256";
+    case "AESV2":
+      return "AES-128";
+    default:
+      return "RC4";
+  }
+}
+
+/**
+ * Validate a key length in bits.
+ */
+function validateKeyLength(keyLengthBits: number): void {
+  if (keyLengthBits < 40 || keyLengthBits > 256 || keyLengthBits % 8 !== 0) {
+    throw new EncryptionDictError(`Invalid key length: ${keyLengthBits} bits`);
+  }
+}
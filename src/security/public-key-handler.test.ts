@@ -0,0 +1,186 @@
+import { P12Signer } from "#src/signatures/signers";
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import type { CertificateCredential } from "./credentials";
+import { generateEncryption } from "./encryption-generator";
+import { decodeRecipientData, encodeRecipientData } from "./key-derivation/public-key";
+import { createEnvelope, openEnvelope, parseEnvelopeRecipient } from "./pkcs7-envelope";
+import { parsePublicKeyEncryptionDict } from "./public-key-dict";
+import { PublicKeySecurityHandler } from "./public-key-handler";
+
+async function loadCredential(): Promise<CertificateCredential> {
+  const p12 = await loadFixture("certificates", "test-signer-aes256.p12");
+  const signer = await P12Signer.create(p12, "test123");
+
+  return signer.toCredential();
+}
+
+describe("PublicKeySecurityHandler", () => {
+  describe("recipient envelopes", () => {
+    it("round-trips seed and permissions", async () => {
+      const credential = await loadCredential();
+      const seed = new Uint8Array(20).fill(9);
+
+      const envelope = createEnvelope(encodeRecipientData(seed, -3904), credential.certificate);
+      const content = openEnvelope(envelope, parseEnvelopeRecipient(credential));
+
+      expect(content && decodeRecipientData(content)).toEqual({ seed, permissionsRaw: -3904 });
+    });
+
+    it("ignores envelopes addressed to other certificates", async () => {
+      const credential = await loadCredential();
+      const other = await loadFixture("certificates", "real/amazon-0.der");
+
+      const envelope = createEnvelope(new Uint8Array(24), other);
+
+      expect(openEnvelope(envelope, parseEnvelopeRecipient(credential))).toBeNull();
+    });
+
+    it("rejects non-RSA private keys", async () => {
+      const p12 = await loadFixture("certificates", "test-signer-ec-p256-aes256.p12");
+      const credential = await (await P12Signer.create(p12, "test123")).toCredential();
+
+      expect(() => parseEnvelopeRecipient(credential)).toThrow(/RSA private key/);
+    });
+  });
+
+  describe("generated encryption", () => {
+    it("writes an s5 dictionary with a default crypt filter", async () => {
+      const credential = await loadCredential();
+
+      const { encryptDict } = generateEncryption({
+        recipients: [{ certificate: credential.certificate }],
+      });
+
+      const cf = encryptDict.getDict("CF")?.getDict("DefaultCryptFilter");
+
+      expect(encryptDict.getName("Filter")?.value).toBe("Adobe.PubSec");
+      expect(encryptDict.getName("SubFilter")?.value).toBe("adbe.pkcs7.s5");
+      expect(encryptDict.getNumber("V")?.value).toBe(5);
+      expect(cf?.getName("CFM")?.value).toBe("AESV3");
+      expect(cf?.getArray("Recipients")?.length).toBe(1);
+      expect(encryptDict.getName("StmF")?.value).toBe("DefaultCryptFilter");
+    });
+
+    it("writes an s4 dictionary with top-level recipients", async () => {
+      const credential = await loadCredential();
+
+      const { encryptDict } = generateEncryption({
+        recipients: [{ certificate: credential.certificate }],
+        subFilter: "adbe.pkcs7.s4",
+      });
+
+      const parsed = parsePublicKeyEncryptionDict(encryptDict);
+
+      expect(parsed.subFilter).toBe("adbe.pkcs7.s4");
+      expect(parsed.algorithm).toBe("RC4");
+      expect(parsed.keyLengthBits).toBe(128);
+      expect(encryptDict.getArray("Recipients")?.length).toBe(1);
+    });
+
+    it("rejects passwords combined with recipients", async () => {
+      const credential = await loadCredential();
+
+      expect(() =>
+        generateEncryption({
+          userPassword: "secret",
+          recipients: [{ certificate: credential.certificate }],
+        }),
+      ).toThrow(/cannot be combined with passwords/);
+    });
+
+    it("rejects algorithms the SubFilter can't use", async () => {
+      const credential = await loadCredential();
+
+      expect(() =>
+        generateEncryption({
+          recipients: [{ certificate: credential.certificate }],
+          subFilter: "adbe.pkcs7.s4",
+          algorithm: "AES-256",
+        }),
+      ).toThrow(/supports RC4-40 and RC4-128/);
+    });
+  });
+
+  describe("authentication", () => {
+    it("derives the same file key as the creator", async () => {
+      const credential = await loadCredential();
+
+      const generated = generateEncryption({
+        recipients: [{ certificate: credential.certificate }],
+      });
+
+      const handler = new PublicKeySecurityHandler(
+        parsePublicKeyEncryptionDict(generated.encryptDict),
+      );
+
+      const result = handler.authenticateWithCredential(credential);
+
+      expect(result.authenticated).toBe(true);
+      expect(result.isOwner).toBe(true);
+
+      const encrypted = generated.securityHandler.encryptString(
+        new TextEncoder().encode("hello"),
+        4,
+        0,
+      );
+
+      expect(new TextDecoder().decode(handler.decryptString(encrypted, 4, 0))).toBe("hello");
+    });
+
+    it("applies the recipient's permissions", async () => {
+      const credential = await loadCredential();
+      const other = await loadFixture("certificates", "real/amazon-0.der");
+
+      const generated = generateEncryption({
+        recipients: [
+          { certificate: other },
+          { certificate: credential.certificate, permissions: { copy: false, modify: false } },
+        ],
+      });
+
+      const handler = new PublicKeySecurityHandler(
+        parsePublicKeyEncryptionDict(generated.encryptDict),
+      );
+
+      const result = handler.authenticateWithCredential(credential);
+
+      expect(result.authenticated).toBe(true);
+      expect(result.isOwner).toBe(false);
+      expect(handler.permissions.copy).toBe(false);
+      expect(handler.permissions.modify).toBe(false);
+      expect(handler.permissions.print).toBe(true);
+    });
+
+    it("stays unauthenticated for a certificate that isn't a recipient", async () => {
+      const credential = await loadCredential();
+      const other = await loadFixture("certificates", "real/amazon-0.der");
+      const generated = generateEncryption({ recipients: [{ certificate: other }] });
+
+      const handler = new PublicKeySecurityHandler(
+        parsePublicKeyEncryptionDict(generated.encryptDict),
+      );
+
+      expect(handler.authenticateWithCredential(credential).authenticated).toBe(false);
+      expect(handler.isAuthenticated).toBe(false);
+      expect(handler.permissions.print).toBe(false);
+    });
+
+    it("rejects password credentials", () => {
+      const handler = new PublicKeySecurityHandler({
+        filter: "Adobe.PubSec",
+        subFilter: "adbe.pkcs7.s4",
+        version: 2,
+        keyLengthBits: 128,
+        recipients: [],
+        encryptMetadata: true,
+        algorithm: "RC4",
+      });
+
+      expect(() => handler.authenticateWithCredential({ type: "password", password: "x" })).toThrow(
+        /requires a certificate credential/,
+      );
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Public-key security handler for PDF encryption.
+ *
+ * This handler implements certificate-based encryption (/Filter
+ * /Adobe.PubSec). Instead of passwords, the file encryption key is
+ * derived from a seed that is encrypted to each recipient's X.509
+ * certificate, together with that recipient's permissions.
+ *
+ * Supports:
+ * - adbe.pkcs7.s3 / s4: RC4 (40-128 bit)
+ * - adbe.pkcs7.s5: crypt filters with RC4, AES-128 or AES-256
+ *
+ * @see PDF 2.0 Specification, Section 7.6.5 (Public-key security handlers)
+ */
+
+import { type DecryptionCredential, isCertificateCredential, isP12Credential } from "./credentials";
+import type { EncryptionVersion } from "./encryption-dict";
+import { UnsupportedEncryptionError } from "./errors";
+import type { AbstractSecurityHandler } from "./handlers/abstract";
+import { createHandlers, type HandlerConfig } from "./handlers/factory";
+import { computePublicKeyFileKey, decodeRecipientData } from "./key-derivation/public-key";
+import { DEFAULT_PERMISSIONS, parsePermissions, type Permissions } from "./permissions";
+import { openEnvelope, parseEnvelopeRecipient } from "./pkcs7-envelope";
+import type { PublicKeyEncryptionDict } from "./public-key-dict";
+import type { AuthResult } from "./standard-handler";
+
+/** No permissions: reported until a recipient has been authenticated */
+const NO_PERMISSIONS = parsePermissions(0);
+
+/**
+ * Public-key security handler for PDF decryption and encryption.
+ *
+ * Usage:
+ * 1. Create handler with the parsed public-key encryption dictionary
+ * 2. Call authenticateWithCredential() with a certificate credential
+ * 3. If authenticated, use decryptString/decryptStream for each object
+ *
+ * A recipient whose permissions grant everything has owner-level access.
+ */
+export class PublicKeySecurityHandler {
+  private handlers: HandlerConfig | null = null;
+  private authenticated = false;
+  private isOwner = false;
+  private recipientPermissions: Permissions = NO_PERMISSIONS;
+
+  constructor(private readonly encryptDict: PublicKeyEncryptionDict) {}
+
+  /**
+   * Create an authenticated handler for newly generated encryption.
+   *
+   * The creator of the encryption knows the file key and has full access.
+   *
+   * @param encryptDict - Generated encryption dictionary
+   * @param fileKey - File encryption key derived from the generated envelopes
+   */
+  static withFileKey(
+    encryptDict: PublicKeyEncryptionDict,
+    fileKey: Uint8Array,
+  ): PublicKeySecurityHandler {
+    const handler = new PublicKeySecurityHandler(encryptDict);
+
+    handler.setAuthenticated(fileKey, DEFAULT_PERMISSIONS);
+
+    return handler;
+  }
+
+  /**
+   * Get the encryption dictionary.
+   */
+  get encryption(): PublicKeyEncryptionDict {
+    return this.encryptDict;
+  }
+
+  /**
+   * Get the encryption version.
+   */
+  get version(): EncryptionVersion {
+    return this.encryptDict.version;
+  }
+
+  /**
+   * Get the authenticated recipient's permissions.
+   *
+   * Nothing is allowed until a recipient has been authenticated.
+   */
+  get permissions(): Permissions {
+    return this.recipientPermissions;
+  }
+
+  /**
+   * Check if the handler is authenticated.
+   */
+  get isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  /**
+   * Check if the authenticated recipient has every permission.
+   */
+  get hasOwnerAccess(): boolean {
+    return this.isOwner;
+  }
+
+  /**
+   * Get the string security handler (after authentication).
+   */
+  get stringHandler(): AbstractSecurityHandler | null {
+    return this.handlers?.stringHandler ?? null;
+  }
+
+  /**
+   * Get the stream security handler (after authentication).
+   */
+  get streamHandler(): AbstractSecurityHandler | null {
+    return this.handlers?.streamHandler ?? null;
+  }
+
+  /**
+   * Authenticate with a credential object.
+   *
+   * Looks for an envelope addressed to the certificate, decrypts it with
+   * the private key and derives the file key from the recovered seed.
+   *
+   * @param credential - Certificate credential
+   * @returns Authentication result (not authenticated if the certificate
+   *   isn't a recipient)
+   * @throws {UnsupportedEncryptionError} if the credential type is not
+   *   supported or the private key can't be used
+   */
+  authenticateWithCredential(credential: DecryptionCredential): AuthResult {
+    if (isP12Credential(credential)) {
+      throw new UnsupportedEncryptionError(
+        "PKCS#12 credentials must be resolved before parsing. " +
+          "Use PDF.load(), or pass a certificate credential from P12Signer.toCredential().",
+        "UNSUPPORTED_CREDENTIALS",
+      );
+    }
+
+    if (!isCertificateCredential(credential)) {
+      throw new UnsupportedEncryptionError(
+        "The public-key security handler (/Adobe.PubSec) requires a certificate credential. " +
+          "This document is encrypted to recipients' certificates, not with a password.",
+        "UNSUPPORTED_CREDENTIALS",
+      );
+    }
+
+    const recipient = parseEnvelopeRecipient(credential);
+
+    for (const envelope of this.encryptDict.recipients) {
+      const content = openEnvelope(envelope, recipient);
+      const data = content ? decodeRecipientData(content) : null;
+
+      if (!data) {
+        continue;
+      }
+
+      const fileKey = computePublicKeyFileKey(
+        data.seed,
+        this.encryptDict.recipients,
+        this.encryptDict.encryptMetadata,
+        this.encryptDict.keyLengthBits,
+      );
+
+      this.setAuthenticated(fileKey, parsePermissions(data.permissionsRaw));
+
+      return {
+        authenticated: true,
+        permissions: this.recipientPermissions,
+        isOwner: this.isOwner,
+      };
+    }
+
+    return {
+      authenticated: false,
+      permissions: this.recipientPermissions,
+      isOwner: false,
+    };
+  }
+
+  /**
+   * Passwords never open public-key encrypted documents.
+   *
+   * Present so both handlers can be used interchangeably; always fails.
+   */
+  authenticateWithString(_password: string): AuthResult {
+    return {
+      authenticated: false,
+      permissions: this.recipientPermissions,
+      isOwner: false,
+    };
+  }
+
+  /**
+   * Set authenticated state and create handlers.
+   */
+  private setAuthenticated(fileKey: Uint8Array, permissions: Permissions): void {
+    this.authenticated = true;
+    this.recipientPermissions = permissions;
+    this.isOwner = Object.values(permissions).every(Boolean);
+    this.handlers = createHandlers(this.encryptDict, fileKey);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Encryption methods
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Encrypt a string.
+   *
+   * @param data - Plaintext string bytes
+   * @param objectNumber - Object number containing the string
+   * @param generationNumber - Generation number
+   * @returns Encrypted string bytes
+   * @throws {Error} if not authenticated
+   */
+  encryptString(data: Uint8Array, objectNumber: number, generationNumber: number): Uint8Array {
+    if (!this.authenticated || !this.handlers) {
+      throw new Error("Not authenticated");
+    }
+
+    return this.handlers.stringHandler.encryptString(data, objectNumber, generationNumber);
+  }
+
+  /**
+   * Encrypt a stream.
+   *
+   * @param data - Plaintext stream bytes
+   * @param objectNumber - Object number containing the stream
+   * @param generationNumber - Generation number
+   * @returns Encrypted stream bytes
+   * @throws {Error} if not authenticated
+   */
+  encryptStream(data: Uint8Array, objectNumber: number, generationNumber: number): Uint8Array {
+    if (!this.authenticated || !this.handlers) {
+      throw new Error("Not authenticated");
+    }
+
+    return this.handlers.streamHandler.encryptStream(data, objectNumber, generationNumber);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Decryption methods
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Decrypt a string.
+   *
+   * @param data - Encrypted string bytes
+   * @param objectNumber - Object number containing the string
+   * @param generationNumber - Generation number
+   * @returns Decrypted string bytes
+   * @throws {Error} if not authenticated
+   */
+  decryptString(data: Uint8Array, objectNumber: number, generationNumber: number): Uint8Array {
+    if (!this.authenticated || !this.handlers) {
+      throw new Error("Not authenticated");
+    }
+
+    return this.handlers.stringHandler.decryptString(data, objectNumber, generationNumber);
+  }
+
+  /**
+   * Decrypt a stream.
+   *
+   * @param data - Encrypted stream bytes
+   * @param objectNumber - Object number containing the stream
+   * @param generationNumber - Generation number
+   * @returns Decrypted stream bytes
+   * @throws {Error} if not authenticated
+   */
+  decryptStream(data: Uint8Array, objectNumber: number, generationNumber: number): Uint8Array {
+    if (!this.authenticated || !this.handlers) {
+      throw new Error("Not authenticated");
+    }
+
+    return this.handlers.streamHandler.decryptStream(data, objectNumber, generationNumber);
+  }
+
+  /**
+   * Check if a specific stream should be encrypted.
+   *
+   * @param streamType - The /Type of the stream (e.g., "XRef", "Metadata")
+   * @returns Whether the stream should be encrypted
+   */
+  shouldEncryptStream(streamType?: string): boolean {
+    if (streamType === "XRef") {
+      return false;
+    }
+
+    if (streamType === "Metadata" && !this.encryptDict.encryptMetadata) {
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -77,6 +77,10 @@ export interface CryptFilter {
   cfm: CryptFilterMethod;
   authEvent?: AuthEvent;
   length?: number;
+  /** PKCS#7 recipient envelopes (public-key handler only) */
+  recipients?: Uint8Array[];
+  /** Whether metadata is encrypted (public-key handler only) */
+  encryptMetadata?: boolean;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
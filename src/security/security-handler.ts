@@ -0,0 +1,22 @@
+/**
+ * Security handlers for encrypted documents.
+ *
+ * The Standard handler is password-based; the public-key handler
+ * (/Adobe.PubSec) encrypts to recipients' certificates. Both expose the
+ * same authentication and encrypt/decrypt surface.
+ */
+
+import type { EncryptionDict } from "./encryption-dict";
+import type { PublicKeyEncryptionDict } from "./public-key-dict";
+import type { PublicKeySecurityHandler } from "./public-key-handler";
+import type { StandardSecurityHandler } from "./standard-handler";
+
+/**
+ * Security handler for an encrypted document.
+ */
+export type SecurityHandler = StandardSecurityHandler | PublicKeySecurityHandler;
+
+/**
+ * Parsed encryption dictionary for either security handler.
+ */
+export type DocumentEncryption = EncryptionDict | PublicKeyEncryptionDict;
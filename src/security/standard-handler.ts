@@ -173,8 +173,7 @@ export class StandardSecurityHandler {
     // Standard handler doesn't support certificate credentials
     throw new UnsupportedEncryptionError(
       "The Standard security handler only supports password credentials. " +
-        "Certificate-based decryption requires the Public Key handler (/Adobe.PubSec), " +
-        "which is not yet implemented.",
+        "Certificate credentials open documents encrypted with the public-key handler (/Adobe.PubSec).",
       "UNSUPPORTED_CREDENTIALS",
     );
   }
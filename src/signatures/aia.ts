@@ -8,6 +8,7 @@
  */
 
 import { bytesToHex, toArrayBuffer } from "#src/helpers/buffer.ts";
+import { parseCertificate } from "#src/signatures/formats/common";
 import { fromBER } from "asn1js";
 import * as pkijs from "pkijs";
 
@@ -148,19 +149,6 @@ export async function buildCertificateChain(
   return chain;
 }
 
-/**
- * Parse a DER-encoded certificate.
- */
-function parseCertificate(der: Uint8Array): pkijs.Certificate {
-  const asn1 = fromBER(toArrayBuffer(der));
-
-  if (asn1.offset === -1) {
-    throw new Error("Failed to parse certificate");
-  }
-
-  return new pkijs.Certificate({ schema: asn1.result });
-}
-
 /**
  * Get a unique key for a certificate (issuer + serial).
  */
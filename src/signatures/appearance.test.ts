@@ -0,0 +1,84 @@
+import { PDF } from "#src/api/pdf";
+import { rgb } from "#src/helpers/colors";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { describe, expect, it } from "vitest";
+
+import { createSignatureAppearanceStream, formatAppearanceDate } from "./appearance";
+
+function getContent(stream: { getDecodedData(): Uint8Array }): string {
+  return new TextDecoder().decode(stream.getDecodedData());
+}
+
+describe("createSignatureAppearanceStream", () => {
+  it("sizes the BBox to the widget", () => {
+    const pdf = PDF.create();
+
+    const stream = createSignatureAppearanceStream(
+      pdf.context,
+      { rect: { x: 100, y: 200, width: 150, height: 40 } },
+      { name: "Jane Doe" },
+    );
+
+    const bbox = stream.getArray("BBox")?.toArray();
+
+    expect(bbox?.map(n => (n instanceof PdfNumber ? n.value : null))).toEqual([0, 0, 150, 40]);
+    expect(stream.getName("Subtype")?.value).toBe("Form");
+    expect(stream.getDict("Resources")?.getDict("Font")?.has("F0")).toBe(true);
+  });
+
+  it("fits text within the widget", () => {
+    const pdf = PDF.create();
+
+    const narrow = createSignatureAppearanceStream(
+      pdf.context,
+      { rect: { x: 0, y: 0, width: 60, height: 100 } },
+      { name: "A rather long signer name" },
+    );
+
+    const size = Number(/\/F0 ([\d.]+) Tf/.exec(getContent(narrow))?.[1]);
+
+    expect(size).toBeGreaterThan(0);
+    expect(size).toBeLessThan(12);
+  });
+
+  it("uses an explicit font size", () => {
+    const pdf = PDF.create();
+
+    const stream = createSignatureAppearanceStream(
+      pdf.context,
+      { rect: { x: 0, y: 0, width: 200, height: 50 }, fontSize: 7 },
+      { name: "Jane Doe", reason: "Approved" },
+    );
+
+    expect(getContent(stream)).toContain("/F0 7 Tf");
+  });
+
+  it("draws background and border", () => {
+    const pdf = PDF.create();
+
+    const stream = createSignatureAppearanceStream(
+      pdf.context,
+      {
+        rect: { x: 0, y: 0, width: 100, height: 50 },
+        backgroundColor: rgb(1, 1, 0.9),
+        borderColor: rgb(0, 0, 0),
+        borderWidth: 2,
+      },
+      {},
+    );
+
+    const content = getContent(stream);
+
+    expect(content).toContain("1 1 0.9 rg");
+    expect(content).toContain("1 1 98 48 re");
+    expect(stream.getDict("Resources")?.has("Font")).toBe(false);
+  });
+});
+
+describe("formatAppearanceDate", () => {
+  it("formats in UTC", () => {
+    expect(formatAppearanceDate(new Date("2026-01-02T03:04:05.678Z"))).toBe(
+      "2026-01-02 03:04:05 UTC",
+    );
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Visible signature appearance streams.
+ *
+ * Builds the normal appearance (/AP /N) Form XObject for a signature widget:
+ * signer name, date, reason and location as text, an optional image, or a
+ * caller-supplied Form XObject scaled to the widget.
+ *
+ * PDF 2.0: Section 12.7.5.5 - Signature fields
+ */
+
+import type { PDFContext } from "#src/api/pdf-context";
+import type { Operator } from "#src/content/operators";
+import { setFillColor, setStrokeColor } from "#src/drawing/operations";
+import { PDFFormXObject } from "#src/drawing/resources/form-xobject";
+import { serializeOperators } from "#src/drawing/serialize";
+import { encodeTextForFont, measureText } from "#src/drawing/text-layout";
+import type { FontInput } from "#src/drawing/types";
+import { getStandard14BasicMetrics, isWinAnsiStandard14 } from "#src/fonts/standard-14";
+import { black } from "#src/helpers/colors";
+import {
+  beginText,
+  clip,
+  concatMatrix,
+  endPath,
+  endText,
+  fill,
+  paintXObject,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  setFont,
+  setLineWidth,
+  setTextMatrix,
+  showText,
+  stroke,
+} from "#src/helpers/operators";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import type { PdfRef } from "#src/objects/pdf-ref";
+import type { PdfStream } from "#src/objects/pdf-stream";
+
+import type { SignatureAppearance } from "./types";
+
+/** Inner padding between the widget edge and its content */
+const PADDING = 2;
+
+/** Largest font size used when fitting text automatically */
+const MAX_FONT_SIZE = 12;
+
+const LINE_HEIGHT_FACTOR = 1.2;
+
+/**
+ * Values shown by a generated signature appearance.
+ */
+export interface SignatureAppearanceText {
+  name?: string;
+  date?: Date;
+  reason?: string;
+  location?: string;
+}
+
+/**
+ * Build the appearance stream for a visible signature.
+ *
+ * The stream's BBox matches the widget size, so it maps onto /Rect without
+ * a /Matrix.
+ *
+ * @param ctx - Document context, for resolving embedded font references
+ * @param appearance - Appearance options
+ * @param text - Values to show (already resolved against the sign options)
+ * @returns Unregistered Form XObject stream
+ */
+export function createSignatureAppearanceStream(
+  ctx: PDFContext,
+  appearance: SignatureAppearance,
+  text: SignatureAppearanceText,
+): PdfStream {
+  const { width, height } = appearance.rect;
+  const xobjects = new PdfDict();
+  const fonts = new PdfDict();
+
+  const ops = appearance.xobject
+    ? drawCustomContent(appearance.xobject, width, height, xobjects)
+    : drawGeneratedContent(ctx, appearance, text, fonts, xobjects);
+
+  const stream = PDFFormXObject.createStream(
+    { bbox: { x: 0, y: 0, width, height }, operators: ops },
+    serializeOperators(ops),
+  );
+
+  const resources = new PdfDict();
+
+  if (fonts.size > 0) {
+    resources.set("Font", fonts);
+  }
+
+  if (xobjects.size > 0) {
+    resources.set("XObject", xobjects);
+  }
+
+  stream.set("Resources", resources);
+
+  return stream;
+}
+
+/**
+ * Format the signing date as shown in the appearance (UTC).
+ */
+export function formatAppearanceDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace("T", " ")} UTC`;
+}
+
+/**
+ * Scale a caller-supplied Form XObject to fill the widget.
+ */
+function drawCustomContent(
+  xobject: NonNullable<SignatureAppearance["xobject"]>,
+  width: number,
+  height: number,
+  xobjects: PdfDict,
+): Operator[] {
+  const box = "bbox" in xobject ? xobject.bbox : xobject.box;
+
+  xobjects.set("X0", xobject.ref);
+
+  const scaleX = box.width > 0 ? width / box.width : 1;
+  const scaleY = box.height > 0 ? height / box.height : 1;
+
+  return [
+    pushGraphicsState(),
+    concatMatrix(scaleX, 0, 0, scaleY, -box.x * scaleX, -box.y * scaleY),
+    paintXObject("/X0"),
+    popGraphicsState(),
+  ];
+}
+
+/**
+ * Draw the background, border, image and text lines.
+ */
+function drawGeneratedContent(
+  ctx: PDFContext,
+  appearance: SignatureAppearance,
+  text: SignatureAppearanceText,
+  fonts: PdfDict,
+  xobjects: PdfDict,
+): Operator[] {
+  const { width, height } = appearance.rect;
+  const ops: Operator[] = [];
+
+  if (appearance.backgroundColor) {
+    ops.push(setFillColor(appearance.backgroundColor), rectangle(0, 0, width, height), fill());
+  }
+
+  const borderWidth = appearance.borderColor ? (appearance.borderWidth ?? 1) : 0;
+
+  if (appearance.borderColor && borderWidth > 0) {
+    ops.push(
+      setStrokeColor(appearance.borderColor),
+      setLineWidth(borderWidth),
+      rectangle(borderWidth / 2, borderWidth / 2, width - borderWidth, height - borderWidth),
+      stroke(),
+    );
+  }
+
+  const inset = borderWidth + PADDING;
+  const content = {
+    x: inset,
+    y: inset,
+    width: Math.max(0, width - inset * 2),
+    height: Math.max(0, height - inset * 2),
+  };
+
+  const lines = buildTextLines(text);
+
+  // Keep content inside the widget
+  ops.push(pushGraphicsState(), rectangle(0, 0, width, height), clip(), endPath());
+
+  if (appearance.image) {
+    // Image takes the left half when there's text, otherwise the whole area
+    const imageArea = lines.length > 0 ? { ...content, width: content.width / 2 } : content;
+
+    xobjects.set("Im0", appearance.image.ref);
+    ops.push(...drawImageFitted(appearance.image, imageArea));
+
+    content.x += imageArea.width + PADDING;
+    content.width = Math.max(0, content.width - imageArea.width - PADDING);
+  }
+
+  if (lines.length > 0) {
+    const font = appearance.font ?? "Helvetica";
+
+    fonts.set("F0", createFontResource(ctx, font));
+    ops.push(...drawTextLines(lines, font, appearance, content));
+  }
+
+  ops.push(popGraphicsState());
+
+  return ops;
+}
+
+/**
+ * Lines of text shown in a generated appearance.
+ */
+function buildTextLines(text: SignatureAppearanceText): string[] {
+  const lines: string[] = [];
+
+  if (text.name) {
+    lines.push(text.name);
+  }
+
+  if (text.date) {
+    lines.push(`Date: ${formatAppearanceDate(text.date)}`);
+  }
+
+  if (text.reason) {
+    lines.push(`Reason: ${text.reason}`);
+  }
+
+  if (text.location) {
+    lines.push(`Location: ${text.location}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Draw an image centered in an area, preserving its aspect ratio.
+ */
+function drawImageFitted(
+  image: NonNullable<SignatureAppearance["image"]>,
+  area: { x: number; y: number; width: number; height: number },
+): Operator[] {
+  const scale = Math.min(area.width / image.widthInPoints, area.height / image.heightInPoints);
+  const drawWidth = image.widthInPoints * scale;
+  const drawHeight = image.heightInPoints * scale;
+
+  return [
+    pushGraphicsState(),
+    concatMatrix(
+      drawWidth,
+      0,
+      0,
+      drawHeight,
+      area.x + (area.width - drawWidth) / 2,
+      area.y + (area.height - drawHeight) / 2,
+    ),
+    paintXObject("/Im0"),
+    popGraphicsState(),
+  ];
+}
+
+/**
+ * Draw text lines vertically centered in an area.
+ *
+ * Without an explicit font size, uses the largest size (up to 12pt) at
+ * which every line fits.
+ */
+function drawTextLines(
+  lines: string[],
+  font: FontInput,
+  appearance: SignatureAppearance,
+  area: { x: number; y: number; width: number; height: number },
+): Operator[] {
+  const fontSize = appearance.fontSize ?? fitFontSize(lines, font, area.width, area.height);
+  const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+  const ascent = getAscent(font) * fontSize;
+
+  // Center the block, then place the first baseline one ascent below its top
+  const blockHeight = lines.length * lineHeight;
+  const top = area.y + area.height - Math.max(0, (area.height - blockHeight) / 2);
+
+  const ops: Operator[] = [
+    setFillColor(appearance.color ?? black),
+    beginText(),
+    setFont("/F0", fontSize),
+  ];
+
+  for (let i = 0; i < lines.length; i++) {
+    ops.push(setTextMatrix(1, 0, 0, 1, area.x, top - ascent - i * lineHeight));
+    ops.push(showText(encodeTextForFont(lines[i], font)));
+  }
+
+  ops.push(endText());
+
+  return ops;
+}
+
+/**
+ * Largest font size at which all lines fit the area.
+ */
+function fitFontSize(lines: string[], font: FontInput, width: number, height: number): number {
+  let size = Math.min(MAX_FONT_SIZE, height / (lines.length * LINE_HEIGHT_FACTOR));
+
+  for (const line of lines) {
+    const lineWidth = measureText(line, font, 1);
+
+    if (lineWidth > 0) {
+      size = Math.min(size, width / lineWidth);
+    }
+  }
+
+  return Math.max(size, 1);
+}
+
+/**
+ * Font ascent as a fraction of the font size.
+ */
+function getAscent(font: FontInput): number {
+  if (typeof font === "string") {
+    const metrics = getStandard14BasicMetrics(font);
+
+    return metrics ? metrics.ascent / 1000 : 0.8;
+  }
+
+  const descriptor = font.descriptor;
+
+  return descriptor ? descriptor.ascent / 1000 : 0.8;
+}
+
+/**
+ * Create the font resource entry: an inline dictionary for Standard 14
+ * fonts, or the embedded font's reference.
+ */
+function createFontResource(ctx: PDFContext, font: FontInput): PdfDict | PdfRef {
+  if (typeof font !== "string") {
+    return ctx.getFontRef(font);
+  }
+
+  const dict = PdfDict.of({
+    Type: PdfName.of("Font"),
+    Subtype: PdfName.of("Type1"),
+    BaseFont: PdfName.of(font),
+  });
+
+  // Symbol and ZapfDingbats use their built-in encoding
+  if (isWinAnsiStandard14(font)) {
+    dict.set("Encoding", PdfName.of("WinAnsiEncoding"));
+  }
+
+  return dict;
+}
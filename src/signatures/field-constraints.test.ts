@@ -0,0 +1,267 @@
+import { PdfDict } from "#src/objects/pdf-dict";
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import {
+  applySeedValueDefaults,
+  buildLockDict,
+  buildSeedValueDict,
+  checkSeedValues,
+  createFieldMdpReference,
+  isFieldLocked,
+  type PlannedSignature,
+  readLockDict,
+  readSeedValues,
+} from "./field-constraints";
+import { P12Signer } from "./signers";
+import type { Signer } from "./types";
+
+const resolve = () => null;
+
+async function loadSigner(): Promise<Signer> {
+  const p12 = await loadFixture("certificates", "test-signer-aes256.p12");
+
+  return P12Signer.create(p12, "test123");
+}
+
+function plan(signer: Signer, overrides: Partial<PlannedSignature> = {}): PlannedSignature {
+  return {
+    signer,
+    subFilter: "ETSI.CAdES.detached",
+    digestAlgorithm: "SHA-256",
+    longTermValidation: false,
+    ...overrides,
+  };
+}
+
+describe("field constraints", () => {
+  describe("lock dictionaries", () => {
+    it("round-trips an include lock", () => {
+      const dict = buildLockDict({ action: "include", fields: ["amount", "date"], permission: 2 });
+
+      expect(dict.getName("Type")?.value).toBe("SigFieldLock");
+      expect(dict.getName("Action")?.value).toBe("Include");
+      expect(readLockDict(dict, resolve)).toEqual({
+        action: "include",
+        fields: ["amount", "date"],
+        permission: 2,
+      });
+    });
+
+    it("omits /Fields for action all", () => {
+      const dict = buildLockDict({ action: "all" });
+
+      expect(dict.has("Fields")).toBe(false);
+      expect(readLockDict(dict, resolve)).toEqual({ action: "all" });
+    });
+
+    it("requires field names for include and exclude", () => {
+      expect(() => buildLockDict({ action: "exclude" })).toThrow(/requires at least one field/);
+    });
+
+    it("ignores locks with an unknown action", () => {
+      expect(readLockDict(new PdfDict(), resolve)).toBeUndefined();
+    });
+
+    it("builds a FieldMDP transform", () => {
+      const ref = createFieldMdpReference({ action: "exclude", fields: ["notes"] });
+      const params = ref.getDict("TransformParams");
+
+      expect(ref.getName("TransformMethod")?.value).toBe("FieldMDP");
+      expect(params?.getName("Action")?.value).toBe("Exclude");
+      expect(params?.getArray("Fields")?.length).toBe(1);
+      expect(params?.getName("V")?.value).toBe("1.2");
+    });
+
+    it("matches fields against the lock action", () => {
+      expect(isFieldLocked({ action: "all" }, "a")).toBe(true);
+      expect(isFieldLocked({ action: "include", fields: ["a"] }, "a")).toBe(true);
+      expect(isFieldLocked({ action: "include", fields: ["a"] }, "b")).toBe(false);
+      expect(isFieldLocked({ action: "exclude", fields: ["a"] }, "a")).toBe(false);
+      expect(isFieldLocked({ action: "exclude", fields: ["a"] }, "b")).toBe(true);
+    });
+  });
+
+  describe("seed value dictionaries", () => {
+    it("round-trips seed values with required flags", () => {
+      const seedValues = {
+        subFilters: ["adbe.pkcs7.detached" as const],
+        digestAlgorithms: ["SHA-384" as const, "SHA-512" as const],
+        reasons: ["Approved", "Reviewed"],
+        addRevocationInfo: true,
+        certificate: {
+          policies: ["1.2.3.4"],
+          required: ["policies" as const],
+        },
+        required: ["subFilters" as const, "reasons" as const, "digestAlgorithms" as const],
+      };
+
+      const dict = buildSeedValueDict(seedValues);
+
+      expect(dict.getName("Type")?.value).toBe("SV");
+      expect(dict.getNumber("Ff")?.value).toBe(2 | 8 | 64);
+      expect(dict.getDict("Cert")?.getNumber("Ff")?.value).toBe(4);
+
+      const read = readSeedValues(dict, resolve);
+
+      expect(read).toEqual({
+        ...seedValues,
+        required: ["subFilters", "digestAlgorithms", "reasons"],
+      });
+    });
+
+    it("writes digest methods with PDF names", () => {
+      const dict = buildSeedValueDict({ digestAlgorithms: ["SHA-256"] });
+      const [name] = dict.getArray("DigestMethod") ?? [];
+
+      expect(name).toMatchObject({ value: "SHA256" });
+    });
+  });
+
+  describe("applySeedValueDefaults", () => {
+    it("fills unspecified options from suggestions", async () => {
+      const signer = await loadSigner();
+
+      const options = applySeedValueDefaults(
+        { signer },
+        {
+          subFilters: ["adbe.pkcs7.detached"],
+          digestAlgorithms: ["SHA-512"],
+          addRevocationInfo: true,
+        },
+      );
+
+      expect(options.subFilter).toBe("adbe.pkcs7.detached");
+      expect(options.digestAlgorithm).toBe("SHA-512");
+      expect(options.longTermValidation).toBe(true);
+    });
+
+    it("keeps explicit options", async () => {
+      const signer = await loadSigner();
+
+      const options = applySeedValueDefaults(
+        { signer, digestAlgorithm: "SHA-256" },
+        { digestAlgorithms: ["SHA-512"] },
+      );
+
+      expect(options.digestAlgorithm).toBe("SHA-256");
+    });
+
+    it("skips SubFilters incompatible with a PAdES level", async () => {
+      const signer = await loadSigner();
+
+      const options = applySeedValueDefaults(
+        { signer, level: "B-B" },
+        { subFilters: ["adbe.pkcs7.detached", "ETSI.CAdES.detached"] },
+      );
+
+      expect(options.subFilter).toBe("ETSI.CAdES.detached");
+    });
+  });
+
+  describe("checkSeedValues", () => {
+    it("accepts a signature satisfying every constraint", async () => {
+      const signer = await loadSigner();
+
+      await expect(
+        checkSeedValues(
+          {
+            subFilters: ["ETSI.CAdES.detached"],
+            reasons: ["Approved"],
+            certificate: { subjects: [signer.certificate], required: ["subjects"] },
+            required: ["subFilters", "reasons"],
+          },
+          plan(signer, { reason: "Approved" }),
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it("ignores constraints that are only suggestions", async () => {
+      const signer = await loadSigner();
+
+      await expect(
+        checkSeedValues({ digestAlgorithms: ["SHA-512"] }, plan(signer)),
+      ).resolves.toBeUndefined();
+    });
+
+    it("rejects a required digest algorithm mismatch", async () => {
+      const signer = await loadSigner();
+
+      await expect(
+        checkSeedValues(
+          { digestAlgorithms: ["SHA-512"], required: ["digestAlgorithms"] },
+          plan(signer),
+        ),
+      ).rejects.toMatchObject({ code: "SEED_VALUE_VIOLATION" });
+    });
+
+    it("rejects a reason when the field forbids one", async () => {
+      const signer = await loadSigner();
+
+      await expect(
+        checkSeedValues({ reasons: [""], required: ["reasons"] }, plan(signer, { reason: "x" })),
+      ).rejects.toThrow(/does not allow a reason/);
+    });
+
+    it("rejects missing revocation info when required", async () => {
+      const signer = await loadSigner();
+
+      await expect(
+        checkSeedValues({ addRevocationInfo: true, required: ["addRevocationInfo"] }, plan(signer)),
+      ).rejects.toThrow(/longTermValidation/);
+    });
+
+    it("rejects a signing certificate outside the allowed subjects", async () => {
+      const signer = await loadSigner();
+      const other = await loadFixture("certificates", "real/github-0.der");
+
+      await expect(
+        checkSeedValues(
+          { certificate: { subjects: [other], required: ["subjects"] } },
+          plan(signer),
+        ),
+      ).rejects.toThrow(/not one of the certificates/);
+    });
+
+    it("rejects a signing certificate from another issuer", async () => {
+      const signer = await loadSigner();
+      const issuer = await loadFixture("certificates", "real/github-1.der");
+
+      await expect(
+        checkSeedValues(
+          { certificate: { issuers: [issuer], required: ["issuers"] } },
+          plan(signer),
+        ),
+      ).rejects.toThrow(/not issued by/);
+    });
+
+    it("accepts a certificate issued by an allowed CA", async () => {
+      const signer = await loadSigner();
+      const leaf = await loadFixture("certificates", "real/github-0.der");
+      const issuer = await loadFixture("certificates", "real/github-1.der");
+
+      await expect(
+        checkSeedValues(
+          { certificate: { issuers: [issuer], required: ["issuers"] } },
+          plan({
+            certificate: leaf,
+            keyType: signer.keyType,
+            signatureAlgorithm: signer.signatureAlgorithm,
+            sign: async () => new Uint8Array(0),
+          }),
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it("rejects a signing certificate without a required policy", async () => {
+      const signer = await loadSigner();
+
+      await expect(
+        checkSeedValues(
+          { certificate: { policies: ["1.2.3.4.5"], required: ["policies"] } },
+          plan(signer),
+        ),
+      ).rejects.toThrow(/required policies/);
+    });
+  });
+});
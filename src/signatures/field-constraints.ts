@@ -0,0 +1,628 @@
+/**
+ * Signature field constraints: FieldMDP locks and seed values.
+ *
+ * A signature field can declare which other fields become locked once it is
+ * signed (`/Lock`) and how it must be signed (`/SV`). This module converts
+ * between those dictionaries and their API representation, builds the
+ * FieldMDP transform for the signature, and checks a planned signature
+ * against the seed values.
+ *
+ * PDF 2.0: Section 12.7.5.5 - Signature fields
+ * PDF 2.0: Section 12.8.2.4 - FieldMDP
+ */
+
+import { bytesEqual } from "#src/helpers/buffer.ts";
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfBool } from "#src/objects/pdf-bool";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfString } from "#src/objects/pdf-string";
+import { parseCertificate } from "#src/signatures/formats/common";
+import * as pkijs from "pkijs";
+
+import type {
+  CertificateSeedValues,
+  DigestAlgorithm,
+  SignatureFieldLock,
+  SignatureSeedValues,
+  SignerIdentity,
+  SignOptions,
+  SubFilter,
+} from "./types";
+import { SignatureError } from "./types";
+
+/** id-ce-certificatePolicies */
+const OID_CERTIFICATE_POLICIES = "2.5.29.32";
+
+/** Seed value /Ff bits (Table 234) */
+const SV_FLAG_SUBFILTER = 1 << 1;
+const SV_FLAG_REASONS = 1 << 3;
+const SV_FLAG_ADD_REV_INFO = 1 << 5;
+const SV_FLAG_DIGEST_METHOD = 1 << 6;
+
+/** Certificate seed value /Ff bits (Table 235) */
+const CERT_FLAG_SUBJECT = 1 << 0;
+const CERT_FLAG_ISSUER = 1 << 1;
+const CERT_FLAG_OID = 1 << 2;
+
+/** Digest algorithm names as written in /DigestMethod */
+const DIGEST_METHOD_NAMES: Record<DigestAlgorithm, string> = {
+  "SHA-256": "SHA256",
+  "SHA-384": "SHA384",
+  "SHA-512": "SHA512",
+};
+
+const DIGEST_ALGORITHMS: DigestAlgorithm[] = ["SHA-256", "SHA-384", "SHA-512"];
+
+const LOCK_ACTIONS: Record<SignatureFieldLock["action"], string> = {
+  all: "All",
+  include: "Include",
+  exclude: "Exclude",
+};
+
+const LOCK_ACTION_KEYS: SignatureFieldLock["action"][] = ["all", "include", "exclude"];
+
+/**
+ * Sign options as seen by seed value checks.
+ *
+ * The signer may be just a certificate when the signature is produced
+ * externally (two-phase signing).
+ */
+export type SeedValueOptions = Omit<SignOptions, "signer"> & { signer: SignerIdentity };
+
+/**
+ * The parts of a planned signature that seed values constrain.
+ */
+export interface PlannedSignature {
+  signer: SignerIdentity;
+  subFilter: SubFilter;
+  digestAlgorithm: DigestAlgorithm;
+  reason?: string;
+  longTermValidation: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lock (FieldMDP)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a signature field lock dictionary.
+ *
+ * @throws {SignatureError} If `include`/`exclude` is used without field names
+ */
+export function buildLockDict(lock: SignatureFieldLock): PdfDict {
+  const dict = PdfDict.of({
+    Type: PdfName.of("SigFieldLock"),
+    Action: PdfName.of(LOCK_ACTIONS[lock.action]),
+  });
+
+  if (lock.action !== "all") {
+    if (!lock.fields || lock.fields.length === 0) {
+      throw new SignatureError(
+        "INVALID_OPTIONS",
+        `Lock action "${lock.action}" requires at least one field name`,
+      );
+    }
+
+    dict.set("Fields", new PdfArray(lock.fields.map(name => PdfString.fromString(name))));
+  }
+
+  if (lock.permission) {
+    dict.set("P", PdfNumber.of(lock.permission));
+  }
+
+  return dict;
+}
+
+/**
+ * Read a signature field lock dictionary.
+ *
+ * @returns The lock, or undefined if the dictionary has no valid /Action
+ */
+export function readLockDict(dict: PdfDict, resolve: RefResolver): SignatureFieldLock | undefined {
+  const actionName = dict.getName("Action", resolve)?.value;
+  const action = LOCK_ACTION_KEYS.find(key => LOCK_ACTIONS[key] === actionName);
+
+  if (!action) {
+    return undefined;
+  }
+
+  const lock: SignatureFieldLock = { action };
+  const fields = readStrings(dict.getArray("Fields", resolve));
+
+  if (fields.length > 0) {
+    lock.fields = fields;
+  }
+
+  const permission = dict.getNumber("P", resolve)?.value;
+
+  if (permission === 1 || permission === 2 || permission === 3) {
+    lock.permission = permission;
+  }
+
+  return lock;
+}
+
+/**
+ * Build the FieldMDP /Reference entry applied when a locking field is signed.
+ */
+export function createFieldMdpReference(lock: SignatureFieldLock): PdfDict {
+  const params = PdfDict.of({
+    Type: PdfName.of("TransformParams"),
+    Action: PdfName.of(LOCK_ACTIONS[lock.action]),
+    V: PdfName.of("1.2"),
+  });
+
+  if (lock.action !== "all") {
+    params.set("Fields", new PdfArray((lock.fields ?? []).map(name => PdfString.fromString(name))));
+  }
+
+  if (lock.permission) {
+    params.set("P", PdfNumber.of(lock.permission));
+  }
+
+  return PdfDict.of({
+    Type: PdfName.of("SigRef"),
+    TransformMethod: PdfName.of("FieldMDP"),
+    TransformParams: params,
+  });
+}
+
+/**
+ * Whether a lock applies to the named field.
+ */
+export function isFieldLocked(lock: SignatureFieldLock, fieldName: string): boolean {
+  const listed = lock.fields?.includes(fieldName) ?? false;
+
+  switch (lock.action) {
+    case "all":
+      return true;
+    case "include":
+      return listed;
+    case "exclude":
+      return !listed;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Seed Values
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a seed value dictionary.
+ */
+export function buildSeedValueDict(seedValues: SignatureSeedValues): PdfDict {
+  const dict = PdfDict.of({ Type: PdfName.of("SV") });
+  const required = new Set(seedValues.required ?? []);
+  let flags = 0;
+
+  if (seedValues.subFilters) {
+    dict.set("SubFilter", new PdfArray(seedValues.subFilters.map(name => PdfName.of(name))));
+
+    if (required.has("subFilters")) {
+      flags |= SV_FLAG_SUBFILTER;
+    }
+  }
+
+  if (seedValues.digestAlgorithms) {
+    dict.set(
+      "DigestMethod",
+      new PdfArray(seedValues.digestAlgorithms.map(alg => PdfName.of(DIGEST_METHOD_NAMES[alg]))),
+    );
+
+    if (required.has("digestAlgorithms")) {
+      flags |= SV_FLAG_DIGEST_METHOD;
+    }
+  }
+
+  if (seedValues.reasons) {
+    dict.set("Reasons", new PdfArray(seedValues.reasons.map(r => PdfString.fromString(r))));
+
+    if (required.has("reasons")) {
+      flags |= SV_FLAG_REASONS;
+    }
+  }
+
+  if (seedValues.addRevocationInfo !== undefined) {
+    dict.set("AddRevInfo", PdfBool.of(seedValues.addRevocationInfo));
+
+    if (required.has("addRevocationInfo")) {
+      flags |= SV_FLAG_ADD_REV_INFO;
+    }
+  }
+
+  if (seedValues.certificate) {
+    dict.set("Cert", buildCertificateSeedValueDict(seedValues.certificate));
+  }
+
+  if (flags !== 0) {
+    dict.set("Ff", PdfNumber.of(flags));
+  }
+
+  return dict;
+}
+
+/**
+ * Read a seed value dictionary.
+ *
+ * Values this library can't produce (e.g. unknown SubFilters or digest
+ * methods) are dropped, so a required list containing only such values
+ * can't be satisfied.
+ */
+export function readSeedValues(dict: PdfDict, resolve: RefResolver): SignatureSeedValues {
+  const seedValues: SignatureSeedValues = {};
+  const required: NonNullable<SignatureSeedValues["required"]> = [];
+  const flags = dict.getNumber("Ff", resolve)?.value ?? 0;
+
+  const subFilters = dict.getArray("SubFilter", resolve);
+
+  if (subFilters) {
+    seedValues.subFilters = readNames(subFilters).filter(
+      (name): name is SubFilter => name === "adbe.pkcs7.detached" || name === "ETSI.CAdES.detached",
+    );
+
+    if (flags & SV_FLAG_SUBFILTER) {
+      required.push("subFilters");
+    }
+  }
+
+  const digestMethods = dict.getArray("DigestMethod", resolve);
+
+  if (digestMethods) {
+    const names = readNames(digestMethods);
+
+    seedValues.digestAlgorithms = DIGEST_ALGORITHMS.filter(alg =>
+      names.includes(DIGEST_METHOD_NAMES[alg]),
+    );
+
+    if (flags & SV_FLAG_DIGEST_METHOD) {
+      required.push("digestAlgorithms");
+    }
+  }
+
+  const reasons = dict.getArray("Reasons", resolve);
+
+  if (reasons) {
+    seedValues.reasons = readStrings(reasons);
+
+    if (flags & SV_FLAG_REASONS) {
+      required.push("reasons");
+    }
+  }
+
+  const addRevInfo = dict.getBool("AddRevInfo", resolve);
+
+  if (addRevInfo) {
+    seedValues.addRevocationInfo = addRevInfo.value;
+
+    if (flags & SV_FLAG_ADD_REV_INFO) {
+      required.push("addRevocationInfo");
+    }
+  }
+
+  const cert = dict.getDict("Cert", resolve);
+
+  if (cert) {
+    seedValues.certificate = readCertificateSeedValues(cert, resolve);
+  }
+
+  if (required.length > 0) {
+    seedValues.required = required;
+  }
+
+  return seedValues;
+}
+
+/**
+ * Fill unspecified sign options from seed value suggestions.
+ *
+ * Only choices the caller left open are filled: the first suggested
+ * SubFilter usable with the requested PAdES level, the first suggested
+ * digest algorithm, and long-term validation when revocation info is requested.
+ */
+export function applySeedValueDefaults(
+  options: SeedValueOptions,
+  seedValues: SignatureSeedValues,
+): SeedValueOptions {
+  const result = { ...options };
+
+  if (result.subFilter === undefined) {
+    const subFilter = seedValues.subFilters?.find(
+      name => !options.level || name === "ETSI.CAdES.detached",
+    );
+
+    if (subFilter) {
+      result.subFilter = subFilter;
+    }
+  }
+
+  if (result.digestAlgorithm === undefined && seedValues.digestAlgorithms?.[0]) {
+    result.digestAlgorithm = seedValues.digestAlgorithms[0];
+  }
+
+  if (result.longTermValidation === undefined && seedValues.addRevocationInfo) {
+    result.longTermValidation = true;
+  }
+
+  return result;
+}
+
+/**
+ * Check a planned signature against a field's mandatory seed values.
+ *
+ * @throws {SignatureError} With code SEED_VALUE_VIOLATION describing the first broken constraint
+ */
+export async function checkSeedValues(
+  seedValues: SignatureSeedValues,
+  planned: PlannedSignature,
+): Promise<void> {
+  const required = new Set(seedValues.required ?? []);
+
+  if (
+    required.has("subFilters") &&
+    seedValues.subFilters &&
+    !seedValues.subFilters.includes(planned.subFilter)
+  ) {
+    throw violation(
+      `SubFilter ${planned.subFilter} is not allowed; field requires one of: ${seedValues.subFilters.join(", ") || "(none supported)"}`,
+    );
+  }
+
+  if (
+    required.has("digestAlgorithms") &&
+    seedValues.digestAlgorithms &&
+    !seedValues.digestAlgorithms.includes(planned.digestAlgorithm)
+  ) {
+    throw violation(
+      `Digest algorithm ${planned.digestAlgorithm} is not allowed; field requires one of: ${seedValues.digestAlgorithms.join(", ") || "(none supported)"}`,
+    );
+  }
+
+  if (required.has("reasons") && seedValues.reasons) {
+    const noReasonAllowed = seedValues.reasons.length === 1 && seedValues.reasons[0] === "";
+
+    if (noReasonAllowed && planned.reason) {
+      throw violation("Field does not allow a reason to be specified");
+    }
+
+    if (!noReasonAllowed && !seedValues.reasons.includes(planned.reason ?? "")) {
+      throw violation(
+        `Reason ${planned.reason === undefined ? "(none)" : `"${planned.reason}"`} is not allowed; field requires one of: ${seedValues.reasons.map(r => `"${r}"`).join(", ")}`,
+      );
+    }
+  }
+
+  if (
+    required.has("addRevocationInfo") &&
+    seedValues.addRevocationInfo &&
+    !planned.longTermValidation
+  ) {
+    throw violation("Field requires revocation information to be embedded (longTermValidation)");
+  }
+
+  if (seedValues.certificate) {
+    await checkCertificateSeedValues(seedValues.certificate, planned.signer);
+  }
+}
+
+/**
+ * Build a certificate seed value dictionary.
+ */
+function buildCertificateSeedValueDict(seed: CertificateSeedValues): PdfDict {
+  const dict = PdfDict.of({ Type: PdfName.of("SVCert") });
+  const required = new Set(seed.required ?? []);
+  let flags = 0;
+
+  if (seed.subjects) {
+    dict.set("Subject", new PdfArray(seed.subjects.map(der => PdfString.fromBytes(der))));
+
+    if (required.has("subjects")) {
+      flags |= CERT_FLAG_SUBJECT;
+    }
+  }
+
+  if (seed.issuers) {
+    dict.set("Issuer", new PdfArray(seed.issuers.map(der => PdfString.fromBytes(der))));
+
+    if (required.has("issuers")) {
+      flags |= CERT_FLAG_ISSUER;
+    }
+  }
+
+  if (seed.policies) {
+    dict.set("OID", new PdfArray(seed.policies.map(oid => PdfString.fromString(oid))));
+
+    if (required.has("policies")) {
+      flags |= CERT_FLAG_OID;
+    }
+  }
+
+  if (flags !== 0) {
+    dict.set("Ff", PdfNumber.of(flags));
+  }
+
+  return dict;
+}
+
+/**
+ * Read a certificate seed value dictionary.
+ */
+function readCertificateSeedValues(dict: PdfDict, resolve: RefResolver): CertificateSeedValues {
+  const seed: CertificateSeedValues = {};
+  const required: NonNullable<CertificateSeedValues["required"]> = [];
+  const flags = dict.getNumber("Ff", resolve)?.value ?? 0;
+
+  const subjects = dict.getArray("Subject", resolve);
+
+  if (subjects) {
+    seed.subjects = readByteStrings(subjects);
+
+    if (flags & CERT_FLAG_SUBJECT) {
+      required.push("subjects");
+    }
+  }
+
+  const issuers = dict.getArray("Issuer", resolve);
+
+  if (issuers) {
+    seed.issuers = readByteStrings(issuers);
+
+    if (flags & CERT_FLAG_ISSUER) {
+      required.push("issuers");
+    }
+  }
+
+  const policies = dict.getArray("OID", resolve);
+
+  if (policies) {
+    seed.policies = readStrings(policies);
+
+    if (flags & CERT_FLAG_OID) {
+      required.push("policies");
+    }
+  }
+
+  if (required.length > 0) {
+    seed.required = required;
+  }
+
+  return seed;
+}
+
+/**
+ * Check the signer's certificate against mandatory certificate seed values.
+ */
+async function checkCertificateSeedValues(
+  seed: CertificateSeedValues,
+  signer: SignerIdentity,
+): Promise<void> {
+  const required = new Set(seed.required ?? []);
+
+  if (required.has("subjects") && seed.subjects) {
+    if (!seed.subjects.some(subject => bytesEqual(subject, signer.certificate))) {
+      throw violation("Signing certificate is not one of the certificates the field allows");
+    }
+  }
+
+  if (required.has("issuers") && seed.issuers) {
+    if (!(await isIssuedByAny(signer, seed.issuers))) {
+      throw violation("Signing certificate was not issued by any of the CAs the field allows");
+    }
+  }
+
+  if (required.has("policies") && seed.policies) {
+    const policies = getCertificatePolicies(signer.certificate);
+
+    if (!seed.policies.some(oid => policies.includes(oid))) {
+      throw violation(
+        `Signing certificate has none of the required policies: ${seed.policies.join(", ")}`,
+      );
+    }
+  }
+}
+
+/**
+ * Whether any certificate in the signer's chain is, or was issued by, one of the issuers.
+ */
+async function isIssuedByAny(signer: SignerIdentity, issuers: Uint8Array[]): Promise<boolean> {
+  const chain = [signer.certificate, ...(signer.certificateChain ?? [])];
+
+  for (const issuerDer of issuers) {
+    if (chain.some(der => bytesEqual(der, issuerDer))) {
+      return true;
+    }
+
+    const issuer = tryParseCertificate(issuerDer);
+
+    if (!issuer) {
+      continue;
+    }
+
+    for (const der of chain) {
+      const cert = tryParseCertificate(der);
+
+      if (cert && cert.issuer.isEqual(issuer.subject)) {
+        try {
+          if (await cert.verify(issuer)) {
+            return true;
+          }
+        } catch {
+          // Unsupported key type - not a match
+        }
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Get the policy OIDs from a certificate's certificatePolicies extension.
+ */
+function getCertificatePolicies(certDer: Uint8Array): string[] {
+  const cert = tryParseCertificate(certDer);
+  const extension = cert?.extensions?.find(ext => ext.extnID === OID_CERTIFICATE_POLICIES);
+
+  if (!(extension?.parsedValue instanceof pkijs.CertificatePolicies)) {
+    return [];
+  }
+
+  return extension.parsedValue.certificatePolicies.map(policy => policy.policyIdentifier);
+}
+
+/**
+ * Parse a DER-encoded certificate, or null if it's malformed.
+ */
+function tryParseCertificate(der: Uint8Array): pkijs.Certificate | null {
+  try {
+    return parseCertificate(der);
+  } catch {
+    return null;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function violation(message: string): SignatureError {
+  return new SignatureError("SEED_VALUE_VIOLATION", message);
+}
+
+function readNames(array: PdfArray): string[] {
+  const names: string[] = [];
+
+  for (const item of array) {
+    if (item instanceof PdfName) {
+      names.push(item.value);
+    }
+  }
+
+  return names;
+}
+
+function readStrings(array: PdfArray | undefined): string[] {
+  const strings: string[] = [];
+
+  for (const item of array ?? []) {
+    if (item instanceof PdfString) {
+      strings.push(item.asString());
+    }
+  }
+
+  return strings;
+}
+
+function readByteStrings(array: PdfArray): Uint8Array[] {
+  const result: Uint8Array[] = [];
+
+  for (const item of array) {
+    if (item instanceof PdfString) {
+      result.push(item.bytes);
+    }
+  }
+
+  return result;
+}
@@ -25,16 +25,23 @@ import {
   OID_SIGNING_TIME,
   OID_TIMESTAMP_TOKEN,
 } from "../oids";
-import type { DigestAlgorithm, Signer } from "../types";
+import type { DigestAlgorithm, SignerIdentity } from "../types";
 import { hashData } from "../utils";
 import {
   buildCMSAlgorithmProtection,
+  decodeSignedAttributes,
   encodeSignedAttributesForSigning,
   getDigestAlgorithmOid,
   getSignatureAlgorithmOid,
   parseCertificate,
 } from "./common";
-import type { CMSCreateOptions, CMSFormatBuilder, CMSSignedData } from "./types";
+import type {
+  CMSAssembleOptions,
+  CMSCreateOptions,
+  CMSFormatBuilder,
+  CMSSignedAttributesOptions,
+  CMSSignedData,
+} from "./types";
 
 /**
  * CAdES Detached signature format builder.
@@ -54,26 +61,46 @@ export class CAdESDetachedBuilder implements CMSFormatBuilder, CMSSignedData {
    * being serialized to DER.
    */
   async create(options: CMSCreateOptions): Promise<CMSSignedData> {
-    const { signer, documentHash, digestAlgorithm, signingTime } = options;
+    const { signer, digestAlgorithm } = options;
 
-    // Parse certificates
-    const signerCert = parseCertificate(signer.certificate);
-    const chainCerts = (signer.certificateChain ?? []).map(parseCertificate);
-    const allCerts = [signerCert, ...chainCerts];
+    // Encode and sign
+    const signedAttributes = this.encodeSignedAttributes(options);
+    const signatureValue = await signer.sign(signedAttributes, digestAlgorithm);
+
+    return this.assemble({ signer, digestAlgorithm, signedAttributes, signatureValue });
+  }
+
+  /**
+   * Build the signed attributes and encode them for signing.
+   */
+  encodeSignedAttributes(options: CMSSignedAttributesOptions): Uint8Array {
+    const { signer, documentHash, digestAlgorithm, signingTime } = options;
 
-    // Build signed attributes
     const signedAttrs = this.buildSignedAttributes(
       documentHash,
       digestAlgorithm,
       signer,
-      signerCert,
+      parseCertificate(signer.certificate),
       signingTime,
     );
 
-    // Encode and sign
-    const signedAttrsForSigning = encodeSignedAttributesForSigning(signedAttrs);
+    return new Uint8Array(encodeSignedAttributesForSigning(signedAttrs));
+  }
+
+  /**
+   * Assemble the SignedData from signed attributes and their signature.
+   *
+   * Returns this builder, like create().
+   */
+  assemble(options: CMSAssembleOptions): CMSSignedData {
+    const { signer, digestAlgorithm, signedAttributes, signatureValue } = options;
+
+    // Parse certificates
+    const signerCert = parseCertificate(signer.certificate);
+    const chainCerts = (signer.certificateChain ?? []).map(parseCertificate);
+    const allCerts = [signerCert, ...chainCerts];
 
-    this.signatureValue = await signer.sign(new Uint8Array(signedAttrsForSigning), digestAlgorithm);
+    this.signatureValue = signatureValue;
 
     // Build SignerInfo
     this.signerInfo = new pkijs.SignerInfo({
@@ -87,7 +114,7 @@ export class CAdESDetachedBuilder implements CMSFormatBuilder, CMSSignedData {
       }),
       signedAttrs: new pkijs.SignedAndUnsignedAttributes({
         type: 0,
-        attributes: signedAttrs,
+        attributes: decodeSignedAttributes(signedAttributes),
       }),
       signatureAlgorithm: new pkijs.AlgorithmIdentifier({
         algorithmId: getSignatureAlgorithmOid(signer, digestAlgorithm),
@@ -154,7 +181,7 @@ export class CAdESDetachedBuilder implements CMSFormatBuilder, CMSSignedData {
   private buildSignedAttributes(
     documentHash: Uint8Array,
     digestAlgorithm: DigestAlgorithm,
-    signer: Signer,
+    signer: SignerIdentity,
     signerCert: pkijs.Certificate,
     signingTime?: Date,
   ): pkijs.Attribute[] {
@@ -2,7 +2,7 @@
  * Common utilities for CMS signature format builders.
  */
 
-import { Constructed, fromBER, Null, ObjectIdentifier, Sequence } from "asn1js";
+import { Constructed, fromBER, Null, ObjectIdentifier, Sequence, Set as Asn1Set } from "asn1js";
 import * as pkijs from "pkijs";
 
 import { toArrayBuffer } from "../../helpers/buffer";
@@ -18,7 +18,7 @@ import {
   OID_SHA512,
   OID_SHA512_WITH_RSA,
 } from "../oids";
-import type { DigestAlgorithm, Signer } from "../types";
+import type { DigestAlgorithm, SignerIdentity } from "../types";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Algorithm OID Helpers
@@ -41,7 +41,10 @@ export function getDigestAlgorithmOid(algorithm: DigestAlgorithm): string {
 /**
  * Get the OID for a signature algorithm.
  */
-export function getSignatureAlgorithmOid(signer: Signer, digestAlgorithm: DigestAlgorithm): string {
+export function getSignatureAlgorithmOid(
+  signer: SignerIdentity,
+  digestAlgorithm: DigestAlgorithm,
+): string {
   if (signer.keyType === "RSA") {
     switch (digestAlgorithm) {
       case "SHA-256":
@@ -99,7 +102,7 @@ export function parseCertificate(der: Uint8Array): pkijs.Certificate {
  */
 export function buildCMSAlgorithmProtection(
   digestAlgorithm: DigestAlgorithm,
-  signer: Signer,
+  signer: SignerIdentity,
 ): pkijs.Attribute {
   const digestAlgIdentifier = new Sequence({
     value: [new ObjectIdentifier({ value: getDigestAlgorithmOid(digestAlgorithm) })],
@@ -153,3 +156,21 @@ export function encodeSignedAttributesForSigning(attrs: pkijs.Attribute[]): Arra
 
   return encoded;
 }
+
+/**
+ * Decode signed attributes encoded by encodeSignedAttributesForSigning().
+ *
+ * Used when the signature was produced externally over the encoded bytes,
+ * so the SignerInfo carries exactly the attributes that were signed.
+ *
+ * @throws {Error} if the bytes are not a DER SET OF attributes
+ */
+export function decodeSignedAttributes(der: Uint8Array): pkijs.Attribute[] {
+  const asn1 = fromBER(toArrayBuffer(der));
+
+  if (asn1.offset === -1 || !(asn1.result instanceof Asn1Set)) {
+    throw new Error("Failed to parse signed attributes");
+  }
+
+  return asn1.result.valueBlock.value.map(value => new pkijs.Attribute({ schema: value }));
+}
@@ -22,15 +22,22 @@ import {
   OID_SIGNING_TIME,
   OID_TIMESTAMP_TOKEN,
 } from "../oids";
-import type { DigestAlgorithm, Signer } from "../types";
+import type { DigestAlgorithm, SignerIdentity } from "../types";
 import {
   buildCMSAlgorithmProtection,
+  decodeSignedAttributes,
   encodeSignedAttributesForSigning,
   getDigestAlgorithmOid,
   getSignatureAlgorithmOid,
   parseCertificate,
 } from "./common";
-import type { CMSCreateOptions, CMSFormatBuilder, CMSSignedData } from "./types";
+import type {
+  CMSAssembleOptions,
+  CMSCreateOptions,
+  CMSFormatBuilder,
+  CMSSignedAttributesOptions,
+  CMSSignedData,
+} from "./types";
 
 /**
  * PKCS#7 Detached signature format builder.
@@ -47,14 +54,21 @@ export class PKCS7DetachedBuilder implements CMSFormatBuilder, CMSSignedData {
    * being serialized to DER.
    */
   async create(options: CMSCreateOptions): Promise<CMSSignedData> {
-    const { signer, documentHash, digestAlgorithm, signingTime } = options;
+    const { signer, digestAlgorithm } = options;
 
-    // Parse certificates
-    const signerCert = parseCertificate(signer.certificate);
-    const chainCerts = (signer.certificateChain ?? []).map(parseCertificate);
-    const allCerts = [signerCert, ...chainCerts];
+    // Encode and sign
+    const signedAttributes = this.encodeSignedAttributes(options);
+    const signatureValue = await signer.sign(signedAttributes, digestAlgorithm);
+
+    return this.assemble({ signer, digestAlgorithm, signedAttributes, signatureValue });
+  }
+
+  /**
+   * Build the signed attributes and encode them for signing.
+   */
+  encodeSignedAttributes(options: CMSSignedAttributesOptions): Uint8Array {
+    const { signer, documentHash, digestAlgorithm, signingTime } = options;
 
-    // Build signed attributes
     const signedAttrs = this.buildSignedAttributes(
       documentHash,
       digestAlgorithm,
@@ -62,10 +76,23 @@ export class PKCS7DetachedBuilder implements CMSFormatBuilder, CMSSignedData {
       signingTime,
     );
 
-    // Encode and sign
-    const signedAttrsForSigning = encodeSignedAttributesForSigning(signedAttrs);
+    return new Uint8Array(encodeSignedAttributesForSigning(signedAttrs));
+  }
+
+  /**
+   * Assemble the SignedData from signed attributes and their signature.
+   *
+   * Returns this builder, like create().
+   */
+  assemble(options: CMSAssembleOptions): CMSSignedData {
+    const { signer, digestAlgorithm, signedAttributes, signatureValue } = options;
+
+    // Parse certificates
+    const signerCert = parseCertificate(signer.certificate);
+    const chainCerts = (signer.certificateChain ?? []).map(parseCertificate);
+    const allCerts = [signerCert, ...chainCerts];
 
-    this.signatureValue = await signer.sign(new Uint8Array(signedAttrsForSigning), digestAlgorithm);
+    this.signatureValue = signatureValue;
 
     // Build SignerInfo
     this.signerInfo = new pkijs.SignerInfo({
@@ -79,7 +106,7 @@ export class PKCS7DetachedBuilder implements CMSFormatBuilder, CMSSignedData {
       }),
       signedAttrs: new pkijs.SignedAndUnsignedAttributes({
         type: 0,
-        attributes: signedAttrs,
+        attributes: decodeSignedAttributes(signedAttributes),
       }),
       signatureAlgorithm: new pkijs.AlgorithmIdentifier({
         algorithmId: getSignatureAlgorithmOid(signer, digestAlgorithm),
@@ -146,7 +173,7 @@ export class PKCS7DetachedBuilder implements CMSFormatBuilder, CMSSignedData {
   private buildSignedAttributes(
     documentHash: Uint8Array,
     digestAlgorithm: DigestAlgorithm,
-    signer: Signer,
+    signer: SignerIdentity,
     signingTime?: Date,
   ): pkijs.Attribute[] {
     const attrs: pkijs.Attribute[] = [];
@@ -2,7 +2,7 @@
  * Signature format types.
  */
 
-import type { DigestAlgorithm, Signer } from "../types";
+import type { DigestAlgorithm, Signer, SignerIdentity } from "../types";
 
 /**
  * Signature format (SubFilter in PDF).
@@ -10,11 +10,11 @@ import type { DigestAlgorithm, Signer } from "../types";
 export type SubFilter = "adbe.pkcs7.detached" | "ETSI.CAdES.detached";
 
 /**
- * Options for creating a CMS signature.
+ * Options for building the signed attributes of a CMS signature.
  */
-export interface CMSCreateOptions {
-  /** The signer */
-  signer: Signer;
+export interface CMSSignedAttributesOptions {
+  /** The signer's certificate and algorithms */
+  signer: SignerIdentity;
 
   /** Document hash (the data that was signed) */
   documentHash: Uint8Array;
@@ -26,6 +26,31 @@ export interface CMSCreateOptions {
   signingTime?: Date;
 }
 
+/**
+ * Options for creating a CMS signature.
+ */
+export interface CMSCreateOptions extends CMSSignedAttributesOptions {
+  /** The signer */
+  signer: Signer;
+}
+
+/**
+ * Options for assembling a CMS signature from an external signature value.
+ */
+export interface CMSAssembleOptions {
+  /** The signer's certificate and algorithms */
+  signer: SignerIdentity;
+
+  /** Digest algorithm used */
+  digestAlgorithm: DigestAlgorithm;
+
+  /** DER-encoded signed attributes (SET OF), exactly as signed */
+  signedAttributes: Uint8Array;
+
+  /** Signature over the signed attributes */
+  signatureValue: Uint8Array;
+}
+
 /**
  * A mutable CMS SignedData structure.
  *
@@ -67,4 +92,24 @@ export interface CMSFormatBuilder {
    * @returns Mutable CMS SignedData
    */
   create(options: CMSCreateOptions): Promise<CMSSignedData>;
+
+  /**
+   * Build and encode the signed attributes.
+   *
+   * The result is what the signer signs. Used on its own for two-phase
+   * signing, where the signature is produced outside this process.
+   *
+   * @param options - Signed attribute options
+   * @returns DER-encoded signed attributes (SET OF)
+   */
+  encodeSignedAttributes(options: CMSSignedAttributesOptions): Uint8Array;
+
+  /**
+   * Assemble a CMS SignedData structure from signed attributes and the
+   * signature over them.
+   *
+   * @param options - Assemble options
+   * @returns Mutable CMS SignedData
+   */
+  assemble(options: CMSAssembleOptions): CMSSignedData;
 }
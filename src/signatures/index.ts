@@ -29,6 +29,7 @@ export {
   LtvDataGatherer,
   type LtvGathererOptions,
   type LtvWarning,
+  readDssValidationData,
 } from "./ltv";
 // Revocation
 export {
@@ -42,18 +43,40 @@ export { CryptoKeySigner, GoogleKmsSigner, P12Signer, type P12SignerOptions } fr
 export { HttpTimestampAuthority, type HttpTimestampAuthorityOptions } from "./timestamp";
 // Types
 export type {
+  AddLtvDataOptions,
+  CertificateRevocationStatus,
+  CertificateSeedValues,
+  CertificateValidationFailure,
+  CertificateValidationOptions,
+  CertificateValidationResult,
+  CompleteSignatureOptions,
   DigestAlgorithm,
+  DocMdpPermission,
+  DocumentTimestampOptions,
+  EmbeddedValidationData,
   KeyType,
   LtvValidationData,
   PAdESLevel,
+  PreparedSignature,
+  PrepareSigningOptions,
   RevocationProvider,
   SignatureAlgorithm,
+  SignatureAppearance,
+  SignatureFieldLock,
+  SignatureInfo,
+  SignatureSeedValues,
+  SignatureVerificationIssue,
+  SignatureVerificationOptions,
+  SignatureVerificationResult,
   Signer,
+  SignerIdentity,
+  SigningState,
   SignOptions,
   SignResult,
   SignWarning,
   SubFilter,
   TimestampAuthority,
+  TimestampVerificationResult,
 } from "./types";
 // Errors
 export {
@@ -71,3 +94,7 @@ export {
   extractTimestampCertificates,
   extractTimestampFromCms,
 } from "./utils";
+// Certificate chain validation
+export { validateCertificateChain } from "./validation";
+// Verification
+export { type CmsVerificationResult, verifyCmsSignature, verifyTimestampToken } from "./verify";
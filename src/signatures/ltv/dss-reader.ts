@@ -0,0 +1,102 @@
+/**
+ * Document Security Store (DSS) reader.
+ *
+ * Reads the validation data (certificates, OCSP responses, CRLs) embedded
+ * in a PDF's DSS so signatures can be validated without going online.
+ *
+ * PDF 2.0: Section 12.8.4.3 - Document Security Store dictionary
+ */
+
+import type { ObjectRegistry } from "#src/document/object-registry.ts";
+import type { PdfDict } from "#src/objects/pdf-dict.ts";
+import { PdfRef } from "#src/objects/pdf-ref.ts";
+import { PdfStream } from "#src/objects/pdf-stream.ts";
+
+import type { EmbeddedValidationData } from "../types";
+import { computeSha1Hex, computeVriKey } from "./vri";
+
+/**
+ * Validation data read from a DSS.
+ */
+export type DssValidationData = Required<EmbeddedValidationData>;
+
+/**
+ * Read validation data from the catalog's DSS.
+ *
+ * When `cmsBytes` is given, data referenced by that signature's VRI entry is
+ * listed first, followed by the rest of the DSS. Entries are deduplicated.
+ *
+ * @param catalog - Document catalog
+ * @param registry - Object registry for resolving references
+ * @param cmsBytes - Raw /Contents of the signature (with padding), for the VRI lookup
+ * @returns Certificates, OCSP responses and CRLs (empty if there is no DSS)
+ */
+export async function readDssValidationData(
+  catalog: PdfDict,
+  registry: ObjectRegistry,
+  cmsBytes?: Uint8Array,
+): Promise<DssValidationData> {
+  const data: DssValidationData = { certificates: [], ocspResponses: [], crls: [] };
+
+  const resolve = registry.resolve.bind(registry);
+  const dss = catalog.getDict("DSS", resolve);
+
+  if (!dss) {
+    return data;
+  }
+
+  const seen = new Set<string>();
+
+  const collect = async (dict: PdfDict, key: string, target: Uint8Array[]) => {
+    for (const bytes of readStreams(dict, key, registry)) {
+      const hash = await computeSha1Hex(bytes);
+
+      if (!seen.has(hash)) {
+        seen.add(hash);
+        target.push(bytes);
+      }
+    }
+  };
+
+  // VRI entry for this signature first - it lists exactly what the
+  // signature needs, so it should win over unrelated DSS entries
+  if (cmsBytes) {
+    const vriKey = await computeVriKey(cmsBytes);
+    const entry = dss.getDict("VRI", resolve)?.getDict(vriKey, resolve);
+
+    if (entry) {
+      await collect(entry, "Cert", data.certificates);
+      await collect(entry, "OCSP", data.ocspResponses);
+      await collect(entry, "CRL", data.crls);
+    }
+  }
+
+  await collect(dss, "Certs", data.certificates);
+  await collect(dss, "OCSPs", data.ocspResponses);
+  await collect(dss, "CRLs", data.crls);
+
+  return data;
+}
+
+/**
+ * Decode every stream referenced by an array entry.
+ */
+function readStreams(dict: PdfDict, key: string, registry: ObjectRegistry): Uint8Array[] {
+  const array = dict.getArray(key, registry.resolve.bind(registry));
+
+  if (!array) {
+    return [];
+  }
+
+  const result: Uint8Array[] = [];
+
+  for (const item of array) {
+    const stream = item instanceof PdfRef ? registry.resolve(item) : item;
+
+    if (stream instanceof PdfStream) {
+      result.push(stream.getDecodedData());
+    }
+  }
+
+  return result;
+}
@@ -17,6 +17,7 @@ import {
   extractOcspResponderCerts,
 } from "#src/signatures/revocation.ts";
 import { CertificateChainError, type RevocationProvider } from "#src/signatures/types.ts";
+import { stripCmsPadding } from "#src/signatures/utils.ts";
 import { fromBER } from "asn1js";
 import * as pkijs from "pkijs";
 
@@ -126,7 +127,7 @@ export class LtvDataGatherer {
     const timestamp = new Date();
 
     // Strip zero-padding for parsing (but keep original for VRI key)
-    const strippedCms = this.stripZeroPadding(cmsBytes);
+    const strippedCms = stripCmsPadding(cmsBytes);
 
     // Parse CMS structure
     const { signedData, certificates: embeddedCerts } = this.parseCms(strippedCms);
@@ -243,52 +244,6 @@ export class LtvDataGatherer {
     };
   }
 
-  /**
-   * Strip zero-padding from CMS bytes.
-   *
-   * PDF signature /Contents values are padded with zeros to the placeholder size.
-   * We need to strip these for parsing while keeping the original for VRI keys.
-   *
-   * Instead of blindly removing trailing zeros (which could be valid DER data),
-   * we parse the DER length prefix to determine the actual content length.
-   */
-  private stripZeroPadding(bytes: Uint8Array): Uint8Array {
-    if (bytes.length < 2) {
-      return bytes;
-    }
-
-    // ASN.1 DER: first byte is tag, second+ bytes are length
-    // If length < 128, it's a single byte
-    // If length >= 128, high bit is set and low bits indicate how many length bytes follow
-
-    const lengthByte = bytes[1];
-
-    if (lengthByte < 128) {
-      // Short form: length is in the byte itself
-      const totalLength = 2 + lengthByte;
-
-      return bytes.subarray(0, Math.min(totalLength, bytes.length));
-    }
-
-    // Long form: low 7 bits tell how many bytes follow for the length
-    const numLengthBytes = lengthByte & 0x7f;
-
-    if (numLengthBytes === 0 || numLengthBytes > 4 || 2 + numLengthBytes > bytes.length) {
-      // Invalid or indefinite length - return as-is
-      return bytes;
-    }
-
-    // Read the length value from the following bytes
-    let contentLength = 0;
-    for (let i = 0; i < numLengthBytes; i++) {
-      contentLength = (contentLength << 8) | bytes[2 + i];
-    }
-
-    const totalLength = 2 + numLengthBytes + contentLength;
-
-    return bytes.subarray(0, Math.min(totalLength, bytes.length));
-  }
-
   /**
    * Parse CMS SignedData and extract embedded certificates.
    */
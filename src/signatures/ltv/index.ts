@@ -10,4 +10,6 @@
 export { DSSBuilder } from "./dss-builder";
 export type { LtvData, LtvGathererOptions, LtvWarning } from "./gatherer";
 export { LtvDataGatherer } from "./gatherer";
+export type { DssValidationData } from "./dss-reader";
+export { readDssValidationData } from "./dss-reader";
 export { computeSha1Hex, computeVriKey } from "./vri";
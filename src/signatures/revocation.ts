@@ -16,6 +16,7 @@ import {
   OID_AD_OCSP,
   OID_AUTHORITY_INFO_ACCESS,
   OID_CRL_DISTRIBUTION_POINTS,
+  OID_OCSP_BASIC,
   OID_SHA1,
 } from "./oids";
 import type { RevocationProvider } from "./types";
@@ -429,40 +430,71 @@ export class DefaultRevocationProvider implements RevocationProvider {
  */
 export function extractOcspResponderCerts(ocspResponse: Uint8Array): Uint8Array[] {
   const certs: Uint8Array[] = [];
+  const basicResp = parseBasicOcspResponse(ocspResponse);
 
+  // Extract certificates from the certs field
+  for (const cert of basicResp?.certs ?? []) {
+    try {
+      certs.push(new Uint8Array(cert.toSchema().toBER(false)));
+    } catch {
+      // Ignore certificates that can't be re-encoded
+    }
+  }
+
+  return certs;
+}
+
+/**
+ * Parse the BasicOCSPResponse inside a DER-encoded OCSPResponse.
+ *
+ * @param ocspResponse - DER-encoded OCSP response
+ * @returns The basic response, or null if the response is malformed or
+ *   carries no basic response
+ */
+export function parseBasicOcspResponse(ocspResponse: Uint8Array): pkijs.BasicOCSPResponse | null {
   try {
     const asn1 = fromBER(toArrayBuffer(ocspResponse));
+
     if (asn1.offset === -1) {
-      return certs;
+      return null;
     }
 
-    const ocspResp = new pkijs.OCSPResponse({ schema: asn1.result });
+    const response = new pkijs.OCSPResponse({ schema: asn1.result });
 
-    // Check if response has responseBytes
-    if (!ocspResp.responseBytes) {
-      return certs;
+    if (response.responseBytes?.responseType !== OID_OCSP_BASIC) {
+      return null;
     }
 
-    // Parse the BasicOCSPResponse from responseBytes.response
     const basicAsn1 = fromBER(
-      toArrayBuffer(new Uint8Array(ocspResp.responseBytes.response.valueBlock.valueHexView)),
+      toArrayBuffer(new Uint8Array(response.responseBytes.response.valueBlock.valueHexView)),
     );
+
     if (basicAsn1.offset === -1) {
-      return certs;
+      return null;
     }
 
-    const basicResp = new pkijs.BasicOCSPResponse({ schema: basicAsn1.result });
+    return new pkijs.BasicOCSPResponse({ schema: basicAsn1.result });
+  } catch {
+    return null;
+  }
+}
 
-    // Extract certificates from the certs field
-    if (basicResp.certs && basicResp.certs.length > 0) {
-      for (const cert of basicResp.certs) {
-        const certDer = new Uint8Array(cert.toSchema().toBER(false));
-        certs.push(certDer);
-      }
+/**
+ * Parse a DER-encoded CRL.
+ *
+ * @param crl - DER-encoded CertificateRevocationList
+ * @returns The parsed CRL, or null if it's malformed
+ */
+export function parseCrl(crl: Uint8Array): pkijs.CertificateRevocationList | null {
+  try {
+    const asn1 = fromBER(toArrayBuffer(crl));
+
+    if (asn1.offset === -1) {
+      return null;
     }
+
+    return new pkijs.CertificateRevocationList({ schema: asn1.result });
   } catch {
-    // Ignore parsing errors
+    return null;
   }
-
-  return certs;
 }
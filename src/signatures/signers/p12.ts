@@ -4,18 +4,15 @@
  * Signs using a .p12/.pfx file containing private key and certificate.
  */
 
-import { fromBER } from "asn1js";
+import { parsePkcs12 } from "#src/helpers/pkcs12.ts";
 import * as pkijs from "pkijs";
 import { createCMSECDSASignature } from "pkijs";
 
-import { toArrayBuffer } from "../../helpers/buffer";
+import type { CertificateCredential } from "../../security/credentials";
 import { buildCertificateChain } from "../aia";
-import { decryptLegacyPbe, installCryptoEngine, isLegacyPbeOid, PKCS12KDF } from "../crypto";
+import { installCryptoEngine } from "../crypto";
 import {
-  OID_CERT_BAG,
   OID_EC_PUBLIC_KEY,
-  OID_KEY_BAG,
-  OID_PKCS8_SHROUDED_KEY_BAG,
   OID_RSA_ENCRYPTION,
   OID_SECP256R1,
   OID_SECP384R1,
@@ -116,83 +113,8 @@ export class P12Signer implements Signer {
     options: P12SignerOptions = {},
   ): Promise<P12Signer> {
     try {
-      // Ensure we have a proper ArrayBuffer (not SharedArrayBuffer)
-      const buffer = toArrayBuffer(p12Bytes);
-
-      // Parse the PKCS#12 structure
-      const asn1 = fromBER(buffer);
-
-      if (asn1.offset === -1) {
-        throw new SignerError("Invalid PKCS#12 file: failed to parse ASN.1 structure");
-      }
-
-      const pfx = new pkijs.PFX({ schema: asn1.result });
-
-      const passwordBuffer = toArrayBuffer(new TextEncoder().encode(password));
-
-      // Parse internal values (decrypt MAC)
-      await pfx.parseInternalValues({ password: passwordBuffer });
-
-      // Get authenticated safe
-      const authenticatedSafe = pfx.parsedValue?.authenticatedSafe;
-
-      if (!authenticatedSafe) {
-        throw new SignerError("Failed to parse PKCS#12 authenticated safe");
-      }
-
-      // Parse safe contents (our LegacyCryptoEngine handles legacy encryption)
-      const safeContentsCount = authenticatedSafe.safeContents.length;
-      const safeContentsParams = Array.from({ length: safeContentsCount }, () => ({
-        password: passwordBuffer,
-      }));
-
-      await authenticatedSafe.parseInternalValues({
-        safeContents: safeContentsParams,
-      });
-
-      // Extract private key and certificates
-      const certificates: pkijs.Certificate[] = [];
-      let privateKey: CryptoKey | null = null;
-
-      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-      const parsedValue = authenticatedSafe.parsedValue as
-        | { safeContents: Array<{ value: pkijs.SafeContents }> }
-        | undefined;
-
-      if (parsedValue?.safeContents) {
-        for (const entry of parsedValue.safeContents) {
-          const safeContents = entry.value;
-
-          if (!safeContents.safeBags) {
-            continue;
-          }
-
-          for (const safeBag of safeContents.safeBags) {
-            // PKCS#8 shrouded key bag (encrypted private key)
-            if (safeBag.bagId === OID_PKCS8_SHROUDED_KEY_BAG) {
-              privateKey = await P12Signer.extractPrivateKey(safeBag, password, passwordBuffer);
-            }
-
-            // Unencrypted key bag
-            if (safeBag.bagId === OID_KEY_BAG) {
-              // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-              const privateKeyInfo = safeBag.bagValue as pkijs.PrivateKeyInfo;
-
-              privateKey = await P12Signer.importPrivateKey(privateKeyInfo);
-            }
-
-            // Certificate bag
-            if (safeBag.bagId === OID_CERT_BAG) {
-              // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-              const certBag = safeBag.bagValue as pkijs.CertBag;
-
-              if (certBag.parsedValue instanceof pkijs.Certificate) {
-                certificates.push(certBag.parsedValue);
-              }
-            }
-          }
-        }
-      }
+      const { privateKey: privateKeyInfo, certificates } = await parsePkcs12(p12Bytes, password);
+      const privateKey = privateKeyInfo ? await P12Signer.importPrivateKey(privateKeyInfo) : null;
 
       if (!privateKey) {
         throw new SignerError("No private key found in PKCS#12 file");
@@ -244,83 +166,6 @@ export class P12Signer implements Signer {
     }
   }
 
-  /**
-   * Extract private key from a shrouded key bag.
-   */
-  private static async extractPrivateKey(
-    safeBag: pkijs.SafeBag,
-    password: string,
-    passwordBuffer: ArrayBuffer,
-  ): Promise<CryptoKey> {
-    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-    const keyBag = safeBag.bagValue as pkijs.PKCS8ShroudedKeyBag;
-    const algorithmId = keyBag.encryptionAlgorithm.algorithmId;
-
-    let decryptedKey: ArrayBuffer;
-
-    if (isLegacyPbeOid(algorithmId)) {
-      // Use our legacy decryption
-      const algorithmParams = keyBag.encryptionAlgorithm.algorithmParams?.toBER(false);
-
-      if (!algorithmParams) {
-        throw new SignerError("Missing algorithm parameters for key decryption");
-      }
-
-      // Parse PBE parameters
-      const paramsAsn1 = fromBER(algorithmParams);
-
-      if (paramsAsn1.offset === -1) {
-        throw new SignerError("Failed to parse PBE parameters");
-      }
-
-      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-      const paramsSeq = paramsAsn1.result as { valueBlock: { value: unknown[] } };
-
-      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-      const saltValue = paramsSeq.valueBlock.value[0] as {
-        valueBlock: { valueHexView: Uint8Array };
-      };
-
-      // oxlint-disable-next-line typescript/no-unsafe-type-assertion
-      const iterValue = paramsSeq.valueBlock.value[1] as { valueBlock: { valueDec: number } };
-
-      const salt = new Uint8Array(saltValue.valueBlock.valueHexView);
-      const iterations = iterValue.valueBlock.valueDec;
-      const encryptedData = new Uint8Array(keyBag.encryptedData.valueBlock.valueHexView);
-      const passwordBytes = PKCS12KDF.passwordToBytes(password);
-
-      const decrypted = decryptLegacyPbe(
-        algorithmId,
-        salt,
-        iterations,
-        encryptedData,
-        passwordBytes,
-      );
-
-      decryptedKey = toArrayBuffer(decrypted);
-    } else {
-      // Use pkijs/Web Crypto
-      decryptedKey = await cryptoEngine.decryptEncryptedContentInfo({
-        encryptedContentInfo: new pkijs.EncryptedContentInfo({
-          contentEncryptionAlgorithm: keyBag.encryptionAlgorithm,
-          encryptedContent: keyBag.encryptedData,
-        }),
-        password: passwordBuffer,
-      });
-    }
-
-    // Parse and import the private key
-    const pkcs8Asn1 = fromBER(decryptedKey);
-
-    if (pkcs8Asn1.offset === -1) {
-      throw new SignerError("Failed to parse decrypted private key");
-    }
-
-    const privateKeyInfo = new pkijs.PrivateKeyInfo({ schema: pkcs8Asn1.result });
-
-    return P12Signer.importPrivateKey(privateKeyInfo);
-  }
-
   /**
    * Import a PrivateKeyInfo into WebCrypto.
    */
@@ -439,6 +284,30 @@ export class P12Signer implements Signer {
     return new Uint8Array(signature);
   }
 
+  /**
+   * Export the certificate and private key as a decryption credential.
+   *
+   * Opens documents encrypted to this certificate by the public-key
+   * security handler.
+   *
+   * @returns Certificate credential for `PDF.load()`
+   *
+   * @example
+   * ```typescript
+   * const signer = await P12Signer.create(p12Bytes, "password");
+   * const pdf = await PDF.load(bytes, { credentials: await signer.toCredential() });
+   * ```
+   */
+  async toCredential(): Promise<CertificateCredential> {
+    const privateKey = await cryptoEngine.exportKey("pkcs8", this.privateKey);
+
+    return {
+      type: "certificate",
+      certificate: this.certificate,
+      privateKey: new Uint8Array(privateKey),
+    };
+  }
+
   /**
    * Get the hash output length in bytes for a given algorithm.
    */
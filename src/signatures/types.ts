@@ -5,6 +5,13 @@
  * ETSI EN 319 142-1 (PAdES)
  */
 
+import type { PDFEmbeddedPage } from "#src/api/pdf-embedded-page";
+import type { Rectangle } from "#src/api/pdf-page";
+import type { PDFFormXObject } from "#src/drawing/resources/form-xobject";
+import type { FontInput } from "#src/drawing/types";
+import type { Color } from "#src/helpers/colors";
+import type { PDFImage } from "#src/images/pdf-image";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Core Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -18,6 +25,15 @@ export type KeyType = "RSA" | "EC";
 /** Signature algorithms */
 export type SignatureAlgorithm = "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "ECDSA";
 
+/**
+ * DocMDP permission level of a certification signature.
+ *
+ * - `1`: No changes to the document are permitted
+ * - `2`: Filling in forms, instantiating page templates, and signing
+ * - `3`: As 2, plus creating, deleting, and modifying annotations
+ */
+export type DocMdpPermission = 1 | 2 | 3;
+
 /** Signature format (SubFilter in PDF) */
 export type SubFilter = "adbe.pkcs7.detached" | "ETSI.CAdES.detached";
 
@@ -86,6 +102,14 @@ export interface Signer {
   sign(data: Uint8Array, algorithm: DigestAlgorithm): Promise<Uint8Array>;
 }
 
+/**
+ * The public half of a signer: certificate and algorithms, without a key.
+ *
+ * Used for two-phase signing, where the signature value is produced
+ * elsewhere (see `PDF.prepareForSigning()`).
+ */
+export type SignerIdentity = Omit<Signer, "sign">;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Timestamp Authority Interface
 // ─────────────────────────────────────────────────────────────────────────────
@@ -147,6 +171,136 @@ export interface RevocationProvider {
   getCRL?(cert: Uint8Array): Promise<Uint8Array | null>;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Signature Field Constraints
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fields to lock when a signature field is signed (FieldMDP, `/Lock`).
+ *
+ * PDF 2.0: Section 12.7.5.5 - Signature fields
+ */
+export interface SignatureFieldLock {
+  /**
+   * Which fields to lock.
+   *
+   * - `all`: every field in the document
+   * - `include`: only the fields in `fields`
+   * - `exclude`: every field except those in `fields`
+   */
+  action: "all" | "include" | "exclude";
+
+  /** Fully-qualified field names (required for `include` and `exclude`) */
+  fields?: string[];
+
+  /** DocMDP permission level to apply once signed (PDF 2.0 `/P`) */
+  permission?: DocMdpPermission;
+}
+
+/**
+ * Constraints on the signing certificate (`/SV /Cert`).
+ */
+export interface CertificateSeedValues {
+  /** DER-encoded certificates, one of which must be the signing certificate */
+  subjects?: Uint8Array[];
+
+  /** DER-encoded CA certificates, one of which must issue the signing certificate chain */
+  issuers?: Uint8Array[];
+
+  /** Certificate policy OIDs, one of which the signing certificate must carry */
+  policies?: string[];
+
+  /** Which constraints are mandatory; the rest are only suggestions */
+  required?: ("subjects" | "issuers" | "policies")[];
+}
+
+/**
+ * Seed values constraining how a signature field may be signed (`/SV`).
+ *
+ * Constraints listed in `required` are enforced when signing; others are
+ * suggestions that fill in unspecified sign options.
+ *
+ * PDF 2.0: Section 12.7.5.5 - Seed value dictionaries
+ */
+export interface SignatureSeedValues {
+  /** Acceptable signature formats, most preferred first */
+  subFilters?: SubFilter[];
+
+  /** Acceptable digest algorithms, most preferred first */
+  digestAlgorithms?: DigestAlgorithm[];
+
+  /** Acceptable reasons for signing. `[""]` means no reason may be given. */
+  reasons?: string[];
+
+  /** Whether revocation information must be embedded (long-term validation) */
+  addRevocationInfo?: boolean;
+
+  /** Constraints on the signing certificate */
+  certificate?: CertificateSeedValues;
+
+  /** Which constraints are mandatory; the rest are only suggestions */
+  required?: ("subFilters" | "digestAlgorithms" | "reasons" | "addRevocationInfo")[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Signature Appearance
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Visible representation of a signature on a page.
+ *
+ * By default the appearance shows the signer name, signing date, reason and
+ * location as text, next to the image if one is given. Pass `xobject` to
+ * draw custom content instead.
+ */
+export interface SignatureAppearance {
+  /** Page index (0-based) to place the signature on (default: 0) */
+  page?: number;
+
+  /** Position and size of the signature widget, in page coordinates */
+  rect: Rectangle;
+
+  /** Signer name (default: common name of the signing certificate, false to hide) */
+  name?: string | false;
+
+  /** Date to show (default: signing time, false to hide) */
+  date?: Date | false;
+
+  /** Reason to show (default: the signature's reason) */
+  reason?: string;
+
+  /** Location to show (default: the signature's location) */
+  location?: string;
+
+  /** Image drawn beside the text, e.g. a handwritten signature */
+  image?: PDFImage;
+
+  /**
+   * Custom content for the appearance, scaled to fill `rect`.
+   *
+   * Replaces the generated text, image, background and border.
+   */
+  xobject?: PDFFormXObject | PDFEmbeddedPage;
+
+  /** Font for the text (default: Helvetica). Use an embedded font for non-Latin names. */
+  font?: FontInput;
+
+  /** Font size in points (default: largest size that fits, up to 12) */
+  fontSize?: number;
+
+  /** Text color (default: black) */
+  color?: Color;
+
+  /** Background fill color (default: none) */
+  backgroundColor?: Color;
+
+  /** Border color (default: none) */
+  borderColor?: Color;
+
+  /** Border width in points (default: 1 when borderColor is set) */
+  borderWidth?: number;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Sign Options
 // ─────────────────────────────────────────────────────────────────────────────
@@ -190,6 +344,24 @@ export interface SignOptions {
    */
   fieldName?: string;
 
+  /**
+   * Create a certification (author) signature with this DocMDP permission level.
+   *
+   * Writes a DocMDP transform in the signature's /Reference and registers the
+   * signature in the catalog's /Perms. A document can only have one
+   * certification signature, and it must be the first signature applied.
+   *
+   * Omit for an ordinary approval signature.
+   */
+  certify?: DocMdpPermission;
+
+  /**
+   * Visible appearance of the signature.
+   *
+   * Omit for an invisible signature.
+   */
+  appearance?: SignatureAppearance;
+
   // ─── Signature Format ────────────────────────────────────────────────────
 
   /**
@@ -321,6 +493,450 @@ export interface SignResult {
   digestAlgorithm?: DigestAlgorithm;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Two-Phase Signing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Options for preparing a document for external signing.
+ *
+ * Same as `SignOptions`, except the signer only needs to provide its
+ * certificate and algorithms. The timestamp authority and revocation
+ * provider are passed when completing the signature instead.
+ */
+export interface PrepareSigningOptions extends Omit<
+  SignOptions,
+  "signer" | "timestampAuthority" | "revocationProvider"
+> {
+  /** Certificate and algorithms of the key that will sign */
+  signer: SignerIdentity;
+}
+
+/**
+ * Options for completing an externally signed document.
+ */
+export interface CompleteSignatureOptions {
+  /** Timestamp authority (required if the signature was prepared for B-T and above) */
+  timestampAuthority?: TimestampAuthority;
+
+  /** Provider for OCSP/CRL data */
+  revocationProvider?: RevocationProvider;
+}
+
+/**
+ * Everything needed to complete a prepared signature, in plain JSON.
+ *
+ * Treat this as opaque: store it (e.g. `JSON.stringify(state)`) alongside
+ * the prepared bytes and pass it back to `PDF.completeSignature()`, possibly
+ * from another process. Binary values are hex-encoded.
+ */
+export interface SigningState {
+  /** State format version */
+  version: 1;
+
+  /** Signature format */
+  subFilter: SubFilter;
+
+  /** Digest algorithm */
+  digestAlgorithm: DigestAlgorithm;
+
+  /** Signer certificate (hex DER) */
+  certificate: string;
+
+  /** Certificate chain (hex DER) */
+  certificateChain: string[];
+
+  /** Signer key type */
+  keyType: KeyType;
+
+  /** Signer signature algorithm */
+  signatureAlgorithm: SignatureAlgorithm;
+
+  /** ByteRange written into the prepared document */
+  byteRange: [number, number, number, number];
+
+  /** Digest of the ByteRange (hex) */
+  digest: string;
+
+  /** DER-encoded signed attributes (hex) */
+  signedAttributes: string;
+
+  /** Whether a signature timestamp is required (B-T and above) */
+  timestamp: boolean;
+
+  /** Whether to embed long-term validation data */
+  longTermValidation: boolean;
+
+  /** Whether to add an archival document timestamp */
+  archivalTimestamp: boolean;
+}
+
+/**
+ * A document prepared for external signing.
+ */
+export interface PreparedSignature {
+  /** The prepared PDF with its signature placeholder - keep until completion */
+  bytes: Uint8Array;
+
+  /** Digest of the bytes covered by the ByteRange */
+  digest: Uint8Array;
+
+  /**
+   * DER-encoded signed attributes.
+   *
+   * This is the data to sign, exactly as a `Signer` would receive it.
+   */
+  signedAttributes: Uint8Array;
+
+  /** Digest of the signed attributes, for services that sign a precomputed hash */
+  signedAttributesDigest: Uint8Array;
+
+  /** Serializable state to pass to `PDF.completeSignature()` */
+  state: SigningState;
+
+  /** Warnings encountered while preparing */
+  warnings: SignWarning[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Document Timestamps & LTV
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Options for adding a standalone document timestamp (`/DocTimeStamp`).
+ */
+export interface DocumentTimestampOptions {
+  /** Timestamp authority that issues the RFC 3161 token */
+  timestampAuthority: TimestampAuthority;
+
+  /**
+   * Embed validation data for the existing signatures and timestamps before
+   * timestamping, and for the new timestamp afterwards.
+   *
+   * Use this when re-timestamping an archive, so the previous timestamp
+   * stays verifiable after its TSA certificate expires.
+   */
+  longTermValidation?: boolean;
+
+  /** Provider for OCSP/CRL data */
+  revocationProvider?: RevocationProvider;
+
+  /**
+   * Digest algorithm for the message imprint.
+   * @default "SHA-256"
+   */
+  digestAlgorithm?: DigestAlgorithm;
+
+  /** Name of the timestamp field (default: auto-generated "DocTimeStamp_N") */
+  fieldName?: string;
+}
+
+/**
+ * Options for adding long-term validation data to existing signatures.
+ */
+export interface AddLtvDataOptions {
+  /** Provider for OCSP/CRL data */
+  revocationProvider?: RevocationProvider;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Signature Inspection & Verification
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A signature found in a PDF document.
+ *
+ * Describes the signature dictionary as written in the file. Nothing here
+ * has been cryptographically checked - use `verifySignatures()` for that.
+ */
+export interface SignatureInfo {
+  /** Fully-qualified name of the signature field */
+  fieldName: string;
+
+  /** Regular signature (`/Type /Sig`) or document timestamp (`/Type /DocTimeStamp`) */
+  kind: "signature" | "timestamp";
+
+  /** Signature handler (`/Filter`), e.g. "Adobe.PPKLite" */
+  filter?: string;
+
+  /** Signature format (`/SubFilter`), e.g. "ETSI.CAdES.detached" */
+  subFilter?: string;
+
+  /** Byte ranges covered by the signature: [offset1, length1, offset2, length2] */
+  byteRange: number[];
+
+  /** Raw /Contents value, including any zero padding */
+  contents: Uint8Array;
+
+  /** Whether the signed byte ranges extend to the end of the file */
+  coversWholeDocument: boolean;
+
+  /** Signer name (`/Name`), if present */
+  name?: string;
+
+  /** Reason for signing (`/Reason`), if present */
+  reason?: string;
+
+  /** Location of signing (`/Location`), if present */
+  location?: string;
+
+  /** Contact information (`/ContactInfo`), if present */
+  contactInfo?: string;
+
+  /** Claimed signing time from the signature dictionary (`/M`) */
+  modificationDate?: Date;
+
+  /** DocMDP permission level, present only for certification signatures */
+  docMdpPermission?: DocMdpPermission;
+}
+
+/**
+ * Problem found while verifying a signature.
+ */
+export interface SignatureVerificationIssue {
+  /** Issue code for programmatic handling */
+  code:
+    | "INVALID_BYTE_RANGE"
+    | "MALFORMED_CMS"
+    | "SIGNER_CERT_NOT_FOUND"
+    | "UNSUPPORTED_ALGORITHM"
+    | "DIGEST_MISMATCH"
+    | "SIGNATURE_INVALID"
+    | "TIMESTAMP_INVALID"
+    | (string & {});
+
+  /** Human-readable message */
+  message: string;
+}
+
+/**
+ * An RFC 3161 timestamp found in a signature, checked against the data it covers.
+ */
+export interface TimestampVerificationResult {
+  /** Time asserted by the timestamp authority (TSTInfo genTime) */
+  time: Date;
+
+  /** Whether the token's message imprint and TSA signature are both valid */
+  valid: boolean;
+
+  /** DER-encoded TSA signing certificate, if embedded in the token */
+  tsaCertificate: Uint8Array | null;
+
+  /** All certificates embedded in the token */
+  certificates: Uint8Array[];
+}
+
+/**
+ * Result of verifying one signature.
+ */
+export interface SignatureVerificationResult extends SignatureInfo {
+  /**
+   * Overall integrity: the byte range is well-formed, the document digest
+   * matches, and the signer's signature over it is valid.
+   *
+   * This says nothing about whether the signer is trusted.
+   */
+  integrity: boolean;
+
+  /** Whether the recomputed digest matches the digest in the CMS structure */
+  digestValid: boolean;
+
+  /** Whether the cryptographic signature verifies against the signer certificate */
+  signatureValid: boolean;
+
+  /** Digest algorithm used by the signer (e.g. "SHA-256") */
+  digestAlgorithm?: string;
+
+  /** DER-encoded signer certificate, if it could be located */
+  signerCertificate: Uint8Array | null;
+
+  /** Signer common name (CN) from the certificate subject */
+  signerName?: string;
+
+  /** All certificates embedded in the CMS structure */
+  certificates: Uint8Array[];
+
+  /**
+   * Claimed signing time.
+   *
+   * Taken from the CMS signing-time attribute when present, otherwise from /M.
+   * Not cryptographically proven - see `timestamp` for proven time.
+   */
+  signingTime?: Date;
+
+  /**
+   * Timestamp proving when the signature existed.
+   *
+   * For signatures this is the embedded signature timestamp (if any).
+   * For document timestamps this is the timestamp itself.
+   */
+  timestamp?: TimestampVerificationResult;
+
+  /** Problems found during verification */
+  issues: SignatureVerificationIssue[];
+
+  /**
+   * Certificate chain and revocation validation of the signer.
+   *
+   * Only present when trust options were passed to `verifySignatures()`.
+   */
+  chain?: CertificateValidationResult;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Certificate Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Options for certificate chain and revocation validation.
+ */
+export interface CertificateValidationOptions {
+  /**
+   * DER-encoded certificates to trust.
+   *
+   * Usually root CAs, but any certificate in the chain may be used as an
+   * anchor - validation stops as soon as one is reached.
+   */
+  trustAnchors: Uint8Array[];
+
+  /**
+   * Point in time at which the chain must be valid.
+   * @default now
+   */
+  validationTime?: Date;
+
+  /**
+   * Whether to check revocation status via OCSP and CRLs.
+   * @default true
+   */
+  checkRevocation?: boolean;
+
+  /**
+   * Provider for fetching revocation data that isn't embedded.
+   *
+   * Without a provider, only embedded OCSP responses and CRLs are used.
+   */
+  revocationProvider?: RevocationProvider;
+
+  /**
+   * Whether to download missing intermediate certificates via AIA.
+   * @default false
+   */
+  fetchMissingCertificates?: boolean;
+
+  /**
+   * Request timeout in milliseconds for AIA downloads.
+   * @default 15000
+   */
+  timeout?: number;
+
+  /**
+   * Custom fetch implementation for AIA downloads.
+   */
+  fetch?: typeof globalThis.fetch;
+}
+
+/**
+ * Validation data already available to the validator (e.g. from a DSS,
+ * CMS structure, or previous fetch). Searched before going online.
+ */
+export interface EmbeddedValidationData {
+  /** DER-encoded certificates that may complete the chain */
+  certificates?: Uint8Array[];
+
+  /** DER-encoded OCSP responses */
+  ocspResponses?: Uint8Array[];
+
+  /** DER-encoded CRLs */
+  crls?: Uint8Array[];
+}
+
+/**
+ * Reason a certificate chain failed validation.
+ */
+export interface CertificateValidationFailure {
+  /** Failure code for programmatic handling */
+  code:
+    | "EXPIRED"
+    | "REVOKED"
+    | "UNTRUSTED_ROOT"
+    | "MISSING_REVOCATION_DATA"
+    | "INVALID_CERTIFICATE_SIGNATURE"
+    | "INVALID_CA"
+    | (string & {});
+
+  /** Human-readable message */
+  message: string;
+
+  /** DER-encoded certificate the failure relates to */
+  certificate: Uint8Array;
+}
+
+/**
+ * Revocation status of one certificate in a chain.
+ */
+export interface CertificateRevocationStatus {
+  /** DER-encoded certificate */
+  certificate: Uint8Array;
+
+  /** Status at the validation time ("unknown" when no usable data was found) */
+  status: "good" | "revoked" | "unknown";
+
+  /** Where the status came from */
+  source?: "ocsp" | "crl";
+
+  /** Whether the data was embedded (true) or fetched from the provider (false) */
+  embedded?: boolean;
+
+  /** When the certificate was revoked, if it was */
+  revocationTime?: Date;
+}
+
+/**
+ * Result of validating a certificate chain.
+ */
+export interface CertificateValidationResult {
+  /** Whether the chain reaches a trust anchor with no failures */
+  valid: boolean;
+
+  /** Time the chain was validated at */
+  validationTime: Date;
+
+  /** DER-encoded chain, starting with the end-entity certificate */
+  chain: Uint8Array[];
+
+  /** The trust anchor the chain ends at, or null if none was reached */
+  trustAnchor: Uint8Array | null;
+
+  /** Revocation status of each non-anchor certificate in the chain */
+  revocation: CertificateRevocationStatus[];
+
+  /** Every problem found, in chain order */
+  failures: CertificateValidationFailure[];
+}
+
+/**
+ * Options for `verifySignatures()`.
+ *
+ * Passing these enables certificate chain and revocation validation of each
+ * signer, in addition to the integrity check.
+ */
+export interface SignatureVerificationOptions extends Omit<
+  CertificateValidationOptions,
+  "validationTime"
+> {
+  /**
+   * Point in time at which signer chains must be valid.
+   *
+   * `"timestamp"` uses the time proven by the signature's timestamp (or the
+   * document timestamp itself), falling back to the current time when there
+   * is no valid timestamp.
+   *
+   * @default "timestamp"
+   */
+  validationTime?: Date | "timestamp";
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Errors
 // ─────────────────────────────────────────────────────────────────────────────
@@ -53,6 +53,58 @@ export function hashData(data: Uint8Array, algorithm: DigestAlgorithm): Uint8Arr
   }
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CMS Utilities
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Strip zero-padding from CMS bytes.
+ *
+ * PDF signature /Contents values are padded with zeros to the placeholder size.
+ * Instead of blindly removing trailing zeros (which could be valid DER data),
+ * we parse the DER length prefix to determine the actual content length.
+ *
+ * @param bytes - CMS bytes as stored in /Contents (may be zero-padded)
+ * @returns The DER-encoded structure without trailing padding
+ */
+export function stripCmsPadding(bytes: Uint8Array): Uint8Array {
+  if (bytes.length < 2) {
+    return bytes;
+  }
+
+  // ASN.1 DER: first byte is tag, second+ bytes are length
+  // If length < 128, it's a single byte
+  // If length >= 128, high bit is set and low bits indicate how many length bytes follow
+
+  const lengthByte = bytes[1];
+
+  if (lengthByte < 128) {
+    // Short form: length is in the byte itself
+    const totalLength = 2 + lengthByte;
+
+    return bytes.subarray(0, Math.min(totalLength, bytes.length));
+  }
+
+  // Long form: low 7 bits tell how many bytes follow for the length
+  const numLengthBytes = lengthByte & 0x7f;
+
+  if (numLengthBytes === 0 || numLengthBytes > 4 || 2 + numLengthBytes > bytes.length) {
+    // Invalid or indefinite length - return as-is
+    return bytes;
+  }
+
+  // Read the length value from the following bytes
+  let contentLength = 0;
+
+  for (let i = 0; i < numLengthBytes; i++) {
+    contentLength = contentLength * 256 + bytes[2 + i];
+  }
+
+  const totalLength = 2 + numLengthBytes + contentLength;
+
+  return bytes.subarray(0, Math.min(totalLength, bytes.length));
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Timestamp Token Utilities
 // ─────────────────────────────────────────────────────────────────────────────
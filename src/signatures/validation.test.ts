@@ -0,0 +1,435 @@
+/**
+ * Tests for certificate chain and revocation validation.
+ *
+ * Uses the real GitHub chain (with its captured OCSP response) for path
+ * building and OCSP checks, and a generated CA for CRL and revocation cases.
+ */
+
+import { PDF } from "#src/api/pdf";
+import { Integer, Utf8String } from "asn1js";
+import * as pkijs from "pkijs";
+import { describe, expect, it } from "vitest";
+
+import { loadFixture } from "../test-utils";
+import { CryptoKeySigner } from "./signers";
+import type { RevocationProvider } from "./types";
+import { validateCertificateChain } from "./validation";
+
+/**
+ * Load a real certificate fixture from fixtures/certificates/real/.
+ */
+async function loadRealCert(name: string): Promise<Uint8Array> {
+  return loadFixture("certificates", `real/${name}`);
+}
+
+interface TestCertificate {
+  cert: pkijs.Certificate;
+  der: Uint8Array;
+  keys: CryptoKeyPair;
+}
+
+const VALID_FROM = new Date("2025-01-01T00:00:00Z");
+const VALID_TO = new Date("2030-01-01T00:00:00Z");
+
+/**
+ * Create an ECDSA P-256 certificate, self-signed unless an issuer is given.
+ *
+ * Pass `ca` to add basicConstraints marking it as a CA, with an optional
+ * path length limit.
+ */
+async function createCertificate(
+  commonName: string,
+  serial: number,
+  issuer?: TestCertificate,
+  ca?: { pathLength?: number },
+): Promise<TestCertificate> {
+  const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, [
+    "sign",
+    "verify",
+  ]);
+
+  const cert = new pkijs.Certificate();
+
+  cert.version = 2;
+  cert.serialNumber = new Integer({ value: serial });
+  cert.subject.typesAndValues.push(
+    new pkijs.AttributeTypeAndValue({
+      type: "2.5.4.3",
+      value: new Utf8String({ value: commonName }),
+    }),
+  );
+  cert.issuer.typesAndValues = issuer
+    ? issuer.cert.subject.typesAndValues
+    : cert.subject.typesAndValues;
+  cert.notBefore.value = VALID_FROM;
+  cert.notAfter.value = VALID_TO;
+
+  if (ca) {
+    cert.extensions = [
+      new pkijs.Extension({
+        extnID: "2.5.29.19",
+        critical: true,
+        extnValue: new pkijs.BasicConstraints({ cA: true, pathLenConstraint: ca.pathLength })
+          .toSchema()
+          .toBER(false),
+      }),
+    ];
+  }
+
+  await cert.subjectPublicKeyInfo.importKey(keys.publicKey);
+  await cert.sign(issuer?.keys.privateKey ?? keys.privateKey, "SHA-256");
+
+  return { cert, der: new Uint8Array(cert.toSchema().toBER(false)), keys };
+}
+
+/**
+ * Create a CRL issued by `ca`, optionally listing one revoked certificate.
+ */
+async function createCrl(
+  ca: TestCertificate,
+  revoked?: { cert: TestCertificate; at: Date },
+): Promise<Uint8Array> {
+  const crl = new pkijs.CertificateRevocationList();
+
+  crl.version = 1;
+  crl.issuer = ca.cert.subject;
+  crl.thisUpdate = new pkijs.Time({ type: 0, value: new Date("2025-06-01T00:00:00Z") });
+
+  if (revoked) {
+    crl.revokedCertificates = [
+      new pkijs.RevokedCertificate({
+        userCertificate: revoked.cert.cert.serialNumber,
+        revocationDate: new pkijs.Time({ type: 0, value: revoked.at }),
+      }),
+    ];
+  }
+
+  await crl.sign(ca.keys.privateKey, "SHA-256");
+
+  return new Uint8Array(crl.toSchema().toBER(false));
+}
+
+describe("validateCertificateChain", () => {
+  describe("with real certificates", () => {
+    const duringOcspValidity = new Date("2026-01-15T00:00:00Z");
+
+    it("builds the chain and checks the embedded OCSP response", async () => {
+      const leaf = await loadRealCert("github-0.der");
+      const intermediate = await loadRealCert("github-1.der");
+      const ocsp = await loadRealCert("github-ocsp.der");
+
+      const result = await validateCertificateChain(
+        leaf,
+        { trustAnchors: [intermediate], validationTime: duringOcspValidity },
+        { ocspResponses: [ocsp] },
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.chain).toHaveLength(2);
+      expect(result.trustAnchor).toEqual(intermediate);
+      expect(result.revocation).toHaveLength(1);
+      expect(result.revocation[0].status).toBe("good");
+      expect(result.revocation[0].source).toBe("ocsp");
+      expect(result.revocation[0].embedded).toBe(true);
+      expect(result.failures).toEqual([]);
+    });
+
+    it("reports missing revocation data for intermediates", async () => {
+      const leaf = await loadRealCert("github-0.der");
+      const intermediate = await loadRealCert("github-1.der");
+      const root = await loadRealCert("github-2.der");
+      const ocsp = await loadRealCert("github-ocsp.der");
+
+      const result = await validateCertificateChain(
+        leaf,
+        { trustAnchors: [root], validationTime: duringOcspValidity },
+        { certificates: [intermediate], ocspResponses: [ocsp] },
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.chain).toHaveLength(3);
+      expect(result.failures).toHaveLength(1);
+      expect(result.failures[0].code).toBe("MISSING_REVOCATION_DATA");
+      expect(result.failures[0].certificate).toEqual(intermediate);
+    });
+
+    it("reports an expired certificate", async () => {
+      const leaf = await loadRealCert("github-0.der");
+      const intermediate = await loadRealCert("github-1.der");
+
+      const result = await validateCertificateChain(leaf, {
+        trustAnchors: [intermediate],
+        validationTime: new Date("2027-01-01T00:00:00Z"),
+        checkRevocation: false,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.failures.map(f => f.code)).toEqual(["EXPIRED"]);
+    });
+
+    it("ignores an OCSP response that is stale at the validation time", async () => {
+      const leaf = await loadRealCert("github-0.der");
+      const intermediate = await loadRealCert("github-1.der");
+      const ocsp = await loadRealCert("github-ocsp.der");
+
+      const result = await validateCertificateChain(
+        leaf,
+        { trustAnchors: [intermediate], validationTime: new Date("2026-03-01T00:00:00Z") },
+        { ocspResponses: [ocsp] },
+      );
+
+      expect(result.failures.map(f => f.code)).toEqual(["MISSING_REVOCATION_DATA"]);
+    });
+
+    it("ignores an OCSP response issued after the validation time", async () => {
+      const leaf = await loadRealCert("github-0.der");
+      const intermediate = await loadRealCert("github-1.der");
+      const ocsp = await loadRealCert("github-ocsp.der");
+
+      const result = await validateCertificateChain(
+        leaf,
+        { trustAnchors: [intermediate], validationTime: new Date("2026-01-10T00:00:00Z") },
+        { ocspResponses: [ocsp] },
+      );
+
+      expect(result.failures.map(f => f.code)).toEqual(["MISSING_REVOCATION_DATA"]);
+    });
+
+    it("reports an untrusted root", async () => {
+      const leaf = await loadRealCert("github-0.der");
+      const intermediate = await loadRealCert("github-1.der");
+      const otherRoot = await loadRealCert("amazon-2.der");
+
+      const result = await validateCertificateChain(
+        leaf,
+        { trustAnchors: [otherRoot], validationTime: duringOcspValidity, checkRevocation: false },
+        { certificates: [intermediate] },
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.trustAnchor).toBeNull();
+      expect(result.failures.map(f => f.code)).toEqual(["UNTRUSTED_ROOT"]);
+    });
+  });
+
+  describe("with a generated CA", () => {
+    it("accepts a certificate the CRL does not list", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Leaf", 2, ca);
+      const crl = await createCrl(ca);
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [ca.der], validationTime: new Date("2025-07-01T00:00:00Z") },
+        { crls: [crl] },
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.revocation[0]).toMatchObject({ status: "good", source: "crl", embedded: true });
+    });
+
+    it("reports a revoked certificate", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Leaf", 2, ca);
+      const revokedAt = new Date("2025-03-01T00:00:00Z");
+      const crl = await createCrl(ca, { cert: leaf, at: revokedAt });
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [ca.der], validationTime: new Date("2025-07-01T00:00:00Z") },
+        { crls: [crl] },
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.failures.map(f => f.code)).toEqual(["REVOKED"]);
+      expect(result.revocation[0].revocationTime).toEqual(revokedAt);
+    });
+
+    it("accepts a certificate revoked after the validation time", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Leaf", 2, ca);
+      const crl = await createCrl(ca, { cert: leaf, at: new Date("2025-03-01T00:00:00Z") });
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [ca.der], validationTime: new Date("2025-02-01T00:00:00Z") },
+        { crls: [crl] },
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it("ignores a CRL signed by a different key", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const impostor = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Leaf", 2, ca);
+      const crl = await createCrl(impostor);
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [ca.der], validationTime: new Date("2025-07-01T00:00:00Z") },
+        { crls: [crl] },
+      );
+
+      expect(result.failures.map(f => f.code)).toEqual(["MISSING_REVOCATION_DATA"]);
+    });
+
+    it("falls back to the revocation provider", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Leaf", 2, ca);
+      const crl = await createCrl(ca);
+
+      const provider: RevocationProvider = {
+        getCRL: async () => crl,
+      };
+
+      const result = await validateCertificateChain(leaf.der, {
+        trustAnchors: [ca.der],
+        validationTime: new Date("2025-07-01T00:00:00Z"),
+        revocationProvider: provider,
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.revocation[0]).toMatchObject({
+        status: "good",
+        source: "crl",
+        embedded: false,
+      });
+    });
+
+    it("rejects a certificate not signed by its named issuer", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const impostor = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Leaf", 2, ca);
+
+      const result = await validateCertificateChain(leaf.der, {
+        trustAnchors: [impostor.der],
+        checkRevocation: false,
+        validationTime: new Date("2025-07-01T00:00:00Z"),
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.failures.map(f => f.code)).toEqual(["INVALID_CERTIFICATE_SIGNATURE"]);
+    });
+
+    it("accepts an intermediate CA", async () => {
+      const root = await createCertificate("Test Root", 1);
+      const intermediate = await createCertificate("Test CA", 2, root, {});
+      const leaf = await createCertificate("Test Leaf", 3, intermediate);
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [root.der], checkRevocation: false },
+        { certificates: [intermediate.der] },
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.chain).toHaveLength(3);
+    });
+
+    it("rejects an intermediate that is not a CA", async () => {
+      const root = await createCertificate("Test Root", 1);
+      const notCa = await createCertificate("Test Signer", 2, root);
+      const leaf = await createCertificate("Test Leaf", 3, notCa);
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [root.der], checkRevocation: false },
+        { certificates: [notCa.der] },
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.trustAnchor).toBeNull();
+      expect(result.failures.map(f => f.code)).toEqual(["INVALID_CA"]);
+      expect(result.failures[0].message).toContain("is not a CA");
+    });
+
+    it("enforces the path length constraint", async () => {
+      const root = await createCertificate("Test Root", 1);
+      const upper = await createCertificate("Upper CA", 2, root, { pathLength: 0 });
+      const lower = await createCertificate("Lower CA", 3, upper, {});
+      const leaf = await createCertificate("Test Leaf", 4, lower);
+
+      const result = await validateCertificateChain(
+        leaf.der,
+        { trustAnchors: [root.der], checkRevocation: false },
+        { certificates: [upper.der, lower.der] },
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.failures.map(f => f.code)).toEqual(["INVALID_CA"]);
+      expect(result.failures[0].certificate).toEqual(lower.der);
+    });
+  });
+
+  describe("through verifySignatures", () => {
+    async function signWithTestCa() {
+      const ca = await createCertificate("Test CA", 1, undefined, {});
+      const leaf = await createCertificate("Test Signer", 2, ca);
+      const signer = new CryptoKeySigner(leaf.keys.privateKey, leaf.der, "EC", "ECDSA", [ca.der]);
+
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const { bytes } = await pdf.sign({ signer });
+
+      return { ca, bytes };
+    }
+
+    it("validates the signer chain with an online provider", async () => {
+      const { ca, bytes } = await signWithTestCa();
+      const crl = await createCrl(ca);
+      const pdf = await PDF.load(bytes);
+
+      const [result] = await pdf.verifySignatures({
+        trustAnchors: [ca.der],
+        revocationProvider: { getCRL: async () => crl },
+      });
+
+      expect(result.integrity).toBe(true);
+      expect(result.chain?.valid).toBe(true);
+      expect(result.chain?.chain).toHaveLength(2);
+      expect(result.chain?.revocation[0].embedded).toBe(false);
+    });
+
+    it("uses revocation data from the DSS", async () => {
+      const ca = await createCertificate("Test CA", 1);
+      const leaf = await createCertificate("Test Signer", 2, ca);
+      const crl = await createCrl(ca);
+      const signer = new CryptoKeySigner(leaf.keys.privateKey, leaf.der, "EC", "ECDSA", [ca.der]);
+
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const { bytes } = await pdf.sign({
+        signer,
+        longTermValidation: true,
+        revocationProvider: { getCRL: async () => crl },
+      });
+
+      const [result] = await (await PDF.load(bytes)).verifySignatures({ trustAnchors: [ca.der] });
+
+      expect(result.chain?.valid).toBe(true);
+      expect(result.chain?.revocation[0]).toMatchObject({ source: "crl", embedded: true });
+    });
+
+    it("reports an untrusted signer", async () => {
+      const { bytes } = await signWithTestCa();
+      const otherCa = await createCertificate("Other CA", 1);
+
+      const [result] = await (
+        await PDF.load(bytes)
+      ).verifySignatures({
+        trustAnchors: [otherCa.der],
+      });
+
+      expect(result.integrity).toBe(true);
+      expect(result.chain?.valid).toBe(false);
+      expect(result.chain?.failures.map(f => f.code)).toContain("UNTRUSTED_ROOT");
+    });
+
+    it("skips chain validation without options", async () => {
+      const { bytes } = await signWithTestCa();
+
+      const [result] = await (await PDF.load(bytes)).verifySignatures();
+
+      expect(result.chain).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,764 @@
+/**
+ * Certificate chain and revocation validation.
+ *
+ * Builds a path from an end-entity certificate to a caller-supplied trust
+ * anchor, checks each certificate's validity period at the validation time,
+ * and checks revocation status using embedded OCSP responses and CRLs first,
+ * then an optional RevocationProvider.
+ *
+ * This is deliberately a subset of RFC 5280 path validation: intermediates
+ * must be CAs within their path length limit, but name constraints and
+ * policy processing are not checked.
+ *
+ * RFC 5280: X.509 Certificate and CRL Profile - Section 6
+ * RFC 6960: X.509 Internet Public Key Infrastructure OCSP
+ */
+
+import { bytesEqual, toArrayBuffer } from "#src/helpers/buffer.ts";
+import { parseCertificate } from "#src/signatures/formats/common";
+import { BitString, OctetString } from "asn1js";
+import * as pkijs from "pkijs";
+
+import { buildCertificateChain } from "./aia";
+import { parseBasicOcspResponse, parseCrl } from "./revocation";
+import type {
+  CertificateRevocationStatus,
+  CertificateValidationFailure,
+  CertificateValidationOptions,
+  CertificateValidationResult,
+  EmbeddedValidationData,
+} from "./types";
+import { getCertificateCommonName } from "./verify";
+
+/** id-kp-OCSPSigning */
+const OID_KP_OCSP_SIGNING = "1.3.6.1.5.5.7.3.9";
+
+/** id-ce-extKeyUsage */
+const OID_EXT_KEY_USAGE = "2.5.29.37";
+
+/** id-ce-keyUsage */
+const OID_KEY_USAGE = "2.5.29.15";
+
+/** id-ce-basicConstraints */
+const OID_BASIC_CONSTRAINTS = "2.5.29.19";
+
+/** keyCertSign, bit 5 of the KeyUsage BIT STRING */
+const KEY_CERT_SIGN = 0x04;
+
+/** How far an OCSP response's thisUpdate may run ahead of the validation time */
+const OCSP_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** Upper bound on chain length, to stop runaway path building */
+const MAX_CHAIN_LENGTH = 10;
+
+/**
+ * A certificate with its original DER encoding.
+ */
+interface ParsedCertificate {
+  der: Uint8Array;
+  cert: pkijs.Certificate;
+}
+
+/**
+ * Revocation status found in a single OCSP response or CRL.
+ */
+type RevocationFinding = Pick<CertificateRevocationStatus, "status" | "revocationTime">;
+
+/**
+ * Validate a certificate chain against a set of trust anchors.
+ *
+ * Builds the chain from `certificate` up to a trust anchor using the
+ * supplied certificates (and AIA downloads if enabled), then checks every
+ * certificate below the anchor for expiry and revocation at the validation
+ * time. Each problem is reported as a failure with a reason code:
+ *
+ * - `EXPIRED` - outside its validity period at the validation time
+ * - `REVOKED` - revoked at or before the validation time
+ * - `UNTRUSTED_ROOT` - the chain does not reach a trust anchor
+ * - `MISSING_REVOCATION_DATA` - no usable OCSP response or CRL was found
+ * - `INVALID_CERTIFICATE_SIGNATURE` - a certificate is not signed by its issuer
+ * - `INVALID_CA` - an intermediate isn't a CA, or exceeds its path length
+ *
+ * @param certificate - DER-encoded end-entity certificate
+ * @param options - Trust anchors, validation time and revocation settings
+ * @param embedded - Certificates and revocation data already available
+ * @returns Validation result (never throws for untrusted or malformed chains)
+ *
+ * @example
+ * ```typescript
+ * const result = await validateCertificateChain(signerCert, {
+ *   trustAnchors: [rootCa],
+ *   validationTime: timestamp.time,
+ * }, {
+ *   certificates: cmsCertificates,
+ *   ocspResponses: dssOcsps,
+ * });
+ *
+ * if (!result.valid) {
+ *   console.log(result.failures.map(f => f.code));
+ * }
+ * ```
+ */
+export async function validateCertificateChain(
+  certificate: Uint8Array,
+  options: CertificateValidationOptions,
+  embedded: EmbeddedValidationData = {},
+): Promise<CertificateValidationResult> {
+  const validationTime = options.validationTime ?? new Date();
+  const failures: CertificateValidationFailure[] = [];
+
+  const leaf = toParsedCertificate(certificate);
+
+  if (!leaf) {
+    failures.push({
+      code: "UNTRUSTED_ROOT",
+      message: "Could not parse the end-entity certificate",
+      certificate,
+    });
+
+    return {
+      valid: false,
+      validationTime,
+      chain: [certificate],
+      trustAnchor: null,
+      revocation: [],
+      failures,
+    };
+  }
+
+  const anchors = parseCertificates(options.trustAnchors);
+  const pool = parseCertificates([...(embedded.certificates ?? []), ...options.trustAnchors]);
+
+  const { chain, trustAnchor } = await buildPath(leaf, anchors, pool, options, failures);
+
+  // Validity periods. Trust anchors are trusted as configured (RFC 5280 6.1.1).
+  for (const entry of chain) {
+    if (entry === trustAnchor) {
+      continue;
+    }
+
+    const notBefore = entry.cert.notBefore.value;
+    const notAfter = entry.cert.notAfter.value;
+
+    if (validationTime < notBefore || validationTime > notAfter) {
+      failures.push({
+        code: "EXPIRED",
+        message: `Certificate "${describe(entry)}" is not valid at ${validationTime.toISOString()} (valid ${notBefore.toISOString()} to ${notAfter.toISOString()})`,
+        certificate: entry.der,
+      });
+    }
+  }
+
+  // Revocation. Each certificate needs its issuer, so an incomplete chain
+  // leaves the last certificate unchecked (it already failed as untrusted).
+  const revocation: CertificateRevocationStatus[] = [];
+
+  if (options.checkRevocation ?? true) {
+    for (let i = 0; i < chain.length - 1; i++) {
+      const entry = chain[i];
+
+      if (entry === trustAnchor) {
+        break;
+      }
+
+      const status = await checkRevocation(entry, chain[i + 1], validationTime, options, embedded);
+
+      revocation.push(status);
+
+      if (status.status === "revoked") {
+        failures.push({
+          code: "REVOKED",
+          message: `Certificate "${describe(entry)}" was revoked at ${status.revocationTime?.toISOString() ?? "an unknown time"}`,
+          certificate: entry.der,
+        });
+      } else if (status.status === "unknown") {
+        failures.push({
+          code: "MISSING_REVOCATION_DATA",
+          message: `No usable OCSP response or CRL found for certificate "${describe(entry)}"`,
+          certificate: entry.der,
+        });
+      }
+    }
+  }
+
+  return {
+    valid: failures.length === 0,
+    validationTime,
+    chain: chain.map(entry => entry.der),
+    trustAnchor: trustAnchor?.der ?? null,
+    revocation,
+    failures,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Path Building
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a path from the leaf towards a trust anchor.
+ *
+ * Issuers are chosen by name and confirmed by verifying the certificate's
+ * signature with the candidate's key. If no issuer is available locally and
+ * AIA fetching is enabled, missing certificates are downloaded once.
+ */
+async function buildPath(
+  leaf: ParsedCertificate,
+  anchors: ParsedCertificate[],
+  pool: ParsedCertificate[],
+  options: CertificateValidationOptions,
+  failures: CertificateValidationFailure[],
+): Promise<{ chain: ParsedCertificate[]; trustAnchor: ParsedCertificate | null }> {
+  const chain: ParsedCertificate[] = [leaf];
+  let current = leaf;
+  let fetched = false;
+
+  while (chain.length <= MAX_CHAIN_LENGTH) {
+    if (anchors.some(anchor => isSameCertificate(anchor, current))) {
+      return { chain, trustAnchor: current };
+    }
+
+    if (isSelfIssued(current.cert)) {
+      failures.push({
+        code: "UNTRUSTED_ROOT",
+        message: `Root certificate "${describe(current)}" is not a trust anchor`,
+        certificate: current.der,
+      });
+
+      return { chain, trustAnchor: null };
+    }
+
+    const { issuer, nameMatched, rejection } = await findIssuer(current, anchors, pool, chain);
+
+    if (issuer) {
+      chain.push(issuer);
+      current = issuer;
+
+      continue;
+    }
+
+    if (options.fetchMissingCertificates && !fetched) {
+      fetched = true;
+
+      try {
+        const downloaded = await buildCertificateChain(leaf.der, {
+          existingChain: chain.slice(1).map(entry => entry.der),
+          timeout: options.timeout,
+          fetch: options.fetch,
+        });
+
+        pool.push(...parseCertificates(downloaded));
+      } catch {
+        // Unreachable AIA location - report the chain as incomplete below
+      }
+
+      continue;
+    }
+
+    if (rejection) {
+      failures.push({
+        code: "INVALID_CA",
+        message: rejection,
+        certificate: current.der,
+      });
+    } else if (nameMatched) {
+      failures.push({
+        code: "INVALID_CERTIFICATE_SIGNATURE",
+        message: `Signature on certificate "${describe(current)}" does not verify against any issuer candidate`,
+        certificate: current.der,
+      });
+    } else {
+      failures.push({
+        code: "UNTRUSTED_ROOT",
+        message: `Issuer of certificate "${describe(current)}" not found; chain does not reach a trust anchor`,
+        certificate: current.der,
+      });
+    }
+
+    return { chain, trustAnchor: null };
+  }
+
+  failures.push({
+    code: "UNTRUSTED_ROOT",
+    message: `Chain exceeds ${MAX_CHAIN_LENGTH} certificates without reaching a trust anchor`,
+    certificate: current.der,
+  });
+
+  return { chain, trustAnchor: null };
+}
+
+/**
+ * Find the certificate that issued `subject` among the candidates.
+ *
+ * A candidate that signed `subject` but may not issue certificates at this
+ * depth is skipped, and the reason returned as `rejection`.
+ */
+async function findIssuer(
+  subject: ParsedCertificate,
+  anchors: ParsedCertificate[],
+  pool: ParsedCertificate[],
+  chain: ParsedCertificate[],
+): Promise<{ issuer: ParsedCertificate | null; nameMatched: boolean; rejection?: string }> {
+  let nameMatched = false;
+  let rejection: string | undefined;
+
+  for (const candidate of pool) {
+    if (chain.some(entry => isSameCertificate(entry, candidate))) {
+      continue;
+    }
+
+    if (!candidate.cert.subject.isEqual(subject.cert.issuer)) {
+      continue;
+    }
+
+    nameMatched = true;
+
+    if (!(await verifyIssuedBy(subject.cert, candidate.cert))) {
+      continue;
+    }
+
+    // Trust anchors are trusted as configured (RFC 5280 6.1.1)
+    const problem = anchors.some(anchor => isSameCertificate(anchor, candidate))
+      ? null
+      : checkCaConstraints(candidate, chain);
+
+    if (!problem) {
+      return { issuer: candidate, nameMatched };
+    }
+
+    rejection ??= problem;
+  }
+
+  return { issuer: null, nameMatched, rejection };
+}
+
+/**
+ * Check that an intermediate may issue the certificates below it.
+ *
+ * It must be a CA (basicConstraints cA, and keyCertSign if keyUsage is
+ * present), and `chain` must not hold more non-self-issued intermediates
+ * than its pathLenConstraint allows (RFC 5280 6.1.4).
+ *
+ * @returns A message describing the problem, or null if it may issue
+ */
+function checkCaConstraints(
+  candidate: ParsedCertificate,
+  chain: ParsedCertificate[],
+): string | null {
+  const extensions = candidate.cert.extensions ?? [];
+  const basicConstraints = extensions.find(
+    ext => ext.extnID === OID_BASIC_CONSTRAINTS,
+  )?.parsedValue;
+
+  if (!(basicConstraints instanceof pkijs.BasicConstraints) || !basicConstraints.cA) {
+    return `Certificate "${describe(candidate)}" is not a CA`;
+  }
+
+  const keyUsage = extensions.find(ext => ext.extnID === OID_KEY_USAGE);
+
+  if (keyUsage) {
+    const bits =
+      keyUsage.parsedValue instanceof BitString
+        ? keyUsage.parsedValue.valueBlock.valueHexView
+        : undefined;
+
+    if (!bits || !((bits[0] ?? 0) & KEY_CERT_SIGN)) {
+      return `Certificate "${describe(candidate)}" is not allowed to sign certificates`;
+    }
+  }
+
+  const pathLength = basicConstraints.pathLenConstraint;
+
+  if (pathLength === undefined) {
+    return null;
+  }
+
+  const limit = typeof pathLength === "number" ? pathLength : Number(pathLength.toBigInt());
+  const intermediates = chain.slice(1).filter(entry => !isSelfIssued(entry.cert)).length;
+
+  if (intermediates > limit) {
+    return `Certificate "${describe(candidate)}" allows ${limit} intermediate certificates below it, but the chain has ${intermediates}`;
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Revocation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Determine the revocation status of a certificate.
+ *
+ * Embedded OCSP responses are preferred, then embedded CRLs, then the
+ * revocation provider (OCSP before CRL).
+ */
+async function checkRevocation(
+  entry: ParsedCertificate,
+  issuer: ParsedCertificate,
+  validationTime: Date,
+  options: CertificateValidationOptions,
+  embedded: EmbeddedValidationData,
+): Promise<CertificateRevocationStatus> {
+  for (const ocsp of embedded.ocspResponses ?? []) {
+    const finding = await checkOcspResponse(ocsp, entry.cert, issuer.cert, validationTime);
+
+    if (finding) {
+      return { certificate: entry.der, ...finding, source: "ocsp", embedded: true };
+    }
+  }
+
+  for (const crl of embedded.crls ?? []) {
+    const finding = await checkCrl(crl, entry.cert, issuer.cert, validationTime);
+
+    if (finding) {
+      return { certificate: entry.der, ...finding, source: "crl", embedded: true };
+    }
+  }
+
+  const provider = options.revocationProvider;
+
+  if (provider?.getOCSP) {
+    try {
+      const ocsp = await provider.getOCSP(entry.der, issuer.der);
+      const finding = ocsp
+        ? await checkOcspResponse(ocsp, entry.cert, issuer.cert, validationTime)
+        : null;
+
+      if (finding) {
+        return { certificate: entry.der, ...finding, source: "ocsp", embedded: false };
+      }
+    } catch {
+      // Provider failure - fall through to CRL
+    }
+  }
+
+  if (provider?.getCRL) {
+    try {
+      const crl = await provider.getCRL(entry.der);
+      const finding = crl ? await checkCrl(crl, entry.cert, issuer.cert, validationTime) : null;
+
+      if (finding) {
+        return { certificate: entry.der, ...finding, source: "crl", embedded: false };
+      }
+    } catch {
+      // Provider failure - no revocation data
+    }
+  }
+
+  return { certificate: entry.der, status: "unknown" };
+}
+
+/**
+ * Check a certificate against an OCSP response.
+ *
+ * Returns null if the response doesn't cover the certificate, isn't signed
+ * by the issuer (or a responder the issuer delegated to), is stale at the
+ * validation time, or reports "unknown".
+ */
+async function checkOcspResponse(
+  responseDer: Uint8Array,
+  cert: pkijs.Certificate,
+  issuer: pkijs.Certificate,
+  validationTime: Date,
+): Promise<RevocationFinding | null> {
+  const basic = parseBasicOcspResponse(responseDer);
+
+  if (!basic) {
+    return null;
+  }
+
+  const single = await findSingleResponse(basic, cert, issuer);
+
+  if (!single || !(await verifyOcspSignature(basic, issuer))) {
+    return null;
+  }
+
+  // certStatus: good [0] IMPLICIT NULL, revoked [1] RevokedInfo, unknown [2]
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  const certStatus = single.certStatus as {
+    idBlock: { tagNumber: number };
+    valueBlock?: { value?: unknown[] };
+  };
+
+  if (certStatus.idBlock.tagNumber === 1) {
+    const revocationTime = toDate(certStatus.valueBlock?.value?.[0]);
+
+    if (!revocationTime || revocationTime <= validationTime) {
+      return { status: "revoked", revocationTime };
+    }
+
+    // Revoked after the validation time - it was still good then
+    return { status: "good" };
+  }
+
+  if (certStatus.idBlock.tagNumber !== 0) {
+    return null;
+  }
+
+  // A good status only holds between thisUpdate and nextUpdate
+  if (single.thisUpdate.getTime() > validationTime.getTime() + OCSP_CLOCK_SKEW_MS) {
+    return null;
+  }
+
+  if (single.nextUpdate && single.nextUpdate < validationTime) {
+    return null;
+  }
+
+  return { status: "good" };
+}
+
+/**
+ * Find the SingleResponse for a certificate within a BasicOCSPResponse.
+ */
+async function findSingleResponse(
+  basic: pkijs.BasicOCSPResponse,
+  cert: pkijs.Certificate,
+  issuer: pkijs.Certificate,
+): Promise<pkijs.SingleResponse | null> {
+  const crypto = pkijs.getCrypto(true);
+
+  for (const single of basic.tbsResponseData.responses) {
+    try {
+      const hashAlgorithm = crypto.getAlgorithmByOID(
+        single.certID.hashAlgorithm.algorithmId,
+        true,
+        "CertID.hashAlgorithm",
+      );
+
+      const expected = new pkijs.CertID();
+
+      await expected.createForCertificate(cert, {
+        hashAlgorithm: hashAlgorithm.name,
+        issuerCertificate: issuer,
+      });
+
+      if (single.certID.isEqual(expected)) {
+        return single;
+      }
+    } catch {
+      // Unsupported CertID hash - try the next response
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify an OCSP response was signed by the issuer or its delegated responder.
+ */
+async function verifyOcspSignature(
+  basic: pkijs.BasicOCSPResponse,
+  issuer: pkijs.Certificate,
+): Promise<boolean> {
+  const crypto = pkijs.getCrypto(true);
+  const responderId: unknown = basic.tbsResponseData.responderID;
+
+  for (const candidate of [issuer, ...(basic.certs ?? [])]) {
+    let matches: boolean;
+
+    if (responderId instanceof pkijs.RelativeDistinguishedNames) {
+      matches = candidate.subject.isEqual(responderId);
+    } else if (responderId instanceof OctetString) {
+      const keyHash = await crypto.digest(
+        { name: "SHA-1" },
+        toArrayBuffer(getPublicKeyBytes(candidate)),
+      );
+
+      matches = bytesEqual(new Uint8Array(keyHash), responderId.valueBlock.valueHexView);
+    } else {
+      matches = false;
+    }
+
+    if (!matches) {
+      continue;
+    }
+
+    // A responder other than the issuer must be authorized by it (RFC 6960 4.2.2.2)
+    const isIssuer = bytesEqual(getPublicKeyBytes(candidate), getPublicKeyBytes(issuer));
+
+    if (
+      !isIssuer &&
+      !(hasOcspSigningUsage(candidate) && (await verifyIssuedBy(candidate, issuer)))
+    ) {
+      continue;
+    }
+
+    try {
+      return await crypto.verifyWithPublicKey(
+        toArrayBuffer(basic.tbsResponseData.tbsView),
+        basic.signature,
+        candidate.subjectPublicKeyInfo,
+        basic.signatureAlgorithm,
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check a certificate against a CRL.
+ *
+ * Returns null if the CRL wasn't issued by the certificate's issuer, has an
+ * invalid signature, or is stale at the validation time.
+ */
+async function checkCrl(
+  crlDer: Uint8Array,
+  cert: pkijs.Certificate,
+  issuer: pkijs.Certificate,
+  validationTime: Date,
+): Promise<RevocationFinding | null> {
+  const crl = parseCrl(crlDer);
+
+  if (!crl) {
+    return null;
+  }
+
+  if (!crl.issuer.isEqual(cert.issuer)) {
+    return null;
+  }
+
+  try {
+    if (!(await crl.verify({ issuerCertificate: issuer }))) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  const entry = crl.revokedCertificates?.find(revoked =>
+    revoked.userCertificate.isEqual(cert.serialNumber),
+  );
+
+  if (entry) {
+    const revocationTime = entry.revocationDate.value;
+
+    if (revocationTime <= validationTime) {
+      return { status: "revoked", revocationTime };
+    }
+
+    return { status: "good" };
+  }
+
+  if (crl.nextUpdate && crl.nextUpdate.value < validationTime) {
+    return null;
+  }
+
+  return { status: "good" };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a DER-encoded certificate, or null if it's malformed.
+ */
+function toParsedCertificate(der: Uint8Array): ParsedCertificate | null {
+  try {
+    return { der, cert: parseCertificate(der) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse certificates, skipping malformed ones.
+ */
+function parseCertificates(ders: Uint8Array[]): ParsedCertificate[] {
+  const result: ParsedCertificate[] = [];
+
+  for (const der of ders) {
+    const parsed = toParsedCertificate(der);
+
+    if (parsed) {
+      result.push(parsed);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether two certificates are the same, or carry the same subject and key.
+ *
+ * Comparing by subject and key lets a re-issued root match its anchor.
+ */
+function isSameCertificate(a: ParsedCertificate, b: ParsedCertificate): boolean {
+  if (bytesEqual(a.der, b.der)) {
+    return true;
+  }
+
+  return (
+    a.cert.subject.isEqual(b.cert.subject) &&
+    bytesEqual(getPublicKeyBytes(a.cert), getPublicKeyBytes(b.cert))
+  );
+}
+
+/**
+ * Whether a certificate's issuer and subject are the same.
+ */
+function isSelfIssued(cert: pkijs.Certificate): boolean {
+  return cert.subject.isEqual(cert.issuer);
+}
+
+/**
+ * Verify a certificate's signature with the issuer's public key.
+ */
+async function verifyIssuedBy(
+  cert: pkijs.Certificate,
+  issuer: pkijs.Certificate,
+): Promise<boolean> {
+  try {
+    return await cert.verify(issuer);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a certificate's extended key usage includes OCSP signing.
+ */
+function hasOcspSigningUsage(cert: pkijs.Certificate): boolean {
+  const extension = cert.extensions?.find(ext => ext.extnID === OID_EXT_KEY_USAGE);
+
+  if (!(extension?.parsedValue instanceof pkijs.ExtKeyUsage)) {
+    return false;
+  }
+
+  return extension.parsedValue.keyPurposes.includes(OID_KP_OCSP_SIGNING);
+}
+
+/**
+ * Raw subject public key bytes.
+ */
+function getPublicKeyBytes(cert: pkijs.Certificate): Uint8Array {
+  return new Uint8Array(cert.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView);
+}
+
+/**
+ * Convert an ASN.1 time value to a Date.
+ */
+function toDate(value: unknown): Date | undefined {
+  if (
+    value &&
+    typeof value === "object" &&
+    "toDate" in value &&
+    typeof value.toDate === "function"
+  ) {
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    return (value.toDate as () => Date).call(value);
+  }
+
+  return undefined;
+}
+
+/**
+ * Human-readable certificate label for messages.
+ */
+function describe(entry: ParsedCertificate): string {
+  return getCertificateCommonName(entry.der) ?? "unnamed certificate";
+}
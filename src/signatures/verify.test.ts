@@ -0,0 +1,197 @@
+import { PDF } from "#src/api/pdf";
+import { loadFixture } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { P12Signer } from "./signers";
+import { verifyCmsSignature, verifyTimestampToken } from "./verify";
+
+async function loadTestSigner(filename = "test-signer-aes256.p12") {
+  const p12Bytes = await loadFixture("certificates", filename);
+
+  return P12Signer.create(p12Bytes, "test123");
+}
+
+async function signFixture(options: { subFilter?: "adbe.pkcs7.detached" } = {}) {
+  const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+  const signer = await loadTestSigner();
+
+  const { bytes } = await pdf.sign({
+    signer,
+    reason: "Verification test",
+    location: "Test Suite",
+    signingTime: new Date("2025-01-05T12:00:00Z"),
+    ...options,
+  });
+
+  return bytes;
+}
+
+describe("signature verification", () => {
+  describe("getSignatures", () => {
+    it("returns an empty list for unsigned documents", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      expect(pdf.getSignatures()).toEqual([]);
+    });
+
+    it("describes an applied signature", async () => {
+      const bytes = await signFixture();
+      const pdf = await PDF.load(bytes);
+
+      const signatures = pdf.getSignatures();
+
+      expect(signatures).toHaveLength(1);
+      expect(signatures[0].fieldName).toBe("Signature_1");
+      expect(signatures[0].kind).toBe("signature");
+      expect(signatures[0].subFilter).toBe("ETSI.CAdES.detached");
+      expect(signatures[0].reason).toBe("Verification test");
+      expect(signatures[0].location).toBe("Test Suite");
+      expect(signatures[0].byteRange).toHaveLength(4);
+      expect(signatures[0].coversWholeDocument).toBe(true);
+    });
+
+    it("reports earlier signatures as not covering the whole document", async () => {
+      const signer = await loadTestSigner();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      await pdf.sign({ signer });
+      const { bytes } = await pdf.sign({ signer });
+
+      const signatures = (await PDF.load(bytes)).getSignatures();
+
+      expect(signatures).toHaveLength(2);
+      expect(signatures[0].coversWholeDocument).toBe(false);
+      expect(signatures[1].coversWholeDocument).toBe(true);
+    });
+  });
+
+  describe("verifySignatures", () => {
+    it("verifies a CAdES signature", async () => {
+      const pdf = await PDF.load(await signFixture());
+
+      const [result] = await pdf.verifySignatures();
+
+      expect(result.integrity).toBe(true);
+      expect(result.digestValid).toBe(true);
+      expect(result.signatureValid).toBe(true);
+      expect(result.digestAlgorithm).toBe("SHA-256");
+      expect(result.signerName).toBe("Test Signer");
+      expect(result.signerCertificate).toBeInstanceOf(Uint8Array);
+      expect(result.signingTime?.toISOString()).toBe("2025-01-05T12:00:00.000Z");
+      expect(result.issues).toEqual([]);
+    });
+
+    it("verifies a PKCS#7 signature", async () => {
+      const pdf = await PDF.load(await signFixture({ subFilter: "adbe.pkcs7.detached" }));
+
+      const [result] = await pdf.verifySignatures();
+
+      expect(result.subFilter).toBe("adbe.pkcs7.detached");
+      expect(result.integrity).toBe(true);
+    });
+
+    it("verifies ECDSA signatures", async () => {
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+      const signer = await loadTestSigner("test-signer-ec-p256-aes256.p12");
+      const { bytes } = await pdf.sign({ signer });
+
+      const [result] = await (await PDF.load(bytes)).verifySignatures();
+
+      expect(result.integrity).toBe(true);
+    });
+
+    it("verifies every signature in a multiply-signed document", async () => {
+      const signer = await loadTestSigner();
+      const pdf = await PDF.load(await loadFixture("basic", "rot0.pdf"));
+
+      await pdf.sign({ signer });
+      const { bytes } = await pdf.sign({ signer });
+
+      const results = await (await PDF.load(bytes)).verifySignatures();
+
+      expect(results.map(r => r.integrity)).toEqual([true, true]);
+    });
+
+    it("detects modified signed bytes", async () => {
+      const bytes = await signFixture();
+      const tampered = new Uint8Array(bytes);
+
+      // Flip a byte in the PDF header comment, inside the first signed range
+      tampered[10] ^= 0x01;
+
+      const [result] = await (await PDF.load(tampered)).verifySignatures();
+
+      expect(result.integrity).toBe(false);
+      expect(result.digestValid).toBe(false);
+      expect(result.issues.map(i => i.code)).toContain("DIGEST_MISMATCH");
+    });
+
+    it("reports a ByteRange whose gap misses /Contents as INVALID_BYTE_RANGE", async () => {
+      const bytes = await signFixture();
+      const text = Array.from(bytes, byte => String.fromCharCode(byte)).join("");
+      const match = /\/ByteRange \[0 (\d+)/.exec(text);
+
+      if (!match) {
+        throw new Error("Expected a /ByteRange in the signed file");
+      }
+
+      // Shorten the first range by one byte, keeping the file's offsets
+      const length1 = match[1];
+      const shortened = String(Number(length1) - 1).padEnd(length1.length, " ");
+      const start = match.index + match[0].length - length1.length;
+      const tampered = new Uint8Array(bytes);
+
+      tampered.set(new TextEncoder().encode(shortened), start);
+
+      const [result] = await (await PDF.load(tampered)).verifySignatures();
+
+      expect(result.byteRange[1]).toBe(Number(length1) - 1);
+      expect(result.integrity).toBe(false);
+      expect(result.issues.map(i => i.code)).toEqual(["INVALID_BYTE_RANGE"]);
+    });
+
+    it("reports unsigned data smuggled into the ByteRange gap", async () => {
+      const bytes = await signFixture();
+      const text = Array.from(bytes, byte => String.fromCharCode(byte)).join("");
+      const match = /\/ByteRange \[0\s+\d+\s+(\d+)/.exec(text);
+
+      if (!match) {
+        throw new Error("Expected a /ByteRange in the signed file");
+      }
+
+      // End /Contents early inside its zero padding and add a key of our own;
+      // the file still parses and the CMS still covers the signed ranges
+      const injected = new TextEncoder().encode("> /Wrapped (unsigned) /Padding <");
+      const tampered = new Uint8Array(bytes);
+
+      tampered.set(injected, Number(match[1]) - 1 - injected.length);
+
+      const [result] = await (await PDF.load(tampered)).verifySignatures();
+
+      expect(result.integrity).toBe(false);
+      expect(result.issues.map(i => i.code)).toEqual(["INVALID_BYTE_RANGE"]);
+    });
+  });
+
+  describe("verifyCmsSignature", () => {
+    it("reports malformed CMS data", async () => {
+      const result = await verifyCmsSignature(new Uint8Array([1, 2, 3]), new Uint8Array(0));
+
+      expect(result.digestValid).toBe(false);
+      expect(result.signatureValid).toBe(false);
+      expect(result.issues[0].code).toBe("MALFORMED_CMS");
+    });
+  });
+
+  describe("verifyTimestampToken", () => {
+    it("reports tokens that are not SignedData", async () => {
+      const { timestamp, cms } = await verifyTimestampToken(
+        new Uint8Array([0x30, 0x00]),
+        new Uint8Array(0),
+      );
+
+      expect(timestamp).toBeNull();
+      expect(cms.issues[0].code).toBe("MALFORMED_CMS");
+    });
+  });
+});
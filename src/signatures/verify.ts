@@ -0,0 +1,571 @@
+/**
+ * CMS signature verification.
+ *
+ * Checks the cryptographic integrity of CMS SignedData structures as used in
+ * PDF signatures (adbe.pkcs7.detached, ETSI.CAdES.detached) and RFC 3161
+ * timestamp tokens (signature timestamps and ETSI.RFC3161 document timestamps).
+ *
+ * This only answers "was this data signed by the key in this certificate?".
+ * Whether the certificate is trusted is a separate question.
+ *
+ * RFC 5652: Cryptographic Message Syntax (CMS) - Section 5.6
+ * RFC 3161: Time-Stamp Protocol (TSP)
+ */
+
+import { bytesEqual, toArrayBuffer } from "#src/helpers/buffer.ts";
+import { parseCertificate } from "#src/signatures/formats/common";
+import { sha1 } from "@noble/hashes/legacy.js";
+import { sha256, sha384, sha512 } from "@noble/hashes/sha2.js";
+import { type BaseBlock, fromBER, OctetString } from "asn1js";
+import * as pkijs from "pkijs";
+
+import {
+  OID_MESSAGE_DIGEST,
+  OID_SHA1,
+  OID_SHA256,
+  OID_SHA384,
+  OID_SHA512,
+  OID_SIGNED_DATA,
+  OID_SIGNING_TIME,
+  OID_TIMESTAMP_TOKEN,
+  OID_TST_INFO,
+} from "./oids";
+import type { SignatureVerificationIssue, TimestampVerificationResult } from "./types";
+import { stripCmsPadding } from "./utils";
+
+/** id-ce-subjectKeyIdentifier */
+const OID_SUBJECT_KEY_IDENTIFIER = "2.5.29.14";
+
+/** id-at-commonName */
+const OID_COMMON_NAME = "2.5.4.3";
+
+/**
+ * Result of verifying a CMS SignedData structure.
+ */
+export interface CmsVerificationResult {
+  /** Digest algorithm used by the signer (e.g. "SHA-256") */
+  digestAlgorithm?: string;
+
+  /** Whether the content digest matches the messageDigest attribute */
+  digestValid: boolean;
+
+  /** Whether the signature verifies against the signer certificate */
+  signatureValid: boolean;
+
+  /** DER-encoded signer certificate, if found */
+  signerCertificate: Uint8Array | null;
+
+  /** All certificates embedded in the SignedData */
+  certificates: Uint8Array[];
+
+  /** Claimed signing time from the signing-time attribute */
+  signingTime?: Date;
+
+  /** Embedded signature timestamp (unsigned attribute), if present */
+  timestamp?: TimestampVerificationResult;
+
+  /** Problems found during verification */
+  issues: SignatureVerificationIssue[];
+}
+
+/**
+ * Verify a detached CMS signature over the given bytes.
+ *
+ * Recomputes the digest of `signedBytes`, compares it to the messageDigest
+ * signed attribute, and verifies the signer's signature over the signed
+ * attributes. If the signature carries an RFC 3161 timestamp token, that
+ * token is verified against the signature value as well.
+ *
+ * @param cmsBytes - DER-encoded CMS ContentInfo (may be zero-padded)
+ * @param signedBytes - The bytes the signature claims to cover
+ * @returns Verification result (never throws for malformed input)
+ */
+export async function verifyCmsSignature(
+  cmsBytes: Uint8Array,
+  signedBytes: Uint8Array,
+): Promise<CmsVerificationResult> {
+  const issues: SignatureVerificationIssue[] = [];
+
+  let signedData: pkijs.SignedData;
+
+  try {
+    signedData = parseSignedData(cmsBytes);
+  } catch (error) {
+    issues.push({
+      code: "MALFORMED_CMS",
+      message: `Could not parse CMS structure: ${error instanceof Error ? error.message : String(error)}`,
+    });
+
+    return {
+      digestValid: false,
+      signatureValid: false,
+      signerCertificate: null,
+      certificates: [],
+      issues,
+    };
+  }
+
+  const certificates = getCertificates(signedData);
+  const core = await verifySignerInfo(signedData, signedBytes, issues);
+
+  const result: CmsVerificationResult = {
+    digestAlgorithm: core.digestAlgorithm,
+    digestValid: core.digestValid,
+    signatureValid: core.signatureValid,
+    signerCertificate: core.signerCertificate,
+    certificates,
+    signingTime: core.signerInfo ? getSigningTime(core.signerInfo) : undefined,
+    issues,
+  };
+
+  // Signature timestamp: the token's imprint covers the signature value
+  const token = core.signerInfo ? getTimestampToken(core.signerInfo) : null;
+
+  if (token && core.signerInfo) {
+    const signatureValue = new Uint8Array(core.signerInfo.signature.valueBlock.valueHexView);
+    const tsResult = await verifyTimestampToken(token, signatureValue);
+
+    result.timestamp = tsResult.timestamp ?? undefined;
+
+    if (!tsResult.timestamp?.valid) {
+      issues.push({
+        code: "TIMESTAMP_INVALID",
+        message: "Embedded signature timestamp failed verification",
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Verify an RFC 3161 timestamp token against the data it timestamps.
+ *
+ * Checks the TSA's signature over the TSTInfo and that the TSTInfo
+ * messageImprint matches the digest of `timestampedData`.
+ *
+ * @param token - DER-encoded TimeStampToken (may be zero-padded)
+ * @param timestampedData - The data whose digest should be in the imprint
+ * @returns The CMS verification result and parsed timestamp (null if unparseable)
+ */
+export async function verifyTimestampToken(
+  token: Uint8Array,
+  timestampedData: Uint8Array,
+): Promise<{ cms: CmsVerificationResult; timestamp: TimestampVerificationResult | null }> {
+  const issues: SignatureVerificationIssue[] = [];
+
+  let signedData: pkijs.SignedData;
+  let tstInfo: pkijs.TSTInfo;
+  let content: Uint8Array;
+
+  try {
+    signedData = parseSignedData(token);
+
+    if (signedData.encapContentInfo.eContentType !== OID_TST_INFO) {
+      throw new Error(`Expected TSTInfo content, got ${signedData.encapContentInfo.eContentType}`);
+    }
+
+    const eContent = signedData.encapContentInfo.eContent;
+
+    if (!eContent) {
+      throw new Error("Timestamp token has no encapsulated TSTInfo");
+    }
+
+    content = new Uint8Array(eContent.getValue());
+
+    const asn1 = fromBER(toArrayBuffer(content));
+
+    if (asn1.offset === -1) {
+      throw new Error("Failed to parse TSTInfo");
+    }
+
+    tstInfo = new pkijs.TSTInfo({ schema: asn1.result });
+  } catch (error) {
+    issues.push({
+      code: "MALFORMED_CMS",
+      message: `Could not parse timestamp token: ${error instanceof Error ? error.message : String(error)}`,
+    });
+
+    return {
+      cms: {
+        digestValid: false,
+        signatureValid: false,
+        signerCertificate: null,
+        certificates: [],
+        issues,
+      },
+      timestamp: null,
+    };
+  }
+
+  const certificates = getCertificates(signedData);
+  const core = await verifySignerInfo(signedData, content, issues);
+
+  // The imprint binds the token to the timestamped data
+  let imprintValid = false;
+  const imprintAlgorithm = getDigestAlgorithmName(tstInfo.messageImprint.hashAlgorithm.algorithmId);
+
+  if (imprintAlgorithm) {
+    const expected = new Uint8Array(tstInfo.messageImprint.hashedMessage.valueBlock.valueHexView);
+
+    imprintValid = bytesEqual(computeDigest(timestampedData, imprintAlgorithm), expected);
+
+    if (!imprintValid) {
+      issues.push({
+        code: "DIGEST_MISMATCH",
+        message: "Timestamp message imprint does not match the timestamped data",
+      });
+    }
+  } else {
+    issues.push({
+      code: "UNSUPPORTED_ALGORITHM",
+      message: `Unsupported message imprint algorithm: ${tstInfo.messageImprint.hashAlgorithm.algorithmId}`,
+    });
+  }
+
+  return {
+    cms: {
+      digestAlgorithm: core.digestAlgorithm,
+      digestValid: core.digestValid && imprintValid,
+      signatureValid: core.signatureValid,
+      signerCertificate: core.signerCertificate,
+      certificates,
+      issues,
+    },
+    timestamp: {
+      time: tstInfo.genTime,
+      valid: core.digestValid && core.signatureValid && imprintValid,
+      tsaCertificate: core.signerCertificate,
+      certificates,
+    },
+  };
+}
+
+/**
+ * Get the common name (CN) from a certificate's subject.
+ *
+ * @param certDer - DER-encoded certificate
+ * @returns The common name, or undefined if absent or unparseable
+ */
+export function getCertificateCommonName(certDer: Uint8Array): string | undefined {
+  try {
+    const cert = parseCertificate(certDer);
+
+    for (const tv of cert.subject.typesAndValues) {
+      if (tv.type === OID_COMMON_NAME) {
+        return String(tv.value.valueBlock.value);
+      }
+    }
+  } catch {
+    // Unparseable certificate - no name
+  }
+
+  return undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Internals
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Verify the first SignerInfo against the given content.
+ */
+async function verifySignerInfo(
+  signedData: pkijs.SignedData,
+  content: Uint8Array,
+  issues: SignatureVerificationIssue[],
+): Promise<{
+  signerInfo: pkijs.SignerInfo | null;
+  digestAlgorithm?: string;
+  digestValid: boolean;
+  signatureValid: boolean;
+  signerCertificate: Uint8Array | null;
+}> {
+  const signerInfo = signedData.signerInfos[0];
+
+  if (!signerInfo) {
+    issues.push({ code: "MALFORMED_CMS", message: "CMS structure has no SignerInfo" });
+
+    return {
+      signerInfo: null,
+      digestValid: false,
+      signatureValid: false,
+      signerCertificate: null,
+    };
+  }
+
+  const digestAlgorithm = getDigestAlgorithmName(signerInfo.digestAlgorithm.algorithmId);
+  const signerCert = findSignerCertificate(signedData, signerInfo);
+  const signerCertificate = signerCert ? new Uint8Array(signerCert.toSchema().toBER(false)) : null;
+
+  if (!signerCert) {
+    issues.push({
+      code: "SIGNER_CERT_NOT_FOUND",
+      message: "Signer certificate is not embedded in the CMS structure",
+    });
+  }
+
+  if (!digestAlgorithm) {
+    issues.push({
+      code: "UNSUPPORTED_ALGORITHM",
+      message: `Unsupported digest algorithm: ${signerInfo.digestAlgorithm.algorithmId}`,
+    });
+
+    return { signerInfo, digestValid: false, signatureValid: false, signerCertificate };
+  }
+
+  const contentDigest = computeDigest(content, digestAlgorithm);
+
+  // With signed attributes, the signature covers the attributes and the
+  // messageDigest attribute binds them to the content. Without them, the
+  // signature covers the content directly.
+  let digestValid: boolean;
+  let dataToVerify: Uint8Array;
+
+  if (signerInfo.signedAttrs) {
+    const messageDigest = findAttribute(signerInfo.signedAttrs, OID_MESSAGE_DIGEST);
+
+    if (messageDigest instanceof OctetString) {
+      digestValid = bytesEqual(
+        contentDigest,
+        new Uint8Array(messageDigest.valueBlock.valueHexView),
+      );
+    } else {
+      digestValid = false;
+    }
+
+    dataToVerify = encodeSignedAttributes(signerInfo.signedAttrs);
+  } else {
+    digestValid = true;
+    dataToVerify = content;
+  }
+
+  if (!digestValid) {
+    issues.push({
+      code: "DIGEST_MISMATCH",
+      message: "Document digest does not match the signed messageDigest attribute",
+    });
+  }
+
+  let signatureValid = false;
+
+  if (signerCert) {
+    let verifyFailed = false;
+
+    try {
+      const engine = pkijs.getCrypto(true);
+
+      signatureValid = await engine.verifyWithPublicKey(
+        toArrayBuffer(dataToVerify),
+        signerInfo.signature,
+        signerCert.subjectPublicKeyInfo,
+        signerInfo.signatureAlgorithm,
+        digestAlgorithm,
+      );
+    } catch (error) {
+      verifyFailed = true;
+
+      issues.push({
+        code: "UNSUPPORTED_ALGORITHM",
+        message: `Could not verify signature: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+
+    if (!signatureValid && !verifyFailed) {
+      issues.push({
+        code: "SIGNATURE_INVALID",
+        message: "Signature value does not verify against the signer certificate",
+      });
+    }
+  }
+
+  return { signerInfo, digestAlgorithm, digestValid, signatureValid, signerCertificate };
+}
+
+/**
+ * Parse CMS ContentInfo bytes into SignedData.
+ */
+function parseSignedData(cmsBytes: Uint8Array): pkijs.SignedData {
+  const asn1 = fromBER(toArrayBuffer(stripCmsPadding(cmsBytes)));
+
+  if (asn1.offset === -1) {
+    throw new Error("Invalid ASN.1 encoding");
+  }
+
+  const contentInfo = new pkijs.ContentInfo({ schema: asn1.result });
+
+  if (contentInfo.contentType !== OID_SIGNED_DATA) {
+    throw new Error(`Expected SignedData, got ${contentInfo.contentType}`);
+  }
+
+  return new pkijs.SignedData({ schema: contentInfo.content });
+}
+
+/**
+ * Get all X.509 certificates embedded in SignedData as DER.
+ */
+function getCertificates(signedData: pkijs.SignedData): Uint8Array[] {
+  const certificates: Uint8Array[] = [];
+
+  for (const cert of signedData.certificates ?? []) {
+    if (cert instanceof pkijs.Certificate) {
+      certificates.push(new Uint8Array(cert.toSchema().toBER(false)));
+    }
+  }
+
+  return certificates;
+}
+
+/**
+ * Locate the signer certificate referenced by a SignerInfo's sid.
+ *
+ * Supports both IssuerAndSerialNumber and SubjectKeyIdentifier.
+ */
+function findSignerCertificate(
+  signedData: pkijs.SignedData,
+  signerInfo: pkijs.SignerInfo,
+): pkijs.Certificate | null {
+  const certs = (signedData.certificates ?? []).filter(
+    (cert): cert is pkijs.Certificate => cert instanceof pkijs.Certificate,
+  );
+
+  if (signerInfo.sid instanceof pkijs.IssuerAndSerialNumber) {
+    const issuer = new Uint8Array(signerInfo.sid.issuer.toSchema().toBER(false));
+    const serial = new Uint8Array(signerInfo.sid.serialNumber.valueBlock.valueHexView);
+
+    for (const cert of certs) {
+      if (
+        bytesEqual(issuer, new Uint8Array(cert.issuer.toSchema().toBER(false))) &&
+        bytesEqual(serial, new Uint8Array(cert.serialNumber.valueBlock.valueHexView))
+      ) {
+        return cert;
+      }
+    }
+
+    return null;
+  }
+
+  // [0] SubjectKeyIdentifier
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  const keyId = (signerInfo.sid as { valueBlock?: { valueHexView?: Uint8Array } }).valueBlock
+    ?.valueHexView;
+
+  if (!keyId) {
+    return null;
+  }
+
+  for (const cert of certs) {
+    const ski = cert.extensions?.find(ext => ext.extnID === OID_SUBJECT_KEY_IDENTIFIER);
+
+    if (!ski) {
+      continue;
+    }
+
+    const parsed = fromBER(toArrayBuffer(new Uint8Array(ski.extnValue.valueBlock.valueHexView)));
+
+    if (
+      parsed.offset !== -1 &&
+      parsed.result instanceof OctetString &&
+      bytesEqual(new Uint8Array(keyId), new Uint8Array(parsed.result.valueBlock.valueHexView))
+    ) {
+      return cert;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the first value of an attribute by OID.
+ */
+function findAttribute(
+  attrs: pkijs.SignedAndUnsignedAttributes,
+  oid: string,
+): BaseBlock | undefined {
+  // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+  return attrs.attributes.find(attr => attr.type === oid)?.values[0] as BaseBlock | undefined;
+}
+
+/**
+ * Get the signing-time attribute value.
+ */
+function getSigningTime(signerInfo: pkijs.SignerInfo): Date | undefined {
+  if (!signerInfo.signedAttrs) {
+    return undefined;
+  }
+
+  const value = findAttribute(signerInfo.signedAttrs, OID_SIGNING_TIME);
+
+  // UTCTime and GeneralizedTime both expose toDate()
+  if (value && "toDate" in value && typeof value.toDate === "function") {
+    // oxlint-disable-next-line typescript/no-unsafe-type-assertion
+    return (value.toDate as () => Date)();
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the signature timestamp token from unsigned attributes.
+ */
+function getTimestampToken(signerInfo: pkijs.SignerInfo): Uint8Array | null {
+  if (!signerInfo.unsignedAttrs) {
+    return null;
+  }
+
+  const value = findAttribute(signerInfo.unsignedAttrs, OID_TIMESTAMP_TOKEN);
+
+  return value ? new Uint8Array(value.toBER(false)) : null;
+}
+
+/**
+ * Get the DER bytes of signed attributes as they were signed.
+ *
+ * The signature is computed over the attributes encoded as SET OF (0x31),
+ * not the [0] IMPLICIT tag used inside SignerInfo. We use the original
+ * encoding so re-serialization differences can't affect the result.
+ */
+function encodeSignedAttributes(attrs: pkijs.SignedAndUnsignedAttributes): Uint8Array {
+  const encoded =
+    attrs.encodedValue.byteLength > 0
+      ? new Uint8Array(attrs.encodedValue.slice(0))
+      : new Uint8Array(attrs.toSchema().toBER(false));
+
+  encoded[0] = 0x31;
+
+  return encoded;
+}
+
+/**
+ * Map a digest algorithm OID to its WebCrypto name.
+ */
+function getDigestAlgorithmName(oid: string): string | undefined {
+  switch (oid) {
+    case OID_SHA1:
+      return "SHA-1";
+    case OID_SHA256:
+      return "SHA-256";
+    case OID_SHA384:
+      return "SHA-384";
+    case OID_SHA512:
+      return "SHA-512";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compute a digest by WebCrypto algorithm name.
+ */
+function computeDigest(data: Uint8Array, algorithm: string): Uint8Array {
+  switch (algorithm) {
+    case "SHA-1":
+      return sha1(data);
+    case "SHA-384":
+      return sha384(data);
+    case "SHA-512":
+      return sha512(data);
+    default:
+      return sha256(data);
+  }
+}
@@ -2,6 +2,8 @@
  * Test utilities for @libpdf/core
  */
 
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfNumber } from "#src/objects/pdf-number";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 
@@ -168,6 +170,21 @@ export function hexToBytes(hex: string) {
   return bytes;
 }
 
+/**
+ * Create a PdfArray of numbers (for building test objects).
+ *
+ * @param values - The numbers
+ * @returns PdfArray of PdfNumbers
+ *
+ * @example
+ * ```ts
+ * const bbox = numbers(0, 0, 612, 792);
+ * ```
+ */
+export function numbers(...values: number[]): PdfArray {
+  return PdfArray.of(...values.map(value => PdfNumber.of(value)));
+}
+
 /**
  * Check if bytes start with the PDF header signature.
  *
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { hasRtl, toLogicalOrder } from "./bidi";
+import type { ExtractedChar } from "./types";
+
+/**
+ * Characters as they sit on the page, left to right.
+ */
+function visual(text: string): ExtractedChar[] {
+  return Array.from(text).map((char, i) => ({
+    char,
+    bbox: { x: i * 5, y: 698, width: 5, height: 10 },
+    fontSize: 10,
+    fontName: "Arial",
+    baseline: 700,
+  }));
+}
+
+function logical(text: string): string {
+  return toLogicalOrder(visual(text))
+    .map(char => char.char)
+    .join("");
+}
+
+describe("hasRtl", () => {
+  it("finds Hebrew and Arabic letters", () => {
+    expect(hasRtl(visual("שלום"))).toBe(true);
+    expect(hasRtl(visual("مرحبا"))).toBe(true);
+    expect(hasRtl(visual("Hello 123"))).toBe(false);
+  });
+});
+
+describe("toLogicalOrder", () => {
+  it("leaves left-to-right text alone", () => {
+    const chars = visual("Hello, world");
+
+    expect(toLogicalOrder(chars)).toBe(chars);
+  });
+
+  it("reverses right-to-left words", () => {
+    // "שלום עולם" set right to left
+    expect(logical("םלוע םולש")).toBe("שלום עולם");
+    // "مرحبا" set right to left
+    expect(logical("ابحرم")).toBe("مرحبا");
+  });
+
+  it("keeps numbers left to right inside right-to-left text", () => {
+    // "מחיר 120 שקל" set right to left
+    expect(logical("לקש 120 ריחמ")).toBe("מחיר 120 שקל");
+    expect(logical("לקש 3.50 ריחמ")).toBe("מחיר 3.50 שקל");
+  });
+
+  it("keeps embedded left-to-right words in order", () => {
+    // "קובץ PDF חדש" set right to left
+    expect(logical("שדח PDF ץבוק")).toBe("קובץ PDF חדש");
+  });
+
+  it("reverses a right-to-left phrase in left-to-right text", () => {
+    expect(logical("The word םולש means peace")).toBe("The word שלום means peace");
+  });
+
+  it("mirrors brackets in right-to-left runs", () => {
+    // "(שלום)" set right to left, each bracket drawn with its mirror image
+    const chars = toLogicalOrder(visual("(םולש)"));
+
+    expect(chars.map(char => char.char).join("")).toBe("(שלום)");
+  });
+});
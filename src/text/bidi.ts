@@ -0,0 +1,275 @@
+/**
+ * Bidi - Puts right-to-left text into logical order.
+ *
+ * Characters on a page come in visual order: sorted left to right, an
+ * Arabic or Hebrew word reads backwards. This is a simplified Unicode
+ * Bidirectional Algorithm (UAX #9) for a single line without explicit
+ * embeddings: it resolves each character's embedding level and reverses
+ * runs as the algorithm's rule L2 would. Reordering is its own inverse,
+ * so applying it to visual order gives logical order.
+ */
+
+import type { ExtractedChar } from "./types";
+
+/** Bidi character types (UAX #9, Table 4) used here */
+type BidiType = "L" | "R" | "AL" | "EN" | "AN" | "ES" | "ET" | "CS" | "NSM" | "WS" | "ON";
+
+const NSM = /^[\p{Mn}\p{Me}]/u;
+const EN = /^[0-9\u00B2\u00B3\u00B9\u06F0-\u06F9\u2070-\u2079\u2080-\u2089]/;
+const AN = /^[\u0660-\u0669\u066B\u066C]/;
+const R = /^[\u0590-\u05FF\u07C0-\u085F\uFB1D-\uFB4F\u{10800}-\u{10FFF}\u{1E800}-\u{1EDFF}]/u;
+const AL = /^[\u0600-\u07BF\u0860-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF\u{1EE00}-\u{1EEFF}]/u;
+const ES = /^[+\-\u207A\u207B\u208A\u208B\u2212\uFB29\uFE62\uFE63\uFF0B\uFF0D]/;
+const ET = /^[#$%\u00A2-\u00A5\u00B0\u00B1\u066A\u2030-\u2034\u20A0-\u20CF]/;
+const CS = /^[,./:\u00A0\u060C\u2044\uFE50\uFE52\uFE55\uFF0C\uFF0E\uFF0F\uFF1A]/;
+const WS = /^\s/;
+const L = /^[\p{L}\p{Mc}]/u;
+
+/** Characters that show mirrored glyphs in right-to-left runs */
+const MIRRORED: Record<string, string> = {
+  "(": ")",
+  ")": "(",
+  "[": "]",
+  "]": "[",
+  "{": "}",
+  "}": "{",
+  "<": ">",
+  ">": "<",
+  "\u00AB": "\u00BB",
+  "\u00BB": "\u00AB",
+  "\u2039": "\u203A",
+  "\u203A": "\u2039",
+};
+
+/**
+ * Check whether any of the characters is in a right-to-left script.
+ */
+export function hasRtl(chars: ExtractedChar[]): boolean {
+  return chars.some(char => R.test(char.char) || AL.test(char.char));
+}
+
+/**
+ * Reorder a line's characters from visual (left to right) order into
+ * logical order. Brackets in right-to-left runs are mirrored, on copies
+ * of their characters. Lines without right-to-left characters are
+ * returned as they are.
+ *
+ * @param chars - Characters of one line, sorted left to right
+ * @returns The characters in reading order
+ */
+export function toLogicalOrder(chars: ExtractedChar[]): ExtractedChar[] {
+  if (!hasRtl(chars)) {
+    return chars;
+  }
+
+  const types = chars.map(char => bidiType(char.char));
+  const strongL = types.filter(type => type === "L").length;
+  const strongR = types.filter(type => type === "R" || type === "AL").length;
+  const baseLevel = strongR >= strongL ? 1 : 0;
+
+  resolveWeakTypes(types, baseLevel);
+  resolveNeutralTypes(types, baseLevel);
+
+  const levels = types.map(type => {
+    if (baseLevel === 0) {
+      return type === "R" ? 1 : type === "AN" || type === "EN" ? 2 : 0;
+    }
+
+    return type === "L" || type === "EN" || type === "AN" ? 2 : 1;
+  });
+
+  // L1: trailing whitespace goes back to the paragraph level
+  for (let i = chars.length - 1; i >= 0 && WS.test(chars[i].char); i--) {
+    levels[i] = baseLevel;
+  }
+
+  const ordered = chars.map((char, i) => {
+    const mirrored = levels[i] % 2 === 1 ? MIRRORED[char.char] : undefined;
+
+    return mirrored ? { ...char, char: mirrored } : char;
+  });
+  const indices = chars.map((_, i) => i);
+  const highest = Math.max(...levels);
+  const lowestOdd = Math.min(...levels.filter(level => level % 2 === 1));
+
+  // L2: from the highest level down to the lowest odd one, reverse every
+  // run at that level or higher
+  for (let level = highest; level >= lowestOdd; level--) {
+    let start = 0;
+
+    while (start < indices.length) {
+      if (levels[indices[start]] < level) {
+        start++;
+        continue;
+      }
+
+      let end = start;
+
+      while (end + 1 < indices.length && levels[indices[end + 1]] >= level) {
+        end++;
+      }
+
+      indices.splice(start, end - start + 1, ...indices.slice(start, end + 1).reverse());
+      start = end + 1;
+    }
+  }
+
+  return indices.map(i => ordered[i]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+function bidiType(char: string): BidiType {
+  if (NSM.test(char)) {
+    return "NSM";
+  }
+
+  if (EN.test(char)) {
+    return "EN";
+  }
+
+  if (AN.test(char)) {
+    return "AN";
+  }
+
+  if (R.test(char)) {
+    return "R";
+  }
+
+  if (AL.test(char)) {
+    return "AL";
+  }
+
+  if (ES.test(char)) {
+    return "ES";
+  }
+
+  if (ET.test(char)) {
+    return "ET";
+  }
+
+  if (CS.test(char)) {
+    return "CS";
+  }
+
+  if (WS.test(char)) {
+    return "WS";
+  }
+
+  return L.test(char) ? "L" : "ON";
+}
+
+/**
+ * Rules W1-W7, in place.
+ */
+function resolveWeakTypes(types: BidiType[], baseLevel: number): void {
+  const sor: BidiType = baseLevel === 1 ? "R" : "L";
+
+  // W1: a mark takes the type of its base. Characters are in visual order,
+  // so a right-to-left base may be on either side.
+  types.forEach((type, i) => {
+    if (type !== "NSM") {
+      return;
+    }
+
+    const next = types.slice(i + 1).find(candidate => candidate !== "NSM");
+    const previous = i > 0 ? types[i - 1] : undefined;
+
+    types[i] =
+      next === "R" || next === "AL" || previous === "R" || previous === "AL"
+        ? "R"
+        : (previous ?? sor);
+  });
+
+  // W2, W3: European numbers after Arabic letters are Arabic numbers, and
+  // Arabic letters are then just right-to-left
+  let lastStrong: BidiType = sor;
+
+  types.forEach((type, i) => {
+    if (type === "L" || type === "R" || type === "AL") {
+      lastStrong = type;
+    } else if (type === "EN" && lastStrong === "AL") {
+      types[i] = "AN";
+    }
+  });
+
+  types.forEach((type, i) => {
+    if (type === "AL") {
+      types[i] = "R";
+    }
+  });
+
+  // W4: a single separator between numbers of the same kind joins them
+  for (let i = 1; i < types.length - 1; i++) {
+    const [before, after] = [types[i - 1], types[i + 1]];
+
+    if (types[i] === "ES" && before === "EN" && after === "EN") {
+      types[i] = "EN";
+    } else if (types[i] === "CS" && before === after && (before === "EN" || before === "AN")) {
+      types[i] = before;
+    }
+  }
+
+  // W5: terminators next to European numbers are part of them
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== "ET") {
+      continue;
+    }
+
+    let end = i;
+
+    while (end + 1 < types.length && types[end + 1] === "ET") {
+      end++;
+    }
+
+    if (types[i - 1] === "EN" || types[end + 1] === "EN") {
+      types.fill("EN", i, end + 1);
+    }
+
+    i = end;
+  }
+
+  // W6, W7: remaining separators are neutral, and European numbers after
+  // left-to-right text are left-to-right
+  lastStrong = sor;
+
+  types.forEach((type, i) => {
+    if (type === "ES" || type === "ET" || type === "CS") {
+      types[i] = "ON";
+    } else if (type === "L" || type === "R") {
+      lastStrong = type;
+    } else if (type === "EN" && lastStrong === "L") {
+      types[i] = "L";
+    }
+  });
+}
+
+/**
+ * Rules N1-N2, in place: neutrals between text of one direction take that
+ * direction (numbers count as right-to-left), others the paragraph's.
+ */
+function resolveNeutralTypes(types: BidiType[], baseLevel: number): void {
+  const sor: BidiType = baseLevel === 1 ? "R" : "L";
+  const direction = (type: BidiType | undefined): BidiType =>
+    type === undefined ? sor : type === "L" ? "L" : "R";
+
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== "WS" && types[i] !== "ON") {
+      continue;
+    }
+
+    let end = i;
+
+    while (end + 1 < types.length && (types[end + 1] === "WS" || types[end + 1] === "ON")) {
+      end++;
+    }
+
+    const before = direction(types[i - 1]);
+    const after = direction(types[end + 1]);
+
+    types.fill(before === after ? before : sor, i, end + 1);
+    i = end;
+  }
+}
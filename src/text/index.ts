@@ -5,8 +5,12 @@
  * from PDF pages, and search for text patterns.
  */
 
+export { analyzeLayout, joinLines, type LayoutOptions, type PageLayout } from "./layout-analyzer";
 export { getPlainText, groupCharsIntoLines, type LineGrouperOptions } from "./line-grouper";
 export { TextExtractor, type TextExtractorOptions } from "./text-extractor";
+export { readStructureOrder, type StructureOrder } from "./structure-order";
+export { Table, type TableCSVOptions, type TableJSON } from "./table";
+export { detectTables, type TableDetectorOptions } from "./table-detector";
 export { searchPage, searchPages } from "./text-search";
 export { TextState } from "./text-state";
 export * from "./types";
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+
+import { analyzeLayout, joinLines } from "./layout-analyzer";
+import type { ExtractedChar } from "./types";
+
+/**
+ * Characters for a line of text, each (spaces too) half an em wide.
+ */
+function line(text: string, x: number, baseline: number, fontSize = 10, mcid?: number) {
+  const width = fontSize / 2;
+
+  return Array.from(text).map(
+    (char, i): ExtractedChar => ({
+      char,
+      bbox: { x: x + i * width, y: baseline - fontSize * 0.2, width, height: fontSize },
+      fontSize,
+      fontName: "Helvetica",
+      baseline,
+      ...(mcid === undefined ? {} : { mcid }),
+    }),
+  );
+}
+
+/**
+ * Characters for lines set 12pt apart, starting at a baseline.
+ */
+function lines(texts: string[], x: number, top: number): ExtractedChar[] {
+  return texts.flatMap((text, i) => line(text, x, top - i * 12));
+}
+
+describe("analyzeLayout", () => {
+  it("returns nothing for no characters", () => {
+    expect(analyzeLayout([])).toEqual({ blocks: [], paragraphs: [] });
+    expect(analyzeLayout(line("   ", 0, 700))).toEqual({ blocks: [], paragraphs: [] });
+  });
+
+  it("reads columns one after another", () => {
+    const chars = [
+      ...lines(["Left column starts here", "and carries on below."], 50, 700),
+      ...lines(["Right column is read", "after the left one."], 320, 700),
+    ];
+
+    const { blocks } = analyzeLayout(chars);
+
+    expect(blocks.map(block => block.text)).toEqual([
+      "Left column starts here and carries on below.",
+      "Right column is read after the left one.",
+    ]);
+    expect(blocks[0].lines).toHaveLength(2);
+    expect(blocks[1].bbox.x).toBeCloseTo(320);
+  });
+
+  it("reads a heading before the columns under it", () => {
+    const chars = [
+      ...line("A heading across the page", 50, 740, 18),
+      ...lines(["First column,", "two lines."], 50, 700),
+      ...lines(["Second column,", "also two."], 320, 700),
+    ];
+
+    const { blocks } = analyzeLayout(chars);
+
+    expect(blocks.map(block => block.text)).toEqual([
+      "A heading across the page",
+      "First column, two lines.",
+      "Second column, also two.",
+    ]);
+  });
+
+  it("keeps a single column with regular spacing in one block", () => {
+    const chars = lines(["One", "two three", "four"], 50, 700);
+
+    expect(analyzeLayout(chars).blocks).toHaveLength(1);
+  });
+
+  it("splits blocks at wide gaps between rows", () => {
+    const chars = [
+      ...lines(["First block of text", "with two lines"], 50, 700),
+      ...lines(["Second block of text", "after a gap"], 50, 650),
+    ];
+
+    expect(analyzeLayout(chars).blocks.map(block => block.text)).toEqual([
+      "First block of text with two lines",
+      "Second block of text after a gap",
+    ]);
+  });
+
+  describe("paragraphs", () => {
+    it("starts a paragraph after a short line", () => {
+      const chars = lines(
+        ["This paragraph fills the line", "and ends early.", "The next one fills its line", "too."],
+        50,
+        700,
+      );
+
+      const { blocks, paragraphs } = analyzeLayout(chars);
+
+      expect(blocks).toHaveLength(1);
+      expect(paragraphs.map(paragraph => paragraph.text)).toEqual([
+        "This paragraph fills the line and ends early.",
+        "The next one fills its line too.",
+      ]);
+      expect(blocks[0].text).toBe(paragraphs.map(paragraph => paragraph.text).join("\n"));
+    });
+
+    it("starts a paragraph at an indented line", () => {
+      const chars = [
+        ...line("A paragraph of one full line.", 50, 700),
+        ...line("Indented, a second one starts", 70, 688),
+        ...line("on this line and goes on here", 50, 676),
+      ];
+
+      expect(analyzeLayout(chars).paragraphs.map(paragraph => paragraph.lines.length)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it("keeps hanging indents in the paragraph", () => {
+      const chars = [
+        ...line("1. A list item long enough to", 50, 700),
+        ...line("wrap onto an indented line", 65, 688),
+      ];
+
+      expect(analyzeLayout(chars).paragraphs.map(paragraph => paragraph.text)).toEqual([
+        "1. A list item long enough to wrap onto an indented line",
+      ]);
+    });
+
+    it("starts a paragraph at a change of font size", () => {
+      const chars = [...line("Title", 50, 712, 14), ...lines(["Body text"], 50, 698)];
+
+      expect(analyzeLayout(chars).paragraphs.map(paragraph => paragraph.text)).toEqual([
+        "Title",
+        "Body text",
+      ]);
+    });
+
+    it("removes hyphenation at line ends", () => {
+      const chars = lines(["This line ends in an exam-", "ple of hyphenation."], 50, 700);
+
+      expect(analyzeLayout(chars).paragraphs[0].text).toBe(
+        "This line ends in an example of hyphenation.",
+      );
+    });
+  });
+
+  it("reads vertical columns after horizontal text", () => {
+    const column = (text: string, x: number): ExtractedChar[] =>
+      Array.from(text).map((char, i) => ({
+        char,
+        bbox: { x: x - 5, y: 690 - i * 10, width: 10, height: 10 },
+        fontSize: 10,
+        fontName: "KozMinPro-Regular",
+        baseline: x,
+        vertical: true,
+      }));
+    const chars = [...column("です。", 300), ...column("日本語", 315), ...line("Title", 50, 750)];
+
+    expect(analyzeLayout(chars).blocks.map(block => block.text)).toEqual(["Title", "日本語です。"]);
+  });
+
+  describe("structure order", () => {
+    it("builds a block per structure element in its order", () => {
+      const chars = [
+        ...line("Read second", 50, 700, 10, 0),
+        ...line("Read first", 50, 600, 10, 1),
+        ...line("also second", 200, 600, 10, 2),
+      ];
+
+      const { blocks } = analyzeLayout(chars, { structure: [[1], [0, 2]] });
+
+      expect(blocks.map(block => block.text)).toEqual(["Read first", "Read second\nalso second"]);
+    });
+
+    it("puts untagged content after tagged content", () => {
+      const chars = [...line("Artifact", 50, 750), ...line("Tagged", 50, 700, 10, 0)];
+
+      const { blocks } = analyzeLayout(chars, { structure: [[0]] });
+
+      expect(blocks.map(block => block.text)).toEqual(["Tagged", "Artifact"]);
+    });
+  });
+});
+
+describe("joinLines", () => {
+  it.each([
+    [["one", "two"], "one two"],
+    [["exam-", "ple"], "example"],
+    [["exam‐", "ple"], "example"],
+    [["non-", "Euclidean"], "non-Euclidean"],
+    [["soft­", "Hyphen"], "softHyphen"],
+    [["pages 10 -", "12"], "pages 10 - 12"],
+    [["  padded  ", "", "lines "], "padded lines"],
+    [["日本語の", "文章"], "日本語の文章"],
+  ])("joins %j as %j", (input, expected) => {
+    expect(joinLines(input)).toBe(expected);
+  });
+});
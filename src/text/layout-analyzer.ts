@@ -0,0 +1,413 @@
+/**
+ * LayoutAnalyzer - Finds blocks and paragraphs in reading order.
+ *
+ * Line grouping alone reads a two-column page across both columns. This
+ * stage splits the page into blocks with a recursive XY-cut: words are
+ * projected onto each axis and the region is cut at the widest band of
+ * whitespace (a gap between rows, or a gutter between columns) until no
+ * band is wide enough. Blocks come out top to bottom and left to right.
+ * Each block's lines are then split into paragraphs, whose text is
+ * joined with hyphenation removed.
+ *
+ * For tagged PDFs, the structure tree gives the reading order instead:
+ * each structure element's content becomes a block.
+ *
+ * Text in vertical writing mode isn't cut: its columns, read right to
+ * left, form a block after the horizontal text.
+ */
+
+import { groupCharsIntoLines, type LineGrouperOptions } from "./line-grouper";
+import {
+  mergeBboxes,
+  type BoundingBox,
+  type ExtractedChar,
+  type TextBlock,
+  type TextLine,
+  type TextParagraph,
+} from "./types";
+
+/**
+ * Options for layout analysis.
+ */
+export interface LayoutOptions extends LineGrouperOptions {
+  /**
+   * Narrowest gutter that separates columns, as a factor of the median
+   * font size.
+   * Default: 1
+   */
+  columnGap?: number;
+
+  /**
+   * Narrowest gap between rows of text that separates blocks, as a factor
+   * of the median font size. Gaps must also be clearly wider than the
+   * usual gap between lines of the region.
+   * Default: 0.5
+   */
+  blockGap?: number;
+
+  /**
+   * Marked-content IDs grouped by structure element, in reading order
+   * (see `readStructureOrder()`). When given, each group's characters
+   * form a block in this order; untagged characters follow, laid out by
+   * XY-cut.
+   */
+  structure?: number[][];
+}
+
+/**
+ * Blocks and paragraphs of a page, in reading order.
+ */
+export interface PageLayout {
+  blocks: TextBlock[];
+  paragraphs: TextParagraph[];
+}
+
+/** A word: characters between spaces on one line */
+interface Word {
+  chars: ExtractedChar[];
+  bbox: BoundingBox;
+}
+
+/** Row gaps must be this much wider than the region's median to cut */
+const ROW_GAP_FACTOR = 1.5;
+
+/** Han, kana and CJK punctuation, which join lines without a space */
+const CJK_END =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303F\uFF01-\uFF60]$/u;
+const CJK_START =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303F\uFF01-\uFF60]/u;
+
+/**
+ * Find the blocks and paragraphs in extracted characters.
+ *
+ * @param chars - Array of extracted characters
+ * @param options - Layout options
+ * @returns Blocks and paragraphs in reading order
+ */
+export function analyzeLayout(chars: ExtractedChar[], options: LayoutOptions = {}): PageLayout {
+  const visible = chars.filter(char => char.char.trim() !== "");
+
+  if (visible.length === 0) {
+    return { blocks: [], paragraphs: [] };
+  }
+
+  const fontSize = median(visible.map(char => char.fontSize)) || 1;
+  const groups: ExtractedChar[][] = [];
+  let untagged = chars;
+
+  if (options.structure) {
+    const groupOf = new Map<number, number>();
+
+    options.structure.forEach((mcids, index) => {
+      for (const mcid of mcids) {
+        if (!groupOf.has(mcid)) {
+          groupOf.set(mcid, index);
+        }
+      }
+    });
+
+    const tagged: ExtractedChar[][] = options.structure.map(() => []);
+
+    untagged = [];
+
+    for (const char of chars) {
+      const index = char.mcid === undefined ? undefined : groupOf.get(char.mcid);
+
+      if (index === undefined) {
+        untagged.push(char);
+      } else {
+        tagged[index].push(char);
+      }
+    }
+
+    groups.push(...tagged.filter(group => group.some(char => char.char.trim() !== "")));
+  }
+
+  const vertical = untagged.filter(char => char.vertical);
+
+  untagged = untagged.filter(char => !char.vertical);
+
+  if (untagged.some(char => char.char.trim() !== "")) {
+    const regions = xyCut(
+      toWords(untagged, options),
+      (options.columnGap ?? 1) * fontSize,
+      (options.blockGap ?? 0.5) * fontSize,
+    );
+
+    groups.push(...regions.map(region => region.flatMap(word => word.chars)));
+  }
+
+  if (vertical.some(char => char.char.trim() !== "")) {
+    groups.push(vertical);
+  }
+
+  const blocks = groups.map(group => buildBlock(group, options));
+
+  return { blocks, paragraphs: blocks.flatMap(block => block.paragraphs) };
+}
+
+/**
+ * Join the lines of a paragraph, removing hyphens that break words at the
+ * end of a line.
+ *
+ * A soft hyphen is always removed. A hard hyphen after a letter is removed
+ * when the next line starts with a lowercase letter ("exam-" + "ple") and
+ * kept otherwise ("non-" + "Euclidean"), joining the word either way.
+ * Lines of Chinese or Japanese are joined without a space, as those
+ * scripts don't put spaces between words; other lines are joined with one.
+ */
+export function joinLines(lines: string[]): string {
+  let text = "";
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed === "") {
+      continue;
+    }
+
+    if (text === "") {
+      text = trimmed;
+    } else if (text.endsWith("\u00AD")) {
+      text = text.slice(0, -1) + trimmed;
+    } else if (/\p{L}[-\u2010]$/u.test(text)) {
+      text = /^\p{Ll}/u.test(trimmed) ? text.slice(0, -1) + trimmed : text + trimmed;
+    } else if (CJK_END.test(text) && CJK_START.test(trimmed)) {
+      text += trimmed;
+    } else {
+      text += ` ${trimmed}`;
+    }
+  }
+
+  return text;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Blocks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split characters into words, using the line grouper's space detection.
+ * A word keeps the space characters that follow it, so regrouping its
+ * block finds the same spaces, but they're left out of its bounding box.
+ */
+function toWords(chars: ExtractedChar[], options: LineGrouperOptions): Word[] {
+  const original = new Set(chars);
+  const words: Word[] = [];
+
+  for (const line of groupCharsIntoLines(chars, options)) {
+    let current: ExtractedChar[] = [];
+
+    const finish = () => {
+      const visible = current.filter(char => char.char.trim() !== "");
+
+      if (visible.length > 0) {
+        words.push({ chars: current, bbox: mergeBboxes(visible.map(char => char.bbox)) });
+      }
+
+      current = [];
+    };
+
+    for (const span of line.spans) {
+      for (const char of span.chars) {
+        if (char.char.trim() !== "") {
+          current.push(char);
+        } else {
+          // Spaces the line grouper made up for gaps aren't kept
+          if (original.has(char)) {
+            current.push(char);
+          }
+
+          finish();
+        }
+      }
+
+      // A font change inside a word splits it, which the cut doesn't mind
+      finish();
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Recursive XY-cut: split a region at its widest band of whitespace,
+ * across (between rows) or down (between columns), until none is wide
+ * enough. Regions come back in reading order.
+ */
+function xyCut(words: Word[], columnGap: number, blockGap: number): Word[][] {
+  if (words.length < 2) {
+    return [words];
+  }
+
+  // Rows top to bottom: project onto y, negated so the top comes first
+  const rows = bands(words, word => [-(word.bbox.y + word.bbox.height), -word.bbox.y]);
+  const columns = bands(words, word => [word.bbox.x, word.bbox.x + word.bbox.width]);
+
+  const rowGaps = gapsBetween(rows);
+  const rowThreshold = Math.max(blockGap, median(rowGaps) * ROW_GAP_FACTOR);
+  const widestRow = Math.max(0, ...rowGaps.filter(gap => gap >= rowThreshold));
+  const widestColumn = Math.max(0, ...gapsBetween(columns).filter(gap => gap >= columnGap));
+
+  if (widestRow === 0 && widestColumn === 0) {
+    return [words];
+  }
+
+  const [split, threshold] =
+    widestColumn >= widestRow ? [columns, columnGap] : [rows, rowThreshold];
+
+  return mergeBands(split, threshold).flatMap(region => xyCut(region, columnGap, blockGap));
+}
+
+/** Words sharing an interval of an axis, with the interval */
+interface Band {
+  start: number;
+  end: number;
+  words: Word[];
+}
+
+/**
+ * Merge the words' intervals along an axis into bands separated by
+ * whitespace, in order.
+ */
+function bands(words: Word[], interval: (word: Word) => [number, number]): Band[] {
+  const sorted = words
+    .map(word => ({ word, range: interval(word) }))
+    .sort((a, b) => a.range[0] - b.range[0]);
+  const result: Band[] = [];
+
+  for (const { word, range } of sorted) {
+    const last = result.at(-1);
+
+    if (last && range[0] <= last.end) {
+      last.end = Math.max(last.end, range[1]);
+      last.words.push(word);
+    } else {
+      result.push({ start: range[0], end: range[1], words: [word] });
+    }
+  }
+
+  return result;
+}
+
+function gapsBetween(bandList: Band[]): number[] {
+  return bandList.slice(1).map((band, i) => band.start - bandList[i].end);
+}
+
+/**
+ * Join bands separated by less than the threshold into regions.
+ */
+function mergeBands(bandList: Band[], threshold: number): Word[][] {
+  const regions: Word[][] = [[...bandList[0].words]];
+
+  for (let i = 1; i < bandList.length; i++) {
+    if (bandList[i].start - bandList[i - 1].end >= threshold) {
+      regions.push([...bandList[i].words]);
+    } else {
+      regions[regions.length - 1].push(...bandList[i].words);
+    }
+  }
+
+  return regions;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Paragraphs
+// ─────────────────────────────────────────────────────────────────────────────
+
+function buildBlock(chars: ExtractedChar[], options: LineGrouperOptions): TextBlock {
+  const lines = groupCharsIntoLines(chars, options);
+  const bbox = mergeBboxes(lines.map(line => line.bbox));
+  const paragraphs = splitParagraphs(lines, bbox).map(group => ({
+    text: joinLines(group.map(line => line.text)),
+    bbox: mergeBboxes(group.map(line => line.bbox)),
+    lines: group,
+  }));
+
+  return {
+    text: paragraphs.map(paragraph => paragraph.text).join("\n"),
+    bbox,
+    lines,
+    paragraphs,
+  };
+}
+
+/**
+ * Split a block's lines into paragraphs. A new paragraph starts after
+ * extra space, at a change of font size, at an indented first line, or
+ * after a line that stops well short of the block's right edge (its
+ * bottom edge, for columns of vertical writing). Lines indented under a
+ * list item's first line stay with it.
+ */
+function splitParagraphs(lines: TextLine[], bbox: BoundingBox): TextLine[][] {
+  const spacing = median(lines.slice(1).map((line, i) => lines[i].baseline - line.baseline));
+  const vertical = lines.every(line => line.vertical);
+  const length = vertical ? bbox.height : bbox.width;
+  // How far a line starts after, and ends before, the block's edges
+  const indent = (line: TextLine) =>
+    vertical ? bbox.y + bbox.height - (line.bbox.y + line.bbox.height) : line.bbox.x - bbox.x;
+  const shortfall = (line: TextLine) =>
+    vertical ? line.bbox.y - bbox.y : bbox.x + bbox.width - (line.bbox.x + line.bbox.width);
+  const paragraphs: TextLine[][] = [];
+
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+
+    if (!previous) {
+      paragraphs.push([line]);
+
+      return;
+    }
+
+    const size = lineFontSize(line);
+    const previousSize = lineFontSize(previous);
+    // Compared with the block's own spacing, or the font size when it has
+    // too few lines to tell (tagged blocks aren't cut at gaps)
+    const extraSpace = previous.baseline - line.baseline > Math.min(spacing * 1.4, size * 2.5);
+    const sizeChanged = Math.abs(size - previousSize) > 1;
+    // A first-line indent, not a hanging one: the next line is back out
+    const next = lines[i + 1];
+    const indented =
+      indent(line) > size * 0.8 &&
+      indent(previous) < size * 0.5 &&
+      next !== undefined &&
+      indent(next) < size * 0.5;
+    const shortLine = lines.length > 2 && shortfall(previous) > length * 0.25;
+
+    if (extraSpace || sizeChanged || indented || shortLine) {
+      paragraphs.push([line]);
+    } else {
+      paragraphs[paragraphs.length - 1].push(line);
+    }
+  });
+
+  return paragraphs;
+}
+
+/**
+ * The font size most of a line is set in.
+ */
+function lineFontSize(line: TextLine): number {
+  let best = line.spans[0]?.fontSize ?? 0;
+  let bestLength = 0;
+
+  for (const span of line.spans) {
+    if (span.text.length > bestLength) {
+      best = span.fontSize;
+      bestLength = span.text.length;
+    }
+  }
+
+  return best;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -323,4 +323,100 @@ describe("LineGrouper", () => {
       expect(text).toBe("");
     });
   });
+
+  describe("right-to-left text", () => {
+    /**
+     * Characters as they sit on the page, left to right, 6 points wide.
+     */
+    function visual(text: string, fontName = "Arial"): ExtractedChar[] {
+      return Array.from(text).map((char, i) => ({
+        char,
+        bbox: { x: 100 + i * 6, y: 98, width: 6, height: 12 },
+        fontSize: 12,
+        fontName,
+        baseline: 100,
+      }));
+    }
+
+    it("puts the line into logical order", () => {
+      // "שלום 2024" set right to left, with gaps between the words
+      const chars = visual("2024 םולש").filter(char => char.char !== " ");
+
+      chars.slice(4).forEach(char => {
+        char.bbox.x += 6;
+      });
+
+      const [line] = groupCharsIntoLines(chars);
+
+      expect(line.text).toBe("שלום 2024");
+      expect(
+        line.spans
+          .flatMap(span => span.chars)
+          .map(char => char.char)
+          .join(""),
+      ).toBe(line.text);
+    });
+
+    it("re-splits spans at font changes in logical order", () => {
+      const chars = [...visual("םלוע"), ...visual(" םולש", "Arial-Bold")];
+
+      chars.forEach((char, i) => {
+        char.bbox.x = 100 + i * 6;
+      });
+
+      const [line] = groupCharsIntoLines(chars);
+
+      expect(line.text).toBe("שלום עולם");
+      expect(line.spans.map(span => [span.text, span.fontName])).toEqual([
+        ["שלום ", "Arial-Bold"],
+        ["עולם", "Arial"],
+      ]);
+    });
+  });
+
+  describe("vertical text", () => {
+    /**
+     * Characters of a column centred on x, top to bottom, 10 points tall.
+     */
+    function column(text: string, x: number, top: number): ExtractedChar[] {
+      return Array.from(text).map((char, i) => ({
+        char,
+        bbox: { x: x - 5, y: top - (i + 1) * 10, width: 10, height: 10 },
+        fontSize: 10,
+        fontName: "KozMinPro-Regular",
+        baseline: x,
+        vertical: true,
+      }));
+    }
+
+    it("reads columns top to bottom, right to left", () => {
+      const chars = [...column("左の列", 100, 700), ...column("右の列", 120, 700)];
+
+      const lines = groupCharsIntoLines(chars);
+
+      expect(lines.map(line => line.text)).toEqual(["右の列", "左の列"]);
+      expect(lines[0]).toMatchObject({ baseline: 120, vertical: true });
+    });
+
+    it("finds spaces from gaps down the column", () => {
+      const chars = [...column("縦", 100, 700), ...column("書き", 100, 680)];
+
+      expect(groupCharsIntoLines(chars)[0].text).toBe("縦 書き");
+    });
+
+    it("puts vertical columns after horizontal lines", () => {
+      const chars: ExtractedChar[] = [
+        ...column("縦", 300, 700),
+        {
+          char: "A",
+          bbox: { x: 0, y: 0, width: 10, height: 12 },
+          fontSize: 12,
+          fontName: "Helvetica",
+          baseline: 10,
+        },
+      ];
+
+      expect(groupCharsIntoLines(chars).map(line => line.text)).toEqual(["A", "縦"]);
+    });
+  });
 });
@@ -4,8 +4,13 @@
  * Characters are grouped into lines based on their baseline Y coordinate,
  * and within lines into spans based on font/size changes.
  * Spaces are detected from gaps between characters.
+ *
+ * Lines holding right-to-left script are put into logical order by a bidi
+ * pass. Characters set in vertical writing mode form columns, read top to
+ * bottom and right to left after the horizontal lines.
  */
 
+import { hasRtl, toLogicalOrder } from "./bidi";
 import type { ExtractedChar, TextLine, TextSpan } from "./types";
 import { mergeBboxes } from "./types";
 
@@ -46,6 +51,29 @@ export function groupCharsIntoLines(
   const baselineTolerance = options.baselineTolerance ?? 2;
   const spaceThreshold = options.spaceThreshold ?? 0.3;
 
+  const horizontal = chars.filter(char => !char.vertical);
+  const vertical = chars.filter(char => char.vertical);
+
+  const lines = buildLines(horizontal, baselineTolerance, spaceThreshold, false);
+  const columns = buildLines(vertical, baselineTolerance, spaceThreshold, true);
+
+  // Sort lines top-to-bottom (higher Y = higher on page in PDF coordinates),
+  // and columns right-to-left
+  lines.sort((a, b) => b.baseline - a.baseline);
+  columns.sort((a, b) => b.baseline - a.baseline);
+
+  return [...lines, ...columns];
+}
+
+/**
+ * Build lines from characters written in one direction.
+ */
+function buildLines(
+  chars: ExtractedChar[],
+  baselineTolerance: number,
+  spaceThreshold: number,
+  vertical: boolean,
+): TextLine[] {
   // Group characters by baseline
   const lineGroups = groupByBaseline(chars, baselineTolerance);
 
@@ -53,16 +81,25 @@ export function groupCharsIntoLines(
   const lines: TextLine[] = [];
 
   for (const group of lineGroups) {
-    // Sort characters left-to-right within the line
-    const sorted = [...group].sort((a, b) => a.bbox.x - b.bbox.x);
+    // Sort characters left-to-right within the line, or top-to-bottom
+    // within a column
+    const sorted = vertical
+      ? [...group].sort((a, b) => b.bbox.y + b.bbox.height - (a.bbox.y + a.bbox.height))
+      : [...group].sort((a, b) => a.bbox.x - b.bbox.x);
 
     // Group into spans and detect spaces
-    const spans = groupIntoSpans(sorted, spaceThreshold);
+    let spans = groupIntoSpans(sorted, spaceThreshold, vertical);
 
     if (spans.length === 0) {
       continue;
     }
 
+    // Put right-to-left runs into logical order, then re-split the spans,
+    // since a reordered run can move characters across span boundaries
+    if (!vertical && hasRtl(sorted)) {
+      spans = splitSpans(toLogicalOrder(spans.flatMap(span => span.chars)));
+    }
+
     // Build the line
     const lineText = spans.map(s => s.text).join("");
     const lineBbox = mergeBboxes(spans.map(s => s.bbox));
@@ -73,12 +110,10 @@ export function groupCharsIntoLines(
       bbox: lineBbox,
       spans,
       baseline,
+      ...(vertical ? { vertical } : {}),
     });
   }
 
-  // Sort lines top-to-bottom (higher Y = higher on page in PDF coordinates)
-  lines.sort((a, b) => b.baseline - a.baseline);
-
   return lines;
 }
 
@@ -113,7 +148,11 @@ function groupByBaseline(chars: ExtractedChar[], tolerance: number): ExtractedCh
 /**
  * Group characters into spans based on font/size and detect spaces.
  */
-function groupIntoSpans(chars: ExtractedChar[], spaceThreshold: number): TextSpan[] {
+function groupIntoSpans(
+  chars: ExtractedChar[],
+  spaceThreshold: number,
+  vertical: boolean,
+): TextSpan[] {
   if (chars.length === 0) {
     return [];
   }
@@ -132,7 +171,9 @@ function groupIntoSpans(chars: ExtractedChar[], spaceThreshold: number): TextSpa
       char.fontName !== currentFontName || Math.abs(char.fontSize - currentFontSize) > 0.5;
 
     // Check for space gap
-    const gap = char.bbox.x - (prevChar.bbox.x + prevChar.bbox.width);
+    const gap = vertical
+      ? prevChar.bbox.y - (char.bbox.y + char.bbox.height)
+      : char.bbox.x - (prevChar.bbox.x + prevChar.bbox.width);
     const avgFontSize = (prevChar.fontSize + char.fontSize) / 2;
     const needsSpace = gap > avgFontSize * spaceThreshold;
 
@@ -147,7 +188,9 @@ function groupIntoSpans(chars: ExtractedChar[], spaceThreshold: number): TextSpa
     } else if (needsSpace) {
       // Add space to current span and continue
       // We insert a synthetic space character
-      currentSpan.push(createSpaceChar(prevChar, char));
+      currentSpan.push(
+        vertical ? createVerticalSpaceChar(prevChar, char) : createSpaceChar(prevChar, char),
+      );
       currentSpan.push(char);
     } else {
       currentSpan.push(char);
@@ -162,6 +205,35 @@ function groupIntoSpans(chars: ExtractedChar[], spaceThreshold: number): TextSpa
   return spans;
 }
 
+/**
+ * Split characters in reading order into spans at font/size changes.
+ */
+function splitSpans(chars: ExtractedChar[]): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let current: ExtractedChar[] = [];
+
+  for (const char of chars) {
+    const fontChar = current.find(c => c.char !== " ");
+    const fontChanged =
+      fontChar !== undefined &&
+      char.char !== " " &&
+      (char.fontName !== fontChar.fontName || Math.abs(char.fontSize - fontChar.fontSize) > 0.5);
+
+    if (fontChanged) {
+      spans.push(buildSpan(current));
+      current = [];
+    }
+
+    current.push(char);
+  }
+
+  if (current.length > 0) {
+    spans.push(buildSpan(current));
+  }
+
+  return spans;
+}
+
 /**
  * Build a TextSpan from characters.
  */
@@ -202,6 +274,28 @@ function createSpaceChar(before: ExtractedChar, after: ExtractedChar): Extracted
   };
 }
 
+/**
+ * Create a synthetic space character between two characters of a column.
+ */
+function createVerticalSpaceChar(before: ExtractedChar, after: ExtractedChar): ExtractedChar {
+  const y = after.bbox.y + after.bbox.height;
+  const height = before.bbox.y - y;
+
+  return {
+    char: " ",
+    bbox: {
+      x: before.bbox.x,
+      y,
+      width: before.bbox.width,
+      height: Math.max(height, 0),
+    },
+    fontSize: (before.fontSize + after.fontSize) / 2,
+    fontName: before.fontName,
+    baseline: (before.baseline + after.baseline) / 2,
+    vertical: true,
+  };
+}
+
 /**
  * Calculate the average baseline of a group of characters.
  */
@@ -0,0 +1,96 @@
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { describe, expect, it } from "vitest";
+
+import { readStructureOrder } from "./structure-order";
+
+const page1 = PdfRef.of(10, 0);
+const page2 = PdfRef.of(11, 0);
+
+function element(type: string, kids: PdfObject[], page?: PdfRef): PdfDict {
+  return PdfDict.of({
+    Type: PdfName.of("StructElem"),
+    S: PdfName.of(type),
+    K: new PdfArray(kids),
+    ...(page ? { Pg: page } : {}),
+  });
+}
+
+function mcr(mcid: number, page?: PdfRef): PdfDict {
+  return PdfDict.of({
+    Type: PdfName.of("MCR"),
+    MCID: PdfNumber.of(mcid),
+    ...(page ? { Pg: page } : {}),
+  });
+}
+
+function mcids(...values: number[]): PdfNumber[] {
+  return values.map(value => PdfNumber.of(value));
+}
+
+function read(root: PdfDict, objects = new Map<string, PdfObject>()) {
+  return readStructureOrder(root, ref => objects.get(ref.toString()) ?? null);
+}
+
+describe("readStructureOrder", () => {
+  it("groups MCIDs by the element holding them, in tree order", () => {
+    const root = element("StructTreeRoot", [
+      element(
+        "Document",
+        [
+          element("H1", mcids(3)),
+          element("P", [...mcids(0), element("Span", mcids(1)), ...mcids(2)]),
+          element("Table", [element("TR", [element("TD", mcids(5)), element("TD", mcids(4))])]),
+        ],
+        page1,
+      ),
+    ]);
+
+    expect(read(root).get(page1.toString())).toEqual([[3], [0, 1, 2], [5], [4]]);
+  });
+
+  it("splits an element's content across pages", () => {
+    const root = element("StructTreeRoot", [
+      element("P", mcids(7), page1),
+      element("P", [mcr(8, page1), mcr(0, page2)]),
+      element("P", mcids(1), page2),
+    ]);
+
+    const order = read(root);
+
+    expect(order.get(page1.toString())).toEqual([[7], [8]]);
+    expect(order.get(page2.toString())).toEqual([[0], [1]]);
+  });
+
+  it("skips content in other streams and object references", () => {
+    const root = element("StructTreeRoot", [
+      element(
+        "P",
+        [
+          ...mcids(0),
+          PdfDict.of({ Type: PdfName.of("MCR"), MCID: PdfNumber.of(1), Stm: PdfRef.of(20, 0) }),
+          PdfDict.of({ Type: PdfName.of("OBJR"), Obj: PdfRef.of(21, 0) }),
+        ],
+        page1,
+      ),
+    ]);
+
+    expect(read(root).get(page1.toString())).toEqual([[0]]);
+  });
+
+  it("follows references and survives cycles", () => {
+    const ref = PdfRef.of(30, 0);
+    const section = element("Sect", [ref, element("P", mcids(0))], page1);
+    const objects = new Map<string, PdfObject>([[ref.toString(), section]]);
+
+    expect(read(element("StructTreeRoot", [ref]), objects).get(page1.toString())).toEqual([[0]]);
+  });
+
+  it("ignores content without a page", () => {
+    expect(read(element("StructTreeRoot", [element("P", mcids(0))])).size).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Reading order from the structure tree of tagged PDFs.
+ *
+ * Tagged content is wrapped in marked-content sequences with an /MCID, and
+ * the structure tree (/StructTreeRoot in the catalog) lists those IDs in
+ * logical reading order. This walks the tree once and groups each page's
+ * MCIDs by the structure element that holds them.
+ */
+
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+
+/**
+ * MCIDs for each page (keyed by the page ref's string), grouped by
+ * structure element in reading order.
+ */
+export type StructureOrder = Map<string, number[][]>;
+
+/** Structure trees nested deeper than this are treated as broken */
+const MAX_DEPTH = 256;
+
+/**
+ * Read the reading order of every page from a structure tree root.
+ *
+ * An element with marked content directly among its kids (a paragraph,
+ * heading or table cell) becomes one group, with the content of any
+ * elements inside it (spans, links). Elements holding only other
+ * elements (sections, tables) are walked through.
+ */
+export function readStructureOrder(root: PdfDict, resolve: RefResolver): StructureOrder {
+  const order: StructureOrder = new Map();
+  const visited = new Set<PdfDict>();
+
+  /**
+   * Collect the MCIDs in an element's subtree, by page.
+   */
+  const collect = (
+    kids: PdfObject | undefined,
+    page: PdfRef | undefined,
+    into: Map<string, number[]>,
+    depth: number,
+  ): void => {
+    for (const kid of kidsOf(kids, resolve)) {
+      if (kid instanceof PdfNumber) {
+        if (page) {
+          appendMcid(into, page, kid.value);
+        }
+
+        continue;
+      }
+
+      if (visited.has(kid) || depth > MAX_DEPTH) {
+        continue;
+      }
+
+      visited.add(kid);
+
+      const type = kid.getName("Type", resolve)?.value;
+      const kidPage = pageOf(kid) ?? page;
+
+      if (type === "MCR") {
+        const mcid = kid.getNumber("MCID", resolve)?.value;
+
+        // Content in other streams (/Stm) isn't in the page's MCIDs
+        if (mcid !== undefined && kidPage && !kid.has("Stm")) {
+          appendMcid(into, kidPage, mcid);
+        }
+      } else if (type !== "OBJR") {
+        collect(kid.get("K", resolve), kidPage, into, depth + 1);
+      }
+    }
+  };
+
+  const walk = (element: PdfDict, page: PdfRef | undefined, depth: number): void => {
+    const elementPage = pageOf(element) ?? page;
+    const kids = element.get("K", resolve);
+    const children = kidsOf(kids, resolve);
+
+    if (children.some(kid => kid instanceof PdfNumber || isMarkedContentReference(kid, resolve))) {
+      const groups = new Map<string, number[]>();
+
+      collect(kids, elementPage, groups, depth);
+
+      for (const [page, group] of groups) {
+        const pageGroups = order.get(page);
+
+        if (pageGroups) {
+          pageGroups.push(group);
+        } else {
+          order.set(page, [group]);
+        }
+      }
+
+      return;
+    }
+
+    for (const kid of children) {
+      if (kid instanceof PdfDict && !visited.has(kid) && depth < MAX_DEPTH) {
+        visited.add(kid);
+        walk(kid, elementPage, depth + 1);
+      }
+    }
+  };
+
+  walk(root, undefined, 0);
+
+  return order;
+}
+
+/**
+ * The kids of an element: its /K, as a list of MCIDs and dictionaries.
+ */
+function kidsOf(kids: PdfObject | undefined, resolve: RefResolver): (PdfNumber | PdfDict)[] {
+  const items = kids instanceof PdfArray ? kids.toArray() : kids ? [kids] : [];
+  const result: (PdfNumber | PdfDict)[] = [];
+
+  for (const item of items) {
+    const value = item instanceof PdfRef ? resolve(item) : item;
+
+    if (value instanceof PdfNumber || value instanceof PdfDict) {
+      result.push(value);
+    }
+  }
+
+  return result;
+}
+
+function isMarkedContentReference(kid: PdfNumber | PdfDict, resolve: RefResolver): boolean {
+  return kid instanceof PdfDict && kid.getName("Type", resolve)?.value === "MCR";
+}
+
+/**
+ * An element's /Pg, kept as a reference to identify the page.
+ */
+function pageOf(dict: PdfDict): PdfRef | undefined {
+  const page = dict.get("Pg");
+
+  return page instanceof PdfRef ? page : undefined;
+}
+
+function appendMcid(groups: Map<string, number[]>, page: PdfRef, mcid: number): void {
+  const key = page.toString();
+  const group = groups.get(key);
+
+  if (group) {
+    group.push(mcid);
+  } else {
+    groups.set(key, [mcid]);
+  }
+}
@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+
+import { detectTables } from "./table-detector";
+import type { ExtractedChar, Ruling } from "./types";
+
+/**
+ * Characters for text at a position, each (spaces too) half an em wide.
+ */
+function text(value: string, x: number, baseline: number, fontSize = 10): ExtractedChar[] {
+  const width = fontSize / 2;
+
+  return Array.from(value).map((char, i) => ({
+    char,
+    bbox: { x: x + i * width, y: baseline - fontSize * 0.2, width, height: fontSize },
+    fontSize,
+    fontName: "Helvetica",
+    baseline,
+  }));
+}
+
+function horizontal(y: number, start: number, end: number): Ruling {
+  return { orientation: "horizontal", position: y, start, end };
+}
+
+function vertical(x: number, start: number, end: number): Ruling {
+  return { orientation: "vertical", position: x, start, end };
+}
+
+/**
+ * Rulings for a full grid with column edges at xs and row edges at ys.
+ */
+function grid(xs: number[], ys: number[]): Ruling[] {
+  const [left, right] = [Math.min(...xs), Math.max(...xs)];
+  const [bottom, top] = [Math.min(...ys), Math.max(...ys)];
+
+  return [...ys.map(y => horizontal(y, left, right)), ...xs.map(x => vertical(x, bottom, top))];
+}
+
+describe("detectTables", () => {
+  it("finds nothing on a page of prose", () => {
+    const chars = [
+      ...text("Just a paragraph of text on a page,", 50, 700),
+      ...text("with nothing set in columns at all.", 50, 688),
+    ];
+
+    expect(detectTables(chars, [])).toEqual([]);
+  });
+
+  describe("ruled tables", () => {
+    it("reads cells from a grid of rules", () => {
+      const chars = [
+        ...text("Item", 55, 705),
+        ...text("Price", 155, 705),
+        ...text("Pens", 55, 685),
+        ...text("4.50", 155, 685),
+      ];
+
+      const [table] = detectTables(chars, grid([50, 150, 250], [720, 700, 680]), {
+        pageIndex: 3,
+      });
+
+      expect(table.ruled).toBe(true);
+      expect(table.pageIndex).toBe(3);
+      expect(table.toArray()).toEqual([
+        ["Item", "Price"],
+        ["Pens", "4.50"],
+      ]);
+      expect(table.bbox).toEqual({ x: 50, y: 680, width: 200, height: 40 });
+      expect(table.rows[1].cells[1].bbox).toEqual({ x: 150, y: 680, width: 100, height: 20 });
+    });
+
+    it("merges cells where a rule is missing", () => {
+      const rulings = [
+        horizontal(720, 50, 250),
+        horizontal(700, 50, 250),
+        horizontal(680, 50, 150),
+        horizontal(660, 50, 250),
+        // The middle column edge stops at the header row
+        vertical(50, 660, 720),
+        vertical(150, 660, 700),
+        vertical(250, 660, 720),
+      ];
+      const chars = [
+        ...text("Header across", 100, 705),
+        ...text("A", 55, 685),
+        ...text("Tall", 155, 675),
+        ...text("B", 55, 665),
+      ];
+
+      const [table] = detectTables(chars, rulings);
+
+      expect(table.rows[0].cells).toMatchObject([
+        { text: "Header across", row: 0, column: 0, rowSpan: 1, columnSpan: 2 },
+      ]);
+      expect(table.rows[1].cells).toMatchObject([
+        { text: "A", column: 0, rowSpan: 1 },
+        { text: "Tall", column: 1, rowSpan: 2, columnSpan: 1 },
+      ]);
+      expect(table.rows[2].cells).toMatchObject([{ text: "B", column: 0 }]);
+      expect(table.getCell(2, 1)?.text).toBe("Tall");
+      expect(table.toArray()).toEqual([
+        ["Header across", ""],
+        ["A", "Tall"],
+        ["B", ""],
+      ]);
+    });
+
+    it("joins rules drawn in pieces and as rectangle edges", () => {
+      const rulings = [
+        horizontal(720, 50, 150),
+        horizontal(720.5, 150, 250),
+        horizontal(700, 50, 250),
+        horizontal(680, 50, 250),
+        vertical(50, 680, 720),
+        vertical(150.8, 680, 720),
+        vertical(250, 680, 700),
+        vertical(250, 700, 720),
+      ];
+      const chars = [...text("a", 55, 705), ...text("b", 155, 705), ...text("c", 55, 685)];
+
+      const [table] = detectTables(chars, rulings);
+
+      expect(table.columnCount).toBe(2);
+      expect(table.rowCount).toBe(2);
+      expect(table.toArray()).toEqual([
+        ["a", "b"],
+        ["c", ""],
+      ]);
+    });
+
+    it("joins a cell's lines", () => {
+      const chars = [
+        ...text("A long descrip-", 55, 712),
+        ...text("tion", 55, 702),
+        ...text("1", 155, 712),
+      ];
+
+      const [table] = detectTables(chars, grid([50, 150, 250], [720, 695, 680]));
+
+      expect(table.toArray()[0]).toEqual(["A long description", "1"]);
+    });
+
+    it("ignores empty boxes", () => {
+      expect(detectTables([], grid([50, 150, 250], [720, 700, 680]))).toEqual([]);
+    });
+
+    it("doesn't find a ruled table again from its text", () => {
+      const chars = [
+        ...text("Item", 55, 705),
+        ...text("Price", 155, 705),
+        ...text("Pens", 55, 685),
+        ...text("4.50", 155, 685),
+      ];
+
+      expect(detectTables(chars, [])).toHaveLength(1);
+      expect(detectTables(chars, grid([50, 150, 250], [720, 700, 680]))).toMatchObject([
+        { ruled: true },
+      ]);
+    });
+  });
+
+  describe("tables without rules", () => {
+    const statement = [
+      ...text("Date", 50, 700),
+      ...text("Description", 120, 700),
+      ...text("Amount", 300, 700),
+      ...text("01/03", 50, 686),
+      ...text("Coffee", 120, 686),
+      ...text("3.20", 310, 686),
+      ...text("02/03", 50, 672),
+      ...text("Train ticket to", 120, 672),
+      ...text("12.00", 305, 672),
+      ...text("the airport", 120, 658),
+      ...text("03/03", 50, 644),
+      ...text("Rent", 120, 644),
+      ...text("900.00", 300, 644),
+    ];
+
+    it("finds columns from aligned text", () => {
+      const [table] = detectTables(statement, []);
+
+      expect(table.ruled).toBe(false);
+      expect(table.toArray()).toEqual([
+        ["Date", "Description", "Amount"],
+        ["01/03", "Coffee", "3.20"],
+        ["02/03", "Train ticket to the airport", "12.00"],
+        ["03/03", "Rent", "900.00"],
+      ]);
+      expect(table.rows[2].bbox.height).toBeGreaterThan(20);
+    });
+
+    it("ends the table at text that isn't in columns", () => {
+      const chars = [
+        ...text("Intro text above the table.", 50, 730),
+        ...statement,
+        ...text("A closing paragraph follows it.", 50, 610),
+      ];
+
+      const [table] = detectTables(chars, []);
+
+      expect(table.rowCount).toBe(4);
+    });
+
+    it("merges a cell across columns", () => {
+      const chars = [
+        ...statement,
+        ...text("Total for March", 50, 630),
+        ...text("915.20", 300, 630),
+      ];
+
+      const [table] = detectTables(chars, []);
+
+      expect(table.rows[4].cells).toMatchObject([
+        { text: "Total for March", column: 0, columnSpan: 2 },
+        { text: "915.20", column: 2 },
+      ]);
+    });
+
+    it("leaves columns of prose alone", () => {
+      const chars = [
+        ...text("The first column of a two", 50, 700),
+        ...text("The second column of the", 320, 700),
+        ...text("column article runs down", 50, 688),
+        ...text("article sits beside the", 320, 688),
+        ...text("the left of the page here", 50, 676),
+        ...text("first one on the right.", 320, 676),
+      ];
+
+      expect(detectTables(chars, [])).toEqual([]);
+    });
+
+    it("uses only rulings or only text when asked", () => {
+      expect(detectTables(statement, [], { method: "lattice" })).toEqual([]);
+      expect(
+        detectTables(text("x", 55, 705), grid([50, 150, 250], [720, 700, 680]), {
+          method: "stream",
+        }),
+      ).toEqual([]);
+    });
+
+    it("honours minRows", () => {
+      expect(detectTables(statement, [], { minRows: 5 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,639 @@
+/**
+ * TableDetector - Finds tables in a page's text and rulings.
+ *
+ * Ruled tables ("lattice") are found from the lines and rectangle edges
+ * the page paints: rulings that cross each other form a grid, and a rule
+ * missing between two grid cells merges them. Tables without rules
+ * ("stream") are found from text alone: consecutive lines that break into
+ * chunks at wide gaps, with the chunks lining up in columns.
+ */
+
+import { toLogicalOrder } from "./bidi";
+import { joinLines } from "./layout-analyzer";
+import { groupCharsIntoLines } from "./line-grouper";
+import { Table } from "./table";
+import {
+  mergeBboxes,
+  type BoundingBox,
+  type ExtractTablesOptions,
+  type ExtractedChar,
+  type Ruling,
+  type TableCell,
+  type TableRow,
+  type TextLine,
+} from "./types";
+
+/**
+ * Options for table detection.
+ */
+export interface TableDetectorOptions extends ExtractTablesOptions {
+  /** Page index for the tables found (default: 0) */
+  pageIndex?: number;
+}
+
+/** Rulings closer than this are the same line; ends closer than this meet */
+const TOLERANCE = 2;
+
+/** Lines further apart than this many font sizes end a table without rules */
+const MAX_ROW_GAP = 3;
+
+/** Columns whose cells are mostly longer than this many characters read as prose */
+const PROSE_LENGTH = 20;
+
+/**
+ * Find the tables in extracted characters and rulings.
+ *
+ * @param chars - Array of extracted characters
+ * @param rulings - Rulings from `TextExtractor.getRulings()`
+ * @param options - Detection options
+ * @returns Tables, top to bottom
+ */
+export function detectTables(
+  chars: ExtractedChar[],
+  rulings: Ruling[],
+  options: TableDetectorOptions = {},
+): Table[] {
+  const method = options.method ?? "auto";
+  const limits = { minRows: options.minRows ?? 2, minColumns: options.minColumns ?? 2 };
+  const pageIndex = options.pageIndex ?? 0;
+  const tables: Table[] = [];
+  let remaining = chars;
+
+  if (method !== "stream") {
+    for (const grid of findGrids(rulings, limits)) {
+      const table = latticeTable(grid, remaining, pageIndex);
+
+      if (table) {
+        tables.push(table);
+        remaining = remaining.filter(char => !contains(table.bbox, char.bbox));
+      }
+    }
+  }
+
+  if (method !== "lattice") {
+    tables.push(...streamTables(remaining, options.columnGap ?? 1, limits, pageIndex));
+  }
+
+  return tables.sort(
+    (a, b) => b.bbox.y + b.bbox.height - (a.bbox.y + a.bbox.height) || a.bbox.x - b.bbox.x,
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ruled tables
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Limits {
+  minRows: number;
+  minColumns: number;
+}
+
+/**
+ * The rulings of one table: column edges left to right, row edges top to
+ * bottom, and the rulings to check which edges are drawn.
+ */
+interface Grid {
+  xs: number[];
+  ys: number[];
+  horizontal: Ruling[];
+  vertical: Ruling[];
+}
+
+/**
+ * Find grids: groups of rulings connected by crossings, with enough
+ * distinct rows and columns.
+ */
+function findGrids(rulings: Ruling[], limits: Limits): Grid[] {
+  const horizontal = mergeRulings(rulings.filter(ruling => ruling.orientation === "horizontal"));
+  const vertical = mergeRulings(rulings.filter(ruling => ruling.orientation === "vertical"));
+  const all = [...horizontal, ...vertical];
+
+  // Union-find over rulings, joining those that cross or touch
+  const parent = all.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  horizontal.forEach((h, i) => {
+    vertical.forEach((v, j) => {
+      if (crosses(h, v)) {
+        parent[find(i)] = find(horizontal.length + j);
+      }
+    });
+  });
+
+  const groups = new Map<number, Ruling[]>();
+
+  all.forEach((ruling, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+
+    if (group) {
+      group.push(ruling);
+    } else {
+      groups.set(root, [ruling]);
+    }
+  });
+
+  const grids: Grid[] = [];
+
+  for (const group of groups.values()) {
+    const groupHorizontal = group.filter(ruling => ruling.orientation === "horizontal");
+    const groupVertical = group.filter(ruling => ruling.orientation === "vertical");
+    const xs = distinct(groupVertical.map(ruling => ruling.position));
+    const ys = distinct(groupHorizontal.map(ruling => ruling.position)).reverse();
+
+    if (ys.length - 1 >= limits.minRows && xs.length - 1 >= limits.minColumns) {
+      grids.push({ xs, ys, horizontal: groupHorizontal, vertical: groupVertical });
+    }
+  }
+
+  return grids;
+}
+
+/**
+ * Merge rulings of one orientation that lie on the same line and overlap
+ * or meet, dropping any too short to be a rule.
+ */
+function mergeRulings(rulings: Ruling[]): Ruling[] {
+  const sorted = rulings
+    .filter(ruling => ruling.end - ruling.start > TOLERANCE)
+    .sort((a, b) => a.position - b.position || a.start - b.start);
+  const merged: Ruling[] = [];
+
+  for (const ruling of sorted) {
+    const match = merged.find(
+      other =>
+        Math.abs(other.position - ruling.position) <= TOLERANCE &&
+        ruling.start <= other.end + TOLERANCE &&
+        other.start <= ruling.end + TOLERANCE,
+    );
+
+    if (match) {
+      match.start = Math.min(match.start, ruling.start);
+      match.end = Math.max(match.end, ruling.end);
+    } else {
+      merged.push({ ...ruling });
+    }
+  }
+
+  return merged;
+}
+
+function crosses(h: Ruling, v: Ruling): boolean {
+  return (
+    v.position >= h.start - TOLERANCE &&
+    v.position <= h.end + TOLERANCE &&
+    h.position >= v.start - TOLERANCE &&
+    h.position <= v.end + TOLERANCE
+  );
+}
+
+/**
+ * Positions in ascending order, with those within the tolerance merged.
+ */
+function distinct(positions: number[]): number[] {
+  const result: number[] = [];
+
+  for (const position of [...positions].sort((a, b) => a - b)) {
+    if (result.length === 0 || position - result[result.length - 1] > TOLERANCE) {
+      result.push(position);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a ruling is drawn at a position, across a point along it.
+ */
+function drawn(rulings: Ruling[], position: number, along: number): boolean {
+  return rulings.some(
+    ruling =>
+      Math.abs(ruling.position - position) <= TOLERANCE &&
+      ruling.start - TOLERANCE <= along &&
+      along <= ruling.end + TOLERANCE,
+  );
+}
+
+/**
+ * Build a ruled table from a grid: grid positions with no rule between
+ * them are merged into one cell, and characters go to the cell holding
+ * their centre.
+ */
+function latticeTable(grid: Grid, chars: ExtractedChar[], pageIndex: number): Table | null {
+  const { xs, ys } = grid;
+  const rowCount = ys.length - 1;
+  const columnCount = xs.length - 1;
+
+  // Union-find over grid positions, r * columnCount + c
+  const parent = Array.from({ length: rowCount * columnCount }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let r = 0; r < rowCount; r++) {
+    const middleY = (ys[r] + ys[r + 1]) / 2;
+
+    for (let c = 0; c < columnCount; c++) {
+      const middleX = (xs[c] + xs[c + 1]) / 2;
+      const index = r * columnCount + c;
+
+      if (c + 1 < columnCount && !drawn(grid.vertical, xs[c + 1], middleY)) {
+        parent[find(index + 1)] = find(index);
+      }
+
+      if (r + 1 < rowCount && !drawn(grid.horizontal, ys[r + 1], middleX)) {
+        parent[find(index + columnCount)] = find(index);
+      }
+    }
+  }
+
+  // Each group's extent on the grid is a cell
+  const extents = new Map<number, { top: number; left: number; bottom: number; right: number }>();
+
+  for (let index = 0; index < parent.length; index++) {
+    const r = Math.floor(index / columnCount);
+    const c = index % columnCount;
+    const root = find(index);
+    const extent = extents.get(root);
+
+    if (extent) {
+      extent.top = Math.min(extent.top, r);
+      extent.left = Math.min(extent.left, c);
+      extent.bottom = Math.max(extent.bottom, r);
+      extent.right = Math.max(extent.right, c);
+    } else {
+      extents.set(root, { top: r, left: c, bottom: r, right: c });
+    }
+  }
+
+  const rows: TableRow[] = ys.slice(1).map((y, r) => ({
+    bbox: { x: xs[0], y, width: xs[columnCount] - xs[0], height: ys[r] - y },
+    cells: [],
+  }));
+  let hasText = false;
+
+  for (const { top, left, bottom, right } of extents.values()) {
+    const bbox = {
+      x: xs[left],
+      y: ys[bottom + 1],
+      width: xs[right + 1] - xs[left],
+      height: ys[top] - ys[bottom + 1],
+    };
+    const text = cellText(chars.filter(char => contains(bbox, char.bbox)));
+
+    hasText ||= text !== "";
+    rows[top].cells.push({
+      text,
+      bbox,
+      row: top,
+      column: left,
+      rowSpan: bottom - top + 1,
+      columnSpan: right - left + 1,
+    });
+  }
+
+  // Boxes with nothing in them are page decoration, not a table
+  if (!hasText) {
+    return null;
+  }
+
+  for (const row of rows) {
+    row.cells.sort((a, b) => a.column - b.column);
+  }
+
+  return new Table({
+    pageIndex,
+    bbox: mergeBboxes(rows.map(row => row.bbox)),
+    rows,
+    columnCount,
+    ruled: true,
+  });
+}
+
+/**
+ * The text of a cell's characters: its lines, joined.
+ */
+function cellText(chars: ExtractedChar[]): string {
+  return joinLines(groupCharsIntoLines(chars).map(line => line.text));
+}
+
+/**
+ * Whether a character's centre is inside a box.
+ */
+function contains(box: BoundingBox, inner: BoundingBox): boolean {
+  const x = inner.x + inner.width / 2;
+  const y = inner.y + inner.height / 2;
+
+  return x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tables without rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Part of a line set apart by a wide gap: a candidate cell */
+interface Chunk {
+  text: string;
+  bbox: BoundingBox;
+}
+
+/** A line with its chunks */
+interface ChunkedLine {
+  line: TextLine;
+  chunks: Chunk[];
+}
+
+/** A column's extent along x */
+interface Column {
+  start: number;
+  end: number;
+}
+
+function streamTables(
+  chars: ExtractedChar[],
+  columnGap: number,
+  limits: Limits,
+  pageIndex: number,
+): Table[] {
+  // Columns of vertical writing aren't read as table rows
+  const lines = groupCharsIntoLines(chars)
+    .filter(line => !line.vertical)
+    .map(line => ({ line, chunks: chunksOf(line, columnGap) }));
+  const tables: Table[] = [];
+  let run: ChunkedLine[] = [];
+
+  const finish = () => {
+    // A table ends at its last line with several cells
+    while (run.length > 0 && run[run.length - 1].chunks.length < 2) {
+      run.pop();
+    }
+
+    const table = run.length > 0 ? streamTable(run, limits, pageIndex) : null;
+
+    if (table) {
+      tables.push(table);
+    }
+
+    run = [];
+  };
+
+  for (const current of lines) {
+    const previous = run.at(-1);
+    const size = current.line.spans[0]?.fontSize ?? 0;
+    const close =
+      previous !== undefined &&
+      previous.line.baseline - current.line.baseline <= size * MAX_ROW_GAP;
+
+    if (current.chunks.length >= 2) {
+      if (!close) {
+        finish();
+      }
+
+      run.push(current);
+    } else if (previous && close) {
+      run.push(current);
+    } else {
+      finish();
+    }
+  }
+
+  finish();
+
+  return tables;
+}
+
+/**
+ * Split a line into chunks at gaps of at least `columnGap` font sizes
+ * between visible characters.
+ */
+function chunksOf(line: TextLine, columnGap: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: ExtractedChar[] = [];
+  let last: ExtractedChar | null = null;
+
+  const finish = () => {
+    const visible = current.filter(char => char.char.trim() !== "");
+
+    if (visible.length > 0) {
+      chunks.push({
+        text: toLogicalOrder(current)
+          .map(char => char.char)
+          .join("")
+          .trim(),
+        bbox: mergeBboxes(visible.map(char => char.bbox)),
+      });
+    }
+
+    current = [];
+  };
+
+  // Cells are split on the page left to right, then each put back into
+  // reading order, as a line holding right-to-left text is in logical order
+  const chars = line.spans.flatMap(span => span.chars).sort((a, b) => a.bbox.x - b.bbox.x);
+
+  for (const char of chars) {
+    if (char.char.trim() === "") {
+      current.push(char);
+
+      continue;
+    }
+
+    if (last && char.bbox.x - (last.bbox.x + last.bbox.width) >= columnGap * char.fontSize) {
+      finish();
+    }
+
+    current.push(char);
+    last = char;
+  }
+
+  finish();
+
+  return chunks;
+}
+
+/**
+ * Build a table from a run of lines: columns come from the lines with the
+ * usual number of chunks, lines with one chunk inside a column continue
+ * the row above, and chunks across several columns are merged cells.
+ */
+function streamTable(run: ChunkedLine[], limits: Limits, pageIndex: number): Table | null {
+  const multi = run.filter(line => line.chunks.length >= 2);
+
+  if (multi.length < limits.minRows) {
+    return null;
+  }
+
+  // The most common chunk count, preferring more columns on ties
+  const counts = new Map<number, number>();
+
+  for (const { chunks } of multi) {
+    counts.set(chunks.length, (counts.get(chunks.length) ?? 0) + 1);
+  }
+
+  const [usual] = [...counts].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+  let columns = mergeColumns(
+    multi.filter(line => line.chunks.length === usual).flatMap(line => line.chunks),
+    [],
+  );
+
+  // Chunks of other lines that fall between columns add columns
+  columns = mergeColumns(
+    multi
+      .flatMap(line => line.chunks)
+      .filter(chunk => overlapping(columns, chunk.bbox).length === 0),
+    columns,
+  );
+
+  if (columns.length < limits.minColumns) {
+    return null;
+  }
+
+  const rows: { lines: TextLine[]; cells: { text: string[]; first: number; last: number }[] }[] =
+    [];
+
+  for (const { line, chunks } of run) {
+    const placed = chunks.map(chunk => {
+      const covered = overlapping(columns, chunk.bbox);
+
+      // Continuation lines can sit in a gap between columns
+      if (covered.length === 0) {
+        covered.push(nearest(columns, chunk.bbox));
+      }
+
+      return { text: chunk.text, first: covered[0], last: covered[covered.length - 1] };
+    });
+    const previous = rows.at(-1);
+
+    // A single chunk within one column wraps the row above's cell
+    if (previous && placed.length === 1 && placed[0].first === placed[0].last) {
+      const cell = previous.cells.find(
+        candidate => candidate.first <= placed[0].first && placed[0].first <= candidate.last,
+      );
+
+      if (cell) {
+        cell.text.push(placed[0].text);
+      } else {
+        previous.cells.push({ ...placed[0], text: [placed[0].text] });
+      }
+
+      previous.lines.push(line);
+
+      continue;
+    }
+
+    const cells: { text: string[]; first: number; last: number }[] = [];
+
+    for (const chunk of placed) {
+      const cell = cells.at(-1);
+
+      if (cell && cell.last >= chunk.first) {
+        // Chunks sharing a column are one cell
+        cell.text.push(chunk.text);
+        cell.last = Math.max(cell.last, chunk.last);
+      } else {
+        cells.push({ text: [chunk.text], first: chunk.first, last: chunk.last });
+      }
+    }
+
+    rows.push({ lines: [line], cells });
+  }
+
+  // Text set in columns of sentences is a multi-column layout, not a table
+  const prose = columns.every((_, c) => {
+    const cells = rows.flatMap(row => row.cells.filter(cell => cell.first === c));
+    const long = cells.filter(cell => joinLines(cell.text).length > PROSE_LENGTH);
+
+    return long.length * 2 > cells.length;
+  });
+
+  if (prose) {
+    return null;
+  }
+
+  const tableRows: TableRow[] = rows.map((row, r) => {
+    const lineBox = mergeBboxes(row.lines.map(line => line.bbox));
+    const box = (first: number, last: number): BoundingBox => ({
+      x: columns[first].start,
+      y: lineBox.y,
+      width: columns[last].end - columns[first].start,
+      height: lineBox.height,
+    });
+    const cells: TableCell[] = [];
+
+    // Fill the columns no cell covers with empty cells
+    for (let c = 0; c < columns.length; ) {
+      const cell = row.cells.find(candidate => candidate.first === c);
+      const last = cell?.last ?? c;
+
+      cells.push({
+        text: cell ? joinLines(cell.text) : "",
+        bbox: box(c, last),
+        row: r,
+        column: c,
+        rowSpan: 1,
+        columnSpan: last - c + 1,
+      });
+      c = last + 1;
+    }
+
+    return { bbox: box(0, columns.length - 1), cells };
+  });
+
+  return new Table({
+    pageIndex,
+    bbox: mergeBboxes(tableRows.map(row => row.bbox)),
+    rows: tableRows,
+    columnCount: columns.length,
+    ruled: false,
+  });
+}
+
+/**
+ * Add chunks to columns, merging every column and chunk that overlap
+ * along x.
+ */
+function mergeColumns(chunks: Chunk[], columns: Column[]): Column[] {
+  const intervals = [
+    ...columns,
+    ...chunks.map(chunk => ({ start: chunk.bbox.x, end: chunk.bbox.x + chunk.bbox.width })),
+  ].sort((a, b) => a.start - b.start);
+  const merged: Column[] = [];
+
+  for (const interval of intervals) {
+    const last = merged.at(-1);
+
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Indices of the columns a box overlaps.
+ */
+function overlapping(columns: Column[], bbox: BoundingBox): number[] {
+  const indices: number[] = [];
+
+  columns.forEach((column, i) => {
+    if (bbox.x < column.end && bbox.x + bbox.width > column.start) {
+      indices.push(i);
+    }
+  });
+
+  return indices;
+}
+
+/**
+ * Index of the column nearest a box's centre.
+ */
+function nearest(columns: Column[], bbox: BoundingBox): number {
+  const centre = bbox.x + bbox.width / 2;
+  const distance = (column: Column) => Math.max(column.start - centre, centre - column.end, 0);
+
+  return columns.reduce(
+    (best, column, i) => (distance(column) < distance(columns[best]) ? i : best),
+    0,
+  );
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { Table } from "./table";
+import type { TableCell } from "./types";
+
+function cell(text: string, row: number, column: number, spans: Partial<TableCell> = {}) {
+  return {
+    text,
+    bbox: { x: column * 100, y: 700 - row * 20, width: 100, height: 20 },
+    row,
+    column,
+    rowSpan: 1,
+    columnSpan: 1,
+    ...spans,
+  };
+}
+
+const table = new Table({
+  pageIndex: 0,
+  bbox: { x: 0, y: 660, width: 300, height: 60 },
+  columnCount: 3,
+  ruled: true,
+  rows: [
+    {
+      bbox: { x: 0, y: 700, width: 300, height: 20 },
+      cells: [cell("Name", 0, 0), cell("Notes", 0, 1, { columnSpan: 2 })],
+    },
+    {
+      bbox: { x: 0, y: 680, width: 300, height: 20 },
+      cells: [
+        cell("Smith, J.", 1, 0),
+        cell('Said "hi"', 1, 1),
+        cell("Spans\ntwo", 1, 2, { rowSpan: 2 }),
+      ],
+    },
+    {
+      bbox: { x: 0, y: 660, width: 300, height: 20 },
+      cells: [cell("Lee", 2, 0), cell("", 2, 1)],
+    },
+  ],
+});
+
+describe("Table", () => {
+  it("lays out cells on the grid", () => {
+    expect(table.rowCount).toBe(3);
+    expect(table.toArray()).toEqual([
+      ["Name", "Notes", ""],
+      ["Smith, J.", 'Said "hi"', "Spans\ntwo"],
+      ["Lee", "", ""],
+    ]);
+  });
+
+  it("finds the cell covering a position", () => {
+    expect(table.getCell(0, 2)?.text).toBe("Notes");
+    expect(table.getCell(2, 2)?.text).toBe("Spans\ntwo");
+    expect(table.getCell(2, 0)?.text).toBe("Lee");
+    expect(table.getCell(5, 0)).toBeUndefined();
+  });
+
+  it("exports CSV, quoting where needed", () => {
+    expect(table.toCSV()).toBe(
+      'Name,Notes,\r\n"Smith, J.","Said ""hi""","Spans\ntwo"\r\nLee,,\r\n',
+    );
+  });
+
+  it("exports CSV with another delimiter", () => {
+    expect(table.toCSV({ delimiter: ";" }).split("\r\n")[1]).toBe(
+      'Smith, J.;"Said ""hi""";"Spans\ntwo"',
+    );
+  });
+
+  it("serializes to JSON", () => {
+    const json = JSON.parse(JSON.stringify(table));
+
+    expect(json).toMatchObject({ pageIndex: 0, rowCount: 3, columnCount: 3, ruled: true });
+    expect(json.rows[1].cells[2]).toMatchObject({ text: "Spans\ntwo", rowSpan: 2 });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Table - A table found on a page, with CSV and JSON export.
+ */
+
+import type { BoundingBox, TableCell, TableRow } from "./types";
+
+/**
+ * Options for CSV export.
+ */
+export interface TableCSVOptions {
+  /**
+   * Field separator.
+   * Default: ","
+   */
+  delimiter?: string;
+}
+
+/**
+ * A table's JSON form, as `JSON.stringify()` writes it.
+ */
+export interface TableJSON {
+  pageIndex: number;
+  bbox: BoundingBox;
+  rowCount: number;
+  columnCount: number;
+  ruled: boolean;
+  rows: TableRow[];
+}
+
+/**
+ * A table: rows of cells on a grid, where merged cells cover several rows
+ * or columns.
+ *
+ * @example
+ * ```typescript
+ * const [table] = page.extractTables();
+ *
+ * for (const row of table.toArray()) {
+ *   console.log(row.join(" | "));
+ * }
+ *
+ * await writeFile("items.csv", table.toCSV());
+ * ```
+ */
+export class Table {
+  /** Page index (0-based) */
+  readonly pageIndex: number;
+
+  /** Bounding box of the table */
+  readonly bbox: BoundingBox;
+
+  /** Rows, top to bottom */
+  readonly rows: TableRow[];
+
+  /** Number of columns in the grid */
+  readonly columnCount: number;
+
+  /** Whether the table was found from its rules, rather than text alignment */
+  readonly ruled: boolean;
+
+  constructor(init: {
+    pageIndex: number;
+    bbox: BoundingBox;
+    rows: TableRow[];
+    columnCount: number;
+    ruled: boolean;
+  }) {
+    this.pageIndex = init.pageIndex;
+    this.bbox = init.bbox;
+    this.rows = init.rows;
+    this.columnCount = init.columnCount;
+    this.ruled = init.ruled;
+  }
+
+  /** Number of rows in the grid */
+  get rowCount(): number {
+    return this.rows.length;
+  }
+
+  /**
+   * Get the cell covering a grid position, which may be a merged cell
+   * starting in an earlier row or column.
+   */
+  getCell(row: number, column: number): TableCell | undefined {
+    for (let r = Math.min(row, this.rows.length - 1); r >= 0; r--) {
+      const cell = this.rows[r].cells.find(
+        candidate =>
+          candidate.column <= column &&
+          column < candidate.column + candidate.columnSpan &&
+          row < candidate.row + candidate.rowSpan,
+      );
+
+      if (cell) {
+        return cell;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the cell texts as a grid. A merged cell's text is in its first
+   * row and column; the positions it also covers are empty.
+   */
+  toArray(): string[][] {
+    const grid = this.rows.map(() => Array.from({ length: this.columnCount }, () => ""));
+
+    for (const row of this.rows) {
+      for (const cell of row.cells) {
+        grid[cell.row][cell.column] = cell.text;
+      }
+    }
+
+    return grid;
+  }
+
+  /**
+   * Export the table as CSV (RFC 4180): fields holding the delimiter, quotes
+   * or line breaks are quoted, and records end with CRLF.
+   */
+  toCSV(options: TableCSVOptions = {}): string {
+    const delimiter = options.delimiter ?? ",";
+
+    const field = (text: string) =>
+      text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+
+    return this.toArray()
+      .map(row => row.map(field).join(delimiter) + "\r\n")
+      .join("");
+  }
+
+  /**
+   * Get the table's JSON form. Called by `JSON.stringify()`.
+   */
+  toJSON(): TableJSON {
+    return {
+      pageIndex: this.pageIndex,
+      bbox: this.bbox,
+      rowCount: this.rowCount,
+      columnCount: this.columnCount,
+      ruled: this.ruled,
+      rows: this.rows,
+    };
+  }
+}
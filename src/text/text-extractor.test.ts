@@ -0,0 +1,392 @@
+import { parseFont } from "#src/fonts/font-factory";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { PdfString } from "#src/objects/pdf-string";
+import { numbers } from "#src/test-utils";
+import { describe, expect, it } from "vitest";
+
+import { TextExtractor } from "./text-extractor";
+import type { ExtractedChar } from "./types";
+
+const helvetica = PdfDict.of({
+  Type: PdfName.of("Font"),
+  Subtype: PdfName.of("Type1"),
+  BaseFont: PdfName.of("Helvetica"),
+});
+
+const font = parseFont(helvetica);
+
+/** Resources with Helvetica as /F1 */
+function fontResources(entries: Record<string, PdfDict> = {}): PdfDict {
+  return PdfDict.of({ Font: PdfDict.of({ F1: helvetica }), ...entries });
+}
+
+function form(content: string, entries: Record<string, PdfArray | PdfDict> = {}): PdfStream {
+  return PdfStream.fromDict(
+    { Type: PdfName.of("XObject"), Subtype: PdfName.of("Form"), ...entries },
+    new TextEncoder().encode(content),
+  );
+}
+
+function extractor(resolve = (_ref: PdfRef) => null as PdfStream | null): TextExtractor {
+  return new TextExtractor({
+    // Only fonts in the resources in scope are found
+    resolveFont: (name, resources) => (resources?.getDict("Font")?.has(name) ? font : null),
+    resolve,
+  });
+}
+
+function extract(content: string, resources: PdfDict | null): ExtractedChar[] {
+  return extractor().extract(new TextEncoder().encode(content), resources);
+}
+
+function text(chars: ExtractedChar[]): string {
+  return chars.map(char => char.char).join("");
+}
+
+describe("TextExtractor", () => {
+  describe("Form XObjects", () => {
+    it("extracts form text under the form matrix and the CTM", () => {
+      const resources = PdfDict.of({
+        XObject: PdfDict.of({
+          Fm1: form("BT /F1 10 Tf (Hi) Tj ET", {
+            Matrix: numbers(1, 0, 0, 1, 50, 0),
+            Resources: fontResources(),
+          }),
+        }),
+      });
+
+      const chars = extract("q 1 0 0 1 100 200 cm /Fm1 Do Q", resources);
+
+      expect(text(chars)).toBe("Hi");
+      expect(chars[0].bbox.x).toBeCloseTo(150);
+      expect(chars[0].baseline).toBeCloseTo(200);
+    });
+
+    it("uses the parent's resources for forms without their own", () => {
+      const resources = fontResources({
+        XObject: PdfDict.of({ Fm1: form("BT /F1 10 Tf (Inherited) Tj ET") }),
+      });
+
+      expect(text(extract("/Fm1 Do", resources))).toBe("Inherited");
+    });
+
+    it("scopes fonts to the form", () => {
+      const resources = PdfDict.of({
+        XObject: PdfDict.of({
+          Fm1: form("BT /F1 10 Tf (A) Tj ET", { Resources: fontResources() }),
+        }),
+      });
+
+      // /F1 isn't in the page's resources
+      expect(text(extract("/Fm1 Do BT /F1 10 Tf (B) Tj ET", resources))).toBe("A");
+    });
+
+    it("restores the font after the form", () => {
+      const resources = fontResources({
+        XObject: PdfDict.of({ Fm1: form("BT /F1 20 Tf (A) Tj ET") }),
+      });
+
+      const chars = extract("BT /F1 10 Tf ET /Fm1 Do BT (B) Tj ET", resources);
+
+      expect(text(chars)).toBe("AB");
+      expect(chars[1].fontSize).toBe(10);
+    });
+
+    it("doesn't descend into a form that draws itself", () => {
+      const ref = PdfRef.of(7, 0);
+      const self = form("/Fm1 Do BT /F1 10 Tf (A) Tj ET");
+
+      self.set("Resources", fontResources({ XObject: PdfDict.of({ Fm1: ref }) }));
+
+      const chars = extractor(r => (r === ref ? self : null)).extract(
+        new TextEncoder().encode("/Fm1 Do"),
+        PdfDict.of({ XObject: PdfDict.of({ Fm1: ref }) }),
+      );
+
+      // The inner Do is skipped
+      expect(text(chars)).toBe("A");
+    });
+  });
+
+  describe("marked content", () => {
+    it("replaces content with /ActualText", () => {
+      const plain = extract("BT /F1 10 Tf (X) Tj ET", fontResources());
+      const chars = extract(
+        "/Span <</ActualText (fi)>> BDC BT /F1 10 Tf (X) Tj ET EMC BT (y) Tj ET",
+        fontResources(),
+      );
+
+      expect(text(chars)).toBe("fiy");
+      expect(chars[0].bbox.x).toBeCloseTo(plain[0].bbox.x);
+      expect(chars[0].bbox.width + chars[1].bbox.width).toBeCloseTo(plain[0].bbox.width);
+    });
+
+    it("reads /ActualText from named /Properties", () => {
+      const resources = fontResources({
+        Properties: PdfDict.of({
+          MC0: PdfDict.of({ ActualText: PdfString.fromString("Ünïcode") }),
+        }),
+      });
+
+      const chars = extract("/Span /MC0 BDC BT /F1 10 Tf (X) Tj ET EMC", resources);
+
+      expect(text(chars)).toBe("Ünïcode");
+    });
+
+    it("places /ActualText for content without glyphs at the text position", () => {
+      const chars = extract(
+        "BT /F1 10 Tf (a) Tj /Span <</ActualText ( )>> BDC EMC (b) Tj ET",
+        fontResources(),
+      );
+
+      expect(text(chars)).toBe("a b");
+      expect(chars[1].bbox.x).toBeCloseTo(chars[2].bbox.x);
+    });
+
+    it("uses the outermost /ActualText of nested sequences", () => {
+      const chars = extract(
+        "/Span <</ActualText (outer)>> BDC /Span <</ActualText (inner)>> BDC " +
+          "BT /F1 10 Tf (X) Tj ET EMC EMC",
+        fontResources(),
+      );
+
+      expect(text(chars)).toBe("outer");
+    });
+
+    it("gives images in a sequence its /Alt text", () => {
+      const resources = PdfDict.of({
+        XObject: PdfDict.of({
+          Im1: PdfStream.fromDict({ Subtype: PdfName.of("Image") }, new Uint8Array(0)),
+        }),
+      });
+
+      const chars = extract(
+        "/Figure <</Alt (A chart)>> BDC q 140 0 0 50 10 20 cm /Im1 Do Q EMC",
+        resources,
+      );
+
+      expect(text(chars)).toBe("A chart");
+      expect(chars[0].bbox.x).toBeCloseTo(10);
+      expect(chars[6].bbox.x + chars[6].bbox.width).toBeCloseTo(150);
+      expect(chars[0].baseline).toBeCloseTo(20);
+    });
+
+    it("ignores /Alt for sequences that show text", () => {
+      const chars = extract(
+        "/Span <</Alt (Description)>> BDC BT /F1 10 Tf (Shown) Tj ET EMC",
+        fontResources(),
+      );
+
+      expect(text(chars)).toBe("Shown");
+    });
+  });
+
+  describe("rulings", () => {
+    function rulings(content: string, resources: PdfDict | null = null) {
+      const rulingExtractor = new TextExtractor({
+        resolveFont: () => font,
+        resolve: () => null,
+        collectRulings: true,
+      });
+
+      rulingExtractor.extract(new TextEncoder().encode(content), resources);
+
+      return rulingExtractor.getRulings();
+    }
+
+    it("collects stroked lines and rectangle edges under the CTM", () => {
+      expect(rulings("q 2 0 0 2 10 10 cm 0 0 m 50 0 l S Q 100 100 20 10 re f")).toEqual([
+        { orientation: "horizontal", position: 10, start: 10, end: 110 },
+        { orientation: "horizontal", position: 100, start: 100, end: 120 },
+        { orientation: "vertical", position: 120, start: 100, end: 110 },
+        { orientation: "horizontal", position: 110, start: 100, end: 120 },
+        { orientation: "vertical", position: 100, start: 100, end: 110 },
+      ]);
+    });
+
+    it("closes subpaths and skips diagonals, curves and clipping paths", () => {
+      expect(rulings("0 0 m 10 10 l 20 10 l h S")).toEqual([
+        { orientation: "horizontal", position: 10, start: 10, end: 20 },
+      ]);
+      expect(rulings("0 0 m 10 20 30 20 40 0 c S 0 0 100 100 re W n")).toEqual([]);
+    });
+
+    it("follows forms", () => {
+      const resources = PdfDict.of({
+        XObject: PdfDict.of({ Fm1: form("0 0 m 0 40 l S", { Matrix: numbers(1, 0, 0, 1, 5, 0) }) }),
+      });
+
+      expect(rulings("/Fm1 Do", resources)).toEqual([
+        { orientation: "vertical", position: 5, start: 0, end: 40 },
+      ]);
+    });
+
+    it("collects nothing unless asked", () => {
+      const chars = extractor();
+
+      chars.extract(new TextEncoder().encode("0 0 m 50 0 l S"));
+
+      expect(chars.getRulings()).toEqual([]);
+    });
+  });
+
+  describe("vertical writing", () => {
+    // Identity-V: two-byte codes are CIDs, and CIDs here are Unicode
+    const vertical = parseFont(
+      PdfDict.of({
+        Type: PdfName.of("Font"),
+        Subtype: PdfName.of("Type0"),
+        BaseFont: PdfName.of("KozMinPro-Regular"),
+        Encoding: PdfName.of("Identity-V"),
+        DescendantFonts: new PdfArray([
+          PdfDict.of({
+            Type: PdfName.of("Font"),
+            Subtype: PdfName.of("CIDFontType0"),
+            BaseFont: PdfName.of("KozMinPro-Regular"),
+            DW: PdfNumber.of(1000),
+            // あ advances half an em down the column
+            W2: new PdfArray([PdfNumber.of(0x3042), numbers(-500, 500, 880)]),
+          }),
+        ]),
+      }),
+    );
+
+    function extractVertical(content: string): ExtractedChar[] {
+      return new TextExtractor({ resolveFont: () => vertical, resolve: () => null }).extract(
+        new TextEncoder().encode(content),
+        null,
+      );
+    }
+
+    it("hangs glyphs from the vertical origin and advances down the column", () => {
+      const chars = extractVertical("BT /F1 10 Tf 1 0 0 1 100 700 Tm <4e0a4e0b> Tj ET");
+
+      expect(text(chars)).toBe("上下");
+      expect(chars[0]).toMatchObject({ baseline: 100, vertical: true });
+      expect(chars[0].bbox.x).toBeCloseTo(95);
+      expect(chars[0].bbox.y + chars[0].bbox.height).toBeCloseTo(699.2);
+      expect(chars[1].bbox.y + chars[1].bbox.height).toBeCloseTo(689.2);
+    });
+
+    it("uses /W2 advances and moves TJ adjustments down the column", () => {
+      const chars = extractVertical(
+        "BT /F1 10 Tf 1 0 0 1 100 700 Tm [<3042> <3044> -200 <3046>] TJ ET",
+      );
+      const tops = chars.map(char => char.bbox.y + char.bbox.height);
+
+      expect(tops[0] - tops[1]).toBeCloseTo(5);
+      // Negative adjustments move up in vertical mode, as they move right otherwise
+      expect(tops[1] - tops[2]).toBeCloseTo(8);
+    });
+  });
+
+  describe("annotations", () => {
+    it("extracts the normal appearance placed in /Rect", () => {
+      const annotation = PdfDict.of({
+        Subtype: PdfName.of("FreeText"),
+        Rect: numbers(200, 300, 400, 340),
+        AP: PdfDict.of({
+          N: form("BT /F1 10 Tf 2 5 Td (Note) Tj ET", {
+            BBox: numbers(0, 0, 100, 20),
+            Resources: fontResources(),
+          }),
+        }),
+      });
+
+      const chars = extractor().extractAnnotation(annotation);
+
+      expect(text(chars)).toBe("Note");
+      expect(chars[0].bbox.x).toBeCloseTo(204);
+      expect(chars[0].baseline).toBeCloseTo(310);
+    });
+
+    it("ignores state left behind by unbalanced page content", () => {
+      const annotation = PdfDict.of({
+        Subtype: PdfName.of("FreeText"),
+        Rect: numbers(100, 100, 200, 120),
+        AP: PdfDict.of({
+          N: form("BT /F1 10 Tf 2 5 Td (x) Tj ET", { Resources: fontResources() }),
+        }),
+      });
+      const chars = extractor();
+
+      chars.extract(
+        new TextEncoder().encode("q q 0.5 0 0 0.5 0 0 cm 3 Tc 50 Tz BT /F1 10 Tf (x) Tj ET"),
+        fontResources(),
+      );
+
+      const [, note] = chars.extractAnnotation(annotation);
+
+      expect(note.bbox.x).toBeCloseTo(102);
+      expect(note.baseline).toBeCloseTo(105);
+      expect(note.fontSize).toBeCloseTo(10);
+      expect(note.bbox.width).toBeCloseTo(font.getWidth(120) / 100);
+    });
+
+    it("picks the appearance for /AS", () => {
+      const annotation = PdfDict.of({
+        Subtype: PdfName.of("Widget"),
+        Rect: numbers(0, 0, 20, 20),
+        AS: PdfName.of("On"),
+        AP: PdfDict.of({
+          N: PdfDict.of({
+            On: form("BT /F1 10 Tf (4) Tj ET", { Resources: fontResources() }),
+            Off: form("BT /F1 10 Tf (x) Tj ET", { Resources: fontResources() }),
+          }),
+        }),
+      });
+
+      expect(text(extractor().extractAnnotation(annotation))).toBe("4");
+    });
+
+    it("skips hidden annotations", () => {
+      const annotation = PdfDict.of({
+        Subtype: PdfName.of("Stamp"),
+        F: PdfNumber.of(2),
+        Rect: numbers(0, 0, 100, 20),
+        AP: PdfDict.of({
+          N: form("BT /F1 10 Tf (Hidden) Tj ET", { Resources: fontResources() }),
+        }),
+      });
+
+      expect(extractor().extractAnnotation(annotation)).toEqual([]);
+    });
+
+    it("uses the value of a field without an appearance", () => {
+      const field = PdfDict.of({
+        FT: PdfName.of("Tx"),
+        V: PdfString.fromString("Jane Doe"),
+        DA: PdfString.fromString("/Helv 12 Tf 0 g"),
+      });
+      const widget = PdfDict.of({
+        Subtype: PdfName.of("Widget"),
+        Rect: numbers(100, 700, 300, 724),
+        Parent: field,
+      });
+
+      const chars = extractor().extractAnnotation(widget);
+
+      expect(text(chars)).toBe("Jane Doe");
+      expect(chars[0]).toMatchObject({ fontSize: 12, fontName: "Helv" });
+      expect(chars[0].bbox.x).toBeCloseTo(102);
+      expect(chars[0].baseline).toBeGreaterThan(700);
+      expect(chars[0].baseline).toBeLessThan(712);
+    });
+
+    it("ignores button values", () => {
+      const widget = PdfDict.of({
+        Subtype: PdfName.of("Widget"),
+        FT: PdfName.of("Btn"),
+        V: PdfName.of("Yes"),
+        Rect: numbers(0, 0, 20, 20),
+      });
+
+      expect(extractor().extractAnnotation(widget)).toEqual([]);
+    });
+  });
+});
@@ -2,9 +2,13 @@
  * TextExtractor - Extracts text content from PDF content streams.
  *
  * Processes PDF content stream operators to extract text with position
- * information, suitable for searching and text extraction.
+ * information, suitable for searching and text extraction. Follows `Do`
+ * into Form XObjects (with their /Matrix and /Resources), replaces marked
+ * content with its /ActualText, and can add the text of annotation
+ * appearances and form field values.
  */
 
+import { AnnotationFlags } from "#src/annotations/types";
 import { ContentStreamParser } from "#src/content/parsing/content-stream-parser";
 import {
   isInlineImageOperation,
@@ -12,9 +16,19 @@ import {
   type ContentToken,
 } from "#src/content/parsing/types";
 import type { PdfFont } from "#src/fonts/pdf-font";
+import { decodeTextString } from "#src/helpers/encoding";
+import { Matrix } from "#src/helpers/matrix";
+import type { RefResolver } from "#src/helpers/types";
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { PdfString } from "#src/objects/pdf-string";
 
 import { TextState } from "./text-state";
-import type { ExtractedChar } from "./types";
+import { mergeBboxes, type BoundingBox, type ExtractedChar, type Ruling } from "./types";
 
 /**
  * Options for text extraction.
@@ -22,48 +36,197 @@ import type { ExtractedChar } from "./types";
 export interface TextExtractorOptions {
   /**
    * Resolve a font name to a PdfFont object.
-   * Font names are keys in the /Resources/Font dictionary (e.g., "F1", "TT0").
+   * Font names are keys in the /Font dictionary of the resources in scope
+   * (e.g., "F1", "TT0"): the page's, or a Form XObject's while its content
+   * is processed.
    */
-  resolveFont: (name: string) => PdfFont | null;
+  resolveFont: (name: string, resources: PdfDict | null) => PdfFont | null;
+
+  /**
+   * Resolves indirect references. Needed to follow `Do` into Form XObjects,
+   * read marked-content /Properties and extract annotations.
+   */
+  resolve?: RefResolver;
+
+  /**
+   * Also collect the horizontal and vertical lines that paths paint, for
+   * table detection (see `getRulings()`).
+   * Default: false
+   */
+  collectRulings?: boolean;
 }
 
+/**
+ * An open marked-content sequence (BMC/BDC ... EMC).
+ */
+interface MarkedContent {
+  /** Index of the first character shown inside the sequence */
+  start: number;
+  /** Index of the first image painted inside the sequence */
+  figureStart: number;
+  /** Replacement text for the sequence's content */
+  actualText: string | null;
+  /** Description of the sequence's content, used when it shows no text */
+  alt: string | null;
+  /** Marked-content ID tying the content to the structure tree, inherited */
+  mcid: number | null;
+}
+
+/** A line segment of the current path, in page coordinates */
+interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** Segments further than this off horizontal or vertical aren't rulings */
+const RULING_SKEW = 1;
+
+/** Field inheritance deeper than this is treated as a cycle */
+const MAX_FIELD_DEPTH = 32;
+
 /**
  * Extracts text from PDF content streams.
  */
 export class TextExtractor {
-  private readonly resolveFont: (name: string) => PdfFont | null;
-  private readonly state: TextState;
+  private readonly resolveFont: (name: string, resources: PdfDict | null) => PdfFont | null;
+  private readonly resolve: RefResolver | undefined;
+  private state: TextState;
   private readonly chars: ExtractedChar[] = [];
 
+  /** Resources of the content being processed */
+  private resources: PdfDict | null = null;
+
+  /** Form XObjects being processed, to break cycles */
+  private readonly activeForms = new Set<PdfStream>();
+
+  private readonly markedContent: MarkedContent[] = [];
+
+  /** Bounds of images painted inside marked content, for /Alt text */
+  private readonly figures: BoundingBox[] = [];
+
+  private readonly collectRulings: boolean;
+  private readonly rulings: Ruling[] = [];
+
+  /** Line segments of the path being built, and its current point */
+  private path: Segment[] = [];
+  private currentPoint: { x: number; y: number } | null = null;
+  private subpathStart: { x: number; y: number } | null = null;
+
   constructor(options: TextExtractorOptions) {
     this.resolveFont = options.resolveFont;
+    this.resolve = options.resolve;
+    this.collectRulings = options.collectRulings ?? false;
     this.state = new TextState();
   }
 
   /**
    * Extract all text from a content stream.
    *
+   * Characters accumulate across calls, so a page's content and then its
+   * annotations can be extracted into one result.
+   *
    * @param contentBytes - The raw content stream bytes
+   * @param resources - The content's /Resources dictionary, for fonts,
+   *   Form XObjects and marked-content properties
+   * @returns Array of extracted characters with positions
+   */
+  extract(contentBytes: Uint8Array, resources: PdfDict | null = null): ExtractedChar[] {
+    this.process(contentBytes, resources);
+
+    return this.chars;
+  }
+
+  /**
+   * Extract the text of an annotation: its normal appearance placed in its
+   * /Rect, or for a form field without an appearance, the field's value.
+   * Hidden annotations and popups are skipped.
+   *
+   * @param annotation - The annotation dictionary
    * @returns Array of extracted characters with positions
    */
-  extract(contentBytes: Uint8Array): ExtractedChar[] {
+  extractAnnotation(annotation: PdfDict): ExtractedChar[] {
+    const resolve = this.resolve;
+    const flags = annotation.getNumber("F", resolve)?.value ?? 0;
+    const subtype = annotation.getName("Subtype", resolve)?.value;
+
+    if (flags & (AnnotationFlags.Hidden | AnnotationFlags.NoView) || subtype === "Popup") {
+      return this.chars;
+    }
+
+    const rect = numbers(annotation.getArray("Rect", resolve));
+
+    if (rect.length < 4) {
+      return this.chars;
+    }
+
+    const [x1, y1, x2, y2] = rect;
+    const box = {
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+    };
+
+    // Appearances are drawn in default user space with a fresh graphics
+    // state, whatever the page content left behind
+    this.state = new TextState();
+    this.path = [];
+    this.currentPoint = null;
+    this.subpathStart = null;
+
+    const appearance = this.normalAppearance(annotation);
+
+    if (appearance) {
+      this.processForm(appearance, appearanceMatrix(appearance, box, resolve));
+    } else if (subtype === "Widget") {
+      this.addFieldValue(annotation, box);
+    }
+
+    return this.chars;
+  }
+
+  /**
+   * Get the rulings painted by everything extracted so far. Empty unless
+   * the extractor was created with `collectRulings`.
+   */
+  getRulings(): Ruling[] {
+    return this.rulings;
+  }
+
+  /**
+   * Process a content stream with the given resources in scope.
+   */
+  private process(contentBytes: Uint8Array, resources: PdfDict | null): void {
     const parser = new ContentStreamParser(contentBytes);
     const { operations } = parser.parse();
+    const outerResources = this.resources;
+    const outerDepth = this.markedContent.length;
+
+    this.resources = resources;
 
     for (const op of operations) {
       this.processOperation(op);
     }
 
-    return this.chars;
+    // Sequences left open by the stream end with it
+    while (this.markedContent.length > outerDepth) {
+      this.endMarkedContent();
+    }
+
+    this.resources = outerResources;
   }
 
   /**
    * Process a single content stream operation.
    */
   private processOperation(op: AnyOperation): void {
-    // Handle inline images separately
+    // Inline images only matter as figures for /Alt text
     if (isInlineImageOperation(op)) {
-      return; // Skip inline images
+      this.addFigure();
+
+      return;
     }
 
     const { operator, operands } = op;
@@ -169,6 +332,48 @@ export class TextExtractor {
         this.state.moveToNextLine();
         this.handleTj([operands[2]]);
         break;
+
+      // Path construction and painting
+      case "m":
+      case "l":
+      case "re":
+      case "c":
+      case "v":
+      case "y":
+      case "h":
+        this.buildPath(operator, operands);
+        break;
+
+      case "S":
+      case "s":
+      case "f":
+      case "F":
+      case "f*":
+      case "B":
+      case "B*":
+      case "b":
+      case "b*":
+      case "n":
+        this.paintPath(operator);
+        break;
+
+      // XObjects
+      case "Do":
+        this.handleDo(operands);
+        break;
+
+      // Marked content
+      case "BMC":
+        this.beginMarkedContent(undefined);
+        break;
+
+      case "BDC":
+        this.beginMarkedContent(operands[1]);
+        break;
+
+      case "EMC":
+        this.endMarkedContent();
+        break;
     }
   }
 
@@ -186,6 +391,113 @@ export class TextExtractor {
     );
   }
 
+  /**
+   * Add a path construction operator's line segments to the path, in page
+   * coordinates. Curves only move the current point: they aren't rulings.
+   */
+  private buildPath(operator: string, operands: ContentToken[]): void {
+    if (!this.collectRulings) {
+      return;
+    }
+
+    const { ctm } = this.state;
+    const point = (x: ContentToken | undefined, y: ContentToken | undefined) =>
+      ctm.transformPoint(this.getNumber(x), this.getNumber(y));
+
+    switch (operator) {
+      case "m":
+        this.currentPoint = point(operands[0], operands[1]);
+        this.subpathStart = this.currentPoint;
+        break;
+
+      case "l":
+        this.lineTo(point(operands[0], operands[1]));
+        break;
+
+      case "re": {
+        const [x, y, width, height] = operands.map(operand => this.getNumber(operand));
+        const corners = [
+          ctm.transformPoint(x, y),
+          ctm.transformPoint(x + width, y),
+          ctm.transformPoint(x + width, y + height),
+          ctm.transformPoint(x, y + height),
+        ];
+
+        corners.forEach((corner, i) => {
+          const next = corners[(i + 1) % 4];
+
+          this.path.push({ x1: corner.x, y1: corner.y, x2: next.x, y2: next.y });
+        });
+
+        this.currentPoint = corners[0];
+        this.subpathStart = corners[0];
+        break;
+      }
+
+      case "c":
+        this.currentPoint = point(operands[4], operands[5]);
+        break;
+
+      case "v":
+      case "y":
+        this.currentPoint = point(operands[2], operands[3]);
+        break;
+
+      case "h":
+        if (this.subpathStart) {
+          this.lineTo(this.subpathStart);
+        }
+        break;
+    }
+  }
+
+  private lineTo(to: { x: number; y: number }): void {
+    if (this.currentPoint) {
+      this.path.push({ x1: this.currentPoint.x, y1: this.currentPoint.y, x2: to.x, y2: to.y });
+    }
+
+    this.currentPoint = to;
+  }
+
+  /**
+   * End the path. Whether stroked or filled, its horizontal and vertical
+   * segments are rulings: tables draw rules as thin filled rectangles as
+   * often as stroked lines. `n` (used for clipping) paints nothing.
+   */
+  private paintPath(operator: string): void {
+    if (!this.collectRulings) {
+      return;
+    }
+
+    if ((operator === "s" || operator === "b" || operator === "b*") && this.subpathStart) {
+      this.lineTo(this.subpathStart);
+    }
+
+    if (operator !== "n") {
+      for (const { x1, y1, x2, y2 } of this.path) {
+        if (Math.abs(y1 - y2) <= RULING_SKEW && Math.abs(x1 - x2) > RULING_SKEW) {
+          this.rulings.push({
+            orientation: "horizontal",
+            position: (y1 + y2) / 2,
+            start: Math.min(x1, x2),
+            end: Math.max(x1, x2),
+          });
+        } else if (Math.abs(x1 - x2) <= RULING_SKEW && Math.abs(y1 - y2) > RULING_SKEW) {
+          this.rulings.push({
+            orientation: "vertical",
+            position: (x1 + x2) / 2,
+            start: Math.min(y1, y2),
+            end: Math.max(y1, y2),
+          });
+        }
+      }
+    }
+
+    this.path = [];
+    this.currentPoint = null;
+    this.subpathStart = null;
+  }
+
   /**
    * Handle Tf (set font and size) operator.
    */
@@ -194,13 +506,348 @@ export class TextExtractor {
     const fontSize = this.getNumber(operands[1]);
 
     if (fontName) {
-      const font = this.resolveFont(fontName);
+      const font = this.resolveFont(fontName, this.resources);
       this.state.font = font;
     }
 
     this.state.fontSize = fontSize;
   }
 
+  /**
+   * Handle Do: descend into a Form XObject, or note where an image is.
+   */
+  private handleDo(operands: ContentToken[]): void {
+    const name = this.getName(operands[0]);
+
+    if (!name || !this.resolve) {
+      return;
+    }
+
+    const xobject = this.resources?.getDict("XObject", this.resolve)?.get(name, this.resolve);
+
+    if (!(xobject instanceof PdfStream)) {
+      return;
+    }
+
+    const subtype = xobject.getName("Subtype", this.resolve)?.value;
+
+    if (subtype === "Image") {
+      this.addFigure();
+    } else if (subtype === "Form") {
+      const matrix = numbers(xobject.getArray("Matrix", this.resolve));
+
+      this.processForm(xobject, matrix.length === 6 ? Matrix.fromArray(matrix) : Matrix.identity());
+    }
+  }
+
+  /**
+   * Process a form's content with its resources, under `matrix` (form
+   * space to the current user space).
+   */
+  private processForm(form: PdfStream, matrix: Matrix): void {
+    if (this.activeForms.has(form)) {
+      return;
+    }
+
+    let content: Uint8Array;
+
+    try {
+      content = form.getDecodedData(this.resolve);
+    } catch {
+      // Undecodable form content shows no text we can read
+      return;
+    }
+
+    // Forms without resources use their parent's
+    const resources = form.getDict("Resources", this.resolve) ?? this.resources;
+
+    this.state.saveGraphicsState();
+    this.state.ctm = matrix.multiply(this.state.ctm);
+    this.activeForms.add(form);
+    this.process(content, resources);
+    this.activeForms.delete(form);
+    this.state.restoreGraphicsState();
+  }
+
+  /**
+   * Handle BMC and BDC: open a sequence, reading /ActualText and /Alt from
+   * its properties (inline, or named in /Resources/Properties).
+   */
+  private beginMarkedContent(properties: ContentToken | undefined): void {
+    let actualText: string | null = null;
+    let alt: string | null = null;
+    let mcid: number | null = null;
+
+    if (properties?.type === "dict") {
+      const actual = properties.entries.get("ActualText");
+      const description = properties.entries.get("Alt");
+      const id = properties.entries.get("MCID");
+
+      actualText = actual?.type === "string" ? decodeTextString(actual.value) : null;
+      alt = description?.type === "string" ? decodeTextString(description.value) : null;
+      mcid = id?.type === "number" ? id.value : null;
+    } else if (properties?.type === "name" && this.resolve) {
+      const dict = this.resources
+        ?.getDict("Properties", this.resolve)
+        ?.getDict(properties.value, this.resolve);
+      const actual = dict?.get("ActualText", this.resolve);
+      const description = dict?.get("Alt", this.resolve);
+
+      actualText = actual instanceof PdfString ? actual.asString() : null;
+      alt = description instanceof PdfString ? description.asString() : null;
+      mcid = dict?.getNumber("MCID", this.resolve)?.value ?? null;
+    }
+
+    // MCIDs inside forms belong to the form's own structure parents, so
+    // form content takes the ID of the sequence drawing the form
+    if (mcid === null || this.activeForms.size > 0) {
+      mcid = this.currentMcid();
+    }
+
+    this.markedContent.push({
+      start: this.chars.length,
+      figureStart: this.figures.length,
+      actualText,
+      alt,
+      mcid,
+    });
+  }
+
+  /**
+   * Handle EMC: replace the sequence's text with its /ActualText, or give
+   * a sequence of images without text its /Alt.
+   */
+  private endMarkedContent(): void {
+    const sequence = this.markedContent.pop();
+
+    if (!sequence) {
+      return;
+    }
+
+    if (sequence.actualText !== null) {
+      const replaced = this.chars.splice(sequence.start);
+
+      if (replaced.length > 0) {
+        const [first] = replaced;
+
+        this.placeText(
+          sequence.actualText,
+          mergeBboxes(replaced.map(char => char.bbox)),
+          first.baseline,
+          first.fontSize,
+          first.fontName,
+          sequence.mcid,
+        );
+      } else if (this.state.font) {
+        // Text for content with no glyphs (often a space) goes where the
+        // next glyph would
+        const bbox = this.state.getCharBbox(0);
+
+        this.placeText(
+          sequence.actualText,
+          bbox,
+          bbox.baseline,
+          this.state.effectiveFontSize,
+          this.state.font.baseFontName,
+          sequence.mcid,
+        );
+      }
+    } else if (
+      sequence.alt !== null &&
+      this.chars.length === sequence.start &&
+      this.figures.length > sequence.figureStart
+    ) {
+      const bbox = mergeBboxes(this.figures.slice(sequence.figureStart));
+      const fontSize = Math.min(bbox.height, 12);
+
+      this.placeText(
+        sequence.alt,
+        { x: bbox.x, y: bbox.y, width: bbox.width, height: fontSize },
+        bbox.y,
+        fontSize,
+        "",
+        sequence.mcid,
+      );
+    }
+
+    if (this.markedContent.length === 0) {
+      this.figures.length = 0;
+    }
+  }
+
+  /**
+   * Note the bounds of an image (the unit square under the CTM) while
+   * marked content is open.
+   */
+  private addFigure(): void {
+    if (this.markedContent.length === 0) {
+      return;
+    }
+
+    const { ctm } = this.state;
+    const corners = [
+      ctm.transformPoint(0, 0),
+      ctm.transformPoint(1, 0),
+      ctm.transformPoint(1, 1),
+      ctm.transformPoint(0, 1),
+    ];
+    const xs = corners.map(point => point.x);
+    const ys = corners.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+
+    this.figures.push({ x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y });
+  }
+
+  /**
+   * The normal appearance of an annotation: /AP /N, or for widgets with
+   * states, the entry for /AS.
+   */
+  private normalAppearance(annotation: PdfDict): PdfStream | null {
+    const resolve = this.resolve;
+    const normal = annotation.getDict("AP", resolve)?.get("N", resolve);
+
+    if (normal instanceof PdfStream) {
+      return normal;
+    }
+
+    const state = annotation.getName("AS", resolve)?.value;
+
+    if (normal instanceof PdfDict && state) {
+      const entry = normal.get(state, resolve);
+
+      return entry instanceof PdfStream ? entry : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Lay out a text or choice field's value in its widget's rectangle, for
+   * fields without an appearance. Glyph widths aren't known, so each
+   * character is given half an em.
+   */
+  private addFieldValue(widget: PdfDict, box: BoundingBox): void {
+    const type = this.inheritedField(widget, "FT");
+    const value = this.inheritedField(widget, "V");
+
+    if (!(type instanceof PdfName && (type.value === "Tx" || type.value === "Ch"))) {
+      return;
+    }
+
+    let text = "";
+
+    if (value instanceof PdfString) {
+      text = value.asString();
+    } else if (value instanceof PdfArray) {
+      // Multiple selections of a list box, one per line
+      text = value
+        .toArray()
+        .filter(item => item instanceof PdfString)
+        .map(item => item.asString())
+        .join("\n");
+    }
+
+    if (text.length === 0) {
+      return;
+    }
+
+    const da = this.inheritedField(widget, "DA");
+    const match = da instanceof PdfString ? /\/(\S+)\s+([\d.]+)\s+Tf/.exec(da.asString()) : null;
+
+    // A size of 0 means auto-size: fit the height, as viewers do
+    const fontSize = Number(match?.[2]) || Math.min(12, box.height * 0.7);
+    const fontName = match?.[1] ?? "";
+    const lines = text.split(/\r\n|\r|\n/);
+
+    lines.forEach((line, i) => {
+      // One line is centred vertically; more run down from the top
+      const baseline =
+        lines.length === 1
+          ? box.y + (box.height - fontSize) / 2 + fontSize * 0.2
+          : box.y + box.height - 2 - fontSize * (0.8 + i * 1.15);
+
+      this.placeText(
+        line,
+        {
+          x: box.x + 2,
+          y: baseline - fontSize * 0.2,
+          width: Array.from(line).length * fontSize * 0.5,
+          height: fontSize,
+        },
+        baseline,
+        fontSize,
+        fontName,
+      );
+    });
+  }
+
+  /**
+   * A field entry, inherited from parent fields.
+   */
+  private inheritedField(field: PdfDict, key: string): PdfObject | undefined {
+    const resolve = this.resolve;
+    let current: PdfDict | undefined = field;
+
+    for (let depth = 0; current && depth < MAX_FIELD_DEPTH; depth++) {
+      const value = current.get(key, resolve);
+
+      if (value !== undefined) {
+        return value;
+      }
+
+      current = current.getDict("Parent", resolve);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Add text spread evenly across a box, one character per code point.
+   */
+  private placeText(
+    text: string,
+    box: BoundingBox,
+    baseline: number,
+    fontSize: number,
+    fontName: string,
+    mcid = this.currentMcid(),
+  ): void {
+    const chars = Array.from(text);
+    const width = box.width / chars.length;
+
+    chars.forEach((char, i) => {
+      this.addChar(
+        {
+          char,
+          bbox: { x: box.x + i * width, y: box.y, width, height: box.height },
+          fontSize,
+          fontName,
+          baseline,
+        },
+        mcid,
+      );
+    });
+  }
+
+  /**
+   * Add a character, tagged with its marked-content ID if it has one.
+   */
+  private addChar(char: ExtractedChar, mcid: number | null): void {
+    if (mcid !== null) {
+      char.mcid = mcid;
+    }
+
+    this.chars.push(char);
+  }
+
+  /**
+   * The marked-content ID of the innermost open sequence.
+   */
+  private currentMcid(): number | null {
+    return this.markedContent.at(-1)?.mcid ?? null;
+  }
+
   /**
    * Handle Tj (show string) operator.
    */
@@ -229,7 +876,7 @@ export class TextExtractor {
         this.showString(item.value);
       } else if (item.type === "number") {
         // Position adjustment
-        this.state.applyTjAdjustment(item.value);
+        this.state.applyTjAdjustment(item.value, this.state.font?.isVertical);
       }
     }
   }
@@ -248,6 +895,12 @@ export class TextExtractor {
     // Decode bytes to character codes based on font type
     const codes = this.decodeStringToCodes(bytes, font);
 
+    if (font.isVertical) {
+      this.showVerticalCodes(codes, font);
+
+      return;
+    }
+
     for (const code of codes) {
       // Get Unicode character from font
       const char = font.toUnicode(code);
@@ -267,18 +920,21 @@ export class TextExtractor {
       const bbox = this.state.getCharBbox(width);
 
       // Create extracted character
-      this.chars.push({
-        char,
-        bbox: {
-          x: bbox.x,
-          y: bbox.y,
-          width: bbox.width,
-          height: bbox.height,
+      this.addChar(
+        {
+          char,
+          bbox: {
+            x: bbox.x,
+            y: bbox.y,
+            width: bbox.width,
+            height: bbox.height,
+          },
+          fontSize: this.state.effectiveFontSize,
+          fontName: font.baseFontName,
+          baseline: bbox.baseline,
         },
-        fontSize: this.state.effectiveFontSize,
-        fontName: font.baseFontName,
-        baseline: bbox.baseline,
-      });
+        this.currentMcid(),
+      );
 
       // Advance text position
       const isSpace = char === " " || char === "\u00A0"; // Space or non-breaking space
@@ -286,6 +942,38 @@ export class TextExtractor {
     }
   }
 
+  /**
+   * Show character codes in vertical writing mode: each glyph hangs from
+   * the current position by its vertical origin, and the position moves
+   * down the column. The baseline of a vertical character is the x of the
+   * column's centre line.
+   */
+  private showVerticalCodes(codes: number[], font: PdfFont): void {
+    for (const code of codes) {
+      const char = font.toUnicode(code);
+      const metrics = font.getVerticalMetrics(code);
+      const isSpace = char === " " || char === "\u00A0" || char === "\u3000";
+
+      if (char) {
+        const bbox = this.state.getCharBbox(font.getWidth(code), { x: metrics.vx, y: metrics.vy });
+
+        this.addChar(
+          {
+            char,
+            bbox: { x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height },
+            fontSize: this.state.effectiveFontSize,
+            fontName: font.baseFontName,
+            baseline: bbox.x + bbox.width / 2,
+            vertical: true,
+          },
+          this.currentMcid(),
+        );
+      }
+
+      this.state.advanceCharVertical(metrics.w1y, isSpace);
+    }
+  }
+
   /**
    * Decode string bytes to character codes.
    *
@@ -340,3 +1028,49 @@ export class TextExtractor {
     return null;
   }
 }
+
+/**
+ * The numbers in an array, with anything else read as 0.
+ */
+function numbers(array: PdfArray | undefined): number[] {
+  return array?.toArray().map(item => (item instanceof PdfNumber ? item.value : 0)) ?? [];
+}
+
+/**
+ * The matrix placing an appearance stream in its annotation's rectangle
+ * (PDF 1.7 section 12.5.5, Algorithm 8.1): the form's /Matrix, then a
+ * scale and translation taking the transformed /BBox onto /Rect.
+ */
+function appearanceMatrix(
+  appearance: PdfStream,
+  rect: BoundingBox,
+  resolve: RefResolver | undefined,
+): Matrix {
+  const values = numbers(appearance.getArray("Matrix", resolve));
+  const matrix = values.length === 6 ? Matrix.fromArray(values) : Matrix.identity();
+  const bbox = numbers(appearance.getArray("BBox", resolve));
+
+  if (bbox.length < 4) {
+    return matrix.multiply(Matrix.translate(rect.x, rect.y));
+  }
+
+  const [bx1, by1, bx2, by2] = bbox;
+  const corners = [
+    matrix.transformPoint(bx1, by1),
+    matrix.transformPoint(bx2, by1),
+    matrix.transformPoint(bx2, by2),
+    matrix.transformPoint(bx1, by2),
+  ];
+  const xs = corners.map(point => point.x);
+  const ys = corners.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const width = Math.max(...xs) - x;
+  const height = Math.max(...ys) - y;
+  const scaleX = width !== 0 ? rect.width / width : 1;
+  const scaleY = height !== 0 ? rect.height / height : 1;
+
+  return matrix.multiply(
+    new Matrix(scaleX, 0, 0, scaleY, rect.x - x * scaleX, rect.y - y * scaleY),
+  );
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 
+import { groupCharsIntoLines } from "./line-grouper";
 import { searchPage } from "./text-search";
 import type { ExtractedChar, PageText, TextLine, TextSpan } from "./types";
 
@@ -56,6 +57,8 @@ function createPageText(text: string, pageIndex = 0): PageText {
     height: 792,
     lines,
     text,
+    blocks: [],
+    paragraphs: [],
   };
 }
 
@@ -169,4 +172,32 @@ describe("TextSearch", () => {
       });
     });
   });
+
+  describe("right-to-left text", () => {
+    it("matches in logical order", () => {
+      // "מחיר שלום" set right to left: "שלום" is on the left of the page
+      const chars: ExtractedChar[] = Array.from("םולש ריחמ").map((char, i) => ({
+        char,
+        bbox: { x: i * 10, y: 0, width: 10, height: 12 },
+        fontSize: 12,
+        fontName: "Arial",
+        baseline: 10,
+      }));
+      const lines = groupCharsIntoLines(chars);
+      const pageText: PageText = {
+        pageIndex: 0,
+        width: 612,
+        height: 792,
+        lines,
+        text: lines.map(line => line.text).join("\n"),
+        blocks: [],
+        paragraphs: [],
+      };
+
+      const [match] = searchPage(pageText, "שלום");
+
+      expect(pageText.text).toBe("מחיר שלום");
+      expect(match.bbox).toMatchObject({ x: 0, width: 40 });
+    });
+  });
 });
@@ -35,6 +35,10 @@ export interface TextStateParams {
   rise: number;
   /** Text rendering mode (Tr) - 0=fill, 1=stroke, etc. */
   renderMode: number;
+  /** Font (Tf) */
+  font: PdfFont | null;
+  /** Font size (Tf) */
+  fontSize: number;
 }
 
 /**
@@ -181,14 +185,35 @@ export class TextState {
     this.tm = this.tm.translate(tx, 0);
   }
 
+  /**
+   * Advance the text position after showing a character in vertical writing
+   * mode. Horizontal scaling doesn't apply to vertical advances.
+   *
+   * @param w1y - Vertical displacement in glyph units (negative = down)
+   * @param isSpace - Whether this is a space character (for word spacing)
+   */
+  advanceCharVertical(w1y: number, isSpace: boolean): void {
+    // ty = w1y/1000 * Tfs + Tc + Tw
+    const ty = (w1y / 1000) * this.fontSize + this.charSpacing + (isSpace ? this.wordSpacing : 0);
+
+    this.tm = this.tm.translate(0, ty);
+  }
+
   /**
    * Apply a TJ position adjustment.
    *
    * @param adjustment - Adjustment in thousandths of an em
-   *                     Negative = move right, Positive = move left
+   *                     Negative = move right (or down, in vertical mode)
+   * @param vertical - Whether the font uses vertical writing mode
    */
-  applyTjAdjustment(adjustment: number): void {
-    // Adjustment is in thousandths of em, negative = move right
+  applyTjAdjustment(adjustment: number, vertical = false): void {
+    // Adjustment is in thousandths of em, negative = move right (or down)
+    if (vertical) {
+      this.tm = this.tm.translate(0, (-adjustment / 1000) * this.fontSize);
+
+      return;
+    }
+
     const tx = (-adjustment / 1000) * this.fontSize * (this.horizontalScale / 100);
     this.tm = this.tm.translate(tx, 0);
   }
@@ -206,6 +231,8 @@ export class TextState {
         leading: this.leading,
         rise: this.rise,
         renderMode: this.renderMode,
+        font: this.font,
+        fontSize: this.fontSize,
       },
     });
   }
@@ -224,6 +251,8 @@ export class TextState {
       this.leading = saved.textState.leading;
       this.rise = saved.textState.rise;
       this.renderMode = saved.textState.renderMode;
+      this.font = saved.textState.font;
+      this.fontSize = saved.textState.fontSize;
     }
   }
 
@@ -240,9 +269,15 @@ export class TextState {
    * Calculate the bounding box for a character at the current position.
    *
    * @param width - Character width in glyph units (1000 = 1 em)
+   * @param origin - Position vector (vx, vy) from the glyph's horizontal origin
+   *                 to the current position, in glyph units. Used in vertical
+   *                 writing mode, where glyphs hang from their vertical origin.
    * @returns Bounding box in user space
    */
-  getCharBbox(width: number): {
+  getCharBbox(
+    width: number,
+    origin?: { x: number; y: number },
+  ): {
     x: number;
     y: number;
     width: number;
@@ -275,6 +310,8 @@ export class TextState {
     const glyphWidthScaled = (width / 1000) * this.fontSize * (this.horizontalScale / 100);
     const glyphHeightScaled = ((ascender - descender) / 1000) * this.fontSize;
     const descenderScaled = (descender / 1000) * this.fontSize;
+    const originX = ((origin?.x ?? 0) / 1000) * this.fontSize * (this.horizontalScale / 100);
+    const originY = ((origin?.y ?? 0) / 1000) * this.fontSize;
 
     // Current text position from Tm (translation component)
     const textX = this.tm.e;
@@ -295,7 +332,7 @@ export class TextState {
       { x: glyphWidthScaled, y: descenderScaled }, // bottom-right
       { x: glyphWidthScaled, y: descenderScaled + glyphHeightScaled }, // top-right
       { x: 0, y: descenderScaled + glyphHeightScaled }, // top-left
-    ];
+    ].map(corner => ({ x: corner.x - originX, y: corner.y - originY }));
 
     // Transform each corner through combined matrix (without translation, then add it)
     // The Tm translation (e, f) positions the glyph, but we already have the baseline point
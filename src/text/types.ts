@@ -31,8 +31,27 @@ export interface ExtractedChar {
   fontSize: number;
   /** Font name (e.g., "Helvetica", "Arial-BoldMT") */
   fontName: string;
-  /** Y coordinate of the text baseline */
+  /** Y coordinate of the text baseline (for vertical text, the X of the column's centre line) */
   baseline: number;
+  /** Whether the character was set in vertical writing mode */
+  vertical?: boolean;
+  /** Marked-content ID linking the character to the structure tree (tagged PDFs) */
+  mcid?: number;
+}
+
+/**
+ * A horizontal or vertical line painted on the page, such as a table rule
+ * or the edge of a cell's rectangle, in page coordinates.
+ */
+export interface Ruling {
+  /** Horizontal rulings run along x, vertical ones along y */
+  orientation: "horizontal" | "vertical";
+  /** Y of a horizontal ruling, x of a vertical one */
+  position: number;
+  /** Lower end along the ruling's direction */
+  start: number;
+  /** Upper end along the ruling's direction */
+  end: number;
 }
 
 /**
@@ -61,8 +80,37 @@ export interface TextLine {
   bbox: BoundingBox;
   /** Individual spans within the line */
   spans: TextSpan[];
-  /** Y coordinate of the baseline */
+  /** Y coordinate of the baseline (for vertical lines, the X of the centre line) */
   baseline: number;
+  /** Whether the line runs top to bottom (vertical writing mode) */
+  vertical?: boolean;
+}
+
+/**
+ * A paragraph: consecutive lines of a block, read as running text.
+ */
+export interface TextParagraph {
+  /** Text of the lines joined with spaces, with line-end hyphenation removed */
+  text: string;
+  /** Bounding box around the paragraph */
+  bbox: BoundingBox;
+  /** The paragraph's lines */
+  lines: TextLine[];
+}
+
+/**
+ * A block of text set apart by whitespace: a column, a heading, a caption,
+ * or a structure element in tagged PDFs.
+ */
+export interface TextBlock {
+  /** Paragraph texts joined with newlines */
+  text: string;
+  /** Bounding box around the block */
+  bbox: BoundingBox;
+  /** The block's lines, top to bottom */
+  lines: TextLine[];
+  /** The block's paragraphs */
+  paragraphs: TextParagraph[];
 }
 
 /**
@@ -79,6 +127,10 @@ export interface PageText {
   lines: TextLine[];
   /** Plain text content (lines joined with newlines) */
   text: string;
+  /** Blocks in reading order (columns are read one after another) */
+  blocks: TextBlock[];
+  /** Paragraphs of all blocks in reading order */
+  paragraphs: TextParagraph[];
 }
 
 /**
@@ -104,6 +156,12 @@ export interface ExtractTextOptions {
    * Default: true (needed for search support)
    */
   includeChars?: boolean;
+  /**
+   * Include the text of annotation appearances (stamps, free text, filled
+   * form fields) and the values of form fields without appearances.
+   * Default: false
+   */
+  includeAnnotations?: boolean;
 }
 
 /**
@@ -116,6 +174,65 @@ export interface FindTextOptions {
   caseSensitive?: boolean;
   /** Match whole words only (default: false) */
   wholeWord?: boolean;
+  /** Also search annotation and form field text (default: false) */
+  includeAnnotations?: boolean;
+}
+
+/**
+ * A table cell. Merged cells cover several rows or columns of the grid.
+ */
+export interface TableCell {
+  /** Text of the cell's lines, joined with spaces */
+  text: string;
+  /** Bounding box of the cell (its rules, or its row and columns) */
+  bbox: BoundingBox;
+  /** Index of the cell's first row */
+  row: number;
+  /** Index of the cell's first column */
+  column: number;
+  /** Number of rows the cell covers */
+  rowSpan: number;
+  /** Number of columns the cell covers */
+  columnSpan: number;
+}
+
+/**
+ * A table row.
+ */
+export interface TableRow {
+  /** Bounding box of the row */
+  bbox: BoundingBox;
+  /** Cells starting in this row, left to right */
+  cells: TableCell[];
+}
+
+/**
+ * Options for table extraction.
+ */
+export interface ExtractTablesOptions {
+  /**
+   * How tables are found: from ruling lines ("lattice"), from the alignment
+   * of text in columns ("stream"), or both ("auto"), with ruled tables
+   * taking precedence.
+   * Default: "auto"
+   */
+  method?: "auto" | "lattice" | "stream";
+  /**
+   * Minimum number of rows in a table.
+   * Default: 2
+   */
+  minRows?: number;
+  /**
+   * Minimum number of columns in a table.
+   * Default: 2
+   */
+  minColumns?: number;
+  /**
+   * Narrowest gap between columns of a table without rules, as a factor of
+   * the font size.
+   * Default: 1
+   */
+  columnGap?: number;
 }
 
 /**
@@ -9,8 +9,8 @@
 
 import { clearAllDirtyFlags, collectChanges } from "#src/document/change-collector";
 import type { ObjectRegistry } from "#src/document/object-registry";
-import { FilterPipeline } from "#src/filters/filter-pipeline";
 import { CR, LF } from "#src/helpers/chars";
+import type { RefResolver } from "#src/helpers/types";
 import { ByteWriter } from "#src/io/byte-writer";
 import { PdfArray } from "#src/objects/pdf-array";
 import { PdfDict } from "#src/objects/pdf-dict";
@@ -19,8 +19,9 @@ import type { PdfObject } from "#src/objects/pdf-object";
 import { PdfRef } from "#src/objects/pdf-ref";
 import { PdfStream } from "#src/objects/pdf-stream";
 import { PdfString } from "#src/objects/pdf-string";
-import type { StandardSecurityHandler } from "#src/security/standard-handler";
+import type { SecurityHandler } from "#src/security/security-handler";
 
+import { type CompressionPolicy, compressStream, toCompressionPolicy } from "./stream-compression";
 import { writeXRefStream, writeXRefTable, type XRefWriteEntry } from "./xref-writer";
 
 /**
@@ -46,13 +47,15 @@ export interface WriteOptions {
   useXRefStream?: boolean;
 
   /**
-   * Compress uncompressed streams with FlateDecode (default: true).
+   * Compress uncompressed streams (default: true, FlateDecode).
    *
    * When enabled, streams without a /Filter entry will be compressed
    * before writing. Streams that already have filters (including image
-   * formats like DCTDecode/JPXDecode) are left unchanged.
+   * formats like DCTDecode/JPXDecode) are left unchanged. A
+   * `CompressionPolicy` chooses the filter, Flate level and image
+   * predictors, per kind of stream.
    */
-  compressStreams?: boolean;
+  compressStreams?: boolean | CompressionPolicy;
 
   /**
    * Security handler for encrypting content.
@@ -60,7 +63,7 @@ export interface WriteOptions {
    * When provided, strings and streams will be encrypted before writing.
    * The encrypt dictionary reference must also be provided.
    */
-  securityHandler?: StandardSecurityHandler;
+  securityHandler?: SecurityHandler;
 }
 
 /**
@@ -97,57 +100,23 @@ function writeIndirectObject(writer: ByteWriter, ref: PdfRef, obj: PdfObject): v
 }
 
 /**
- * Prepare an object for writing, applying compression if needed.
- *
- * For PdfStream objects without a /Filter entry, compresses the data
- * with FlateDecode and returns a new stream with the compressed data.
- * The original stream is not modified.
- *
- * Streams that already have filters are returned unchanged - this includes
- * image formats (DCTDecode, JPXDecode, etc.) that are already compressed.
+ * Prepare an object for writing, compressing streams without a /Filter
+ * as the policy says (see `compressStream()`). The original is not
+ * modified.
  */
-function prepareObjectForWrite(obj: PdfObject, compress: boolean): PdfObject {
-  // Only process streams
-  if (!(obj instanceof PdfStream)) {
-    return obj;
-  }
-
-  // Already has a filter - leave it alone
-  if (obj.has("Filter")) {
-    return obj;
-  }
-
-  // Compression disabled
-  if (!compress) {
-    return obj;
-  }
-
-  // Empty streams don't need compression
-  if (obj.data.length === 0) {
-    return obj;
-  }
-
-  // Compress with FlateDecode
-  const compressed = FilterPipeline.encode(obj.data, { name: "FlateDecode" });
-
-  // Only use compression if it actually reduces size
-  if (compressed.length >= obj.data.length) {
-    return obj;
-  }
-
-  // Create a new stream with compressed data
-  // Copy all existing entries from the original stream
-  const compressedStream = new PdfStream(obj, compressed);
-  compressedStream.set("Filter", PdfName.of("FlateDecode"));
-
-  return compressedStream;
+function prepareObjectForWrite(
+  obj: PdfObject,
+  policy: CompressionPolicy,
+  resolve: RefResolver,
+): PdfObject {
+  return obj instanceof PdfStream ? compressStream(obj, policy, resolve) : obj;
 }
 
 /**
  * Encryption context for writing.
  */
 interface EncryptionContext {
-  handler: StandardSecurityHandler;
+  handler: SecurityHandler;
   objectNumber: number;
   generation: number;
 }
@@ -321,7 +290,8 @@ function collectReachableRefs(
  */
 export function writeComplete(registry: ObjectRegistry, options: WriteOptions): WriteResult {
   const writer = new ByteWriter();
-  const compress = options.compressStreams ?? true;
+  const policy = toCompressionPolicy(options.compressStreams);
+  const resolve = registry.resolve.bind(registry);
 
   // Version
   const version = options.version ?? "1.7";
@@ -346,7 +316,7 @@ export function writeComplete(registry: ObjectRegistry, options: WriteOptions):
       continue; // Skip orphan objects
     }
     // Prepare object (compress streams if needed)
-    let prepared = prepareObjectForWrite(obj, compress);
+    let prepared = prepareObjectForWrite(obj, policy, resolve);
 
     // Apply encryption if security handler is provided
     // Skip encrypting the /Encrypt dictionary itself
@@ -466,7 +436,8 @@ export function writeIncremental(
     };
   }
 
-  const compress = options.compressStreams ?? true;
+  const policy = toCompressionPolicy(options.compressStreams);
+  const resolve = registry.resolve.bind(registry);
 
   // Initialize ByteWriter with original bytes
   const writer = new ByteWriter(options.originalBytes);
@@ -483,7 +454,7 @@ export function writeIncremental(
 
   // Write modified objects
   for (const [ref, obj] of changes.modified) {
-    let prepared = prepareObjectForWrite(obj, compress);
+    let prepared = prepareObjectForWrite(obj, policy, resolve);
 
     // Apply encryption if security handler is provided
     // Skip encrypting the /Encrypt dictionary itself
@@ -505,7 +476,7 @@ export function writeIncremental(
 
   // Write new objects
   for (const [ref, obj] of changes.created) {
-    let prepared = prepareObjectForWrite(obj, compress);
+    let prepared = prepareObjectForWrite(obj, policy, resolve);
 
     // Apply encryption if security handler is provided
     // Skip encrypting the /Encrypt dictionary itself
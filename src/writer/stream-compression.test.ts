@@ -0,0 +1,161 @@
+import { PdfArray } from "#src/objects/pdf-array";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import type { PdfObject } from "#src/objects/pdf-object";
+import { PdfRef } from "#src/objects/pdf-ref";
+import { PdfStream } from "#src/objects/pdf-stream";
+import { describe, expect, it } from "vitest";
+
+import { compressStream, toCompressionPolicy } from "./stream-compression";
+
+const resolve = () => null;
+
+const TEXT = new TextEncoder().encode("BT /F1 12 Tf 72 720 Td (Hello) Tj ET\n".repeat(50));
+
+/**
+ * A smooth RGB gradient, which PNG predictors shrink well.
+ */
+function gradient(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+
+      data[i] = x;
+      data[i + 1] = y;
+      data[i + 2] = (x + y) >> 1;
+    }
+  }
+
+  return data;
+}
+
+function imageStream(entries: Record<string, PdfObject> = {}): PdfStream {
+  return PdfStream.fromDict(
+    {
+      Type: PdfName.of("XObject"),
+      Subtype: PdfName.of("Image"),
+      Width: PdfNumber.of(64),
+      Height: PdfNumber.of(64),
+      ColorSpace: PdfName.of("DeviceRGB"),
+      BitsPerComponent: PdfNumber.of(8),
+      ...entries,
+    },
+    gradient(64, 64),
+  );
+}
+
+describe("toCompressionPolicy", () => {
+  it("maps booleans to policies", () => {
+    expect(toCompressionPolicy(undefined)).toEqual({});
+    expect(toCompressionPolicy(true)).toEqual({});
+    expect(toCompressionPolicy(false)).toEqual({ filter: "none" });
+    expect(toCompressionPolicy({ level: 9 })).toEqual({ level: 9 });
+  });
+});
+
+describe("compressStream", () => {
+  it("compresses with Flate by default", () => {
+    const stream = new PdfStream([], TEXT);
+    const compressed = compressStream(stream, {}, resolve);
+
+    expect(compressed).not.toBe(stream);
+    expect(compressed.getName("Filter")?.value).toBe("FlateDecode");
+    expect(compressed.getDecodedData()).toEqual(TEXT);
+
+    // The original is untouched
+    expect(stream.has("Filter")).toBe(false);
+  });
+
+  it("compresses with LZW", () => {
+    const compressed = compressStream(new PdfStream([], TEXT), { filter: "LZWDecode" }, resolve);
+
+    expect(compressed.getName("Filter")?.value).toBe("LZWDecode");
+    expect(compressed.getDecodedData()).toEqual(TEXT);
+  });
+
+  it("uses the Flate level", () => {
+    const fast = compressStream(new PdfStream([], TEXT), { level: 1 }, resolve);
+    const best = compressStream(new PdfStream([], TEXT), { level: 9 }, resolve);
+
+    expect(best.data.length).toBeLessThanOrEqual(fast.data.length);
+  });
+
+  it("lets each kind of stream override the defaults", () => {
+    const policy = {
+      filter: "LZWDecode" as const,
+      fonts: { filter: "FlateDecode" as const },
+      metadata: { filter: "none" as const },
+    };
+    const font = PdfStream.fromDict({ Length1: PdfNumber.of(TEXT.length) }, TEXT);
+    const fontFile3 = PdfStream.fromDict({ Subtype: PdfName.of("Type1C") }, TEXT);
+    const metadata = PdfStream.fromDict(
+      { Type: PdfName.of("Metadata"), Subtype: PdfName.of("XML") },
+      TEXT,
+    );
+
+    expect(compressStream(new PdfStream([], TEXT), policy, resolve).getName("Filter")?.value).toBe(
+      "LZWDecode",
+    );
+    expect(compressStream(font, policy, resolve).getName("Filter")?.value).toBe("FlateDecode");
+    expect(compressStream(fontFile3, policy, resolve).getName("Filter")?.value).toBe("FlateDecode");
+    expect(compressStream(metadata, policy, resolve)).toBe(metadata);
+  });
+
+  it("adds PNG predictors to images when asked", () => {
+    const plain = compressStream(imageStream(), {}, resolve);
+    const predicted = compressStream(imageStream(), { images: { predictor: true } }, resolve);
+    const params = predicted.getDict("DecodeParms");
+
+    expect(plain.has("DecodeParms")).toBe(false);
+    expect(params?.getNumber("Predictor")?.value).toBe(15);
+    expect(params?.getNumber("Colors")?.value).toBe(3);
+    expect(params?.getNumber("Columns")?.value).toBe(64);
+    expect(predicted.data.length).toBeLessThan(plain.data.length);
+    expect(predicted.getDecodedData()).toEqual(gradient(64, 64));
+  });
+
+  it("counts components of indirect colour spaces for predictors", () => {
+    const ref = PdfRef.of(9, 0);
+    const indexed = new PdfArray([
+      PdfName.of("Indexed"),
+      PdfName.of("DeviceRGB"),
+      PdfNumber.of(255),
+      PdfStream.fromDict({}, new Uint8Array(768)),
+    ]);
+    const image = imageStream({ ColorSpace: ref, Width: PdfNumber.of(192) });
+    const compressed = compressStream(image, { images: { predictor: true } }, r =>
+      r === ref ? indexed : null,
+    );
+
+    expect(compressed.getDict("DecodeParms")?.getNumber("Colors")?.value).toBe(1);
+  });
+
+  it("skips predictors for images whose data doesn't match their size", () => {
+    const compressed = compressStream(
+      imageStream({ Height: PdfNumber.of(10) }),
+      { images: { predictor: true } },
+      resolve,
+    );
+
+    expect(compressed.getName("Filter")?.value).toBe("FlateDecode");
+    expect(compressed.has("DecodeParms")).toBe(false);
+  });
+
+  it("ignores predictors for streams other than images", () => {
+    const compressed = compressStream(new PdfStream([], TEXT), { predictor: true }, resolve);
+
+    expect(compressed.has("DecodeParms")).toBe(false);
+  });
+
+  it("leaves filtered, empty and incompressible streams alone", () => {
+    const filtered = PdfStream.fromDict({ Filter: PdfName.of("DCTDecode") }, TEXT);
+    const empty = new PdfStream([], new Uint8Array(0));
+    const tiny = new PdfStream([], new Uint8Array([1, 2, 3]));
+
+    expect(compressStream(filtered, {}, resolve)).toBe(filtered);
+    expect(compressStream(empty, {}, resolve)).toBe(empty);
+    expect(compressStream(tiny, {}, resolve)).toBe(tiny);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Compression of streams on write.
+ *
+ * Streams without a /Filter (new content, decoded data set with
+ * `setData()`) are compressed as they're written, following a
+ * `CompressionPolicy`. Streams that already have filters are left alone.
+ */
+
+import { FilterPipeline } from "#src/filters/filter-pipeline";
+import { colorSpaceComponents, parseColorSpace } from "#src/helpers/colorspace";
+import type { RefResolver } from "#src/helpers/types";
+import { PdfDict } from "#src/objects/pdf-dict";
+import { PdfName } from "#src/objects/pdf-name";
+import { PdfNumber } from "#src/objects/pdf-number";
+import { PdfStream } from "#src/objects/pdf-stream";
+
+/**
+ * Filter streams are compressed with, or "none" to write them as they are.
+ */
+export type CompressionFilter = "FlateDecode" | "LZWDecode" | "none";
+
+/**
+ * How one kind of stream is compressed.
+ */
+export interface StreamCompression {
+  /** Filter to compress with. Default: "FlateDecode" */
+  filter?: CompressionFilter;
+
+  /** Flate compression level, 0 (store) to 9 (smallest). Default: 6 */
+  level?: number;
+
+  /**
+   * Apply PNG predictors (/Predictor 15) before compressing. Only used
+   * for image XObjects; usually shrinks photos and gradients. Default: false
+   */
+  predictor?: boolean;
+}
+
+/**
+ * How streams without a /Filter are compressed on write.
+ *
+ * The top-level settings apply to every stream; the entries for each
+ * kind of stream override them.
+ *
+ * @example
+ * ```typescript
+ * // LZW everywhere, for a RIP that predates Flate
+ * const policy: CompressionPolicy = { filter: "LZWDecode" };
+ *
+ * // Smallest Flate, with predictors for images and XMP left readable
+ * const policy: CompressionPolicy = {
+ *   level: 9,
+ *   images: { predictor: true },
+ *   metadata: { filter: "none" },
+ * };
+ * ```
+ */
+export interface CompressionPolicy extends StreamCompression {
+  /** Image XObjects (including soft masks) */
+  images?: StreamCompression;
+
+  /** Embedded font programs */
+  fonts?: StreamCompression;
+
+  /** XMP metadata streams */
+  metadata?: StreamCompression;
+
+  /** Content streams, form XObjects and all other streams */
+  other?: StreamCompression;
+}
+
+/**
+ * The policy for a `compressStreams` option: `true` (or unset) compresses
+ * everything with default Flate, `false` nothing.
+ */
+export function toCompressionPolicy(
+  compressStreams: boolean | CompressionPolicy | undefined,
+): CompressionPolicy {
+  if (compressStreams === false) {
+    return { filter: "none" };
+  }
+
+  return compressStreams === true || compressStreams === undefined ? {} : compressStreams;
+}
+
+/**
+ * Compress a stream without a /Filter as the policy says.
+ *
+ * Returns a new stream with the compressed data, or the original if it
+ * already has a filter, is empty, or wouldn't get any smaller. The
+ * original stream is not modified.
+ *
+ * @throws {Error} If the policy has an invalid compression level
+ */
+export function compressStream(
+  stream: PdfStream,
+  policy: CompressionPolicy,
+  resolve: RefResolver,
+): PdfStream {
+  if (stream.has("Filter") || stream.data.length === 0) {
+    return stream;
+  }
+
+  const kind = streamKind(stream);
+  const settings = { ...policy, ...policy[kind] };
+  const filter = settings.filter ?? "FlateDecode";
+
+  if (filter === "none") {
+    return stream;
+  }
+
+  const params = settings.predictor && kind === "images" ? predictorParams(stream, resolve) : null;
+  const compressed = FilterPipeline.encode(
+    stream.data,
+    { name: filter, params: params ?? undefined },
+    { level: settings.level },
+  );
+
+  // Only use compression if it actually reduces size
+  if (compressed.length >= stream.data.length) {
+    return stream;
+  }
+
+  // Copy all existing entries from the original stream
+  const compressedStream = new PdfStream(stream, compressed);
+
+  compressedStream.set("Filter", PdfName.of(filter));
+
+  if (params) {
+    compressedStream.set("DecodeParms", params);
+  }
+
+  return compressedStream;
+}
+
+/**
+ * Which of the policy's kinds a stream is, from its dictionary.
+ */
+function streamKind(stream: PdfStream): "images" | "fonts" | "metadata" | "other" {
+  const subtype = stream.getName("Subtype")?.value;
+
+  if (subtype === "Image") {
+    return "images";
+  }
+
+  // FontFile and FontFile2 have /Length1; FontFile3 a font subtype
+  if (
+    stream.has("Length1") ||
+    subtype === "Type1C" ||
+    subtype === "CIDFontType0C" ||
+    subtype === "OpenType"
+  ) {
+    return "fonts";
+  }
+
+  if (stream.getName("Type")?.value === "Metadata") {
+    return "metadata";
+  }
+
+  return "other";
+}
+
+/**
+ * PNG predictor /DecodeParms for an image's samples, or null when its
+ * layout isn't known (unparseable colour space, data of the wrong size).
+ */
+function predictorParams(image: PdfStream, resolve: RefResolver): PdfDict | null {
+  const width = image.getNumber("Width", resolve)?.value ?? 0;
+  const height = image.getNumber("Height", resolve)?.value ?? 0;
+  const imageMask = image.getBool("ImageMask", resolve)?.value ?? false;
+  const bitsPerComponent = imageMask
+    ? 1
+    : (image.getNumber("BitsPerComponent", resolve)?.value ?? 8);
+  const colorSpace = image.get("ColorSpace", resolve);
+  let colors = 1;
+
+  if (!imageMask) {
+    if (!colorSpace) {
+      return null;
+    }
+
+    try {
+      colors = colorSpaceComponents(parseColorSpace(colorSpace, resolve));
+    } catch {
+      return null;
+    }
+  }
+
+  const rowBytes = Math.ceil((width * colors * bitsPerComponent) / 8);
+
+  if (!(width > 0 && height > 0) || image.data.length !== rowBytes * height) {
+    return null;
+  }
+
+  return PdfDict.of({
+    Predictor: PdfNumber.of(15),
+    Colors: PdfNumber.of(colors),
+    BitsPerComponent: PdfNumber.of(bitsPerComponent),
+    Columns: PdfNumber.of(width),
+  });
+}